@@ -13,6 +13,8 @@ const envSchema = z.object({
   JWT_SECRET: z.string().min(32, 'JWT_SECRET must be at least 32 characters'),
   JWT_ACCESS_EXPIRY: z.string().default('15m'),
   JWT_REFRESH_EXPIRY: z.string().default('7d'),
+  // Use 'none' when the web app is served from another site than the API
+  AUTH_COOKIE_SAME_SITE: z.enum(['strict', 'lax', 'none']).default('strict'),
 
   FRONTEND_URL: z.string().url().default('http://localhost:5173'),
 
@@ -24,6 +26,35 @@ const envSchema = z.object({
     .transform((val) => parseInt(val, 10)),
   RATE_LIMIT_WINDOW: z.string().default('1 minute'),
 
+  SPEECH_RECOGNIZER: z.enum(['whisper-server', 'none']).default('none'),
+  SPEECH_RECOGNIZER_URL: z.string().url().optional(),
+  SPEECH_RECOGNIZER_TIMEOUT_MS: z
+    .string()
+    .default('30000')
+    .transform((val) => parseInt(val, 10)),
+
+  AUDIO_STORAGE_PATH: z.string().default('/app/uploads/audio'),
+
+  MAILER: z.enum(['smtp', 'file', 'console']).default('console'),
+  MAIL_FROM: z.string().default('PolyLadder <no-reply@polyladder.local>'),
+  MAILER_FILE_PATH: z.string().optional(),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z
+    .string()
+    .default('587')
+    .transform((val) => parseInt(val, 10)),
+  SMTP_SECURE: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((val) => val === 'true'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+
+  ACCOUNT_DELETION_GRACE_DAYS: z
+    .string()
+    .default('30')
+    .transform((val) => parseInt(val, 10)),
+
   APP_VERSION: z.string().optional().default('0.1.0'),
 });
 
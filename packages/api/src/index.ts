@@ -2,6 +2,7 @@ export const API_VERSION = '0.1.0';
 
 export { default as authorizationPlugin } from './plugins/authorization';
 export { authMiddleware, optionalAuthMiddleware } from './middleware/auth';
+export { requirePermission } from './middleware/authorize';
 export { requestLoggerMiddleware, responseLoggerHook } from './middleware/request-logger';
 export {
   protectRoute,
@@ -14,6 +15,9 @@ export { buildServer, startServer, closeServer } from './server';
 export { validateEnv, getEnv, resetEnv } from './config/env';
 export type { Env } from './config/env';
 
+export { OPERATOR_ROLES, PERMISSIONS, ROLE_PERMISSIONS } from './services/access';
+export type { OperatorRole, Permission } from './services/access';
+
 export * from './schemas/common';
 export * from './utils/db.utils';
 
@@ -0,0 +1,28 @@
+import { Pool } from 'pg';
+import { logger } from '../utils/logger';
+import { FSRSMigrationService } from '../services/srs/fsrs-migration.service';
+
+function getDatabaseUrl(): string {
+  const url = process.env.DATABASE_URL;
+  if (!url) {
+    throw new Error('DATABASE_URL environment variable is required');
+  }
+  return url;
+}
+
+async function main(): Promise<void> {
+  const pool = new Pool({ connectionString: getDatabaseUrl() });
+
+  try {
+    logger.info('Estimating FSRS memory state for existing SRS items');
+    const result = await new FSRSMigrationService(pool).migrateAll();
+    logger.info(result, 'FSRS memory state migration completed');
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error: Error) => {
+  logger.error({ err: error }, 'FSRS memory state migration failed');
+  process.exit(1);
+});
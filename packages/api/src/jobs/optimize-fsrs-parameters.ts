@@ -0,0 +1,32 @@
+import { Pool } from 'pg';
+import { logger } from '../utils/logger';
+import { FSRSOptimizationService } from '../services/srs/fsrs-optimization.service';
+
+function getDatabaseUrl(): string {
+  const url = process.env.DATABASE_URL;
+  if (!url) {
+    throw new Error('DATABASE_URL environment variable is required');
+  }
+  return url;
+}
+
+function getBatchSize(): number {
+  return parseInt(process.env.FSRS_OPTIMIZER_BATCH_SIZE ?? '100', 10);
+}
+
+async function main(): Promise<void> {
+  const pool = new Pool({ connectionString: getDatabaseUrl() });
+
+  try {
+    logger.info('Fitting personalized FSRS parameters');
+    const optimized = await new FSRSOptimizationService(pool).optimizePendingUsers(getBatchSize());
+    logger.info({ optimized }, 'FSRS parameter optimization completed');
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error: Error) => {
+  logger.error({ err: error }, 'FSRS parameter optimization failed');
+  process.exit(1);
+});
@@ -0,0 +1,32 @@
+import { Pool } from 'pg';
+import { logger } from '../utils/logger';
+import { AccountPurgeService } from '../services/account';
+
+function getDatabaseUrl(): string {
+  const url = process.env.DATABASE_URL;
+  if (!url) {
+    throw new Error('DATABASE_URL environment variable is required');
+  }
+  return url;
+}
+
+function getBatchSize(): number {
+  return parseInt(process.env.ACCOUNT_PURGE_BATCH_SIZE ?? '100', 10);
+}
+
+async function main(): Promise<void> {
+  const pool = new Pool({ connectionString: getDatabaseUrl() });
+
+  try {
+    logger.info('Purging accounts past their deletion grace period');
+    const purged = await new AccountPurgeService(pool).purgeExpired(getBatchSize());
+    logger.info({ purged }, 'Account purge completed');
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error: Error) => {
+  logger.error({ err: error }, 'Account purge failed');
+  process.exit(1);
+});
@@ -0,0 +1,90 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { getEnv } from '../config/env';
+import { OperatorAccessService, Permission } from '../services/access';
+import { TwoFactorService } from '../services/auth';
+
+/**
+ * Route guard for operator routes; runs after authMiddleware:
+ *
+ *   preHandler: [authMiddleware, requirePermission('content:review')]
+ *
+ * Learners and operators without a role granting the permission get 403,
+ * as do operators the 2FA policy covers until they enroll.
+ */
+export function requirePermission(permission: Permission) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.user) {
+      return reply.status(401).send({
+        error: {
+          statusCode: 401,
+          message: 'Authentication required',
+          requestId: request.id,
+          code: 'UNAUTHORIZED',
+        },
+      });
+    }
+
+    if (request.user.role !== 'operator') {
+      return reply.status(403).send({
+        error: {
+          statusCode: 403,
+          message: 'Operator role required',
+          requestId: request.id,
+          code: 'FORBIDDEN',
+        },
+      });
+    }
+
+    const accessService = new OperatorAccessService(request.server.db);
+    if (!(await accessService.hasPermission(request.user.userId, permission))) {
+      return reply.status(403).send({
+        error: {
+          statusCode: 403,
+          message: `Permission ${permission} required`,
+          requestId: request.id,
+          code: 'FORBIDDEN',
+        },
+      });
+    }
+
+    const twoFactorService = new TwoFactorService(request.server.db, getEnv().JWT_SECRET);
+    if (await twoFactorService.isEnrollmentOverdue(request.user.userId)) {
+      return reply.status(403).send({
+        error: {
+          statusCode: 403,
+          message: 'Set up two-factor authentication to continue',
+          requestId: request.id,
+          code: 'TWO_FACTOR_REQUIRED',
+        },
+      });
+    }
+  };
+}
+
+/**
+ * Route guard for routes of any operator, whatever their roles; runs
+ * after authMiddleware. Also behind fastify.requireOperator().
+ */
+export async function requireOperator(request: FastifyRequest, reply: FastifyReply) {
+  if (!request.user) {
+    return reply.status(401).send({
+      error: {
+        statusCode: 401,
+        message: 'Authentication required',
+        requestId: request.id,
+        code: 'UNAUTHORIZED',
+      },
+    });
+  }
+
+  if (request.user.role !== 'operator') {
+    return reply.status(403).send({
+      error: {
+        statusCode: 403,
+        message: 'Operator role required',
+        requestId: request.id,
+        code: 'FORBIDDEN',
+      },
+    });
+  }
+}
@@ -0,0 +1,34 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+
+/**
+ * Route guard for accounts that have not confirmed their email address;
+ * runs after authMiddleware and lets unauthenticated requests through to
+ * the route's own handling
+ *
+ * Unverified accounts can sign in, read their profile and ask for a new
+ * verification mail, but get 403 EMAIL_NOT_VERIFIED everywhere else.
+ */
+export async function requireVerifiedEmail(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  if (!request.user) {
+    return;
+  }
+
+  const result = await request.server.db.query<{ email_verified_at: Date | null }>(
+    `SELECT email_verified_at FROM users WHERE id = $1`,
+    [request.user.userId]
+  );
+
+  if (!result.rows[0]?.email_verified_at) {
+    await reply.status(403).send({
+      error: {
+        statusCode: 403,
+        message: 'Confirm your email address to continue',
+        requestId: request.id,
+        code: 'EMAIL_NOT_VERIFIED',
+      },
+    });
+  }
+}
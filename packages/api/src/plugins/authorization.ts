@@ -1,5 +1,7 @@
 import { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
 import fp from 'fastify-plugin';
+import { requireOperator, requirePermission } from '../middleware/authorize';
+import { Permission } from '../services/access';
 
 const authorizationPlugin: FastifyPluginAsync = async (fastify) => {
   fastify.decorate('requireAuth', function (): (
@@ -21,20 +23,17 @@ const authorizationPlugin: FastifyPluginAsync = async (fastify) => {
     reply: FastifyReply
   ) => Promise<void> {
     return async function (request: FastifyRequest, reply: FastifyReply) {
-      if (!request.user) {
-        await reply.status(401).send({
-          error: 'Unauthorized',
-          message: 'Authentication required',
-        });
-        return;
-      }
+      await requireOperator(request, reply);
+    };
+  });
 
-      if (request.user.role !== 'operator') {
-        await reply.status(403).send({
-          error: 'Forbidden',
-          message: 'Operator role required',
-        });
-      }
+  fastify.decorate('requirePermission', function (permission: Permission): (
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) => Promise<void> {
+    const guard = requirePermission(permission);
+    return async function (request: FastifyRequest, reply: FastifyReply) {
+      await guard(request, reply);
     };
   });
 
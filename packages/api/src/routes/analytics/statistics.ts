@@ -140,6 +140,23 @@ const HeatmapResponseSchema = Type.Object({
   heatmap: Type.Array(ActivityHeatmapCellSchema),
 });
 
+const HintUsageResponseSchema = Type.Object({
+  hints: Type.Object({
+    totalHints: Type.Number(),
+    itemsHinted: Type.Number(),
+    reveals: Type.Number(),
+    byExerciseType: Type.Array(
+      Type.Object({
+        exerciseType: Type.String(),
+        hintsUsed: Type.Number(),
+        itemsHinted: Type.Number(),
+        reveals: Type.Number(),
+      })
+    ),
+    byLevel: Type.Array(Type.Object({ level: Type.Number(), count: Type.Number() })),
+  }),
+});
+
 const PeriodSummaryResponseSchema = Type.Object({
   period: Type.Union([Type.Literal('week'), Type.Literal('month')]),
   startDate: Type.String(),
@@ -448,6 +465,32 @@ export const statisticsRoutes: FastifyPluginAsync = async (fastify) => {
     }
   );
 
+  /**
+   * GET /analytics/statistics/hints
+   * Get hint ladder usage
+   */
+  fastify.get<{ Querystring: OverviewQuery }>(
+    '/statistics/hints',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        querystring: OverviewQuerySchema,
+        response: {
+          200: HintUsageResponseSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { days = 30 } = request.query;
+
+      const hints = await statisticsService.getHintUsage(userId, days);
+
+      return reply.code(200).send({ hints });
+    }
+  );
+
   /**
    * POST /analytics/statistics/badges/check
    * Check and unlock any new badges
@@ -77,6 +77,17 @@ const TrendsResponseSchema = Type.Object({
   trends: Type.Array(VocabularyTrendSchema),
 });
 
+const RetentionComparisonSchema = Type.Object({
+  windowDays: Type.Number(),
+  reviewCount: Type.Number(),
+  actualRetention: Type.Union([Type.Number(), Type.Null()]),
+  predictedDefault: Type.Union([Type.Number(), Type.Null()]),
+  predictedPersonalized: Type.Union([Type.Number(), Type.Null()]),
+  logLossDefault: Type.Union([Type.Number(), Type.Null()]),
+  logLossPersonalized: Type.Union([Type.Number(), Type.Null()]),
+  personalized: Type.Boolean(),
+});
+
 const VelocityResponseSchema = Type.Object({
   wordsPerDay: Type.Number(),
   wordsPerWeek: Type.Number(),
@@ -87,6 +98,7 @@ const VelocityResponseSchema = Type.Object({
     Type.Literal('stable'),
     Type.Literal('decreasing'),
   ]),
+  retention: RetentionComparisonSchema,
 });
 
 const WordDetailsSchema = Type.Object({
@@ -177,7 +189,7 @@ export const vocabularyAnalyticsRoutes: FastifyPluginAsync = async (fastify) =>
 
   /**
    * GET /analytics/vocabulary/velocity
-   * Get learning velocity (words per day/week)
+   * Get learning velocity (words per day/week) and predicted vs. actual retention
    */
   fastify.get<{ Querystring: LanguageQuery }>(
     '/vocabulary/velocity',
@@ -196,8 +208,9 @@ export const vocabularyAnalyticsRoutes: FastifyPluginAsync = async (fastify) =>
       const { language } = request.query;
 
       const velocity = await analyticsService.getLearningVelocity(userId, language);
+      const retention = await analyticsService.getRetentionComparison(userId, language);
 
-      return reply.code(200).send(velocity);
+      return reply.code(200).send({ ...velocity, retention });
     }
   );
 
@@ -45,7 +45,11 @@ type HeatmapQuery = Static<typeof HeatmapQuerySchema>;
 // Response schemas
 const WeaknessItemSchema = Type.Object({
   itemId: Type.String(),
-  itemType: Type.Union([Type.Literal('vocabulary'), Type.Literal('grammar')]),
+  itemType: Type.Union([
+    Type.Literal('vocabulary'),
+    Type.Literal('grammar'),
+    Type.Literal('orthography'),
+  ]),
   itemText: Type.String(),
   language: Type.String(),
   cefrLevel: Type.String(),
@@ -66,6 +70,7 @@ const WeaknessAnalysisResponseSchema = Type.Object({
   weaknessesByType: Type.Object({
     vocabulary: Type.Number(),
     grammar: Type.Number(),
+    orthography: Type.Number(),
   }),
   weaknessesByCEFR: Type.Record(Type.String(), Type.Number()),
   topWeaknesses: Type.Array(WeaknessItemSchema),
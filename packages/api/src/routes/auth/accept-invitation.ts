@@ -0,0 +1,61 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { hashPassword } from '@polyladder/auth';
+import { getEnv } from '../../config/env';
+import { ErrorResponseSchema } from '../../schemas/common';
+import { OperatorInvitationService } from '../../services/access';
+
+const AcceptInvitationRequestSchema = Type.Object({
+  token: Type.String({ minLength: 1, maxLength: 200 }),
+  password: Type.String({ minLength: 8, maxLength: 100 }),
+});
+
+type AcceptInvitationRequest = Static<typeof AcceptInvitationRequestSchema>;
+
+const AcceptInvitationResponseSchema = Type.Object({
+  userId: Type.String(),
+  email: Type.String({ format: 'email' }),
+  role: Type.Literal('operator'),
+  roles: Type.Array(Type.String()),
+});
+
+/**
+ * Create an operator account from an admin's invitation
+ */
+const acceptInvitationRoute: FastifyPluginAsync = async function (fastify) {
+  await Promise.resolve();
+  fastify.post<{ Body: AcceptInvitationRequest }>(
+    '/invitations/accept',
+    {
+      schema: {
+        body: AcceptInvitationRequestSchema,
+        response: {
+          201: AcceptInvitationResponseSchema,
+          400: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+          410: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const invitationService = new OperatorInvitationService(fastify.db, getEnv().JWT_SECRET);
+      const passwordHash = await hashPassword(request.body.password);
+
+      const operator = await invitationService.acceptInvitation(request.body.token, passwordHash);
+
+      request.log.info(
+        { userId: operator.userId, email: operator.email, roles: operator.roles },
+        'Operator invitation accepted'
+      );
+
+      return reply.status(201).send({
+        userId: operator.userId,
+        email: operator.email,
+        role: 'operator' as const,
+        roles: operator.roles,
+      });
+    }
+  );
+};
+
+export default acceptInvitationRoute;
@@ -0,0 +1,107 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { verifyPassword } from '@polyladder/auth';
+import { getEnv } from '../../config/env';
+import { authMiddleware } from '../../middleware/auth';
+import { ErrorResponseSchema } from '../../schemas/common';
+import { AccountDeletionService, AccountExportService } from '../../services/account';
+
+const DeleteAccountRequestSchema = Type.Object({
+  password: Type.String({ minLength: 1 }),
+});
+
+type DeleteAccountRequest = Static<typeof DeleteAccountRequestSchema>;
+
+const DeleteAccountResponseSchema = Type.Object({
+  success: Type.Boolean(),
+  purgeAfter: Type.String(),
+});
+
+/**
+ * Self-service data export and account deletion
+ */
+const accountRoute: FastifyPluginAsync = async function (fastify) {
+  await Promise.resolve();
+  const exportService = new AccountExportService(fastify.db);
+  const deletionService = () =>
+    new AccountDeletionService(fastify.db, fastify.mailer, getEnv().ACCOUNT_DELETION_GRACE_DAYS);
+
+  fastify.get(
+    '/me/export',
+    {
+      preHandler: [authMiddleware],
+      // Exports read every table of the user
+      config: { rateLimit: { max: 5, timeWindow: '1 hour' } },
+      schema: {
+        response: {
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const archive = await exportService.buildArchive(userId);
+      const date = new Date().toISOString().slice(0, 10);
+
+      request.log.info({ userId, bytes: archive.length }, 'Account data exported');
+
+      return reply
+        .header('Content-Type', 'application/zip')
+        .header('Content-Disposition', `attachment; filename="polyladder-export-${date}.zip"`)
+        .send(archive);
+    }
+  );
+
+  fastify.delete<{ Body: DeleteAccountRequest }>(
+    '/me',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        body: DeleteAccountRequestSchema,
+        response: {
+          200: DeleteAccountResponseSchema,
+          401: ErrorResponseSchema,
+          403: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+
+      const result = await fastify.db.query<{ password_hash: string }>(
+        `SELECT password_hash FROM users WHERE id = $1`,
+        [userId]
+      );
+      const passwordHash = result.rows[0]?.password_hash;
+
+      if (!passwordHash || !(await verifyPassword(request.body.password, passwordHash))) {
+        return reply.status(403).send({
+          error: {
+            statusCode: 403,
+            message: 'Password is incorrect',
+            requestId: request.id,
+            code: 'INVALID_PASSWORD',
+          },
+        });
+      }
+
+      const deletion = await deletionService().scheduleDeletion(userId);
+      request.log.info({ userId, purgeAfter: deletion.purgeAfter }, 'Account deletion scheduled');
+
+      // The deletion stands even if the notice cannot be sent
+      try {
+        await deletionService().sendDeletionNotice(deletion);
+      } catch (error) {
+        request.log.error({ err: error, userId }, 'Account deletion notice failed');
+      }
+
+      return reply.status(200).send({
+        success: true,
+        purgeAfter: new Date(deletion.purgeAfter).toISOString(),
+      });
+    }
+  );
+};
+
+export default accountRoute;
@@ -0,0 +1,73 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { getEnv } from '../../config/env';
+import { authMiddleware } from '../../middleware/auth';
+import { ErrorResponseSchema, SuccessResponseSchema } from '../../schemas/common';
+import { AccountEmailService } from '../../services/auth';
+
+const VerifyEmailRequestSchema = Type.Object({
+  token: Type.String({ minLength: 1, maxLength: 200 }),
+});
+
+type VerifyEmailRequest = Static<typeof VerifyEmailRequestSchema>;
+
+/**
+ * Email address verification by emailed single-use link
+ */
+const emailVerificationRoute: FastifyPluginAsync = async function (fastify) {
+  await Promise.resolve();
+  const accountEmailService = () =>
+    new AccountEmailService(fastify.db, fastify.mailer, getEnv().FRONTEND_URL);
+
+  fastify.post<{ Body: VerifyEmailRequest }>(
+    '/email/verify',
+    {
+      schema: {
+        body: VerifyEmailRequestSchema,
+        response: {
+          200: SuccessResponseSchema,
+          400: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = await accountEmailService().verifyEmail(request.body.token);
+
+      request.log.info({ userId }, 'Email verified');
+
+      return reply.status(200).send({ success: true, message: 'Email address verified' });
+    }
+  );
+
+  fastify.post(
+    '/email/verification',
+    {
+      preHandler: [authMiddleware],
+      // Each request sends a mail
+      config: { rateLimit: { max: 3, timeWindow: '15 minutes' } },
+      schema: {
+        response: {
+          200: SuccessResponseSchema,
+          401: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const message = await accountEmailService().prepareVerificationEmail(userId);
+
+      // Delivery is not awaited, so slow relays do not hold the request; a
+      // lost mail can be requested again
+      void fastify.mailer
+        .send(message)
+        .catch((error: unknown) =>
+          request.log.error({ err: error, userId }, 'Verification mail failed')
+        );
+
+      return reply.status(200).send({ success: true, message: 'Verification email sent' });
+    }
+  );
+};
+
+export default emailVerificationRoute;
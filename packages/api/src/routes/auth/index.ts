@@ -4,6 +4,12 @@ import loginRoute from './login';
 import meRoute from './me';
 import refreshRoute from './refresh';
 import logoutRoute from './logout';
+import acceptInvitationRoute from './accept-invitation';
+import sessionsRoute from './sessions';
+import passwordRoute from './password';
+import emailVerificationRoute from './email-verification';
+import twoFactorRoute from './two-factor';
+import accountRoute from './account';
 
 const authRoutes: FastifyPluginAsync = async (fastify) => {
   await fastify.register(registerRoute);
@@ -11,6 +17,12 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
   await fastify.register(meRoute);
   await fastify.register(refreshRoute);
   await fastify.register(logoutRoute);
+  await fastify.register(acceptInvitationRoute);
+  await fastify.register(sessionsRoute);
+  await fastify.register(passwordRoute);
+  await fastify.register(emailVerificationRoute);
+  await fastify.register(twoFactorRoute);
+  await fastify.register(accountRoute);
 };
 
 export default authRoutes;
@@ -1,9 +1,14 @@
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
+import { createHmac } from 'crypto';
+import jwt from 'jsonwebtoken';
 import { verifyPassword, needsRehash, hashPassword, generateToken } from '@polyladder/auth';
 import { UserRole } from '@polyladder/types';
 import { getEnv } from '../../config/env';
 import { ErrorResponseSchema } from '../../schemas/common';
+import { DeviceSessionService, TwoFactorService } from '../../services/auth';
+import { AccountDeletionService } from '../../services/account';
+import { setRefreshCookie } from '../../utils/cookies';
 
 const LoginRequestSchema = Type.Object({
   email: Type.String({ format: 'email' }),
@@ -12,9 +17,9 @@ const LoginRequestSchema = Type.Object({
 
 type LoginRequest = Static<typeof LoginRequestSchema>;
 
+// The refresh token is only sent in the httpOnly cookie
 const LoginResponseSchema = Type.Object({
   accessToken: Type.String(),
-  refreshToken: Type.String(),
   expiresIn: Type.Number(),
   user: Type.Object({
     id: Type.String(),
@@ -23,6 +28,36 @@ const LoginResponseSchema = Type.Object({
   }),
 });
 
+const TwoFactorChallengeSchema = Type.Object({
+  twoFactorRequired: Type.Literal(true),
+  challengeToken: Type.String(),
+  expiresIn: Type.Number(),
+});
+
+const TwoFactorLoginRequestSchema = Type.Object({
+  challengeToken: Type.String({ minLength: 1 }),
+  code: Type.String({ minLength: 1, maxLength: 20 }),
+});
+
+type TwoFactorLoginRequest = Static<typeof TwoFactorLoginRequestSchema>;
+
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const CHALLENGE_PURPOSE = 'two_factor_login';
+
+interface LoginUser {
+  id: string;
+  email: string;
+  role: 'learner' | 'operator';
+}
+
+/**
+ * Key for second-step challenge tokens; distinct from the access token
+ * key so a challenge can never pass as an access token
+ */
+function challengeKey(jwtSecret: string): string {
+  return createHmac('sha256', jwtSecret).update(CHALLENGE_PURPOSE).digest('hex');
+}
+
 function parseExpiry(expiry: string): number {
   const match = expiry.match(/^(\d+)([mhd])$/);
   if (!match) return 900;
@@ -42,15 +77,64 @@ function parseExpiry(expiry: string): number {
   }
 }
 
+/**
+ * Password login, followed for operators with 2FA by a second step that
+ * exchanges the challenge token and an authentication code for tokens
+ */
 const loginRoute: FastifyPluginAsync = async function (fastify) {
   await Promise.resolve();
+  const twoFactorService = () => new TwoFactorService(fastify.db, getEnv().JWT_SECRET);
+
+  const startSession = async (request: FastifyRequest, reply: FastifyReply, user: LoginUser) => {
+    const env = getEnv();
+    const tokenPayload = {
+      userId: user.id,
+      role: user.role === 'learner' ? UserRole.LEARNER : UserRole.OPERATOR,
+    };
+
+    const accessToken = generateToken(tokenPayload, env.JWT_SECRET, env.JWT_ACCESS_EXPIRY);
+
+    // Logging in during the grace period keeps a deleted account
+    const deletionService = new AccountDeletionService(
+      fastify.db,
+      fastify.mailer,
+      env.ACCOUNT_DELETION_GRACE_DAYS
+    );
+    if (await deletionService.cancelDeletion(user.id)) {
+      request.log.info({ userId: user.id }, 'Account deletion cancelled by login');
+    }
+
+    const sessionService = new DeviceSessionService(
+      fastify.db,
+      parseExpiry(env.JWT_REFRESH_EXPIRY)
+    );
+    const { sessionId, refreshToken, expiresAt } = await sessionService.createSession(user.id, {
+      userAgent: request.headers['user-agent'] ?? null,
+      ipAddress: request.ip,
+    });
+
+    request.log.info({ userId: user.id, email: user.email, sessionId }, 'User logged in');
+
+    setRefreshCookie(reply, refreshToken, expiresAt);
+
+    return reply.status(200).send({
+      accessToken,
+      expiresIn: parseExpiry(env.JWT_ACCESS_EXPIRY),
+      user: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+      },
+    });
+  };
+
   fastify.post<{ Body: LoginRequest }>(
     '/login',
     {
       schema: {
         body: LoginRequestSchema,
         response: {
-          200: LoginResponseSchema,
+          200: Type.Union([LoginResponseSchema, TwoFactorChallengeSchema]),
           401: ErrorResponseSchema,
         },
       },
@@ -72,7 +156,7 @@ const loginRoute: FastifyPluginAsync = async function (fastify) {
         `SELECT id, email, password_hash, role,
                 base_language, created_at, updated_at
          FROM users
-         WHERE email = $1`,
+         WHERE email = $1 AND purged_at IS NULL`,
         [normalizedEmail]
       );
 
@@ -128,58 +212,90 @@ const loginRoute: FastifyPluginAsync = async function (fastify) {
         });
       }
 
-      const client = await fastify.db.connect();
-      try {
-        await client.query('BEGIN');
-
-        if (needsRehash(user.passwordHash)) {
-          const newHash = await hashPassword(password);
-          await client.query(
-            'UPDATE users SET password_hash = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-            [newHash, user.id]
-          );
-        }
-
-        const tokenPayload = {
-          userId: user.id,
-          role: user.role === 'learner' ? UserRole.LEARNER : UserRole.OPERATOR,
-        };
-
-        const accessToken = generateToken(tokenPayload, env.JWT_SECRET, env.JWT_ACCESS_EXPIRY);
-
-        const refreshToken = generateToken(tokenPayload, env.JWT_SECRET, env.JWT_REFRESH_EXPIRY);
-
-        const refreshExpirySeconds = parseExpiry(env.JWT_REFRESH_EXPIRY);
-        const refreshExpiresAt = new Date(Date.now() + refreshExpirySeconds * 1000);
+      if (needsRehash(user.passwordHash)) {
+        const newHash = await hashPassword(password);
+        await fastify.db.query(
+          'UPDATE users SET password_hash = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+          [newHash, user.id]
+        );
+      }
 
-        await client.query(
-          `INSERT INTO refresh_tokens (user_id, token, expires_at)
-           VALUES ($1, $2, $3)`,
-          [user.id, refreshToken, refreshExpiresAt]
+      if (user.role === 'operator' && (await twoFactorService().isEnabled(user.id))) {
+        const challengeToken = jwt.sign(
+          { userId: user.id, purpose: CHALLENGE_PURPOSE },
+          challengeKey(env.JWT_SECRET),
+          { expiresIn: CHALLENGE_TTL_SECONDS }
         );
+        request.log.info({ userId: user.id }, 'Password verified; second factor required');
 
-        await client.query('COMMIT');
+        return reply.status(200).send({
+          twoFactorRequired: true as const,
+          challengeToken,
+          expiresIn: CHALLENGE_TTL_SECONDS,
+        });
+      }
 
-        request.log.info({ userId: user.id, email: user.email }, 'User logged in');
+      return startSession(request, reply, user);
+    }
+  );
 
-        const accessExpirySeconds = parseExpiry(env.JWT_ACCESS_EXPIRY);
+  fastify.post<{ Body: TwoFactorLoginRequest }>(
+    '/login/two-factor',
+    {
+      // Six digit codes must not be guessable by brute force
+      config: { rateLimit: { max: 10, timeWindow: '1 minute' } },
+      schema: {
+        body: TwoFactorLoginRequestSchema,
+        response: {
+          200: LoginResponseSchema,
+          401: ErrorResponseSchema,
+          429: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      let userId: string;
+      try {
+        const payload = jwt.verify(
+          request.body.challengeToken,
+          challengeKey(getEnv().JWT_SECRET)
+        ) as { userId: string; purpose: string };
+        if (payload.purpose !== CHALLENGE_PURPOSE) {
+          throw new Error('Wrong token purpose');
+        }
+        userId = payload.userId;
+      } catch {
+        return reply.status(401).send({
+          error: {
+            statusCode: 401,
+            message: 'Login expired; sign in again',
+            requestId: request.id,
+            code: 'INVALID_CHALLENGE',
+          },
+        });
+      }
 
-        return reply.status(200).send({
-          accessToken,
-          refreshToken,
-          expiresIn: accessExpirySeconds,
-          user: {
-            id: user.id,
-            email: user.email,
-            role: user.role,
+      const method = await twoFactorService().verifyLogin(userId, request.body.code);
+
+      const result = await fastify.db.query<LoginUser>(
+        `SELECT id, email, role FROM users WHERE id = $1`,
+        [userId]
+      );
+      const user = result.rows[0];
+      if (!user) {
+        return reply.status(401).send({
+          error: {
+            statusCode: 401,
+            message: 'User not found',
+            requestId: request.id,
+            code: 'USER_NOT_FOUND',
           },
         });
-      } catch (error) {
-        await client.query('ROLLBACK');
-        throw error;
-      } finally {
-        client.release();
       }
+
+      request.log.info({ userId, method }, 'Second factor verified');
+
+      return startSession(request, reply, user);
     }
   );
 };
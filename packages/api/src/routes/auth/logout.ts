@@ -2,16 +2,19 @@ import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { authMiddleware } from '../../middleware/auth';
 import { SuccessResponseSchema, ErrorResponseSchema } from '../../schemas/common';
+import { DeviceSessionService } from '../../services/auth';
+import { clearRefreshCookie, readRefreshToken } from '../../utils/cookies';
 
 const LogoutRequestSchema = Type.Object({
-  refreshToken: Type.String(),
+  // Browsers send the token in the refresh cookie instead
+  refreshToken: Type.Optional(Type.String()),
 });
 
 type LogoutRequest = Static<typeof LogoutRequestSchema>;
 
 const logoutRoute: FastifyPluginAsync = async function (fastify) {
   await Promise.resolve();
-  fastify.post<{ Body: LogoutRequest }>(
+  fastify.post<{ Body: LogoutRequest | undefined }>(
     '/logout',
     {
       preHandler: [authMiddleware],
@@ -24,7 +27,7 @@ const logoutRoute: FastifyPluginAsync = async function (fastify) {
       },
     },
     async (request, reply) => {
-      const { refreshToken } = request.body;
+      const refreshToken = readRefreshToken(request, request.body?.refreshToken);
       const userId = request.user?.userId;
 
       if (!userId) {
@@ -38,13 +41,14 @@ const logoutRoute: FastifyPluginAsync = async function (fastify) {
         });
       }
 
-      await fastify.db.query('DELETE FROM refresh_tokens WHERE token = $1 AND user_id = $2', [
-        refreshToken,
-        userId,
-      ]);
+      if (refreshToken) {
+        await new DeviceSessionService(fastify.db).revokeByToken(userId, refreshToken);
+      }
 
       request.log.info({ userId }, 'User logged out');
 
+      clearRefreshCookie(reply);
+
       return reply.status(200).send({
         success: true,
         message: 'Logged out successfully',
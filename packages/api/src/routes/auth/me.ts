@@ -9,6 +9,7 @@ const UserProfileSchema = Type.Object({
   role: Type.Union([Type.Literal('learner'), Type.Literal('operator')]),
   createdAt: Type.String(),
   baseLanguage: Type.Union([Type.String(), Type.Null()]),
+  emailVerified: Type.Boolean(),
 });
 
 const meRoute: FastifyPluginAsync = async function (fastify) {
@@ -44,7 +45,11 @@ const meRoute: FastifyPluginAsync = async function (fastify) {
         role: string;
         created_at: Date;
         base_language: string | null;
-      }>('SELECT id, email, role, created_at, base_language FROM users WHERE id = $1', [userId]);
+        email_verified_at: Date | null;
+      }>(
+        'SELECT id, email, role, created_at, base_language, email_verified_at FROM users WHERE id = $1',
+        [userId]
+      );
 
       if (result.rows.length === 0) {
         return reply.status(401).send({
@@ -65,6 +70,7 @@ const meRoute: FastifyPluginAsync = async function (fastify) {
         role: user.role as 'learner' | 'operator',
         createdAt: user.created_at.toISOString(),
         baseLanguage: user.base_language,
+        emailVerified: user.email_verified_at !== null,
       });
     }
   );
@@ -0,0 +1,82 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { hashPassword } from '@polyladder/auth';
+import { getEnv } from '../../config/env';
+import { ErrorResponseSchema, SuccessResponseSchema } from '../../schemas/common';
+import { AccountEmailService } from '../../services/auth';
+
+const ForgotPasswordRequestSchema = Type.Object({
+  email: Type.String({ format: 'email', maxLength: 255 }),
+});
+
+type ForgotPasswordRequest = Static<typeof ForgotPasswordRequestSchema>;
+
+const ResetPasswordRequestSchema = Type.Object({
+  token: Type.String({ minLength: 1, maxLength: 200 }),
+  password: Type.String({ minLength: 8, maxLength: 100 }),
+});
+
+type ResetPasswordRequest = Static<typeof ResetPasswordRequestSchema>;
+
+/**
+ * Password reset by emailed single-use link
+ */
+const passwordRoute: FastifyPluginAsync = async function (fastify) {
+  await Promise.resolve();
+  const accountEmailService = () =>
+    new AccountEmailService(fastify.db, fastify.mailer, getEnv().FRONTEND_URL);
+
+  fastify.post<{ Body: ForgotPasswordRequest }>(
+    '/password/forgot',
+    {
+      // Each request mails a stranger's inbox
+      config: { rateLimit: { max: 5, timeWindow: '15 minutes' } },
+      schema: {
+        body: ForgotPasswordRequestSchema,
+        response: {
+          200: SuccessResponseSchema,
+          400: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      // The answer is the same whether or not the address has an account, and
+      // it does not wait for the lookup and mail so its timing is the same too
+      void accountEmailService()
+        .requestPasswordReset(request.body.email)
+        .then((sent) => request.log.info({ sent }, 'Password reset requested'))
+        .catch((error: unknown) => request.log.error({ err: error }, 'Password reset mail failed'));
+
+      return reply.status(200).send({
+        success: true,
+        message: 'If an account exists for this address, a reset link is on its way',
+      });
+    }
+  );
+
+  fastify.post<{ Body: ResetPasswordRequest }>(
+    '/password/reset',
+    {
+      schema: {
+        body: ResetPasswordRequestSchema,
+        response: {
+          200: SuccessResponseSchema,
+          400: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const passwordHash = await hashPassword(request.body.password);
+      const userId = await accountEmailService().resetPassword(request.body.token, passwordHash);
+
+      request.log.info({ userId }, 'Password reset');
+
+      return reply.status(200).send({
+        success: true,
+        message: 'Password changed; log in with your new password',
+      });
+    }
+  );
+};
+
+export default passwordRoute;
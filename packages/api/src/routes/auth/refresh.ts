@@ -3,23 +3,22 @@ import { Type, Static } from '@sinclair/typebox';
 import jwt from 'jsonwebtoken';
 import { getEnv } from '../../config/env';
 import { ErrorResponseSchema } from '../../schemas/common';
+import { DeviceSessionService } from '../../services/auth';
+import { readRefreshToken, setRefreshCookie } from '../../utils/cookies';
 
 const RefreshRequestSchema = Type.Object({
-  refreshToken: Type.String(),
+  // Browsers send the token in the refresh cookie instead
+  refreshToken: Type.Optional(Type.String()),
 });
 
 type RefreshRequest = Static<typeof RefreshRequestSchema>;
 
+// The rotated refresh token is only sent in the httpOnly cookie
 const RefreshResponseSchema = Type.Object({
   accessToken: Type.String(),
   expiresIn: Type.Number(),
 });
 
-interface TokenPayload {
-  userId: string;
-  role: string;
-}
-
 function parseExpiry(expiry: string): number {
   const match = expiry.match(/^(\d+)([mhd])$/);
   if (!match) return 900;
@@ -41,7 +40,7 @@ function parseExpiry(expiry: string): number {
 
 const refreshRoute: FastifyPluginAsync = async function (fastify) {
   await Promise.resolve();
-  fastify.post<{ Body: RefreshRequest }>(
+  fastify.post<{ Body: RefreshRequest | undefined }>(
     '/refresh',
     {
       schema: {
@@ -54,43 +53,39 @@ const refreshRoute: FastifyPluginAsync = async function (fastify) {
     },
     async (request, reply) => {
       const env = getEnv();
-      const { refreshToken } = request.body;
+      const refreshToken = readRefreshToken(request, request.body?.refreshToken);
 
-      let decoded: TokenPayload;
-      try {
-        decoded = jwt.verify(refreshToken, env.JWT_SECRET) as TokenPayload;
-      } catch {
+      if (!refreshToken) {
         return reply.status(401).send({
           error: {
             statusCode: 401,
-            message: 'Invalid or expired refresh token',
+            message: 'Refresh token required',
             requestId: request.id,
             code: 'INVALID_TOKEN',
           },
         });
       }
 
-      const tokenResult = await fastify.db.query<{ user_id: string }>(
-        'SELECT user_id FROM refresh_tokens WHERE token = $1 AND expires_at > CURRENT_TIMESTAMP',
-        [refreshToken]
+      const sessionService = new DeviceSessionService(
+        fastify.db,
+        parseExpiry(env.JWT_REFRESH_EXPIRY)
       );
+      // Rejects unknown, expired and revoked tokens; a reused token revokes its session
+      const rotated = await sessionService.rotate(refreshToken, {
+        userAgent: request.headers['user-agent'] ?? null,
+        ipAddress: request.ip,
+      });
 
-      if (tokenResult.rows.length === 0) {
-        return reply.status(401).send({
-          error: {
-            statusCode: 401,
-            message: 'Invalid or expired refresh token',
-            requestId: request.id,
-            code: 'TOKEN_REVOKED',
-          },
-        });
-      }
-
-      const accessToken = jwt.sign({ userId: decoded.userId, role: decoded.role }, env.JWT_SECRET, {
+      const accessToken = jwt.sign({ userId: rotated.userId, role: rotated.role }, env.JWT_SECRET, {
         expiresIn: env.JWT_ACCESS_EXPIRY as jwt.SignOptions['expiresIn'],
       });
 
-      request.log.info({ userId: decoded.userId }, 'Access token refreshed');
+      request.log.info(
+        { userId: rotated.userId, sessionId: rotated.sessionId },
+        'Refresh token rotated'
+      );
+
+      setRefreshCookie(reply, rotated.refreshToken, rotated.expiresAt);
 
       const accessExpirySeconds = parseExpiry(env.JWT_ACCESS_EXPIRY);
 
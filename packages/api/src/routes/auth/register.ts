@@ -3,7 +3,9 @@ import { Type, Static } from '@sinclair/typebox';
 import { hashPassword } from '@polyladder/auth';
 import { emailExists, createUser } from '@polyladder/db';
 import { Language, UserRole } from '@polyladder/types';
+import { getEnv } from '../../config/env';
 import { ErrorResponseSchema } from '../../schemas/common';
+import { AccountEmailService } from '../../services/auth';
 
 const RegisterRequestSchema = Type.Object({
   email: Type.String({ format: 'email', minLength: 5, maxLength: 255 }),
@@ -43,6 +45,7 @@ const registerRoute: FastifyPluginAsync = async function (fastify) {
         response: {
           201: RegisterResponseSchema,
           400: ErrorResponseSchema,
+          403: ErrorResponseSchema,
           409: ErrorResponseSchema,
         },
       },
@@ -51,6 +54,17 @@ const registerRoute: FastifyPluginAsync = async function (fastify) {
       const { email, password, role = 'learner', baseLanguage = 'EN' } = request.body;
       const normalizedEmail = email.toLowerCase();
 
+      if (role === 'operator') {
+        return reply.status(403).send({
+          error: {
+            statusCode: 403,
+            message: 'Operator accounts are created by accepting an invitation',
+            requestId: request.id,
+            code: 'INVITATION_REQUIRED',
+          },
+        });
+      }
+
       const exists = await emailExists(normalizedEmail);
 
       if (exists) {
@@ -75,6 +89,17 @@ const registerRoute: FastifyPluginAsync = async function (fastify) {
 
       request.log.info({ userId: user.id, email: user.email }, 'User registered');
 
+      // The account exists either way; a lost mail can be sent again
+      try {
+        await new AccountEmailService(
+          fastify.db,
+          fastify.mailer,
+          getEnv().FRONTEND_URL
+        ).sendVerificationEmail(user.id);
+      } catch (error) {
+        request.log.error({ err: error, userId: user.id }, 'Verification mail failed');
+      }
+
       return reply.status(201).send({
         userId: user.id,
         email: user.email,
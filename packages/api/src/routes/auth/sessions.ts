@@ -0,0 +1,122 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { authMiddleware } from '../../middleware/auth';
+import { ErrorResponseSchema, SuccessResponseSchema, UuidSchema } from '../../schemas/common';
+import { DeviceSessionService } from '../../services/auth';
+import { clearRefreshCookie, readRefreshToken } from '../../utils/cookies';
+
+const SessionSchema = Type.Object({
+  id: Type.String(),
+  userAgent: Type.Union([Type.String(), Type.Null()]),
+  ipAddress: Type.Union([Type.String(), Type.Null()]),
+  createdAt: Type.String(),
+  lastUsedAt: Type.String(),
+  current: Type.Boolean(),
+});
+
+const SessionParamsSchema = Type.Object({
+  id: UuidSchema,
+});
+
+type SessionParams = Static<typeof SessionParamsSchema>;
+
+/**
+ * Devices the user is logged in on, with per-device and global logout
+ *
+ * The current session is the one of the refresh cookie; API clients
+ * sending tokens in the body see no current session.
+ */
+const sessionsRoute: FastifyPluginAsync = async function (fastify) {
+  await Promise.resolve();
+  const sessionService = new DeviceSessionService(fastify.db);
+
+  fastify.get(
+    '/sessions',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        response: {
+          200: Type.Object({ sessions: Type.Array(SessionSchema) }),
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const refreshToken = readRefreshToken(request);
+      const [sessions, currentSessionId] = await Promise.all([
+        sessionService.listSessions(userId),
+        refreshToken ? sessionService.findSessionId(refreshToken) : Promise.resolve(null),
+      ]);
+
+      return reply.status(200).send({
+        sessions: sessions.map((session) => ({
+          id: session.id,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          createdAt: new Date(session.createdAt).toISOString(),
+          lastUsedAt: new Date(session.lastUsedAt).toISOString(),
+          current: session.id === currentSessionId,
+        })),
+      });
+    }
+  );
+
+  fastify.delete<{ Params: SessionParams }>(
+    '/sessions/:id',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        params: SessionParamsSchema,
+        response: {
+          200: SuccessResponseSchema,
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const refreshToken = readRefreshToken(request);
+      const currentSessionId = refreshToken
+        ? await sessionService.findSessionId(refreshToken)
+        : null;
+
+      await sessionService.revokeSession(userId, request.params.id);
+
+      if (request.params.id === currentSessionId) {
+        clearRefreshCookie(reply);
+      }
+      request.log.info({ userId, sessionId: request.params.id }, 'Session revoked');
+
+      return reply.status(200).send({ success: true, message: 'Session revoked' });
+    }
+  );
+
+  fastify.delete(
+    '/sessions',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        response: {
+          200: SuccessResponseSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const revoked = await sessionService.revokeAllSessions(userId);
+
+      clearRefreshCookie(reply);
+      request.log.info({ userId, revoked }, 'Logged out everywhere');
+
+      return reply.status(200).send({
+        success: true,
+        message: `Logged out of ${revoked} session${revoked === 1 ? '' : 's'}`,
+      });
+    }
+  );
+};
+
+export default sessionsRoute;
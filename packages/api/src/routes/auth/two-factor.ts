@@ -0,0 +1,158 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { getEnv } from '../../config/env';
+import { authMiddleware } from '../../middleware/auth';
+import { requireOperator } from '../../middleware/authorize';
+import { ErrorResponseSchema, SuccessResponseSchema } from '../../schemas/common';
+import { TwoFactorService } from '../../services/auth';
+
+const TwoFactorStatusSchema = Type.Object({
+  enabled: Type.Boolean(),
+  required: Type.Boolean(),
+  recoveryCodesRemaining: Type.Number(),
+});
+
+const EnrollmentSchema = Type.Object({
+  secret: Type.String(),
+  provisioningUri: Type.String(),
+});
+
+const CodeRequestSchema = Type.Object({
+  code: Type.String({ minLength: 1, maxLength: 20 }),
+});
+
+type CodeRequest = Static<typeof CodeRequestSchema>;
+
+const RecoveryCodesSchema = Type.Object({
+  recoveryCodes: Type.Array(Type.String()),
+});
+
+/**
+ * TOTP enrollment and management for the signed-in operator
+ */
+const twoFactorRoute: FastifyPluginAsync = async function (fastify) {
+  await Promise.resolve();
+  const twoFactorService = () => new TwoFactorService(fastify.db, getEnv().JWT_SECRET);
+
+  fastify.get(
+    '/two-factor',
+    {
+      preHandler: [authMiddleware, requireOperator],
+      schema: {
+        response: {
+          200: TwoFactorStatusSchema,
+          401: ErrorResponseSchema,
+          403: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const status = await twoFactorService().getStatus(request.user!.userId);
+      return reply.status(200).send(status);
+    }
+  );
+
+  fastify.post(
+    '/two-factor/enrollment',
+    {
+      preHandler: [authMiddleware, requireOperator],
+      schema: {
+        response: {
+          200: EnrollmentSchema,
+          401: ErrorResponseSchema,
+          403: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const user = await fastify.db.query<{ email: string }>(
+        `SELECT email FROM users WHERE id = $1`,
+        [userId]
+      );
+
+      const enrollment = await twoFactorService().startEnrollment(userId, user.rows[0].email);
+      return reply.status(200).send(enrollment);
+    }
+  );
+
+  fastify.post<{ Body: CodeRequest }>(
+    '/two-factor/enrollment/confirm',
+    {
+      preHandler: [authMiddleware, requireOperator],
+      schema: {
+        body: CodeRequestSchema,
+        response: {
+          200: RecoveryCodesSchema,
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          403: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const recoveryCodes = await twoFactorService().confirmEnrollment(userId, request.body.code);
+
+      request.log.info({ userId }, 'Two-factor authentication enabled');
+      return reply.status(200).send({ recoveryCodes });
+    }
+  );
+
+  fastify.post<{ Body: CodeRequest }>(
+    '/two-factor/recovery-codes',
+    {
+      preHandler: [authMiddleware, requireOperator],
+      schema: {
+        body: CodeRequestSchema,
+        response: {
+          200: RecoveryCodesSchema,
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          403: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const recoveryCodes = await twoFactorService().regenerateRecoveryCodes(
+        userId,
+        request.body.code
+      );
+
+      request.log.info({ userId }, 'Recovery codes regenerated');
+      return reply.status(200).send({ recoveryCodes });
+    }
+  );
+
+  fastify.delete<{ Body: CodeRequest }>(
+    '/two-factor',
+    {
+      preHandler: [authMiddleware, requireOperator],
+      schema: {
+        body: CodeRequestSchema,
+        response: {
+          200: SuccessResponseSchema,
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          403: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      await twoFactorService().disable(userId, request.body.code);
+
+      request.log.info({ userId }, 'Two-factor authentication disabled');
+      return reply
+        .status(200)
+        .send({ success: true, message: 'Two-factor authentication disabled' });
+    }
+  );
+};
+
+export default twoFactorRoute;
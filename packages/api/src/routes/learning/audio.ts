@@ -0,0 +1,63 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import * as path from 'path';
+import { ErrorResponseSchema } from '../../schemas/common';
+import { getEnv } from '../../config/env';
+import { StorageService } from '../../services/storage.service';
+
+// Names written by the refinement service's audio generation worker
+const AUDIO_FILENAME_PATTERN = /^[\w-]+\.wav$/;
+
+const AudioParamsSchema = Type.Object({
+  filename: Type.String({ pattern: AUDIO_FILENAME_PATTERN.source }),
+});
+
+type AudioParams = Static<typeof AudioParamsSchema>;
+
+/**
+ * Serves locally stored utterance audio. Unauthenticated, since audio
+ * elements cannot send bearer tokens; the files are generated from
+ * approved content only.
+ */
+const audioRoute: FastifyPluginAsync = async function (fastify) {
+  await Promise.resolve();
+
+  const audioPath = getEnv().AUDIO_STORAGE_PATH;
+  const storage = new StorageService({ type: 'local', localPath: audioPath });
+
+  fastify.get<{ Params: AudioParams }>(
+    '/audio/:filename',
+    {
+      schema: {
+        params: AudioParamsSchema,
+        response: {
+          400: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { filename } = request.params;
+
+      let audio: Buffer;
+      try {
+        audio = await storage.getFile(path.join(audioPath, path.basename(filename)));
+      } catch {
+        return reply.status(404).send({
+          error: {
+            statusCode: 404,
+            message: 'Audio not found',
+            requestId: request.id,
+          },
+        });
+      }
+
+      return reply
+        .header('Content-Type', 'audio/wav')
+        .header('Cache-Control', 'public, max-age=86400')
+        .send(audio);
+    }
+  );
+};
+
+export default audioRoute;
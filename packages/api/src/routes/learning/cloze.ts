@@ -1,8 +1,9 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
-import { ErrorResponseSchema } from '../../schemas/common';
+import { AnswerErrorSchema, ErrorResponseSchema } from '../../schemas/common';
 import { authMiddleware } from '../../middleware/auth';
 import { ClozeExerciseService } from '../../services/practice/cloze.service';
+import { MAX_HINT_LEVEL } from '../../services/hints';
 
 const LanguageQuerySchema = Type.Object({
   language: Type.String({ minLength: 2, maxLength: 2 }),
@@ -50,6 +51,8 @@ const SubmitAnswerRequestSchema = Type.Object({
   alternativeAnswers: Type.Array(Type.String()),
   meaningId: Type.Union([Type.String(), Type.Null()]),
   timeSpentMs: Type.Number({ minimum: 0 }),
+  language: Type.Optional(Type.String({ minLength: 2, maxLength: 2 })),
+  hintsUsed: Type.Optional(Type.Integer({ minimum: 0, maximum: MAX_HINT_LEVEL })),
 });
 
 type SubmitAnswerRequest = Static<typeof SubmitAnswerRequestSchema>;
@@ -60,6 +63,7 @@ const SubmitAnswerResponseSchema = Type.Object({
   feedback: Type.String(),
   correctAnswer: Type.String(),
   partialCredit: Type.Number(),
+  errors: Type.Array(AnswerErrorSchema),
 });
 
 const StatsResponseSchema = Type.Object({
@@ -126,8 +130,16 @@ export const clozeRoutes: FastifyPluginAsync = async (fastify) => {
     },
     async (request, reply) => {
       const userId = request.user!.userId;
-      const { exerciseId, userAnswer, correctAnswer, alternativeAnswers, meaningId, timeSpentMs } =
-        request.body;
+      const {
+        exerciseId,
+        userAnswer,
+        correctAnswer,
+        alternativeAnswers,
+        meaningId,
+        timeSpentMs,
+        language,
+        hintsUsed,
+      } = request.body;
 
       const result = await clozeService.validateClozeAnswer(
         userId,
@@ -136,7 +148,9 @@ export const clozeRoutes: FastifyPluginAsync = async (fastify) => {
         correctAnswer,
         alternativeAnswers,
         meaningId,
-        timeSpentMs
+        timeSpentMs,
+        language,
+        hintsUsed
       );
 
       return reply.code(200).send(result);
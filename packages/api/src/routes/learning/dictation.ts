@@ -1,6 +1,6 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
-import { ErrorResponseSchema } from '../../schemas/common';
+import { AnswerErrorSchema, ErrorResponseSchema } from '../../schemas/common';
 import { authMiddleware } from '../../middleware/auth';
 import { DictationService } from '../../services/practice/dictation.service';
 
@@ -11,6 +11,12 @@ const LanguageQuerySchema = Type.Object({
 
 type LanguageQuery = Static<typeof LanguageQuerySchema>;
 
+const AudioSegmentSchema = Type.Object({
+  text: Type.String(),
+  startSeconds: Type.Number(),
+  endSeconds: Type.Number(),
+});
+
 const DictationExerciseSchema = Type.Object({
   exerciseId: Type.String(),
   audioUrl: Type.String(),
@@ -18,6 +24,7 @@ const DictationExerciseSchema = Type.Object({
   meaningId: Type.String(),
   cefrLevel: Type.String(),
   wordCount: Type.Number(),
+  segments: Type.Array(AudioSegmentSchema),
 });
 
 const ExercisesResponseSchema = Type.Object({
@@ -35,6 +42,7 @@ const WordDiffSchema = Type.Object({
   expected: Type.Optional(Type.String()),
   actual: Type.Optional(Type.String()),
   position: Type.Number(),
+  accentPositions: Type.Optional(Type.Array(Type.Integer())),
 });
 
 const SubmitDictationRequestSchema = Type.Object({
@@ -43,6 +51,8 @@ const SubmitDictationRequestSchema = Type.Object({
   correctTranscript: Type.String(),
   meaningId: Type.String(),
   timeSpentMs: Type.Number({ minimum: 0 }),
+  language: Type.Optional(Type.String({ minLength: 2, maxLength: 2 })),
+  replayCount: Type.Optional(Type.Integer({ minimum: 0, maximum: 100 })),
 });
 
 type SubmitDictationRequest = Static<typeof SubmitDictationRequestSchema>;
@@ -52,6 +62,7 @@ const SubmitDictationResponseSchema = Type.Object({
   characterAccuracy: Type.Number(),
   wordAccuracy: Type.Number(),
   diff: Type.Array(WordDiffSchema),
+  errors: Type.Array(AnswerErrorSchema),
   correctTranscript: Type.String(),
   qualityRating: Type.Number(),
 });
@@ -120,14 +131,17 @@ export const dictationRoutes: FastifyPluginAsync = async (fastify) => {
     },
     async (request, reply) => {
       const userId = request.user!.userId;
-      const { meaningId, userTranscript, correctTranscript, timeSpentMs } = request.body;
+      const { meaningId, userTranscript, correctTranscript, timeSpentMs, language, replayCount } =
+        request.body;
 
       const result = await dictationService.validateDictation(
         userId,
         meaningId,
         userTranscript,
         correctTranscript,
-        timeSpentMs
+        timeSpentMs,
+        language,
+        replayCount
       );
 
       return reply.code(200).send(result);
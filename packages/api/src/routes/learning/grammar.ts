@@ -1,11 +1,13 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
-import { ErrorResponseSchema } from '../../schemas/common';
+import { AnswerErrorSchema, ErrorResponseSchema } from '../../schemas/common';
 import { authMiddleware } from '../../middleware/auth';
 import { GrammarLessonService } from '../../services/grammar/lesson.service';
 import { GrammarComparisonService } from '../../services/grammar/comparison.service';
 import { GrammarExerciseService } from '../../services/grammar/exercise.service';
+import { isDrillId } from '../../services/grammar/drill.service';
 import { GrammarMasteryTrackerService } from '../../services/grammar/mastery-tracker.service';
+import { MAX_HINT_LEVEL } from '../../services/hints';
 
 const LanguageQuerySchema = Type.Object({
   language: Type.String({ minLength: 2, maxLength: 2 }),
@@ -125,8 +127,21 @@ const ExercisesResponseSchema = Type.Object({
   exercises: Type.Array(ExerciseSchema),
 });
 
+const DrillsQuerySchema = Type.Object({
+  language: Type.String({ minLength: 2, maxLength: 2 }),
+  kind: Type.Union([Type.Literal('conjugation'), Type.Literal('declension')]),
+  exerciseType: Type.Optional(
+    Type.Union([Type.Literal('fill_blank'), Type.Literal('transformation')])
+  ),
+  focus: Type.Optional(Type.String({ minLength: 1, maxLength: 30 })),
+  limit: Type.Optional(Type.Number({ minimum: 1, maximum: 50, default: 10 })),
+});
+
+type DrillsQuery = Static<typeof DrillsQuerySchema>;
+
 const ValidateAnswerRequestSchema = Type.Object({
   answer: Type.Union([Type.String(), Type.Array(Type.String())]),
+  hintsUsed: Type.Optional(Type.Integer({ minimum: 0, maximum: MAX_HINT_LEVEL })),
 });
 
 type ValidateAnswerRequest = Static<typeof ValidateAnswerRequestSchema>;
@@ -137,6 +152,7 @@ const ValidateAnswerResponseSchema = Type.Object({
   isCorrect: Type.Boolean(),
   feedback: Type.String(),
   partialCredit: Type.Number({ minimum: 0, maximum: 1 }),
+  errors: Type.Array(AnswerErrorSchema),
 });
 
 export const grammarRoutes: FastifyPluginAsync = async (fastify) => {
@@ -356,6 +372,40 @@ export const grammarRoutes: FastifyPluginAsync = async (fastify) => {
     }
   );
 
+  /**
+   * GET /learning/grammar/drills
+   * Generate conjugation or declension drills from the paradigm tables;
+   * focus narrows them to one tense or case
+   */
+  fastify.get<{
+    Querystring: DrillsQuery;
+  }>(
+    '/grammar/drills',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        querystring: DrillsQuerySchema,
+        response: {
+          200: ExercisesResponseSchema,
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { language, kind, exerciseType, focus, limit = 10 } = request.query;
+
+      const exercises = exerciseService.getParadigmDrills(language, kind, {
+        exerciseType,
+        focus,
+        limit,
+      });
+
+      return reply.code(200).send({ exercises });
+    }
+  );
+
   /**
    * POST /learning/grammar/exercises/:exerciseId/validate
    * Validate user's answer for an exercise
@@ -381,9 +431,16 @@ export const grammarRoutes: FastifyPluginAsync = async (fastify) => {
     },
     async (request, reply) => {
       const { exerciseId } = request.params;
-      const { answer } = request.body;
+      const { answer, hintsUsed } = request.body;
       const userId = request.user!.userId;
 
+      const result = await exerciseService.validateAnswer(exerciseId, answer, userId, hintsUsed);
+
+      // Paradigm drills are not tied to a rule of the curriculum
+      if (isDrillId(exerciseId)) {
+        return reply.code(200).send(result);
+      }
+
       // Get exercise metadata for mastery tracking
       interface ExerciseMetadata {
         grammar_rule_id: string;
@@ -397,8 +454,6 @@ export const grammarRoutes: FastifyPluginAsync = async (fastify) => {
         [exerciseId]
       );
 
-      const result = await exerciseService.validateAnswer(exerciseId, answer, userId);
-
       // Update curriculum progress if user has mastered the rule
       if (exerciseMetadata.rows.length > 0) {
         const { grammar_rule_id, language } = exerciseMetadata.rows[0];
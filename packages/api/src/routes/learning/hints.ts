@@ -0,0 +1,77 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { ErrorResponseSchema } from '../../schemas/common';
+import { authMiddleware } from '../../middleware/auth';
+import { HintService, MAX_HINT_LEVEL } from '../../services/hints';
+
+const HintRequestSchema = Type.Object({
+  exerciseType: Type.Union([
+    Type.Literal('translation'),
+    Type.Literal('cloze'),
+    Type.Literal('production'),
+    Type.Literal('recall'),
+    Type.Literal('grammar'),
+  ]),
+  language: Type.String({ minLength: 2, maxLength: 5 }),
+  level: Type.Integer({ minimum: 1, maximum: MAX_HINT_LEVEL }),
+  answer: Type.Optional(Type.String({ minLength: 1, maxLength: 1000 })),
+  meaningId: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+  // Stored exercise or generated paradigm drill
+  grammarExerciseId: Type.Optional(
+    Type.Union([
+      Type.String({ format: 'uuid' }),
+      Type.String({ pattern: '^paradigm:', maxLength: 200 }),
+    ])
+  ),
+});
+
+type HintRequestBody = Static<typeof HintRequestSchema>;
+
+const HintResponseSchema = Type.Object({
+  level: Type.Integer(),
+  type: Type.Union([
+    Type.Literal('first_letter'),
+    Type.Literal('word_count'),
+    Type.Literal('grammar'),
+    Type.Literal('cross_language_example'),
+    Type.Literal('reveal'),
+  ]),
+  text: Type.String(),
+  isReveal: Type.Boolean(),
+  maxLevel: Type.Integer(),
+});
+
+const hintsRoute: FastifyPluginAsync = async (fastify) => {
+  await Promise.resolve();
+  const hintService = new HintService(fastify.db);
+
+  /**
+   * POST /learning/hints
+   * Get the next hint of the ladder; the submitted answer then reports
+   * the number of hints used
+   */
+  fastify.post<{ Body: HintRequestBody }>(
+    '/hints',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        body: HintRequestSchema,
+        response: {
+          200: HintResponseSchema,
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+
+      const hint = await hintService.getHint(userId, request.body);
+
+      return reply.status(200).send({ ...hint, maxLevel: MAX_HINT_LEVEL });
+    }
+  );
+};
+
+export default hintsRoute;
@@ -16,13 +16,27 @@ import clozeRoute from './cloze';
 import dictationRoute from './dictation';
 import translationRoute from './translation';
 import productionRoute from './production';
+import speakingRoute from './speaking';
 import readingRoute from './reading';
 import reviewRoute from './review';
 import mixedRoute from './mixed';
 import interferenceRoute from './interference';
 import focusModeRoute from './focus-mode';
+import sessionsRoute from './sessions';
+import hintsRoute from './hints';
+import audioRoute from './audio';
+import { requireVerifiedEmail } from '../../middleware/verified-email';
 
 const learningRoutes: FastifyPluginAsync = async (fastify) => {
+  // Learning is closed to accounts with an unverified email address
+  fastify.addHook('onRoute', (route) => {
+    const preHandler = route.preHandler ?? [];
+    route.preHandler = [
+      ...(Array.isArray(preHandler) ? preHandler : [preHandler]),
+      requireVerifiedEmail,
+    ];
+  });
+
   await fastify.register(preferencesRoute);
   await fastify.register(languagesRoute);
   await fastify.register(orthographyRoute);
@@ -40,11 +54,15 @@ const learningRoutes: FastifyPluginAsync = async (fastify) => {
   await fastify.register(dictationRoute);
   await fastify.register(translationRoute);
   await fastify.register(productionRoute);
+  await fastify.register(speakingRoute);
   await fastify.register(readingRoute);
   await fastify.register(reviewRoute);
   await fastify.register(mixedRoute);
   await fastify.register(interferenceRoute);
   await fastify.register(focusModeRoute);
+  await fastify.register(sessionsRoute);
+  await fastify.register(hintsRoute);
+  await fastify.register(audioRoute);
 };
 
 export default learningRoutes;
@@ -3,6 +3,7 @@ import { Type, Static } from '@sinclair/typebox';
 import { ErrorResponseSchema } from '../../schemas/common';
 import { authMiddleware } from '../../middleware/auth';
 import { InterferenceDetectionService } from '../../services/interference';
+import { LeechService } from '../../services/srs/leech.service';
 
 const InterferenceTypeSchema = Type.Union([
   Type.Literal('vocabulary'),
@@ -123,6 +124,7 @@ const GetReductionResponseSchema = Type.Object({
 export const interferenceRoutes: FastifyPluginAsync = async (fastify) => {
   await Promise.resolve();
   const interferenceService = new InterferenceDetectionService(fastify.db);
+  const leechService = new LeechService(fastify.db);
 
   /**
    * POST /learning/interference/analyze
@@ -375,10 +377,21 @@ export const interferenceRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
     async (request, reply) => {
+      const userId = request.user!.userId;
       const { patternId } = request.params;
 
       await interferenceService.markRemediationCompleted(patternId);
 
+      // Leeches suspended for this pattern go back into reviews
+      const released = await leechService.releaseForPattern(userId, patternId);
+
+      if (released > 0) {
+        request.log.info(
+          { userId, patternId, released },
+          'Leeches released after interference drill'
+        );
+      }
+
       return reply.code(200).send({ success: true });
     }
   );
@@ -8,12 +8,22 @@ const MixingStrategySchema = Type.Union([
   Type.Literal('equal'),
   Type.Literal('weighted'),
   Type.Literal('random'),
+  Type.Literal('adaptive'),
 ]);
 
-const PracticeTypeSchema = Type.Union([Type.Literal('recall'), Type.Literal('recognition')]);
+const PracticeTypeSchema = Type.Union([
+  Type.Literal('recall'),
+  Type.Literal('recognition'),
+  Type.Literal('cloze'),
+  Type.Literal('dictation'),
+  Type.Literal('translation'),
+  Type.Literal('production'),
+  Type.Literal('reading'),
+  Type.Literal('grammar'),
+]);
 
 const StartSessionRequestSchema = Type.Object({
-  practiceTypes: Type.Array(PracticeTypeSchema, { minItems: 1, maxItems: 2 }),
+  practiceTypes: Type.Array(PracticeTypeSchema, { minItems: 1, maxItems: 8 }),
   itemsPerLanguage: Type.Optional(Type.Number({ minimum: 5, maximum: 50, default: 10 })),
   mixingStrategy: Type.Optional(MixingStrategySchema),
   totalItems: Type.Optional(Type.Number({ minimum: 5, maximum: 100, default: 20 })),
@@ -32,9 +42,12 @@ const MixedExerciseItemSchema = Type.Object({
   id: Type.String(),
   language: Type.String(),
   practiceType: PracticeTypeSchema,
-  meaningId: Type.String(),
+  meaningId: Type.Union([Type.String(), Type.Null()]),
   content: MixedItemContentSchema,
   estimatedDifficulty: Type.Number({ minimum: 1, maximum: 5 }),
+  // Exercise as served by the practice mode's own endpoint; null for flashcards
+  exercise: Type.Any(),
+  contrastWith: Type.Optional(Type.String()),
 });
 
 const StartSessionResponseSchema = Type.Object({
@@ -68,12 +81,21 @@ const LanguagePerformanceSchema = Type.Object({
   accuracy: Type.Number(),
 });
 
+const ModePerformanceSchema = Type.Object({
+  practiceType: Type.String(),
+  itemsAttempted: Type.Number(),
+  correctAnswers: Type.Number(),
+  averageTime: Type.Number(),
+  accuracy: Type.Number(),
+});
+
 const SessionSummarySchema = Type.Object({
   sessionId: Type.String(),
   totalItems: Type.Number(),
   totalCorrect: Type.Number(),
   totalTime: Type.Number(),
   languageBreakdown: Type.Array(LanguagePerformanceSchema),
+  modeBreakdown: Type.Array(ModePerformanceSchema),
   switchingEfficiency: Type.Number(),
 });
 
@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 import { ErrorResponseSchema, SuccessResponseSchema } from '../../schemas/common';
 import { OrthographyGateService } from '../../services/orthography-gate.service';
 
@@ -82,7 +83,7 @@ const orthographyGateRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post<{ Body: BypassGateBody }>(
     '/orthography-gate/bypass',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('curriculum:edit')],
       schema: {
         body: BypassGateBodySchema,
         response: {
@@ -93,18 +94,6 @@ const orthographyGateRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
     async (request, reply) => {
-      // Check if user is operator
-      if (request.user!.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Only operators can bypass orthography gates',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { userId, language } = request.body;
 
       await gateService.bypassGate(userId, language);
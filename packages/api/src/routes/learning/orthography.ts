@@ -2,6 +2,7 @@ import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { ErrorResponseSchema } from '../../schemas/common';
 import { authMiddleware } from '../../middleware/auth';
+import { MinimalPairService } from '../../services/practice/minimal-pair.service';
 
 const OrthographyLessonSchema = Type.Object({
   conceptId: Type.String(),
@@ -38,6 +39,42 @@ const CompleteOrthographyResponseSchema = Type.Object({
   requiredAccuracy: Type.Number(),
 });
 
+const MinimalPairExerciseSchema = Type.Object({
+  pairId: Type.String(),
+  language: Type.String(),
+  options: Type.Array(Type.String(), { minItems: 2, maxItems: 2 }),
+  targetWord: Type.String(),
+  contrast: Type.String(),
+  audioUrl: Type.Union([Type.String(), Type.Null()]),
+});
+
+const MinimalPairsQuerySchema = Type.Object({
+  count: Type.Optional(Type.Integer({ minimum: 1, maximum: 50, default: 10 })),
+});
+
+type MinimalPairsQuery = Static<typeof MinimalPairsQuerySchema>;
+
+const MinimalPairSubmitSchema = Type.Object({
+  language: Type.String({ minLength: 2, maxLength: 2 }),
+  pairId: Type.String({ minLength: 3, maxLength: 100 }),
+  targetWord: Type.String({ minLength: 1, maxLength: 50 }),
+  answer: Type.String({ minLength: 1, maxLength: 50 }),
+});
+
+type MinimalPairSubmit = Static<typeof MinimalPairSubmitSchema>;
+
+const MinimalPairResultSchema = Type.Object({
+  isCorrect: Type.Boolean(),
+  targetWord: Type.String(),
+  gate: Type.Object({
+    attempts: Type.Integer(),
+    accuracy: Type.Number(),
+    requiredAttempts: Type.Integer(),
+    requiredAccuracy: Type.Number(),
+    gateCompleted: Type.Boolean(),
+  }),
+});
+
 interface CurriculumRow {
   concept_id: string;
   metadata: {
@@ -61,6 +98,7 @@ const ORTHOGRAPHY_PASS_THRESHOLD = 80;
 
 const orthographyRoute: FastifyPluginAsync = async (fastify) => {
   await Promise.resolve();
+  const minimalPairService = new MinimalPairService(fastify.db);
 
   void fastify.get<{ Params: { language: string } }>(
     '/orthography/:language',
@@ -212,6 +250,55 @@ const orthographyRoute: FastifyPluginAsync = async (fastify) => {
     }
   );
 
+  // GET /learning/orthography/:language/minimal-pairs - Listening discrimination exercises
+  void fastify.get<{ Params: { language: string }; Querystring: MinimalPairsQuery }>(
+    '/orthography/:language/minimal-pairs',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        params: Type.Object({
+          language: Type.String({ minLength: 2, maxLength: 2 }),
+        }),
+        querystring: MinimalPairsQuerySchema,
+        response: {
+          200: Type.Object({ exercises: Type.Array(MinimalPairExerciseSchema) }),
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { language } = request.params;
+      const { count = 10 } = request.query;
+
+      const exercises = await minimalPairService.getExercises(language, count);
+
+      return reply.status(200).send({ exercises });
+    }
+  );
+
+  // POST /learning/orthography/minimal-pairs/submit - Answers count toward the orthography gate
+  void fastify.post<{ Body: MinimalPairSubmit }>(
+    '/orthography/minimal-pairs/submit',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        body: MinimalPairSubmitSchema,
+        response: {
+          200: MinimalPairResultSchema,
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+
+      const result = await minimalPairService.submitAnswer(userId, request.body);
+
+      return reply.status(200).send(result);
+    }
+  );
+
   void fastify.post<{ Body: { conceptId: string } }>(
     '/orthography/progress',
     {
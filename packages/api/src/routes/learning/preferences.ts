@@ -2,6 +2,10 @@ import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { authMiddleware } from '../../middleware/auth';
 import { ErrorResponseSchema, SuccessResponseSchema } from '../../schemas/common';
+import { SRSService } from '../../services/srs/srs.service';
+import { BacklogRecoveryService } from '../../services/srs/backlog-recovery.service';
+import { LeechService } from '../../services/srs/leech.service';
+import { DiacriticService } from '../../services/evaluation';
 
 const UserPreferencesSchema = Type.Object({
   baseLanguage: Type.String(),
@@ -25,8 +29,51 @@ const FocusModeSchema = Type.Object({
   language: Type.Optional(Type.String()),
 });
 
+const SchedulerTypeSchema = Type.Union([Type.Literal('sm2'), Type.Literal('fsrs')]);
+
+const SchedulerPreferenceSchema = Type.Object({
+  scheduler: SchedulerTypeSchema,
+});
+
+const ReviewLimitsSchema = Type.Object({
+  dailyReviewLimit: Type.Integer({ minimum: 0, maximum: 9999 }),
+  dailyNewLimit: Type.Integer({ minimum: 0, maximum: 999 }),
+});
+
+const ReviewLimitsResponseSchema = Type.Object({
+  dailyReviewLimit: Type.Integer(),
+  dailyNewLimit: Type.Integer(),
+  reviewsDone: Type.Integer(),
+  newDone: Type.Integer(),
+  reviewsRemaining: Type.Integer(),
+  newRemaining: Type.Integer(),
+});
+
+const LeechSettingsSchema = Type.Object({
+  threshold: Type.Integer({ minimum: 2, maximum: 50 }),
+  action: Type.Union([Type.Literal('suspend'), Type.Literal('remediate')]),
+});
+
+const DiacriticPreferenceSchema = Type.Object({
+  strictness: Type.Union([Type.Literal('strict'), Type.Literal('lenient'), Type.Literal('ignore')]),
+});
+
+const PauseRequestSchema = Type.Object({
+  paused: Type.Boolean(),
+});
+
+const PauseStatusSchema = Type.Object({
+  paused: Type.Boolean(),
+  pausedAt: Type.Union([Type.String(), Type.Null()]),
+});
+
 type UpdatePreferencesRequest = Static<typeof UpdatePreferencesSchema>;
 type FocusModeRequest = Static<typeof FocusModeSchema>;
+type SchedulerPreferenceRequest = Static<typeof SchedulerPreferenceSchema>;
+type ReviewLimitsRequest = Static<typeof ReviewLimitsSchema>;
+type PauseRequest = Static<typeof PauseRequestSchema>;
+type LeechSettingsRequest = Static<typeof LeechSettingsSchema>;
+type DiacriticPreferenceRequest = Static<typeof DiacriticPreferenceSchema>;
 
 interface PreferencesRow {
   user_id: string;
@@ -43,6 +90,10 @@ interface UserRow {
 
 const preferencesRoute: FastifyPluginAsync = async (fastify) => {
   await Promise.resolve();
+  const srsService = new SRSService(fastify.db);
+  const backlogRecovery = new BacklogRecoveryService(fastify.db);
+  const leechService = new LeechService(fastify.db);
+  const diacriticService = new DiacriticService(fastify.db);
 
   fastify.get(
     '/preferences',
@@ -276,6 +327,296 @@ const preferencesRoute: FastifyPluginAsync = async (fastify) => {
     }
   );
 
+  fastify.get(
+    '/preferences/scheduler',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        response: {
+          200: SchedulerPreferenceSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+
+      const scheduler = await srsService.getSchedulerType(userId);
+
+      return reply.status(200).send({ scheduler });
+    }
+  );
+
+  fastify.put<{ Body: SchedulerPreferenceRequest }>(
+    '/preferences/scheduler',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        body: SchedulerPreferenceSchema,
+        response: {
+          200: SuccessResponseSchema,
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { scheduler } = request.body;
+
+      await fastify.db.query(
+        `INSERT INTO user_preferences (user_id, studied_languages, focus_mode_enabled, onboarding_completed, settings, updated_at)
+         VALUES ($1, '[]'::jsonb, false, false, jsonb_build_object('srsScheduler', $2::text), CURRENT_TIMESTAMP)
+         ON CONFLICT (user_id) DO UPDATE SET
+           settings = COALESCE(user_preferences.settings, '{}'::jsonb) || jsonb_build_object('srsScheduler', $2::text),
+           updated_at = CURRENT_TIMESTAMP`,
+        [userId, scheduler]
+      );
+
+      request.log.info({ userId, scheduler }, 'SRS scheduler updated');
+
+      return reply.status(200).send({
+        success: true,
+        message: `Review scheduler set to ${scheduler.toUpperCase()}`,
+      });
+    }
+  );
+
+  fastify.get(
+    '/preferences/review-limits',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        response: {
+          200: ReviewLimitsResponseSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+
+      const quota = await srsService.getDailyQuota(userId);
+
+      return reply.status(200).send({
+        dailyReviewLimit: quota.reviewLimit,
+        dailyNewLimit: quota.newLimit,
+        reviewsDone: quota.reviewsDone,
+        newDone: quota.newDone,
+        reviewsRemaining: quota.reviewsRemaining,
+        newRemaining: quota.newRemaining,
+      });
+    }
+  );
+
+  fastify.put<{ Body: ReviewLimitsRequest }>(
+    '/preferences/review-limits',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        body: ReviewLimitsSchema,
+        response: {
+          200: SuccessResponseSchema,
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { dailyReviewLimit, dailyNewLimit } = request.body;
+
+      await fastify.db.query(
+        `INSERT INTO user_preferences (user_id, studied_languages, focus_mode_enabled, onboarding_completed, settings, updated_at)
+         VALUES ($1, '[]'::jsonb, false, false,
+                 jsonb_build_object('srsDailyReviewLimit', $2::int, 'srsDailyNewLimit', $3::int),
+                 CURRENT_TIMESTAMP)
+         ON CONFLICT (user_id) DO UPDATE SET
+           settings = COALESCE(user_preferences.settings, '{}'::jsonb)
+             || jsonb_build_object('srsDailyReviewLimit', $2::int, 'srsDailyNewLimit', $3::int),
+           updated_at = CURRENT_TIMESTAMP`,
+        [userId, dailyReviewLimit, dailyNewLimit]
+      );
+
+      request.log.info({ userId, dailyReviewLimit, dailyNewLimit }, 'Daily review limits updated');
+
+      return reply.status(200).send({
+        success: true,
+        message: `Daily limits set to ${dailyReviewLimit} reviews and ${dailyNewLimit} new items`,
+      });
+    }
+  );
+
+  fastify.get(
+    '/preferences/leeches',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        response: {
+          200: LeechSettingsSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+
+      const settings = await leechService.getSettings(userId);
+
+      return reply.status(200).send(settings);
+    }
+  );
+
+  fastify.put<{ Body: LeechSettingsRequest }>(
+    '/preferences/leeches',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        body: LeechSettingsSchema,
+        response: {
+          200: SuccessResponseSchema,
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { threshold, action } = request.body;
+
+      await fastify.db.query(
+        `INSERT INTO user_preferences (user_id, studied_languages, focus_mode_enabled, onboarding_completed, settings, updated_at)
+         VALUES ($1, '[]'::jsonb, false, false,
+                 jsonb_build_object('srsLeechThreshold', $2::int, 'srsLeechAction', $3::text),
+                 CURRENT_TIMESTAMP)
+         ON CONFLICT (user_id) DO UPDATE SET
+           settings = COALESCE(user_preferences.settings, '{}'::jsonb)
+             || jsonb_build_object('srsLeechThreshold', $2::int, 'srsLeechAction', $3::text),
+           updated_at = CURRENT_TIMESTAMP`,
+        [userId, threshold, action]
+      );
+
+      request.log.info({ userId, threshold, action }, 'Leech settings updated');
+
+      return reply.status(200).send({
+        success: true,
+        message: `Items become leeches after ${threshold} lapses`,
+      });
+    }
+  );
+
+  fastify.get(
+    '/preferences/diacritics',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        response: {
+          200: DiacriticPreferenceSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+
+      const strictness = await diacriticService.getStrictness(userId);
+
+      return reply.status(200).send({ strictness });
+    }
+  );
+
+  fastify.put<{ Body: DiacriticPreferenceRequest }>(
+    '/preferences/diacritics',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        body: DiacriticPreferenceSchema,
+        response: {
+          200: SuccessResponseSchema,
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { strictness } = request.body;
+
+      await diacriticService.setStrictness(userId, strictness);
+
+      request.log.info({ userId, strictness }, 'Diacritic strictness updated');
+
+      const messages: Record<DiacriticPreferenceRequest['strictness'], string> = {
+        strict: 'Missing or wrong accents now make an answer wrong',
+        lenient: 'Accent mistakes are now accepted with a warning',
+        ignore: 'Accents are now ignored when grading',
+      };
+
+      return reply.status(200).send({ success: true, message: messages[strictness] });
+    }
+  );
+
+  fastify.get(
+    '/preferences/pause',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        response: {
+          200: PauseStatusSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+
+      const status = await backlogRecovery.getStatus(userId);
+
+      return reply.status(200).send({ paused: status.paused, pausedAt: status.pausedAt });
+    }
+  );
+
+  fastify.put<{ Body: PauseRequest }>(
+    '/preferences/pause',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        body: PauseRequestSchema,
+        response: {
+          200: SuccessResponseSchema,
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { paused } = request.body;
+
+      if (paused) {
+        const pausedAt = await backlogRecovery.pause(userId);
+
+        request.log.info({ userId, pausedAt }, 'SRS reviews paused');
+
+        return reply.status(200).send({
+          success: true,
+          message: 'Reviews paused. Due dates are frozen until you return.',
+        });
+      }
+
+      const resumed = await backlogRecovery.resume(userId);
+
+      request.log.info({ userId, ...resumed }, 'SRS reviews resumed');
+
+      return reply.status(200).send({
+        success: true,
+        message: resumed
+          ? `Reviews resumed after ${resumed.pausedDays} days; ${resumed.shiftedItems} due dates moved`
+          : 'Reviews were not paused',
+      });
+    }
+  );
+
   const AddLanguageSchema = Type.Object({
     language: Type.String({ minLength: 2, maxLength: 2 }),
   });
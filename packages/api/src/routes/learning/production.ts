@@ -3,6 +3,7 @@ import { Type, Static } from '@sinclair/typebox';
 import { ErrorResponseSchema } from '../../schemas/common';
 import { authMiddleware } from '../../middleware/auth';
 import { ProductionService, SelfRating } from '../../services/practice/production.service';
+import { MAX_HINT_LEVEL } from '../../services/hints';
 
 const LanguageQuerySchema = Type.Object({
   language: Type.String({ minLength: 2, maxLength: 5 }),
@@ -41,6 +42,7 @@ const SubmitAssessmentRequestSchema = Type.Object({
   recordingDuration: Type.Number({ minimum: 0, maximum: 120 }),
   attemptNumber: Type.Number({ minimum: 1, maximum: 10 }),
   timeSpentMs: Type.Number({ minimum: 0 }),
+  hintsUsed: Type.Optional(Type.Integer({ minimum: 0, maximum: MAX_HINT_LEVEL })),
 });
 
 type SubmitAssessmentRequest = Static<typeof SubmitAssessmentRequestSchema>;
@@ -50,6 +52,69 @@ const SubmitAssessmentResponseSchema = Type.Object({
   qualityRating: Type.Number(),
 });
 
+const GradeAnswerRequestSchema = Type.Object({
+  meaningId: Type.String(),
+  language: Type.String({ minLength: 2, maxLength: 5 }),
+  answer: Type.String({ minLength: 1, maxLength: 500 }),
+});
+
+type GradeAnswerRequest = Static<typeof GradeAnswerRequestSchema>;
+
+const SubmitAnswerRequestSchema = Type.Object({
+  meaningId: Type.String(),
+  language: Type.String({ minLength: 2, maxLength: 5 }),
+  answer: Type.String({ minLength: 1, maxLength: 500 }),
+  timeSpentMs: Type.Number({ minimum: 0 }),
+  hintsUsed: Type.Optional(Type.Integer({ minimum: 0, maximum: MAX_HINT_LEVEL })),
+  selfRating: Type.Optional(SelfRatingSchema),
+});
+
+type SubmitAnswerRequest = Static<typeof SubmitAnswerRequestSchema>;
+
+const ProductionGradeProperties = {
+  score: Type.Number(),
+  qualityRating: Type.Number(),
+  isCorrect: Type.Boolean(),
+  matchedAnswer: Type.Union([Type.String(), Type.Null()]),
+  lemmaOverlap: Type.Number(),
+  keywordCoverage: Type.Number(),
+  missingKeywords: Type.Array(Type.String()),
+  ruleChecks: Type.Array(
+    Type.Object({
+      ruleId: Type.String(),
+      title: Type.String(),
+      passed: Type.Boolean(),
+    })
+  ),
+  diff: Type.Array(
+    Type.Object({
+      type: Type.String(),
+      expected: Type.Optional(Type.String()),
+      actual: Type.Optional(Type.String()),
+      position: Type.Number(),
+      accentPositions: Type.Optional(Type.Array(Type.Number())),
+    })
+  ),
+  errors: Type.Array(
+    Type.Object({
+      type: Type.String(),
+      expected: Type.Optional(Type.String()),
+      actual: Type.Optional(Type.String()),
+      position: Type.Number(),
+      accentPositions: Type.Optional(Type.Array(Type.Number())),
+    })
+  ),
+  feedback: Type.String(),
+};
+
+const ProductionGradeSchema = Type.Object(ProductionGradeProperties);
+
+const SubmitAnswerResponseSchema = Type.Object({
+  ...ProductionGradeProperties,
+  autoQualityRating: Type.Number(),
+  selfRating: Type.Union([SelfRatingSchema, Type.Null()]),
+});
+
 const StatsResponseSchema = Type.Object({
   stats: Type.Object({
     totalExercises: Type.Number(),
@@ -114,7 +179,8 @@ export const productionRoutes: FastifyPluginAsync = async (fastify) => {
     },
     async (request, reply) => {
       const userId = request.user!.userId;
-      const { meaningId, selfRating, recordingDuration, attemptNumber, timeSpentMs } = request.body;
+      const { meaningId, selfRating, recordingDuration, attemptNumber, timeSpentMs, hintsUsed } =
+        request.body;
 
       const result = await productionService.submitAssessment(userId, {
         meaningId,
@@ -122,6 +188,72 @@ export const productionRoutes: FastifyPluginAsync = async (fastify) => {
         recordingDuration,
         attemptNumber,
         timeSpentMs,
+        hintsUsed,
+      });
+
+      return reply.code(200).send(result);
+    }
+  );
+
+  /**
+   * POST /learning/production/grade
+   * Grade a typed answer against the approved utterances without recording it
+   */
+  fastify.post<{
+    Body: GradeAnswerRequest;
+  }>(
+    '/production/grade',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        body: GradeAnswerRequestSchema,
+        response: {
+          200: ProductionGradeSchema,
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { meaningId, language, answer } = request.body;
+
+      const grade = await productionService.gradeAnswer(userId, meaningId, language, answer);
+
+      return reply.code(200).send(grade);
+    }
+  );
+
+  /**
+   * POST /learning/production/submit
+   * Grade and record a typed answer; a self-rating overrides the automatic grade
+   */
+  fastify.post<{
+    Body: SubmitAnswerRequest;
+  }>(
+    '/production/submit',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        body: SubmitAnswerRequestSchema,
+        response: {
+          200: SubmitAnswerResponseSchema,
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { meaningId, language, answer, timeSpentMs, hintsUsed, selfRating } = request.body;
+
+      const result = await productionService.submitAnswer(userId, {
+        meaningId,
+        language,
+        answer,
+        timeSpentMs,
+        hintsUsed,
+        selfRating: selfRating as SelfRating | undefined,
       });
 
       return reply.code(200).send(result);
@@ -3,6 +3,7 @@ import { Type, Static } from '@sinclair/typebox';
 import { ErrorResponseSchema } from '../../schemas/common';
 import { authMiddleware } from '../../middleware/auth';
 import { RecallPracticeService } from '../../services/vocabulary/recall-practice.service';
+import { MAX_HINT_LEVEL } from '../../services/hints';
 
 const LanguageQuerySchema = Type.Object({
   language: Type.String({ minLength: 2, maxLength: 2 }),
@@ -44,6 +45,8 @@ const ReviewRequestSchema = Type.Object({
     Type.Literal(4),
     Type.Literal(5),
   ]),
+  sessionId: Type.Optional(Type.String({ format: 'uuid' })),
+  hintsUsed: Type.Optional(Type.Integer({ minimum: 0, maximum: MAX_HINT_LEVEL })),
 });
 
 type ReviewRequest = Static<typeof ReviewRequestSchema>;
@@ -123,9 +126,15 @@ export const recallRoutes: FastifyPluginAsync = async (fastify) => {
     },
     async (request, reply) => {
       const userId = request.user!.userId;
-      const { meaningId, quality } = request.body;
-
-      const result = await recallService.submitReview(userId, meaningId, quality);
+      const { meaningId, quality, sessionId, hintsUsed } = request.body;
+
+      const result = await recallService.submitReview(
+        userId,
+        meaningId,
+        quality,
+        sessionId,
+        hintsUsed
+      );
 
       return reply.code(200).send({
         nextReviewAt: result.nextReviewAt,
@@ -57,11 +57,13 @@ const QueueResponseSchema = Type.Object({
   total: Type.Number(),
   items: Type.Array(QueueItemSchema),
   nextReviewAt: Type.Union([Type.String(), Type.Null()]),
+  dailyLimitReached: Type.Boolean(),
 });
 
 const StartSessionResponseSchema = Type.Object({
   sessionId: Type.String({ format: 'uuid' }),
   itemsInQueue: Type.Number(),
+  itemsByType: Type.Record(Type.String(), Type.Number()),
   startedAt: Type.String(),
 });
 
@@ -127,6 +129,7 @@ const reviewRoutes: FastifyPluginAsync = async (fastify) => {
           dueDate: item.dueDate.toISOString(),
         })),
         nextReviewAt: result.nextReviewAt,
+        dailyLimitReached: result.dailyLimitReached,
       });
     }
   );
@@ -0,0 +1,300 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { ErrorResponseSchema } from '../../schemas/common';
+import { authMiddleware } from '../../middleware/auth';
+import { PracticeSessionService } from '../../services/session';
+import { MAX_HINT_LEVEL } from '../../services/hints';
+
+const PracticeModeSchema = Type.Union([
+  Type.Literal('cloze'),
+  Type.Literal('dictation'),
+  Type.Literal('translation'),
+  Type.Literal('reading'),
+  Type.Literal('production'),
+]);
+
+const SessionStatusSchema = Type.Union([
+  Type.Literal('active'),
+  Type.Literal('completed'),
+  Type.Literal('abandoned'),
+  Type.Literal('expired'),
+]);
+
+// Request schemas
+const StartSessionRequestSchema = Type.Object({
+  practiceMode: PracticeModeSchema,
+  language: Type.String({ minLength: 2, maxLength: 2 }),
+  sourceLanguage: Type.Optional(Type.String({ minLength: 2, maxLength: 2 })),
+  limit: Type.Optional(Type.Number({ minimum: 1, maximum: 50, default: 10 })),
+  timeLimitSeconds: Type.Optional(Type.Number({ minimum: 30, maximum: 7200 })),
+});
+
+type StartSessionRequest = Static<typeof StartSessionRequestSchema>;
+
+const ActiveSessionQuerySchema = Type.Object({
+  practiceMode: Type.Optional(PracticeModeSchema),
+});
+
+type ActiveSessionQuery = Static<typeof ActiveSessionQuerySchema>;
+
+const SessionParamsSchema = Type.Object({
+  sessionId: Type.String({ format: 'uuid' }),
+});
+
+type SessionParams = Static<typeof SessionParamsSchema>;
+
+// The fields of an answer depend on the practice mode
+const SubmitAnswerRequestSchema = Type.Object({
+  itemId: Type.String(),
+  answer: Type.Object({
+    text: Type.Optional(Type.String({ maxLength: 2000 })),
+    answers: Type.Optional(
+      Type.Array(
+        Type.Object({
+          questionId: Type.String(),
+          answerIndex: Type.Integer({ minimum: 0 }),
+        })
+      )
+    ),
+    selfRating: Type.Optional(
+      Type.Union([
+        Type.Literal('again'),
+        Type.Literal('hard'),
+        Type.Literal('good'),
+        Type.Literal('easy'),
+      ])
+    ),
+    recordingDuration: Type.Optional(Type.Number({ minimum: 0 })),
+    attemptNumber: Type.Optional(Type.Integer({ minimum: 1 })),
+    replayCount: Type.Optional(Type.Integer({ minimum: 0, maximum: 100 })),
+    hintsUsed: Type.Optional(Type.Integer({ minimum: 0, maximum: MAX_HINT_LEVEL })),
+  }),
+  timeSpentMs: Type.Number({ minimum: 0 }),
+});
+
+type SubmitAnswerRequest = Static<typeof SubmitAnswerRequestSchema>;
+
+// Response schemas
+const SessionItemSchema = Type.Object({
+  itemId: Type.String(),
+  position: Type.Number(),
+  // Exercise and result as served by the practice mode's own endpoints
+  exercise: Type.Any(),
+  answered: Type.Boolean(),
+  isCorrect: Type.Union([Type.Boolean(), Type.Null()]),
+  result: Type.Any(),
+});
+
+const PracticeSessionSchema = Type.Object({
+  sessionId: Type.String({ format: 'uuid' }),
+  practiceMode: PracticeModeSchema,
+  language: Type.String(),
+  sourceLanguage: Type.Union([Type.String(), Type.Null()]),
+  status: SessionStatusSchema,
+  items: Type.Array(SessionItemSchema),
+  currentPosition: Type.Number(),
+  timeLimitSeconds: Type.Union([Type.Number(), Type.Null()]),
+  timeRemainingSeconds: Type.Union([Type.Number(), Type.Null()]),
+  startedAt: Type.String(),
+});
+
+const SubmitAnswerResponseSchema = Type.Object({
+  isCorrect: Type.Boolean(),
+  result: Type.Any(),
+  itemsAnswered: Type.Number(),
+  itemsTotal: Type.Number(),
+  status: SessionStatusSchema,
+});
+
+const SessionSummarySchema = Type.Object({
+  sessionId: Type.String({ format: 'uuid' }),
+  practiceMode: PracticeModeSchema,
+  language: Type.String(),
+  status: SessionStatusSchema,
+  itemsTotal: Type.Number(),
+  itemsAnswered: Type.Number(),
+  correctCount: Type.Number(),
+  accuracyPct: Type.Number(),
+  durationSeconds: Type.Number(),
+  avgTimeMs: Type.Number(),
+  timeLimitSeconds: Type.Union([Type.Number(), Type.Null()]),
+  startedAt: Type.String(),
+  completedAt: Type.Union([Type.String(), Type.Null()]),
+});
+
+const sessionRoutes: FastifyPluginAsync = async (fastify) => {
+  await Promise.resolve();
+  const sessionService = new PracticeSessionService(fastify.db);
+
+  /**
+   * POST /learning/sessions
+   * Start a practice session with a server-side item list
+   */
+  fastify.post<{ Body: StartSessionRequest }>(
+    '/sessions',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        body: StartSessionRequestSchema,
+        response: {
+          200: PracticeSessionSchema,
+          400: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { practiceMode, language, sourceLanguage, limit = 10, timeLimitSeconds } = request.body;
+
+      const session = await sessionService.startSession(userId, {
+        practiceMode,
+        language,
+        sourceLanguage,
+        limit,
+        timeLimitSeconds,
+      });
+
+      request.log.info(
+        { userId, sessionId: session.sessionId, practiceMode, items: session.items.length },
+        'Practice session started'
+      );
+
+      return reply.status(200).send(session);
+    }
+  );
+
+  /**
+   * GET /learning/sessions/active
+   * Get the user's active session to resume (if any)
+   */
+  fastify.get<{ Querystring: ActiveSessionQuery }>(
+    '/sessions/active',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        querystring: ActiveSessionQuerySchema,
+        response: {
+          200: Type.Union([PracticeSessionSchema, Type.Null()]),
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+
+      const session = await sessionService.getActiveSession(userId, request.query.practiceMode);
+
+      return reply.status(200).send(session);
+    }
+  );
+
+  /**
+   * POST /learning/sessions/:sessionId/answers
+   * Grade and save the answer to a session item
+   */
+  fastify.post<{ Params: SessionParams; Body: SubmitAnswerRequest }>(
+    '/sessions/:sessionId/answers',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        params: SessionParamsSchema,
+        body: SubmitAnswerRequestSchema,
+        response: {
+          200: SubmitAnswerResponseSchema,
+          400: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { sessionId } = request.params;
+      const { itemId, answer, timeSpentMs } = request.body;
+
+      const outcome = await sessionService.submitAnswer(
+        userId,
+        sessionId,
+        itemId,
+        answer,
+        timeSpentMs
+      );
+
+      return reply.status(200).send(outcome);
+    }
+  );
+
+  /**
+   * POST /learning/sessions/:sessionId/complete
+   * End a session before every item is answered
+   */
+  fastify.post<{ Params: SessionParams }>(
+    '/sessions/:sessionId/complete',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        params: SessionParamsSchema,
+        response: {
+          200: SessionSummarySchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { sessionId } = request.params;
+
+      const summary = await sessionService.completeSession(sessionId, userId);
+
+      if (!summary) {
+        return reply.status(404).send({
+          error: {
+            statusCode: 404,
+            message: 'Session not found',
+            requestId: request.id,
+          },
+        });
+      }
+
+      return reply.status(200).send(summary);
+    }
+  );
+
+  /**
+   * GET /learning/sessions/:sessionId/summary
+   * Get session results
+   */
+  fastify.get<{ Params: SessionParams }>(
+    '/sessions/:sessionId/summary',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        params: SessionParamsSchema,
+        response: {
+          200: SessionSummarySchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { sessionId } = request.params;
+
+      const summary = await sessionService.getSummary(sessionId, userId);
+
+      if (!summary) {
+        return reply.status(404).send({
+          error: {
+            statusCode: 404,
+            message: 'Session not found',
+            requestId: request.id,
+          },
+        });
+      }
+
+      return reply.status(200).send(summary);
+    }
+  );
+};
+
+export default sessionRoutes;
@@ -0,0 +1,244 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { z } from 'zod';
+import multipart from '@fastify/multipart';
+import { ErrorResponseSchema } from '../../schemas/common';
+import { authMiddleware } from '../../middleware/auth';
+import { getEnv } from '../../config/env';
+import { SpeakingService } from '../../services/practice/speaking.service';
+import { createSpeechRecognizer } from '../../services/speech';
+
+const MAX_RECORDING_BYTES = 10 * 1024 * 1024;
+
+const ALLOWED_AUDIO_TYPES = ['audio/webm', 'audio/ogg', 'audio/wav', 'audio/mpeg', 'audio/mp4'];
+
+// Multipart fields sent with the recording; they must precede the file
+const AssessFieldsSchema = z.object({
+  meaningId: z.string().min(1),
+  targetText: z.string().min(1).max(500),
+  language: z.string().min(2).max(5),
+  timeSpentMs: z.coerce.number().min(0),
+});
+
+interface FieldValue {
+  value: string;
+}
+
+const LanguageQuerySchema = Type.Object({
+  language: Type.String({ minLength: 2, maxLength: 5 }),
+  limit: Type.Optional(Type.Number({ minimum: 1, maximum: 50, default: 10 })),
+});
+
+type LanguageQuery = Static<typeof LanguageQuerySchema>;
+
+const SpeakingExerciseSchema = Type.Object({
+  exerciseId: Type.String(),
+  text: Type.String(),
+  audioUrl: Type.Union([Type.String(), Type.Null()]),
+  romanization: Type.Union([Type.String(), Type.Null()]),
+  translation: Type.Union([Type.String(), Type.Null()]),
+  meaningId: Type.String(),
+  cefrLevel: Type.String(),
+  language: Type.String(),
+});
+
+const ExercisesResponseSchema = Type.Object({
+  exercises: Type.Array(SpeakingExerciseSchema),
+  count: Type.Number(),
+  recognitionAvailable: Type.Boolean(),
+});
+
+const WordDiffSchema = Type.Object({
+  type: Type.Union([
+    Type.Literal('correct'),
+    Type.Literal('substitution'),
+    Type.Literal('insertion'),
+    Type.Literal('deletion'),
+  ]),
+  expected: Type.Optional(Type.String()),
+  actual: Type.Optional(Type.String()),
+  position: Type.Number(),
+  accentPositions: Type.Optional(Type.Array(Type.Number())),
+});
+
+const AnswerErrorSchema = Type.Object({
+  type: Type.String(),
+  expected: Type.Optional(Type.String()),
+  actual: Type.Optional(Type.String()),
+  position: Type.Number(),
+  accentPositions: Type.Optional(Type.Array(Type.Number())),
+});
+
+const SpeakingResultSchema = Type.Object({
+  isCorrect: Type.Boolean(),
+  transcript: Type.String(),
+  confidence: Type.Union([Type.Number(), Type.Null()]),
+  characterAccuracy: Type.Number(),
+  wordAccuracy: Type.Number(),
+  diff: Type.Array(WordDiffSchema),
+  errors: Type.Array(AnswerErrorSchema),
+  targetText: Type.String(),
+  qualityRating: Type.Number(),
+});
+
+const StatsResponseSchema = Type.Object({
+  stats: Type.Object({
+    totalExercises: Type.Number(),
+    correctCount: Type.Number(),
+    accuracy: Type.Number(),
+    avgCharacterAccuracy: Type.Union([Type.Number(), Type.Null()]),
+  }),
+});
+
+export const speakingRoutes: FastifyPluginAsync = async (fastify) => {
+  await fastify.register(multipart, {
+    limits: {
+      fileSize: MAX_RECORDING_BYTES,
+      files: 1,
+    },
+  });
+
+  const env = getEnv();
+  const recognizer = createSpeechRecognizer({
+    engine: env.SPEECH_RECOGNIZER,
+    url: env.SPEECH_RECOGNIZER_URL,
+    timeoutMs: env.SPEECH_RECOGNIZER_TIMEOUT_MS,
+  });
+  const speakingService = new SpeakingService(fastify.db, recognizer);
+
+  /**
+   * GET /learning/speaking/exercises
+   * Get speaking exercises for due vocabulary
+   */
+  fastify.get<{
+    Querystring: LanguageQuery;
+  }>(
+    '/speaking/exercises',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        querystring: LanguageQuerySchema,
+        response: {
+          200: ExercisesResponseSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { language, limit = 10 } = request.query;
+
+      const exercises = await speakingService.getSpeakingExercises(userId, language, limit);
+
+      return reply.code(200).send({
+        exercises,
+        count: exercises.length,
+        recognitionAvailable: speakingService.isAvailable(),
+      });
+    }
+  );
+
+  /**
+   * POST /learning/speaking/assess
+   * Transcribe a recording (multipart "audio" file) and score it
+   */
+  fastify.post(
+    '/speaking/assess',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        response: {
+          200: SpeakingResultSchema,
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          502: ErrorResponseSchema,
+          503: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+
+      const badRequest = (message: string) =>
+        reply.code(400).send({
+          error: { statusCode: 400, message, requestId: request.id },
+        });
+
+      let data;
+      try {
+        data = await request.file();
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('multipart')) {
+          return badRequest('No recording uploaded');
+        }
+        throw error;
+      }
+
+      if (!data) {
+        return badRequest('No recording uploaded');
+      }
+
+      const mimeType = data.mimetype.split(';')[0].trim();
+      if (!ALLOWED_AUDIO_TYPES.includes(mimeType)) {
+        return badRequest('Invalid recording type');
+      }
+
+      const fields = AssessFieldsSchema.safeParse(
+        Object.fromEntries(
+          Object.keys(AssessFieldsSchema.shape).map((name) => [
+            name,
+            (data.fields[name] as FieldValue | undefined)?.value,
+          ])
+        )
+      );
+      if (!fields.success) {
+        return badRequest(
+          `Invalid fields: ${fields.error.issues.map((issue) => issue.path.join('.')).join(', ')}`
+        );
+      }
+
+      // Throws a 413 error when the recording exceeds MAX_RECORDING_BYTES
+      const audio = await data.toBuffer();
+
+      const result = await speakingService.assessSpeech(userId, {
+        ...fields.data,
+        audio,
+        mimeType: data.mimetype,
+      });
+
+      return reply.code(200).send(result);
+    }
+  );
+
+  /**
+   * GET /learning/speaking/stats
+   * Get speaking practice statistics
+   */
+  fastify.get<{
+    Querystring: { language: string };
+  }>(
+    '/speaking/stats',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        querystring: Type.Object({
+          language: Type.String({ minLength: 2, maxLength: 5 }),
+        }),
+        response: {
+          200: StatsResponseSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { language } = request.query;
+
+      const stats = await speakingService.getStats(userId, language);
+
+      return reply.code(200).send({ stats });
+    }
+  );
+};
+
+export default speakingRoutes;
@@ -2,11 +2,27 @@ import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { ErrorResponseSchema } from '../../schemas/common';
 import { authMiddleware } from '../../middleware/auth';
+import { SRSService } from '../../services/srs/srs.service';
+import { SM2Calculator } from '../../services/srs/sm2-calculator';
+import { MAX_UNDO_COUNT, ReviewLogService } from '../../services/srs/review-log.service';
+import {
+  BacklogRecoveryService,
+  SRSRecoveryPlan,
+} from '../../services/srs/backlog-recovery.service';
+import { LeechService } from '../../services/srs/leech.service';
+
+const SRSItemTypeSchema = Type.Union([
+  Type.Literal('vocabulary'),
+  Type.Literal('grammar'),
+  Type.Literal('orthography'),
+  Type.Literal('reading'),
+]);
 
 const SRSItemSchema = Type.Object({
   id: Type.String({ format: 'uuid' }),
-  itemType: Type.String(),
+  itemType: SRSItemTypeSchema,
   itemId: Type.String(),
+  language: Type.String(),
   dueDate: Type.String({ format: 'date-time' }),
   intervalDays: Type.Number(),
   easeFactor: Type.Number(),
@@ -15,7 +31,7 @@ const SRSItemSchema = Type.Object({
 
 const SRSDueQuerySchema = Type.Object({
   language: Type.Optional(Type.String()),
-  itemType: Type.Optional(Type.String()),
+  itemType: Type.Optional(SRSItemTypeSchema),
   limit: Type.Optional(Type.Number({ minimum: 1, maximum: 100, default: 20 })),
 });
 
@@ -23,28 +39,85 @@ type SRSDueQuery = Static<typeof SRSDueQuerySchema>;
 
 const SRSReviewRequestSchema = Type.Object({
   itemId: Type.String(),
-  itemType: Type.String(),
+  itemType: SRSItemTypeSchema,
   quality: Type.Number({ minimum: 0, maximum: 5 }),
+  language: Type.Optional(Type.String()),
+  sessionId: Type.Optional(Type.String({ format: 'uuid' })),
 });
 
 type SRSReviewRequest = Static<typeof SRSReviewRequestSchema>;
 
-interface SRSRow {
-  id: string;
-  item_type: string;
-  item_id: string;
-  due_date: Date;
-  interval_days: number;
-  ease_factor: string;
-  repetitions: number;
-}
+const SRSUndoRequestSchema = Type.Object({
+  sessionId: Type.String({ format: 'uuid' }),
+  count: Type.Optional(Type.Integer({ minimum: 1, maximum: MAX_UNDO_COUNT, default: 1 })),
+});
+
+type SRSUndoRequest = Static<typeof SRSUndoRequestSchema>;
+
+const SRSUndoneReviewSchema = Type.Object({
+  logId: Type.String(),
+  itemType: SRSItemTypeSchema,
+  itemId: Type.String(),
+  practiceMode: Type.String(),
+  rating: Type.String(),
+});
+
+const RecoveryPlanRequestSchema = Type.Object({
+  days: Type.Integer({ minimum: 1, maximum: BacklogRecoveryService.MAX_PLAN_DAYS }),
+  language: Type.Optional(Type.String()),
+});
 
-interface CountRow {
-  total: string;
-}
+type RecoveryPlanRequest = Static<typeof RecoveryPlanRequestSchema>;
+
+const RecoveryPlanSchema = Type.Object({
+  startDate: Type.String(),
+  days: Type.Number(),
+  totalItems: Type.Number(),
+  dailyCounts: Type.Array(Type.Number()),
+  language: Type.Union([Type.String(), Type.Null()]),
+});
+
+const SRSLeechQuerySchema = Type.Object({
+  language: Type.Optional(Type.String()),
+});
+
+type SRSLeechQuery = Static<typeof SRSLeechQuerySchema>;
+
+const SRSLeechSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  itemType: SRSItemTypeSchema,
+  itemId: Type.String(),
+  language: Type.String(),
+  text: Type.Union([Type.String(), Type.Null()]),
+  lapses: Type.Number(),
+  leechAt: Type.String({ format: 'date-time' }),
+  suspended: Type.Boolean(),
+  remediation: Type.Union([Type.Literal('relearn'), Type.Literal('interference'), Type.Null()]),
+  interferencePatternId: Type.Union([Type.String(), Type.Null()]),
+});
+
+const SRSLeechReleaseRequestSchema = Type.Object({
+  itemType: SRSItemTypeSchema,
+  itemId: Type.String(),
+});
+
+type SRSLeechReleaseRequest = Static<typeof SRSLeechReleaseRequestSchema>;
 
 const srsRoute: FastifyPluginAsync = async (fastify) => {
   await Promise.resolve();
+  const srsService = new SRSService(fastify.db);
+  const sm2 = new SM2Calculator();
+  const reviewLog = new ReviewLogService(fastify.db);
+  const backlogRecovery = new BacklogRecoveryService(fastify.db);
+  const leechService = new LeechService(fastify.db);
+
+  const toPlanResponse = (plan: SRSRecoveryPlan) => ({
+    startDate: plan.startDate,
+    days: plan.days,
+    totalItems: plan.totalItems,
+    dailyCounts: plan.dailyCounts,
+    language: plan.language,
+  });
 
   void fastify.get<{ Querystring: SRSDueQuery }>(
     '/srs/due',
@@ -62,46 +135,25 @@ const srsRoute: FastifyPluginAsync = async (fastify) => {
     },
     async (request, reply) => {
       const userId = request.user!.userId;
-      const { itemType, limit = 20 } = request.query;
-
-      const conditions: string[] = ['user_id = $1', 'due_date <= CURRENT_TIMESTAMP'];
-      const values: unknown[] = [userId];
-      let paramIndex = 2;
-
-      if (itemType) {
-        conditions.push(`item_type = $${paramIndex++}`);
-        values.push(itemType);
-      }
-
-      const whereClause = conditions.join(' AND ');
-
-      const dueResult = await fastify.db.query<SRSRow>(
-        `SELECT id, item_type, item_id, due_date, interval_days, ease_factor, repetitions
-         FROM user_srs_schedule
-         WHERE ${whereClause}
-         ORDER BY due_date ASC
-         LIMIT $${paramIndex}`,
-        [...values, limit]
-      );
-
-      const countResult = await fastify.db.query<CountRow>(
-        `SELECT COUNT(*) as total FROM user_srs_schedule WHERE ${whereClause}`,
-        values
-      );
-
-      const items = dueResult.rows.map((row) => ({
-        id: row.id,
-        itemType: row.item_type,
-        itemId: row.item_id,
-        dueDate: row.due_date.toISOString(),
-        intervalDays: row.interval_days,
-        easeFactor: parseFloat(row.ease_factor),
-        repetitions: row.repetitions,
+      const { language, itemType, limit = 20 } = request.query;
+
+      const dueItems = await srsService.getDueItems(userId, language, limit, itemType);
+      const totalDue = await srsService.countDueItems(userId, language, itemType);
+
+      const items = dueItems.map((item) => ({
+        id: item.id,
+        itemType: item.itemType,
+        itemId: item.itemId,
+        language: item.language,
+        dueDate: item.dueDate.toISOString(),
+        intervalDays: item.interval,
+        easeFactor: Number(item.easeFactor),
+        repetitions: item.repetitions,
       }));
 
       return reply.status(200).send({
         items,
-        totalDue: parseInt(countResult.rows[0].total, 10),
+        totalDue,
       });
     }
   );
@@ -125,80 +177,86 @@ const srsRoute: FastifyPluginAsync = async (fastify) => {
     },
     async (request, reply) => {
       const userId = request.user!.userId;
-      const { itemId, itemType, quality } = request.body;
-
-      const srsResult = await fastify.db.query<SRSRow>(
-        `SELECT id, interval_days, ease_factor, repetitions
-         FROM user_srs_schedule
-         WHERE user_id = $1 AND item_type = $2 AND item_id = $3`,
-        [userId, itemType, itemId]
-      );
-
-      let intervalDays: number;
-      let easeFactor: number;
-      let repetitions: number;
-      let isNew = false;
-
-      if (srsResult.rows.length === 0) {
-        isNew = true;
-        intervalDays = 1;
-        easeFactor = 2.5;
-        repetitions = 0;
-      } else {
-        const current = srsResult.rows[0];
-        intervalDays = current.interval_days;
-        easeFactor = parseFloat(current.ease_factor);
-        repetitions = current.repetitions;
-      }
-
-      if (quality < 3) {
-        intervalDays = 1;
-        repetitions = 0;
-      } else {
-        if (repetitions === 0) {
-          intervalDays = 1;
-        } else if (repetitions === 1) {
-          intervalDays = 6;
-        } else {
-          intervalDays = Math.round(intervalDays * easeFactor);
+      const { itemId, itemType, quality, language, sessionId } = request.body;
+
+      const existing = await srsService.getScheduleItem(userId, itemId, itemType);
+
+      if (!existing) {
+        if (!language) {
+          return reply.status(404).send({
+            error: {
+              statusCode: 404,
+              message: `${itemType} item ${itemId} is not scheduled; include language to add it`,
+              requestId: request.id,
+              code: 'SRS_ITEM_NOT_FOUND',
+            },
+          });
         }
-        repetitions += 1;
 
-        intervalDays = Math.min(intervalDays, 180);
+        await srsService.addToSchedule(userId, itemType, itemId, language);
       }
 
-      easeFactor = easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
-      easeFactor = Math.max(1.3, easeFactor); // Minimum ease factor
-
-      const nextDueDate = new Date();
-      nextDueDate.setDate(nextDueDate.getDate() + intervalDays);
-
-      if (isNew) {
-        await fastify.db.query(
-          `INSERT INTO user_srs_schedule
-           (user_id, item_type, item_id, due_date, interval_days, ease_factor, repetitions)
-           VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-          [userId, itemType, itemId, nextDueDate, intervalDays, easeFactor, repetitions]
-        );
-      } else {
-        await fastify.db.query(
-          `UPDATE user_srs_schedule
-           SET due_date = $4, interval_days = $5, ease_factor = $6, repetitions = $7, updated_at = CURRENT_TIMESTAMP
-           WHERE user_id = $1 AND item_type = $2 AND item_id = $3`,
-          [userId, itemType, itemId, nextDueDate, intervalDays, easeFactor, repetitions]
-        );
-      }
+      const rating = sm2.qualityToRating(quality);
+      const update = await srsService.recordReview(userId, itemId, rating, itemType, {
+        sessionId,
+      });
 
       request.log.info(
-        { userId, itemType, itemId, quality, nextDueDate, intervalDays },
+        {
+          userId,
+          itemType,
+          itemId,
+          quality,
+          nextDueDate: update.nextDueDate,
+          intervalDays: update.newInterval,
+        },
         'SRS review completed'
       );
 
       return reply.status(200).send({
         success: true,
-        nextDueDate: nextDueDate.toISOString(),
-        newInterval: intervalDays,
-        newEaseFactor: Math.round(easeFactor * 100) / 100,
+        nextDueDate: update.nextDueDate.toISOString(),
+        newInterval: update.newInterval,
+        newEaseFactor: Math.round(update.newEaseFactor * 100) / 100,
+      });
+    }
+  );
+
+  void fastify.post<{ Body: SRSUndoRequest }>(
+    '/srs/undo',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        body: SRSUndoRequestSchema,
+        response: {
+          200: Type.Object({
+            undone: Type.Array(SRSUndoneReviewSchema),
+            count: Type.Number(),
+          }),
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { sessionId, count = 1 } = request.body;
+
+      const undone = await reviewLog.undoLast(userId, sessionId, count);
+
+      request.log.info(
+        { userId, sessionId, requested: count, undone: undone.length },
+        'SRS reviews undone'
+      );
+
+      return reply.status(200).send({
+        undone: undone.map((review) => ({
+          logId: review.logId,
+          itemType: review.itemType,
+          itemId: review.itemId,
+          practiceMode: review.practiceMode,
+          rating: review.rating,
+        })),
+        count: undone.length,
       });
     }
   );
@@ -234,9 +292,9 @@ const srsRoute: FastifyPluginAsync = async (fastify) => {
       }>(
         `SELECT
            COUNT(*) as total,
-           COUNT(*) FILTER (WHERE due_date <= CURRENT_TIMESTAMP) as due_today,
-           COUNT(*) FILTER (WHERE due_date <= CURRENT_TIMESTAMP + INTERVAL '7 days') as due_week
-         FROM user_srs_schedule
+           COUNT(*) FILTER (WHERE next_review_at <= CURRENT_TIMESTAMP) as due_today,
+           COUNT(*) FILTER (WHERE next_review_at <= CURRENT_TIMESTAMP + INTERVAL '7 days') as due_week
+         FROM user_srs_items
          WHERE user_id = $1`,
         [userId]
       );
@@ -251,8 +309,8 @@ const srsRoute: FastifyPluginAsync = async (fastify) => {
         `SELECT
            item_type,
            COUNT(*) as count,
-           COUNT(*) FILTER (WHERE due_date <= CURRENT_TIMESTAMP) as due_count
-         FROM user_srs_schedule
+           COUNT(*) FILTER (WHERE next_review_at <= CURRENT_TIMESTAMP) as due_count
+         FROM user_srs_items
          WHERE user_id = $1
          GROUP BY item_type`,
         [userId]
@@ -272,6 +330,138 @@ const srsRoute: FastifyPluginAsync = async (fastify) => {
       });
     }
   );
+
+  void fastify.get(
+    '/srs/backlog',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        response: {
+          200: Type.Object({
+            paused: Type.Boolean(),
+            pausedAt: Type.Union([Type.String(), Type.Null()]),
+            overdueCount: Type.Number(),
+            recoveryPlan: Type.Union([
+              Type.Intersect([
+                RecoveryPlanSchema,
+                Type.Object({ currentDay: Type.Number(), todayTarget: Type.Number() }),
+              ]),
+              Type.Null(),
+            ]),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+
+      const status = await backlogRecovery.getStatus(userId);
+
+      return reply.status(200).send({
+        paused: status.paused,
+        pausedAt: status.pausedAt,
+        overdueCount: status.overdueCount,
+        recoveryPlan: status.recoveryPlan
+          ? {
+              ...toPlanResponse(status.recoveryPlan),
+              currentDay: status.recoveryPlan.currentDay,
+              todayTarget: status.recoveryPlan.todayTarget,
+            }
+          : null,
+      });
+    }
+  );
+
+  void fastify.post<{ Body: RecoveryPlanRequest }>(
+    '/srs/recovery-plan',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        body: RecoveryPlanRequestSchema,
+        response: {
+          200: RecoveryPlanSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { days, language } = request.body;
+
+      const plan = await backlogRecovery.createPlan(userId, days, language);
+
+      request.log.info(
+        { userId, days, totalItems: plan.totalItems, language },
+        'SRS recovery plan created'
+      );
+
+      return reply.status(200).send(toPlanResponse(plan));
+    }
+  );
+
+  void fastify.get<{ Querystring: SRSLeechQuery }>(
+    '/srs/leeches',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        querystring: SRSLeechQuerySchema,
+        response: {
+          200: Type.Object({
+            leeches: Type.Array(SRSLeechSchema),
+            total: Type.Number(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { language } = request.query;
+
+      const leeches = await leechService.getLeeches(userId, language);
+
+      return reply.status(200).send({
+        leeches: leeches.map((leech) => ({
+          ...leech,
+          leechAt: leech.leechAt.toISOString(),
+        })),
+        total: leeches.length,
+      });
+    }
+  );
+
+  void fastify.post<{ Body: SRSLeechReleaseRequest }>(
+    '/srs/leeches/release',
+    {
+      preHandler: [authMiddleware],
+      schema: {
+        body: SRSLeechReleaseRequestSchema,
+        response: {
+          200: Type.Object({ success: Type.Boolean() }),
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.user!.userId;
+      const { itemType, itemId } = request.body;
+
+      const released = await leechService.release(userId, itemType, itemId);
+
+      if (!released) {
+        return reply.status(404).send({
+          error: {
+            statusCode: 404,
+            message: `${itemType} item ${itemId} is not a suspended leech`,
+            requestId: request.id,
+            code: 'SRS_LEECH_NOT_FOUND',
+          },
+        });
+      }
+
+      request.log.info({ userId, itemType, itemId }, 'Leech released');
+
+      return reply.status(200).send({ success: true });
+    }
+  );
 };
 
 export default srsRoute;
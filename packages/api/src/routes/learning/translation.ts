@@ -1,8 +1,9 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
-import { ErrorResponseSchema } from '../../schemas/common';
+import { AnswerErrorSchema, ErrorResponseSchema } from '../../schemas/common';
 import { authMiddleware } from '../../middleware/auth';
 import { TranslationService } from '../../services/practice/translation.service';
+import { MAX_HINT_LEVEL } from '../../services/hints';
 
 const LanguagePairQuerySchema = Type.Object({
   sourceLanguage: Type.String({ minLength: 2, maxLength: 5 }),
@@ -39,6 +40,8 @@ const SubmitTranslationRequestSchema = Type.Object({
   acceptableTranslations: Type.Array(Type.String()),
   meaningId: Type.String(),
   timeSpentMs: Type.Number({ minimum: 0 }),
+  targetLanguage: Type.Optional(Type.String({ minLength: 2, maxLength: 5 })),
+  hintsUsed: Type.Optional(Type.Integer({ minimum: 0, maximum: MAX_HINT_LEVEL })),
 });
 
 type SubmitTranslationRequest = Static<typeof SubmitTranslationRequestSchema>;
@@ -49,6 +52,7 @@ const SubmitTranslationResponseSchema = Type.Object({
   matchedTranslation: Type.Union([Type.String(), Type.Null()]),
   alternativeTranslations: Type.Array(Type.String()),
   feedback: Type.String(),
+  errors: Type.Array(AnswerErrorSchema),
   qualityRating: Type.Number(),
 });
 
@@ -66,17 +70,6 @@ const StatsResponseSchema = Type.Object({
   }),
 });
 
-const HintRequestSchema = Type.Object({
-  acceptableTranslations: Type.Array(Type.String()),
-  hintLevel: Type.Number({ minimum: 1, maximum: 3 }),
-});
-
-type HintRequest = Static<typeof HintRequestSchema>;
-
-const HintResponseSchema = Type.Object({
-  hint: Type.String(),
-});
-
 export const translationRoutes: FastifyPluginAsync = async (fastify) => {
   await Promise.resolve();
   const translationService = new TranslationService(fastify.db);
@@ -144,14 +137,23 @@ export const translationRoutes: FastifyPluginAsync = async (fastify) => {
     },
     async (request, reply) => {
       const userId = request.user!.userId;
-      const { meaningId, userTranslation, acceptableTranslations, timeSpentMs } = request.body;
+      const {
+        meaningId,
+        userTranslation,
+        acceptableTranslations,
+        timeSpentMs,
+        targetLanguage,
+        hintsUsed,
+      } = request.body;
 
       const result = await translationService.validateTranslation(
         userId,
         meaningId,
         userTranslation,
         acceptableTranslations,
-        timeSpentMs
+        timeSpentMs,
+        targetLanguage,
+        hintsUsed
       );
 
       return reply.code(200).send(result);
@@ -185,33 +187,6 @@ export const translationRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.code(200).send({ stats });
     }
   );
-
-  /**
-   * POST /learning/translation/hint
-   * Get a hint for translation exercise
-   */
-  fastify.post<{
-    Body: HintRequest;
-  }>(
-    '/translation/hint',
-    {
-      preHandler: [authMiddleware],
-      schema: {
-        body: HintRequestSchema,
-        response: {
-          200: HintResponseSchema,
-          401: ErrorResponseSchema,
-        },
-      },
-    },
-    async (request, reply) => {
-      const { acceptableTranslations, hintLevel } = request.body;
-
-      const hint = translationService.generateHint(acceptableTranslations, hintLevel);
-
-      return reply.code(200).send({ hint });
-    }
-  );
 };
 
 export default translationRoutes;
@@ -19,6 +19,7 @@ const WordStateSchema = Type.Object({
 const RecordReviewRequestSchema = Type.Object({
   meaningId: Type.String(),
   wasSuccessful: Type.Boolean(),
+  sessionId: Type.Optional(Type.String({ format: 'uuid' })),
 });
 
 type RecordReviewRequest = Static<typeof RecordReviewRequestSchema>;
@@ -134,10 +135,15 @@ export const wordStateRoutes: FastifyPluginAsync = async (fastify) => {
     },
     async (request, reply) => {
       const userId = request.user!.userId;
-      const { meaningId, wasSuccessful } = request.body;
+      const { meaningId, wasSuccessful, sessionId } = request.body;
 
       const previousState = await wordStateService.getWordState(userId, meaningId);
-      const newState = await wordStateService.recordReview(userId, meaningId, wasSuccessful);
+      const newState = await wordStateService.recordReview(
+        userId,
+        meaningId,
+        wasSuccessful,
+        sessionId
+      );
 
       return reply.code(200).send({
         meaningId: newState.meaningId,
@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 import { ErrorResponseSchema } from '../../schemas/common';
 
 const ActivityLogEntrySchema = Type.Object({
@@ -34,7 +35,7 @@ const activityLogRoute: FastifyPluginAsync = async function (fastify) {
   fastify.get(
     '/activity-log',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('analytics:view')],
       schema: {
         querystring: Type.Object({
           limit: Type.Optional(Type.Number({ minimum: 1, maximum: 100 })),
@@ -47,17 +48,6 @@ const activityLogRoute: FastifyPluginAsync = async function (fastify) {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { limit = 10 } = request.query as { limit?: number };
 
       const result = await fastify.db.query<{
@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 import { ErrorResponseSchema, SuccessResponseSchema } from '../../schemas/common';
 import { withTransaction } from '../../utils/db.utils';
 import { recordApproval } from '@polyladder/lifecycle';
@@ -30,7 +31,7 @@ const approveRoute: FastifyPluginAsync = async function (fastify) {
   fastify.post<{ Params: ApproveParams; Body: ApproveBody }>(
     '/approve/:id',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         params: ApproveParamsSchema,
         body: ApproveBodySchema,
@@ -44,20 +45,9 @@ const approveRoute: FastifyPluginAsync = async function (fastify) {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { id } = request.params;
       const { dataType, notes } = request.body;
-      const operatorId = request.user.userId;
+      const operatorId = request.user!.userId;
 
       const client = await fastify.db.connect();
 
@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 import { ErrorResponseSchema, PaginationQuerySchema } from '../../schemas/common';
 
 const CorpusSearchQuerySchema = Type.Intersect([
@@ -113,7 +114,7 @@ const corpusRoute: FastifyPluginAsync = async function (fastify) {
   fastify.get<{ Querystring: CorpusSearchQuery }>(
     '/corpus/search',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         querystring: CorpusSearchQuerySchema,
         response: {
@@ -124,17 +125,6 @@ const corpusRoute: FastifyPluginAsync = async function (fastify) {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const limit = request.query.limit ?? 50;
       const offset = request.query.offset ?? 0;
       const { contentType, language, level, search } = request.query;
@@ -359,7 +349,7 @@ const corpusRoute: FastifyPluginAsync = async function (fastify) {
   fastify.get(
     '/corpus/languages',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         response: {
           200: LanguagesResponseSchema,
@@ -368,18 +358,7 @@ const corpusRoute: FastifyPluginAsync = async function (fastify) {
         },
       },
     },
-    async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
+    async (_request, reply) => {
       const result = await fastify.db.query<{ language: string }>(`
         SELECT DISTINCT language FROM (
           SELECT language FROM approved_utterances
@@ -398,7 +377,7 @@ const corpusRoute: FastifyPluginAsync = async function (fastify) {
   fastify.get(
     '/corpus/statistics',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         response: {
           200: StatisticsResponseSchema,
@@ -407,18 +386,7 @@ const corpusRoute: FastifyPluginAsync = async function (fastify) {
         },
       },
     },
-    async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
+    async (_request, reply) => {
       const [meaningsCount, utterancesCount, rulesCount, exercisesCount] = await Promise.all([
         fastify.db.query<{ count: string }>('SELECT COUNT(*) as count FROM approved_meanings'),
         fastify.db.query<{ count: string }>('SELECT COUNT(*) as count FROM approved_utterances'),
@@ -515,7 +483,7 @@ const corpusRoute: FastifyPluginAsync = async function (fastify) {
   fastify.post<{ Body: Static<typeof ExportBodySchema> }>(
     '/corpus/export',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         body: ExportBodySchema,
         response: {
@@ -525,17 +493,6 @@ const corpusRoute: FastifyPluginAsync = async function (fastify) {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { itemIds, contentType, format } = request.body;
 
       if (itemIds.length === 0) {
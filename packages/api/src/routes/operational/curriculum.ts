@@ -2,6 +2,7 @@ import { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
 import { CurriculumService } from '../../services/curriculum.service';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 
 const CreateTopicSchema = z.object({
   levelId: z.string().uuid(),
@@ -35,7 +36,7 @@ export const curriculumRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get(
     '/curriculum/levels/:language',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('curriculum:edit')],
     },
     async (request, reply) => {
       const { language } = request.params as { language: string };
@@ -47,7 +48,7 @@ export const curriculumRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get(
     '/curriculum/topics/:levelId',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('curriculum:edit')],
     },
     async (request, reply) => {
       const { levelId } = request.params as { levelId: string };
@@ -88,7 +89,7 @@ export const curriculumRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post(
     '/curriculum/topics',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('curriculum:edit')],
     },
     async (request, reply) => {
       const input = CreateTopicSchema.parse(request.body);
@@ -100,7 +101,7 @@ export const curriculumRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.put(
     '/curriculum/topics/:id',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('curriculum:edit')],
     },
     async (request, reply) => {
       const { id } = request.params as { id: string };
@@ -113,7 +114,7 @@ export const curriculumRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.delete(
     '/curriculum/topics/:id',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('curriculum:edit')],
     },
     async (request, reply) => {
       const { id } = request.params as { id: string };
@@ -125,7 +126,7 @@ export const curriculumRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post(
     '/curriculum/topics/:levelId/reorder',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('curriculum:edit')],
     },
     async (request, reply) => {
       const { levelId } = request.params as { levelId: string };
@@ -138,7 +139,7 @@ export const curriculumRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post(
     '/curriculum/topics/:levelId/import',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('curriculum:edit')],
     },
     async (request, reply) => {
       const { levelId } = request.params as { levelId: string };
@@ -152,7 +153,7 @@ export const curriculumRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post(
     '/curriculum/topics/bulk',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('curriculum:edit')],
     },
     async (request, reply) => {
       try {
@@ -179,20 +180,9 @@ export const curriculumRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get(
     '/curriculum/topics/:topicId/approved-items',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('curriculum:edit')],
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { topicId } = request.params as { topicId: string };
 
       const approvedItemsResult = await fastify.db.query<{
@@ -261,20 +251,9 @@ export const curriculumRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.delete(
     '/curriculum/approved-items/:id',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('curriculum:edit')],
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { id } = request.params as { id: string };
 
       const checkResult = await fastify.db.query<{ id: string }>(
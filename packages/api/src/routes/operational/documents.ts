@@ -3,6 +3,7 @@ import { z } from 'zod';
 import multipart from '@fastify/multipart';
 import { StorageService } from '../../services/storage.service';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 
 const UploadMetadataSchema = z.object({
   language: z.enum(['ES', 'IT', 'PT', 'SL', 'EN']),
@@ -174,7 +175,7 @@ export const documentRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post(
     '/documents/upload',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       let data;
@@ -310,7 +311,7 @@ export const documentRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get(
     '/documents',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const query = request.query as DocumentQueryParams;
@@ -362,7 +363,7 @@ export const documentRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get(
     '/documents/:id',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const { id } = request.params as { id: string };
@@ -403,7 +404,7 @@ export const documentRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get(
     '/documents/:id/chunks/:chunkId',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const { id, chunkId } = request.params as { id: string; chunkId: string };
@@ -426,7 +427,7 @@ export const documentRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post(
     '/documents/:id/reprocess',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const { id } = request.params as { id: string };
@@ -445,7 +446,7 @@ export const documentRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.delete(
     '/documents/:id',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const { id } = request.params as { id: string };
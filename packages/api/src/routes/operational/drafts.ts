@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 
 const ApproveBodySchema = z.object({
   overrideTopicId: z.string().uuid().optional(),
@@ -48,7 +49,7 @@ export const draftRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get(
     '/drafts/review',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
     },
     async (request, reply) => {
       const {
@@ -134,7 +135,7 @@ export const draftRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post(
     '/drafts/:id/approve',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
     },
     async (request, reply) => {
       const { id } = request.params as { id: string };
@@ -227,7 +228,7 @@ export const draftRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post(
     '/drafts/:id/reject',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
     },
     async (request, reply) => {
       const { id } = request.params as { id: string };
@@ -288,7 +289,7 @@ export const draftRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post(
     '/drafts/:id/rerun',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
     },
     async (request, reply) => {
       const { id } = request.params as { id: string };
@@ -346,7 +347,7 @@ export const draftRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post(
     '/drafts/bulk-approve',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
     },
     async (request, reply) => {
       const body = BulkApproveBodySchema.parse(request.body);
@@ -439,7 +440,7 @@ export const draftRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post(
     '/drafts/bulk-reject',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
     },
     async (request, reply) => {
       const body = BulkRejectBodySchema.parse(request.body);
@@ -496,7 +497,7 @@ export const draftRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get(
     '/drafts/stats',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
     },
     async (request, reply) => {
       const { pipeline_id } = request.query as { pipeline_id?: string };
@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 import { ErrorResponseSchema } from '../../schemas/common';
 
 const TrendsQuerySchema = Type.Object({
@@ -39,7 +40,7 @@ const failureTrendsRoute: FastifyPluginAsync = async function (fastify) {
   fastify.get<{ Querystring: TrendsQuery }>(
     '/failures/trends',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('analytics:view')],
       schema: {
         querystring: TrendsQuerySchema,
         response: {
@@ -50,17 +51,6 @@ const failureTrendsRoute: FastifyPluginAsync = async function (fastify) {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const timeRange = request.query.timeRange ?? '7d';
 
       let interval = '7 days';
@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 import { ErrorResponseSchema, PaginationQuerySchema } from '../../schemas/common';
 
 const FailureItemSchema = Type.Object({
@@ -59,7 +60,7 @@ const failuresRoute: FastifyPluginAsync = async function (fastify) {
   fastify.get<{ Querystring: FailuresQuery }>(
     '/failures',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
       schema: {
         querystring: FailuresQuerySchema,
         response: {
@@ -70,17 +71,6 @@ const failuresRoute: FastifyPluginAsync = async function (fastify) {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const limit = request.query.limit ?? 20;
       const offset = request.query.offset ?? 0;
       const { dataType, state, since } = request.query;
@@ -142,7 +132,7 @@ const failuresRoute: FastifyPluginAsync = async function (fastify) {
   fastify.post<{ Params: { id: string } }>(
     '/failures/:id/retry',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
       schema: {
         params: Type.Object({
           id: Type.String(),
@@ -156,17 +146,6 @@ const failuresRoute: FastifyPluginAsync = async function (fastify) {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { id } = request.params;
 
       const failureResult = await fastify.db.query<FailureRow>(
@@ -214,7 +193,7 @@ const failuresRoute: FastifyPluginAsync = async function (fastify) {
   fastify.post<{ Body: Static<typeof BulkRetryBodySchema> }>(
     '/failures/bulk-retry',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
       schema: {
         body: BulkRetryBodySchema,
         response: {
@@ -225,17 +204,6 @@ const failuresRoute: FastifyPluginAsync = async function (fastify) {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { failureIds } = request.body;
 
       if (failureIds.length === 0) {
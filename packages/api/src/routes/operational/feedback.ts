@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 import { ErrorResponseSchema, SuccessResponseSchema } from '../../schemas/common';
 import { FeedbackService } from '../../services/feedback.service';
 import { withTransaction } from '../../utils/db.utils';
@@ -58,7 +59,7 @@ export const feedbackRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post<{ Body: CreateFeedbackInput }>(
     '/feedback',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         body: CreateFeedbackSchema,
         response: {
@@ -73,23 +74,12 @@ export const feedbackRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const input = request.body;
 
       const feedbackId = await feedbackService.createFeedback({
         itemId: input.itemId,
         itemType: input.itemType,
-        operatorId: request.user.userId,
+        operatorId: request.user!.userId,
         action: input.action,
         category: input.category,
         comment: input.comment,
@@ -103,7 +93,7 @@ export const feedbackRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get<{ Params: { itemId: string } }>(
     '/feedback/item/:itemId',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         params: Type.Object({
           itemId: Type.String({ format: 'uuid' }),
@@ -119,17 +109,6 @@ export const feedbackRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { itemId } = request.params;
 
       const feedback = await feedbackService.getFeedbackForItem(itemId);
@@ -142,7 +121,7 @@ export const feedbackRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get<{ Querystring: { days?: number } }>(
     '/feedback/stats',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         querystring: Type.Object({
           days: Type.Optional(Type.Number({ minimum: 1, maximum: 365 })),
@@ -160,17 +139,6 @@ export const feedbackRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { days = 30 } = request.query;
       const stats = await feedbackService.getStats(days);
       return reply.send(stats);
@@ -180,7 +148,7 @@ export const feedbackRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get<{ Querystring: { category?: string } }>(
     '/feedback/templates',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         querystring: Type.Object({
           category: Type.Optional(Type.String()),
@@ -195,17 +163,6 @@ export const feedbackRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { category } = request.query;
       const templates = await feedbackService.getTemplates(category);
       return reply.send({ templates });
@@ -215,7 +172,7 @@ export const feedbackRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post<{ Body: CreateTemplateInput }>(
     '/feedback/templates',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         body: CreateTemplateSchema,
         response: {
@@ -230,24 +187,13 @@ export const feedbackRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const input = request.body;
 
       const templateId = await feedbackService.createTemplate({
         name: input.name,
         category: input.category,
         templateText: input.templateText,
-        createdBy: request.user.userId,
+        createdBy: request.user!.userId,
       });
 
       return reply.status(201).send({ success: true, id: templateId });
@@ -257,7 +203,7 @@ export const feedbackRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post<{ Params: { id: string } }>(
     '/feedback/templates/:id/use',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         params: Type.Object({
           id: Type.String({ format: 'uuid' }),
@@ -270,17 +216,6 @@ export const feedbackRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { id } = request.params;
       await feedbackService.incrementTemplateUse(id);
       return reply.send({ success: true });
@@ -290,7 +225,7 @@ export const feedbackRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get<{ Querystring: { status?: string; limit?: number } }>(
     '/feedback/retry-queue',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         querystring: Type.Object({
           status: Type.Optional(Type.String()),
@@ -306,17 +241,6 @@ export const feedbackRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { status = 'pending', limit = 20 } = request.query;
 
       const result = await fastify.db.query(
@@ -336,7 +260,7 @@ export const feedbackRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post<{ Body: BulkRejectInput }>(
     '/feedback/bulk-reject',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         body: BulkRejectSchema,
         response: {
@@ -351,18 +275,7 @@ export const feedbackRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
-      const operatorId = request.user.userId;
+      const operatorId = request.user!.userId;
       const { itemIds, itemType, category, comment } = request.body;
 
       let rejected = 0;
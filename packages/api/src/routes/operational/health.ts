@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 import { ErrorResponseSchema } from '../../schemas/common';
 
 const ContentTypeStatsSchema = Type.Object({
@@ -49,7 +50,7 @@ const healthRoute: FastifyPluginAsync = async function (fastify) {
   fastify.get(
     '/health',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('analytics:view')],
       schema: {
         response: {
           200: PipelineHealthSchema,
@@ -58,18 +59,7 @@ const healthRoute: FastifyPluginAsync = async function (fastify) {
         },
       },
     },
-    async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
+    async (_request, reply) => {
       const draftResult = await fastify.db.query<{ data_type: string; count: string }>(
         `SELECT data_type, COUNT(*) as count 
          FROM pipeline_tasks 
@@ -19,6 +19,8 @@ import { pipelinesRoutes } from './pipelines';
 import pipelineMappingsRoute from './pipeline-mappings';
 import pipelineReviewQueueRoute from './pipeline-review-queue';
 import pipelineFailuresRoute from './pipeline-failures';
+import { ttsVoicesRoutes } from './tts-voices';
+import operatorsRoute from './operators';
 
 const operationalRoutes: FastifyPluginAsync = async (fastify) => {
   await fastify.register(healthRoute);
@@ -41,6 +43,8 @@ const operationalRoutes: FastifyPluginAsync = async (fastify) => {
   await fastify.register(pipelineMappingsRoute);
   await fastify.register(pipelineReviewQueueRoute);
   await fastify.register(pipelineFailuresRoute);
+  await fastify.register(ttsVoicesRoutes);
+  await fastify.register(operatorsRoute);
 };
 
 export default operationalRoutes;
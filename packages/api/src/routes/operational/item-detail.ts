@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 import { ErrorResponseSchema } from '../../schemas/common';
 
 const ItemDetailParamsSchema = Type.Object({
@@ -54,7 +55,7 @@ const itemDetailRoute: FastifyPluginAsync = async function (fastify) {
   fastify.get<{ Params: ItemDetailParams }>(
     '/items/:dataType/:id',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         params: ItemDetailParamsSchema,
         response: {
@@ -67,17 +68,6 @@ const itemDetailRoute: FastifyPluginAsync = async function (fastify) {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { dataType, id } = request.params;
 
       if (!isValidDataType(dataType)) {
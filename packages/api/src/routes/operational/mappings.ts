@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 
 interface MappingQueryParams {
   page?: string;
@@ -23,7 +24,7 @@ export const mappingRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get(
     '/mappings/review',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const query = request.query as MappingQueryParams;
@@ -65,7 +66,7 @@ export const mappingRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post(
     '/mappings/:id/confirm',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const { id } = request.params as { id: string };
@@ -84,7 +85,7 @@ export const mappingRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post(
     '/mappings/:id/reject',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const { id } = request.params as { id: string };
@@ -101,7 +102,7 @@ export const mappingRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post(
     '/mappings/bulk-confirm',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const { ids } = z.object({ ids: z.array(z.string().uuid()) }).parse(request.body);
@@ -120,7 +121,7 @@ export const mappingRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post(
     '/mappings/:id/remap',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const { id } = request.params as { id: string };
@@ -140,7 +141,7 @@ export const mappingRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get(
     '/mappings/stats',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (_request, reply) => {
       const result = await fastify.db.query(`
@@ -172,7 +173,7 @@ export const mappingRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get(
     '/transformation-jobs',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const query = request.query as MappingQueryParams;
@@ -219,7 +220,7 @@ export const mappingRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post(
     '/transformation-jobs/:id/retry',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const { id } = request.params as { id: string };
@@ -268,7 +269,7 @@ export const mappingRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.delete(
     '/transformation-jobs/:id',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const { id } = request.params as { id: string };
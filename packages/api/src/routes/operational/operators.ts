@@ -0,0 +1,258 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
+import { ErrorResponseSchema, SuccessResponseSchema, UuidSchema } from '../../schemas/common';
+import { getEnv } from '../../config/env';
+import {
+  OPERATOR_ROLES,
+  OperatorAccessService,
+  OperatorInvitation,
+  OperatorInvitationService,
+} from '../../services/access';
+
+const OperatorRoleSchema = Type.Union(OPERATOR_ROLES.map((role) => Type.Literal(role)));
+
+const RolesSchema = Type.Array(OperatorRoleSchema, { minItems: 1, uniqueItems: true });
+
+const OperatorSchema = Type.Object({
+  userId: Type.String(),
+  email: Type.String(),
+  roles: Type.Array(OperatorRoleSchema),
+  twoFactorEnabled: Type.Boolean(),
+  createdAt: Type.String(),
+});
+
+const InvitationSchema = Type.Object({
+  id: Type.String(),
+  email: Type.String(),
+  roles: Type.Array(OperatorRoleSchema),
+  invitedBy: Type.String(),
+  status: Type.Union([
+    Type.Literal('pending'),
+    Type.Literal('accepted'),
+    Type.Literal('revoked'),
+    Type.Literal('expired'),
+  ]),
+  expiresAt: Type.String(),
+  createdAt: Type.String(),
+});
+
+const CreateInvitationSchema = Type.Object({
+  email: Type.String({ format: 'email', minLength: 5, maxLength: 255 }),
+  roles: RolesSchema,
+});
+
+const UpdateRolesSchema = Type.Object({
+  roles: RolesSchema,
+});
+
+const TwoFactorPolicySchema = Type.Object({
+  roles: Type.Array(OperatorRoleSchema, { uniqueItems: true }),
+});
+
+const UserIdParamsSchema = Type.Object({
+  userId: UuidSchema,
+});
+
+const InvitationIdParamsSchema = Type.Object({
+  id: UuidSchema,
+});
+
+type CreateInvitationInput = Static<typeof CreateInvitationSchema>;
+type UpdateRolesInput = Static<typeof UpdateRolesSchema>;
+type TwoFactorPolicyInput = Static<typeof TwoFactorPolicySchema>;
+type UserIdParams = Static<typeof UserIdParamsSchema>;
+type InvitationIdParams = Static<typeof InvitationIdParamsSchema>;
+
+function toInvitation(invitation: OperatorInvitation) {
+  return {
+    ...invitation,
+    expiresAt: new Date(invitation.expiresAt).toISOString(),
+    createdAt: new Date(invitation.createdAt).toISOString(),
+  };
+}
+
+/**
+ * Operator accounts and their invitations; admins only
+ */
+const operatorsRoute: FastifyPluginAsync = async function (fastify) {
+  await Promise.resolve();
+  const guard = [authMiddleware, requirePermission('operators:manage')];
+  const accessService = new OperatorAccessService(fastify.db);
+  // Invitation tokens are signed with the JWT secret, read when a request needs it
+  const invitationService = () => new OperatorInvitationService(fastify.db, getEnv().JWT_SECRET);
+
+  fastify.get(
+    '/operators',
+    {
+      preHandler: guard,
+      schema: {
+        response: {
+          200: Type.Object({ operators: Type.Array(OperatorSchema) }),
+          401: ErrorResponseSchema,
+          403: ErrorResponseSchema,
+        },
+      },
+    },
+    async (_request, reply) => {
+      const operators = await accessService.listOperators();
+
+      return reply.status(200).send({
+        operators: operators.map((operator) => ({
+          ...operator,
+          createdAt: new Date(operator.createdAt).toISOString(),
+        })),
+      });
+    }
+  );
+
+  fastify.put<{ Params: UserIdParams; Body: UpdateRolesInput }>(
+    '/operators/:userId/roles',
+    {
+      preHandler: guard,
+      schema: {
+        params: UserIdParamsSchema,
+        body: UpdateRolesSchema,
+        response: {
+          200: Type.Object({ userId: Type.String(), roles: Type.Array(OperatorRoleSchema) }),
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          403: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { userId } = request.params;
+      const roles = await accessService.setRoles(userId, request.body.roles, request.user!.userId);
+
+      request.log.info(
+        { operatorId: userId, roles, grantedBy: request.user!.userId },
+        'Operator roles updated'
+      );
+
+      return reply.status(200).send({ userId, roles });
+    }
+  );
+
+  fastify.get(
+    '/operators/two-factor-policy',
+    {
+      preHandler: guard,
+      schema: {
+        response: {
+          200: TwoFactorPolicySchema,
+          401: ErrorResponseSchema,
+          403: ErrorResponseSchema,
+        },
+      },
+    },
+    async (_request, reply) => {
+      const roles = await accessService.getTwoFactorPolicy();
+      return reply.status(200).send({ roles });
+    }
+  );
+
+  /**
+   * Roles listed here must use 2FA; their operators are locked out of
+   * operator routes until they enroll
+   */
+  fastify.put<{ Body: TwoFactorPolicyInput }>(
+    '/operators/two-factor-policy',
+    {
+      preHandler: guard,
+      schema: {
+        body: TwoFactorPolicySchema,
+        response: {
+          200: TwoFactorPolicySchema,
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          403: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const roles = await accessService.setTwoFactorPolicy(
+        request.body.roles,
+        request.user!.userId
+      );
+
+      request.log.info({ roles, updatedBy: request.user!.userId }, 'Two-factor policy updated');
+
+      return reply.status(200).send({ roles });
+    }
+  );
+
+  fastify.get(
+    '/operators/invitations',
+    {
+      preHandler: guard,
+      schema: {
+        response: {
+          200: Type.Object({ invitations: Type.Array(InvitationSchema) }),
+          401: ErrorResponseSchema,
+          403: ErrorResponseSchema,
+        },
+      },
+    },
+    async (_request, reply) => {
+      const invitations = await invitationService().listInvitations();
+      return reply.status(200).send({ invitations: invitations.map(toInvitation) });
+    }
+  );
+
+  fastify.post<{ Body: CreateInvitationInput }>(
+    '/operators/invitations',
+    {
+      preHandler: guard,
+      schema: {
+        body: CreateInvitationSchema,
+        response: {
+          201: Type.Object({ invitation: InvitationSchema, token: Type.String() }),
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          403: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { invitation, token } = await invitationService().createInvitation(
+        request.body.email,
+        request.body.roles,
+        request.user!.userId
+      );
+
+      request.log.info(
+        { invitationId: invitation.id, roles: invitation.roles, invitedBy: request.user!.userId },
+        'Operator invited'
+      );
+
+      return reply.status(201).send({ invitation: toInvitation(invitation), token });
+    }
+  );
+
+  fastify.delete<{ Params: InvitationIdParams }>(
+    '/operators/invitations/:id',
+    {
+      preHandler: guard,
+      schema: {
+        params: InvitationIdParamsSchema,
+        response: {
+          200: SuccessResponseSchema,
+          401: ErrorResponseSchema,
+          403: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      await invitationService().revokeInvitation(request.params.id);
+      return reply.status(200).send({ success: true, message: 'Invitation revoked' });
+    }
+  );
+};
+
+export default operatorsRoute;
@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 import { ErrorResponseSchema } from '../../schemas/common';
 
 const FailureSchema = Type.Object({
@@ -44,7 +45,7 @@ const pipelineFailuresRoute: FastifyPluginAsync = async function (fastify) {
   fastify.get<{ Params: PipelineParams; Querystring: FailuresQuery }>(
     '/pipelines/:pipelineId/failures',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
       schema: {
         querystring: QuerystringSchema,
         response: {
@@ -56,17 +57,6 @@ const pipelineFailuresRoute: FastifyPluginAsync = async function (fastify) {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { pipelineId } = request.params;
       const page = request.query.page ?? 1;
       const pageSize = request.query.pageSize ?? 50;
@@ -1,5 +1,6 @@
 import { FastifyPluginAsync } from 'fastify';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 import { getEnv } from '../../config/env';
 
 interface MappingParams {
@@ -20,7 +21,7 @@ const pipelineMappingsRoute: FastifyPluginAsync = async (fastify) => {
   fastify.get(
     '/pipelines/:pipelineId/mappings/debug',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       // Disable debug endpoint in production
@@ -36,17 +37,6 @@ const pipelineMappingsRoute: FastifyPluginAsync = async (fastify) => {
       }
 
       // Require operator role
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { pipelineId } = request.params as { pipelineId: string };
 
       // Get document_id from pipeline
@@ -102,20 +92,9 @@ const pipelineMappingsRoute: FastifyPluginAsync = async (fastify) => {
   fastify.get<{ Params: MappingParams }>(
     '/pipelines/:pipelineId/mappings',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { pipelineId } = request.params;
 
       // Get document_id from pipeline
@@ -241,20 +220,9 @@ const pipelineMappingsRoute: FastifyPluginAsync = async (fastify) => {
   fastify.post<{ Params: MappingParams; Body: ConfirmMappingBody }>(
     '/pipelines/:pipelineId/mappings/confirm',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { mappingId } = request.body;
 
       await fastify.db.query(
@@ -275,20 +243,9 @@ const pipelineMappingsRoute: FastifyPluginAsync = async (fastify) => {
   fastify.post<{ Params: MappingParams; Body: RejectMappingBody }>(
     '/pipelines/:pipelineId/mappings/reject',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { mappingId, reason } = request.body;
 
       await fastify.db.query(
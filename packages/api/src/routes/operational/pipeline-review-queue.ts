@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 import { ErrorResponseSchema } from '../../schemas/common';
 
 const ValidationResultSchema = Type.Object({
@@ -57,7 +58,7 @@ const pipelineReviewQueueRoute: FastifyPluginAsync = async function (fastify) {
   fastify.get<{ Params: PipelineParams; Querystring: ReviewQueueQuery }>(
     '/pipelines/:pipelineId/review-queue',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         querystring: QuerystringSchema,
         response: {
@@ -69,17 +70,6 @@ const pipelineReviewQueueRoute: FastifyPluginAsync = async function (fastify) {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { pipelineId } = request.params;
       const page = request.query.page ?? 1;
       const pageSize = request.query.pageSize ?? 20;
@@ -1,5 +1,6 @@
 import { FastifyPluginAsync } from 'fastify';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 
 interface PipelineStats {
   drafts: number;
@@ -17,20 +18,9 @@ const pipelineStatsRoute: FastifyPluginAsync = async function (fastify) {
   fastify.get<Record<string, never>>(
     '/pipeline-stats',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('analytics:view')],
     },
-    async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
+    async (_request, reply) => {
       const draftsResult = await fastify.db.query<{ count: string }>(
         `SELECT COUNT(*) as count FROM drafts
          WHERE id NOT IN (SELECT draft_id FROM candidates)`
@@ -1,5 +1,6 @@
 import { FastifyInstance } from 'fastify';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 
 interface PipelineTaskQuery {
   page?: string;
@@ -21,7 +22,7 @@ export function pipelineTasksRoutes(fastify: FastifyInstance): void {
   fastify.get<{ Querystring: PipelineTaskQuery }>(
     '/pipeline-tasks',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const query = request.query;
@@ -101,7 +102,7 @@ export function pipelineTasksRoutes(fastify: FastifyInstance): void {
   fastify.get<{ Params: PipelineTaskParams }>(
     '/pipeline-tasks/:taskId',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const { taskId } = request.params;
@@ -185,7 +186,7 @@ export function pipelineTasksRoutes(fastify: FastifyInstance): void {
   fastify.get<{ Params: { itemId: string }; Querystring: { itemType: string } }>(
     '/pipeline-tasks/item/:itemId',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const { itemId } = request.params;
@@ -270,7 +271,7 @@ export function pipelineTasksRoutes(fastify: FastifyInstance): void {
   fastify.post<{ Params: PipelineTaskParams; Body: RetryTaskBody }>(
     '/pipeline-tasks/:taskId/retry',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const { taskId } = request.params;
@@ -338,7 +339,7 @@ export function pipelineTasksRoutes(fastify: FastifyInstance): void {
   fastify.delete<{ Params: PipelineTaskParams }>(
     '/pipeline-tasks/:taskId',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
       const { taskId } = request.params;
@@ -1,5 +1,6 @@
 import { FastifyPluginAsync } from 'fastify';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 
 interface PipelineQuery {
   page?: string;
@@ -21,20 +22,9 @@ export const pipelinesRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get<{ Querystring: PipelineQuery }>(
     '/pipelines',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const query = request.query;
       const page = parseInt(query.page || '1', 10);
       const limit = Math.min(parseInt(query.limit || '50', 10), 100);
@@ -109,20 +99,9 @@ export const pipelinesRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get<{ Params: PipelineParams }>(
     '/pipelines/:pipelineId',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { pipelineId } = request.params;
 
       const pipelineResult = await fastify.db.query<{
@@ -298,20 +277,9 @@ export const pipelinesRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get<{ Params: { documentId: string } }>(
     '/pipelines/document/:documentId',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { documentId } = request.params;
 
       const pipelineResult = await fastify.db.query<{
@@ -358,20 +326,9 @@ export const pipelinesRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post<{ Params: PipelineParams; Body: RetryPipelineBody }>(
     '/pipelines/:pipelineId/retry',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { pipelineId } = request.params;
       const { force = false } = request.body;
 
@@ -473,20 +430,9 @@ export const pipelinesRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.delete<{ Params: PipelineParams }>(
     '/pipelines/:pipelineId',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { pipelineId } = request.params;
 
       const pipelineResult = await fastify.db.query<{
@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 import { ErrorResponseSchema, SuccessResponseSchema } from '../../schemas/common';
 import { withTransaction } from '../../utils/db.utils';
 
@@ -34,7 +35,7 @@ const rejectRoute: FastifyPluginAsync = async function (fastify) {
   fastify.post<{ Params: RejectParams; Body: RejectBody }>(
     '/reject/:id',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         params: RejectParamsSchema,
         body: RejectBodySchema,
@@ -48,20 +49,9 @@ const rejectRoute: FastifyPluginAsync = async function (fastify) {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const { id } = request.params;
       const { dataType, reason } = request.body;
-      const operatorId = request.user.userId;
+      const operatorId = request.user!.userId;
 
       if (!isValidDataType(dataType)) {
         return reply.status(400).send({
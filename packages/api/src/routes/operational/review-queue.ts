@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
 import { ErrorResponseSchema } from '../../schemas/common';
 import { withTransaction } from '../../utils/db.utils';
 import { recordApproval } from '@polyladder/lifecycle';
@@ -57,7 +58,7 @@ const reviewQueueRoute: FastifyPluginAsync = async function (fastify) {
   fastify.get<{ Querystring: ReviewQueueQuery }>(
     '/review-queue',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         querystring: QuerystringSchema,
         response: {
@@ -68,17 +69,6 @@ const reviewQueueRoute: FastifyPluginAsync = async function (fastify) {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
       const page = request.query.page ?? 1;
       const pageSize = request.query.pageSize ?? 20;
       const contentTypeFilter = request.query.contentType;
@@ -238,7 +228,7 @@ const reviewQueueRoute: FastifyPluginAsync = async function (fastify) {
   fastify.post<{ Body: BulkApproveBody }>(
     '/review-queue/bulk-approve',
     {
-      preHandler: [authMiddleware],
+      preHandler: [authMiddleware, requirePermission('content:review')],
       schema: {
         body: BulkApproveBodySchema,
         response: {
@@ -253,18 +243,7 @@ const reviewQueueRoute: FastifyPluginAsync = async function (fastify) {
       },
     },
     async (request, reply) => {
-      if (request.user?.role !== 'operator') {
-        return reply.status(403).send({
-          error: {
-            statusCode: 403,
-            message: 'Operator role required',
-            requestId: request.id,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
-
-      const operatorId = request.user.userId;
+      const operatorId = request.user!.userId;
       const { pipelineId } = request.body;
 
       let itemsQuery = `
@@ -0,0 +1,128 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { authMiddleware } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/authorize';
+import { ErrorResponseSchema } from '../../schemas/common';
+
+const SUPPORTED_LANGUAGES = ['EN', 'ES', 'IT', 'PT', 'SL'] as const;
+
+// Engines the refinement service has TTS adapters for
+const TTS_ENGINES = ['espeak-ng', 'piper'] as const;
+
+const TtsVoiceSchema = Type.Object({
+  language: Type.String(),
+  engine: Type.Union(TTS_ENGINES.map((e) => Type.Literal(e))),
+  voice: Type.String(),
+  enabled: Type.Boolean(),
+  updatedAt: Type.Union([Type.String(), Type.Null()]),
+});
+
+const TtsVoicesResponseSchema = Type.Object({
+  voices: Type.Array(TtsVoiceSchema),
+  languages: Type.Array(Type.String()),
+  engines: Type.Array(Type.String()),
+});
+
+const LanguageParamsSchema = Type.Object({
+  language: Type.Union(SUPPORTED_LANGUAGES.map((l) => Type.Literal(l))),
+});
+
+const UpdateTtsVoiceSchema = Type.Object({
+  engine: Type.Union(TTS_ENGINES.map((e) => Type.Literal(e))),
+  // espeak-ng voice names ("pt-br") or Piper model names ("es_ES-davefx-medium")
+  voice: Type.String({ minLength: 1, maxLength: 100, pattern: '^[\\w-]+$' }),
+  enabled: Type.Boolean(),
+});
+
+type LanguageParams = Static<typeof LanguageParamsSchema>;
+type UpdateTtsVoiceInput = Static<typeof UpdateTtsVoiceSchema>;
+
+interface TtsVoiceRow {
+  language: string;
+  engine: (typeof TTS_ENGINES)[number];
+  voice: string;
+  enabled: boolean;
+  updated_at: Date | null;
+}
+
+function toTtsVoice(row: TtsVoiceRow) {
+  return {
+    language: row.language,
+    engine: row.engine,
+    voice: row.voice,
+    enabled: row.enabled,
+    updatedAt: row.updated_at ? row.updated_at.toISOString() : null,
+  };
+}
+
+/**
+ * Voices the refinement service uses to generate utterance audio, one per language
+ */
+export const ttsVoicesRoutes: FastifyPluginAsync = async (fastify) => {
+  await Promise.resolve();
+
+  fastify.get(
+    '/tts-voices',
+    {
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
+      schema: {
+        response: {
+          200: TtsVoicesResponseSchema,
+          401: ErrorResponseSchema,
+          403: ErrorResponseSchema,
+        },
+      },
+    },
+    async (_request, reply) => {
+      const result = await fastify.db.query<TtsVoiceRow>(
+        `SELECT language, engine, voice, enabled, updated_at
+         FROM tts_voices
+         ORDER BY language`
+      );
+
+      return reply.status(200).send({
+        voices: result.rows.map(toTtsVoice),
+        languages: [...SUPPORTED_LANGUAGES],
+        engines: [...TTS_ENGINES],
+      });
+    }
+  );
+
+  fastify.put<{ Params: LanguageParams; Body: UpdateTtsVoiceInput }>(
+    '/tts-voices/:language',
+    {
+      preHandler: [authMiddleware, requirePermission('pipeline:manage')],
+      schema: {
+        params: LanguageParamsSchema,
+        body: UpdateTtsVoiceSchema,
+        response: {
+          200: TtsVoiceSchema,
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          403: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { language } = request.params;
+      const { engine, voice, enabled } = request.body;
+
+      const result = await fastify.db.query<TtsVoiceRow>(
+        `INSERT INTO tts_voices (language, engine, voice, enabled, updated_by, updated_at)
+         VALUES ($1, $2, $3, $4, $5, NOW())
+         ON CONFLICT (language) DO UPDATE
+         SET engine = EXCLUDED.engine,
+             voice = EXCLUDED.voice,
+             enabled = EXCLUDED.enabled,
+             updated_by = EXCLUDED.updated_by,
+             updated_at = NOW()
+         RETURNING language, engine, voice, enabled, updated_at`,
+        [language, engine, voice, enabled, request.user!.userId]
+      );
+
+      request.log.info({ language, engine, voice, enabled }, 'TTS voice updated');
+
+      return reply.status(200).send(toTtsVoice(result.rows[0]));
+    }
+  );
+};
@@ -80,3 +80,21 @@ export const CEFRLevelSchema = Type.Union([
   Type.Literal('C1'),
   Type.Literal('C2'),
 ]);
+
+export const AnswerErrorSchema = Type.Object({
+  type: Type.Union([
+    Type.Literal('missing_accent'),
+    Type.Literal('wrong_accent'),
+    Type.Literal('gender_ending'),
+    Type.Literal('article'),
+    Type.Literal('typo'),
+    Type.Literal('word_order'),
+    Type.Literal('missing_word'),
+    Type.Literal('extra_word'),
+    Type.Literal('wrong_word'),
+  ]),
+  expected: Type.Optional(Type.String()),
+  actual: Type.Optional(Type.String()),
+  position: Type.Number(),
+  accentPositions: Type.Optional(Type.Array(Type.Integer())),
+});
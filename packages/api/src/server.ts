@@ -3,6 +3,7 @@ import fastifyCors from '@fastify/cors';
 import fastifyRateLimit from '@fastify/rate-limit';
 import { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
 import { getEnv } from './config/env';
+import { createMailer } from './services/mail';
 import { HealthResponseSchema } from './schemas/common';
 import { Pool } from 'pg';
 
@@ -58,6 +59,23 @@ export async function buildServer(): Promise<FastifyInstance> {
   }).withTypeProvider<TypeBoxTypeProvider>();
 
   server.decorate('db', getPool());
+  server.decorate(
+    'mailer',
+    createMailer({
+      transport: env.MAILER,
+      from: env.MAIL_FROM,
+      filePath: env.MAILER_FILE_PATH,
+      smtp: env.SMTP_HOST
+        ? {
+            host: env.SMTP_HOST,
+            port: env.SMTP_PORT,
+            secure: env.SMTP_SECURE,
+            user: env.SMTP_USER,
+            password: env.SMTP_PASSWORD,
+          }
+        : undefined,
+    })
+  );
 
   await registerPlugins(server);
   registerErrorHandler(server);
@@ -0,0 +1,10 @@
+export * from './permissions';
+export { OperatorAccessService } from './operator-access.service';
+export type { OperatorAccount } from './operator-access.service';
+export { OperatorInvitationService } from './invitation.service';
+export type {
+  AcceptedInvitation,
+  InvitationStatus,
+  IssuedInvitation,
+  OperatorInvitation,
+} from './invitation.service';
@@ -0,0 +1,230 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { Pool } from 'pg';
+import { withTransaction } from '../../utils/db.utils';
+import { OperatorAccessService } from './operator-access.service';
+import { OperatorRole, isOperatorRole } from './permissions';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export interface OperatorInvitation {
+  id: string;
+  email: string;
+  roles: OperatorRole[];
+  invitedBy: string;
+  status: InvitationStatus;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface IssuedInvitation {
+  invitation: OperatorInvitation;
+  /**
+   * Signed token for the invitation link; only returned when issued
+   */
+  token: string;
+}
+
+export interface AcceptedInvitation {
+  userId: string;
+  email: string;
+  roles: OperatorRole[];
+}
+
+interface InvitationRow {
+  id: string;
+  email: string;
+  roles: string[];
+  invited_by: string;
+  expires_at: Date;
+  accepted_at: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+class InvitationError extends Error {
+  statusCode: number;
+  code: string;
+  constructor(message: string, statusCode: number = 400, code: string = 'INVALID_INVITATION') {
+    super(message);
+    this.name = 'InvitationError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+const INVITATION_TTL_DAYS = 7;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * OperatorInvitationService issues and redeems operator invitations
+ *
+ * Operator accounts can only be created by accepting an invitation. The
+ * token is "<invitation id>.<HMAC-SHA256 of id and email>", so a token
+ * cannot be forged or moved to another email; the invitation row makes it
+ * single-use and revocable.
+ */
+export class OperatorInvitationService {
+  private readonly accessService: OperatorAccessService;
+
+  constructor(
+    private readonly pool: Pool,
+    private readonly secret: string
+  ) {
+    this.accessService = new OperatorAccessService(pool);
+  }
+
+  /**
+   * Issue an invitation; pending invitations for the same email are revoked
+   */
+  async createInvitation(
+    email: string,
+    roles: string[],
+    invitedBy: string
+  ): Promise<IssuedInvitation> {
+    const normalizedEmail = email.toLowerCase();
+    const validRoles = this.accessService.validateRoles(roles);
+
+    const existing = await this.pool.query(`SELECT id FROM users WHERE email = $1`, [
+      normalizedEmail,
+    ]);
+    if (existing.rows.length > 0) {
+      throw new InvitationError('User with this email already exists', 409, 'EMAIL_EXISTS');
+    }
+
+    const id = randomUUID();
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    const client = await this.pool.connect();
+    try {
+      const row = await withTransaction(client, async (txClient) => {
+        await txClient.query(
+          `UPDATE operator_invitations SET revoked_at = CURRENT_TIMESTAMP
+           WHERE email = $1 AND accepted_at IS NULL AND revoked_at IS NULL`,
+          [normalizedEmail]
+        );
+        const result = await txClient.query<InvitationRow>(
+          `INSERT INTO operator_invitations (id, email, roles, invited_by, expires_at)
+           VALUES ($1, $2, $3, $4, $5)
+           RETURNING *`,
+          [id, normalizedEmail, validRoles, invitedBy, expiresAt]
+        );
+        return result.rows[0];
+      });
+
+      return { invitation: this.mapRow(row), token: this.sign(id, normalizedEmail) };
+    } finally {
+      client.release();
+    }
+  }
+
+  async listInvitations(): Promise<OperatorInvitation[]> {
+    const result = await this.pool.query<InvitationRow>(
+      `SELECT * FROM operator_invitations ORDER BY created_at DESC`
+    );
+    return result.rows.map((row) => this.mapRow(row));
+  }
+
+  async revokeInvitation(invitationId: string): Promise<void> {
+    const result = await this.pool.query(
+      `UPDATE operator_invitations SET revoked_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND accepted_at IS NULL AND revoked_at IS NULL`,
+      [invitationId]
+    );
+    if (result.rowCount === 0) {
+      throw new InvitationError('Pending invitation not found', 404, 'NOT_FOUND');
+    }
+  }
+
+  /**
+   * Create the operator account of an invitation and assign its roles
+   */
+  async acceptInvitation(token: string, passwordHash: string): Promise<AcceptedInvitation> {
+    const invitationId = token.split('.')[0];
+    if (!UUID_PATTERN.test(invitationId)) {
+      throw new InvitationError('Invalid invitation token');
+    }
+
+    const client = await this.pool.connect();
+
+    try {
+      return await withTransaction(client, async (txClient) => {
+        const result = await txClient.query<InvitationRow>(
+          `SELECT * FROM operator_invitations WHERE id = $1 FOR UPDATE`,
+          [invitationId]
+        );
+        const row = result.rows[0];
+
+        if (!row || !this.verify(token, row.id, row.email)) {
+          throw new InvitationError('Invalid invitation token');
+        }
+        const status = this.status(row);
+        if (status !== 'pending') {
+          throw new InvitationError(`Invitation is ${status}`, 410, 'INVITATION_UNAVAILABLE');
+        }
+
+        const existing = await txClient.query(`SELECT id FROM users WHERE email = $1`, [row.email]);
+        if (existing.rows.length > 0) {
+          throw new InvitationError('User with this email already exists', 409, 'EMAIL_EXISTS');
+        }
+
+        const user = await txClient.query<{ id: string }>(
+          `INSERT INTO users
+             (email, password_hash, role, base_language, email_verified_at, created_at, updated_at)
+           VALUES ($1, $2, 'operator', 'EN', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+           RETURNING id`,
+          [row.email, passwordHash]
+        );
+        const userId = user.rows[0].id;
+        const roles = row.roles.filter(isOperatorRole);
+
+        await txClient.query(
+          `INSERT INTO operator_roles (user_id, role, granted_by)
+           SELECT $1, UNNEST($2::text[]), $3`,
+          [userId, roles, row.invited_by]
+        );
+        await txClient.query(
+          `UPDATE operator_invitations SET accepted_at = CURRENT_TIMESTAMP, accepted_by = $2
+           WHERE id = $1`,
+          [row.id, userId]
+        );
+
+        return { userId, email: row.email, roles };
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  private sign(invitationId: string, email: string): string {
+    return `${invitationId}.${this.signature(invitationId, email)}`;
+  }
+
+  private verify(token: string, invitationId: string, email: string): boolean {
+    const expected = Buffer.from(this.sign(invitationId, email));
+    const actual = Buffer.from(token);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private signature(invitationId: string, email: string): string {
+    return createHmac('sha256', this.secret).update(`${invitationId}:${email}`).digest('base64url');
+  }
+
+  private status(row: InvitationRow): InvitationStatus {
+    if (row.accepted_at) return 'accepted';
+    if (row.revoked_at) return 'revoked';
+    if (new Date(row.expires_at).getTime() <= Date.now()) return 'expired';
+    return 'pending';
+  }
+
+  private mapRow(row: InvitationRow): OperatorInvitation {
+    return {
+      id: row.id,
+      email: row.email,
+      roles: row.roles.filter(isOperatorRole),
+      invitedBy: row.invited_by,
+      status: this.status(row),
+      expiresAt: row.expires_at,
+      createdAt: row.created_at,
+    };
+  }
+}
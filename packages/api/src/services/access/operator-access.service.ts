@@ -0,0 +1,165 @@
+import { Pool } from 'pg';
+import { withTransaction } from '../../utils/db.utils';
+import { OperatorRole, Permission, isOperatorRole, permissionsForRoles } from './permissions';
+
+export interface OperatorAccount {
+  userId: string;
+  email: string;
+  roles: OperatorRole[];
+  twoFactorEnabled: boolean;
+  createdAt: Date;
+}
+
+class OperatorAccessError extends Error {
+  statusCode: number;
+  code: string;
+  constructor(message: string, statusCode: number = 400, code: string = 'INVALID_ROLES') {
+    super(message);
+    this.name = 'OperatorAccessError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+/**
+ * OperatorAccessService reads and assigns the roles of operator accounts
+ *
+ * Roles live in operator_roles rather than the token, so role changes take
+ * effect on the operator's next request.
+ */
+export class OperatorAccessService {
+  constructor(private readonly pool: Pool) {}
+
+  async getRoles(userId: string): Promise<OperatorRole[]> {
+    const result = await this.pool.query<{ role: string }>(
+      `SELECT role FROM operator_roles WHERE user_id = $1`,
+      [userId]
+    );
+    return result.rows.map((row) => row.role).filter(isOperatorRole);
+  }
+
+  async getPermissions(userId: string): Promise<Set<Permission>> {
+    return permissionsForRoles(await this.getRoles(userId));
+  }
+
+  async hasPermission(userId: string, permission: Permission): Promise<boolean> {
+    return (await this.getPermissions(userId)).has(permission);
+  }
+
+  async listOperators(): Promise<OperatorAccount[]> {
+    const result = await this.pool.query<{
+      id: string;
+      email: string;
+      roles: string[];
+      two_factor_enabled: boolean;
+      created_at: Date;
+    }>(
+      `SELECT u.id, u.email, u.created_at,
+              COALESCE(array_agg(r.role ORDER BY r.role) FILTER (WHERE r.role IS NOT NULL), '{}') as roles,
+              EXISTS (
+                SELECT 1 FROM operator_totp t WHERE t.user_id = u.id AND t.enabled_at IS NOT NULL
+              ) as two_factor_enabled
+       FROM users u
+       LEFT JOIN operator_roles r ON r.user_id = u.id
+       WHERE u.role = 'operator' AND u.deleted_at IS NULL
+       GROUP BY u.id
+       ORDER BY u.email`
+    );
+
+    return result.rows.map((row) => ({
+      userId: row.id,
+      email: row.email,
+      roles: row.roles.filter(isOperatorRole),
+      twoFactorEnabled: row.two_factor_enabled,
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Replace an operator's roles; the last admin cannot give up the admin role
+   */
+  async setRoles(userId: string, roles: string[], grantedBy: string): Promise<OperatorRole[]> {
+    const validRoles = this.validateRoles(roles);
+
+    const user = await this.pool.query<{ role: string }>(`SELECT role FROM users WHERE id = $1`, [
+      userId,
+    ]);
+    if (user.rows[0]?.role !== 'operator') {
+      throw new OperatorAccessError('Operator not found', 404, 'NOT_FOUND');
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await withTransaction(client, async (txClient) => {
+        if (!validRoles.includes('admin')) {
+          const admins = await txClient.query<{ user_id: string }>(
+            `SELECT r.user_id FROM operator_roles r
+             JOIN users u ON u.id = r.user_id
+             WHERE r.role = 'admin' AND u.deleted_at IS NULL
+             FOR UPDATE OF r`
+          );
+          if (admins.rows.length === 1 && admins.rows[0].user_id === userId) {
+            throw new OperatorAccessError(
+              'Cannot remove the admin role from the last admin',
+              409,
+              'LAST_ADMIN'
+            );
+          }
+        }
+
+        await txClient.query(`DELETE FROM operator_roles WHERE user_id = $1`, [userId]);
+        await txClient.query(
+          `INSERT INTO operator_roles (user_id, role, granted_by)
+           SELECT $1, UNNEST($2::text[]), $3`,
+          [userId, validRoles, grantedBy]
+        );
+      });
+    } finally {
+      client.release();
+    }
+
+    return validRoles;
+  }
+
+  /**
+   * Roles whose operators must use two-factor authentication
+   */
+  async getTwoFactorPolicy(): Promise<OperatorRole[]> {
+    const result = await this.pool.query<{ role: string }>(
+      `SELECT role FROM operator_two_factor_policy ORDER BY role`
+    );
+    return result.rows.map((row) => row.role).filter(isOperatorRole);
+  }
+
+  async setTwoFactorPolicy(roles: string[], updatedBy: string): Promise<OperatorRole[]> {
+    const validRoles = roles.length === 0 ? [] : this.validateRoles(roles);
+
+    const client = await this.pool.connect();
+    try {
+      await withTransaction(client, async (txClient) => {
+        await txClient.query(`DELETE FROM operator_two_factor_policy`);
+        await txClient.query(
+          `INSERT INTO operator_two_factor_policy (role, updated_by)
+           SELECT UNNEST($1::text[]), $2`,
+          [validRoles, updatedBy]
+        );
+      });
+    } finally {
+      client.release();
+    }
+
+    return validRoles;
+  }
+
+  validateRoles(roles: string[]): OperatorRole[] {
+    const unique = Array.from(new Set(roles));
+    const invalid = unique.filter((role) => !isOperatorRole(role));
+    if (invalid.length > 0) {
+      throw new OperatorAccessError(`Unknown operator roles: ${invalid.join(', ')}`);
+    }
+    if (unique.length === 0) {
+      throw new OperatorAccessError('At least one operator role is required');
+    }
+    return unique.filter(isOperatorRole);
+  }
+}
@@ -0,0 +1,39 @@
+export const OPERATOR_ROLES = [
+  'content_reviewer',
+  'pipeline_admin',
+  'curriculum_editor',
+  'analytics_viewer',
+  'admin',
+] as const;
+
+export type OperatorRole = (typeof OPERATOR_ROLES)[number];
+
+export const PERMISSIONS = [
+  'content:review',
+  'pipeline:manage',
+  'curriculum:edit',
+  'analytics:view',
+  'operators:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Permissions granted by each operator role; an operator holds the union
+ * of the permissions of their roles
+ */
+export const ROLE_PERMISSIONS: Readonly<Record<OperatorRole, readonly Permission[]>> = {
+  content_reviewer: ['content:review'],
+  pipeline_admin: ['pipeline:manage', 'analytics:view'],
+  curriculum_editor: ['curriculum:edit'],
+  analytics_viewer: ['analytics:view'],
+  admin: PERMISSIONS,
+};
+
+export function isOperatorRole(value: string): value is OperatorRole {
+  return (OPERATOR_ROLES as readonly string[]).includes(value);
+}
+
+export function permissionsForRoles(roles: readonly string[]): Set<Permission> {
+  return new Set(roles.filter(isOperatorRole).flatMap((role) => ROLE_PERMISSIONS[role]));
+}
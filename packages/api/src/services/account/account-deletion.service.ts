@@ -0,0 +1,123 @@
+import { Pool } from 'pg';
+import { Mailer } from '../mail';
+import { withTransaction } from '../../utils/db.utils';
+
+export interface ScheduledDeletion {
+  userId: string;
+  email: string;
+  purgeAfter: Date;
+}
+
+class AccountDeletionError extends Error {
+  statusCode: number;
+  code: string;
+  constructor(message: string, code: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'AccountDeletionError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+/**
+ * AccountDeletionService removes accounts at their owner's request
+ *
+ * Deleting an account logs it out everywhere and schedules a purge
+ * (AccountPurgeService) after a grace period; logging in before then
+ * cancels the deletion.
+ */
+export class AccountDeletionService {
+  constructor(
+    private readonly pool: Pool,
+    private readonly mailer: Mailer,
+    private readonly graceDays: number
+  ) {}
+
+  async scheduleDeletion(userId: string): Promise<ScheduledDeletion> {
+    const client = await this.pool.connect();
+
+    try {
+      return await withTransaction(client, async (txClient) => {
+        const result = await txClient.query<{ email: string; deleted_at: Date | null }>(
+          `SELECT email, deleted_at FROM users WHERE id = $1 FOR UPDATE`,
+          [userId]
+        );
+        const user = result.rows[0];
+
+        if (!user) {
+          throw new AccountDeletionError('User not found', 'NOT_FOUND', 404);
+        }
+        if (user.deleted_at) {
+          throw new AccountDeletionError(
+            'Account is already being deleted',
+            'ALREADY_DELETED',
+            409
+          );
+        }
+
+        const admins = await txClient.query<{ user_id: string }>(
+          `SELECT r.user_id FROM operator_roles r
+           JOIN users u ON u.id = r.user_id
+           WHERE r.role = 'admin' AND u.deleted_at IS NULL
+           FOR UPDATE OF r`
+        );
+        if (admins.rows.length === 1 && admins.rows[0].user_id === userId) {
+          throw new AccountDeletionError(
+            'The last admin cannot delete their account',
+            'LAST_ADMIN',
+            409
+          );
+        }
+
+        const updated = await txClient.query<{ purge_after: Date }>(
+          `UPDATE users
+           SET deleted_at = CURRENT_TIMESTAMP,
+               purge_after = CURRENT_TIMESTAMP + make_interval(days => $2),
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1
+           RETURNING purge_after`,
+          [userId, this.graceDays]
+        );
+        await txClient.query(
+          `UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = 'account_deleted'
+           WHERE user_id = $1 AND revoked_at IS NULL`,
+          [userId]
+        );
+
+        return { userId, email: user.email, purgeAfter: updated.rows[0].purge_after };
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Tell the user when their data goes and how to keep the account
+   */
+  async sendDeletionNotice(deletion: ScheduledDeletion): Promise<void> {
+    await this.mailer.send({
+      to: deletion.email,
+      subject: 'Your PolyLadder account will be deleted',
+      text: [
+        'Your PolyLadder account has been scheduled for deletion.',
+        '',
+        `Your data will be permanently removed after ${deletion.purgeAfter.toUTCString()}.`,
+        'Changed your mind? Log in before then and your account is kept.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Keep an account that is still in its grace period; returns whether a
+   * deletion was pending
+   */
+  async cancelDeletion(userId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE users
+       SET deleted_at = NULL, purge_after = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND deleted_at IS NOT NULL AND purged_at IS NULL`,
+      [userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,75 @@
+import { Pool } from 'pg';
+import { createZip, ZipEntry } from '../../utils/zip';
+import { USER_DATA_TABLES } from './user-data';
+
+type Row = Record<string, unknown>;
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint') {
+    return String(value);
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function toCsv(rows: Row[], columns: string[]): string {
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => csvValue(row[column])).join(','));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * AccountExportService collects everything stored about a user into a
+ * ZIP archive for download
+ *
+ * The archive holds the account profile and, for every table with the
+ * user's rows, a JSON and a CSV file. Credentials (password hash, token
+ * hashes, 2FA secrets) are left out.
+ */
+export class AccountExportService {
+  constructor(private readonly pool: Pool) {}
+
+  async buildArchive(userId: string): Promise<Buffer> {
+    const profile = await this.pool.query<Row>(
+      `SELECT id, email, role, base_language, email_verified_at, created_at, updated_at
+       FROM users WHERE id = $1`,
+      [userId]
+    );
+    if (profile.rows.length === 0) {
+      throw new Error(`User ${userId} not found`);
+    }
+
+    const exportedAt = new Date();
+    const entries: ZipEntry[] = [];
+    const tables: Record<string, number> = {};
+
+    for (const { table, owner, exported } of USER_DATA_TABLES) {
+      if (!exported) continue;
+
+      const result = await this.pool.query<Row>(`SELECT * FROM ${table} WHERE ${owner}`, [userId]);
+      tables[table] = result.rows.length;
+      if (result.rows.length === 0) continue;
+
+      const columns = result.fields.map((field) => field.name);
+      entries.push(
+        { name: `${table}.json`, data: JSON.stringify(result.rows, null, 2) },
+        { name: `${table}.csv`, data: toCsv(result.rows, columns) }
+      );
+    }
+
+    const manifest = {
+      exportedAt: exportedAt.toISOString(),
+      profile: profile.rows[0],
+      tables,
+    };
+
+    return createZip(
+      [{ name: 'account.json', data: JSON.stringify(manifest, null, 2) }, ...entries],
+      exportedAt
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { Pool, PoolClient } from 'pg';
+import { withTransaction } from '../../utils/db.utils';
+import { USER_DATA_TABLES } from './user-data';
+
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * AccountPurgeService permanently removes accounts whose deletion grace
+ * period is over
+ *
+ * The user's rows are deleted from every table of personal data. Operators
+ * authored content that must outlive them (reviews, approvals, uploads),
+ * so their user row is kept as an anonymous placeholder that the content
+ * still references; learners' user rows are deleted.
+ */
+export class AccountPurgeService {
+  constructor(private readonly pool: Pool) {}
+
+  /**
+   * Purge accounts that are due; returns how many were purged
+   */
+  async purgeExpired(batchSize: number = DEFAULT_BATCH_SIZE): Promise<number> {
+    const due = await this.pool.query<{ id: string }>(
+      `SELECT id FROM users
+       WHERE purge_after <= CURRENT_TIMESTAMP AND purged_at IS NULL
+       ORDER BY purge_after
+       LIMIT $1`,
+      [batchSize]
+    );
+
+    let purged = 0;
+    for (const { id } of due.rows) {
+      const client = await this.pool.connect();
+      try {
+        if (await withTransaction(client, (txClient) => this.purgeAccount(txClient, id))) {
+          purged++;
+        }
+      } finally {
+        client.release();
+      }
+    }
+    return purged;
+  }
+
+  private async purgeAccount(client: PoolClient, userId: string): Promise<boolean> {
+    // The user may have logged in since the batch was selected
+    const result = await client.query<{ role: 'learner' | 'operator' }>(
+      `SELECT role FROM users
+       WHERE id = $1 AND purge_after <= CURRENT_TIMESTAMP AND purged_at IS NULL
+       FOR UPDATE`,
+      [userId]
+    );
+    const user = result.rows[0];
+    if (!user) {
+      return false;
+    }
+
+    for (const { table, owner } of USER_DATA_TABLES) {
+      await client.query(`DELETE FROM ${table} WHERE ${owner}`, [userId]);
+    }
+
+    if (user.role === 'learner') {
+      await client.query(`DELETE FROM users WHERE id = $1`, [userId]);
+      return true;
+    }
+
+    const placeholderEmail = `deleted-${userId}@deleted.invalid`;
+    await client.query(`UPDATE operator_invitations SET email = $2 WHERE accepted_by = $1`, [
+      userId,
+      placeholderEmail,
+    ]);
+    await client.query(
+      `UPDATE users
+       SET email = $2, password_hash = '', email_verified_at = NULL,
+           purged_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [userId, placeholderEmail]
+    );
+    return true;
+  }
+}
@@ -0,0 +1,6 @@
+export { AccountExportService } from './account-export.service';
+export { AccountDeletionService } from './account-deletion.service';
+export type { ScheduledDeletion } from './account-deletion.service';
+export { AccountPurgeService } from './account-purge.service';
+export { USER_DATA_TABLES } from './user-data';
+export type { UserDataTable } from './user-data';
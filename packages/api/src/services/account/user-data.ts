@@ -0,0 +1,83 @@
+/**
+ * Tables holding a user's personal data, in the order they are deleted
+ * (rows that reference other rows of the user first)
+ *
+ * `owner` selects the user's rows with the user id as $1; tables without
+ * a user_id column are reached through their parent. Tables not marked
+ * `exported` hold credentials and are only deleted.
+ */
+export interface UserDataTable {
+  table: string;
+  owner: string;
+  exported: boolean;
+}
+
+const BY_USER = 'user_id = $1';
+
+function owned(table: string, owner: string = BY_USER): UserDataTable {
+  return { table, owner, exported: true };
+}
+
+function credentials(table: string): UserDataTable {
+  return { table, owner: BY_USER, exported: false };
+}
+
+export const USER_DATA_TABLES: readonly UserDataTable[] = [
+  // Spaced repetition
+  owned('review_log'),
+  owned('srs_review_history'),
+  owned('user_srs_items'),
+  owned('user_fsrs_parameters'),
+
+  // Vocabulary and word states
+  owned('user_word_state'),
+  owned('user_vocabulary'),
+
+  // Sessions and answers
+  owned(
+    'practice_session_items',
+    'session_id IN (SELECT id FROM practice_sessions WHERE user_id = $1)'
+  ),
+  owned('practice_sessions'),
+  owned(
+    'mixed_session_attempts',
+    'session_id IN (SELECT id FROM mixed_practice_sessions WHERE user_id = $1)'
+  ),
+  owned('mixed_practice_sessions'),
+  owned('user_review_sessions'),
+  owned('user_exercise_results'),
+  owned('user_diacritic_attempts'),
+  owned('minimal_pair_results'),
+  owned('hint_usage'),
+
+  // Interference patterns and their remediation
+  owned('remediation_attempts'),
+  owned(
+    'remediation_exercises',
+    'pattern_id IN (SELECT id FROM interference_patterns WHERE user_id = $1)'
+  ),
+  owned('interference_patterns'),
+
+  // Progress and statistics
+  owned('user_concept_progress'),
+  owned('grammar_progress'),
+  owned('user_language_progress'),
+  owned('user_progress'),
+  owned('user_orthography_gates'),
+  owned('user_grammar_comparisons_viewed'),
+  owned('cefr_level_history'),
+  owned('user_badges'),
+  owned('focus_mode_history'),
+
+  // Preferences
+  owned('user_languages'),
+  owned('user_preferences'),
+
+  // Login and operator access
+  credentials('refresh_tokens'),
+  owned('auth_sessions'),
+  credentials('account_tokens'),
+  credentials('operator_recovery_codes'),
+  credentials('operator_totp'),
+  owned('operator_roles'),
+];
@@ -4,6 +4,7 @@ export type {
   VocabularyTrend,
   WordDetails,
   LearningVelocity,
+  RetentionComparison,
   PaginatedWords,
   WordState,
   LanguageBreakdown,
@@ -52,4 +53,6 @@ export type {
   ActivityHeatmapCell,
   StudyOverview,
   PeriodSummary,
+  HintUsageStats,
+  HintUsageByExercise,
 } from './study-statistics.interface';
@@ -56,6 +56,27 @@ export interface AccuracyTrend {
   itemsReviewed: number;
 }
 
+/**
+ * Hints used in one practice mode
+ */
+export interface HintUsageByExercise {
+  exerciseType: string;
+  hintsUsed: number;
+  itemsHinted: number;
+  reveals: number;
+}
+
+/**
+ * Hint ladder usage over a period
+ */
+export interface HintUsageStats {
+  totalHints: number;
+  itemsHinted: number;
+  reveals: number;
+  byExerciseType: HintUsageByExercise[];
+  byLevel: Array<{ level: number; count: number }>;
+}
+
 /**
  * Study pace analysis
  */
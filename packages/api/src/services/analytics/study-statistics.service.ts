@@ -10,6 +10,7 @@ import {
   ActivityHeatmapCell,
   StudyOverview,
   PeriodSummary,
+  HintUsageStats,
 } from './study-statistics.interface';
 
 /**
@@ -20,6 +21,7 @@ import {
  * - user_review_sessions: Study session tracking
  * - srs_review_history: Individual review records
  * - badges / user_badges: Gamification
+ * - hint_usage: Hints requested from the hint ladder
  */
 export class StudyStatisticsService {
   constructor(private readonly pool: Pool) {}
@@ -499,6 +501,68 @@ export class StudyStatisticsService {
     return { current, target };
   }
 
+  /**
+   * Get hint ladder usage, per practice mode and per level
+   *
+   * An item is a distinct exercise item hinted on a given day.
+   */
+  async getHintUsage(userId: string, days: number): Promise<HintUsageStats> {
+    interface ExerciseRow {
+      exercise_type: string;
+      hints_used: string;
+      items_hinted: string;
+      reveals: string;
+    }
+
+    interface LevelRow {
+      hint_level: number;
+      count: string;
+    }
+
+    const [byExerciseResult, byLevelResult] = await Promise.all([
+      this.pool.query<ExerciseRow>(
+        `SELECT
+          exercise_type,
+          COUNT(*) as hints_used,
+          COUNT(DISTINCT (COALESCE(item_id, id::text), DATE(created_at))) as items_hinted,
+          COUNT(*) FILTER (WHERE hint_type = 'reveal') as reveals
+         FROM hint_usage
+         WHERE user_id = $1
+           AND created_at >= NOW() - make_interval(days => $2)
+         GROUP BY exercise_type
+         ORDER BY hints_used DESC`,
+        [userId, days]
+      ),
+      this.pool.query<LevelRow>(
+        `SELECT hint_level, COUNT(*) as count
+         FROM hint_usage
+         WHERE user_id = $1
+           AND created_at >= NOW() - make_interval(days => $2)
+         GROUP BY hint_level
+         ORDER BY hint_level ASC`,
+        [userId, days]
+      ),
+    ]);
+
+    const byExerciseType = byExerciseResult.rows.map((row) => ({
+      exerciseType: row.exercise_type,
+      hintsUsed: parseInt(row.hints_used),
+      itemsHinted: parseInt(row.items_hinted),
+      reveals: parseInt(row.reveals),
+    }));
+
+    return {
+      totalHints: byExerciseType.reduce((sum, e) => sum + e.hintsUsed, 0),
+      itemsHinted: byExerciseType.reduce((sum, e) => sum + e.itemsHinted, 0),
+      reveals: byExerciseType.reduce((sum, e) => sum + e.reveals, 0),
+      byExerciseType,
+      byLevel: byLevelResult.rows.map((row) => ({
+        level: row.hint_level,
+        count: parseInt(row.count),
+      })),
+    };
+  }
+
   /**
    * Get activity heatmap data
    */
@@ -80,6 +80,23 @@ export interface LearningVelocity {
   trend: 'increasing' | 'stable' | 'decreasing';
 }
 
+/**
+ * Predicted vs. actual recall rate over recent reviews
+ *
+ * Compares FSRS predictions made with the published default weights against
+ * predictions made with the learner's personalized weights.
+ */
+export interface RetentionComparison {
+  windowDays: number;
+  reviewCount: number;
+  actualRetention: number | null;
+  predictedDefault: number | null;
+  predictedPersonalized: number | null;
+  logLossDefault: number | null;
+  logLossPersonalized: number | null;
+  personalized: boolean;
+}
+
 /**
  * Paginated word list result
  */
@@ -1,10 +1,15 @@
 import { Pool } from 'pg';
+import { FSRSCalculator } from '../srs/fsrs-calculator';
+import { FSRSEvaluation, FSRSOptimizer } from '../srs/fsrs-optimizer';
+import { FSRSOptimizationService } from '../srs/fsrs-optimization.service';
+import { SRSService } from '../srs/srs.service';
 import {
   VocabularyStats,
   VocabularyTrend,
   WordDetails,
   LearningVelocity,
   PaginatedWords,
+  RetentionComparison,
   WordState,
 } from './vocabulary-analytics.interface';
 
@@ -378,6 +383,44 @@ export class VocabularyAnalyticsService {
     };
   }
 
+  /**
+   * Compare predicted and actual retention over recent vocabulary reviews
+   *
+   * The full review history is replayed to rebuild memory state, but only
+   * reviews within the window are scored.
+   */
+  async getRetentionComparison(
+    userId: string,
+    language?: string,
+    windowDays: number = 30
+  ): Promise<RetentionComparison> {
+    const histories = await new FSRSOptimizationService(this.pool).loadReviewHistories(
+      userId,
+      language
+    );
+    const { fsrsWeights } = await new SRSService(this.pool).getSchedulerConfig(userId);
+
+    const since = new Date();
+    since.setDate(since.getDate() - windowDays);
+
+    const optimizer = new FSRSOptimizer();
+    const withDefaults = optimizer.evaluate(histories, FSRSCalculator.DEFAULT_WEIGHTS, since);
+    const withPersonalized: FSRSEvaluation | null = fsrsWeights
+      ? optimizer.evaluate(histories, fsrsWeights, since)
+      : null;
+
+    return {
+      windowDays,
+      reviewCount: withDefaults.reviewCount,
+      actualRetention: this.roundRate(withDefaults.actualRetention),
+      predictedDefault: this.roundRate(withDefaults.predictedRetention),
+      predictedPersonalized: this.roundRate(withPersonalized?.predictedRetention ?? null),
+      logLossDefault: this.roundRate(withDefaults.logLoss),
+      logLossPersonalized: this.roundRate(withPersonalized?.logLoss ?? null),
+      personalized: fsrsWeights !== null,
+    };
+  }
+
   /**
    * Get words by state with pagination
    */
@@ -468,4 +511,8 @@ export class VocabularyAnalyticsService {
 
     return { words, total };
   }
+
+  private roundRate(value: number | null): number | null {
+    return value === null ? null : Math.round(value * 1000) / 1000;
+  }
 }
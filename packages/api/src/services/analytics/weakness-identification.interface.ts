@@ -4,6 +4,7 @@
  * Identifies user's weak areas based on performance metrics:
  * 1. Vocabulary items with low accuracy or high lapse rate
  * 2. Grammar concepts with poor mastery scores
+ * 3. Diacritic letters with low accuracy (orthography)
  *
  * Weakness Criteria:
  * - Accuracy < 70% over last attempts
@@ -12,11 +13,11 @@
  */
 
 /**
- * Individual weakness item (vocabulary or grammar)
+ * Individual weakness item (vocabulary, grammar or orthography)
  */
 export interface WeaknessItem {
   itemId: string;
-  itemType: 'vocabulary' | 'grammar';
+  itemType: 'vocabulary' | 'grammar' | 'orthography';
   itemText: string;
   language: string;
   cefrLevel: string;
@@ -40,6 +41,7 @@ export interface WeaknessAnalysis {
   weaknessesByType: {
     vocabulary: number;
     grammar: number;
+    orthography: number;
   };
   weaknessesByCEFR: Record<string, number>;
   topWeaknesses: WeaknessItem[];
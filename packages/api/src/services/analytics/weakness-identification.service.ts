@@ -13,6 +13,7 @@ import {
  * Identifies user's weak areas based on performance metrics:
  * 1. Vocabulary items with low accuracy or high lapse rate
  * 2. Grammar concepts with poor mastery scores
+ * 3. Orthography: diacritic letters the learner keeps getting wrong
  *
  * Weakness Criteria:
  * - Accuracy < 70% over attempts
@@ -44,8 +45,11 @@ export class WeaknessIdentificationService {
     // Get grammar weaknesses
     const grammarWeaknesses = await this.getGrammarWeaknesses(userId, language, cefrLevel);
 
+    // Get orthography (diacritic) weaknesses
+    const orthographyWeaknesses = await this.getOrthographyWeaknesses(userId, language, cefrLevel);
+
     // Combine all weaknesses
-    const allWeaknesses = [...vocabWeaknesses, ...grammarWeaknesses];
+    const allWeaknesses = [...vocabWeaknesses, ...grammarWeaknesses, ...orthographyWeaknesses];
 
     // Sort by severity score (highest first)
     allWeaknesses.sort((a, b) => b.severityScore - a.severityScore);
@@ -54,6 +58,7 @@ export class WeaknessIdentificationService {
     const weaknessesByType = {
       vocabulary: vocabWeaknesses.length,
       grammar: grammarWeaknesses.length,
+      orthography: orthographyWeaknesses.length,
     };
 
     // Count by CEFR level
@@ -278,6 +283,94 @@ export class WeaknessIdentificationService {
     });
   }
 
+  /**
+   * Get orthography weaknesses from diacritic letters logged while grading answers
+   *
+   * Each diacritic letter of a language ("ã" in Portuguese, "č" in Slovene) is
+   * one item. Letters are not tied to a CEFR level; they are reported as A1
+   * and left out when filtering by another level.
+   */
+  private async getOrthographyWeaknesses(
+    userId: string,
+    language?: string,
+    cefrLevel?: string
+  ): Promise<WeaknessItem[]> {
+    interface OrthographyRow {
+      language: string;
+      letter: string;
+      total_attempts: string;
+      correct_attempts: string;
+      recent_failures: string;
+      last_attempted_at: Date | null;
+      missed_words: string[] | null;
+    }
+
+    if (cefrLevel && cefrLevel !== 'A1') {
+      return [];
+    }
+
+    const params: string[] = [userId];
+    let languageFilter = '';
+
+    if (language) {
+      params.push(language);
+      languageFilter = `AND uda.language = $${params.length}`;
+    }
+
+    const result = await this.pool.query<OrthographyRow>(
+      `SELECT
+        uda.language,
+        uda.letter,
+        COUNT(*)::text as total_attempts,
+        COUNT(*) FILTER (WHERE uda.correct)::text as correct_attempts,
+        COUNT(*) FILTER (
+          WHERE NOT uda.correct AND uda.created_at >= NOW() - INTERVAL '7 days'
+        )::text as recent_failures,
+        MAX(uda.created_at) as last_attempted_at,
+        (ARRAY_AGG(DISTINCT uda.word) FILTER (WHERE NOT uda.correct))[1:3] as missed_words
+       FROM user_diacritic_attempts uda
+       WHERE uda.user_id = $1
+         AND uda.created_at >= NOW() - INTERVAL '${this.ANALYSIS_WINDOW_DAYS} days'
+         ${languageFilter}
+       GROUP BY uda.language, uda.letter
+       HAVING COUNT(*) >= ${this.MIN_ATTEMPTS_FOR_ANALYSIS}
+         AND (
+           COUNT(*) FILTER (WHERE uda.correct)::float / COUNT(*) < ${this.WEAKNESS_ACCURACY_THRESHOLD}
+           OR COUNT(*) FILTER (
+             WHERE NOT uda.correct AND uda.created_at >= NOW() - INTERVAL '7 days'
+           ) >= 3
+         )
+       ORDER BY COUNT(*) FILTER (WHERE uda.correct)::float / COUNT(*) ASC`,
+      params
+    );
+
+    return result.rows.map((row) => {
+      const totalAttempts = parseInt(row.total_attempts);
+      const correctAttempts = parseInt(row.correct_attempts);
+      const accuracy = totalAttempts > 0 ? correctAttempts / totalAttempts : 0;
+      const recencyWeight = this.calculateRecencyWeight(row.last_attempted_at);
+      const frequencyWeight = Math.min(totalAttempts / 50, 1.0);
+      const severityScore = (1 - accuracy) * 0.5 + recencyWeight * 0.3 + frequencyWeight * 0.2;
+      const examples = row.missed_words?.length ? ` (${row.missed_words.join(', ')})` : '';
+
+      return {
+        itemId: `diacritic_${row.language}_${row.letter}`,
+        itemType: 'orthography' as const,
+        itemText: `${row.letter}${examples}`,
+        language: row.language,
+        cefrLevel: 'A1',
+        category: 'diacritics',
+        accuracy: Math.round(accuracy * 1000) / 10,
+        totalAttempts,
+        recentAttempts: totalAttempts,
+        failureCount: parseInt(row.recent_failures),
+        lastAttemptDate: row.last_attempted_at,
+        severityScore: Math.round(severityScore * 1000) / 10,
+        improvementPotential: this.calculateImprovementPotential(accuracy, totalAttempts),
+      };
+    });
+  }
+
   /**
    * Calculate recency weight (more recent = higher weight)
    * Returns value between 0 and 1
@@ -0,0 +1,226 @@
+import { createHash, randomBytes } from 'crypto';
+import { Pool, PoolClient } from 'pg';
+import { Mailer, MailMessage } from '../mail';
+import { withTransaction } from '../../utils/db.utils';
+
+export type AccountTokenPurpose = 'email_verification' | 'password_reset';
+
+interface AccountTokenRow {
+  id: string;
+  user_id: string;
+  expires_at: Date;
+  used_at: Date | null;
+}
+
+class AccountTokenError extends Error {
+  statusCode: number;
+  code: string;
+  constructor(message: string, code: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'AccountTokenError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+const TOKEN_TTL_SECONDS: Record<AccountTokenPurpose, number> = {
+  email_verification: 48 * 60 * 60,
+  password_reset: 60 * 60,
+};
+
+/**
+ * AccountEmailService proves control of an account's email address
+ *
+ * Verification and password reset mails carry a random single-use token
+ * that expires (48 hours and 1 hour). Only the token's SHA-256 hash is
+ * stored, and issuing a token discards the user's unused tokens of the
+ * same purpose so only the latest mail works.
+ */
+export class AccountEmailService {
+  constructor(
+    private readonly pool: Pool,
+    private readonly mailer: Mailer,
+    private readonly frontendUrl: string
+  ) {}
+
+  async sendVerificationEmail(userId: string): Promise<void> {
+    await this.mailer.send(await this.prepareVerificationEmail(userId));
+  }
+
+  /**
+   * Issue a verification token and build the mail carrying it, for callers
+   * that deliver it without waiting
+   */
+  async prepareVerificationEmail(userId: string): Promise<MailMessage> {
+    const result = await this.pool.query<{ email: string; email_verified_at: Date | null }>(
+      `SELECT email, email_verified_at FROM users WHERE id = $1`,
+      [userId]
+    );
+    const user = result.rows[0];
+
+    if (!user) {
+      throw new AccountTokenError('User not found', 'NOT_FOUND', 404);
+    }
+    if (user.email_verified_at) {
+      throw new AccountTokenError('Email address is already verified', 'ALREADY_VERIFIED', 409);
+    }
+
+    const token = await this.issueToken(userId, 'email_verification');
+
+    return {
+      to: user.email,
+      subject: 'Confirm your PolyLadder email address',
+      text: [
+        'Welcome to PolyLadder!',
+        '',
+        'Confirm your email address to start learning:',
+        this.link('/verify-email', token),
+        '',
+        'The link expires in 48 hours.',
+      ].join('\n'),
+    };
+  }
+
+  /**
+   * Mark the email address of the token's user as verified
+   */
+  async verifyEmail(token: string): Promise<string> {
+    return this.redeem(token, 'email_verification', async (client, userId) => {
+      await client.query(
+        `UPDATE users SET email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP)
+         WHERE id = $1`,
+        [userId]
+      );
+    });
+  }
+
+  /**
+   * Mail a reset link if the address belongs to an account
+   *
+   * Returns whether a mail was sent; callers must not reveal it, or the
+   * endpoint tells which addresses have accounts.
+   */
+  async requestPasswordReset(email: string): Promise<boolean> {
+    const result = await this.pool.query<{ id: string; email: string }>(
+      `SELECT id, email FROM users WHERE email = $1 AND deleted_at IS NULL`,
+      [email.toLowerCase()]
+    );
+    const user = result.rows[0];
+
+    if (!user) {
+      return false;
+    }
+
+    const token = await this.issueToken(user.id, 'password_reset');
+
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Reset your PolyLadder password',
+      text: [
+        'Someone asked to reset the password of your PolyLadder account.',
+        '',
+        'Choose a new password here:',
+        this.link('/reset-password', token),
+        '',
+        'The link expires in 1 hour. If you did not ask for it, ignore this mail.',
+      ].join('\n'),
+    });
+    return true;
+  }
+
+  /**
+   * Set a new password and log the user out of every device
+   *
+   * Following the link also proves control of the email address.
+   */
+  async resetPassword(token: string, passwordHash: string): Promise<string> {
+    return this.redeem(token, 'password_reset', async (client, userId) => {
+      await client.query(
+        `UPDATE users
+         SET password_hash = $2,
+             email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP),
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [userId, passwordHash]
+      );
+      await client.query(
+        `UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = 'password_reset'
+         WHERE user_id = $1 AND revoked_at IS NULL`,
+        [userId]
+      );
+    });
+  }
+
+  private async issueToken(userId: string, purpose: AccountTokenPurpose): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + TOKEN_TTL_SECONDS[purpose] * 1000);
+    const client = await this.pool.connect();
+
+    try {
+      await withTransaction(client, async (txClient) => {
+        await txClient.query(
+          `DELETE FROM account_tokens WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL`,
+          [userId, purpose]
+        );
+        await txClient.query(
+          `INSERT INTO account_tokens (user_id, purpose, token_hash, expires_at)
+           VALUES ($1, $2, $3, $4)`,
+          [userId, purpose, this.hash(token), expiresAt]
+        );
+      });
+    } finally {
+      client.release();
+    }
+
+    return token;
+  }
+
+  /**
+   * Use up a token and apply its effect in the same transaction; returns
+   * the token's user
+   */
+  private async redeem(
+    token: string,
+    purpose: AccountTokenPurpose,
+    apply: (client: PoolClient, userId: string) => Promise<void>
+  ): Promise<string> {
+    const client = await this.pool.connect();
+
+    try {
+      return await withTransaction(client, async (txClient) => {
+        const result = await txClient.query<AccountTokenRow>(
+          `SELECT id, user_id, expires_at, used_at
+           FROM account_tokens
+           WHERE token_hash = $1 AND purpose = $2
+           FOR UPDATE`,
+          [this.hash(token), purpose]
+        );
+        const row = result.rows[0];
+
+        if (!row || row.used_at || new Date(row.expires_at).getTime() <= Date.now()) {
+          throw new AccountTokenError('This link is invalid or has expired', 'INVALID_TOKEN');
+        }
+
+        await txClient.query(
+          `UPDATE account_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = $1`,
+          [row.id]
+        );
+        await apply(txClient, row.user_id);
+
+        return row.user_id;
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  private link(path: string, token: string): string {
+    const url = new URL(path, this.frontendUrl);
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,320 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { Pool, PoolClient } from 'pg';
+import { withTransaction } from '../../utils/db.utils';
+
+/**
+ * The device a session was opened or last refreshed from
+ */
+export interface DeviceInfo {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export interface DeviceSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+}
+
+export interface IssuedRefreshToken {
+  sessionId: string;
+  refreshToken: string;
+  expiresAt: Date;
+}
+
+export interface RotatedRefreshToken extends IssuedRefreshToken {
+  userId: string;
+  role: 'learner' | 'operator';
+}
+
+interface PresentedTokenRow {
+  session_id: string;
+  user_id: string;
+  role: 'learner' | 'operator';
+  expires_at: Date;
+  rotated_at: Date | null;
+  successor_nonce: string | null;
+  revoked_at: Date | null;
+}
+
+class SessionError extends Error {
+  statusCode: number;
+  code: string;
+  constructor(message: string, code: string, statusCode: number = 401) {
+    super(message);
+    this.name = 'SessionError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+const MAX_USER_AGENT_LENGTH = 500;
+const DEFAULT_REFRESH_TTL_SECONDS = 7 * 24 * 60 * 60;
+// Concurrent refreshes (several tabs, retried requests) replay a token this soon
+const ROTATION_GRACE_MS = 5 * 1000;
+
+/**
+ * DeviceSessionService manages login sessions and their refresh tokens
+ *
+ * Each login opens a session (one per device) holding a chain of refresh
+ * tokens. Every refresh rotates the token: the presented token is marked
+ * rotated and a new one is issued in the same session. Presenting a
+ * rotated token again within a few seconds returns its successor, so
+ * concurrent refreshes agree; later it means the token was copied, so the
+ * whole session is revoked. Tokens are random and only their SHA-256 hash
+ * is stored.
+ */
+export class DeviceSessionService {
+  constructor(
+    private readonly pool: Pool,
+    private readonly refreshTtlSeconds: number = DEFAULT_REFRESH_TTL_SECONDS
+  ) {}
+
+  /**
+   * Open a session at login; pass the login transaction's client as db
+   */
+  async createSession(
+    userId: string,
+    device: DeviceInfo,
+    db: Pool | PoolClient = this.pool
+  ): Promise<IssuedRefreshToken> {
+    const result = await db.query<{ id: string }>(
+      `INSERT INTO auth_sessions (user_id, user_agent, ip_address)
+       VALUES ($1, $2, $3)
+       RETURNING id`,
+      [userId, this.truncateUserAgent(device.userAgent), device.ipAddress]
+    );
+    const sessionId = result.rows[0].id;
+
+    return this.issueToken(db, userId, sessionId);
+  }
+
+  /**
+   * Exchange a refresh token for a new one in the same session
+   */
+  async rotate(refreshToken: string, device: DeviceInfo): Promise<RotatedRefreshToken> {
+    const client = await this.pool.connect();
+    let outcome: RotatedRefreshToken | 'reused';
+
+    try {
+      outcome = await withTransaction(client, async (txClient) => {
+        const result = await txClient.query<PresentedTokenRow>(
+          `SELECT rt.session_id, rt.user_id, rt.expires_at, rt.rotated_at, rt.successor_nonce,
+                  s.revoked_at, u.role
+           FROM refresh_tokens rt
+           JOIN auth_sessions s ON s.id = rt.session_id
+           JOIN users u ON u.id = rt.user_id
+           WHERE rt.token = $1
+           FOR UPDATE OF rt, s`,
+          [this.hash(refreshToken)]
+        );
+        const presented = result.rows[0];
+
+        if (!presented) {
+          throw new SessionError('Invalid or expired refresh token', 'INVALID_TOKEN');
+        }
+        if (presented.revoked_at || new Date(presented.expires_at).getTime() <= Date.now()) {
+          throw new SessionError('Invalid or expired refresh token', 'TOKEN_REVOKED');
+        }
+        if (presented.rotated_at) {
+          const successor = await this.findSuccessor(txClient, refreshToken, presented);
+          if (successor) {
+            return { ...successor, userId: presented.user_id, role: presented.role };
+          }
+
+          await this.revoke(txClient, presented.session_id, 'reuse');
+          return 'reused' as const;
+        }
+
+        const nonce = randomBytes(16).toString('hex');
+        await txClient.query(
+          `UPDATE refresh_tokens SET rotated_at = CURRENT_TIMESTAMP, successor_nonce = $2
+           WHERE token = $1`,
+          [this.hash(refreshToken), nonce]
+        );
+        await txClient.query(
+          `UPDATE auth_sessions
+           SET last_used_at = CURRENT_TIMESTAMP, user_agent = $2, ip_address = $3
+           WHERE id = $1`,
+          [presented.session_id, this.truncateUserAgent(device.userAgent), device.ipAddress]
+        );
+
+        const issued = await this.issueToken(
+          txClient,
+          presented.user_id,
+          presented.session_id,
+          this.successorToken(refreshToken, nonce)
+        );
+        return { ...issued, userId: presented.user_id, role: presented.role };
+      });
+    } finally {
+      client.release();
+    }
+
+    // Thrown after the transaction so the revocation is committed
+    if (outcome === 'reused') {
+      throw new SessionError(
+        'Refresh token was already used; the session has been revoked',
+        'TOKEN_REUSED'
+      );
+    }
+    return outcome;
+  }
+
+  /**
+   * Session a refresh token belongs to, if it is still active
+   */
+  async findSessionId(refreshToken: string): Promise<string | null> {
+    const result = await this.pool.query<{ session_id: string }>(
+      `SELECT rt.session_id
+       FROM refresh_tokens rt
+       JOIN auth_sessions s ON s.id = rt.session_id
+       WHERE rt.token = $1 AND s.revoked_at IS NULL`,
+      [this.hash(refreshToken)]
+    );
+    return result.rows[0]?.session_id ?? null;
+  }
+
+  /**
+   * Active sessions: not revoked and holding an unused, unexpired token
+   */
+  async listSessions(userId: string): Promise<DeviceSession[]> {
+    const result = await this.pool.query<{
+      id: string;
+      user_agent: string | null;
+      ip_address: string | null;
+      created_at: Date;
+      last_used_at: Date;
+    }>(
+      `SELECT s.id, s.user_agent, s.ip_address, s.created_at, s.last_used_at
+       FROM auth_sessions s
+       WHERE s.user_id = $1
+         AND s.revoked_at IS NULL
+         AND EXISTS (
+           SELECT 1 FROM refresh_tokens rt
+           WHERE rt.session_id = s.id
+             AND rt.rotated_at IS NULL
+             AND rt.expires_at > CURRENT_TIMESTAMP
+         )
+       ORDER BY s.last_used_at DESC`,
+      [userId]
+    );
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      userAgent: row.user_agent,
+      ipAddress: row.ip_address,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at,
+    }));
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const result = await this.pool.query(
+      `UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = 'revoked'
+       WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+      [sessionId, userId]
+    );
+    if (result.rowCount === 0) {
+      throw new SessionError('Session not found', 'NOT_FOUND', 404);
+    }
+  }
+
+  /**
+   * Log out everywhere; returns the number of sessions revoked
+   */
+  async revokeAllSessions(userId: string): Promise<number> {
+    const result = await this.pool.query(
+      `UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = 'revoked'
+       WHERE user_id = $1 AND revoked_at IS NULL`,
+      [userId]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * End the session of a refresh token at logout
+   */
+  async revokeByToken(userId: string, refreshToken: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = 'logout'
+       WHERE revoked_at IS NULL
+         AND user_id = $2
+         AND id = (SELECT session_id FROM refresh_tokens WHERE token = $1)`,
+      [this.hash(refreshToken), userId]
+    );
+  }
+
+  private async issueToken(
+    db: Pool | PoolClient,
+    userId: string,
+    sessionId: string,
+    refreshToken: string = randomBytes(32).toString('base64url')
+  ): Promise<IssuedRefreshToken> {
+    const expiresAt = new Date(Date.now() + this.refreshTtlSeconds * 1000);
+
+    await db.query(
+      `INSERT INTO refresh_tokens (user_id, session_id, token, expires_at)
+       VALUES ($1, $2, $3, $4)`,
+      [userId, sessionId, this.hash(refreshToken), expiresAt]
+    );
+
+    return { sessionId, refreshToken, expiresAt };
+  }
+
+  /**
+   * The token a rotated token was exchanged for, if it was rotated within
+   * the grace window and its successor is still unused
+   */
+  private async findSuccessor(
+    db: PoolClient,
+    refreshToken: string,
+    presented: PresentedTokenRow
+  ): Promise<IssuedRefreshToken | null> {
+    if (
+      !presented.rotated_at ||
+      !presented.successor_nonce ||
+      Date.now() - new Date(presented.rotated_at).getTime() > ROTATION_GRACE_MS
+    ) {
+      return null;
+    }
+
+    const successor = this.successorToken(refreshToken, presented.successor_nonce);
+    const result = await db.query<{ expires_at: Date }>(
+      `SELECT expires_at FROM refresh_tokens
+       WHERE token = $1 AND session_id = $2 AND rotated_at IS NULL`,
+      [this.hash(successor), presented.session_id]
+    );
+    const row = result.rows[0];
+
+    return row
+      ? { sessionId: presented.session_id, refreshToken: successor, expiresAt: row.expires_at }
+      : null;
+  }
+
+  /**
+   * Successors are derived from the presented token and a nonce stored on
+   * its row, so only a holder of that token can recover one
+   */
+  private successorToken(refreshToken: string, nonce: string): string {
+    return createHmac('sha256', refreshToken).update(nonce).digest('base64url');
+  }
+
+  private async revoke(db: PoolClient, sessionId: string, reason: string): Promise<void> {
+    await db.query(
+      `UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = $2
+       WHERE id = $1 AND revoked_at IS NULL`,
+      [sessionId, reason]
+    );
+  }
+
+  private hash(refreshToken: string): string {
+    return createHash('sha256').update(refreshToken).digest('hex');
+  }
+
+  private truncateUserAgent(userAgent: string | null): string | null {
+    return userAgent ? userAgent.slice(0, MAX_USER_AGENT_LENGTH) : null;
+  }
+}
@@ -0,0 +1,11 @@
+export { DeviceSessionService } from './device-session.service';
+export type {
+  DeviceInfo,
+  DeviceSession,
+  IssuedRefreshToken,
+  RotatedRefreshToken,
+} from './device-session.service';
+export { AccountEmailService } from './account-email.service';
+export type { AccountTokenPurpose } from './account-email.service';
+export { TwoFactorService } from './two-factor.service';
+export type { TwoFactorStatus, TwoFactorEnrollment } from './two-factor.service';
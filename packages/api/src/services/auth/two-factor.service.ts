@@ -0,0 +1,403 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { Pool, PoolClient } from 'pg';
+import { withTransaction } from '../../utils/db.utils';
+import { base32Decode, base32Encode, matchTotp, provisioningUri } from './totp';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean; // An operator role of the user falls under the 2FA policy
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string; // Base32, for typing into an authenticator app
+  provisioningUri: string;
+}
+
+interface TotpRow {
+  secret_encrypted: string;
+  enabled_at: Date | null;
+  last_used_step: string | null; // BIGINT
+}
+
+interface LoginTotpRow extends TotpRow {
+  failed_login_attempts: number;
+  locked: boolean;
+}
+
+class TwoFactorError extends Error {
+  statusCode: number;
+  code: string;
+  constructor(message: string, code: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'TwoFactorError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+const ISSUER = 'PolyLadder';
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+const MAX_LOGIN_FAILURES = 5;
+const LOGIN_LOCKOUT_MINUTES = 15;
+
+/**
+ * TwoFactorService manages TOTP (RFC 6238) second factors of operators
+ *
+ * Enrollment stores a pending secret that becomes active once the
+ * operator proves their app generates matching codes. Secrets are
+ * encrypted with AES-256-GCM under a key derived from the server secret;
+ * a code is accepted once, so an observed code cannot be replayed within
+ * its time step. Ten single-use recovery codes, stored as SHA-256
+ * hashes, replace the app when it is lost. Five wrong codes in a row at
+ * login lock the second step for fifteen minutes.
+ */
+export class TwoFactorService {
+  private readonly key: Buffer;
+
+  constructor(
+    private readonly pool: Pool,
+    serverSecret: string
+  ) {
+    this.key = createHash('sha256').update(`two-factor:${serverSecret}`).digest();
+  }
+
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const result = await this.pool.query<{
+      enabled: boolean;
+      required: boolean;
+      recovery_codes_remaining: string;
+    }>(
+      `SELECT
+         EXISTS (
+           SELECT 1 FROM operator_totp WHERE user_id = $1 AND enabled_at IS NOT NULL
+         ) as enabled,
+         EXISTS (
+           SELECT 1 FROM operator_roles r
+           JOIN operator_two_factor_policy p ON p.role = r.role
+           WHERE r.user_id = $1
+         ) as required,
+         (SELECT COUNT(*) FROM operator_recovery_codes WHERE user_id = $1 AND used_at IS NULL)
+           as recovery_codes_remaining`,
+      [userId]
+    );
+    const row = result.rows[0];
+
+    return {
+      enabled: row.enabled,
+      required: row.required,
+      recoveryCodesRemaining: parseInt(row.recovery_codes_remaining, 10),
+    };
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    return (await this.getStatus(userId)).enabled;
+  }
+
+  /**
+   * The policy requires 2FA of the user but they have not enrolled yet
+   */
+  async isEnrollmentOverdue(userId: string): Promise<boolean> {
+    const status = await this.getStatus(userId);
+    return status.required && !status.enabled;
+  }
+
+  /**
+   * Generate a new pending secret, replacing an unconfirmed one
+   */
+  async startEnrollment(userId: string, accountName: string): Promise<TwoFactorEnrollment> {
+    if (await this.isEnabled(userId)) {
+      throw new TwoFactorError(
+        'Two-factor authentication is already enabled',
+        'TWO_FACTOR_ENABLED',
+        409
+      );
+    }
+
+    const secret = base32Encode(randomBytes(SECRET_BYTES));
+    await this.pool.query(
+      `INSERT INTO operator_totp (user_id, secret_encrypted)
+       VALUES ($1, $2)
+       ON CONFLICT (user_id) DO UPDATE
+       SET secret_encrypted = EXCLUDED.secret_encrypted, enabled_at = NULL,
+           last_used_step = NULL, created_at = CURRENT_TIMESTAMP`,
+      [userId, this.encrypt(secret)]
+    );
+
+    return { secret, provisioningUri: provisioningUri(secret, accountName, ISSUER) };
+  }
+
+  /**
+   * Activate the pending secret with a code from the app; returns the
+   * recovery codes, which are not shown again
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const client = await this.pool.connect();
+
+    try {
+      return await withTransaction(client, async (txClient) => {
+        const result = await txClient.query<TotpRow>(
+          `SELECT secret_encrypted, enabled_at, last_used_step
+           FROM operator_totp WHERE user_id = $1 FOR UPDATE`,
+          [userId]
+        );
+        const row = result.rows[0];
+
+        if (!row) {
+          throw new TwoFactorError('Start enrollment first', 'NOT_ENROLLING', 409);
+        }
+        if (row.enabled_at) {
+          throw new TwoFactorError(
+            'Two-factor authentication is already enabled',
+            'TWO_FACTOR_ENABLED',
+            409
+          );
+        }
+
+        const step = matchTotp(this.secretOf(row), code.trim(), Date.now() / 1000);
+        if (step === null) {
+          throw new TwoFactorError('Invalid authentication code', 'INVALID_CODE');
+        }
+
+        await txClient.query(
+          `UPDATE operator_totp SET enabled_at = CURRENT_TIMESTAMP, last_used_step = $2
+           WHERE user_id = $1`,
+          [userId, step]
+        );
+        return this.replaceRecoveryCodes(txClient, userId);
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Check the second factor at login: an app code or an unused recovery code
+   *
+   * Wrong codes are counted per user rather than per challenge token, so a
+   * new password login does not reset the count.
+   */
+  async verifyLogin(userId: string, code: string): Promise<'totp' | 'recovery_code'> {
+    const trimmed = code.trim();
+    const client = await this.pool.connect();
+    let method: 'totp' | 'recovery_code' | null;
+
+    try {
+      method = await withTransaction(client, async (txClient) => {
+        const result = await txClient.query<LoginTotpRow>(
+          `SELECT secret_encrypted, enabled_at, last_used_step, failed_login_attempts,
+                  COALESCE(login_locked_until > CURRENT_TIMESTAMP, false) as locked
+           FROM operator_totp WHERE user_id = $1 AND enabled_at IS NOT NULL FOR UPDATE`,
+          [userId]
+        );
+        const row = result.rows[0];
+
+        if (!row) {
+          throw new TwoFactorError(
+            'Two-factor authentication is not enabled',
+            'TWO_FACTOR_DISABLED',
+            401
+          );
+        }
+        if (row.locked) {
+          throw new TwoFactorError(
+            'Too many invalid codes; try again later',
+            'TWO_FACTOR_LOCKED',
+            429
+          );
+        }
+
+        if (/^\d+$/.test(trimmed)) {
+          const step = this.matchUnusedStep(row, trimmed);
+          if (step !== null) {
+            await txClient.query(
+              `UPDATE operator_totp SET last_used_step = $2, failed_login_attempts = 0
+               WHERE user_id = $1`,
+              [userId, step]
+            );
+            return 'totp';
+          }
+        } else {
+          const used = await txClient.query(
+            `UPDATE operator_recovery_codes SET used_at = CURRENT_TIMESTAMP
+             WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL`,
+            [userId, this.hashRecoveryCode(trimmed)]
+          );
+          if (used.rowCount !== 0) {
+            await txClient.query(
+              `UPDATE operator_totp SET failed_login_attempts = 0 WHERE user_id = $1`,
+              [userId]
+            );
+            return 'recovery_code';
+          }
+        }
+
+        // The failure is committed, not rolled back with an error
+        const failures = row.failed_login_attempts + 1;
+        const lockout = failures >= MAX_LOGIN_FAILURES;
+        await txClient.query(
+          `UPDATE operator_totp
+           SET failed_login_attempts = $2,
+               login_locked_until = CASE
+                 WHEN $3::int IS NULL THEN NULL
+                 ELSE CURRENT_TIMESTAMP + make_interval(mins => $3::int)
+               END
+           WHERE user_id = $1`,
+          [userId, lockout ? 0 : failures, lockout ? LOGIN_LOCKOUT_MINUTES : null]
+        );
+        return null;
+      });
+    } finally {
+      client.release();
+    }
+
+    if (!method) {
+      throw new TwoFactorError('Invalid authentication code', 'INVALID_CODE', 401);
+    }
+    return method;
+  }
+
+  /**
+   * Issue a fresh set of recovery codes; requires a current app code
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    await this.verifyTotp(userId, code.trim());
+
+    const client = await this.pool.connect();
+    try {
+      return await withTransaction(client, (txClient) =>
+        this.replaceRecoveryCodes(txClient, userId)
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Turn 2FA off; not allowed while the policy requires it
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    const status = await this.getStatus(userId);
+    if (!status.enabled) {
+      throw new TwoFactorError(
+        'Two-factor authentication is not enabled',
+        'TWO_FACTOR_DISABLED',
+        409
+      );
+    }
+    if (status.required) {
+      throw new TwoFactorError(
+        'Two-factor authentication is required for your operator roles',
+        'TWO_FACTOR_REQUIRED',
+        409
+      );
+    }
+
+    await this.verifyTotp(userId, code.trim());
+
+    const client = await this.pool.connect();
+    try {
+      await withTransaction(client, async (txClient) => {
+        await txClient.query(`DELETE FROM operator_recovery_codes WHERE user_id = $1`, [userId]);
+        await txClient.query(`DELETE FROM operator_totp WHERE user_id = $1`, [userId]);
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Use up an app code of an authenticated user
+   */
+  private async verifyTotp(userId: string, code: string): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await withTransaction(client, async (txClient) => {
+        const result = await txClient.query<TotpRow>(
+          `SELECT secret_encrypted, enabled_at, last_used_step
+           FROM operator_totp WHERE user_id = $1 AND enabled_at IS NOT NULL FOR UPDATE`,
+          [userId]
+        );
+        const row = result.rows[0];
+
+        if (!row) {
+          throw new TwoFactorError(
+            'Two-factor authentication is not enabled',
+            'TWO_FACTOR_DISABLED',
+            409
+          );
+        }
+
+        const step = this.matchUnusedStep(row, code);
+        if (step === null) {
+          throw new TwoFactorError('Invalid authentication code', 'INVALID_CODE');
+        }
+
+        await txClient.query(`UPDATE operator_totp SET last_used_step = $2 WHERE user_id = $1`, [
+          userId,
+          step,
+        ]);
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Time step of an app code, unless the code is wrong or its step was used
+   */
+  private matchUnusedStep(row: TotpRow, code: string): number | null {
+    const step = matchTotp(this.secretOf(row), code, Date.now() / 1000);
+    const lastUsedStep = row.last_used_step === null ? null : Number(row.last_used_step);
+    return step === null || (lastUsedStep !== null && step <= lastUsedStep) ? null : step;
+  }
+
+  private async replaceRecoveryCodes(client: PoolClient, userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = base32Encode(randomBytes(5)); // 8 characters
+      return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+    });
+
+    await client.query(`DELETE FROM operator_recovery_codes WHERE user_id = $1`, [userId]);
+    await client.query(
+      `INSERT INTO operator_recovery_codes (user_id, code_hash)
+       SELECT $1, UNNEST($2::text[])`,
+      [userId, codes.map((code) => this.hashRecoveryCode(code))]
+    );
+
+    return codes;
+  }
+
+  /**
+   * Recovery codes are compared without case and separators
+   */
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private secretOf(row: TotpRow): Buffer {
+    return base32Decode(this.decrypt(row.secret_encrypted));
+  }
+
+  /**
+   * AES-256-GCM, stored as "<iv>.<auth tag>.<ciphertext>" in base64url
+   */
+  private encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => part.toString('base64url'))
+      .join('.');
+  }
+
+  private decrypt(stored: string): string {
+    const [iv, tag, ciphertext] = stored.split('.').map((part) => Buffer.from(part, 'base64url'));
+    const decipher = createDecipheriv('aes-256-gcm', this.key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+}
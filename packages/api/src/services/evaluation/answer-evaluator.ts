@@ -0,0 +1,605 @@
+import { getLanguageRules, LanguageRules } from './language-rules';
+import {
+  countDiacritics,
+  foldDiacritics,
+  levenshteinDistance,
+  splitLetters,
+  stringSimilarity,
+} from './string-distance';
+
+/**
+ * Word-level diff types
+ */
+export type DiffType = 'correct' | 'substitution' | 'insertion' | 'deletion';
+
+/**
+ * Word-level difference for highlighting
+ */
+export interface WordDiff {
+  type: DiffType;
+  expected?: string;
+  actual?: string;
+  position: number; // Index of the word in the expected answer
+  accentPositions?: number[]; // Letters of the expected word with a diacritic mistake
+}
+
+/**
+ * Kind of mistake found in an answer
+ * - missing_accent: word is right but lacks a diacritic ("esta" for "está")
+ * - wrong_accent: word is right but has a wrong or extra diacritic
+ * - gender_ending: word has the wrong gender/number ending ("bonito" for "bonita")
+ * - article: article missing, extra or of the wrong form
+ * - typo: small spelling mistake
+ * - word_order: word is present but in the wrong place
+ * - missing_word / extra_word / wrong_word: everything else
+ */
+export type AnswerErrorType =
+  | 'missing_accent'
+  | 'wrong_accent'
+  | 'gender_ending'
+  | 'article'
+  | 'typo'
+  | 'word_order'
+  | 'missing_word'
+  | 'extra_word'
+  | 'wrong_word';
+
+/**
+ * A single diagnosed mistake
+ */
+export interface AnswerError {
+  type: AnswerErrorType;
+  expected?: string;
+  actual?: string;
+  position: number; // Index of the word in the expected answer
+  accentPositions?: number[]; // Letters of the expected word with a diacritic mistake
+}
+
+/**
+ * How diacritic mistakes are graded
+ * - strict: a missing or wrong diacritic makes the answer wrong
+ * - lenient: the answer is graded without diacritics, mistakes are still reported
+ * - ignore: diacritics are neither graded nor reported
+ */
+export type DiacriticStrictness = 'strict' | 'lenient' | 'ignore';
+
+/**
+ * A letter with a diacritic in the expected answer, and whether the learner wrote it
+ */
+export interface DiacriticCheck {
+  letter: string; // Expected letter with its diacritic, e.g. "ã"
+  word: string;
+  correct: boolean;
+}
+
+export interface EvaluateOptions {
+  diacritics?: DiacriticStrictness; // Defaults to 'strict'
+}
+
+/**
+ * Result of comparing an answer with the expected answer(s)
+ */
+export interface AnswerEvaluation {
+  /**
+   * Expected answer the learner's answer was closest to (null when none were given)
+   */
+  matchedAnswer: string | null;
+  normalizedAnswer: string;
+  normalizedExpected: string;
+  /**
+   * Identical after normalization, diacritics included unless ignored
+   */
+  isExact: boolean;
+  /**
+   * Character similarity in [0, 1], diacritic mistakes count as errors
+   */
+  similarity: number;
+  /**
+   * Character similarity in [0, 1] with diacritics ignored
+   */
+  spellingSimilarity: number;
+  /**
+   * Similarity to grade on: similarity when strict, spellingSimilarity otherwise
+   */
+  score: number;
+  /**
+   * Share of words in the right place, 1 - word edit distance / word count
+   */
+  wordAccuracy: number;
+  diff: WordDiff[];
+  errors: AnswerError[];
+  /**
+   * Diacritic letters of words the learner otherwise spelled right (empty when ignored)
+   */
+  diacriticChecks: DiacriticCheck[];
+}
+
+/**
+ * Typos are at most this many edits, and at most a third of the word
+ */
+const MAX_TYPO_DISTANCE = 2;
+
+/**
+ * Stems shorter than this are not checked for gender endings
+ */
+const MIN_GENDER_STEM_LENGTH = 2;
+
+/**
+ * Shared answer evaluation for all practice modes
+ *
+ * Answers are normalized the same way everywhere: case, whitespace,
+ * punctuation and quote styles are ignored, elided words are split off
+ * (Italian "l'acqua" → "l' acqua") and contractions are written in their
+ * contracted form ("de el" → "del"), so either spelling is accepted.
+ *
+ * Comparison yields two character similarities, with and without diacritics,
+ * and a score picked by the learner's diacritic strictness. Accent mistakes
+ * point at the exact letters (accentPositions) so they can be highlighted,
+ * and every diacritic letter of a correctly spelled word is reported as a
+ * DiacriticCheck for orthography tracking. The word-level
+ * alignment is then diagnosed into typed errors (missing accent, wrong gender
+ * ending, article, typo, word order, ...) that services use for feedback.
+ */
+export class AnswerEvaluator {
+  /**
+   * Normalize text for comparison
+   *
+   * @param text Raw answer text
+   * @param language Language code of the text (optional, enables language rules)
+   */
+  normalize(text: string, language?: string | null): string {
+    return this.tokenize(text, getLanguageRules(language)).join(' ');
+  }
+
+  /**
+   * Compare an answer with one or more acceptable answers
+   *
+   * The closest acceptable answer is diagnosed; an exact match always wins.
+   *
+   * @param answer Learner's answer
+   * @param expected Acceptable answer(s)
+   * @param language Language code of the answer (optional)
+   * @param options.diacritics How diacritic mistakes are graded (default 'strict')
+   */
+  evaluate(
+    answer: string,
+    expected: string | readonly string[],
+    language?: string | null,
+    options: EvaluateOptions = {}
+  ): AnswerEvaluation {
+    const strictness = options.diacritics ?? 'strict';
+    const rules = getLanguageRules(language);
+    const answerTokens = this.tokenize(answer, rules);
+    const normalizedAnswer = answerTokens.join(' ');
+    const candidates = typeof expected === 'string' ? [expected] : expected;
+
+    let best: {
+      candidate: string | null;
+      tokens: string[];
+      similarity: number;
+      spellingSimilarity: number;
+      score: number;
+    } = { candidate: null, tokens: [], similarity: 0, spellingSimilarity: 0, score: 0 };
+
+    for (const candidate of candidates) {
+      const tokens = this.tokenize(candidate, rules);
+      const normalizedCandidate = tokens.join(' ');
+      const similarity = stringSimilarity(normalizedAnswer, normalizedCandidate);
+      const spellingSimilarity = stringSimilarity(
+        foldDiacritics(normalizedAnswer),
+        foldDiacritics(normalizedCandidate)
+      );
+      const score = strictness === 'strict' ? similarity : spellingSimilarity;
+
+      if (
+        best.candidate === null ||
+        score > best.score ||
+        (score === best.score && similarity > best.similarity)
+      ) {
+        best = { candidate, tokens, similarity, spellingSimilarity, score };
+      }
+
+      if (similarity === 1) break;
+    }
+
+    if (best.candidate === null) {
+      return {
+        matchedAnswer: null,
+        normalizedAnswer,
+        normalizedExpected: '',
+        isExact: false,
+        similarity: 0,
+        spellingSimilarity: 0,
+        score: 0,
+        wordAccuracy: 0,
+        diff: [],
+        errors: [],
+        diacriticChecks: [],
+      };
+    }
+
+    const ignoreDiacritics = strictness === 'ignore';
+    const { wordAccuracy, diff } = this.alignWords(answerTokens, best.tokens, ignoreDiacritics);
+
+    return {
+      matchedAnswer: best.candidate,
+      normalizedAnswer,
+      normalizedExpected: best.tokens.join(' '),
+      isExact: best.score === 1 && (ignoreDiacritics || best.similarity === 1),
+      similarity: best.similarity,
+      spellingSimilarity: best.spellingSimilarity,
+      score: best.score,
+      wordAccuracy,
+      diff,
+      errors: this.diagnose(diff, rules),
+      diacriticChecks: ignoreDiacritics ? [] : this.checkDiacritics(diff),
+    };
+  }
+
+  /**
+   * Feedback sentence describing the diagnosed errors, empty when there are none
+   *
+   * @param errors Diagnosed errors
+   * @param limit Maximum number of errors to mention
+   */
+  describe(errors: readonly AnswerError[], limit: number = 3): string {
+    const sentences = errors.slice(0, limit).map((error) => this.describeError(error));
+    const remaining = errors.length - limit;
+
+    if (remaining > 0) {
+      sentences.push(`${remaining} more mistake${remaining === 1 ? '' : 's'}.`);
+    }
+
+    return sentences.join(' ');
+  }
+
+  private describeError(error: AnswerError): string {
+    switch (error.type) {
+      case 'missing_accent':
+        return `Missing accent: "${error.expected}".`;
+      case 'wrong_accent':
+        return `Check the accent on "${error.expected}".`;
+      case 'gender_ending':
+        return `Check the ending of "${error.expected}" (gender/number agreement).`;
+      case 'article':
+        if (!error.actual) return `Missing article "${error.expected}".`;
+        if (!error.expected) return `Unexpected article "${error.actual}".`;
+        return `Wrong article: "${error.expected}", not "${error.actual}".`;
+      case 'typo':
+        return `Spelling: "${error.expected}", not "${error.actual}".`;
+      case 'word_order':
+        return `"${error.expected}" is in the wrong place.`;
+      case 'missing_word':
+        return `Missing word "${error.expected}".`;
+      case 'extra_word':
+        return `Unexpected word "${error.actual}".`;
+      case 'wrong_word':
+        return `"${error.actual}" should be "${error.expected}".`;
+      default: {
+        const exhaustiveCheck: never = error.type;
+        throw new Error(`Unknown answer error type: ${String(exhaustiveCheck)}`);
+      }
+    }
+  }
+
+  /**
+   * Split normalized text into words, applying elision and contraction rules
+   */
+  private tokenize(text: string, rules: LanguageRules): string[] {
+    const words = text
+      .normalize('NFC')
+      .toLowerCase()
+      .replace(/[’‘ʼ`´]/g, "'")
+      .replace(/[.,!?¡¿;:"«»“”„()[\]…–—]/g, ' ')
+      .split(/\s+/)
+      .flatMap((word) => this.splitWord(word, rules))
+      .filter((word) => word.length > 0);
+
+    return this.contract(words, rules);
+  }
+
+  /**
+   * Strip quote marks around a word and split off elided words
+   */
+  private splitWord(word: string, rules: LanguageRules): string[] {
+    let trimmed = word.replace(/^'+/, '');
+
+    if (!rules.splitsElision) {
+      trimmed = trimmed.replace(/'+$/, '');
+      return [trimmed];
+    }
+
+    const parts: string[] = [];
+    let match = trimmed.match(/^([^']+')(.+)$/);
+
+    while (match) {
+      parts.push(match[1]);
+      trimmed = match[2];
+      match = trimmed.match(/^([^']+')(.+)$/);
+    }
+
+    parts.push(trimmed);
+    return parts;
+  }
+
+  /**
+   * Replace expanded word sequences with their contraction
+   */
+  private contract(words: string[], rules: LanguageRules): string[] {
+    if (rules.contractions.length === 0) {
+      return words;
+    }
+
+    const result: string[] = [];
+    let index = 0;
+
+    while (index < words.length) {
+      const contraction = rules.contractions.find(([expanded]) => {
+        const parts = expanded.split(' ');
+        return parts.every((part, offset) => words[index + offset] === part);
+      });
+
+      if (contraction) {
+        result.push(contraction[1]);
+        index += contraction[0].split(' ').length;
+      } else {
+        result.push(words[index]);
+        index++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Align answer words with expected words (edit distance over words)
+   */
+  private alignWords(
+    actualWords: string[],
+    expectedWords: string[],
+    ignoreDiacritics: boolean
+  ): { wordAccuracy: number; diff: WordDiff[] } {
+    // Words are compared folded when diacritics are ignored, but reported as written
+    const fold = (word: string) => (ignoreDiacritics ? foldDiacritics(word) : word);
+    const actual = actualWords.map(fold);
+    const expected = expectedWords.map(fold);
+    const m = actual.length;
+    const n = expected.length;
+
+    const dp: number[][] = [];
+    for (let i = 0; i <= m; i++) {
+      dp[i] = new Array<number>(n + 1).fill(0);
+    }
+
+    for (let i = 0; i <= m; i++) dp[i][0] = i;
+    for (let j = 0; j <= n; j++) dp[0][j] = j;
+
+    for (let i = 1; i <= m; i++) {
+      for (let j = 1; j <= n; j++) {
+        if (actual[i - 1] === expected[j - 1]) {
+          dp[i][j] = dp[i - 1][j - 1];
+        } else {
+          dp[i][j] = 1 + Math.min(dp[i - 1][j - 1], dp[i - 1][j], dp[i][j - 1]);
+        }
+      }
+    }
+
+    const maxWords = Math.max(m, n);
+    const wordAccuracy = maxWords === 0 ? 1.0 : Math.max(0, 1 - dp[m][n] / maxWords);
+
+    // Backtrack to generate diff
+    const diff: WordDiff[] = [];
+    let i = m;
+    let j = n;
+
+    while (i > 0 || j > 0) {
+      if (i > 0 && j > 0 && actual[i - 1] === expected[j - 1]) {
+        diff.unshift({
+          type: 'correct',
+          expected: expectedWords[j - 1],
+          actual: actualWords[i - 1],
+          position: j - 1,
+        });
+        i--;
+        j--;
+      } else if (i > 0 && j > 0 && dp[i][j] === dp[i - 1][j - 1] + 1) {
+        const accentPositions = this.findAccentMistakes(expectedWords[j - 1], actualWords[i - 1]);
+
+        diff.unshift({
+          type: 'substitution',
+          expected: expectedWords[j - 1],
+          actual: actualWords[i - 1],
+          position: j - 1,
+          ...(accentPositions && { accentPositions }),
+        });
+        i--;
+        j--;
+      } else if (i > 0 && dp[i][j] === dp[i - 1][j] + 1) {
+        diff.unshift({ type: 'insertion', actual: actualWords[i - 1], position: j });
+        i--;
+      } else {
+        diff.unshift({ type: 'deletion', expected: expectedWords[j - 1], position: j - 1 });
+        j--;
+      }
+    }
+
+    return { wordAccuracy, diff };
+  }
+
+  /**
+   * Turn a word diff into typed errors
+   *
+   * A word missing in one place and added in another is reported once as a
+   * word order error; swapped neighbours align as two substitutions and are
+   * reported once as well.
+   */
+  private diagnose(diff: WordDiff[], rules: LanguageRules): AnswerError[] {
+    const errors: AnswerError[] = [];
+    const misplaced = this.findMisplacedWords(diff);
+    const reported = new Set<string>();
+
+    for (const { type, expected, actual, position, accentPositions } of diff) {
+      if (type === 'correct') {
+        continue;
+      }
+
+      if (type === 'insertion') {
+        if (!misplaced.has(foldDiacritics(actual!))) {
+          const errorType = rules.articles.includes(actual!) ? 'article' : 'extra_word';
+          errors.push({ type: errorType, actual, position });
+        }
+        continue;
+      }
+
+      const expectedWord = foldDiacritics(expected!);
+
+      if (misplaced.has(expectedWord)) {
+        if (!reported.has(expectedWord)) {
+          errors.push({ type: 'word_order', expected, actual: expected, position });
+        }
+        reported.add(expectedWord);
+        if (actual) reported.add(foldDiacritics(actual));
+      } else if (type === 'deletion' || misplaced.has(foldDiacritics(actual!))) {
+        const errorType = rules.articles.includes(expected!) ? 'article' : 'missing_word';
+        errors.push({ type: errorType, expected, position });
+      } else if (accentPositions) {
+        errors.push({
+          type:
+            countDiacritics(actual!) < countDiacritics(expected!)
+              ? 'missing_accent'
+              : 'wrong_accent',
+          expected,
+          actual,
+          position,
+          accentPositions,
+        });
+      } else {
+        errors.push({
+          type: this.classifySubstitution(expected!, actual!, rules),
+          expected,
+          actual,
+          position,
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Letters of the expected word whose diacritics differ from the answer,
+   * or undefined if the words differ by more than diacritics
+   */
+  private findAccentMistakes(expected: string, actual: string): number[] | undefined {
+    if (foldDiacritics(expected) !== foldDiacritics(actual)) {
+      return undefined;
+    }
+
+    const expectedLetters = splitLetters(expected);
+    const actualLetters = splitLetters(actual);
+
+    if (expectedLetters.length !== actualLetters.length) {
+      return undefined;
+    }
+
+    const positions = expectedLetters
+      .map((letter, index) => (letter === actualLetters[index] ? -1 : index))
+      .filter((index) => index >= 0);
+
+    return positions.length > 0 ? positions : undefined;
+  }
+
+  /**
+   * Diacritic letters of correct words and of words with only accent mistakes
+   */
+  private checkDiacritics(diff: WordDiff[]): DiacriticCheck[] {
+    const checks: DiacriticCheck[] = [];
+
+    for (const { type, expected, actual, accentPositions } of diff) {
+      if (type !== 'correct' && !accentPositions) {
+        continue;
+      }
+
+      const expectedLetters = splitLetters(expected!);
+      const actualLetters = splitLetters(actual!);
+
+      expectedLetters.forEach((letter, index) => {
+        if (countDiacritics(letter) > 0) {
+          checks.push({ letter, word: expected!, correct: letter === actualLetters[index] });
+        }
+      });
+    }
+
+    return checks;
+  }
+
+  /**
+   * Words both missing from one place and added in another
+   */
+  private findMisplacedWords(diff: WordDiff[]): Set<string> {
+    // Accent-only substitutions are in the right place
+    const changes = diff.filter(
+      (entry) =>
+        entry.type === 'deletion' ||
+        entry.type === 'insertion' ||
+        (entry.type === 'substitution' &&
+          foldDiacritics(entry.expected!) !== foldDiacritics(entry.actual!))
+    );
+    const missing = new Set(
+      changes
+        .filter((entry) => entry.type !== 'insertion')
+        .map((entry) => foldDiacritics(entry.expected!))
+    );
+
+    return new Set(
+      changes
+        .filter((entry) => entry.type !== 'deletion')
+        .map((entry) => foldDiacritics(entry.actual!))
+        .filter((word) => missing.has(word))
+    );
+  }
+
+  private classifySubstitution(
+    expected: string,
+    actual: string,
+    rules: LanguageRules
+  ): AnswerErrorType {
+    if (rules.articles.includes(expected) && rules.articles.includes(actual)) {
+      return 'article';
+    }
+
+    if (this.isGenderEndingMismatch(expected, actual, rules)) {
+      return 'gender_ending';
+    }
+
+    const distance = levenshteinDistance(foldDiacritics(expected), foldDiacritics(actual));
+    const maxLength = Math.max(expected.length, actual.length);
+
+    if (distance <= MAX_TYPO_DISTANCE && distance <= Math.floor(maxLength / 3)) {
+      return 'typo';
+    }
+
+    return 'wrong_word';
+  }
+
+  /**
+   * Same stem, different endings from one gender/number group ("bonito"/"bonita")
+   */
+  private isGenderEndingMismatch(expected: string, actual: string, rules: LanguageRules): boolean {
+    return rules.genderEndings.some((group) =>
+      group.some((expectedEnding) =>
+        group.some((actualEnding) => {
+          if (expectedEnding === actualEnding) return false;
+          if (!expected.endsWith(expectedEnding) || !actual.endsWith(actualEnding)) return false;
+
+          const stem = expected.slice(0, expected.length - expectedEnding.length);
+
+          return (
+            stem.length >= MIN_GENDER_STEM_LENGTH &&
+            stem === actual.slice(0, actual.length - actualEnding.length)
+          );
+        })
+      )
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { Pool } from 'pg';
+import { DiacriticCheck, DiacriticStrictness } from './answer-evaluator';
+
+const STRICTNESS_LEVELS: readonly DiacriticStrictness[] = ['strict', 'lenient', 'ignore'];
+
+/**
+ * Per-user diacritic grading and orthography tracking
+ *
+ * The strictness is stored in user_preferences.settings (diacriticStrictness)
+ * and passed to AnswerEvaluator by every graded practice mode. Each diacritic
+ * letter the learner was expected to write is logged in
+ * user_diacritic_attempts, which WeaknessIdentificationService aggregates
+ * into the orthography weakness category.
+ */
+export class DiacriticService {
+  public static readonly DEFAULT_STRICTNESS: DiacriticStrictness = 'lenient';
+
+  constructor(private readonly pool: Pool) {}
+
+  /**
+   * Get a user's diacritic strictness (default when unset)
+   */
+  async getStrictness(userId: string): Promise<DiacriticStrictness> {
+    const result = await this.pool.query<{ strictness: string | null }>(
+      `SELECT settings->>'diacriticStrictness' as strictness
+       FROM user_preferences
+       WHERE user_id = $1`,
+      [userId]
+    );
+
+    const strictness = result.rows[0]?.strictness;
+
+    return (
+      STRICTNESS_LEVELS.find((level) => level === strictness) ?? DiacriticService.DEFAULT_STRICTNESS
+    );
+  }
+
+  /**
+   * Set a user's diacritic strictness
+   */
+  async setStrictness(userId: string, strictness: DiacriticStrictness): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO user_preferences (user_id, studied_languages, focus_mode_enabled, onboarding_completed, settings, updated_at)
+       VALUES ($1, '[]'::jsonb, false, false,
+               jsonb_build_object('diacriticStrictness', $2::text),
+               CURRENT_TIMESTAMP)
+       ON CONFLICT (user_id) DO UPDATE SET
+         settings = COALESCE(user_preferences.settings, '{}'::jsonb)
+           || jsonb_build_object('diacriticStrictness', $2::text),
+         updated_at = CURRENT_TIMESTAMP`,
+      [userId, strictness]
+    );
+  }
+
+  /**
+   * Log the diacritic letters of an answer
+   *
+   * @param language Language of the answer; nothing is logged without one
+   * @param checks Diacritic checks from the answer evaluation
+   */
+  async recordChecks(
+    userId: string,
+    language: string | null | undefined,
+    checks: readonly DiacriticCheck[]
+  ): Promise<void> {
+    if (!language || checks.length === 0) {
+      return;
+    }
+
+    await this.pool.query(
+      `INSERT INTO user_diacritic_attempts (user_id, language, letter, word, correct, created_at)
+       SELECT $1, $2, letter, word, correct, CURRENT_TIMESTAMP
+       FROM unnest($3::text[], $4::text[], $5::boolean[]) AS t(letter, word, correct)`,
+      [
+        userId,
+        language,
+        checks.map((check) => check.letter),
+        checks.map((check) => check.word),
+        checks.map((check) => check.correct),
+      ]
+    );
+  }
+}
@@ -0,0 +1,28 @@
+export { AnswerEvaluator } from './answer-evaluator';
+export { DiacriticService } from './diacritic.service';
+export { ProductionGrader } from './production-grader';
+export type {
+  GradeOptions,
+  GrammarPatternRule,
+  ProductionGrade,
+  RuleCheck,
+} from './production-grader';
+export type {
+  AnswerError,
+  AnswerErrorType,
+  AnswerEvaluation,
+  DiacriticCheck,
+  DiacriticStrictness,
+  DiffType,
+  EvaluateOptions,
+  WordDiff,
+} from './answer-evaluator';
+export { getLanguageRules, GENERIC_RULES } from './language-rules';
+export type { LanguageRules } from './language-rules';
+export {
+  levenshteinDistance,
+  stringSimilarity,
+  foldDiacritics,
+  countDiacritics,
+  splitLetters,
+} from './string-distance';
@@ -0,0 +1,171 @@
+/**
+ * Language-specific knowledge used to normalize and diagnose answers
+ */
+export interface LanguageRules {
+  /**
+   * Definite and indefinite articles, including elided forms ("l'")
+   */
+  articles: readonly string[];
+
+  /**
+   * Word sequences and the contraction they are written as, e.g. "de el" → "del".
+   * Answers are compared in contracted form, so both spellings are accepted.
+   */
+  contractions: ReadonlyArray<readonly [expanded: string, contracted: string]>;
+
+  /**
+   * Groups of interchangeable gender/number endings; two words sharing a stem
+   * and differing only by endings of the same group are an agreement error
+   */
+  genderEndings: ReadonlyArray<readonly string[]>;
+
+  /**
+   * Whether elided words are written attached ("l'acqua") and split into
+   * their own token ("l'", "acqua")
+   */
+  splitsElision: boolean;
+}
+
+const SPANISH: LanguageRules = {
+  articles: ['el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas'],
+  contractions: [
+    ['a el', 'al'],
+    ['de el', 'del'],
+  ],
+  genderEndings: [
+    ['o', 'a'],
+    ['os', 'as'],
+  ],
+  splitsElision: false,
+};
+
+const ITALIAN: LanguageRules = {
+  articles: ['il', 'lo', 'la', "l'", 'i', 'gli', 'le', 'un', 'uno', 'una', "un'"],
+  contractions: [
+    ['di il', 'del'],
+    ['di lo', 'dello'],
+    ['di la', 'della'],
+    ["di l'", "dell'"],
+    ['di i', 'dei'],
+    ['di gli', 'degli'],
+    ['di le', 'delle'],
+    ['a il', 'al'],
+    ['a lo', 'allo'],
+    ['a la', 'alla'],
+    ["a l'", "all'"],
+    ['a i', 'ai'],
+    ['a gli', 'agli'],
+    ['a le', 'alle'],
+    ['da il', 'dal'],
+    ['da la', 'dalla'],
+    ["da l'", "dall'"],
+    ['in il', 'nel'],
+    ['in la', 'nella'],
+    ["in l'", "nell'"],
+    ['in i', 'nei'],
+    ['in le', 'nelle'],
+    ['su il', 'sul'],
+    ['su la', 'sulla'],
+    ["su l'", "sull'"],
+  ],
+  genderEndings: [['o', 'a', 'i', 'e']],
+  splitsElision: true,
+};
+
+const PORTUGUESE: LanguageRules = {
+  articles: ['o', 'a', 'os', 'as', 'um', 'uma', 'uns', 'umas'],
+  contractions: [
+    ['de o', 'do'],
+    ['de a', 'da'],
+    ['de os', 'dos'],
+    ['de as', 'das'],
+    ['em o', 'no'],
+    ['em a', 'na'],
+    ['em os', 'nos'],
+    ['em as', 'nas'],
+    ['em um', 'num'],
+    ['em uma', 'numa'],
+    ['por o', 'pelo'],
+    ['por a', 'pela'],
+    ['por os', 'pelos'],
+    ['por as', 'pelas'],
+    ['a a', 'à'],
+    ['a as', 'às'],
+    ['a o', 'ao'],
+    ['a os', 'aos'],
+  ],
+  genderEndings: [
+    ['o', 'a'],
+    ['os', 'as'],
+  ],
+  splitsElision: false,
+};
+
+const SLOVENE: LanguageRules = {
+  // Slovene has no articles
+  articles: [],
+  contractions: [],
+  // Adjective endings: masculine (none), feminine, neuter, plurals
+  genderEndings: [['', 'a', 'o', 'i', 'e']],
+  splitsElision: false,
+};
+
+const ENGLISH: LanguageRules = {
+  articles: ['the', 'a', 'an'],
+  contractions: [
+    ['do not', "don't"],
+    ['does not', "doesn't"],
+    ['did not', "didn't"],
+    ['is not', "isn't"],
+    ['are not', "aren't"],
+    ['was not', "wasn't"],
+    ['were not', "weren't"],
+    ['have not', "haven't"],
+    ['has not', "hasn't"],
+    ['can not', "can't"],
+    ['cannot', "can't"],
+    ['will not', "won't"],
+    ['would not', "wouldn't"],
+    ['should not', "shouldn't"],
+    ['i am', "i'm"],
+    ['you are', "you're"],
+    ['we are', "we're"],
+    ['they are', "they're"],
+    ['it is', "it's"],
+    ['that is', "that's"],
+    ['there is', "there's"],
+    ['i have', "i've"],
+    ['i will', "i'll"],
+  ],
+  genderEndings: [],
+  splitsElision: false,
+};
+
+/**
+ * Rules for answers in an unknown or unsupported language
+ */
+export const GENERIC_RULES: LanguageRules = {
+  articles: [],
+  contractions: [],
+  genderEndings: [],
+  splitsElision: false,
+};
+
+const RULES_BY_LANGUAGE: Record<string, LanguageRules> = {
+  ES: SPANISH,
+  IT: ITALIAN,
+  PT: PORTUGUESE,
+  SL: SLOVENE,
+  EN: ENGLISH,
+};
+
+/**
+ * Get the rules for a language code (case-insensitive, region ignored: "pt-BR" → PT)
+ */
+export function getLanguageRules(language?: string | null): LanguageRules {
+  if (!language) {
+    return GENERIC_RULES;
+  }
+
+  return RULES_BY_LANGUAGE[language.slice(0, 2).toUpperCase()] ?? GENERIC_RULES;
+}
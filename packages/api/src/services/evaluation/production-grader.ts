@@ -0,0 +1,253 @@
+import { AnswerError, AnswerEvaluator, DiacriticStrictness, WordDiff } from './answer-evaluator';
+import { getLanguageRules, LanguageRules } from './language-rules';
+import { foldDiacritics } from './string-distance';
+
+/**
+ * Grammar rule whose answer patterns are checked in free-text answers
+ */
+export interface GrammarPatternRule {
+  ruleId: string;
+  title: string;
+  /**
+   * Regular expression sources, matched case-insensitively against the
+   * normalized answer. A rule applies when one of its patterns matches the
+   * expected answer, and is followed when that pattern matches the learner's.
+   */
+  patterns: readonly string[];
+}
+
+/**
+ * Outcome of one grammar rule check
+ */
+export interface RuleCheck {
+  ruleId: string;
+  title: string;
+  passed: boolean;
+}
+
+/**
+ * Automatic grade of a free-text production answer
+ */
+export interface ProductionGrade {
+  /**
+   * Weighted score in [0, 1]
+   */
+  score: number;
+  qualityRating: number;
+  isCorrect: boolean;
+  matchedAnswer: string | null;
+  /**
+   * Share of the expected answer's lemmas found in the answer, in any order
+   */
+  lemmaOverlap: number;
+  /**
+   * Share of the expected answer's content words found in the answer
+   */
+  keywordCoverage: number;
+  missingKeywords: string[];
+  ruleChecks: RuleCheck[];
+  diff: WordDiff[];
+  errors: AnswerError[];
+  feedback: string;
+}
+
+export interface GradeOptions {
+  rules?: readonly GrammarPatternRule[];
+  diacritics?: DiacriticStrictness;
+}
+
+const LEMMA_WEIGHT = 0.4;
+const KEYWORD_WEIGHT = 0.4;
+const RULE_WEIGHT = 0.2;
+
+/**
+ * Lemma overlap ignores word order and spelling of endings, so only an
+ * exact answer gets full marks
+ */
+const MAX_INEXACT_SCORE = 0.9;
+
+/**
+ * Words of at most this many letters are function words, not keywords
+ */
+const MAX_FUNCTION_WORD_LENGTH = 2;
+
+/**
+ * Lemmas shorter than this keep their gender/number ending
+ */
+const MIN_LEMMA_STEM_LENGTH = 2;
+
+/**
+ * Grades free-text production answers without a language model
+ *
+ * The answer is compared with the closest approved utterance on three
+ * signals: lemma overlap (words reduced to a diacritic-free stem without
+ * gender/number ending, so "bonitas" matches "bonito"), coverage of the
+ * expected content words, and the answer patterns of grammar rules that
+ * apply to the expected answer. The word diff and diagnosed errors of the
+ * shared AnswerEvaluator explain the grade.
+ */
+export class ProductionGrader {
+  private readonly evaluator = new AnswerEvaluator();
+
+  grade(
+    answer: string,
+    expected: readonly string[],
+    language?: string | null,
+    options: GradeOptions = {}
+  ): ProductionGrade {
+    const languageRules = getLanguageRules(language);
+    const evaluation = this.evaluator.evaluate(answer, expected, language, {
+      diacritics: options.diacritics,
+    });
+
+    const answerWords = this.words(evaluation.normalizedAnswer);
+    const expectedWords = this.words(evaluation.normalizedExpected);
+    const answerLemmas = new Set(answerWords.map((word) => this.lemma(word, languageRules)));
+
+    const lemmaOverlap = this.coverage(
+      expectedWords.map((word) => this.lemma(word, languageRules)),
+      answerLemmas
+    );
+
+    const keywords = expectedWords.filter((word) => this.isKeyword(word, languageRules));
+    const missingKeywords = keywords.filter(
+      (word) => !answerLemmas.has(this.lemma(word, languageRules))
+    );
+    const keywordCoverage =
+      keywords.length === 0 ? lemmaOverlap : 1 - missingKeywords.length / keywords.length;
+
+    const ruleChecks = this.checkRules(
+      evaluation.normalizedAnswer,
+      evaluation.normalizedExpected,
+      options.rules ?? []
+    );
+    const ruleScore =
+      ruleChecks.length === 0
+        ? 1
+        : ruleChecks.filter((check) => check.passed).length / ruleChecks.length;
+
+    const weighted =
+      LEMMA_WEIGHT * lemmaOverlap + KEYWORD_WEIGHT * keywordCoverage + RULE_WEIGHT * ruleScore;
+    const score = evaluation.isExact
+      ? 1
+      : Math.min(MAX_INEXACT_SCORE, Math.round(weighted * 100) / 100);
+    const qualityRating = this.scoreToQuality(score);
+
+    return {
+      score,
+      qualityRating,
+      isCorrect: qualityRating >= 3,
+      matchedAnswer: evaluation.matchedAnswer,
+      lemmaOverlap,
+      keywordCoverage,
+      missingKeywords,
+      ruleChecks,
+      diff: evaluation.diff,
+      errors: evaluation.errors,
+      feedback: this.feedback(score, missingKeywords, ruleChecks, evaluation.errors),
+    };
+  }
+
+  /**
+   * Convert a score to SRS quality (0-5), on the same bands as translation
+   */
+  scoreToQuality(score: number): number {
+    if (score >= 0.95) return 5;
+    if (score >= 0.85) return 4;
+    if (score >= 0.7) return 3;
+    if (score >= 0.5) return 2;
+    return 0;
+  }
+
+  private words(normalized: string): string[] {
+    return normalized.length === 0 ? [] : normalized.split(' ');
+  }
+
+  /**
+   * Approximate lemma: diacritics folded and the longest gender/number
+   * ending of the language removed
+   */
+  private lemma(word: string, rules: LanguageRules): string {
+    const folded = foldDiacritics(word);
+    const ending = rules.genderEndings
+      .flat()
+      .filter(
+        (candidate) =>
+          folded.endsWith(candidate) && folded.length - candidate.length >= MIN_LEMMA_STEM_LENGTH
+      )
+      .sort((a, b) => b.length - a.length)[0];
+
+    return ending ? folded.slice(0, -ending.length) : folded;
+  }
+
+  private isKeyword(word: string, rules: LanguageRules): boolean {
+    return !rules.articles.includes(word) && Array.from(word).length > MAX_FUNCTION_WORD_LENGTH;
+  }
+
+  private coverage(expected: string[], found: Set<string>): number {
+    if (expected.length === 0) {
+      return 0;
+    }
+    return expected.filter((lemma) => found.has(lemma)).length / expected.length;
+  }
+
+  private checkRules(
+    answer: string,
+    expected: string,
+    rules: readonly GrammarPatternRule[]
+  ): RuleCheck[] {
+    const checks: RuleCheck[] = [];
+
+    for (const rule of rules) {
+      const applicable = rule.patterns
+        .map((source) => this.compile(source))
+        .filter((pattern): pattern is RegExp => pattern !== null && pattern.test(expected));
+
+      if (applicable.length > 0) {
+        checks.push({
+          ruleId: rule.ruleId,
+          title: rule.title,
+          passed: applicable.some((pattern) => pattern.test(answer)),
+        });
+      }
+    }
+
+    return checks;
+  }
+
+  /**
+   * Compile a rule pattern; malformed patterns in rule data are skipped
+   */
+  private compile(source: string): RegExp | null {
+    try {
+      return new RegExp(source, 'iu');
+    } catch {
+      return null;
+    }
+  }
+
+  private feedback(
+    score: number,
+    missingKeywords: string[],
+    ruleChecks: RuleCheck[],
+    errors: AnswerError[]
+  ): string {
+    if (score === 1) {
+      return 'Perfect!';
+    }
+
+    const sentences: string[] = [];
+    if (missingKeywords.length > 0) {
+      sentences.push(`Missing: ${missingKeywords.map((word) => `"${word}"`).join(', ')}.`);
+    }
+    for (const check of ruleChecks.filter((ruleCheck) => !ruleCheck.passed)) {
+      sentences.push(`Check the rule "${check.title}".`);
+    }
+    const described = this.evaluator.describe(errors);
+    if (described) {
+      sentences.push(described);
+    }
+
+    return sentences.length > 0 ? sentences.join(' ') : 'Almost there!';
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Levenshtein edit distance between two strings or token sequences
+ *
+ * Substitutions, insertions and deletions all cost 1.
+ */
+export function levenshteinDistance(
+  a: string | readonly string[],
+  b: string | readonly string[]
+): number {
+  const matrix: number[][] = [];
+
+  for (let i = 0; i <= b.length; i++) {
+    matrix[i] = [i];
+  }
+
+  for (let j = 0; j <= a.length; j++) {
+    matrix[0][j] = j;
+  }
+
+  for (let i = 1; i <= b.length; i++) {
+    for (let j = 1; j <= a.length; j++) {
+      if (b[i - 1] === a[j - 1]) {
+        matrix[i][j] = matrix[i - 1][j - 1];
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + 1, // substitution
+          matrix[i][j - 1] + 1, // insertion
+          matrix[i - 1][j] + 1 // deletion
+        );
+      }
+    }
+  }
+
+  return matrix[b.length][a.length];
+}
+
+/**
+ * Similarity between two strings in [0, 1], 1 - distance / longer length
+ */
+export function stringSimilarity(a: string, b: string): number {
+  if (a === b) return 1.0;
+
+  const maxLength = Math.max(a.length, b.length);
+
+  if (maxLength === 0) return 1.0;
+
+  return Math.max(0, 1 - levenshteinDistance(a, b) / maxLength);
+}
+
+/**
+ * Strip diacritics, keeping the base letters (á → a, ã → a, č → c, ñ → n)
+ */
+export function foldDiacritics(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC');
+}
+
+/**
+ * Number of diacritic marks in a string
+ */
+export function countDiacritics(text: string): number {
+  return text.normalize('NFD').match(/\p{M}/gu)?.length ?? 0;
+}
+
+/**
+ * Split a word into letters, each with its diacritics attached ("ação" → a, ç, ã, o)
+ */
+export function splitLetters(word: string): string[] {
+  return (word.normalize('NFD').match(/\P{M}\p{M}*/gu) ?? []).map((letter) =>
+    letter.normalize('NFC')
+  );
+}
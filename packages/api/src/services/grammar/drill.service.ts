@@ -0,0 +1,331 @@
+import { InflectedForm, LanguageParadigms, ParadigmEngine } from './paradigms';
+import { ExerciseType, GrammarExercise } from './exercise.service';
+
+class DrillError extends Error {
+  statusCode: number;
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'DrillError';
+    this.statusCode = statusCode;
+  }
+}
+
+export type DrillKind = 'conjugation' | 'declension';
+
+export type DrillExerciseType = Extract<ExerciseType, 'fill_blank' | 'transformation'>;
+
+export interface DrillOptions {
+  limit?: number;
+  exerciseType?: DrillExerciseType;
+  /**
+   * Only drill this tense (conjugation) or case (declension)
+   */
+  focus?: string;
+}
+
+/**
+ * A drill resolved from its id, for validation and hints
+ */
+export interface ResolvedDrill {
+  exercise: GrammarExercise;
+  language: string;
+  kind: DrillKind;
+}
+
+const DRILL_ID_PREFIX = 'paradigm';
+const BLANK = '_____';
+const REGULAR_DIFFICULTY = 2;
+const IRREGULAR_DIFFICULTY = 4;
+
+/**
+ * Drill ids are self-describing so drills need no storage:
+ * paradigm:<language>:<kind>:<lemma>:<tense|case>:<person|number>:<type>[:<source tense|number>]
+ */
+export function isDrillId(exerciseId: string): boolean {
+  return exerciseId.startsWith(`${DRILL_ID_PREFIX}:`);
+}
+
+interface DrillCell {
+  language: string;
+  kind: DrillKind;
+  lemma: string;
+  /**
+   * Tense of a conjugation drill, case of a declension drill
+   */
+  slot: string;
+  /**
+   * Person of a conjugation drill, number of a declension drill
+   */
+  cell: string;
+  exerciseType: DrillExerciseType;
+  /**
+   * Tense or number the transformation starts from
+   */
+  source?: string;
+}
+
+/**
+ * ParadigmDrillService generates conjugation and declension drills on
+ * demand from the paradigm tables
+ *
+ * Conjugation drills pick person × tense × verb, declension drills
+ * case × number × noun. Fill-blank drills ask for one form; transformation
+ * drills give a form and ask for another tense (or number) of it.
+ */
+export class ParadigmDrillService {
+  constructor(
+    private readonly engine: ParadigmEngine = new ParadigmEngine(),
+    private readonly random: () => number = Math.random
+  ) {}
+
+  generate(language: string, kind: DrillKind, options: DrillOptions = {}): GrammarExercise[] {
+    const paradigms = this.engine.getParadigms(language);
+    if (!paradigms) {
+      throw new DrillError(`No paradigm tables for language ${language}`, 404);
+    }
+
+    const cells = this.shuffle(this.listCells(paradigms, kind, options));
+    const exercises: GrammarExercise[] = [];
+
+    for (const cell of cells) {
+      if (exercises.length >= (options.limit ?? 10)) {
+        break;
+      }
+      const exercise = this.buildExercise(paradigms, cell);
+      if (exercise) {
+        exercises.push(exercise);
+      }
+    }
+
+    return exercises;
+  }
+
+  /**
+   * Rebuild a drill from its id; null when the id is not a valid drill
+   */
+  resolve(drillId: string): ResolvedDrill | null {
+    const cell = this.parseId(drillId);
+    const paradigms = cell ? this.engine.getParadigms(cell.language) : null;
+    const exercise = cell && paradigms ? this.buildExercise(paradigms, cell) : null;
+
+    return cell && exercise ? { exercise, language: cell.language, kind: cell.kind } : null;
+  }
+
+  private listCells(
+    paradigms: LanguageParadigms,
+    kind: DrillKind,
+    options: DrillOptions
+  ): DrillCell[] {
+    const types: DrillExerciseType[] = options.exerciseType
+      ? [options.exerciseType]
+      : ['fill_blank', 'transformation'];
+    const [lemmas, slots, cellIds, sources] =
+      kind === 'conjugation'
+        ? [
+            paradigms.verbs.map((verb) => verb.lemma),
+            paradigms.tenses.map((tense) => tense.id),
+            paradigms.persons.map((person) => person.id),
+            paradigms.tenses.map((tense) => tense.id),
+          ]
+        : [
+            paradigms.nouns.map((noun) => noun.lemma),
+            paradigms.cases.map((grammaticalCase) => grammaticalCase.id),
+            paradigms.numbers.map((number) => number.id),
+            paradigms.numbers.map((number) => number.id),
+          ];
+
+    if (options.focus && !slots.includes(options.focus)) {
+      throw new DrillError(
+        `Unknown ${kind === 'conjugation' ? 'tense' : 'case'}: ${options.focus}`
+      );
+    }
+
+    const cells: DrillCell[] = [];
+    for (const lemma of lemmas) {
+      for (const slot of options.focus ? [options.focus] : slots) {
+        for (const cell of cellIds) {
+          for (const exerciseType of types) {
+            const base = { language: paradigms.language, kind, lemma, slot, cell, exerciseType };
+            if (exerciseType === 'fill_blank') {
+              cells.push(base);
+              continue;
+            }
+            // Transform from one random other tense (or number) of the same form
+            const others = sources.filter((source) =>
+              kind === 'conjugation' ? source !== slot : source !== cell
+            );
+            if (others.length > 0) {
+              cells.push({ ...base, source: others[Math.floor(this.random() * others.length)] });
+            }
+          }
+        }
+      }
+    }
+    return cells;
+  }
+
+  private buildExercise(paradigms: LanguageParadigms, cell: DrillCell): GrammarExercise | null {
+    return cell.kind === 'conjugation'
+      ? this.buildConjugation(paradigms, cell)
+      : this.buildDeclension(paradigms, cell);
+  }
+
+  private buildConjugation(paradigms: LanguageParadigms, cell: DrillCell): GrammarExercise | null {
+    const verb = paradigms.verbs.find((entry) => entry.lemma === cell.lemma);
+    const tense = paradigms.tenses.find((entry) => entry.id === cell.slot);
+    const person = paradigms.persons.find((entry) => entry.id === cell.cell);
+    const target = this.engine.conjugate(paradigms.language, cell.lemma, cell.slot, cell.cell);
+    if (!verb || !tense || !person || !target) {
+      return null;
+    }
+
+    const explanation =
+      target.ending !== null
+        ? `${this.capitalize(tense.label)} of ${target.classLabel} verbs: ${person.label} → ${this.formatEnding(target.ending)}.`
+        : `${verb.lemma} is irregular in the ${tense.label}.`;
+    const irregularStem = verb.stems?.[tense.id];
+    const fullExplanation =
+      target.irregular && irregularStem
+        ? `${verb.lemma} has the irregular ${tense.label} stem "${irregularStem}-". ${explanation}`
+        : explanation;
+
+    if (cell.exerciseType === 'fill_blank') {
+      return this.toExercise(paradigms, cell, target, {
+        prompt: `Conjugate "${verb.lemma}" (${verb.translation}) in the ${tense.label}`,
+        sentenceText: `${person.label} ${BLANK}`,
+        explanation: fullExplanation,
+      });
+    }
+
+    const sourceTense = paradigms.tenses.find((entry) => entry.id === cell.source);
+    const source =
+      sourceTense && sourceTense.id !== tense.id
+        ? this.engine.conjugate(paradigms.language, cell.lemma, sourceTense.id, cell.cell)
+        : null;
+    if (!sourceTense || !source) {
+      return null;
+    }
+
+    return this.toExercise(paradigms, cell, target, {
+      prompt: `Change "${verb.lemma}" (${verb.translation}) from the ${sourceTense.label} to the ${tense.label}`,
+      sentenceText: `${person.label} ${source.form} → ${person.label} ${BLANK}`,
+      explanation: fullExplanation,
+    });
+  }
+
+  private buildDeclension(paradigms: LanguageParadigms, cell: DrillCell): GrammarExercise | null {
+    const noun = paradigms.nouns.find((entry) => entry.lemma === cell.lemma);
+    const grammaticalCase = paradigms.cases.find((entry) => entry.id === cell.slot);
+    const number = paradigms.numbers.find((entry) => entry.id === cell.cell);
+    const target = this.engine.decline(paradigms.language, cell.lemma, cell.slot, cell.cell);
+    if (!noun || !grammaticalCase || !number || !target) {
+      return null;
+    }
+
+    const cue = grammaticalCase.cue
+      ? ` ("${grammaticalCase.cue}" takes the ${grammaticalCase.label})`
+      : '';
+    const explanation = `${this.capitalize(grammaticalCase.label)} ${number.label} of ${target.classLabel} nouns: ${this.formatEnding(target.ending)}.${cue}`;
+    const withCue = (form: string): string =>
+      grammaticalCase.cue ? `${grammaticalCase.cue} ${form}` : form;
+
+    if (cell.exerciseType === 'fill_blank') {
+      return this.toExercise(paradigms, cell, target, {
+        prompt: `Put "${noun.lemma}" (${noun.translation}) in the ${grammaticalCase.label} ${number.label}`,
+        sentenceText: withCue(BLANK),
+        explanation,
+      });
+    }
+
+    const sourceNumber = paradigms.numbers.find((entry) => entry.id === cell.source);
+    const source =
+      sourceNumber && sourceNumber.id !== number.id
+        ? this.engine.decline(paradigms.language, cell.lemma, grammaticalCase.id, sourceNumber.id)
+        : null;
+    if (!sourceNumber || !source) {
+      return null;
+    }
+
+    return this.toExercise(paradigms, cell, target, {
+      prompt: `Change "${noun.lemma}" (${noun.translation}) from the ${sourceNumber.label} to the ${number.label}, keeping the ${grammaticalCase.label}`,
+      sentenceText: `${withCue(source.form)} → ${withCue(BLANK)}`,
+      explanation,
+    });
+  }
+
+  private toExercise(
+    paradigms: LanguageParadigms,
+    cell: DrillCell,
+    target: InflectedForm,
+    text: { prompt: string; sentenceText: string; explanation: string }
+  ): GrammarExercise {
+    const difficulty =
+      (target.irregular ? IRREGULAR_DIFFICULTY : REGULAR_DIFFICULTY) +
+      (cell.exerciseType === 'transformation' ? 1 : 0);
+
+    return {
+      exerciseId: this.formatId(cell),
+      grammarRuleId: `${DRILL_ID_PREFIX}:${paradigms.language}:${cell.kind}`,
+      exerciseType: cell.exerciseType,
+      difficulty,
+      prompt: text.prompt,
+      sentenceText: text.sentenceText,
+      correctAnswer: target.form,
+      explanation: text.explanation,
+      hint: null,
+      audioUrl: null,
+    };
+  }
+
+  private formatId(cell: DrillCell): string {
+    return [
+      DRILL_ID_PREFIX,
+      cell.language,
+      cell.kind,
+      cell.lemma,
+      cell.slot,
+      cell.cell,
+      cell.exerciseType,
+      ...(cell.source ? [cell.source] : []),
+    ].join(':');
+  }
+
+  private parseId(drillId: string): DrillCell | null {
+    const [prefix, language, kind, lemma, slot, cell, exerciseType, source, ...rest] =
+      drillId.split(':');
+    if (
+      prefix !== DRILL_ID_PREFIX ||
+      rest.length > 0 ||
+      (kind !== 'conjugation' && kind !== 'declension') ||
+      (exerciseType !== 'fill_blank' && exerciseType !== 'transformation') ||
+      !lemma ||
+      !slot ||
+      !cell ||
+      (exerciseType === 'transformation') !== Boolean(source)
+    ) {
+      return null;
+    }
+
+    return { language, kind, lemma, slot, cell, exerciseType, source };
+  }
+
+  private formatEnding(ending: string | null): string {
+    return ending ? `-${ending}` : 'no ending';
+  }
+
+  private capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
+  /**
+   * Fisher-Yates shuffle
+   */
+  private shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+}
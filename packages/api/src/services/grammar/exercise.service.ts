@@ -1,4 +1,13 @@
 import { Pool } from 'pg';
+import {
+  AnswerError,
+  AnswerEvaluator,
+  DiacriticCheck,
+  DiacriticService,
+  DiacriticStrictness,
+} from '../evaluation';
+import { applyHintPenalty } from '../hints';
+import { DrillKind, DrillOptions, isDrillId, ParadigmDrillService } from './drill.service';
 
 class NotFoundError extends Error {
   statusCode: number;
@@ -9,6 +18,8 @@ class NotFoundError extends Error {
   }
 }
 
+const DRILL_EXERCISE_ID = '00000000-0000-0000-0000-000000000000';
+
 export type ExerciseType =
   | 'fill_blank'
   | 'transformation'
@@ -36,10 +47,35 @@ export interface ExerciseSubmission {
   isCorrect: boolean;
   feedback: string;
   partialCredit: number; // 0.0 to 1.0
+  errors: AnswerError[];
+}
+
+interface ExerciseDataRow {
+  correct_answer: string | string[];
+  exercise_type: ExerciseType;
+  explanation: string;
+  grammar_rule_id: string;
+  language: string | null;
+}
+
+interface ValidationResult {
+  isCorrect: boolean;
+  feedback: string;
+  partialCredit: number;
+  errors: AnswerError[];
+  diacriticChecks?: DiacriticCheck[];
 }
 
 export class GrammarExerciseService {
-  constructor(private readonly pool: Pool) {}
+  private readonly evaluator: AnswerEvaluator;
+  private readonly diacritics: DiacriticService;
+  private readonly drills: ParadigmDrillService;
+
+  constructor(private readonly pool: Pool) {
+    this.evaluator = new AnswerEvaluator();
+    this.diacritics = new DiacriticService(pool);
+    this.drills = new ParadigmDrillService();
+  }
 
   /**
    * Get exercises for a specific grammar rule
@@ -174,50 +210,55 @@ export class GrammarExerciseService {
     }));
   }
 
+  /**
+   * Generate conjugation or declension drills from the paradigm tables
+   */
+  getParadigmDrills(
+    language: string,
+    kind: DrillKind,
+    options: DrillOptions = {}
+  ): GrammarExercise[] {
+    return this.drills.generate(language, kind, options);
+  }
+
   /**
    * Validate user's answer and generate feedback
+   *
+   * @param hintsUsed Rungs of the hint ladder used before answering
    */
   async validateAnswer(
     exerciseId: string,
     userAnswer: string | string[],
-    userId: string
+    userId: string,
+    hintsUsed: number = 0
   ): Promise<ExerciseSubmission> {
-    interface ExerciseDataRow {
-      correct_answer: string | string[];
-      exercise_type: ExerciseType;
-      explanation: string;
-      grammar_rule_id: string;
-    }
+    const { correct_answer, exercise_type, explanation, grammar_rule_id, language } =
+      await this.getExerciseData(exerciseId);
 
-    // Fetch correct answer
-    const exerciseResult = await this.pool.query<ExerciseDataRow>(
-      `SELECT
-        correct_answer,
-        exercise_type,
-        explanation,
-        grammar_rule_id
-       FROM grammar_exercises
-       WHERE id = $1`,
-      [exerciseId]
+    // Validate based on exercise type
+    const diacritics = await this.diacritics.getStrictness(userId);
+    const validation = this.performValidation(
+      exercise_type,
+      userAnswer,
+      correct_answer,
+      language,
+      diacritics
     );
+    await this.diacritics.recordChecks(userId, language, validation.diacriticChecks ?? []);
 
-    if (exerciseResult.rows.length === 0) {
-      throw new NotFoundError('Exercise not found');
-    }
-
-    const { correct_answer, exercise_type, explanation, grammar_rule_id } = exerciseResult.rows[0];
-
-    // Validate based on exercise type
-    const validation = this.performValidation(exercise_type, userAnswer, correct_answer);
+    // Credit is on a 0-1 scale; hints cost the same as on the 0-5 quality scale
+    const partialCredit = applyHintPenalty(validation.partialCredit * 5, hintsUsed) / 5;
 
     // Record submission
     await this.recordSubmission(
       userId,
       exerciseId,
       grammar_rule_id,
+      language,
       userAnswer,
       validation.isCorrect,
-      validation.partialCredit
+      partialCredit,
+      hintsUsed
     );
 
     return {
@@ -225,35 +266,85 @@ export class GrammarExerciseService {
       userAnswer,
       isCorrect: validation.isCorrect,
       feedback: validation.isCorrect
-        ? `✓ Correct! ${explanation}`
+        ? ['✓ Correct!', validation.feedback, explanation].filter(Boolean).join(' ')
         : `✗ Incorrect. ${validation.feedback} Correct answer: ${this.formatAnswer(correct_answer)}. ${explanation}`,
-      partialCredit: validation.partialCredit,
+      partialCredit,
+      errors: validation.errors,
     };
   }
 
+  /**
+   * Load the answer key of a stored exercise, or rebuild it for a paradigm drill
+   */
+  private async getExerciseData(exerciseId: string): Promise<ExerciseDataRow> {
+    if (isDrillId(exerciseId)) {
+      const drill = this.drills.resolve(exerciseId);
+      if (!drill) {
+        throw new NotFoundError('Exercise not found');
+      }
+      return {
+        correct_answer: drill.exercise.correctAnswer,
+        exercise_type: drill.exercise.exerciseType,
+        explanation: drill.exercise.explanation,
+        grammar_rule_id: drill.exercise.grammarRuleId,
+        language: drill.language,
+      };
+    }
+
+    const exerciseResult = await this.pool.query<ExerciseDataRow>(
+      `SELECT
+        correct_answer,
+        exercise_type,
+        explanation,
+        grammar_rule_id,
+        (SELECT language FROM approved_rules WHERE id = grammar_rule_id) as language
+       FROM grammar_exercises
+       WHERE id = $1`,
+      [exerciseId]
+    );
+
+    if (exerciseResult.rows.length === 0) {
+      throw new NotFoundError('Exercise not found');
+    }
+
+    return exerciseResult.rows[0];
+  }
+
   /**
    * Perform validation based on exercise type
    */
   private performValidation(
     exerciseType: ExerciseType,
     userAnswer: string | string[],
-    correctAnswer: string | string[]
-  ): { isCorrect: boolean; feedback: string; partialCredit: number } {
+    correctAnswer: string | string[],
+    language: string | null,
+    diacritics: DiacriticStrictness
+  ): ValidationResult {
     switch (exerciseType) {
       case 'fill_blank':
       case 'transformation':
       case 'error_correction':
-        return this.validateTextAnswer(userAnswer as string, correctAnswer as string);
+        return this.validateTextAnswer(
+          userAnswer as string,
+          correctAnswer as string,
+          language,
+          diacritics
+        );
 
       case 'multiple_choice':
         return {
           isCorrect: userAnswer === correctAnswer,
           feedback: userAnswer !== correctAnswer ? 'Try reviewing the grammar rule.' : '',
           partialCredit: userAnswer === correctAnswer ? 1.0 : 0.0,
+          errors: [],
         };
 
       case 'reorder':
-        return this.validateArrayAnswer(userAnswer as string[], correctAnswer as string[]);
+        return this.validateArrayAnswer(
+          userAnswer as string[],
+          correctAnswer as string[],
+          language
+        );
 
       default: {
         const exhaustiveCheck: never = exerciseType;
@@ -264,46 +355,49 @@ export class GrammarExerciseService {
 
   /**
    * Validate text answer with fuzzy matching
+   *
+   * Diacritic mistakes are graded by the user's diacritic strictness; when
+   * lenient they are accepted, with a note in the feedback.
    */
   private validateTextAnswer(
     userAnswer: string,
-    correctAnswer: string
-  ): { isCorrect: boolean; feedback: string; partialCredit: number } {
-    const normalize = (text: string) =>
-      text
-        .toLowerCase()
-        .trim()
-        .replace(/[áàäâ]/g, 'a')
-        .replace(/[éèëê]/g, 'e')
-        .replace(/[íìïî]/g, 'i')
-        .replace(/[óòöô]/g, 'o')
-        .replace(/[úùüû]/g, 'u')
-        .replace(/\s+/g, ' ');
-
-    const normalizedUser = normalize(userAnswer);
-    const normalizedCorrect = normalize(correctAnswer);
-
-    // Exact match
-    if (normalizedUser === normalizedCorrect) {
-      return { isCorrect: true, feedback: '', partialCredit: 1.0 };
+    correctAnswer: string,
+    language: string | null,
+    diacritics: DiacriticStrictness
+  ): ValidationResult {
+    const evaluation = this.evaluator.evaluate(userAnswer, correctAnswer, language, {
+      diacritics,
+    });
+    const diagnosis = this.evaluator.describe(evaluation.errors);
+    const similarity = evaluation.score;
+
+    if (similarity === 1) {
+      return {
+        isCorrect: true,
+        feedback: diagnosis,
+        partialCredit: 1.0,
+        errors: evaluation.errors,
+        diacriticChecks: evaluation.diacriticChecks,
+      };
     }
 
-    // Check Levenshtein distance for close answers
-    const distance = this.levenshteinDistance(normalizedUser, normalizedCorrect);
-    const maxLength = Math.max(normalizedUser.length, normalizedCorrect.length);
-    const similarity = 1 - distance / maxLength;
-
     if (similarity >= 0.9) {
       return {
         isCorrect: false,
-        feedback: 'Very close! Check your spelling or accents.',
+        feedback: `Very close! ${diagnosis || 'Check your spelling or accents.'}`,
         partialCredit: 0.8,
+        errors: evaluation.errors,
+        diacriticChecks: evaluation.diacriticChecks,
       };
     } else if (similarity >= 0.7) {
       return {
         isCorrect: false,
-        feedback: 'Partially correct, but there are some errors.',
+        feedback: ['Partially correct, but there are some errors.', diagnosis]
+          .filter(Boolean)
+          .join(' '),
         partialCredit: 0.5,
+        errors: evaluation.errors,
+        diacriticChecks: evaluation.diacriticChecks,
       };
     }
 
@@ -311,6 +405,8 @@ export class GrammarExerciseService {
       isCorrect: false,
       feedback: 'Not quite right.',
       partialCredit: 0.0,
+      errors: evaluation.errors,
+      diacriticChecks: evaluation.diacriticChecks,
     };
   }
 
@@ -319,20 +415,28 @@ export class GrammarExerciseService {
    */
   private validateArrayAnswer(
     userAnswer: string[],
-    correctAnswer: string[]
-  ): { isCorrect: boolean; feedback: string; partialCredit: number } {
+    correctAnswer: string[],
+    language: string | null
+  ): ValidationResult {
+    const { errors } = this.evaluator.evaluate(
+      userAnswer.join(' '),
+      correctAnswer.join(' '),
+      language
+    );
+
     if (userAnswer.length !== correctAnswer.length) {
       return {
         isCorrect: false,
         feedback: 'Incorrect number of words.',
         partialCredit: 0.0,
+        errors,
       };
     }
 
     const exactMatch = userAnswer.every((word, idx) => word === correctAnswer[idx]);
 
     if (exactMatch) {
-      return { isCorrect: true, feedback: '', partialCredit: 1.0 };
+      return { isCorrect: true, feedback: '', partialCredit: 1.0, errors: [] };
     }
 
     // Count correct positions
@@ -343,51 +447,41 @@ export class GrammarExerciseService {
       isCorrect: false,
       feedback: `${correctPositions} out of ${correctAnswer.length} words in correct position.`,
       partialCredit: partialCredit > 0.5 ? partialCredit : 0.0,
+      errors,
     };
   }
 
-  /**
-   * Calculate Levenshtein distance between two strings
-   */
-  private levenshteinDistance(a: string, b: string): number {
-    const matrix: number[][] = [];
-
-    for (let i = 0; i <= b.length; i++) {
-      matrix[i] = [i];
-    }
-
-    for (let j = 0; j <= a.length; j++) {
-      matrix[0][j] = j;
-    }
-
-    for (let i = 1; i <= b.length; i++) {
-      for (let j = 1; j <= a.length; j++) {
-        if (b.charAt(i - 1) === a.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1];
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1, // substitution
-            matrix[i][j - 1] + 1, // insertion
-            matrix[i - 1][j] + 1 // deletion
-          );
-        }
-      }
-    }
-
-    return matrix[b.length][a.length];
-  }
-
   /**
    * Record exercise submission
+   *
+   * Paradigm drills have no grammar_exercises row: they are stored under
+   * the nil exercise id with the drill id in the answer metadata.
    */
   private async recordSubmission(
     userId: string,
     exerciseId: string,
     grammarRuleId: string,
+    language: string | null,
     userAnswer: string | string[],
     isCorrect: boolean,
-    partialCredit: number
+    partialCredit: number,
+    hintsUsed: number
   ): Promise<void> {
+    if (isDrillId(exerciseId)) {
+      await this.pool.query(
+        `INSERT INTO user_exercise_results (user_id, exercise_id, language, exercise_type, correct, user_answer, submitted_at)
+         VALUES ($1, $2, $3, 'grammar', $4, $5, NOW())`,
+        [
+          userId,
+          DRILL_EXERCISE_ID,
+          language,
+          isCorrect,
+          JSON.stringify({ answer: userAnswer, partialCredit, hintsUsed, drillId: exerciseId }),
+        ]
+      );
+      return;
+    }
+
     // Store in user_exercise_results with metadata
     await this.pool.query(
       `INSERT INTO user_exercise_results (user_id, exercise_id, language, exercise_type, correct, user_answer, submitted_at)
@@ -397,7 +491,7 @@ export class GrammarExerciseService {
         exerciseId,
         grammarRuleId,
         isCorrect,
-        JSON.stringify({ answer: userAnswer, partialCredit }),
+        JSON.stringify({ answer: userAnswer, partialCredit, hintsUsed }),
       ]
     );
   }
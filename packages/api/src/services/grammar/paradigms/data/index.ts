@@ -0,0 +1,12 @@
+import { LanguageParadigms } from '../paradigm.interface';
+import { ITALIAN_PARADIGMS } from './italian';
+import { PORTUGUESE_PARADIGMS } from './portuguese';
+import { SLOVENE_PARADIGMS } from './slovene';
+import { SPANISH_PARADIGMS } from './spanish';
+
+export const PARADIGMS_BY_LANGUAGE: Readonly<Record<string, LanguageParadigms>> = {
+  ES: SPANISH_PARADIGMS,
+  IT: ITALIAN_PARADIGMS,
+  PT: PORTUGUESE_PARADIGMS,
+  SL: SLOVENE_PARADIGMS,
+};
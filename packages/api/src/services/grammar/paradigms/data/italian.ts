@@ -0,0 +1,106 @@
+import { LanguageParadigms } from '../paradigm.interface';
+
+const FUTURE = ['ò', 'ai', 'à', 'emo', 'ete', 'anno'];
+const IRE_IMPERFECT = ['ivo', 'ivi', 'iva', 'ivamo', 'ivate', 'ivano'];
+
+export const ITALIAN_PARADIGMS: LanguageParadigms = {
+  language: 'IT',
+  persons: [
+    { id: '1sg', label: 'io' },
+    { id: '2sg', label: 'tu' },
+    { id: '3sg', label: 'lui' },
+    { id: '1pl', label: 'noi' },
+    { id: '2pl', label: 'voi' },
+    { id: '3pl', label: 'loro' },
+  ],
+  tenses: [
+    { id: 'present', label: 'present' },
+    { id: 'imperfect', label: 'imperfect' },
+    { id: 'future', label: 'future' },
+  ],
+  conjugationClasses: [
+    {
+      id: 'are',
+      label: '-are',
+      lemmaEnding: 'are',
+      tenses: {
+        present: { stem: 'root', endings: ['o', 'i', 'a', 'iamo', 'ate', 'ano'] },
+        imperfect: { stem: 'root', endings: ['avo', 'avi', 'ava', 'avamo', 'avate', 'avano'] },
+        future: { stem: 'root', stemSuffix: 'er', endings: FUTURE },
+      },
+    },
+    {
+      id: 'ere',
+      label: '-ere',
+      lemmaEnding: 'ere',
+      tenses: {
+        present: { stem: 'root', endings: ['o', 'i', 'e', 'iamo', 'ete', 'ono'] },
+        imperfect: { stem: 'root', endings: ['evo', 'evi', 'eva', 'evamo', 'evate', 'evano'] },
+        future: { stem: 'root', stemSuffix: 'er', endings: FUTURE },
+      },
+    },
+    {
+      id: 'ire',
+      label: '-ire',
+      lemmaEnding: 'ire',
+      tenses: {
+        present: { stem: 'root', endings: ['o', 'i', 'e', 'iamo', 'ite', 'ono'] },
+        imperfect: { stem: 'root', endings: IRE_IMPERFECT },
+        future: { stem: 'root', stemSuffix: 'ir', endings: FUTURE },
+      },
+    },
+    {
+      id: 'ire_isc',
+      label: '-ire (-isc-)',
+      lemmaEnding: 'ire',
+      tenses: {
+        present: { stem: 'root', endings: ['isco', 'isci', 'isce', 'iamo', 'ite', 'iscono'] },
+        imperfect: { stem: 'root', endings: IRE_IMPERFECT },
+        future: { stem: 'root', stemSuffix: 'ir', endings: FUTURE },
+      },
+    },
+  ],
+  verbs: [
+    { lemma: 'parlare', conjugationClass: 'are', translation: 'to speak' },
+    { lemma: 'lavorare', conjugationClass: 'are', translation: 'to work' },
+    { lemma: 'abitare', conjugationClass: 'are', translation: 'to live' },
+    { lemma: 'vendere', conjugationClass: 'ere', translation: 'to sell' },
+    { lemma: 'credere', conjugationClass: 'ere', translation: 'to believe' },
+    { lemma: 'dormire', conjugationClass: 'ire', translation: 'to sleep' },
+    { lemma: 'partire', conjugationClass: 'ire', translation: 'to leave' },
+    { lemma: 'finire', conjugationClass: 'ire_isc', translation: 'to finish' },
+    { lemma: 'capire', conjugationClass: 'ire_isc', translation: 'to understand' },
+    {
+      lemma: 'essere',
+      conjugationClass: 'ere',
+      translation: 'to be',
+      forms: {
+        present: ['sono', 'sei', 'è', 'siamo', 'siete', 'sono'],
+        imperfect: ['ero', 'eri', 'era', 'eravamo', 'eravate', 'erano'],
+        future: ['sarò', 'sarai', 'sarà', 'saremo', 'sarete', 'saranno'],
+      },
+    },
+    {
+      lemma: 'avere',
+      conjugationClass: 'ere',
+      translation: 'to have',
+      stems: { future: 'avr' },
+      forms: {
+        present: ['ho', 'hai', 'ha', 'abbiamo', 'avete', 'hanno'],
+      },
+    },
+    {
+      lemma: 'andare',
+      conjugationClass: 'are',
+      translation: 'to go',
+      stems: { future: 'andr' },
+      forms: {
+        present: ['vado', 'vai', 'va', 'andiamo', 'andate', 'vanno'],
+      },
+    },
+  ],
+  cases: [],
+  numbers: [],
+  declensionClasses: [],
+  nouns: [],
+};
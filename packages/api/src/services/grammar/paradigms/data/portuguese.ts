@@ -0,0 +1,108 @@
+import { LanguageParadigms } from '../paradigm.interface';
+
+const ER_IR_IMPERFECT = ['ia', 'ias', 'ia', 'íamos', 'íeis', 'iam'];
+const FUTURE = ['ei', 'ás', 'á', 'emos', 'eis', 'ão'];
+const SER_PRETERITE = ['fui', 'foste', 'foi', 'fomos', 'fostes', 'foram'];
+
+export const PORTUGUESE_PARADIGMS: LanguageParadigms = {
+  language: 'PT',
+  persons: [
+    { id: '1sg', label: 'eu' },
+    { id: '2sg', label: 'tu' },
+    { id: '3sg', label: 'ele' },
+    { id: '1pl', label: 'nós' },
+    { id: '2pl', label: 'vós' },
+    { id: '3pl', label: 'eles' },
+  ],
+  tenses: [
+    { id: 'present', label: 'present' },
+    { id: 'preterite', label: 'preterite' },
+    { id: 'imperfect', label: 'imperfect' },
+    { id: 'future', label: 'future' },
+  ],
+  conjugationClasses: [
+    {
+      id: 'ar',
+      label: '-ar',
+      lemmaEnding: 'ar',
+      tenses: {
+        present: { stem: 'root', endings: ['o', 'as', 'a', 'amos', 'ais', 'am'] },
+        preterite: { stem: 'root', endings: ['ei', 'aste', 'ou', 'amos', 'astes', 'aram'] },
+        imperfect: { stem: 'root', endings: ['ava', 'avas', 'ava', 'ávamos', 'áveis', 'avam'] },
+        future: { stem: 'infinitive', endings: FUTURE },
+      },
+    },
+    {
+      id: 'er',
+      label: '-er',
+      lemmaEnding: 'er',
+      tenses: {
+        present: { stem: 'root', endings: ['o', 'es', 'e', 'emos', 'eis', 'em'] },
+        preterite: { stem: 'root', endings: ['i', 'este', 'eu', 'emos', 'estes', 'eram'] },
+        imperfect: { stem: 'root', endings: ER_IR_IMPERFECT },
+        future: { stem: 'infinitive', endings: FUTURE },
+      },
+    },
+    {
+      id: 'ir',
+      label: '-ir',
+      lemmaEnding: 'ir',
+      tenses: {
+        present: { stem: 'root', endings: ['o', 'es', 'e', 'imos', 'is', 'em'] },
+        preterite: { stem: 'root', endings: ['i', 'iste', 'iu', 'imos', 'istes', 'iram'] },
+        imperfect: { stem: 'root', endings: ER_IR_IMPERFECT },
+        future: { stem: 'infinitive', endings: FUTURE },
+      },
+    },
+  ],
+  verbs: [
+    { lemma: 'falar', conjugationClass: 'ar', translation: 'to speak' },
+    { lemma: 'trabalhar', conjugationClass: 'ar', translation: 'to work' },
+    { lemma: 'comer', conjugationClass: 'er', translation: 'to eat' },
+    { lemma: 'beber', conjugationClass: 'er', translation: 'to drink' },
+    { lemma: 'partir', conjugationClass: 'ir', translation: 'to leave' },
+    { lemma: 'abrir', conjugationClass: 'ir', translation: 'to open' },
+    {
+      lemma: 'ser',
+      conjugationClass: 'er',
+      translation: 'to be',
+      forms: {
+        present: ['sou', 'és', 'é', 'somos', 'sois', 'são'],
+        preterite: SER_PRETERITE,
+        imperfect: ['era', 'eras', 'era', 'éramos', 'éreis', 'eram'],
+      },
+    },
+    {
+      lemma: 'estar',
+      conjugationClass: 'ar',
+      translation: 'to be (state)',
+      forms: {
+        present: ['estou', 'estás', 'está', 'estamos', 'estais', 'estão'],
+        preterite: ['estive', 'estiveste', 'esteve', 'estivemos', 'estivestes', 'estiveram'],
+      },
+    },
+    {
+      lemma: 'ter',
+      conjugationClass: 'er',
+      translation: 'to have',
+      forms: {
+        present: ['tenho', 'tens', 'tem', 'temos', 'tendes', 'têm'],
+        preterite: ['tive', 'tiveste', 'teve', 'tivemos', 'tivestes', 'tiveram'],
+        imperfect: ['tinha', 'tinhas', 'tinha', 'tínhamos', 'tínheis', 'tinham'],
+      },
+    },
+    {
+      lemma: 'ir',
+      conjugationClass: 'ir',
+      translation: 'to go',
+      forms: {
+        present: ['vou', 'vais', 'vai', 'vamos', 'ides', 'vão'],
+        preterite: SER_PRETERITE,
+      },
+    },
+  ],
+  cases: [],
+  numbers: [],
+  declensionClasses: [],
+  nouns: [],
+};
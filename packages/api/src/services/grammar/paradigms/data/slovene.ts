@@ -0,0 +1,127 @@
+import { LanguageParadigms } from '../paradigm.interface';
+
+// Present endings after the stem vowel (dela-m, govori-m)
+const VOWEL_STEM_PRESENT = ['m', 'š', '', 'va', 'ta', 'ta', 'mo', 'te', 'jo'];
+
+export const SLOVENE_PARADIGMS: LanguageParadigms = {
+  language: 'SL',
+  persons: [
+    { id: '1sg', label: 'jaz' },
+    { id: '2sg', label: 'ti' },
+    { id: '3sg', label: 'on' },
+    { id: '1du', label: 'midva' },
+    { id: '2du', label: 'vidva' },
+    { id: '3du', label: 'onadva' },
+    { id: '1pl', label: 'mi' },
+    { id: '2pl', label: 'vi' },
+    { id: '3pl', label: 'oni' },
+  ],
+  tenses: [{ id: 'present', label: 'present' }],
+  conjugationClasses: [
+    {
+      id: 'a',
+      label: '-am',
+      lemmaEnding: 'ti',
+      tenses: { present: { stem: 'root', endings: VOWEL_STEM_PRESENT } },
+    },
+    {
+      id: 'i',
+      label: '-im',
+      lemmaEnding: 'ti',
+      tenses: { present: { stem: 'root', endings: VOWEL_STEM_PRESENT } },
+    },
+    {
+      id: 'e',
+      label: '-em',
+      lemmaEnding: 'ti',
+      tenses: {
+        present: {
+          stem: 'root',
+          endings: ['em', 'eš', 'e', 'eva', 'eta', 'eta', 'emo', 'ete', 'ejo'],
+        },
+      },
+    },
+  ],
+  verbs: [
+    { lemma: 'delati', conjugationClass: 'a', translation: 'to work' },
+    { lemma: 'igrati', conjugationClass: 'a', translation: 'to play' },
+    { lemma: 'govoriti', conjugationClass: 'i', translation: 'to speak' },
+    { lemma: 'misliti', conjugationClass: 'i', translation: 'to think' },
+    { lemma: 'pisati', conjugationClass: 'e', translation: 'to write', stems: { present: 'piš' } },
+    { lemma: 'piti', conjugationClass: 'e', translation: 'to drink', stems: { present: 'pij' } },
+    {
+      lemma: 'biti',
+      conjugationClass: 'e',
+      translation: 'to be',
+      forms: { present: ['sem', 'si', 'je', 'sva', 'sta', 'sta', 'smo', 'ste', 'so'] },
+    },
+  ],
+  cases: [
+    { id: 'nominative', label: 'nominative', cue: '' },
+    { id: 'genitive', label: 'genitive', cue: 'brez' },
+    { id: 'dative', label: 'dative', cue: 'proti' },
+    { id: 'accusative', label: 'accusative', cue: 'za' },
+    { id: 'locative', label: 'locative', cue: 'pri' },
+    { id: 'instrumental', label: 'instrumental', cue: 'pred' },
+  ],
+  numbers: [
+    { id: 'singular', label: 'singular' },
+    { id: 'dual', label: 'dual' },
+    { id: 'plural', label: 'plural' },
+  ],
+  declensionClasses: [
+    {
+      id: 'feminine_a',
+      label: 'feminine -a',
+      lemmaEnding: 'a',
+      endings: {
+        singular: ['a', 'e', 'i', 'o', 'i', 'o'],
+        dual: ['i', '', 'ama', 'i', 'ah', 'ama'],
+        plural: ['e', '', 'am', 'e', 'ah', 'ami'],
+      },
+    },
+    {
+      id: 'masculine_inanimate',
+      label: 'masculine inanimate',
+      lemmaEnding: '',
+      endings: {
+        singular: ['', 'a', 'u', '', 'u', 'om'],
+        dual: ['a', 'ov', 'oma', 'a', 'ih', 'oma'],
+        plural: ['i', 'ov', 'om', 'e', 'ih', 'i'],
+      },
+    },
+    {
+      id: 'masculine_animate',
+      label: 'masculine animate',
+      lemmaEnding: '',
+      endings: {
+        singular: ['', 'a', 'u', 'a', 'u', 'om'],
+        dual: ['a', 'ov', 'oma', 'a', 'ih', 'oma'],
+        plural: ['i', 'ov', 'om', 'e', 'ih', 'i'],
+      },
+    },
+    {
+      id: 'neuter_o',
+      label: 'neuter -o',
+      lemmaEnding: 'o',
+      endings: {
+        singular: ['o', 'a', 'u', 'o', 'u', 'om'],
+        dual: ['i', '', 'oma', 'i', 'ih', 'oma'],
+        plural: ['a', '', 'om', 'a', 'ih', 'i'],
+      },
+    },
+  ],
+  nouns: [
+    { lemma: 'hiša', declensionClass: 'feminine_a', translation: 'house' },
+    { lemma: 'miza', declensionClass: 'feminine_a', translation: 'table' },
+    { lemma: 'knjiga', declensionClass: 'feminine_a', translation: 'book' },
+    { lemma: 'šola', declensionClass: 'feminine_a', translation: 'school' },
+    { lemma: 'stol', declensionClass: 'masculine_inanimate', translation: 'chair' },
+    { lemma: 'telefon', declensionClass: 'masculine_inanimate', translation: 'phone' },
+    { lemma: 'računalnik', declensionClass: 'masculine_inanimate', translation: 'computer' },
+    { lemma: 'študent', declensionClass: 'masculine_animate', translation: 'student' },
+    { lemma: 'zdravnik', declensionClass: 'masculine_animate', translation: 'doctor' },
+    { lemma: 'mesto', declensionClass: 'neuter_o', translation: 'town' },
+    { lemma: 'leto', declensionClass: 'neuter_o', translation: 'year' },
+  ],
+};
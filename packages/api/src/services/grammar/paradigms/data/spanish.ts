@@ -0,0 +1,120 @@
+import { LanguageParadigms } from '../paradigm.interface';
+
+const ER_IR_PRETERITE = ['í', 'iste', 'ió', 'imos', 'isteis', 'ieron'];
+const ER_IR_IMPERFECT = ['ía', 'ías', 'ía', 'íamos', 'íais', 'ían'];
+const FUTURE = ['é', 'ás', 'á', 'emos', 'éis', 'án'];
+const SER_PRETERITE = ['fui', 'fuiste', 'fue', 'fuimos', 'fuisteis', 'fueron'];
+
+export const SPANISH_PARADIGMS: LanguageParadigms = {
+  language: 'ES',
+  persons: [
+    { id: '1sg', label: 'yo' },
+    { id: '2sg', label: 'tú' },
+    { id: '3sg', label: 'él' },
+    { id: '1pl', label: 'nosotros' },
+    { id: '2pl', label: 'vosotros' },
+    { id: '3pl', label: 'ellos' },
+  ],
+  tenses: [
+    { id: 'present', label: 'present' },
+    { id: 'preterite', label: 'preterite' },
+    { id: 'imperfect', label: 'imperfect' },
+    { id: 'future', label: 'future' },
+  ],
+  conjugationClasses: [
+    {
+      id: 'ar',
+      label: '-ar',
+      lemmaEnding: 'ar',
+      tenses: {
+        present: { stem: 'root', endings: ['o', 'as', 'a', 'amos', 'áis', 'an'] },
+        preterite: { stem: 'root', endings: ['é', 'aste', 'ó', 'amos', 'asteis', 'aron'] },
+        imperfect: { stem: 'root', endings: ['aba', 'abas', 'aba', 'ábamos', 'abais', 'aban'] },
+        future: { stem: 'infinitive', endings: FUTURE },
+      },
+    },
+    {
+      id: 'er',
+      label: '-er',
+      lemmaEnding: 'er',
+      tenses: {
+        present: { stem: 'root', endings: ['o', 'es', 'e', 'emos', 'éis', 'en'] },
+        preterite: { stem: 'root', endings: ER_IR_PRETERITE },
+        imperfect: { stem: 'root', endings: ER_IR_IMPERFECT },
+        future: { stem: 'infinitive', endings: FUTURE },
+      },
+    },
+    {
+      id: 'ir',
+      label: '-ir',
+      lemmaEnding: 'ir',
+      tenses: {
+        present: { stem: 'root', endings: ['o', 'es', 'e', 'imos', 'ís', 'en'] },
+        preterite: { stem: 'root', endings: ER_IR_PRETERITE },
+        imperfect: { stem: 'root', endings: ER_IR_IMPERFECT },
+        future: { stem: 'infinitive', endings: FUTURE },
+      },
+    },
+  ],
+  verbs: [
+    { lemma: 'hablar', conjugationClass: 'ar', translation: 'to speak' },
+    { lemma: 'trabajar', conjugationClass: 'ar', translation: 'to work' },
+    { lemma: 'comer', conjugationClass: 'er', translation: 'to eat' },
+    { lemma: 'beber', conjugationClass: 'er', translation: 'to drink' },
+    { lemma: 'vivir', conjugationClass: 'ir', translation: 'to live' },
+    { lemma: 'escribir', conjugationClass: 'ir', translation: 'to write' },
+    {
+      lemma: 'ser',
+      conjugationClass: 'er',
+      translation: 'to be',
+      forms: {
+        present: ['soy', 'eres', 'es', 'somos', 'sois', 'son'],
+        preterite: SER_PRETERITE,
+        imperfect: ['era', 'eras', 'era', 'éramos', 'erais', 'eran'],
+      },
+    },
+    {
+      lemma: 'estar',
+      conjugationClass: 'ar',
+      translation: 'to be (state)',
+      forms: {
+        present: ['estoy', 'estás', 'está', 'estamos', 'estáis', 'están'],
+        preterite: ['estuve', 'estuviste', 'estuvo', 'estuvimos', 'estuvisteis', 'estuvieron'],
+      },
+    },
+    {
+      lemma: 'ir',
+      conjugationClass: 'ir',
+      translation: 'to go',
+      forms: {
+        present: ['voy', 'vas', 'va', 'vamos', 'vais', 'van'],
+        preterite: SER_PRETERITE,
+        imperfect: ['iba', 'ibas', 'iba', 'íbamos', 'ibais', 'iban'],
+      },
+    },
+    {
+      lemma: 'tener',
+      conjugationClass: 'er',
+      translation: 'to have',
+      stems: { future: 'tendr' },
+      forms: {
+        present: ['tengo', 'tienes', 'tiene', 'tenemos', 'tenéis', 'tienen'],
+        preterite: ['tuve', 'tuviste', 'tuvo', 'tuvimos', 'tuvisteis', 'tuvieron'],
+      },
+    },
+    {
+      lemma: 'hacer',
+      conjugationClass: 'er',
+      translation: 'to do, to make',
+      stems: { future: 'har' },
+      forms: {
+        present: ['hago', 'haces', 'hace', 'hacemos', 'hacéis', 'hacen'],
+        preterite: ['hice', 'hiciste', 'hizo', 'hicimos', 'hicisteis', 'hicieron'],
+      },
+    },
+  ],
+  cases: [],
+  numbers: [],
+  declensionClasses: [],
+  nouns: [],
+};
@@ -0,0 +1,15 @@
+export { ParadigmEngine } from './paradigm-engine';
+export { PARADIGMS_BY_LANGUAGE } from './data';
+export type {
+  PersonDefinition,
+  TenseDefinition,
+  CaseDefinition,
+  NumberDefinition,
+  TenseEndings,
+  ConjugationClass,
+  VerbEntry,
+  DeclensionClass,
+  NounEntry,
+  LanguageParadigms,
+  InflectedForm,
+} from './paradigm.interface';
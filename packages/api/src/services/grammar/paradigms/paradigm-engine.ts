@@ -0,0 +1,109 @@
+import { PARADIGMS_BY_LANGUAGE } from './data';
+import {
+  ConjugationClass,
+  DeclensionClass,
+  InflectedForm,
+  LanguageParadigms,
+  NounEntry,
+  VerbEntry,
+} from './paradigm.interface';
+
+/**
+ * Inflects verbs and nouns from the paradigm tables
+ *
+ * Regular forms are stem + ending of the word's class; irregular stems and
+ * spelled-out irregular tenses of a verb take precedence over its class.
+ */
+export class ParadigmEngine {
+  constructor(
+    private readonly paradigms: Readonly<Record<string, LanguageParadigms>> = PARADIGMS_BY_LANGUAGE
+  ) {}
+
+  getParadigms(language: string): LanguageParadigms | null {
+    return this.paradigms[language.toUpperCase()] ?? null;
+  }
+
+  /**
+   * Conjugate a verb; null when the verb, tense or person is not in the tables
+   */
+  conjugate(
+    language: string,
+    lemma: string,
+    tenseId: string,
+    personId: string
+  ): InflectedForm | null {
+    const paradigms = this.getParadigms(language);
+    const verb = paradigms?.verbs.find((entry) => entry.lemma === lemma);
+    const conjugationClass = paradigms?.conjugationClasses.find(
+      (entry) => entry.id === verb?.conjugationClass
+    );
+    const personIndex = paradigms?.persons.findIndex((person) => person.id === personId) ?? -1;
+    if (!verb || !conjugationClass || personIndex === -1) {
+      return null;
+    }
+
+    const irregularForms = verb.forms?.[tenseId];
+    if (irregularForms) {
+      return {
+        form: irregularForms[personIndex],
+        irregular: true,
+        ending: null,
+        classLabel: conjugationClass.label,
+      };
+    }
+
+    const tense = conjugationClass.tenses[tenseId];
+    if (!tense) {
+      return null;
+    }
+
+    const irregularStem = verb.stems?.[tenseId];
+    const ending = tense.endings[personIndex];
+    return {
+      form: (irregularStem ?? this.verbStem(verb, conjugationClass, tenseId)) + ending,
+      irregular: irregularStem !== undefined,
+      ending,
+      classLabel: conjugationClass.label,
+    };
+  }
+
+  /**
+   * Decline a noun; null when the noun, case or number is not in the tables
+   */
+  decline(language: string, lemma: string, caseId: string, numberId: string): InflectedForm | null {
+    const paradigms = this.getParadigms(language);
+    const noun = paradigms?.nouns.find((entry) => entry.lemma === lemma);
+    const declensionClass = paradigms?.declensionClasses.find(
+      (entry) => entry.id === noun?.declensionClass
+    );
+    const caseIndex = paradigms?.cases.findIndex((entry) => entry.id === caseId) ?? -1;
+    const endings = declensionClass?.endings[numberId];
+    if (!noun || !declensionClass || !endings || caseIndex === -1) {
+      return null;
+    }
+
+    const ending = endings[caseIndex];
+    return {
+      form: this.nounStem(noun, declensionClass) + ending,
+      irregular: false,
+      ending,
+      classLabel: declensionClass.label,
+    };
+  }
+
+  private verbStem(verb: VerbEntry, conjugationClass: ConjugationClass, tenseId: string): string {
+    const tense = conjugationClass.tenses[tenseId]!;
+    if (tense.stem === 'infinitive') {
+      return verb.lemma;
+    }
+    return this.removeEnding(verb.lemma, conjugationClass.lemmaEnding) + (tense.stemSuffix ?? '');
+  }
+
+  private nounStem(noun: NounEntry, declensionClass: DeclensionClass): string {
+    return this.removeEnding(noun.lemma, declensionClass.lemmaEnding);
+  }
+
+  private removeEnding(lemma: string, ending: string): string {
+    return ending.length > 0 && lemma.endsWith(ending) ? lemma.slice(0, -ending.length) : lemma;
+  }
+}
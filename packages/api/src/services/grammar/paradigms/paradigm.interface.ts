@@ -0,0 +1,112 @@
+/**
+ * A grammatical person of a conjugation table, e.g. { id: '1pl', label: 'nosotros' }
+ */
+export interface PersonDefinition {
+  id: string;
+  label: string;
+}
+
+export interface TenseDefinition {
+  id: string;
+  label: string;
+}
+
+/**
+ * A grammatical case; the cue is a word that governs it ("pri" + locative),
+ * empty for the nominative
+ */
+export interface CaseDefinition {
+  id: string;
+  label: string;
+  cue: string;
+}
+
+export interface NumberDefinition {
+  id: string;
+  label: string;
+}
+
+/**
+ * Endings of one tense, one per person in the language's person order
+ * - root: endings attach to the lemma without its class ending ("habl-")
+ * - infinitive: endings attach to the whole lemma ("hablar-é")
+ */
+export interface TenseEndings {
+  stem: 'root' | 'infinitive';
+  /**
+   * Added to the root before the endings (Italian future "parl-er-ò")
+   */
+  stemSuffix?: string;
+  endings: readonly string[];
+}
+
+/**
+ * Regular conjugation pattern of verbs sharing a lemma ending
+ */
+export interface ConjugationClass {
+  id: string;
+  label: string;
+  lemmaEnding: string;
+  tenses: Readonly<Partial<Record<string, TenseEndings>>>;
+}
+
+export interface VerbEntry {
+  lemma: string;
+  conjugationClass: string;
+  translation: string;
+  /**
+   * Irregular stem of a tense, replacing the regular stem
+   */
+  stems?: Readonly<Partial<Record<string, string>>>;
+  /**
+   * Irregular tense, all persons spelled out
+   */
+  forms?: Readonly<Partial<Record<string, readonly string[]>>>;
+}
+
+/**
+ * Regular declension pattern: endings per number, in the language's case order
+ */
+export interface DeclensionClass {
+  id: string;
+  label: string;
+  lemmaEnding: string;
+  endings: Readonly<Record<string, readonly string[]>>;
+}
+
+export interface NounEntry {
+  lemma: string;
+  declensionClass: string;
+  translation: string;
+}
+
+/**
+ * Conjugation and declension tables of a language
+ */
+export interface LanguageParadigms {
+  language: string;
+  persons: readonly PersonDefinition[];
+  tenses: readonly TenseDefinition[];
+  conjugationClasses: readonly ConjugationClass[];
+  verbs: readonly VerbEntry[];
+  cases: readonly CaseDefinition[];
+  numbers: readonly NumberDefinition[];
+  declensionClasses: readonly DeclensionClass[];
+  nouns: readonly NounEntry[];
+}
+
+/**
+ * An inflected form, with what produced it
+ */
+export interface InflectedForm {
+  form: string;
+  irregular: boolean;
+  /**
+   * Regular ending that was attached; null for irregular forms
+   */
+  ending: string | null;
+  /**
+   * Label of the conjugation or declension class
+   */
+  classLabel: string;
+}
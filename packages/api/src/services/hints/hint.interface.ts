@@ -0,0 +1,43 @@
+/**
+ * Hint ladder shared by the typed-answer practice modes
+ *
+ * Hints are requested in order; level N means the first N rungs were used.
+ */
+export type HintType =
+  | 'first_letter'
+  | 'word_count'
+  | 'grammar'
+  | 'cross_language_example'
+  | 'reveal';
+
+export const HINT_LADDER: readonly HintType[] = [
+  'first_letter',
+  'word_count',
+  'grammar',
+  'cross_language_example',
+  'reveal',
+];
+
+export const MAX_HINT_LEVEL = HINT_LADDER.length;
+
+export type HintExerciseType = 'translation' | 'cloze' | 'production' | 'recall' | 'grammar';
+
+/**
+ * What a hint is requested for. Grammar exercises are looked up by id, for
+ * their rule and authored hint; other modes send the expected answer.
+ */
+export interface HintRequest {
+  exerciseType: HintExerciseType;
+  language: string;
+  level: number;
+  answer?: string;
+  meaningId?: string | null;
+  grammarExerciseId?: string;
+}
+
+export interface Hint {
+  level: number;
+  type: HintType;
+  text: string;
+  isReveal: boolean;
+}
@@ -0,0 +1,266 @@
+import { Pool } from 'pg';
+import { isDrillId, ParadigmDrillService } from '../grammar/drill.service';
+import { HINT_LADDER, Hint, HintRequest, HintType, MAX_HINT_LEVEL } from './hint.interface';
+
+// Quality lost per hint used, on the 0-5 SRS scale
+const HINT_QUALITY_PENALTY = 1;
+
+// Seeing the answer counts as a failed recall, whatever was typed after
+const REVEALED_MAX_QUALITY = 1;
+
+class HintError extends Error {
+  statusCode: number;
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'HintError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Lower an SRS quality rating (0-5) for the hints used on an exercise
+ *
+ * Every practice mode grades hinted answers with this, so a hint costs the
+ * same everywhere.
+ */
+export function applyHintPenalty(quality: number, hintsUsed: number = 0): number {
+  if (hintsUsed <= 0) {
+    return quality;
+  }
+  if (hintsUsed >= MAX_HINT_LEVEL) {
+    return Math.min(quality, REVEALED_MAX_QUALITY);
+  }
+  return Math.max(0, quality - hintsUsed * HINT_QUALITY_PENALTY);
+}
+
+interface GrammarTarget {
+  ruleId: string;
+  title: string;
+  explanation: string | null;
+  category: string;
+  authoredHint: string | null;
+}
+
+interface HintTarget {
+  answer: string;
+  grammar: GrammarTarget | null;
+}
+
+/**
+ * HintService serves the graded hint ladder and records hint usage for
+ * analytics
+ */
+export class HintService {
+  private readonly drills = new ParadigmDrillService();
+
+  constructor(private readonly pool: Pool) {}
+
+  /**
+   * Get the hint at a level of the ladder
+   */
+  async getHint(userId: string, request: HintRequest): Promise<Hint> {
+    if (!Number.isInteger(request.level) || request.level < 1 || request.level > MAX_HINT_LEVEL) {
+      throw new HintError(`Hint level must be between 1 and ${MAX_HINT_LEVEL}`);
+    }
+
+    const target = await this.resolveTarget(request);
+    const type = HINT_LADDER[request.level - 1];
+    const text = await this.buildHintText(type, userId, request, target);
+
+    await this.recordUsage(userId, request, type);
+
+    return {
+      level: request.level,
+      type,
+      text,
+      isReveal: type === 'reveal',
+    };
+  }
+
+  private async resolveTarget(request: HintRequest): Promise<HintTarget> {
+    if (request.exerciseType === 'grammar') {
+      if (!request.grammarExerciseId) {
+        throw new HintError('grammarExerciseId is required for grammar hints');
+      }
+
+      if (isDrillId(request.grammarExerciseId)) {
+        return this.resolveDrillTarget(request.grammarExerciseId);
+      }
+
+      interface GrammarExerciseRow {
+        correct_answer: string | string[];
+        hint: string | null;
+        rule_id: string;
+        title: string;
+        explanation: string | null;
+        category: string;
+      }
+
+      const result = await this.pool.query<GrammarExerciseRow>(
+        `SELECT ge.correct_answer, ge.hint, ar.id as rule_id, ar.title, ar.explanation, ar.category
+         FROM grammar_exercises ge
+         JOIN approved_rules ar ON ar.id = ge.grammar_rule_id
+         WHERE ge.id = $1`,
+        [request.grammarExerciseId]
+      );
+
+      if (result.rows.length === 0) {
+        throw new HintError('Exercise not found', 404);
+      }
+
+      const row = result.rows[0];
+      return {
+        answer: Array.isArray(row.correct_answer)
+          ? row.correct_answer.join(' ')
+          : row.correct_answer,
+        grammar: {
+          ruleId: row.rule_id,
+          title: row.title,
+          explanation: row.explanation,
+          category: row.category,
+          authoredHint: row.hint,
+        },
+      };
+    }
+
+    const answer = request.answer?.trim();
+    if (!answer) {
+      throw new HintError('answer is required for hints');
+    }
+    return { answer, grammar: null };
+  }
+
+  /**
+   * Paradigm drills carry their own explanation; it serves as the grammar hint
+   */
+  private resolveDrillTarget(drillId: string): HintTarget {
+    const drill = this.drills.resolve(drillId);
+    if (!drill) {
+      throw new HintError('Exercise not found', 404);
+    }
+
+    return {
+      answer: drill.exercise.correctAnswer as string,
+      grammar: {
+        ruleId: drill.exercise.grammarRuleId,
+        title: drill.exercise.prompt,
+        explanation: drill.exercise.explanation,
+        category: drill.kind === 'conjugation' ? 'verbs' : 'cases',
+        authoredHint: drill.exercise.explanation,
+      },
+    };
+  }
+
+  private async buildHintText(
+    type: HintType,
+    userId: string,
+    request: HintRequest,
+    target: HintTarget
+  ): Promise<string> {
+    switch (type) {
+      case 'first_letter':
+        return `Starts with "${Array.from(target.answer)[0]}"`;
+
+      case 'word_count': {
+        const words = target.answer.split(/\s+/);
+        return words.length === 1
+          ? `One word, ${Array.from(words[0]).length} letters`
+          : `${words.length} words`;
+      }
+
+      case 'grammar':
+        return (await this.getGrammarHint(request, target)) ?? 'No grammar hint for this item';
+
+      case 'cross_language_example':
+        return (
+          (await this.getCrossLanguageExample(userId, request, target)) ??
+          'No example in your other languages'
+        );
+
+      case 'reveal':
+        return `Answer: "${target.answer}"`;
+    }
+  }
+
+  private async getGrammarHint(request: HintRequest, target: HintTarget): Promise<string | null> {
+    if (target.grammar) {
+      if (target.grammar.authoredHint) {
+        return target.grammar.authoredHint;
+      }
+      const firstSentence = target.grammar.explanation?.split(/(?<=[.!?])\s/)[0];
+      return firstSentence ? `${target.grammar.title}: ${firstSentence}` : target.grammar.title;
+    }
+
+    if (!request.meaningId) {
+      return null;
+    }
+
+    const result = await this.pool.query<{ part_of_speech: string | null }>(
+      `SELECT part_of_speech FROM approved_meanings WHERE id = $1`,
+      [request.meaningId]
+    );
+    const partOfSpeech = result.rows[0]?.part_of_speech;
+    return partOfSpeech ? `Part of speech: ${partOfSpeech}` : null;
+  }
+
+  /**
+   * The same meaning, or an example of the same kind of rule, in another
+   * language the user studies
+   */
+  private async getCrossLanguageExample(
+    userId: string,
+    request: HintRequest,
+    target: HintTarget
+  ): Promise<string | null> {
+    if (target.grammar) {
+      const result = await this.pool.query<{ language: string; examples: unknown }>(
+        `SELECT ar.language, ar.examples
+         FROM approved_rules ar
+         JOIN user_languages ul ON ul.language = ar.language AND ul.user_id = $1
+         WHERE ar.category = $2 AND ar.language <> $3
+         ORDER BY ul.started_at ASC
+         LIMIT 1`,
+        [userId, target.grammar.category, request.language]
+      );
+      const row = result.rows[0];
+      const example = Array.isArray(row?.examples)
+        ? (row.examples[0] as { text?: string } | undefined)?.text
+        : undefined;
+      return example ? `In ${row.language}: "${example}"` : null;
+    }
+
+    if (!request.meaningId) {
+      return null;
+    }
+
+    const result = await this.pool.query<{ language: string; text: string }>(
+      `SELECT au.language, au.text
+       FROM approved_utterances au
+       JOIN user_languages ul ON ul.language = au.language AND ul.user_id = $1
+       WHERE au.meaning_id = $2
+         AND au.language <> $3
+         AND au.text IS NOT NULL
+       ORDER BY ul.started_at ASC
+       LIMIT 1`,
+      [userId, request.meaningId, request.language]
+    );
+    const row = result.rows[0];
+    return row ? `In ${row.language}: "${row.text}"` : null;
+  }
+
+  private async recordUsage(userId: string, request: HintRequest, type: HintType): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO hint_usage
+       (user_id, exercise_type, language, item_id, hint_level, hint_type, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, NOW())`,
+      [
+        userId,
+        request.exerciseType,
+        request.language,
+        request.grammarExerciseId ?? request.meaningId ?? null,
+        request.level,
+        type,
+      ]
+    );
+  }
+}
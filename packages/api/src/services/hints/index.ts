@@ -0,0 +1,2 @@
+export * from './hint.interface';
+export { HintService, applyHintPenalty } from './hint.service';
@@ -8,6 +8,7 @@ import {
   InterferenceType,
   InterferenceTrend,
 } from './interference.interface';
+import { AnswerEvaluator, stringSimilarity } from '../evaluation';
 
 const LANGUAGE_NAMES: Record<string, string> = {
   EN: 'English',
@@ -47,8 +48,11 @@ interface PatternRow {
  */
 export class InterferenceDetectionService {
   private readonly INTERFERENCE_THRESHOLD = 0.8;
+  private readonly evaluator: AnswerEvaluator;
 
-  constructor(private readonly pool: Pool) {}
+  constructor(private readonly pool: Pool) {
+    this.evaluator = new AnswerEvaluator();
+  }
 
   /**
    * Analyze an incorrect answer for potential interference from other languages
@@ -183,7 +187,9 @@ export class InterferenceDetectionService {
     userAnswer: string,
     itemType: InterferenceType
   ): Promise<{ itemId: string; matchedText: string; similarity: number } | null> {
-    const normalizedAnswer = userAnswer.toLowerCase().trim();
+    // The answer is suspected to be written in this language, so both sides
+    // are normalized with its rules
+    const normalizedAnswer = this.evaluator.normalize(userAnswer, language);
 
     if (itemType === 'vocabulary') {
       // Search in user's vocabulary for this language
@@ -206,7 +212,10 @@ export class InterferenceDetectionService {
       let bestMatch: { itemId: string; matchedText: string; similarity: number } | null = null;
 
       for (const row of result.rows) {
-        const similarity = this.calculateSimilarity(normalizedAnswer, row.text.toLowerCase());
+        const similarity = stringSimilarity(
+          normalizedAnswer,
+          this.evaluator.normalize(row.text, language)
+        );
         if (similarity >= this.INTERFERENCE_THRESHOLD) {
           if (!bestMatch || similarity > bestMatch.similarity) {
             bestMatch = {
@@ -237,7 +246,10 @@ export class InterferenceDetectionService {
       let bestMatch: { itemId: string; matchedText: string; similarity: number } | null = null;
 
       for (const row of result.rows) {
-        const similarity = this.calculateSimilarity(normalizedAnswer, row.title.toLowerCase());
+        const similarity = stringSimilarity(
+          normalizedAnswer,
+          this.evaluator.normalize(row.title, language)
+        );
         if (similarity >= this.INTERFERENCE_THRESHOLD) {
           if (!bestMatch || similarity > bestMatch.similarity) {
             bestMatch = {
@@ -253,54 +265,6 @@ export class InterferenceDetectionService {
     }
   }
 
-  /**
-   * Calculate similarity between two strings using Levenshtein distance
-   */
-  private calculateSimilarity(str1: string, str2: string): number {
-    if (str1 === str2) return 1;
-    if (str1.length === 0 || str2.length === 0) return 0;
-
-    const longer = str1.length > str2.length ? str1 : str2;
-    const shorter = str1.length > str2.length ? str2 : str1;
-
-    const longerLength = longer.length;
-    if (longerLength === 0) return 1.0;
-
-    const distance = this.levenshteinDistance(longer, shorter);
-    return (longerLength - distance) / longerLength;
-  }
-
-  /**
-   * Calculate Levenshtein distance between two strings
-   */
-  private levenshteinDistance(str1: string, str2: string): number {
-    const matrix: number[][] = [];
-
-    for (let i = 0; i <= str2.length; i++) {
-      matrix[i] = [i];
-    }
-
-    for (let j = 0; j <= str1.length; j++) {
-      matrix[0][j] = j;
-    }
-
-    for (let i = 1; i <= str2.length; i++) {
-      for (let j = 1; j <= str1.length; j++) {
-        if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1];
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1, // substitution
-            matrix[i][j - 1] + 1, // insertion
-            matrix[i - 1][j] + 1 // deletion
-          );
-        }
-      }
-    }
-
-    return matrix[str2.length][str1.length];
-  }
-
   /**
    * Generate human-readable explanation of interference
    */
@@ -338,6 +302,24 @@ export class InterferenceDetectionService {
     return result.rows.map((row) => this.mapRowToPattern(row));
   }
 
+  /**
+   * Get the most frequent unresolved interference pattern for a target item
+   */
+  async getActivePatternForItem(
+    userId: string,
+    targetItemId: string
+  ): Promise<InterferencePattern | null> {
+    const result = await this.pool.query<PatternRow>(
+      `SELECT * FROM interference_patterns
+       WHERE user_id = $1 AND target_item_id = $2 AND remediation_completed = false
+       ORDER BY occurrence_count DESC, last_occurrence DESC
+       LIMIT 1`,
+      [userId, targetItemId]
+    );
+
+    return result.rows.length > 0 ? this.mapRowToPattern(result.rows[0]) : null;
+  }
+
   /**
    * Generate remediation exercises for an interference pattern
    */
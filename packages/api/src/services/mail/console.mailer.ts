@@ -0,0 +1,30 @@
+import { Mailer, MailerTransport, MailMessage } from './mailer.interface';
+
+/**
+ * ConsoleMailer prints messages instead of sending them, so links in
+ * verification and reset mails can be followed during local development
+ */
+export class ConsoleMailer implements Mailer {
+  readonly transport: MailerTransport = 'console';
+
+  constructor(
+    private readonly from: string,
+    private readonly output: NodeJS.WritableStream = process.stdout
+  ) {}
+
+  send(message: MailMessage): Promise<void> {
+    this.output.write(
+      [
+        '----- mail -----',
+        `From: ${this.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        '',
+        message.text,
+        '----------------',
+        '',
+      ].join('\n')
+    );
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,37 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { Mailer, MailerTransport, MailMessage } from './mailer.interface';
+
+/**
+ * A message as recorded by FileMailer
+ */
+export interface RecordedMail extends MailMessage {
+  from: string;
+  sentAt: string;
+}
+
+/**
+ * FileMailer appends every message to a JSON lines file
+ *
+ * Used by tests and local setups that need to read the mails back, e.g.
+ * to follow a verification link.
+ */
+export class FileMailer implements Mailer {
+  readonly transport: MailerTransport = 'file';
+
+  constructor(
+    private readonly from: string,
+    private readonly filePath: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const recorded: RecordedMail = {
+      ...message,
+      from: this.from,
+      sentAt: new Date().toISOString(),
+    };
+
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${JSON.stringify(recorded)}\n`, 'utf8');
+  }
+}
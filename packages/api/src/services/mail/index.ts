@@ -0,0 +1,6 @@
+export * from './mailer.interface';
+export { SmtpMailer, MailDeliveryError } from './smtp.mailer';
+export { FileMailer } from './file.mailer';
+export type { RecordedMail } from './file.mailer';
+export { ConsoleMailer } from './console.mailer';
+export { createMailer, MAILER_TRANSPORTS } from './mailer-factory';
@@ -0,0 +1,26 @@
+import { ConsoleMailer } from './console.mailer';
+import { FileMailer } from './file.mailer';
+import { Mailer, MailerConfig, MailerTransport } from './mailer.interface';
+import { SmtpMailer } from './smtp.mailer';
+
+export const MAILER_TRANSPORTS: readonly MailerTransport[] = ['smtp', 'file', 'console'];
+
+/**
+ * Create the mailer for the configured transport
+ */
+export function createMailer(config: MailerConfig): Mailer {
+  switch (config.transport) {
+    case 'smtp':
+      if (!config.smtp?.host) {
+        throw new Error('SMTP_HOST is required for the smtp mailer');
+      }
+      return new SmtpMailer(config.from, config.smtp);
+    case 'file':
+      if (!config.filePath) {
+        throw new Error('MAILER_FILE_PATH is required for the file mailer');
+      }
+      return new FileMailer(config.from, config.filePath);
+    case 'console':
+      return new ConsoleMailer(config.from);
+  }
+}
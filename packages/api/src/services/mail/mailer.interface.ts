@@ -0,0 +1,46 @@
+/**
+ * Ways outgoing mail can be delivered
+ * - smtp: an SMTP relay
+ * - file: appended to a local file, one JSON message per line
+ * - console: printed to stdout, for local development
+ */
+export type MailerTransport = 'smtp' | 'file' | 'console';
+
+/**
+ * SMTP relay settings
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the first byte (port 465); otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Mail delivery settings
+ */
+export interface MailerConfig {
+  transport: MailerTransport;
+  from: string; // e.g. "PolyLadder <no-reply@example.com>"
+  smtp?: SmtpConfig;
+  filePath?: string;
+}
+
+/**
+ * A plain-text message to a single recipient
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Adapter around a mail delivery channel
+ */
+export interface Mailer {
+  readonly transport: MailerTransport;
+  send(message: MailMessage): Promise<void>;
+}
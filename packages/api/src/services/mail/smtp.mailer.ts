@@ -0,0 +1,253 @@
+import { randomUUID } from 'crypto';
+import { connect as netConnect, Socket } from 'net';
+import { connect as tlsConnect, TLSSocket } from 'tls';
+import { Mailer, MailerTransport, MailMessage, SmtpConfig } from './mailer.interface';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+/**
+ * Error thrown when the SMTP relay does not accept a message
+ */
+export class MailDeliveryError extends Error {
+  statusCode: number;
+  constructor(message: string, statusCode: number = 502) {
+    super(message);
+    this.name = 'MailDeliveryError';
+    this.statusCode = statusCode;
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One SMTP conversation: reads replies line by line and sends commands
+ */
+class SmtpConnection {
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+  private failure: Error | null = null;
+
+  constructor(
+    private socket: Socket,
+    private readonly timeoutMs: number
+  ) {
+    this.attach(socket);
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    // Only the verb: AUTH lines carry credentials
+    return this.expect(line.split(' ')[0], expected);
+  }
+
+  async expect(step: string, expected: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new MailDeliveryError(
+        `SMTP ${step} rejected: ${reply.code} ${reply.lines.join(' ')}`.trim()
+      );
+    }
+    return reply;
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  /**
+   * Switch the connection to TLS after a successful STARTTLS
+   */
+  async upgrade(servername: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.removeAllListeners('timeout');
+
+    const secure = tlsConnect({ socket: plain, servername });
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve);
+      secure.once('error', reject);
+    });
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private attach(socket: Socket | TLSSocket): void {
+    socket.setTimeout(this.timeoutMs);
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')));
+    socket.on('timeout', () => socket.destroy(new Error('SMTP server timed out')));
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private receive(data: string): void {
+    this.buffer += data;
+    let end = this.buffer.indexOf('\r\n');
+    while (end !== -1) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.replyLines.push(line);
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = {
+          code: parseInt(line.slice(0, 3), 10),
+          lines: this.replyLines.map((replyLine) => replyLine.slice(4)),
+        };
+        this.replyLines = [];
+        if (this.waiting) {
+          this.waiting.resolve(reply);
+          this.waiting = null;
+        } else {
+          this.replies.push(reply);
+        }
+      }
+      end = this.buffer.indexOf('\r\n');
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiting) {
+      this.waiting.reject(this.failure);
+      this.waiting = null;
+    }
+  }
+}
+
+/**
+ * Address part of "Name <address>"
+ */
+function mailbox(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim();
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * SmtpMailer delivers mail through an SMTP relay
+ *
+ * Implicit TLS is used when configured; otherwise the connection is
+ * upgraded with STARTTLS whenever the server offers it. Credentials are
+ * never sent over an unencrypted connection.
+ */
+export class SmtpMailer implements Mailer {
+  readonly transport: MailerTransport = 'smtp';
+
+  constructor(
+    private readonly from: string,
+    private readonly config: SmtpConfig
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const connection = this.open();
+
+    try {
+      await connection.expect('greeting', [220]);
+      const capabilities = await this.hello(connection);
+      let encrypted = this.config.secure;
+
+      if (!encrypted && capabilities.includes('STARTTLS')) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(this.config.host);
+        await this.hello(connection);
+        encrypted = true;
+      }
+
+      if (this.config.user) {
+        if (!encrypted) {
+          throw new MailDeliveryError('SMTP server does not support TLS; refusing to authenticate');
+        }
+        const credentials = Buffer.from(
+          `\u0000${this.config.user}\u0000${this.config.password ?? ''}`,
+          'utf8'
+        ).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${mailbox(this.from)}>`, [250]);
+      await connection.command(`RCPT TO:<${mailbox(message.to)}>`, [250, 251]);
+      await connection.command('DATA', [354]);
+      connection.write(this.format(message));
+      await connection.expect('DATA', [250]);
+      await connection.command('QUIT', [221]).catch(() => undefined);
+    } catch (error) {
+      if (error instanceof MailDeliveryError) {
+        throw error;
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new MailDeliveryError(`SMTP delivery failed: ${reason}`);
+    } finally {
+      connection.close();
+    }
+  }
+
+  private open(): SmtpConnection {
+    const { host, port, secure } = this.config;
+    const timeoutMs = this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    const socket = secure
+      ? tlsConnect({ host, port, servername: host })
+      : netConnect({ host, port });
+
+    return new SmtpConnection(socket, timeoutMs);
+  }
+
+  /**
+   * EHLO; returns the extension keywords the server advertises
+   */
+  private async hello(connection: SmtpConnection): Promise<string[]> {
+    const reply = await connection.command('EHLO polyladder', [250]);
+    return reply.lines.slice(1).map((line) => line.split(' ')[0].toUpperCase());
+  }
+
+  private format(message: MailMessage): string {
+    const domain = mailbox(this.from).split('@')[1] ?? 'localhost';
+    const body = Buffer.from(message.text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+    const lines = [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${randomUUID()}@${domain}>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      body,
+    ];
+
+    // Base64 never starts a line with ".", so no dot-stuffing is needed
+    return `${lines.join('\r\n')}\r\n.\r\n`;
+  }
+}
@@ -8,6 +8,21 @@ export interface OrthographyGateProgress {
   updatedAt: string;
 }
 
+/**
+ * Standing of a learner's minimal-pair listening toward the gate
+ */
+export interface MinimalPairGateProgress {
+  attempts: number;
+  accuracy: number;
+  requiredAttempts: number;
+  requiredAccuracy: number;
+  gateCompleted: boolean;
+}
+
+// Minimal-pair answers counted toward the gate, most recent first
+const MINIMAL_PAIR_WINDOW = 20;
+const MINIMAL_PAIR_PASS_ACCURACY = 0.8;
+
 interface GateRow {
   language: string;
   status: string;
@@ -142,6 +157,54 @@ export class OrthographyGateService {
     return this.checkGateStatus(userId, language);
   }
 
+  /**
+   * Record a minimal-pair listening answer; the gate completes once the
+   * last MINIMAL_PAIR_WINDOW answers reach the pass accuracy
+   */
+  async recordMinimalPairResult(
+    userId: string,
+    language: string,
+    pairId: string,
+    correct: boolean
+  ): Promise<MinimalPairGateProgress> {
+    await this.pool.query(
+      `INSERT INTO minimal_pair_results (user_id, language, pair_id, correct)
+       VALUES ($1, $2, $3, $4)`,
+      [userId, language, pairId, correct]
+    );
+
+    const statsResult = await this.pool.query<{ attempts: number; accuracy: number }>(
+      `SELECT COUNT(*)::int as attempts,
+              COALESCE(AVG(CASE WHEN correct THEN 1.0 ELSE 0.0 END), 0)::float as accuracy
+       FROM (
+         SELECT correct FROM minimal_pair_results
+         WHERE user_id = $1 AND language = $2
+         ORDER BY created_at DESC
+         LIMIT $3
+       ) recent`,
+      [userId, language, MINIMAL_PAIR_WINDOW]
+    );
+    const { attempts, accuracy } = statsResult.rows[0];
+
+    let gateCompleted = await this.checkGateStatus(userId, language);
+    if (
+      !gateCompleted &&
+      attempts >= MINIMAL_PAIR_WINDOW &&
+      accuracy >= MINIMAL_PAIR_PASS_ACCURACY
+    ) {
+      await this.markGateCompleted(userId, language);
+      gateCompleted = true;
+    }
+
+    return {
+      attempts,
+      accuracy,
+      requiredAttempts: MINIMAL_PAIR_WINDOW,
+      requiredAccuracy: MINIMAL_PAIR_PASS_ACCURACY,
+      gateCompleted,
+    };
+  }
+
   async resetGate(userId: string, language: string): Promise<void> {
     await this.pool.query(
       `UPDATE user_orthography_gates
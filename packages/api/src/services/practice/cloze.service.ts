@@ -1,4 +1,7 @@
 import { Pool } from 'pg';
+import { SRSService } from '../srs/srs.service';
+import { AnswerError, AnswerEvaluator, DiacriticService, foldDiacritics } from '../evaluation';
+import { applyHintPenalty } from '../hints';
 
 /**
  * A single cloze exercise for fill-in-the-blank practice
@@ -29,6 +32,7 @@ export interface ClozeValidationResult {
   feedback: string;
   correctAnswer: string;
   partialCredit: number;
+  errors: AnswerError[];
 }
 
 /**
@@ -36,9 +40,15 @@ export interface ClozeValidationResult {
  * from approved vocabulary and tracks results with SRS integration.
  */
 export class ClozeExerciseService {
-  private readonly MIN_EASE_FACTOR = 1.3;
-
-  constructor(private readonly pool: Pool) {}
+  private readonly srsService: SRSService;
+  private readonly evaluator: AnswerEvaluator;
+  private readonly diacritics: DiacriticService;
+
+  constructor(private readonly pool: Pool) {
+    this.srsService = new SRSService(pool);
+    this.evaluator = new AnswerEvaluator();
+    this.diacritics = new DiacriticService(pool);
+  }
 
   /**
    * Get cloze exercises from approved_exercises or generate from vocabulary
@@ -151,6 +161,7 @@ export class ClozeExerciseService {
        WHERE usi.user_id = $1
          AND usi.language = $2
          AND usi.next_review_at <= current_timestamp
+         AND usi.suspended_at IS NULL
          AND au.text IS NOT NULL
          AND au.usage_notes IS NOT NULL
          AND LENGTH(au.usage_notes) > 10
@@ -225,6 +236,12 @@ export class ClozeExerciseService {
 
   /**
    * Validate user answer with fuzzy matching
+   *
+   * Diacritic mistakes are graded by the user's diacritic strictness; when
+   * lenient they count as minor spelling differences.
+   *
+   * @param language Language of the exercise (enables language-aware matching)
+   * @param hintsUsed Rungs of the hint ladder used before answering
    */
   async validateClozeAnswer(
     userId: string,
@@ -233,70 +250,92 @@ export class ClozeExerciseService {
     correctAnswer: string,
     alternativeAnswers: string[],
     meaningId: string | null,
-    timeSpentMs: number
+    timeSpentMs: number,
+    language?: string,
+    hintsUsed: number = 0
   ): Promise<ClozeValidationResult> {
-    const trimmedAnswer = userAnswer.trim();
+    const diacritics = await this.diacritics.getStrictness(userId);
+    const evaluation = this.evaluator.evaluate(userAnswer, correctAnswer, language, {
+      diacritics,
+    });
+    await this.diacritics.recordChecks(userId, language, evaluation.diacriticChecks);
 
-    // Exact match (case-insensitive)
-    if (trimmedAnswer.toLowerCase() === correctAnswer.toLowerCase()) {
-      await this.recordResult(userId, exerciseId, meaningId, true, 5, timeSpentMs);
+    // Exact match
+    if (evaluation.isExact) {
+      await this.recordResult(userId, exerciseId, meaningId, true, 5, timeSpentMs, hintsUsed);
       return {
         isCorrect: true,
         similarity: 1.0,
         feedback: 'Perfect!',
         correctAnswer,
         partialCredit: 1.0,
+        errors: [],
       };
     }
 
     // Check alternatives
-    const matchesAlternative = alternativeAnswers.some(
-      (alt) => alt.toLowerCase() === trimmedAnswer.toLowerCase()
-    );
+    const matchesAlternative =
+      alternativeAnswers.length > 0 &&
+      this.evaluator.evaluate(userAnswer, alternativeAnswers, language, { diacritics }).isExact;
 
     if (matchesAlternative) {
-      await this.recordResult(userId, exerciseId, meaningId, true, 5, timeSpentMs);
+      await this.recordResult(userId, exerciseId, meaningId, true, 5, timeSpentMs, hintsUsed);
       return {
         isCorrect: true,
         similarity: 1.0,
         feedback: 'Correct!',
         correctAnswer,
         partialCredit: 1.0,
+        errors: [],
       };
     }
 
     // Fuzzy matching - check similarity
-    const similarity = this.calculateSimilarity(trimmedAnswer, correctAnswer);
+    const similarity = evaluation.score;
+    const diagnosis = this.evaluator.describe(evaluation.errors);
 
     if (similarity >= 0.9) {
       // Very close - accept with note about spelling
-      await this.recordResult(userId, exerciseId, meaningId, true, 4, timeSpentMs);
+      await this.recordResult(userId, exerciseId, meaningId, true, 4, timeSpentMs, hintsUsed);
       return {
         isCorrect: true,
         similarity,
-        feedback: 'Correct! (minor spelling difference)',
+        feedback: ['Correct! (minor spelling difference)', diagnosis].filter(Boolean).join(' '),
         correctAnswer,
         partialCredit: 0.9,
+        errors: evaluation.errors,
       };
     } else if (similarity >= 0.7) {
       // Close but not quite
-      await this.recordResult(userId, exerciseId, meaningId, false, 2, timeSpentMs);
+      await this.recordResult(userId, exerciseId, meaningId, false, 2, timeSpentMs, hintsUsed);
       return {
         isCorrect: false,
         similarity,
-        feedback: `Close! The correct answer is "${correctAnswer}".`,
+        feedback: ['Close!', diagnosis, `The correct answer is "${correctAnswer}".`]
+          .filter(Boolean)
+          .join(' '),
         correctAnswer,
         partialCredit: 0.5,
+        errors: evaluation.errors,
       };
     } else {
-      // Wrong answer
-      await this.recordResult(userId, exerciseId, meaningId, false, 0, timeSpentMs);
+      // Wrong answer; accent mistakes are still explained (strict grading)
+      const accentNote = this.evaluator.describe(
+        evaluation.errors.filter(
+          (error) => error.type === 'missing_accent' || error.type === 'wrong_accent'
+        )
+      );
+
+      await this.recordResult(userId, exerciseId, meaningId, false, 0, timeSpentMs, hintsUsed);
       return {
         isCorrect: false,
         similarity,
-        feedback: `Incorrect. The correct answer is "${correctAnswer}".`,
+        feedback: ['Incorrect.', accentNote, `The correct answer is "${correctAnswer}".`]
+          .filter(Boolean)
+          .join(' '),
         correctAnswer,
         partialCredit: 0.0,
+        errors: evaluation.errors,
       };
     }
   }
@@ -310,8 +349,11 @@ export class ClozeExerciseService {
     meaningId: string | null,
     isCorrect: boolean,
     quality: number,
-    timeSpentMs: number
+    timeSpentMs: number,
+    hintsUsed: number
   ): Promise<void> {
+    quality = applyHintPenalty(quality, hintsUsed);
+
     // Extract the actual exercise UUID if it's a stored exercise
     const uuidMatch = exerciseId.match(
       /cloze_stored_([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i
@@ -329,79 +371,16 @@ export class ClozeExerciseService {
         actualExerciseId.includes('-') ? actualExerciseId : '00000000-0000-0000-0000-000000000000',
         isCorrect,
         timeSpentMs,
-        JSON.stringify({ quality, meaningId }),
+        JSON.stringify({ quality, meaningId, hintsUsed }),
       ]
     );
 
     // Update SRS if meaningId is provided
     if (meaningId) {
-      await this.updateSRS(userId, meaningId, quality);
+      await this.srsService.recordPracticeResult(userId, 'vocabulary', meaningId, quality, 'cloze');
     }
   }
 
-  /**
-   * Update SRS based on answer quality using SM-2 algorithm
-   */
-  private async updateSRS(userId: string, meaningId: string, quality: number): Promise<void> {
-    interface SRSRow {
-      ease_factor: number;
-      repetitions: number;
-      interval: number;
-    }
-
-    const srsResult = await this.pool.query<SRSRow>(
-      `SELECT ease_factor, repetitions, interval
-       FROM user_srs_items
-       WHERE user_id = $1 AND meaning_id = $2`,
-      [userId, meaningId]
-    );
-
-    if (srsResult.rows.length === 0) {
-      return; // No SRS item to update
-    }
-
-    const current = srsResult.rows[0];
-
-    // Calculate new values using SM-2
-    let newEaseFactor = current.ease_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
-
-    if (newEaseFactor < this.MIN_EASE_FACTOR) {
-      newEaseFactor = this.MIN_EASE_FACTOR;
-    }
-
-    let newRepetitions: number;
-    let newInterval: number;
-
-    if (quality < 3) {
-      newRepetitions = 0;
-      newInterval = 1;
-    } else {
-      newRepetitions = current.repetitions + 1;
-
-      if (newRepetitions === 1) {
-        newInterval = 1;
-      } else if (newRepetitions === 2) {
-        newInterval = 6;
-      } else {
-        newInterval = Math.round(current.interval * newEaseFactor);
-      }
-    }
-
-    const nextReviewAt = new Date();
-    nextReviewAt.setDate(nextReviewAt.getDate() + newInterval);
-
-    await this.pool.query(
-      `UPDATE user_srs_items
-       SET ease_factor = $1,
-           repetitions = $2,
-           interval = $3,
-           next_review_at = $4,
-           last_reviewed_at = current_timestamp
-       WHERE user_id = $5 AND meaning_id = $6`,
-      [newEaseFactor, newRepetitions, newInterval, nextReviewAt, userId, meaningId]
-    );
-  }
-
   /**
    * Get cloze practice statistics
    */
@@ -454,14 +433,7 @@ export class ClozeExerciseService {
     alternatives.add(word.toUpperCase());
 
     // Add version without accents
-    const withoutAccents = word
-      .replace(/[áàäâã]/gi, 'a')
-      .replace(/[éèëê]/gi, 'e')
-      .replace(/[íìïî]/gi, 'i')
-      .replace(/[óòöôõ]/gi, 'o')
-      .replace(/[úùüû]/gi, 'u')
-      .replace(/[ñ]/gi, 'n')
-      .replace(/[ç]/gi, 'c');
+    const withoutAccents = foldDiacritics(word);
 
     alternatives.add(withoutAccents);
     alternatives.add(withoutAccents.toLowerCase());
@@ -472,63 +444,6 @@ export class ClozeExerciseService {
     return Array.from(alternatives);
   }
 
-  /**
-   * Calculate string similarity using Levenshtein distance
-   */
-  private calculateSimilarity(a: string, b: string): number {
-    const normalize = (s: string) =>
-      s
-        .toLowerCase()
-        .replace(/[áàäâã]/g, 'a')
-        .replace(/[éèëê]/g, 'e')
-        .replace(/[íìïî]/g, 'i')
-        .replace(/[óòöôõ]/g, 'o')
-        .replace(/[úùüû]/g, 'u')
-        .replace(/[ñ]/g, 'n')
-        .replace(/[ç]/g, 'c');
-
-    const normA = normalize(a);
-    const normB = normalize(b);
-
-    if (normA === normB) return 1.0;
-
-    const distance = this.levenshteinDistance(normA, normB);
-    const maxLength = Math.max(normA.length, normB.length);
-
-    return maxLength > 0 ? 1 - distance / maxLength : 0;
-  }
-
-  /**
-   * Levenshtein distance algorithm
-   */
-  private levenshteinDistance(a: string, b: string): number {
-    const matrix: number[][] = [];
-
-    for (let i = 0; i <= b.length; i++) {
-      matrix[i] = [i];
-    }
-
-    for (let j = 0; j <= a.length; j++) {
-      matrix[0][j] = j;
-    }
-
-    for (let i = 1; i <= b.length; i++) {
-      for (let j = 1; j <= a.length; j++) {
-        if (b.charAt(i - 1) === a.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1];
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1, // substitution
-            matrix[i][j - 1] + 1, // insertion
-            matrix[i - 1][j] + 1 // deletion
-          );
-        }
-      }
-    }
-
-    return matrix[b.length][a.length];
-  }
-
   /**
    * Escape regex special characters
    */
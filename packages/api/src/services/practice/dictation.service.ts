@@ -1,4 +1,23 @@
 import { Pool } from 'pg';
+import { SRSService } from '../srs/srs.service';
+import { AnswerError, AnswerEvaluator, DiacriticService, WordDiff } from '../evaluation';
+
+export type { DiffType, WordDiff } from '../evaluation';
+
+// Segments are sentences, split further into halves or word groups above this length
+const MAX_SEGMENT_WORDS = 6;
+
+// Listening twice is part of dictation; replays beyond this lower the SRS quality
+const FREE_REPLAYS = 2;
+
+/**
+ * A part of the dictation audio that can be replayed on its own
+ */
+export interface AudioSegment {
+  text: string;
+  startSeconds: number;
+  endSeconds: number;
+}
 
 /**
  * A single dictation exercise
@@ -10,21 +29,7 @@ export interface DictationExercise {
   meaningId: string;
   cefrLevel: string;
   wordCount: number;
-}
-
-/**
- * Word-level diff types
- */
-export type DiffType = 'correct' | 'substitution' | 'insertion' | 'deletion';
-
-/**
- * Word-level difference for highlighting
- */
-export interface WordDiff {
-  type: DiffType;
-  expected?: string;
-  actual?: string;
-  position: number;
+  segments: AudioSegment[]; // Empty when the audio length is unknown
 }
 
 /**
@@ -35,6 +40,7 @@ export interface DictationResult {
   characterAccuracy: number;
   wordAccuracy: number;
   diff: WordDiff[];
+  errors: AnswerError[];
   correctTranscript: string;
   qualityRating: number;
 }
@@ -44,9 +50,15 @@ export interface DictationResult {
  * with fuzzy matching and word-level diff generation.
  */
 export class DictationService {
-  private readonly MIN_EASE_FACTOR = 1.3;
-
-  constructor(private readonly pool: Pool) {}
+  private readonly srsService: SRSService;
+  private readonly evaluator: AnswerEvaluator;
+  private readonly diacritics: DiacriticService;
+
+  constructor(private readonly pool: Pool) {
+    this.srsService = new SRSService(pool);
+    this.evaluator = new AnswerEvaluator();
+    this.diacritics = new DiacriticService(pool);
+  }
 
   /**
    * Get dictation exercises from SRS items that have audio
@@ -60,6 +72,7 @@ export class DictationService {
       meaning_id: string;
       text: string;
       audio_url: string;
+      audio_length: number | null;
       level: string;
     }
 
@@ -68,6 +81,7 @@ export class DictationService {
          usi.meaning_id,
          au.text,
          au.audio_url,
+         au.audio_length,
          am.level
        FROM user_srs_items usi
        JOIN approved_meanings am ON usi.meaning_id = am.id
@@ -75,6 +89,7 @@ export class DictationService {
        WHERE usi.user_id = $1
          AND usi.language = $2
          AND usi.next_review_at <= current_timestamp
+         AND usi.suspended_at IS NULL
          AND au.audio_url IS NOT NULL
          AND au.text IS NOT NULL
          AND LENGTH(au.text) >= 3
@@ -90,33 +105,46 @@ export class DictationService {
       meaningId: row.meaning_id,
       cefrLevel: row.level,
       wordCount: this.countWords(row.text),
+      segments: this.segmentTranscript(row.text, row.audio_length),
     }));
   }
 
   /**
    * Validate user's dictation against correct transcript
+   *
+   * @param language Language of the transcript (enables language-aware matching)
+   * @param replayCount Times the audio or a segment was played after the first listen
    */
   async validateDictation(
     userId: string,
     meaningId: string,
     userTranscript: string,
     correctTranscript: string,
-    timeSpentMs: number
+    timeSpentMs: number,
+    language?: string,
+    replayCount: number = 0
   ): Promise<DictationResult> {
-    const normalizedUser = this.normalizeText(userTranscript);
-    const normalizedCorrect = this.normalizeText(correctTranscript);
-
-    // Calculate character-level accuracy
-    const characterAccuracy = this.calculateCharacterAccuracy(normalizedUser, normalizedCorrect);
+    const diacritics = await this.diacritics.getStrictness(userId);
+    const evaluation = this.evaluator.evaluate(userTranscript, correctTranscript, language, {
+      diacritics,
+    });
+    await this.diacritics.recordChecks(userId, language, evaluation.diacriticChecks);
 
-    // Calculate word-level accuracy with diff
-    const { wordAccuracy, diff } = this.calculateWordDiff(normalizedUser, normalizedCorrect);
+    // Character-level accuracy, diacritics graded by the user's strictness
+    const characterAccuracy = evaluation.score;
+    const { wordAccuracy, diff, errors } = evaluation;
 
     // Determine SRS quality rating
-    const qualityRating = this.accuracyToQuality(characterAccuracy);
+    const qualityRating = this.accuracyToQuality(characterAccuracy, replayCount);
 
     // Update SRS
-    await this.updateSRS(userId, meaningId, qualityRating);
+    await this.srsService.recordPracticeResult(
+      userId,
+      'vocabulary',
+      meaningId,
+      qualityRating,
+      'dictation'
+    );
 
     // Record attempt
     await this.recordAttempt(
@@ -125,7 +153,8 @@ export class DictationService {
       userTranscript,
       characterAccuracy >= 0.9,
       characterAccuracy,
-      timeSpentMs
+      timeSpentMs,
+      replayCount
     );
 
     return {
@@ -133,6 +162,7 @@ export class DictationService {
       characterAccuracy,
       wordAccuracy,
       diff,
+      errors,
       correctTranscript,
       qualityRating,
     };
@@ -175,215 +205,25 @@ export class DictationService {
     };
   }
 
-  /**
-   * Normalize text for comparison
-   */
-  private normalizeText(text: string): string {
-    return text
-      .trim()
-      .toLowerCase()
-      .replace(/\s+/g, ' ')
-      .replace(/['']/g, "'")
-      .replace(/[""]/g, '"')
-      .replace(/([.!?,;:]+)\s*/g, '$1 ')
-      .trim();
-  }
-
-  /**
-   * Calculate character-level accuracy using Levenshtein distance
-   */
-  private calculateCharacterAccuracy(user: string, correct: string): number {
-    const distance = this.levenshteinDistance(user, correct);
-    const maxLength = Math.max(user.length, correct.length);
-
-    if (maxLength === 0) return 1.0;
-
-    return Math.max(0, 1 - distance / maxLength);
-  }
-
-  /**
-   * Levenshtein distance algorithm
-   */
-  private levenshteinDistance(a: string, b: string): number {
-    const matrix: number[][] = [];
-
-    for (let i = 0; i <= b.length; i++) {
-      matrix[i] = [i];
-    }
-
-    for (let j = 0; j <= a.length; j++) {
-      matrix[0][j] = j;
-    }
-
-    for (let i = 1; i <= b.length; i++) {
-      for (let j = 1; j <= a.length; j++) {
-        if (b.charAt(i - 1) === a.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1];
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1,
-            matrix[i][j - 1] + 1,
-            matrix[i - 1][j] + 1
-          );
-        }
-      }
-    }
-
-    return matrix[b.length][a.length];
-  }
-
-  /**
-   * Calculate word-level accuracy and generate diff
-   */
-  private calculateWordDiff(
-    user: string,
-    correct: string
-  ): { wordAccuracy: number; diff: WordDiff[] } {
-    const userWords = user.split(' ').filter((w) => w.length > 0);
-    const correctWords = correct.split(' ').filter((w) => w.length > 0);
-
-    const m = userWords.length;
-    const n = correctWords.length;
-
-    // DP matrix for edit distance
-    const dp: number[][] = [];
-    for (let i = 0; i <= m; i++) {
-      dp[i] = new Array<number>(n + 1).fill(0);
-    }
-
-    for (let i = 0; i <= m; i++) dp[i][0] = i;
-    for (let j = 0; j <= n; j++) dp[0][j] = j;
-
-    for (let i = 1; i <= m; i++) {
-      for (let j = 1; j <= n; j++) {
-        if (userWords[i - 1] === correctWords[j - 1]) {
-          dp[i][j] = dp[i - 1][j - 1];
-        } else {
-          dp[i][j] = 1 + Math.min(dp[i - 1][j - 1], dp[i - 1][j], dp[i][j - 1]);
-        }
-      }
-    }
-
-    const editDistance = dp[m][n];
-    const maxWords = Math.max(m, n);
-    const wordAccuracy = maxWords === 0 ? 1.0 : Math.max(0, 1 - editDistance / maxWords);
-
-    // Backtrack to generate diff
-    const diff: WordDiff[] = [];
-    let i = m,
-      j = n;
-
-    while (i > 0 || j > 0) {
-      if (i > 0 && j > 0 && userWords[i - 1] === correctWords[j - 1]) {
-        diff.unshift({
-          type: 'correct',
-          expected: correctWords[j - 1],
-          actual: userWords[i - 1],
-          position: j - 1,
-        });
-        i--;
-        j--;
-      } else if (i > 0 && j > 0 && dp[i][j] === dp[i - 1][j - 1] + 1) {
-        diff.unshift({
-          type: 'substitution',
-          expected: correctWords[j - 1],
-          actual: userWords[i - 1],
-          position: j - 1,
-        });
-        i--;
-        j--;
-      } else if (i > 0 && dp[i][j] === dp[i - 1][j] + 1) {
-        diff.unshift({
-          type: 'insertion',
-          actual: userWords[i - 1],
-          position: j,
-        });
-        i--;
-      } else if (j > 0) {
-        diff.unshift({
-          type: 'deletion',
-          expected: correctWords[j - 1],
-          position: j - 1,
-        });
-        j--;
-      }
-    }
-
-    return { wordAccuracy, diff };
-  }
-
   /**
    * Convert accuracy to SRS quality rating
+   *
+   * Each replay beyond the free ones lowers a passing quality by one, but
+   * never below 3: needing many replays makes an item hard, not failed.
    */
-  private accuracyToQuality(accuracy: number): number {
-    if (accuracy >= 0.95) return 5;
-    if (accuracy >= 0.85) return 4;
-    if (accuracy >= 0.7) return 3;
-    if (accuracy >= 0.5) return 2;
-    return 0;
-  }
-
-  /**
-   * Update SRS scheduling based on quality
-   */
-  private async updateSRS(userId: string, meaningId: string, quality: number): Promise<void> {
-    interface SRSRow {
-      ease_factor: number;
-      repetitions: number;
-      interval: number;
-    }
-
-    const srsResult = await this.pool.query<SRSRow>(
-      `SELECT ease_factor, repetitions, interval
-       FROM user_srs_items
-       WHERE user_id = $1 AND meaning_id = $2`,
-      [userId, meaningId]
-    );
-
-    if (srsResult.rows.length === 0) {
-      return;
-    }
-
-    const current = srsResult.rows[0];
-
-    // SM-2 algorithm
-    let newEaseFactor = current.ease_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
-
-    if (newEaseFactor < this.MIN_EASE_FACTOR) {
-      newEaseFactor = this.MIN_EASE_FACTOR;
-    }
-
-    let newRepetitions: number;
-    let newInterval: number;
-
-    if (quality < 3) {
-      newRepetitions = 0;
-      newInterval = 1;
-    } else {
-      newRepetitions = current.repetitions + 1;
-
-      if (newRepetitions === 1) {
-        newInterval = 1;
-      } else if (newRepetitions === 2) {
-        newInterval = 6;
-      } else {
-        newInterval = Math.round(current.interval * newEaseFactor);
-      }
+  private accuracyToQuality(accuracy: number, replayCount: number): number {
+    let quality: number;
+    if (accuracy >= 0.95) quality = 5;
+    else if (accuracy >= 0.85) quality = 4;
+    else if (accuracy >= 0.7) quality = 3;
+    else if (accuracy >= 0.5) quality = 2;
+    else quality = 0;
+
+    const extraReplays = Math.max(0, replayCount - FREE_REPLAYS);
+    if (quality > 3 && extraReplays > 0) {
+      quality = Math.max(3, quality - extraReplays);
     }
-
-    const nextReviewAt = new Date();
-    nextReviewAt.setDate(nextReviewAt.getDate() + newInterval);
-
-    await this.pool.query(
-      `UPDATE user_srs_items
-       SET ease_factor = $1,
-           repetitions = $2,
-           interval = $3,
-           next_review_at = $4,
-           last_reviewed_at = current_timestamp
-       WHERE user_id = $5 AND meaning_id = $6`,
-      [newEaseFactor, newRepetitions, newInterval, nextReviewAt, userId, meaningId]
-    );
+    return quality;
   }
 
   /**
@@ -395,7 +235,8 @@ export class DictationService {
     userTranscript: string,
     isCorrect: boolean,
     accuracy: number,
-    timeSpentMs: number
+    timeSpentMs: number,
+    replayCount: number
   ): Promise<void> {
     await this.pool.query(
       `INSERT INTO user_exercise_results
@@ -407,11 +248,80 @@ export class DictationService {
         '00000000-0000-0000-0000-000000000000',
         isCorrect,
         timeSpentMs,
-        JSON.stringify({ transcript: userTranscript, accuracy, meaningId }),
+        JSON.stringify({ transcript: userTranscript, accuracy, meaningId, replayCount }),
       ]
     );
   }
 
+  /**
+   * Split a transcript into replayable segments
+   *
+   * Offsets are estimated by spreading the audio length over the segments
+   * in proportion to their characters.
+   */
+  private segmentTranscript(text: string, audioLength: number | null): AudioSegment[] {
+    if (!audioLength || audioLength <= 0) {
+      return [];
+    }
+
+    const groups = text
+      .trim()
+      .split(/(?<=[.!?…])\s+/)
+      .flatMap((sentence) => this.splitWordGroups(sentence.split(/\s+/).filter((w) => w)));
+
+    // Each group is followed by a pause about as long as a space
+    const totalChars = groups.reduce((sum, group) => sum + group.join(' ').length + 1, 0);
+    const round = (seconds: number) => Math.round(seconds * 100) / 100;
+
+    let elapsedChars = 0;
+    return groups.map((group) => {
+      const groupText = group.join(' ');
+      const startSeconds = round((elapsedChars / totalChars) * audioLength);
+      elapsedChars += groupText.length + 1;
+      return {
+        text: groupText,
+        startSeconds,
+        endSeconds: round((elapsedChars / totalChars) * audioLength),
+      };
+    });
+  }
+
+  /**
+   * Split the words of a sentence at the comma nearest its middle, or into
+   * even word groups when it has no usable comma
+   */
+  private splitWordGroups(words: string[]): string[][] {
+    if (words.length <= MAX_SEGMENT_WORDS) {
+      return words.length > 0 ? [words] : [];
+    }
+
+    const middle = words.length / 2;
+    let splitAt = -1;
+    for (let i = 2; i <= words.length - 2; i++) {
+      if (
+        /[,;:]$/.test(words[i - 1]) &&
+        (splitAt < 0 || Math.abs(i - middle) < Math.abs(splitAt - middle))
+      ) {
+        splitAt = i;
+      }
+    }
+
+    if (splitAt > 0) {
+      return [
+        ...this.splitWordGroups(words.slice(0, splitAt)),
+        ...this.splitWordGroups(words.slice(splitAt)),
+      ];
+    }
+
+    const groupCount = Math.ceil(words.length / MAX_SEGMENT_WORDS);
+    const groupSize = Math.ceil(words.length / groupCount);
+    const groups: string[][] = [];
+    for (let i = 0; i < words.length; i += groupSize) {
+      groups.push(words.slice(i, i + groupSize));
+    }
+    return groups;
+  }
+
   /**
    * Count words in text
    */
@@ -0,0 +1,205 @@
+import { Pool } from 'pg';
+import { MinimalPairGateProgress, OrthographyGateService } from '../orthography-gate.service';
+import { CURATED_MINIMAL_PAIRS, MinimalPair } from './minimal-pairs';
+
+/**
+ * A single listening discrimination exercise: one word of the pair is
+ * played and the learner picks which it was
+ */
+export interface MinimalPairExercise {
+  pairId: string;
+  language: string;
+  options: [string, string];
+  targetWord: string;
+  contrast: string;
+  audioUrl: string | null; // Recorded or synthesized audio, when an utterance has it
+}
+
+export interface MinimalPairAnswer {
+  language: string;
+  pairId: string;
+  targetWord: string;
+  answer: string;
+}
+
+export interface MinimalPairResult {
+  isCorrect: boolean;
+  targetWord: string;
+  gate: MinimalPairGateProgress;
+}
+
+class MinimalPairError extends Error {
+  statusCode: number;
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'MinimalPairError';
+    this.statusCode = statusCode;
+  }
+}
+
+const PAIR_SEPARATOR = '/';
+
+/**
+ * Find minimal pairs among words: same length with one letter substituted
+ * ("bola/bota"), or one letter doubled ("caro/carro")
+ */
+export function deriveMinimalPairs(words: readonly string[]): MinimalPair[] {
+  const unique = Array.from(new Set(words.map((word) => word.trim().toLowerCase()))).filter(
+    (word) => word.length > 0 && !word.includes(' ')
+  );
+  const pairs: MinimalPair[] = [];
+
+  for (let i = 0; i < unique.length; i++) {
+    for (let j = i + 1; j < unique.length; j++) {
+      const contrast = findContrast(unique[i], unique[j]);
+      if (contrast) {
+        pairs.push({ words: [unique[i], unique[j]], contrast });
+      }
+    }
+  }
+
+  return pairs;
+}
+
+function findContrast(first: string, second: string): string | null {
+  const a = Array.from(first);
+  const b = Array.from(second);
+
+  if (a.length === b.length) {
+    const differing = a.flatMap((char, idx) => (char !== b[idx] ? [idx] : []));
+    return differing.length === 1 ? `${a[differing[0]]}/${b[differing[0]]}` : null;
+  }
+
+  const [shorter, longer] = a.length < b.length ? [a, b] : [b, a];
+  if (longer.length - shorter.length !== 1) {
+    return null;
+  }
+
+  const idx = shorter.findIndex((char, position) => char !== longer[position]);
+  const inserted = idx === -1 ? shorter.length : idx;
+  const doubled = longer[inserted] === longer[inserted - 1];
+  const rest = [...longer.slice(0, inserted), ...longer.slice(inserted + 1)];
+
+  return doubled && rest.join('') === shorter.join('')
+    ? `${longer[inserted]}/${longer[inserted]}${longer[inserted]}`
+    : null;
+}
+
+/**
+ * MinimalPairService handles listening discrimination between words that
+ * differ in one sound (PT "avó/avô", SL "č/c", IT "caro/carro")
+ *
+ * Pairs come from a curated list plus pairs found among the example words
+ * of the language's orthography lessons. Answers count toward the
+ * orthography gate.
+ */
+export class MinimalPairService {
+  private readonly gateService: OrthographyGateService;
+
+  constructor(
+    private readonly pool: Pool,
+    private readonly random: () => number = Math.random
+  ) {
+    this.gateService = new OrthographyGateService(pool);
+  }
+
+  async getExercises(language: string, count: number = 10): Promise<MinimalPairExercise[]> {
+    const pairs = this.shuffle(await this.getPairs(language)).slice(0, count);
+    if (pairs.length === 0) {
+      return [];
+    }
+
+    const audioByWord = await this.getAudioUrls(
+      language,
+      pairs.flatMap((pair) => pair.words)
+    );
+
+    return pairs.map((pair) => {
+      const targetWord = pair.words[this.random() < 0.5 ? 0 : 1];
+      return {
+        pairId: this.pairId(pair),
+        language,
+        options: this.shuffle([...pair.words]) as [string, string],
+        targetWord,
+        contrast: pair.contrast,
+        audioUrl: audioByWord.get(targetWord.toLowerCase()) ?? null,
+      };
+    });
+  }
+
+  async submitAnswer(userId: string, submission: MinimalPairAnswer): Promise<MinimalPairResult> {
+    const words = submission.pairId.split(PAIR_SEPARATOR);
+    if (
+      words.length !== 2 ||
+      !words.includes(submission.targetWord.toLowerCase()) ||
+      !words.includes(submission.answer.toLowerCase())
+    ) {
+      throw new MinimalPairError('Answer and target must be words of the pair');
+    }
+
+    const isCorrect = submission.answer.toLowerCase() === submission.targetWord.toLowerCase();
+    const gate = await this.gateService.recordMinimalPairResult(
+      userId,
+      submission.language,
+      submission.pairId,
+      isCorrect
+    );
+
+    return { isCorrect, targetWord: submission.targetWord, gate };
+  }
+
+  /**
+   * Curated pairs plus pairs among the orthography lessons' example words
+   */
+  private async getPairs(language: string): Promise<MinimalPair[]> {
+    const result = await this.pool.query<{ example_words: string[] | null }>(
+      `SELECT metadata->'exampleWords' as example_words
+       FROM curriculum_graph
+       WHERE language = $1 AND concept_type = 'orthography'`,
+      [language]
+    );
+    const exampleWords = result.rows.flatMap((row) =>
+      Array.isArray(row.example_words) ? row.example_words : []
+    );
+
+    const pairs = new Map<string, MinimalPair>();
+    for (const pair of [
+      ...(CURATED_MINIMAL_PAIRS[language] ?? []),
+      ...deriveMinimalPairs(exampleWords),
+    ]) {
+      const id = this.pairId(pair);
+      if (!pairs.has(id)) {
+        pairs.set(id, pair);
+      }
+    }
+    return Array.from(pairs.values());
+  }
+
+  private async getAudioUrls(language: string, words: string[]): Promise<Map<string, string>> {
+    const result = await this.pool.query<{ word: string; audio_url: string }>(
+      `SELECT DISTINCT ON (LOWER(text)) LOWER(text) as word, audio_url
+       FROM approved_utterances
+       WHERE language = $1
+         AND audio_url IS NOT NULL
+         AND LOWER(text) = ANY($2::text[])`,
+      [language, words.map((word) => word.toLowerCase())]
+    );
+    return new Map(result.rows.map((row) => [row.word, row.audio_url]));
+  }
+
+  private pairId(pair: MinimalPair): string {
+    return pair.words
+      .map((word) => word.toLowerCase())
+      .sort()
+      .join(PAIR_SEPARATOR);
+  }
+
+  private shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Two words that differ in a single sound contrast
+ */
+export interface MinimalPair {
+  words: readonly [string, string];
+  /**
+   * The contrasted spellings, e.g. "ó/ô"
+   */
+  contrast: string;
+}
+
+/**
+ * Curated minimal pairs per language, for contrasts the orthography
+ * lessons' example words rarely cover (vowel quality, stress, geminates)
+ */
+export const CURATED_MINIMAL_PAIRS: Readonly<Record<string, readonly MinimalPair[]>> = {
+  EN: [
+    { words: ['ship', 'sheep'], contrast: 'i/ee' },
+    { words: ['bit', 'beat'], contrast: 'i/ea' },
+    { words: ['full', 'fool'], contrast: 'u/oo' },
+    { words: ['bad', 'bed'], contrast: 'a/e' },
+    { words: ['thin', 'tin'], contrast: 'th/t' },
+    { words: ['very', 'berry'], contrast: 'v/b' },
+    { words: ['light', 'right'], contrast: 'l/r' },
+  ],
+  ES: [
+    { words: ['pero', 'perro'], contrast: 'r/rr' },
+    { words: ['caro', 'carro'], contrast: 'r/rr' },
+    { words: ['coro', 'corro'], contrast: 'r/rr' },
+    { words: ['pelo', 'pero'], contrast: 'l/r' },
+    { words: ['cana', 'caña'], contrast: 'n/ñ' },
+    { words: ['pena', 'peña'], contrast: 'n/ñ' },
+    { words: ['papa', 'papá'], contrast: 'a/á' },
+    { words: ['hablo', 'habló'], contrast: 'o/ó' },
+  ],
+  IT: [
+    { words: ['caro', 'carro'], contrast: 'r/rr' },
+    { words: ['pala', 'palla'], contrast: 'l/ll' },
+    { words: ['nono', 'nonno'], contrast: 'n/nn' },
+    { words: ['sete', 'sette'], contrast: 't/tt' },
+    { words: ['casa', 'cassa'], contrast: 's/ss' },
+    { words: ['capello', 'cappello'], contrast: 'p/pp' },
+  ],
+  PT: [
+    { words: ['avó', 'avô'], contrast: 'ó/ô' },
+    { words: ['vovó', 'vovô'], contrast: 'ó/ô' },
+    { words: ['caro', 'carro'], contrast: 'r/rr' },
+    { words: ['muro', 'murro'], contrast: 'r/rr' },
+    { words: ['pais', 'país'], contrast: 'i/í' },
+    { words: ['mala', 'malha'], contrast: 'l/lh' },
+    { words: ['sono', 'sonho'], contrast: 'n/nh' },
+  ],
+  SL: [
+    { words: ['čelo', 'celo'], contrast: 'č/c' },
+    { words: ['čista', 'cista'], contrast: 'č/c' },
+    { words: ['koš', 'kos'], contrast: 'š/s' },
+    { words: ['šok', 'sok'], contrast: 'š/s' },
+    { words: ['koža', 'koza'], contrast: 'ž/z' },
+  ],
+};
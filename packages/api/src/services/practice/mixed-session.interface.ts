@@ -1,3 +1,10 @@
+import { GrammarExercise } from '../grammar/exercise.service';
+import { ClozeExercise } from './cloze.service';
+import { DictationExercise } from './dictation.service';
+import { ProductionExercise } from './production.service';
+import { ReadingPassage } from './reading.service';
+import { TranslationExercise } from './translation.service';
+
 /**
  * Configuration for creating a mixed practice session
  */
@@ -11,13 +18,36 @@ export interface MixedSessionConfig {
 
 /**
  * Supported practice types for mixed sessions
+ * - recall / recognition: flashcards of due SRS vocabulary
+ * - everything else: an exercise of that practice mode
+ */
+export type PracticeType =
+  | 'recall'
+  | 'recognition'
+  | 'cloze'
+  | 'dictation'
+  | 'translation'
+  | 'production'
+  | 'reading'
+  | 'grammar';
+
+/**
+ * Exercise payload of a mixed item, as served by the practice mode's own endpoint
  */
-export type PracticeType = 'recall' | 'recognition';
+export type MixedItemExercise =
+  | ClozeExercise
+  | DictationExercise
+  | TranslationExercise
+  | ProductionExercise
+  | ReadingPassage
+  | GrammarExercise;
 
 /**
  * Mixing strategies for distributing items across languages
+ * - adaptive: weights languages and items by interference patterns and
+ *   weaknesses, and adds confusable cross-language pairs for contrast
  */
-export type MixingStrategy = 'equal' | 'weighted' | 'random';
+export type MixingStrategy = 'equal' | 'weighted' | 'random' | 'adaptive';
 
 /**
  * A single exercise item in a mixed session
@@ -26,9 +56,19 @@ export interface MixedExerciseItem {
   id: string;
   language: string;
   practiceType: PracticeType;
-  meaningId: string;
+  meaningId: string | null; // Null for reading passages and grammar exercises
   content: MixedItemContent;
   estimatedDifficulty: number;
+  exercise: MixedItemExercise | null; // Null for recall and recognition
+  contrastWith?: string; // Id of the confusable item of a contrast pair
+}
+
+/**
+ * Confusable cross-language items practiced together by the adaptive strategy
+ */
+export interface ContrastPair {
+  items: [MixedExerciseItem, MixedExerciseItem];
+  separated: boolean; // Spread apart instead of placed next to each other
 }
 
 /**
@@ -52,7 +92,7 @@ export interface MixedSession {
 }
 
 /**
- * Session summary with per-language analytics
+ * Session summary with per-language and per-mode analytics
  */
 export interface MixedSessionSummary {
   sessionId: string;
@@ -60,6 +100,7 @@ export interface MixedSessionSummary {
   totalCorrect: number;
   totalTime: number;
   languageBreakdown: LanguagePerformance[];
+  modeBreakdown: ModePerformance[];
   switchingEfficiency: number;
 }
 
@@ -73,3 +114,14 @@ export interface LanguagePerformance {
   averageTime: number;
   accuracy: number;
 }
+
+/**
+ * Performance metrics for a single practice mode
+ */
+export interface ModePerformance {
+  practiceType: string;
+  itemsAttempted: number;
+  correctAnswers: number;
+  averageTime: number;
+  accuracy: number;
+}
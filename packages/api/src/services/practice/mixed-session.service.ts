@@ -1,12 +1,25 @@
 import { Pool } from 'pg';
 import {
+  ContrastPair,
   MixedSessionConfig,
   MixedExerciseItem,
+  MixedItemContent,
+  MixedItemExercise,
   MixedSession,
   MixedSessionSummary,
   LanguagePerformance,
+  ModePerformance,
   PracticeType,
 } from './mixed-session.interface';
+import { ClozeExerciseService } from './cloze.service';
+import { DictationService } from './dictation.service';
+import { TranslationService } from './translation.service';
+import { ProductionService } from './production.service';
+import { ReadingComprehensionService } from './reading.service';
+import { GrammarExerciseService } from '../grammar/exercise.service';
+import { InterferenceDetectionService } from '../interference/interference-detection.service';
+import { InterferencePattern } from '../interference/interference.interface';
+import { WeaknessIdentificationService } from '../analytics/weakness-identification.service';
 
 /**
  * Error thrown when mixed practice requirements are not met
@@ -20,14 +33,49 @@ class MixedSessionError extends Error {
   }
 }
 
+interface VocabularyItemRow {
+  meaning_id: string;
+  word_text: string;
+  definition: string | null;
+  audio_url: string | null;
+  level: string;
+  ease_factor: number;
+}
+
 /**
  * MixedSessionService handles language mixing practice sessions
  * that pull exercises from multiple languages for cognitive training
+ *
+ * Recall and recognition items are flashcards of due SRS vocabulary; every
+ * other practice type is an exercise fetched from that mode's own service,
+ * so it is graded by the mode's own submit endpoint.
  */
 export class MixedSessionService {
   private readonly MAX_CONSECUTIVE_SAME_LANGUAGE = 4;
+  private readonly MAX_CONSECUTIVE_SAME_MODE = 3;
+  private readonly MAX_SHUFFLE_ATTEMPTS = 10;
+  private readonly MAX_CONTRAST_PAIRS = 3;
+  private readonly SEPARATED_SWITCHING_EFFICIENCY = 0.8;
 
-  constructor(private readonly pool: Pool) {}
+  private readonly clozeService: ClozeExerciseService;
+  private readonly dictationService: DictationService;
+  private readonly translationService: TranslationService;
+  private readonly productionService: ProductionService;
+  private readonly readingService: ReadingComprehensionService;
+  private readonly grammarExerciseService: GrammarExerciseService;
+  private readonly interferenceService: InterferenceDetectionService;
+  private readonly weaknessService: WeaknessIdentificationService;
+
+  constructor(private readonly pool: Pool) {
+    this.clozeService = new ClozeExerciseService(pool);
+    this.dictationService = new DictationService(pool);
+    this.translationService = new TranslationService(pool);
+    this.productionService = new ProductionService(pool);
+    this.readingService = new ReadingComprehensionService(pool);
+    this.grammarExerciseService = new GrammarExerciseService(pool);
+    this.interferenceService = new InterferenceDetectionService(pool);
+    this.weaknessService = new WeaknessIdentificationService(pool);
+  }
 
   /**
    * Create a mixed practice session with randomized language mixing
@@ -60,6 +108,7 @@ export class MixedSessionService {
       const itemsForLanguage = await this.fetchItemsForLanguage(
         config.userId,
         language,
+        languages,
         config.practiceTypes,
         config.itemsPerLanguage
       );
@@ -72,6 +121,7 @@ export class MixedSessionService {
 
     // Apply mixing strategy
     let finalItems: MixedExerciseItem[];
+    let contrastPairs: ContrastPair[] = [];
 
     switch (config.mixingStrategy) {
       case 'equal':
@@ -88,6 +138,18 @@ export class MixedSessionService {
       case 'random':
         finalItems = this.randomSample(allItems, config.totalItems);
         break;
+      case 'adaptive': {
+        const adaptive = await this.adaptiveDistribution(
+          config.userId,
+          allItems,
+          languages,
+          config.practiceTypes,
+          config.totalItems
+        );
+        finalItems = adaptive.items;
+        contrastPairs = adaptive.contrastPairs;
+        break;
+      }
       default:
         finalItems = this.equalDistribution(allItems, languages, config.totalItems);
     }
@@ -95,6 +157,9 @@ export class MixedSessionService {
     // Shuffle with clustering prevention
     finalItems = this.shuffleWithClusteringPrevention(finalItems);
 
+    // Contrast pairs are placed after shuffling so they keep their spacing
+    finalItems = this.placeContrastPairs(finalItems, contrastPairs);
+
     // Create session record
     const sessionResult = await this.pool.query<{ id: string }>(
       `INSERT INTO mixed_practice_sessions
@@ -113,25 +178,67 @@ export class MixedSessionService {
   }
 
   /**
-   * Fetch SRS items for a specific language
+   * Fetch items of the requested practice types for a specific language
+   *
+   * The limit is split evenly across practice types and the types are
+   * interleaved, so any leading slice of the items covers every type.
    */
   private async fetchItemsForLanguage(
     userId: string,
     language: string,
+    languages: string[],
     practiceTypes: PracticeType[],
     limit: number
   ): Promise<MixedExerciseItem[]> {
-    interface ItemRow {
-      meaning_id: string;
-      word_text: string;
-      definition: string | null;
-      audio_url: string | null;
-      level: string;
-      ease_factor: number;
+    const perType = Math.ceil(limit / practiceTypes.length);
+    const vocabularyTypes: PracticeType[] = practiceTypes.filter(
+      (type) => type === 'recall' || type === 'recognition'
+    );
+    const groups: MixedExerciseItem[][] = [];
+
+    if (vocabularyTypes.length > 0) {
+      const vocabularyItems = await this.fetchVocabularyItems(
+        userId,
+        language,
+        vocabularyTypes,
+        perType * vocabularyTypes.length
+      );
+      groups.push(
+        ...vocabularyTypes.map((type) => vocabularyItems.filter((i) => i.practiceType === type))
+      );
     }
 
+    for (const practiceType of practiceTypes) {
+      if (!vocabularyTypes.includes(practiceType)) {
+        groups.push(
+          await this.fetchExerciseItems(userId, language, languages, practiceType, perType)
+        );
+      }
+    }
+
+    const interleaved: MixedExerciseItem[] = [];
+    const longestGroup = Math.max(...groups.map((group) => group.length));
+
+    for (let i = 0; i < longestGroup; i++) {
+      for (const group of groups) {
+        if (i < group.length) interleaved.push(group[i]);
+      }
+    }
+
+    return interleaved.slice(0, limit);
+  }
+
+  /**
+   * Fetch due SRS vocabulary as recall/recognition flashcards
+   */
+  private async fetchVocabularyItems(
+    userId: string,
+    language: string,
+    practiceTypes: PracticeType[],
+    limit: number
+  ): Promise<MixedExerciseItem[]> {
     // Get SRS items due for review
-    const result = await this.pool.query<ItemRow>(
+    const result = await this.pool.query<VocabularyItemRow>(
       `SELECT DISTINCT ON (usi.meaning_id)
          usi.meaning_id,
          au.text as word_text,
@@ -145,31 +252,224 @@ export class MixedSessionService {
        WHERE usi.user_id = $1
          AND usi.language = $2
          AND usi.next_review_at <= current_timestamp
+         AND usi.suspended_at IS NULL
          AND au.text IS NOT NULL
        ORDER BY usi.meaning_id, usi.next_review_at ASC
        LIMIT $3`,
       [userId, language, limit]
     );
 
-    return result.rows.map((row, index) => {
+    return result.rows.map((row, index) =>
       // Alternate practice types if multiple are specified
-      const practiceType = practiceTypes[index % practiceTypes.length];
+      this.toVocabularyItem(row, language, practiceTypes[index % practiceTypes.length], index)
+    );
+  }
 
-      return {
-        id: `mixed_${row.meaning_id}_${Date.now()}_${index}`,
-        language,
-        practiceType,
-        meaningId: row.meaning_id,
-        content: {
-          text: row.word_text,
-          definition: row.definition,
-          audioUrl: row.audio_url,
-          level: row.level,
-        },
-        // Convert ease factor to difficulty (1-5 scale, inverse)
-        estimatedDifficulty: Math.max(1, Math.min(5, Math.round(6 - row.ease_factor))),
-      };
+  /**
+   * Map an SRS vocabulary row to a flashcard item
+   */
+  private toVocabularyItem(
+    row: VocabularyItemRow,
+    language: string,
+    practiceType: PracticeType,
+    index: number
+  ): MixedExerciseItem {
+    return {
+      id: `mixed_${row.meaning_id}_${Date.now()}_${index}`,
+      language,
+      practiceType,
+      meaningId: row.meaning_id,
+      content: {
+        text: row.word_text,
+        definition: row.definition,
+        audioUrl: row.audio_url,
+        level: row.level,
+      },
+      // Convert ease factor to difficulty (1-5 scale, inverse)
+      estimatedDifficulty: Math.max(1, Math.min(5, Math.round(6 - row.ease_factor))),
+      exercise: null,
+    };
+  }
+
+  /**
+   * Fetch exercises of one practice mode from that mode's service
+   *
+   * Translations are from the next studied language into this one.
+   */
+  private async fetchExerciseItems(
+    userId: string,
+    language: string,
+    languages: string[],
+    practiceType: PracticeType,
+    limit: number
+  ): Promise<MixedExerciseItem[]> {
+    const toItem = (
+      exerciseId: string,
+      exercise: MixedItemExercise,
+      meaningId: string | null,
+      content: MixedItemContent,
+      index: number,
+      estimatedDifficulty: number = this.levelToDifficulty(content.level)
+    ): MixedExerciseItem => ({
+      id: `mixed_${exerciseId}_${Date.now()}_${index}`,
+      language,
+      practiceType,
+      meaningId,
+      content,
+      estimatedDifficulty,
+      exercise,
     });
+
+    switch (practiceType) {
+      case 'recall':
+      case 'recognition':
+        return this.fetchVocabularyItems(userId, language, [practiceType], limit);
+
+      case 'cloze': {
+        const exercises = await this.clozeService.getClozeExercises(userId, language, limit);
+        return exercises.map((exercise, index) =>
+          toItem(
+            exercise.exerciseId,
+            exercise,
+            exercise.meaningId,
+            {
+              text: exercise.sentenceWithBlank,
+              definition: exercise.context,
+              audioUrl: exercise.audioUrl,
+              level: exercise.cefrLevel,
+            },
+            index
+          )
+        );
+      }
+
+      case 'dictation': {
+        const exercises = await this.dictationService.getDictationExercises(
+          userId,
+          language,
+          limit
+        );
+        return exercises.map((exercise, index) =>
+          toItem(
+            exercise.exerciseId,
+            exercise,
+            exercise.meaningId,
+            {
+              text: exercise.correctTranscript,
+              definition: null,
+              audioUrl: exercise.audioUrl,
+              level: exercise.cefrLevel,
+            },
+            index
+          )
+        );
+      }
+
+      case 'translation': {
+        const sourceLanguage = languages[(languages.indexOf(language) + 1) % languages.length];
+        const exercises = await this.translationService.getTranslationExercises(
+          userId,
+          sourceLanguage,
+          language,
+          limit
+        );
+        return exercises.map((exercise, index) =>
+          toItem(
+            exercise.exerciseId,
+            exercise,
+            exercise.meaningId,
+            {
+              text: exercise.sourceText,
+              definition: null,
+              audioUrl: null,
+              level: exercise.cefrLevel,
+            },
+            index
+          )
+        );
+      }
+
+      case 'production': {
+        const exercises = await this.productionService.getProductionExercises(
+          userId,
+          language,
+          limit
+        );
+        return exercises.map((exercise, index) =>
+          toItem(
+            exercise.exerciseId,
+            exercise,
+            exercise.meaningId,
+            {
+              text: exercise.text,
+              definition: exercise.translation,
+              audioUrl: exercise.audioUrl,
+              level: exercise.cefrLevel,
+            },
+            index
+          )
+        );
+      }
+
+      case 'reading': {
+        const passages = await this.readingService.getReadingPassages(
+          userId,
+          language,
+          undefined,
+          limit
+        );
+        return passages.map((passage, index) =>
+          toItem(
+            passage.id,
+            passage,
+            null,
+            {
+              text: passage.title,
+              definition: null,
+              audioUrl: passage.audioUrl,
+              level: passage.cefrLevel,
+            },
+            index
+          )
+        );
+      }
+
+      case 'grammar': {
+        const exercises = await this.grammarExerciseService.getMixedExercises(
+          userId,
+          language,
+          limit
+        );
+        return exercises.map((exercise, index) =>
+          toItem(
+            exercise.exerciseId,
+            exercise,
+            null,
+            {
+              text: exercise.prompt,
+              definition: exercise.hint,
+              audioUrl: exercise.audioUrl,
+              level: '',
+            },
+            index,
+            exercise.difficulty
+          )
+        );
+      }
+
+      default: {
+        const exhaustiveCheck: never = practiceType;
+        throw new MixedSessionError(`Unknown practice type: ${String(exhaustiveCheck)}`);
+      }
+    }
+  }
+
+  /**
+   * Map a CEFR level to the 1-5 difficulty scale (A1 → 1, C1/C2 → 5)
+   */
+  private levelToDifficulty(level: string): number {
+    const difficulties: Record<string, number> = { A1: 1, A2: 2, B1: 3, B2: 4, C1: 5, C2: 5 };
+    return difficulties[level] ?? 3;
   }
 
   /**
@@ -241,6 +541,225 @@ export class MixedSessionService {
     return result;
   }
 
+  /**
+   * Adaptive distribution: more items from languages and words with
+   * interference patterns or weaknesses, plus contrast pairs
+   *
+   * Each unresolved vocabulary interference pattern between two session
+   * languages (e.g. IT "burro" vs ES "burro") can become a contrast pair of
+   * both words, placed next to each other until the learner's switching
+   * efficiency between the two languages shows they keep them apart.
+   */
+  private async adaptiveDistribution(
+    userId: string,
+    items: MixedExerciseItem[],
+    languages: string[],
+    practiceTypes: PracticeType[],
+    totalItems: number
+  ): Promise<{ items: MixedExerciseItem[]; contrastPairs: ContrastPair[] }> {
+    const patterns = (await this.interferenceService.getUserInterferencePatterns(userId)).filter(
+      (pattern) =>
+        pattern.interferenceType === 'vocabulary' &&
+        languages.includes(pattern.targetLanguage) &&
+        languages.includes(pattern.sourceLanguage)
+    );
+    const { topWeaknesses } = await this.weaknessService.analyzeWeaknesses(userId);
+
+    // Weights start equal and grow with every weakness and interference pattern
+    const languageWeights = new Map(languages.map((language) => [language, 1]));
+    const itemPriorities = new Map<string, number>();
+    const addWeight = (language: string, meaningId: string, weight: number) => {
+      if (!languageWeights.has(language)) return;
+      languageWeights.set(language, (languageWeights.get(language) ?? 1) + weight);
+      const key = `${language}:${meaningId}`;
+      itemPriorities.set(key, (itemPriorities.get(key) ?? 0) + weight);
+    };
+
+    for (const weakness of topWeaknesses) {
+      if (weakness.itemType === 'vocabulary') {
+        addWeight(weakness.language, weakness.itemId, weakness.severityScore / 100);
+      }
+    }
+
+    for (const pattern of patterns) {
+      addWeight(pattern.targetLanguage, pattern.targetItemId, 1);
+      addWeight(pattern.sourceLanguage, pattern.interferingItemId, 1);
+    }
+
+    // Contrast pairs are vocabulary flashcards
+    const pairPracticeType = practiceTypes.find(
+      (type) => type === 'recall' || type === 'recognition'
+    );
+    const maxPairs = Math.min(this.MAX_CONTRAST_PAIRS, Math.floor(totalItems / 6));
+    const contrastPairs =
+      pairPracticeType && maxPairs > 0
+        ? await this.fetchContrastPairs(userId, patterns, pairPracticeType, maxPairs)
+        : [];
+
+    const pairedKeys = new Set(
+      contrastPairs.flatMap((pair) => pair.items.map((i) => `${i.language}:${i.meaningId}`))
+    );
+    const priorityOf = (item: MixedExerciseItem) =>
+      itemPriorities.get(`${item.language}:${item.meaningId}`) ?? 0;
+
+    const remainingItems = totalItems - contrastPairs.length * 2;
+    const totalWeight = Array.from(languageWeights.values()).reduce((sum, w) => sum + w, 0);
+    const result: MixedExerciseItem[] = [];
+
+    for (const language of languages) {
+      const weight = languageWeights.get(language) || 1;
+      const itemCount = Math.floor((weight / totalWeight) * remainingItems);
+      const langItems = items
+        .filter((i) => i.language === language && !pairedKeys.has(`${i.language}:${i.meaningId}`))
+        .sort((a, b) => priorityOf(b) - priorityOf(a));
+      result.push(...langItems.slice(0, itemCount));
+    }
+
+    return { items: result, contrastPairs };
+  }
+
+  /**
+   * Build contrast pairs of the words of interference patterns
+   *
+   * Patterns are taken in order (most frequent first); a pattern is skipped
+   * when either word is not in the learner's SRS queue.
+   */
+  private async fetchContrastPairs(
+    userId: string,
+    patterns: InterferencePattern[],
+    practiceType: PracticeType,
+    maxPairs: number
+  ): Promise<ContrastPair[]> {
+    if (patterns.length === 0) {
+      return [];
+    }
+
+    const result = await this.pool.query<VocabularyItemRow & { language: string }>(
+      `SELECT DISTINCT ON (usi.language, usi.meaning_id)
+         usi.language,
+         usi.meaning_id,
+         au.text as word_text,
+         au.usage_notes as definition,
+         au.audio_url,
+         am.level,
+         usi.ease_factor
+       FROM user_srs_items usi
+       JOIN unnest($2::text[], $3::text[]) AS pair(language, meaning_id)
+         ON pair.language = usi.language AND pair.meaning_id = usi.meaning_id
+       JOIN approved_meanings am ON usi.meaning_id = am.id
+       JOIN approved_utterances au ON au.meaning_id = am.id AND au.language = usi.language
+       WHERE usi.user_id = $1
+         AND usi.suspended_at IS NULL
+       ORDER BY usi.language, usi.meaning_id`,
+      [
+        userId,
+        patterns.flatMap((p) => [p.targetLanguage, p.sourceLanguage]),
+        patterns.flatMap((p) => [p.targetItemId, p.interferingItemId]),
+      ]
+    );
+
+    const rows = new Map(result.rows.map((row) => [`${row.language}:${row.meaning_id}`, row]));
+    const separation = new Map<string, boolean>();
+    const pairs: ContrastPair[] = [];
+
+    for (const pattern of patterns) {
+      const targetRow = rows.get(`${pattern.targetLanguage}:${pattern.targetItemId}`);
+      const interferingRow = rows.get(`${pattern.sourceLanguage}:${pattern.interferingItemId}`);
+
+      if (!targetRow || !interferingRow) continue;
+
+      const languagePair = [pattern.targetLanguage, pattern.sourceLanguage].sort() as [
+        string,
+        string,
+      ];
+      const pairKey = languagePair.join(':');
+
+      if (!separation.has(pairKey)) {
+        separation.set(pairKey, await this.hasSeparatedLanguages(userId, languagePair));
+      }
+
+      const index = pairs.length * 2;
+      const target = this.toVocabularyItem(targetRow, pattern.targetLanguage, practiceType, index);
+      const interfering = this.toVocabularyItem(
+        interferingRow,
+        pattern.sourceLanguage,
+        practiceType,
+        index + 1
+      );
+      target.contrastWith = interfering.id;
+      interfering.contrastWith = target.id;
+
+      pairs.push({ items: [target, interfering], separated: separation.get(pairKey) ?? false });
+
+      if (pairs.length >= maxPairs) break;
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Whether the learner keeps two languages apart when switching between them
+   *
+   * Judged by the switching efficiency between the two languages in the last
+   * session that switched between them; without one they are not separated.
+   */
+  private async hasSeparatedLanguages(
+    userId: string,
+    languagePair: [string, string]
+  ): Promise<boolean> {
+    const result = await this.pool.query<{ session_id: string }>(
+      `SELECT msa.session_id
+       FROM mixed_session_attempts msa
+       JOIN mixed_practice_sessions mps ON mps.id = msa.session_id
+       WHERE mps.user_id = $1
+         AND ((msa.language = $2 AND msa.previous_language = $3)
+           OR (msa.language = $3 AND msa.previous_language = $2))
+       ORDER BY msa.created_at DESC
+       LIMIT 1`,
+      [userId, ...languagePair]
+    );
+
+    if (result.rows.length === 0) {
+      return false;
+    }
+
+    const efficiency = await this.calculateSwitchingEfficiency(
+      result.rows[0].session_id,
+      languagePair
+    );
+
+    return efficiency >= this.SEPARATED_SWITCHING_EFFICIENCY;
+  }
+
+  /**
+   * Insert contrast pairs into a shuffled session
+   *
+   * Pairs that are not separated yet go next to each other; separated pairs
+   * are spread at least half a session apart.
+   */
+  private placeContrastPairs(
+    items: MixedExerciseItem[],
+    contrastPairs: ContrastPair[]
+  ): MixedExerciseItem[] {
+    const result = [...items];
+
+    for (const { items: pair, separated } of contrastPairs) {
+      const [first, second] = this.fisherYatesShuffle(pair);
+
+      if (separated) {
+        const length = result.length + 2;
+        const firstIndex = Math.floor(Math.random() * Math.ceil(length / 2));
+        result.splice(firstIndex, 0, first);
+        result.splice(Math.min(result.length, firstIndex + Math.floor(length / 2)), 0, second);
+      } else {
+        const index = Math.floor(Math.random() * (result.length + 1));
+        result.splice(index, 0, first, second);
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Random sample from all items
    */
@@ -262,30 +781,76 @@ export class MixedSessionService {
   }
 
   /**
-   * Shuffle with clustering prevention (max consecutive same-language items)
+   * Shuffle with clustering prevention (max consecutive same-language and
+   * same-mode items)
+   *
+   * A cluster is broken up by swapping in a later item that breaks both runs,
+   * or at least the language run when no such item is left. Swaps can leave
+   * clusters at the tail, so the shuffle is retried a few times and the
+   * attempt with the fewest language clusters, then mode clusters, is kept.
    */
   private shuffleWithClusteringPrevention(items: MixedExerciseItem[]): MixedExerciseItem[] {
-    const shuffled = this.fisherYatesShuffle([...items]);
+    let best: MixedExerciseItem[] = items;
+    let bestClusters = { language: Infinity, mode: Infinity };
 
-    // Check for clusters and break them up
-    for (let i = this.MAX_CONSECUTIVE_SAME_LANGUAGE; i < shuffled.length; i++) {
-      let consecutiveCount = 1;
-      for (let j = i - 1; j >= 0 && shuffled[j].language === shuffled[i].language; j--) {
-        consecutiveCount++;
-      }
+    for (let attempt = 0; attempt < this.MAX_SHUFFLE_ATTEMPTS; attempt++) {
+      const shuffled = this.fisherYatesShuffle([...items]);
+      const clusters = { language: 0, mode: 0 };
+
+      // Check for clusters and break them up
+      for (let i = 1; i < shuffled.length; i++) {
+        const languageRun = (item: MixedExerciseItem) =>
+          this.runLength(shuffled, i, (other) => other.language === item.language) >=
+          this.MAX_CONSECUTIVE_SAME_LANGUAGE;
+        const modeRun = (item: MixedExerciseItem) =>
+          this.runLength(shuffled, i, (other) => other.practiceType === item.practiceType) >=
+          this.MAX_CONSECUTIVE_SAME_MODE;
+
+        if (!languageRun(shuffled[i]) && !modeRun(shuffled[i])) continue;
+
+        let k = shuffled.findIndex(
+          (item, index) => index > i && !languageRun(item) && !modeRun(item)
+        );
 
-      if (consecutiveCount > this.MAX_CONSECUTIVE_SAME_LANGUAGE) {
-        // Find an item with a different language to swap
-        for (let k = i + 1; k < shuffled.length; k++) {
-          if (shuffled[k].language !== shuffled[i].language) {
-            [shuffled[i], shuffled[k]] = [shuffled[k], shuffled[i]];
-            break;
-          }
+        if (k === -1 && languageRun(shuffled[i])) {
+          k = shuffled.findIndex((item, index) => index > i && !languageRun(item));
         }
+
+        if (k !== -1) {
+          [shuffled[i], shuffled[k]] = [shuffled[k], shuffled[i]];
+        }
+
+        if (languageRun(shuffled[i])) clusters.language++;
+        if (modeRun(shuffled[i])) clusters.mode++;
       }
+
+      if (
+        clusters.language < bestClusters.language ||
+        (clusters.language === bestClusters.language && clusters.mode < bestClusters.mode)
+      ) {
+        best = shuffled;
+        bestClusters = clusters;
+      }
+
+      if (clusters.language === 0 && clusters.mode === 0) break;
     }
 
-    return shuffled;
+    return best;
+  }
+
+  /**
+   * Number of consecutive items before an index that match a predicate
+   */
+  private runLength(
+    items: MixedExerciseItem[],
+    index: number,
+    matches: (item: MixedExerciseItem) => boolean
+  ): number {
+    let length = 0;
+    for (let j = index - 1; j >= 0 && matches(items[j]); j--) {
+      length++;
+    }
+    return length;
   }
 
   /**
@@ -340,7 +905,7 @@ export class MixedSessionService {
   }
 
   /**
-   * Generate session summary with per-language breakdown
+   * Generate session summary with per-language and per-mode breakdown
    */
   async generateSessionSummary(sessionId: string): Promise<MixedSessionSummary> {
     interface OverallStatsRow {
@@ -391,6 +956,37 @@ export class MixedSessionService {
       accuracy: parseFloat(row.accuracy) || 0,
     }));
 
+    interface ModeStatsRow {
+      item_type: string;
+      items_attempted: string;
+      correct_answers: string;
+      average_time: string;
+      accuracy: string;
+    }
+
+    // Get per-mode breakdown
+    const modeResult = await this.pool.query<ModeStatsRow>(
+      `SELECT
+         item_type,
+         COUNT(*) AS items_attempted,
+         SUM(CASE WHEN is_correct THEN 1 ELSE 0 END) AS correct_answers,
+         AVG(time_spent) AS average_time,
+         CAST(SUM(CASE WHEN is_correct THEN 1 ELSE 0 END) AS FLOAT) / NULLIF(COUNT(*), 0) AS accuracy
+       FROM mixed_session_attempts
+       WHERE session_id = $1
+       GROUP BY item_type
+       ORDER BY item_type ASC`,
+      [sessionId]
+    );
+
+    const modeBreakdown: ModePerformance[] = modeResult.rows.map((row) => ({
+      practiceType: row.item_type,
+      itemsAttempted: parseInt(row.items_attempted, 10),
+      correctAnswers: parseInt(row.correct_answers, 10),
+      averageTime: parseFloat(row.average_time) || 0,
+      accuracy: parseFloat(row.accuracy) || 0,
+    }));
+
     // Calculate switching efficiency
     const switchingEfficiency = await this.calculateSwitchingEfficiency(sessionId);
 
@@ -410,6 +1006,7 @@ export class MixedSessionService {
       totalCorrect: parseInt(overall.total_correct, 10) || 0,
       totalTime: parseInt(overall.total_time, 10) || 0,
       languageBreakdown,
+      modeBreakdown,
       switchingEfficiency,
     };
   }
@@ -417,12 +1014,27 @@ export class MixedSessionService {
   /**
    * Calculate how efficiently user handles language switches
    * Looks at accuracy immediately after language changes
+   *
+   * @param languagePair Only count switches between these two languages
    */
-  async calculateSwitchingEfficiency(sessionId: string): Promise<number> {
+  async calculateSwitchingEfficiency(
+    sessionId: string,
+    languagePair?: [string, string]
+  ): Promise<number> {
     interface EfficiencyRow {
       efficiency: string;
     }
 
+    const params: string[] = [sessionId];
+    let pairCondition = '';
+
+    if (languagePair) {
+      params.push(...languagePair);
+      pairCondition = `
+         AND ((language = $2 AND previous_language = $3)
+           OR (language = $3 AND previous_language = $2))`;
+    }
+
     const result = await this.pool.query<EfficiencyRow>(
       `SELECT
          COALESCE(
@@ -432,8 +1044,8 @@ export class MixedSessionService {
        FROM mixed_session_attempts
        WHERE session_id = $1
          AND previous_language IS NOT NULL
-         AND language != previous_language`,
-      [sessionId]
+         AND language != previous_language${pairCondition}`,
+      params
     );
 
     return parseFloat(result.rows[0]?.efficiency || '1.0');
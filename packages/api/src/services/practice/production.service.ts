@@ -1,4 +1,12 @@
 import { Pool } from 'pg';
+import { SRSService } from '../srs/srs.service';
+import { applyHintPenalty } from '../hints';
+import {
+  DiacriticService,
+  GrammarPatternRule,
+  ProductionGrade,
+  ProductionGrader,
+} from '../evaluation';
 
 /**
  * Self-assessment rating for pronunciation
@@ -29,16 +37,56 @@ export interface ProductionAssessment {
   recordingDuration: number;
   attemptNumber: number;
   timeSpentMs: number;
+  hintsUsed?: number;
 }
 
 /**
- * ProductionService handles audio recording exercises
- * for pronunciation practice with self-assessment.
+ * Typed production answer, graded automatically
+ */
+export interface ProductionAnswerSubmission {
+  meaningId: string;
+  language: string;
+  answer: string;
+  timeSpentMs: number;
+  hintsUsed?: number;
+  /**
+   * Learner's own rating, overriding the automatic grade when they dispute it
+   */
+  selfRating?: SelfRating;
+}
+
+/**
+ * Recorded result of a typed production answer
+ */
+export interface ProductionAnswerResult extends ProductionGrade {
+  autoQualityRating: number;
+  selfRating: SelfRating | null;
+}
+
+class ProductionError extends Error {
+  statusCode: number;
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'ProductionError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * ProductionService handles production exercises: recorded pronunciation
+ * practice with self-assessment, and typed answers graded against the
+ * approved utterances of the meaning.
  */
 export class ProductionService {
-  private readonly MIN_EASE_FACTOR = 1.3;
+  private readonly srsService: SRSService;
+  private readonly grader: ProductionGrader;
+  private readonly diacritics: DiacriticService;
 
-  constructor(private readonly pool: Pool) {}
+  constructor(private readonly pool: Pool) {
+    this.srsService = new SRSService(pool);
+    this.grader = new ProductionGrader();
+    this.diacritics = new DiacriticService(pool);
+  }
 
   /**
    * Get production exercises from SRS items that have native audio
@@ -73,6 +121,7 @@ export class ProductionService {
        WHERE usi.user_id = $1
          AND usi.language = $2
          AND usi.next_review_at <= current_timestamp
+         AND usi.suspended_at IS NULL
          AND au.audio_url IS NOT NULL
          AND au.text IS NOT NULL
          AND LENGTH(au.text) >= 2
@@ -101,13 +150,20 @@ export class ProductionService {
     userId: string,
     assessment: ProductionAssessment
   ): Promise<{ success: boolean; qualityRating: number }> {
-    const { meaningId, selfRating, recordingDuration, attemptNumber, timeSpentMs } = assessment;
+    const { meaningId, selfRating, recordingDuration, attemptNumber, timeSpentMs, hintsUsed } =
+      assessment;
 
-    // Convert self-rating to SRS quality (0-5)
-    const qualityRating = this.selfRatingToQuality(selfRating);
+    // Convert self-rating to SRS quality (0-5), lowered for hints used
+    const qualityRating = applyHintPenalty(this.selfRatingToQuality(selfRating), hintsUsed);
 
     // Update SRS scheduling
-    await this.updateSRS(userId, meaningId, qualityRating);
+    await this.srsService.recordPracticeResult(
+      userId,
+      'vocabulary',
+      meaningId,
+      qualityRating,
+      'production'
+    );
 
     // Record attempt
     await this.recordAttempt(
@@ -115,15 +171,92 @@ export class ProductionService {
       meaningId,
       selfRating,
       qualityRating >= 3,
-      qualityRating / 5,
+      qualityRating,
       recordingDuration,
       attemptNumber,
-      timeSpentMs
+      timeSpentMs,
+      hintsUsed ?? 0
     );
 
     return { success: true, qualityRating };
   }
 
+  /**
+   * Grade a typed answer without recording it, so the learner can see the
+   * grade before accepting or disputing it
+   */
+  async gradeAnswer(
+    userId: string,
+    meaningId: string,
+    language: string,
+    answer: string
+  ): Promise<ProductionGrade> {
+    const [expected, rules, diacritics] = await Promise.all([
+      this.getApprovedAnswers(meaningId, language),
+      this.getPatternRules(language),
+      this.diacritics.getStrictness(userId),
+    ]);
+
+    if (expected.length === 0) {
+      throw new ProductionError('No approved utterance for this meaning', 404);
+    }
+
+    return this.grader.grade(answer, expected, language, { rules, diacritics });
+  }
+
+  /**
+   * Grade and record a typed answer; a self-rating overrides the automatic grade
+   */
+  async submitAnswer(
+    userId: string,
+    submission: ProductionAnswerSubmission
+  ): Promise<ProductionAnswerResult> {
+    const { meaningId, language, answer, timeSpentMs, hintsUsed, selfRating } = submission;
+
+    const grade = await this.gradeAnswer(userId, meaningId, language, answer);
+    const baseQuality = selfRating ? this.selfRatingToQuality(selfRating) : grade.qualityRating;
+    const qualityRating = applyHintPenalty(baseQuality, hintsUsed);
+
+    await this.srsService.recordPracticeResult(
+      userId,
+      'vocabulary',
+      meaningId,
+      qualityRating,
+      'production'
+    );
+
+    await this.pool.query(
+      `INSERT INTO user_exercise_results
+       (user_id, exercise_id, language, exercise_type, correct, time_spent_ms, user_answer, submitted_at)
+       VALUES ($1, $2::uuid, $3, 'production', $4, $5, $6, NOW())
+       ON CONFLICT DO NOTHING`,
+      [
+        userId,
+        '00000000-0000-0000-0000-000000000000',
+        language,
+        qualityRating >= 3,
+        timeSpentMs,
+        JSON.stringify({
+          answer,
+          score: grade.score,
+          autoQualityRating: grade.qualityRating,
+          selfRating: selfRating ?? null,
+          qualityRating,
+          meaningId,
+          hintsUsed: hintsUsed ?? 0,
+        }),
+      ]
+    );
+
+    return {
+      ...grade,
+      qualityRating,
+      isCorrect: qualityRating >= 3,
+      autoQualityRating: grade.qualityRating,
+      selfRating: selfRating ?? null,
+    };
+  }
+
   /**
    * Get production practice statistics for a language
    */
@@ -179,67 +312,42 @@ export class ProductionService {
     }
   }
 
+  private async getApprovedAnswers(meaningId: string, language: string): Promise<string[]> {
+    const result = await this.pool.query<{ text: string }>(
+      `SELECT text
+       FROM approved_utterances
+       WHERE meaning_id = $1 AND language = $2 AND text IS NOT NULL`,
+      [meaningId, language]
+    );
+    return result.rows.map((row) => row.text);
+  }
+
   /**
-   * Update SRS scheduling based on quality
+   * Grammar rules of the language that define answer patterns
    */
-  private async updateSRS(userId: string, meaningId: string, quality: number): Promise<void> {
-    interface SRSRow {
-      ease_factor: number;
-      repetitions: number;
-      interval: number;
+  private async getPatternRules(language: string): Promise<GrammarPatternRule[]> {
+    interface RuleRow {
+      id: string;
+      title: string;
+      answer_patterns: unknown;
     }
 
-    const srsResult = await this.pool.query<SRSRow>(
-      `SELECT ease_factor, repetitions, interval
-       FROM user_srs_items
-       WHERE user_id = $1 AND meaning_id = $2`,
-      [userId, meaningId]
+    const result = await this.pool.query<RuleRow>(
+      `SELECT id, title, answer_patterns
+       FROM approved_rules
+       WHERE language = $1
+         AND jsonb_typeof(answer_patterns) = 'array'
+         AND jsonb_array_length(answer_patterns) > 0`,
+      [language]
     );
 
-    if (srsResult.rows.length === 0) {
-      return;
-    }
-
-    const current = srsResult.rows[0];
-
-    // SM-2 algorithm
-    let newEaseFactor = current.ease_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
-
-    if (newEaseFactor < this.MIN_EASE_FACTOR) {
-      newEaseFactor = this.MIN_EASE_FACTOR;
-    }
-
-    let newRepetitions: number;
-    let newInterval: number;
-
-    if (quality < 3) {
-      newRepetitions = 0;
-      newInterval = 1;
-    } else {
-      newRepetitions = current.repetitions + 1;
-
-      if (newRepetitions === 1) {
-        newInterval = 1;
-      } else if (newRepetitions === 2) {
-        newInterval = 6;
-      } else {
-        newInterval = Math.round(current.interval * newEaseFactor);
-      }
-    }
-
-    const nextReviewAt = new Date();
-    nextReviewAt.setDate(nextReviewAt.getDate() + newInterval);
-
-    await this.pool.query(
-      `UPDATE user_srs_items
-       SET ease_factor = $1,
-           repetitions = $2,
-           interval = $3,
-           next_review_at = $4,
-           last_reviewed_at = current_timestamp
-       WHERE user_id = $5 AND meaning_id = $6`,
-      [newEaseFactor, newRepetitions, newInterval, nextReviewAt, userId, meaningId]
-    );
+    return result.rows.map((row) => ({
+      ruleId: row.id,
+      title: row.title,
+      patterns: Array.isArray(row.answer_patterns)
+        ? row.answer_patterns.filter((pattern): pattern is string => typeof pattern === 'string')
+        : [],
+    }));
   }
 
   /**
@@ -250,10 +358,11 @@ export class ProductionService {
     meaningId: string,
     selfRating: SelfRating,
     isCorrect: boolean,
-    _accuracy: number,
+    qualityRating: number,
     recordingDuration: number,
     attemptNumber: number,
-    timeSpentMs: number
+    timeSpentMs: number,
+    hintsUsed: number
   ): Promise<void> {
     await this.pool.query(
       `INSERT INTO user_exercise_results
@@ -267,10 +376,11 @@ export class ProductionService {
         timeSpentMs,
         JSON.stringify({
           selfRating,
-          qualityRating: this.selfRatingToQuality(selfRating),
+          qualityRating,
           recordingDuration,
           attemptNumber,
           meaningId,
+          hintsUsed,
         }),
       ]
     );
@@ -1,4 +1,5 @@
 import { Pool } from 'pg';
+import { SRSService } from '../srs/srs.service';
 
 /**
  * Vocabulary hint for difficult words in a passage
@@ -74,9 +75,11 @@ export interface ReadingResult {
  * with multiple-choice comprehension questions.
  */
 export class ReadingComprehensionService {
-  private readonly MIN_EASE_FACTOR = 1.3;
+  private readonly srsService: SRSService;
 
-  constructor(private readonly pool: Pool) {}
+  constructor(private readonly pool: Pool) {
+    this.srsService = new SRSService(pool);
+  }
 
   /**
    * Get reading passages for a user based on their SRS queue
@@ -117,6 +120,7 @@ export class ReadingComprehensionService {
          AND rp.language = $2
          ${cefrLevel ? 'AND rp.cefr_level = $4' : ''}
          AND usi.next_review_at <= current_timestamp
+         AND usi.suspended_at IS NULL
        ORDER BY usi.next_review_at ASC
        LIMIT $3`,
       cefrLevel ? [userId, language, limit, cefrLevel] : [userId, language, limit]
@@ -268,10 +272,16 @@ export class ReadingComprehensionService {
     const qualityRating = this.scoreToQuality(score);
 
     // Get or create SRS item for this passage
-    const srsItemId = await this.ensureSrsItem(userId, passageId);
+    await this.ensureSrsItem(userId, passageId);
 
     // Update SRS scheduling
-    await this.updateSRS(userId, srsItemId, qualityRating);
+    await this.srsService.recordPracticeResult(
+      userId,
+      'reading',
+      passageId,
+      qualityRating,
+      'reading'
+    );
 
     // Record attempt
     await this.recordAttempt(userId, passageId, answers, score >= 0.7, score, timeSpentMs);
@@ -289,20 +299,11 @@ export class ReadingComprehensionService {
   /**
    * Ensure an SRS item exists for this passage and user
    */
-  private async ensureSrsItem(userId: string, passageId: string): Promise<string> {
-    interface SrsItemRow {
-      id: string;
-    }
-
-    // Check if SRS item exists
-    const existing = await this.pool.query<SrsItemRow>(
-      `SELECT id FROM user_srs_items
-       WHERE user_id = $1 AND reading_passage_id = $2`,
-      [userId, passageId]
-    );
+  private async ensureSrsItem(userId: string, passageId: string): Promise<void> {
+    const existing = await this.srsService.getScheduleItem(userId, passageId, 'reading');
 
-    if (existing.rows.length > 0) {
-      return existing.rows[0].id;
+    if (existing) {
+      return;
     }
 
     // Get passage language
@@ -316,16 +317,7 @@ export class ReadingComprehensionService {
 
     const language = passageResult.rows[0]?.language || 'XX';
 
-    // Create new SRS item
-    const result = await this.pool.query<SrsItemRow>(
-      `INSERT INTO user_srs_items
-       (user_id, reading_passage_id, language, ease_factor, repetitions, interval, next_review_at)
-       VALUES ($1, $2, $3, 2.5, 0, 0, current_timestamp)
-       RETURNING id`,
-      [userId, passageId, language]
-    );
-
-    return result.rows[0].id;
+    await this.srsService.addToSchedule(userId, 'reading', passageId, language);
   }
 
   /**
@@ -340,69 +332,6 @@ export class ReadingComprehensionService {
     return 0; // Complete failure
   }
 
-  /**
-   * Update SRS scheduling based on quality
-   */
-  private async updateSRS(userId: string, srsItemId: string, quality: number): Promise<void> {
-    interface SRSRow {
-      ease_factor: number;
-      repetitions: number;
-      interval: number;
-    }
-
-    const srsResult = await this.pool.query<SRSRow>(
-      `SELECT ease_factor, repetitions, interval
-       FROM user_srs_items
-       WHERE id = $1 AND user_id = $2`,
-      [srsItemId, userId]
-    );
-
-    if (srsResult.rows.length === 0) {
-      return;
-    }
-
-    const current = srsResult.rows[0];
-
-    // SM-2 algorithm
-    let newEaseFactor = current.ease_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
-
-    if (newEaseFactor < this.MIN_EASE_FACTOR) {
-      newEaseFactor = this.MIN_EASE_FACTOR;
-    }
-
-    let newRepetitions: number;
-    let newInterval: number;
-
-    if (quality < 3) {
-      newRepetitions = 0;
-      newInterval = 1;
-    } else {
-      newRepetitions = current.repetitions + 1;
-
-      if (newRepetitions === 1) {
-        newInterval = 1;
-      } else if (newRepetitions === 2) {
-        newInterval = 6;
-      } else {
-        newInterval = Math.round(current.interval * newEaseFactor);
-      }
-    }
-
-    const nextReviewAt = new Date();
-    nextReviewAt.setDate(nextReviewAt.getDate() + newInterval);
-
-    await this.pool.query(
-      `UPDATE user_srs_items
-       SET ease_factor = $1,
-           repetitions = $2,
-           interval = $3,
-           next_review_at = $4,
-           last_reviewed_at = current_timestamp
-       WHERE id = $5 AND user_id = $6`,
-      [newEaseFactor, newRepetitions, newInterval, nextReviewAt, srsItemId, userId]
-    );
-  }
-
   /**
    * Record practice attempt
    */
@@ -1,5 +1,6 @@
 import { Pool } from 'pg';
 import { DistractorGenerationService } from './distractor.service';
+import { SRSService } from '../srs/srs.service';
 
 /**
  * Recognition question types
@@ -47,10 +48,11 @@ class NotFoundError extends Error {
  */
 export class RecognitionPracticeService {
   private readonly distractorService: DistractorGenerationService;
-  private readonly MIN_EASE_FACTOR = 1.3;
+  private readonly srsService: SRSService;
 
   constructor(private readonly pool: Pool) {
     this.distractorService = new DistractorGenerationService(pool);
+    this.srsService = new SRSService(pool);
   }
 
   /**
@@ -83,6 +85,7 @@ export class RecognitionPracticeService {
        WHERE usi.user_id = $1
          AND usi.language = $2
          AND usi.next_review_at <= current_timestamp
+         AND usi.suspended_at IS NULL
          AND au.text IS NOT NULL
        ORDER BY usi.meaning_id, usi.next_review_at ASC
        LIMIT $3`,
@@ -187,55 +190,22 @@ export class RecognitionPracticeService {
   ): Promise<RecognitionResult> {
     const isCorrect = selectedIndex === correctIndex;
 
-    // Get current SRS item
-    interface SRSItemRow {
-      ease_factor: number;
-      repetitions: number;
-      interval: number;
-    }
-
-    const srsResult = await this.pool.query<SRSItemRow>(
-      `SELECT ease_factor, repetitions, interval
-       FROM user_srs_items
-       WHERE user_id = $1 AND meaning_id = $2`,
-      [userId, meaningId]
-    );
-
-    if (srsResult.rows.length === 0) {
-      throw new NotFoundError('SRS item not found');
-    }
-
-    const currentItem = srsResult.rows[0];
-
-    // Calculate quality rating based on correctness and time
     // Recognition is easier than recall, so we use a simpler quality mapping:
     // - Correct: quality 4 (good)
     // - Incorrect: quality 1 (again)
     const quality = isCorrect ? 4 : 1;
 
-    // Apply SM-2 algorithm
-    const { easeFactor, repetitions, interval } = this.calculateSM2(
+    const item = await this.srsService.recordPracticeResult(
+      userId,
+      'vocabulary',
+      meaningId,
       quality,
-      currentItem.ease_factor,
-      currentItem.repetitions,
-      currentItem.interval
+      'recognition'
     );
 
-    // Calculate next review date
-    const nextReviewAt = new Date();
-    nextReviewAt.setDate(nextReviewAt.getDate() + interval);
-
-    // Update SRS item
-    await this.pool.query(
-      `UPDATE user_srs_items
-       SET ease_factor = $1,
-           repetitions = $2,
-           interval = $3,
-           next_review_at = $4,
-           last_reviewed_at = current_timestamp
-       WHERE user_id = $5 AND meaning_id = $6`,
-      [easeFactor, repetitions, interval, nextReviewAt, userId, meaningId]
-    );
+    if (!item) {
+      throw new NotFoundError('SRS item not found');
+    }
 
     // Get correct answer for response
     interface UtteranceRow {
@@ -259,8 +229,8 @@ export class RecognitionPracticeService {
       isCorrect,
       correctAnswer,
       explanation,
-      nextReviewAt: nextReviewAt.toISOString(),
-      interval,
+      nextReviewAt: item.dueDate.toISOString(),
+      interval: item.interval,
     };
   }
 
@@ -293,48 +263,6 @@ export class RecognitionPracticeService {
     };
   }
 
-  /**
-   * SM-2 algorithm implementation (same as recall)
-   */
-  private calculateSM2(
-    quality: number,
-    easeFactor: number,
-    repetitions: number,
-    interval: number
-  ): { easeFactor: number; repetitions: number; interval: number } {
-    // Update ease factor based on quality
-    let newEaseFactor = easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
-
-    if (newEaseFactor < this.MIN_EASE_FACTOR) {
-      newEaseFactor = this.MIN_EASE_FACTOR;
-    }
-
-    let newRepetitions: number;
-    let newInterval: number;
-
-    if (quality < 3) {
-      // Failed review: reset
-      newRepetitions = 0;
-      newInterval = 1;
-    } else {
-      newRepetitions = repetitions + 1;
-
-      if (newRepetitions === 1) {
-        newInterval = 1;
-      } else if (newRepetitions === 2) {
-        newInterval = 6;
-      } else {
-        newInterval = Math.round(interval * newEaseFactor);
-      }
-    }
-
-    return {
-      easeFactor: newEaseFactor,
-      repetitions: newRepetitions,
-      interval: newInterval,
-    };
-  }
-
   /**
    * Fisher-Yates shuffle algorithm
    */
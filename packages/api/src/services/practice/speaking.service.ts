@@ -0,0 +1,272 @@
+import { Pool } from 'pg';
+import { SRSService } from '../srs/srs.service';
+import { AnswerError, AnswerEvaluator, WordDiff } from '../evaluation';
+import { SpeechRecognizer } from '../speech';
+
+/**
+ * A single speaking exercise
+ */
+export interface SpeakingExercise {
+  exerciseId: string;
+  text: string; // Target utterance
+  audioUrl: string | null; // Native speaker model, when available
+  romanization: string | null;
+  translation: string | null;
+  meaningId: string;
+  cefrLevel: string;
+  language: string;
+}
+
+/**
+ * Recording submitted for a speaking exercise
+ */
+export interface SpeakingAttempt {
+  meaningId: string;
+  targetText: string;
+  audio: Buffer;
+  mimeType: string;
+  language: string;
+  timeSpentMs: number;
+}
+
+/**
+ * Result of scoring a recording against the target utterance
+ */
+export interface SpeakingResult {
+  isCorrect: boolean;
+  transcript: string;
+  confidence: number | null;
+  characterAccuracy: number;
+  wordAccuracy: number;
+  diff: WordDiff[];
+  errors: AnswerError[];
+  targetText: string;
+  qualityRating: number;
+}
+
+/**
+ * Error thrown when a recording cannot be scored
+ */
+class SpeakingError extends Error {
+  statusCode: number;
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'SpeakingError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * SpeakingService handles speaking exercises: the learner's recording is
+ * transcribed by the speech recognizer and the transcript is scored with
+ * the same word diff as dictation.
+ */
+export class SpeakingService {
+  private readonly srsService: SRSService;
+  private readonly evaluator: AnswerEvaluator;
+
+  constructor(
+    private readonly pool: Pool,
+    private readonly recognizer: SpeechRecognizer | null
+  ) {
+    this.srsService = new SRSService(pool);
+    this.evaluator = new AnswerEvaluator();
+  }
+
+  /**
+   * Whether recordings can be transcribed
+   */
+  isAvailable(): boolean {
+    return this.recognizer !== null;
+  }
+
+  /**
+   * Get speaking exercises from due SRS items
+   */
+  async getSpeakingExercises(
+    userId: string,
+    language: string,
+    limit: number = 10
+  ): Promise<SpeakingExercise[]> {
+    interface SpeakingRow {
+      meaning_id: string;
+      text: string;
+      audio_url: string | null;
+      romanization: string | null;
+      translation: string | null;
+      level: string;
+    }
+
+    const result = await this.pool.query<SpeakingRow>(
+      `SELECT DISTINCT ON (usi.meaning_id)
+         usi.meaning_id,
+         au.text,
+         au.audio_url,
+         au.romanization,
+         am.definition AS translation,
+         am.level
+       FROM user_srs_items usi
+       JOIN approved_meanings am ON usi.meaning_id = am.id
+       JOIN approved_utterances au ON au.meaning_id = am.id AND au.language = $2
+       WHERE usi.user_id = $1
+         AND usi.language = $2
+         AND usi.next_review_at <= current_timestamp
+         AND usi.suspended_at IS NULL
+         AND au.text IS NOT NULL
+         AND LENGTH(au.text) >= 2
+       ORDER BY usi.meaning_id, usi.next_review_at ASC
+       LIMIT $3`,
+      [userId, language, limit]
+    );
+
+    return result.rows.map((row) => ({
+      exerciseId: `speaking_${row.meaning_id}_${Date.now()}`,
+      text: row.text,
+      audioUrl: row.audio_url,
+      romanization: row.romanization,
+      translation: row.translation,
+      meaningId: row.meaning_id,
+      cefrLevel: row.level,
+      language,
+    }));
+  }
+
+  /**
+   * Transcribe a recording and score it against the target utterance
+   *
+   * Diacritics are ignored: the recognizer, not the learner, spells the
+   * transcript.
+   */
+  async assessSpeech(userId: string, attempt: SpeakingAttempt): Promise<SpeakingResult> {
+    const { meaningId, targetText, audio, mimeType, language, timeSpentMs } = attempt;
+
+    if (!this.recognizer) {
+      throw new SpeakingError('Speech recognition is not configured', 503);
+    }
+
+    if (audio.length === 0) {
+      throw new SpeakingError('Recording is empty');
+    }
+
+    const transcription = await this.recognizer.transcribe({ audio, mimeType, language });
+
+    const evaluation = this.evaluator.evaluate(transcription.text, targetText, language, {
+      diacritics: 'ignore',
+    });
+
+    const characterAccuracy = evaluation.score;
+    const { wordAccuracy, diff, errors } = evaluation;
+    const qualityRating = this.accuracyToQuality(characterAccuracy);
+    const isCorrect = characterAccuracy >= 0.85;
+
+    // Update SRS; failed reviews also surface the item in weakness analytics
+    await this.srsService.recordPracticeResult(
+      userId,
+      'vocabulary',
+      meaningId,
+      qualityRating,
+      'speaking'
+    );
+
+    await this.recordAttempt(
+      userId,
+      meaningId,
+      language,
+      transcription.text,
+      isCorrect,
+      characterAccuracy,
+      timeSpentMs
+    );
+
+    return {
+      isCorrect,
+      transcript: transcription.text,
+      confidence: transcription.confidence,
+      characterAccuracy,
+      wordAccuracy,
+      diff,
+      errors,
+      targetText,
+      qualityRating,
+    };
+  }
+
+  /**
+   * Get speaking practice statistics
+   */
+  async getStats(userId: string, language: string) {
+    interface StatsRow {
+      total_exercises: string;
+      correct_count: string;
+      avg_accuracy: string | null;
+    }
+
+    const result = await this.pool.query<StatsRow>(
+      `SELECT
+        COUNT(*) as total_exercises,
+        COUNT(*) FILTER (WHERE correct = true) as correct_count,
+        AVG((user_answer::jsonb->>'accuracy')::decimal) as avg_accuracy
+       FROM user_exercise_results
+       WHERE user_id = $1
+         AND language = $2
+         AND exercise_type = 'speaking'
+         AND submitted_at > current_timestamp - interval '7 days'`,
+      [userId, language]
+    );
+
+    const row = result.rows[0];
+    const total = parseInt(row.total_exercises, 10);
+    const correct = parseInt(row.correct_count, 10);
+
+    return {
+      totalExercises: total,
+      correctCount: correct,
+      accuracy: total > 0 ? Math.round((correct / total) * 100) : 0,
+      avgCharacterAccuracy: row.avg_accuracy
+        ? Math.round(parseFloat(row.avg_accuracy) * 100)
+        : null,
+    };
+  }
+
+  /**
+   * Convert accuracy to SRS quality rating
+   *
+   * A notch more forgiving than dictation, as recognizers also mishear
+   * clear speech.
+   */
+  private accuracyToQuality(accuracy: number): number {
+    if (accuracy >= 0.95) return 5;
+    if (accuracy >= 0.85) return 4;
+    if (accuracy >= 0.65) return 3;
+    if (accuracy >= 0.45) return 2;
+    return 0;
+  }
+
+  /**
+   * Record practice attempt
+   */
+  private async recordAttempt(
+    userId: string,
+    meaningId: string,
+    language: string,
+    transcript: string,
+    isCorrect: boolean,
+    accuracy: number,
+    timeSpentMs: number
+  ): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO user_exercise_results
+       (user_id, exercise_id, language, exercise_type, correct, time_spent_ms, user_answer, submitted_at)
+       VALUES ($1, $2::uuid, $3, 'speaking', $4, $5, $6, NOW())
+       ON CONFLICT DO NOTHING`,
+      [
+        userId,
+        '00000000-0000-0000-0000-000000000000',
+        language,
+        isCorrect,
+        timeSpentMs,
+        JSON.stringify({ transcript, accuracy, meaningId }),
+      ]
+    );
+  }
+}
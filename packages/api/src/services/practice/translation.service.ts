@@ -1,4 +1,7 @@
 import { Pool } from 'pg';
+import { SRSService } from '../srs/srs.service';
+import { AnswerError, AnswerEvaluator, DiacriticService } from '../evaluation';
+import { applyHintPenalty } from '../hints';
 
 /**
  * A single translation exercise
@@ -26,6 +29,7 @@ export interface TranslationResult {
   matchedTranslation: string | null;
   alternativeTranslations: string[];
   feedback: string;
+  errors: AnswerError[];
   qualityRating: number;
 }
 
@@ -34,9 +38,15 @@ export interface TranslationResult {
  * Uses approved_meanings with utterances in different languages.
  */
 export class TranslationService {
-  private readonly MIN_EASE_FACTOR = 1.3;
-
-  constructor(private readonly pool: Pool) {}
+  private readonly srsService: SRSService;
+  private readonly evaluator: AnswerEvaluator;
+  private readonly diacritics: DiacriticService;
+
+  constructor(private readonly pool: Pool) {
+    this.srsService = new SRSService(pool);
+    this.evaluator = new AnswerEvaluator();
+    this.diacritics = new DiacriticService(pool);
+  }
 
   /**
    * Get translation exercises for specified language pair.
@@ -79,6 +89,7 @@ export class TranslationService {
        WHERE usi.user_id = $1
          AND usi.language = $2
          AND usi.next_review_at <= current_timestamp
+         AND usi.suspended_at IS NULL
          AND source_utt.text IS NOT NULL
          AND EXISTS (
            SELECT 1 FROM approved_utterances au2
@@ -110,39 +121,38 @@ export class TranslationService {
 
   /**
    * Validate user's translation against acceptable answers
+   *
+   * @param language Target language of the translation (enables language-aware matching)
+   * @param hintsUsed Rungs of the hint ladder used before answering
    */
   async validateTranslation(
     userId: string,
     meaningId: string,
     userTranslation: string,
     acceptableTranslations: string[],
-    timeSpentMs: number
+    timeSpentMs: number,
+    language?: string,
+    hintsUsed: number = 0
   ): Promise<TranslationResult> {
-    const normalizedUser = this.normalizeText(userTranslation);
-
-    let bestMatch: { translation: string; similarity: number } | null = null;
-
-    // Compare against all acceptable translations
-    for (const acceptable of acceptableTranslations) {
-      const normalizedAcceptable = this.normalizeText(acceptable);
-      const similarity = this.calculateSimilarity(normalizedUser, normalizedAcceptable);
-
-      if (!bestMatch || similarity > bestMatch.similarity) {
-        bestMatch = { translation: acceptable, similarity };
-      }
-
-      // Early exit on exact match
-      if (similarity >= 0.99) break;
-    }
-
-    const similarity = bestMatch?.similarity || 0;
+    const diacritics = await this.diacritics.getStrictness(userId);
+    const evaluation = this.evaluator.evaluate(userTranslation, acceptableTranslations, language, {
+      diacritics,
+    });
+    await this.diacritics.recordChecks(userId, language, evaluation.diacriticChecks);
+    const similarity = evaluation.score;
     const isCorrect = similarity >= 0.85;
 
     // Calculate quality rating for SRS
-    const qualityRating = this.similarityToQuality(similarity);
+    const qualityRating = applyHintPenalty(this.similarityToQuality(similarity), hintsUsed);
 
     // Update SRS
-    await this.updateSRS(userId, meaningId, qualityRating);
+    await this.srsService.recordPracticeResult(
+      userId,
+      'vocabulary',
+      meaningId,
+      qualityRating,
+      'translation'
+    );
 
     // Record attempt
     await this.recordAttempt(
@@ -151,18 +161,22 @@ export class TranslationService {
       userTranslation,
       isCorrect,
       similarity,
-      timeSpentMs
+      timeSpentMs,
+      hintsUsed
     );
 
     // Generate feedback
-    const feedback = this.generateFeedback(similarity);
+    const feedback = [this.generateFeedback(similarity), this.evaluator.describe(evaluation.errors)]
+      .filter(Boolean)
+      .join(' ');
 
     return {
       isCorrect,
       similarity,
-      matchedTranslation: bestMatch?.translation || null,
+      matchedTranslation: evaluation.matchedAnswer,
       alternativeTranslations: acceptableTranslations,
       feedback,
+      errors: evaluation.errors,
       qualityRating,
     };
   }
@@ -203,90 +217,6 @@ export class TranslationService {
     };
   }
 
-  /**
-   * Generate hint at specified level
-   */
-  generateHint(acceptableTranslations: string[], hintLevel: number): string {
-    const primaryTranslation = acceptableTranslations[0] || '';
-
-    if (!primaryTranslation) {
-      return 'No hint available';
-    }
-
-    const words = primaryTranslation.split(' ');
-
-    switch (hintLevel) {
-      case 1:
-        return `First word: "${words[0]}"`;
-      case 2:
-        return `Word count: ${words.length} words`;
-      case 3: {
-        const halfLength = Math.ceil(words.length / 2);
-        const partial = words.slice(0, halfLength).join(' ');
-        return `Beginning: "${partial}..."`;
-      }
-      default:
-        return 'No hint available';
-    }
-  }
-
-  /**
-   * Normalize text for comparison
-   */
-  private normalizeText(text: string): string {
-    return text
-      .trim()
-      .toLowerCase()
-      .replace(/\s+/g, ' ')
-      .replace(/[.!?,;:]+/g, '')
-      .replace(/["'«»""'']/g, '');
-  }
-
-  /**
-   * Calculate similarity using Levenshtein distance
-   */
-  private calculateSimilarity(str1: string, str2: string): number {
-    if (str1 === str2) return 1.0;
-
-    const distance = this.levenshteinDistance(str1, str2);
-    const maxLength = Math.max(str1.length, str2.length);
-
-    if (maxLength === 0) return 1.0;
-
-    return Math.max(0, 1 - distance / maxLength);
-  }
-
-  /**
-   * Levenshtein distance algorithm
-   */
-  private levenshteinDistance(a: string, b: string): number {
-    const matrix: number[][] = [];
-
-    for (let i = 0; i <= b.length; i++) {
-      matrix[i] = [i];
-    }
-
-    for (let j = 0; j <= a.length; j++) {
-      matrix[0][j] = j;
-    }
-
-    for (let i = 1; i <= b.length; i++) {
-      for (let j = 1; j <= a.length; j++) {
-        if (b.charAt(i - 1) === a.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1];
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1,
-            matrix[i][j - 1] + 1,
-            matrix[i - 1][j] + 1
-          );
-        }
-      }
-    }
-
-    return matrix[b.length][a.length];
-  }
-
   /**
    * Convert similarity to SRS quality rating
    */
@@ -309,68 +239,6 @@ export class TranslationService {
     return 'Incorrect translation.';
   }
 
-  /**
-   * Update SRS scheduling
-   */
-  private async updateSRS(userId: string, meaningId: string, quality: number): Promise<void> {
-    interface SRSRow {
-      ease_factor: number;
-      repetitions: number;
-      interval: number;
-    }
-
-    const srsResult = await this.pool.query<SRSRow>(
-      `SELECT ease_factor, repetitions, interval
-       FROM user_srs_items
-       WHERE user_id = $1 AND meaning_id = $2`,
-      [userId, meaningId]
-    );
-
-    if (srsResult.rows.length === 0) {
-      return;
-    }
-
-    const current = srsResult.rows[0];
-
-    let newEaseFactor = current.ease_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
-
-    if (newEaseFactor < this.MIN_EASE_FACTOR) {
-      newEaseFactor = this.MIN_EASE_FACTOR;
-    }
-
-    let newRepetitions: number;
-    let newInterval: number;
-
-    if (quality < 3) {
-      newRepetitions = 0;
-      newInterval = 1;
-    } else {
-      newRepetitions = current.repetitions + 1;
-
-      if (newRepetitions === 1) {
-        newInterval = 1;
-      } else if (newRepetitions === 2) {
-        newInterval = 6;
-      } else {
-        newInterval = Math.round(current.interval * newEaseFactor);
-      }
-    }
-
-    const nextReviewAt = new Date();
-    nextReviewAt.setDate(nextReviewAt.getDate() + newInterval);
-
-    await this.pool.query(
-      `UPDATE user_srs_items
-       SET ease_factor = $1,
-           repetitions = $2,
-           interval = $3,
-           next_review_at = $4,
-           last_reviewed_at = current_timestamp
-       WHERE user_id = $5 AND meaning_id = $6`,
-      [newEaseFactor, newRepetitions, newInterval, nextReviewAt, userId, meaningId]
-    );
-  }
-
   /**
    * Record practice attempt
    */
@@ -380,7 +248,8 @@ export class TranslationService {
     userTranslation: string,
     isCorrect: boolean,
     similarity: number,
-    timeSpentMs: number
+    timeSpentMs: number,
+    hintsUsed: number
   ): Promise<void> {
     await this.pool.query(
       `INSERT INTO user_exercise_results
@@ -392,7 +261,7 @@ export class TranslationService {
         '00000000-0000-0000-0000-000000000000',
         isCorrect,
         timeSpentMs,
-        JSON.stringify({ translation: userTranslation, similarity, meaningId }),
+        JSON.stringify({ translation: userTranslation, similarity, meaningId, hintsUsed }),
       ]
     );
   }
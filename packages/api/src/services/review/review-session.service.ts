@@ -1,5 +1,7 @@
 import { Pool } from 'pg';
-import { SM2Calculator } from '../srs/sm2-calculator';
+import { SRSService } from '../srs/srs.service';
+import { BacklogRecoveryService } from '../srs/backlog-recovery.service';
+import { isSRSItemType } from '../srs/item-types';
 import {
   ReviewSessionStatus,
   SessionStats,
@@ -28,9 +30,9 @@ interface SessionRow {
 }
 
 /**
- * Database row for SRS schedule items
+ * Database row for a review queue item with its display content
  */
-interface SRSScheduleRow {
+interface QueueRow {
   id: string;
   item_type: string;
   item_id: string;
@@ -38,12 +40,6 @@ interface SRSScheduleRow {
   interval_days: number;
   ease_factor: string;
   repetitions: number;
-}
-
-/**
- * Database row for vocabulary content
- */
-interface VocabularyRow extends SRSScheduleRow {
   word_text: string | null;
   definition: string | null;
   audio_url: string | null;
@@ -54,35 +50,75 @@ interface VocabularyRow extends SRSScheduleRow {
  * ReviewSessionService manages review sessions and integrates with SRS
  */
 export class ReviewSessionService {
-  private readonly calculator: SM2Calculator;
+  private readonly srsService: SRSService;
+  private readonly backlogRecovery: BacklogRecoveryService;
 
   constructor(private readonly pool: Pool) {
-    this.calculator = new SM2Calculator();
+    this.srsService = new SRSService(pool);
+    this.backlogRecovery = new BacklogRecoveryService(pool);
   }
 
   /**
    * Start a new review session
+   *
+   * The queue covers every scheduled item type; see getQueue for ordering.
+   * Counts are capped by the daily review and new item limits, like the
+   * queue itself. Starting a session ends vacation mode, so due dates frozen during the
+   * pause are shifted before anything is counted. Items moved by a recovery
+   * plan only count on the day the plan assigned them to.
    */
   async startSession(userId: string, language?: string): Promise<StartSessionResult> {
-    // Count items due for review
-    let countQuery = `
-      SELECT COUNT(*) as count
-      FROM user_srs_schedule
-      WHERE user_id = $1 AND due_date <= CURRENT_TIMESTAMP
-    `;
-    const countParams: (string | undefined)[] = [userId];
+    await this.backlogRecovery.resume(userId);
+
+    const quota = await this.srsService.getDailyQuota(userId);
+
+    // Count items due for review, per item type, within the daily limits
+    const countParams: (string | number)[] = [userId];
+    let languageFilter = '';
 
     if (language) {
-      countQuery = `
-        SELECT COUNT(*) as count
-        FROM user_srs_items
-        WHERE user_id = $1 AND language = $2 AND next_review_at <= CURRENT_TIMESTAMP
-      `;
+      languageFilter = 'AND language = $2';
       countParams.push(language);
     }
 
-    const countResult = await this.pool.query<{ count: string }>(countQuery, countParams);
-    const itemsInQueue = parseInt(countResult.rows[0]?.count ?? '0', 10);
+    countParams.push(quota.newRemaining, quota.reviewsRemaining);
+
+    // Same quota ranking as getQueue, so the counts match the queue
+    const countResult = await this.pool.query<{ item_type: string; count: string }>(
+      `SELECT item_type, COUNT(*) as count
+       FROM (
+         SELECT
+           item_type,
+           last_reviewed_at IS NULL as is_new,
+           ROW_NUMBER() OVER (
+             PARTITION BY last_reviewed_at IS NULL
+             ORDER BY
+               EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - next_review_at))
+                 / GREATEST(interval, 1) DESC,
+               next_review_at ASC
+           ) as quota_rank
+         FROM user_srs_items
+         WHERE user_id = $1 ${languageFilter} AND next_review_at <= CURRENT_TIMESTAMP
+           AND suspended_at IS NULL
+       ) due
+       WHERE quota_rank <= CASE
+         WHEN is_new THEN $${countParams.length - 1}::int
+         ELSE $${countParams.length}::int
+       END
+       GROUP BY item_type`,
+      countParams
+    );
+
+    const itemsByType: Record<string, number> = {};
+    let itemsInQueue = 0;
+
+    for (const row of countResult.rows) {
+      const count = parseInt(row.count, 10);
+      itemsInQueue += count;
+      if (row.item_type) {
+        itemsByType[row.item_type] = count;
+      }
+    }
 
     // Create session record
     const sessionResult = await this.pool.query<{ id: string; started_at: Date }>(
@@ -98,64 +134,99 @@ export class ReviewSessionService {
     return {
       sessionId: session.id,
       itemsInQueue,
+      itemsByType,
       startedAt: session.started_at.toISOString(),
     };
   }
 
   /**
    * Get review queue for user
+   *
+   * The queue respects the user's daily review and new item limits; items
+   * over the limit stay due and roll forward to the next day. Within the
+   * limits the most overdue items (relative to their interval) are chosen,
+   * and item types are interleaved so one large backlog cannot crowd out
+   * the rest.
    */
   async getQueue(
     userId: string,
     language?: string,
     limit: number = 50
   ): Promise<ReviewQueueResponse> {
-    let query: string;
-    let params: (string | number)[];
+    const quota = await this.srsService.getDailyQuota(userId);
+
+    const params: (string | number)[] = [userId];
+    let languageFilter = '';
 
     if (language) {
-      // Use user_srs_items for vocabulary with language filter
-      query = `
-        SELECT
-          usi.id,
-          'vocabulary' as item_type,
-          usi.meaning_id as item_id,
-          usi.next_review_at as due_date,
-          usi.interval as interval_days,
-          usi.ease_factor,
-          usi.repetitions,
-          au.text as word_text,
-          au.usage_notes as definition,
-          au.audio_url,
-          am.level
-        FROM user_srs_items usi
-        JOIN approved_meanings am ON usi.meaning_id = am.id
-        LEFT JOIN approved_utterances au ON au.meaning_id = am.id AND au.language = $2
-        WHERE usi.user_id = $1 AND usi.language = $2 AND usi.next_review_at <= CURRENT_TIMESTAMP
-        ORDER BY usi.next_review_at ASC
-        LIMIT $3
-      `;
-      params = [userId, language, limit];
-    } else {
-      // Use user_srs_schedule for general SRS items
-      query = `
-        SELECT
-          id,
-          item_type,
-          item_id,
-          due_date,
-          interval_days,
-          ease_factor,
-          repetitions
-        FROM user_srs_schedule
-        WHERE user_id = $1 AND due_date <= CURRENT_TIMESTAMP
-        ORDER BY due_date ASC
-        LIMIT $2
-      `;
-      params = [userId, limit];
+      languageFilter = 'AND usi.language = $2';
+      params.push(language);
     }
 
-    const result = await this.pool.query<VocabularyRow>(query, params);
+    params.push(quota.newRemaining, quota.reviewsRemaining, limit);
+
+    const result = await this.pool.query<QueueRow>(
+      `SELECT
+         id, item_type, item_id, due_date, interval_days, ease_factor, repetitions,
+         word_text, definition, audio_url, level
+       FROM (
+         SELECT
+           capped.*,
+           ROW_NUMBER() OVER (
+             PARTITION BY item_type ORDER BY overdue_ratio DESC, due_date ASC
+           ) as type_rank
+         FROM (
+           SELECT
+             usi.id,
+             usi.item_type,
+             usi.item_id,
+             usi.next_review_at as due_date,
+             usi.interval as interval_days,
+             usi.ease_factor,
+             usi.repetitions,
+             COALESCE(au.text, ar.title, cg.metadata->>'letter', rp.title) as word_text,
+             COALESCE(au.usage_notes, ar.explanation, cg.metadata->>'soundDescription') as definition,
+             COALESCE(au.audio_url, rp.audio_url) as audio_url,
+             COALESCE(am.level, ar.level, rp.cefr_level) as level,
+             EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - usi.next_review_at)) / 86400.0
+               / GREATEST(usi.interval, 1) as overdue_ratio,
+             ROW_NUMBER() OVER (
+               PARTITION BY usi.last_reviewed_at IS NULL
+               ORDER BY
+                 EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - usi.next_review_at))
+                   / GREATEST(usi.interval, 1) DESC,
+                 usi.next_review_at ASC
+             ) as quota_rank,
+             usi.last_reviewed_at IS NULL as is_new
+           FROM user_srs_items usi
+           LEFT JOIN approved_meanings am
+             ON usi.item_type = 'vocabulary' AND am.id::text = usi.item_id
+           -- One utterance per word, so each item is counted once for the quota
+           LEFT JOIN LATERAL (
+             SELECT u.text, u.usage_notes, u.audio_url
+             FROM approved_utterances u
+             WHERE u.meaning_id = am.id AND u.language = usi.language
+             ORDER BY LENGTH(u.text) ASC, u.created_at ASC
+             LIMIT 1
+           ) au ON true
+           LEFT JOIN approved_rules ar
+             ON usi.item_type = 'grammar' AND ar.id::text = usi.item_id
+           LEFT JOIN curriculum_graph cg
+             ON usi.item_type = 'orthography' AND cg.concept_id = usi.item_id AND cg.language = usi.language
+           LEFT JOIN approved_reading_passages rp
+             ON usi.item_type = 'reading' AND rp.id::text = usi.item_id
+           WHERE usi.user_id = $1 ${languageFilter} AND usi.next_review_at <= CURRENT_TIMESTAMP
+             AND usi.suspended_at IS NULL
+         ) capped
+         WHERE quota_rank <= CASE
+           WHEN is_new THEN $${params.length - 2}::int
+           ELSE $${params.length - 1}::int
+         END
+       ) due
+       ORDER BY type_rank ASC, overdue_ratio DESC
+       LIMIT $${params.length}`,
+      params
+    );
 
     const items: ReviewQueueItem[] = result.rows.map((row) => ({
       id: row.id,
@@ -173,18 +244,34 @@ export class ReviewSessionService {
       },
     }));
 
-    // Get next review time if no items due now
+    // Get next review time if no items are left for today. Items held back
+    // by the daily limits are due again when the next day starts.
     let nextReviewAt: string | null = null;
-    if (items.length === 0) {
-      const nextQuery = language
-        ? `SELECT MIN(next_review_at) as next_due FROM user_srs_items WHERE user_id = $1 AND language = $2 AND next_review_at > CURRENT_TIMESTAMP`
-        : `SELECT MIN(due_date) as next_due FROM user_srs_schedule WHERE user_id = $1 AND due_date > CURRENT_TIMESTAMP`;
+    let dailyLimitReached = false;
 
+    if (items.length === 0) {
       const nextParams = language ? [userId, language] : [userId];
-      const nextResult = await this.pool.query<{ next_due: Date | null }>(nextQuery, nextParams);
+      const nextResult = await this.pool.query<{
+        next_due: Date | null;
+        held_back: string | null;
+      }>(
+        `SELECT
+           CASE
+             WHEN COUNT(*) FILTER (WHERE next_review_at <= CURRENT_TIMESTAMP) > 0
+               THEN date_trunc('day', CURRENT_TIMESTAMP) + INTERVAL '1 day'
+             ELSE MIN(next_review_at)
+           END as next_due,
+           COUNT(*) FILTER (WHERE next_review_at <= CURRENT_TIMESTAMP) as held_back
+         FROM user_srs_items
+         WHERE user_id = $1 ${language ? 'AND language = $2' : ''} AND suspended_at IS NULL`,
+        nextParams
+      );
+
+      const row = nextResult.rows[0];
+      dailyLimitReached = parseInt(row?.held_back ?? '0', 10) > 0;
 
-      if (nextResult.rows[0]?.next_due) {
-        nextReviewAt = nextResult.rows[0].next_due.toISOString();
+      if (row?.next_due) {
+        nextReviewAt = row.next_due.toISOString();
       }
     }
 
@@ -192,6 +279,7 @@ export class ReviewSessionService {
       total: items.length,
       items,
       nextReviewAt,
+      dailyLimitReached,
     };
   }
 
@@ -201,70 +289,23 @@ export class ReviewSessionService {
   async submitReview(userId: string, submission: ReviewSubmission): Promise<ReviewSubmitResult> {
     const { itemId, itemType, rating, responseTimeMs, wasCorrect, sessionId } = submission;
 
-    // Get current SRS data
-    const scheduleQuery =
-      itemType === 'vocabulary'
-        ? `SELECT id, interval as interval_days, ease_factor, repetitions
-           FROM user_srs_items WHERE user_id = $1 AND meaning_id = $2`
-        : `SELECT id, interval_days, ease_factor, repetitions
-           FROM user_srs_schedule WHERE user_id = $1 AND item_id = $2`;
-
-    const scheduleResult = await this.pool.query<{
-      id: string;
-      interval_days: number;
-      ease_factor: string;
-      repetitions: number;
-    }>(scheduleQuery, [userId, itemId]);
-
-    if (scheduleResult.rows.length === 0) {
+    if (!isSRSItemType(itemType)) {
       throw new NotFoundError(`SRS item not found for user ${userId} and item ${itemId}`);
     }
 
-    const current = scheduleResult.rows[0];
-
-    // Calculate new schedule using SM-2
-    const scheduleItem = {
-      id: current.id,
-      userId,
-      itemType: itemType as 'vocabulary' | 'grammar' | 'orthography' | 'reading',
-      itemId,
-      language: 'EN', // Will be overridden by actual item data
-      dueDate: new Date(),
-      interval: current.interval_days,
-      repetitions: current.repetitions,
-      easeFactor: parseFloat(current.ease_factor),
-      lastReviewedAt: null,
-    };
-
-    const update = this.calculator.calculateNext(scheduleItem, rating);
-
-    // Update SRS schedule
-    const updateQuery =
-      itemType === 'vocabulary'
-        ? `UPDATE user_srs_items
-           SET interval = $1, repetitions = $2, ease_factor = $3, next_review_at = $4, last_reviewed_at = CURRENT_TIMESTAMP
-           WHERE user_id = $5 AND meaning_id = $6`
-        : `UPDATE user_srs_schedule
-           SET interval_days = $1, repetitions = $2, ease_factor = $3, due_date = $4, updated_at = CURRENT_TIMESTAMP
-           WHERE user_id = $5 AND item_id = $6`;
-
-    await this.pool.query(updateQuery, [
-      update.newInterval,
-      update.newRepetitions,
-      update.newEaseFactor,
-      update.nextDueDate,
-      userId,
-      itemId,
-    ]);
+    // Schedule and log the review through the shared SRS engine
+    const update = await this.srsService.recordReview(userId, itemId, rating, itemType, {
+      practiceMode: 'review',
+      responseTimeMs,
+      sessionId,
+      wasCorrect,
+    });
 
     // Update session if provided
     if (sessionId) {
       await this.updateSessionProgress(sessionId, userId, wasCorrect, responseTimeMs);
     }
 
-    // Record in review history
-    await this.recordReviewHistory(userId, itemId, itemType, rating, responseTimeMs, wasCorrect);
-
     return {
       success: true,
       nextReview: {
@@ -296,30 +337,6 @@ export class ReviewSessionService {
     );
   }
 
-  /**
-   * Record review in history table
-   */
-  private async recordReviewHistory(
-    userId: string,
-    itemId: string,
-    itemType: string,
-    rating: string,
-    responseTimeMs: number,
-    _wasCorrect: boolean
-  ): Promise<void> {
-    try {
-      await this.pool.query(
-        `INSERT INTO srs_review_history
-         (user_id, item_id, item_type, language, rating, previous_interval, new_interval,
-          previous_ease_factor, new_ease_factor, previous_repetitions, new_repetitions, response_time_ms)
-         VALUES ($1, $2, $3, 'EN', $4, 0, 0, 2.5, 2.5, 0, 0, $5)`,
-        [userId, itemId, itemType, rating, responseTimeMs]
-      );
-    } catch {
-      // Silently fail if history table has issues
-    }
-  }
-
   /**
    * Get session by ID
    */
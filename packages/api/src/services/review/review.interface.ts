@@ -66,6 +66,7 @@ export interface SessionStats {
 export interface StartSessionResult {
   sessionId: string;
   itemsInQueue: number;
+  itemsByType: Record<string, number>; // Due counts keyed by SRS item type
   startedAt: string;
 }
 
@@ -101,4 +102,5 @@ export interface ReviewQueueResponse {
   total: number;
   items: ReviewQueueItem[];
   nextReviewAt: string | null;
+  dailyLimitReached: boolean; // Due items are held back by the daily limits
 }
@@ -0,0 +1,2 @@
+export * from './practice-session.interface';
+export { PracticeSessionService } from './practice-session.service';
@@ -0,0 +1,139 @@
+import { ClozeExercise, ClozeValidationResult } from '../practice/cloze.service';
+import { DictationExercise, DictationResult } from '../practice/dictation.service';
+import { TranslationExercise, TranslationResult } from '../practice/translation.service';
+import {
+  ProductionAnswerResult,
+  ProductionExercise,
+  SelfRating,
+} from '../practice/production.service';
+import {
+  ComprehensionQuestion,
+  ReadingPassage,
+  ReadingResult,
+  UserAnswer,
+} from '../practice/reading.service';
+
+/**
+ * Practice modes run by the session engine
+ */
+export type SessionPracticeMode = 'cloze' | 'dictation' | 'translation' | 'reading' | 'production';
+
+/**
+ * Practice session status
+ * - expired: the time limit ran out before every item was answered
+ */
+export type PracticeSessionStatus = 'active' | 'completed' | 'abandoned' | 'expired';
+
+/**
+ * Exercise of a session item, as stored on the server
+ */
+export type SessionExercise =
+  | ClozeExercise
+  | DictationExercise
+  | TranslationExercise
+  | ReadingPassage
+  | ProductionExercise;
+
+/**
+ * Reading passage without the correct answers, as sent to the client
+ */
+export type ClientReadingPassage = Omit<ReadingPassage, 'questions'> & {
+  questions: Array<Omit<ComprehensionQuestion, 'correctAnswerIndex' | 'explanation'>>;
+};
+
+/**
+ * Options for starting a practice session
+ */
+export interface StartPracticeSessionOptions {
+  practiceMode: SessionPracticeMode;
+  language: string;
+  sourceLanguage?: string; // Required for translation
+  limit: number;
+  timeLimitSeconds?: number;
+}
+
+/**
+ * Answer to a session item; the shape depends on the practice mode
+ * - cloze, dictation, translation: text
+ * - reading: answers
+ * - production: selfRating, recordingDuration, attemptNumber; or text, graded
+ *   automatically unless a selfRating overrides the grade
+ */
+export interface SessionAnswer {
+  text?: string;
+  answers?: UserAnswer[];
+  selfRating?: SelfRating;
+  recordingDuration?: number;
+  attemptNumber?: number;
+  replayCount?: number;
+  hintsUsed?: number;
+}
+
+/**
+ * Grading result of an answer, as returned by the practice mode
+ */
+export type SessionAnswerResult =
+  | ClozeValidationResult
+  | DictationResult
+  | TranslationResult
+  | ReadingResult
+  | ProductionAnswerResult
+  | { success: boolean; qualityRating: number };
+
+/**
+ * A single item of a practice session
+ */
+export interface PracticeSessionItem {
+  itemId: string;
+  position: number;
+  exercise: Exclude<SessionExercise, ReadingPassage> | ClientReadingPassage;
+  answered: boolean;
+  isCorrect: boolean | null;
+  result: SessionAnswerResult | null;
+}
+
+/**
+ * A practice session with its ordered items
+ */
+export interface PracticeSession {
+  sessionId: string;
+  practiceMode: SessionPracticeMode;
+  language: string;
+  sourceLanguage: string | null;
+  status: PracticeSessionStatus;
+  items: PracticeSessionItem[];
+  currentPosition: number; // First unanswered item; items.length when all are answered
+  timeLimitSeconds: number | null;
+  timeRemainingSeconds: number | null;
+  startedAt: string;
+}
+
+/**
+ * Result of answering a session item
+ */
+export interface SessionAnswerOutcome {
+  isCorrect: boolean;
+  result: SessionAnswerResult;
+  itemsAnswered: number;
+  itemsTotal: number;
+  status: PracticeSessionStatus;
+}
+
+/**
+ * Session summary for display
+ */
+export interface PracticeSessionSummary {
+  sessionId: string;
+  practiceMode: SessionPracticeMode;
+  language: string;
+  status: PracticeSessionStatus;
+  itemsTotal: number;
+  itemsAnswered: number;
+  correctCount: number;
+  accuracyPct: number;
+  durationSeconds: number;
+  avgTimeMs: number;
+  timeLimitSeconds: number | null;
+  startedAt: string;
+  completedAt: string | null;
+}
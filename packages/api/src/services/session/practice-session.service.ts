@@ -0,0 +1,592 @@
+import { Pool } from 'pg';
+import { withTransaction } from '../../utils/db.utils';
+import { ClozeExercise, ClozeExerciseService } from '../practice/cloze.service';
+import { DictationExercise, DictationService } from '../practice/dictation.service';
+import { TranslationExercise, TranslationService } from '../practice/translation.service';
+import { ProductionExercise, ProductionService } from '../practice/production.service';
+import { ReadingComprehensionService, ReadingPassage } from '../practice/reading.service';
+import {
+  PracticeSession,
+  PracticeSessionItem,
+  PracticeSessionStatus,
+  PracticeSessionSummary,
+  SessionAnswer,
+  SessionAnswerOutcome,
+  SessionAnswerResult,
+  SessionExercise,
+  SessionPracticeMode,
+  StartPracticeSessionOptions,
+} from './practice-session.interface';
+
+/**
+ * Database row for practice sessions
+ */
+interface SessionRow {
+  id: string;
+  user_id: string;
+  practice_mode: SessionPracticeMode;
+  language: string;
+  source_language: string | null;
+  status: string;
+  items_total: number;
+  items_answered: number;
+  correct_count: number;
+  total_time_ms: string;
+  time_limit_seconds: number | null;
+  expires_at: Date | null;
+  started_at: Date;
+  completed_at: Date | null;
+  duration_seconds?: string;
+}
+
+/**
+ * Database row for practice session items
+ */
+interface ItemRow {
+  item_id: string;
+  position: number;
+  exercise: SessionExercise;
+  result: SessionAnswerResult | null;
+  is_correct: boolean | null;
+  answered_at: Date | null;
+}
+
+/**
+ * Error thrown when a session request cannot be served
+ */
+class PracticeSessionError extends Error {
+  statusCode: number;
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'PracticeSessionError';
+    this.statusCode = statusCode;
+  }
+}
+
+const SESSION_COLUMNS = `
+  id, user_id, practice_mode, language, source_language, status,
+  items_total, items_answered, correct_count, total_time_ms,
+  time_limit_seconds, expires_at, started_at, completed_at`;
+
+/**
+ * PracticeSessionService is the session engine of the cloze, dictation,
+ * translation, reading and production practice modes
+ *
+ * A session stores its ordered item list on the server and each answer as
+ * it arrives, so an interrupted session can be resumed from the active
+ * session. Answers are graded by the practice mode's own service, which
+ * also updates the SRS schedule. Sessions with a time limit stop accepting
+ * answers once it runs out and are marked expired.
+ */
+export class PracticeSessionService {
+  private readonly clozeService: ClozeExerciseService;
+  private readonly dictationService: DictationService;
+  private readonly translationService: TranslationService;
+  private readonly readingService: ReadingComprehensionService;
+  private readonly productionService: ProductionService;
+
+  constructor(private readonly pool: Pool) {
+    this.clozeService = new ClozeExerciseService(pool);
+    this.dictationService = new DictationService(pool);
+    this.translationService = new TranslationService(pool);
+    this.readingService = new ReadingComprehensionService(pool);
+    this.productionService = new ProductionService(pool);
+  }
+
+  /**
+   * Start a practice session
+   *
+   * An active session of the same practice mode is abandoned, so each user
+   * has at most one session to resume per mode.
+   */
+  async startSession(
+    userId: string,
+    options: StartPracticeSessionOptions
+  ): Promise<PracticeSession> {
+    const { practiceMode, language, sourceLanguage, timeLimitSeconds } = options;
+
+    if (practiceMode === 'translation' && !sourceLanguage) {
+      throw new PracticeSessionError('Translation sessions require a source language');
+    }
+
+    const exercises = await this.fetchExercises(userId, options);
+
+    if (exercises.length === 0) {
+      throw new PracticeSessionError('No exercises available for this practice mode', 404);
+    }
+
+    // Abandoning the old session and storing the new one with its items
+    // succeed or fail together, so no empty session is left active
+    const client = await this.pool.connect();
+    let session: SessionRow;
+
+    try {
+      session = await withTransaction(client, async (txClient) => {
+        await txClient.query(
+          `UPDATE practice_sessions
+             SET status = 'abandoned', completed_at = CURRENT_TIMESTAMP
+             WHERE user_id = $1 AND practice_mode = $2 AND status = 'active'`,
+          [userId, practiceMode]
+        );
+
+        const sessionResult = await txClient.query<SessionRow>(
+          `INSERT INTO practice_sessions
+               (user_id, practice_mode, language, source_language, status, items_total,
+                items_answered, correct_count, total_time_ms, time_limit_seconds, expires_at,
+                started_at, last_activity_at)
+             VALUES ($1, $2, $3, $4, 'active', $5, 0, 0, 0, $6::int,
+                     CURRENT_TIMESTAMP + make_interval(secs => $6::int),
+                     CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+             RETURNING ${SESSION_COLUMNS}`,
+          [
+            userId,
+            practiceMode,
+            language,
+            practiceMode === 'translation' ? sourceLanguage : null,
+            exercises.length,
+            timeLimitSeconds ?? null,
+          ]
+        );
+
+        const created = sessionResult.rows[0];
+
+        await txClient.query(
+          `INSERT INTO practice_session_items (session_id, position, item_id, exercise)
+             SELECT $1, t.position, t.item_id, t.exercise
+             FROM unnest($2::int[], $3::text[], $4::jsonb[]) AS t(position, item_id, exercise)`,
+          [
+            created.id,
+            exercises.map((_, index) => index),
+            exercises.map((exercise) => this.getItemId(exercise)),
+            exercises.map((exercise) => JSON.stringify(exercise)),
+          ]
+        );
+
+        return created;
+      });
+    } finally {
+      client.release();
+    }
+
+    return this.toSession(
+      session,
+      exercises.map((exercise, position) => ({
+        item_id: this.getItemId(exercise),
+        position,
+        exercise,
+        result: null,
+        is_correct: null,
+        answered_at: null,
+      }))
+    );
+  }
+
+  /**
+   * Get the user's active session to resume (if any)
+   *
+   * Sessions whose time limit ran out are expired first.
+   */
+  async getActiveSession(
+    userId: string,
+    practiceMode?: SessionPracticeMode
+  ): Promise<PracticeSession | null> {
+    await this.expireSessions(userId);
+
+    const params: string[] = [userId];
+    let modeFilter = '';
+
+    if (practiceMode) {
+      modeFilter = 'AND practice_mode = $2';
+      params.push(practiceMode);
+    }
+
+    const sessionResult = await this.pool.query<SessionRow>(
+      `SELECT ${SESSION_COLUMNS}
+       FROM practice_sessions
+       WHERE user_id = $1 ${modeFilter} AND status = 'active'
+       ORDER BY started_at DESC
+       LIMIT 1`,
+      params
+    );
+
+    if (sessionResult.rows.length === 0) {
+      return null;
+    }
+
+    const session = sessionResult.rows[0];
+
+    const itemsResult = await this.pool.query<ItemRow>(
+      `SELECT item_id, position, exercise, result, is_correct, answered_at
+       FROM practice_session_items
+       WHERE session_id = $1
+       ORDER BY position ASC`,
+      [session.id]
+    );
+
+    return this.toSession(session, itemsResult.rows);
+  }
+
+  /**
+   * Grade and persist the answer to a session item
+   *
+   * The session completes when its last item is answered.
+   */
+  async submitAnswer(
+    userId: string,
+    sessionId: string,
+    itemId: string,
+    answer: SessionAnswer,
+    timeSpentMs: number
+  ): Promise<SessionAnswerOutcome> {
+    const session = await this.getSessionRow(sessionId, userId);
+
+    if (!session) {
+      throw new PracticeSessionError('Session not found', 404);
+    }
+
+    if (session.status === 'active' && session.expires_at && session.expires_at <= new Date()) {
+      await this.expireSessions(userId);
+      throw new PracticeSessionError('Session time limit reached', 409);
+    }
+
+    if (session.status !== 'active') {
+      throw new PracticeSessionError(`Session is ${session.status}`, 409);
+    }
+
+    // Claim the item before grading so a concurrent submission of the same
+    // item finds it answered and is never graded or counted a second time
+    const claimResult = await this.pool.query<ItemRow>(
+      `UPDATE practice_session_items
+       SET answered_at = CURRENT_TIMESTAMP
+       WHERE session_id = $1 AND item_id = $2 AND answered_at IS NULL
+       RETURNING item_id, position, exercise, result, is_correct, answered_at`,
+      [sessionId, itemId]
+    );
+
+    if (claimResult.rows.length === 0) {
+      const existing = await this.pool.query(
+        `SELECT 1 FROM practice_session_items WHERE session_id = $1 AND item_id = $2`,
+        [sessionId, itemId]
+      );
+
+      if (existing.rows.length === 0) {
+        throw new PracticeSessionError('Item not found in session', 404);
+      }
+
+      throw new PracticeSessionError('Item already answered', 409);
+    }
+
+    const item = claimResult.rows[0];
+    let graded: { result: SessionAnswerResult; isCorrect: boolean };
+
+    try {
+      graded = await this.grade(userId, session, item.exercise, answer, timeSpentMs);
+    } catch (error) {
+      // Hand the item back so the learner can retry after a grading failure
+      await this.pool.query(
+        `UPDATE practice_session_items
+         SET answered_at = NULL
+         WHERE session_id = $1 AND item_id = $2`,
+        [sessionId, itemId]
+      );
+      throw error;
+    }
+
+    const { result, isCorrect } = graded;
+
+    await this.pool.query(
+      `UPDATE practice_session_items
+       SET answer = $3, result = $4, is_correct = $5, time_spent_ms = $6
+       WHERE session_id = $1 AND item_id = $2`,
+      [sessionId, itemId, JSON.stringify(answer), JSON.stringify(result), isCorrect, timeSpentMs]
+    );
+
+    const updateResult = await this.pool.query<SessionRow>(
+      `UPDATE practice_sessions
+       SET items_answered = items_answered + 1,
+           correct_count = correct_count + CASE WHEN $3 THEN 1 ELSE 0 END,
+           total_time_ms = total_time_ms + $4,
+           status = CASE WHEN items_answered + 1 >= items_total THEN 'completed' ELSE status END,
+           completed_at = CASE
+             WHEN items_answered + 1 >= items_total THEN CURRENT_TIMESTAMP
+             ELSE completed_at
+           END,
+           last_activity_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2
+       RETURNING ${SESSION_COLUMNS}`,
+      [sessionId, userId, isCorrect, timeSpentMs]
+    );
+
+    const updated = updateResult.rows[0];
+
+    return {
+      isCorrect,
+      result,
+      itemsAnswered: updated.items_answered,
+      itemsTotal: updated.items_total,
+      status: updated.status as PracticeSessionStatus,
+    };
+  }
+
+  /**
+   * Complete a session early; unanswered items stay unanswered
+   */
+  async completeSession(sessionId: string, userId: string): Promise<PracticeSessionSummary | null> {
+    await this.pool.query(
+      `UPDATE practice_sessions
+       SET status = 'completed', completed_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2 AND status = 'active'`,
+      [sessionId, userId]
+    );
+
+    return this.getSummary(sessionId, userId);
+  }
+
+  /**
+   * Get the summary of a session
+   */
+  async getSummary(sessionId: string, userId: string): Promise<PracticeSessionSummary | null> {
+    const session = await this.getSessionRow(sessionId, userId);
+
+    if (!session) {
+      return null;
+    }
+
+    const itemsAnswered = session.items_answered;
+    const correctCount = session.correct_count;
+
+    return {
+      sessionId: session.id,
+      practiceMode: session.practice_mode,
+      language: session.language,
+      status: session.status as PracticeSessionStatus,
+      itemsTotal: session.items_total,
+      itemsAnswered,
+      correctCount,
+      accuracyPct: itemsAnswered > 0 ? Math.round((correctCount / itemsAnswered) * 100) : 0,
+      durationSeconds: Math.round(parseFloat(session.duration_seconds ?? '0')),
+      avgTimeMs:
+        itemsAnswered > 0 ? Math.round(parseInt(session.total_time_ms, 10) / itemsAnswered) : 0,
+      timeLimitSeconds: session.time_limit_seconds,
+      startedAt: session.started_at.toISOString(),
+      completedAt: session.completed_at ? session.completed_at.toISOString() : null,
+    };
+  }
+
+  /**
+   * Get a session of a user, with its duration so far
+   */
+  private async getSessionRow(sessionId: string, userId: string): Promise<SessionRow | null> {
+    const result = await this.pool.query<SessionRow>(
+      `SELECT ${SESSION_COLUMNS},
+         EXTRACT(EPOCH FROM (
+           COALESCE(completed_at, LEAST(CURRENT_TIMESTAMP, expires_at), CURRENT_TIMESTAMP)
+             - started_at
+         )) as duration_seconds
+       FROM practice_sessions
+       WHERE id = $1 AND user_id = $2`,
+      [sessionId, userId]
+    );
+
+    return result.rows[0] ?? null;
+  }
+
+  /**
+   * Mark the user's active sessions whose time limit ran out as expired
+   */
+  private async expireSessions(userId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE practice_sessions
+       SET status = 'expired', completed_at = expires_at
+       WHERE user_id = $1 AND status = 'active' AND expires_at <= CURRENT_TIMESTAMP`,
+      [userId]
+    );
+  }
+
+  /**
+   * Fetch the ordered exercises of a new session from the practice mode
+   */
+  private async fetchExercises(
+    userId: string,
+    options: StartPracticeSessionOptions
+  ): Promise<SessionExercise[]> {
+    const { practiceMode, language, sourceLanguage, limit } = options;
+
+    switch (practiceMode) {
+      case 'cloze':
+        return this.clozeService.getClozeExercises(userId, language, limit);
+      case 'dictation':
+        return this.dictationService.getDictationExercises(userId, language, limit);
+      case 'translation':
+        return this.translationService.getTranslationExercises(
+          userId,
+          sourceLanguage!,
+          language,
+          limit
+        );
+      case 'reading':
+        return this.readingService.getReadingPassages(userId, language, undefined, limit);
+      case 'production':
+        return this.productionService.getProductionExercises(userId, language, limit);
+      default: {
+        const exhaustiveCheck: never = practiceMode;
+        throw new PracticeSessionError(`Unknown practice mode: ${String(exhaustiveCheck)}`);
+      }
+    }
+  }
+
+  /**
+   * Grade an answer with the practice mode's own service
+   *
+   * Reading and production have no right or wrong answer as a whole; they
+   * count as correct with an SRS quality of 3 or more.
+   */
+  private async grade(
+    userId: string,
+    session: SessionRow,
+    exercise: SessionExercise,
+    answer: SessionAnswer,
+    timeSpentMs: number
+  ): Promise<{ result: SessionAnswerResult; isCorrect: boolean }> {
+    const requireText = (): string => {
+      if (answer.text === undefined) {
+        throw new PracticeSessionError('Answer text is required');
+      }
+      return answer.text;
+    };
+
+    switch (session.practice_mode) {
+      case 'cloze': {
+        const cloze = exercise as ClozeExercise;
+        const result = await this.clozeService.validateClozeAnswer(
+          userId,
+          cloze.exerciseId,
+          requireText(),
+          cloze.correctAnswer,
+          cloze.alternativeAnswers,
+          cloze.meaningId,
+          timeSpentMs,
+          session.language,
+          answer.hintsUsed
+        );
+        return { result, isCorrect: result.isCorrect };
+      }
+
+      case 'dictation': {
+        const dictation = exercise as DictationExercise;
+        const result = await this.dictationService.validateDictation(
+          userId,
+          dictation.meaningId,
+          requireText(),
+          dictation.correctTranscript,
+          timeSpentMs,
+          session.language,
+          answer.replayCount
+        );
+        return { result, isCorrect: result.isCorrect };
+      }
+
+      case 'translation': {
+        const translation = exercise as TranslationExercise;
+        const result = await this.translationService.validateTranslation(
+          userId,
+          translation.meaningId,
+          requireText(),
+          translation.acceptableTranslations,
+          timeSpentMs,
+          session.language,
+          answer.hintsUsed
+        );
+        return { result, isCorrect: result.isCorrect };
+      }
+
+      case 'reading': {
+        if (!answer.answers) {
+          throw new PracticeSessionError('Answers to the questions are required');
+        }
+        const result = await this.readingService.submitAnswers(
+          userId,
+          (exercise as ReadingPassage).id,
+          answer.answers,
+          timeSpentMs
+        );
+        return { result, isCorrect: result.qualityRating >= 3 };
+      }
+
+      case 'production': {
+        const { selfRating, recordingDuration, attemptNumber } = answer;
+        if (answer.text !== undefined) {
+          const result = await this.productionService.submitAnswer(userId, {
+            meaningId: (exercise as ProductionExercise).meaningId,
+            language: session.language,
+            answer: requireText(),
+            timeSpentMs,
+            hintsUsed: answer.hintsUsed,
+            selfRating,
+          });
+          return { result, isCorrect: result.isCorrect };
+        }
+        if (!selfRating || recordingDuration === undefined || attemptNumber === undefined) {
+          throw new PracticeSessionError(
+            'Self-rating, recording duration and attempt number are required'
+          );
+        }
+        const result = await this.productionService.submitAssessment(userId, {
+          meaningId: (exercise as ProductionExercise).meaningId,
+          selfRating,
+          recordingDuration,
+          attemptNumber,
+          timeSpentMs,
+          hintsUsed: answer.hintsUsed,
+        });
+        return { result, isCorrect: result.qualityRating >= 3 };
+      }
+
+      default: {
+        const exhaustiveCheck: never = session.practice_mode;
+        throw new PracticeSessionError(`Unknown practice mode: ${String(exhaustiveCheck)}`);
+      }
+    }
+  }
+
+  /**
+   * Id of an exercise, unique within a session
+   */
+  private getItemId(exercise: SessionExercise): string {
+    return 'exerciseId' in exercise ? exercise.exerciseId : exercise.id;
+  }
+
+  /**
+   * Map session and item rows to a session as sent to the client
+   */
+  private toSession(session: SessionRow, items: ItemRow[]): PracticeSession {
+    const sessionItems: PracticeSessionItem[] = items.map((item) => ({
+      itemId: item.item_id,
+      position: item.position,
+      exercise:
+        session.practice_mode === 'reading'
+          ? this.readingService.sanitizePassagesForClient([item.exercise as ReadingPassage])[0]
+          : (item.exercise as Exclude<SessionExercise, ReadingPassage>),
+      answered: item.answered_at !== null,
+      isCorrect: item.is_correct,
+      result: item.result,
+    }));
+
+    const firstUnanswered = sessionItems.findIndex((item) => !item.answered);
+
+    return {
+      sessionId: session.id,
+      practiceMode: session.practice_mode,
+      language: session.language,
+      sourceLanguage: session.source_language,
+      status: session.status as PracticeSessionStatus,
+      items: sessionItems,
+      currentPosition: firstUnanswered === -1 ? sessionItems.length : firstUnanswered,
+      timeLimitSeconds: session.time_limit_seconds,
+      timeRemainingSeconds: session.expires_at
+        ? Math.max(0, Math.round((session.expires_at.getTime() - Date.now()) / 1000))
+        : null,
+      startedAt: session.started_at.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,3 @@
+export * from './speech-recognition.interface';
+export { WhisperServerRecognizer, SpeechRecognitionError } from './whisper-server.recognizer';
+export { createSpeechRecognizer, SPEECH_RECOGNIZER_ENGINES } from './recognizer-factory';
@@ -0,0 +1,28 @@
+import {
+  SpeechRecognizer,
+  SpeechRecognizerConfig,
+  SpeechRecognizerEngine,
+} from './speech-recognition.interface';
+import { WhisperServerRecognizer } from './whisper-server.recognizer';
+
+export const SPEECH_RECOGNIZER_ENGINES: readonly SpeechRecognizerEngine[] = [
+  'whisper-server',
+  'none',
+];
+
+/**
+ * Create the speech recognizer for the configured engine
+ *
+ * Returns null when speech recognition is disabled.
+ */
+export function createSpeechRecognizer(config: SpeechRecognizerConfig): SpeechRecognizer | null {
+  switch (config.engine) {
+    case 'whisper-server':
+      if (!config.url) {
+        throw new Error('SPEECH_RECOGNIZER_URL is required for the whisper-server engine');
+      }
+      return new WhisperServerRecognizer(config.url, config.timeoutMs);
+    case 'none':
+      return null;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Speech-to-text engines that can back the speaking practice mode
+ * - whisper-server: a locally hosted whisper.cpp server
+ * - none: speech recognition is disabled
+ */
+export type SpeechRecognizerEngine = 'whisper-server' | 'none';
+
+/**
+ * Speech recognition settings
+ */
+export interface SpeechRecognizerConfig {
+  engine: SpeechRecognizerEngine;
+  url?: string; // Base URL of the engine's HTTP server
+  timeoutMs?: number;
+}
+
+/**
+ * Recorded audio to transcribe
+ */
+export interface TranscriptionRequest {
+  audio: Buffer;
+  mimeType: string;
+  language: string; // ISO 639-1 code of the spoken language, e.g. "DE"
+}
+
+/**
+ * Transcript of a recording
+ */
+export interface Transcription {
+  text: string;
+  confidence: number | null; // In [0, 1], when the engine reports one
+}
+
+/**
+ * Adapter around a speech-to-text engine
+ *
+ * Audio never leaves the deployment: adapters talk to engines that run
+ * next to the API.
+ */
+export interface SpeechRecognizer {
+  readonly engine: SpeechRecognizerEngine;
+  transcribe(request: TranscriptionRequest): Promise<Transcription>;
+}
@@ -0,0 +1,94 @@
+import {
+  SpeechRecognizer,
+  SpeechRecognizerEngine,
+  Transcription,
+  TranscriptionRequest,
+} from './speech-recognition.interface';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Response of the whisper.cpp server's /inference endpoint
+ */
+interface WhisperInferenceResponse {
+  text?: string;
+  error?: string;
+}
+
+/**
+ * Error thrown when the speech-to-text engine cannot transcribe a recording
+ */
+export class SpeechRecognitionError extends Error {
+  statusCode: number;
+  constructor(message: string, statusCode: number = 502) {
+    super(message);
+    this.name = 'SpeechRecognitionError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * WhisperServerRecognizer transcribes recordings with a whisper.cpp server
+ * (examples/server in the whisper.cpp repository)
+ *
+ * The server must be started with --convert so it accepts the browser's
+ * WebM/Opus recordings.
+ */
+export class WhisperServerRecognizer implements SpeechRecognizer {
+  readonly engine: SpeechRecognizerEngine = 'whisper-server';
+
+  constructor(
+    private readonly url: string,
+    private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  async transcribe(request: TranscriptionRequest): Promise<Transcription> {
+    const form = new FormData();
+    form.append(
+      'file',
+      new Blob([new Uint8Array(request.audio)], { type: request.mimeType }),
+      'recording'
+    );
+    form.append('language', request.language.toLowerCase());
+    form.append('response_format', 'json');
+    form.append('temperature', '0');
+
+    let response: Response;
+    try {
+      response = await fetch(new URL('/inference', this.url), {
+        method: 'POST',
+        body: form,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new SpeechRecognitionError(`Speech recognition engine unreachable: ${message}`);
+    }
+
+    if (!response.ok) {
+      throw new SpeechRecognitionError(
+        `Speech recognition engine responded with ${response.status}`
+      );
+    }
+
+    // The body can still time out or turn out not to be JSON
+    let body: WhisperInferenceResponse | null;
+    try {
+      body = (await response.json()) as WhisperInferenceResponse | null;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new SpeechRecognitionError(
+        `Speech recognition engine sent an invalid response: ${message}`
+      );
+    }
+
+    if (!body || body.error || typeof body.text !== 'string') {
+      throw new SpeechRecognitionError(
+        `Speech recognition failed: ${body?.error ?? 'no transcript returned'}`
+      );
+    }
+
+    // whisper.cpp reports no overall confidence in its JSON response
+    return { text: body.text.trim(), confidence: null };
+  }
+}
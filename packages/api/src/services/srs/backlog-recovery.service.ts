@@ -0,0 +1,336 @@
+import { Pool } from 'pg';
+import { withTransaction } from '../../utils/db.utils';
+import { FSRSCalculator } from './fsrs-calculator';
+
+/**
+ * Recovery plan spreading an overdue backlog over several days
+ */
+export interface SRSRecoveryPlan {
+  createdAt: string;
+  startDate: string; // YYYY-MM-DD, day 0 of the plan
+  days: number;
+  totalItems: number;
+  dailyCounts: number[]; // Items scheduled for each day of the plan
+  language: string | null;
+}
+
+/**
+ * Recovery plan with progress for the current day
+ */
+export interface SRSRecoveryPlanProgress extends SRSRecoveryPlan {
+  currentDay: number; // 0-based index into dailyCounts
+  todayTarget: number;
+}
+
+/**
+ * Pause state and backlog summary for a user
+ */
+export interface SRSBacklogStatus {
+  paused: boolean;
+  pausedAt: string | null;
+  overdueCount: number;
+  recoveryPlan: SRSRecoveryPlanProgress | null;
+}
+
+/**
+ * Outcome of ending a pause
+ */
+export interface SRSResumeResult {
+  pausedDays: number;
+  shiftedItems: number;
+}
+
+interface BacklogSettingsRow {
+  paused_at: string | null;
+  recovery_plan: SRSRecoveryPlan | null;
+}
+
+interface OverdueItemRow {
+  id: string;
+  interval: number;
+  stability: string | null;
+  last_reviewed_at: Date | null;
+}
+
+/**
+ * Vacation mode and overdue backlog recovery
+ *
+ * Pausing records the time in user_preferences.settings.srsPausedAt. When
+ * the pause ends every due date is pushed back by the length of the pause,
+ * so an absence neither creates new overdue items nor makes existing ones
+ * more overdue.
+ *
+ * A recovery plan spreads the current backlog over a number of days. Items
+ * are ordered by predicted recall, lowest first, and their due dates are
+ * rewritten so each day of the plan only brings its share into the queue.
+ * The plan summary is kept in settings.srsRecoveryPlan for display.
+ */
+export class BacklogRecoveryService {
+  /**
+   * Longest recovery plan a user can request
+   */
+  public static readonly MAX_PLAN_DAYS = 30;
+
+  private static readonly MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+  private readonly calculator: FSRSCalculator;
+
+  constructor(private readonly pool: Pool) {
+    this.calculator = new FSRSCalculator();
+  }
+
+  /**
+   * Get pause state, overdue count and the active recovery plan
+   */
+  async getStatus(userId: string): Promise<SRSBacklogStatus> {
+    const settings = await this.getSettings(userId);
+
+    const overdueResult = await this.pool.query<{ count: string }>(
+      `SELECT COUNT(*) as count
+       FROM user_srs_items
+       WHERE user_id = $1 AND next_review_at <= CURRENT_TIMESTAMP AND suspended_at IS NULL`,
+      [userId]
+    );
+
+    return {
+      paused: settings.paused_at !== null,
+      pausedAt: settings.paused_at,
+      overdueCount: parseInt(overdueResult.rows[0]?.count ?? '0', 10),
+      recoveryPlan: this.toProgress(settings.recovery_plan),
+    };
+  }
+
+  /**
+   * Pause reviews; due dates stop advancing until the pause ends
+   *
+   * @returns Time the pause started (unchanged when already paused)
+   */
+  async pause(userId: string): Promise<string> {
+    const result = await this.pool.query<{ paused_at: string }>(
+      `INSERT INTO user_preferences (user_id, studied_languages, focus_mode_enabled, onboarding_completed, settings, updated_at)
+       VALUES ($1, '[]'::jsonb, false, false,
+               jsonb_build_object('srsPausedAt', to_jsonb(CURRENT_TIMESTAMP)), CURRENT_TIMESTAMP)
+       ON CONFLICT (user_id) DO UPDATE SET
+         settings = COALESCE(user_preferences.settings, '{}'::jsonb)
+           || jsonb_build_object(
+                'srsPausedAt',
+                COALESCE(user_preferences.settings->'srsPausedAt', to_jsonb(CURRENT_TIMESTAMP))
+              ),
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING settings->>'srsPausedAt' as paused_at`,
+      [userId]
+    );
+
+    return result.rows[0].paused_at;
+  }
+
+  /**
+   * End a pause, pushing due dates back by the time spent paused
+   *
+   * Only items left untouched since the pause started are shifted; items
+   * reviewed or added during the pause already have a fresh due date.
+   *
+   * @returns Pause length and number of shifted items, or null if not paused
+   */
+  async resume(userId: string): Promise<SRSResumeResult | null> {
+    // Clearing the flag and shifting due dates in one statement keeps
+    // concurrent resumes from shifting twice
+    const result = await this.pool.query<{ paused_at: Date; shifted_items: string }>(
+      `WITH paused AS (
+         SELECT user_id, (settings->>'srsPausedAt')::timestamptz as paused_at
+         FROM user_preferences
+         WHERE user_id = $1 AND settings ? 'srsPausedAt'
+         FOR UPDATE
+       ),
+       ended AS (
+         UPDATE user_preferences up
+         SET settings = up.settings - 'srsPausedAt', updated_at = CURRENT_TIMESTAMP
+         FROM paused
+         WHERE up.user_id = paused.user_id
+         RETURNING paused.paused_at
+       ),
+       shifted AS (
+         UPDATE user_srs_items usi
+         SET next_review_at = usi.next_review_at + (CURRENT_TIMESTAMP - ended.paused_at)
+         FROM ended
+         WHERE usi.user_id = $1
+           AND usi.created_at < ended.paused_at
+           AND (usi.last_reviewed_at IS NULL OR usi.last_reviewed_at < ended.paused_at)
+         RETURNING usi.id
+       )
+       SELECT ended.paused_at, (SELECT COUNT(*) FROM shifted) as shifted_items
+       FROM ended`,
+      [userId]
+    );
+
+    const row = result.rows[0];
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      pausedDays: Math.floor(
+        (Date.now() - row.paused_at.getTime()) / BacklogRecoveryService.MS_PER_DAY
+      ),
+      shiftedItems: parseInt(row.shifted_items, 10),
+    };
+  }
+
+  /**
+   * Spread the overdue backlog over the next few days
+   *
+   * Ends an active pause first so the plan starts from the frozen due dates.
+   * Reviewed items come first, ordered by predicted recall (lowest first);
+   * overdue items that were never reviewed go last. Day 0 items stay due now.
+   *
+   * @param userId User ID
+   * @param days Number of days to spread the backlog over
+   * @param language Only plan items of this language (optional)
+   * @returns The stored plan
+   */
+  async createPlan(userId: string, days: number, language?: string): Promise<SRSRecoveryPlan> {
+    if (!Number.isInteger(days) || days < 1 || days > BacklogRecoveryService.MAX_PLAN_DAYS) {
+      throw new Error(
+        `Recovery plan length must be between 1 and ${BacklogRecoveryService.MAX_PLAN_DAYS} days`
+      );
+    }
+
+    await this.resume(userId);
+
+    const client = await this.pool.connect();
+
+    try {
+      return await withTransaction(client, async (txClient) => {
+        const params: string[] = [userId];
+        let languageFilter = '';
+
+        if (language) {
+          languageFilter = 'AND language = $2';
+          params.push(language);
+        }
+
+        const overdueResult = await txClient.query<OverdueItemRow>(
+          `SELECT id, interval, stability, last_reviewed_at
+             FROM user_srs_items
+             WHERE user_id = $1 ${languageFilter} AND next_review_at <= CURRENT_TIMESTAMP
+               AND suspended_at IS NULL
+             FOR UPDATE`,
+          params
+        );
+
+        const ordered = this.orderByForgetting(overdueResult.rows);
+        const perDay = Math.max(1, Math.ceil(ordered.length / days));
+        const dailyCounts = new Array<number>(days).fill(0);
+        const movedIds: string[] = [];
+        const movedOffsets: number[] = [];
+
+        ordered.forEach((id, index) => {
+          const day = Math.floor(index / perDay);
+          dailyCounts[day]++;
+
+          if (day > 0) {
+            movedIds.push(id);
+            movedOffsets.push(day);
+          }
+        });
+
+        if (movedIds.length > 0) {
+          await txClient.query(
+            `UPDATE user_srs_items AS usi
+               SET next_review_at = date_trunc('day', CURRENT_TIMESTAMP) + make_interval(days => plan.day_offset)
+               FROM unnest($2::uuid[], $3::int[]) AS plan(id, day_offset)
+               WHERE usi.id = plan.id AND usi.user_id = $1`,
+            [userId, movedIds, movedOffsets]
+          );
+        }
+
+        const plan: SRSRecoveryPlan = {
+          createdAt: new Date().toISOString(),
+          startDate: new Date().toISOString().slice(0, 10),
+          days,
+          totalItems: ordered.length,
+          dailyCounts,
+          language: language ?? null,
+        };
+
+        await txClient.query(
+          `INSERT INTO user_preferences (user_id, studied_languages, focus_mode_enabled, onboarding_completed, settings, updated_at)
+             VALUES ($1, '[]'::jsonb, false, false, jsonb_build_object('srsRecoveryPlan', $2::jsonb), CURRENT_TIMESTAMP)
+             ON CONFLICT (user_id) DO UPDATE SET
+               settings = COALESCE(user_preferences.settings, '{}'::jsonb) || jsonb_build_object('srsRecoveryPlan', $2::jsonb),
+               updated_at = CURRENT_TIMESTAMP`,
+          [userId, JSON.stringify(plan)]
+        );
+
+        return plan;
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Item ids ordered by predicted recall probability, least likely recalled first
+   *
+   * SM-2 items have no stability; their interval stands in for it, since
+   * both describe the time until recall drops to about 90%.
+   */
+  private orderByForgetting(rows: OverdueItemRow[]): string[] {
+    const now = Date.now();
+
+    return rows
+      .map((row) => {
+        if (!row.last_reviewed_at) {
+          return { id: row.id, recall: Number.POSITIVE_INFINITY };
+        }
+
+        const elapsedDays = Math.max(
+          0,
+          (now - row.last_reviewed_at.getTime()) / BacklogRecoveryService.MS_PER_DAY
+        );
+        const stability = Math.max(
+          row.stability !== null ? parseFloat(row.stability) : row.interval,
+          0.1
+        );
+
+        return { id: row.id, recall: this.calculator.retrievability(elapsedDays, stability) };
+      })
+      .sort((a, b) => a.recall - b.recall)
+      .map((item) => item.id);
+  }
+
+  private async getSettings(userId: string): Promise<BacklogSettingsRow> {
+    const result = await this.pool.query<BacklogSettingsRow>(
+      `SELECT settings->>'srsPausedAt' as paused_at, settings->'srsRecoveryPlan' as recovery_plan
+       FROM user_preferences
+       WHERE user_id = $1`,
+      [userId]
+    );
+
+    return result.rows[0] ?? { paused_at: null, recovery_plan: null };
+  }
+
+  /**
+   * Attach today's position to a stored plan; finished plans are dropped
+   */
+  private toProgress(plan: SRSRecoveryPlan | null): SRSRecoveryPlanProgress | null {
+    if (!plan) {
+      return null;
+    }
+
+    const today = new Date(new Date().toISOString().slice(0, 10)).getTime();
+    const start = new Date(plan.startDate).getTime();
+    const currentDay = Math.floor((today - start) / BacklogRecoveryService.MS_PER_DAY);
+
+    if (currentDay < 0 || currentDay >= plan.days) {
+      return null;
+    }
+
+    return {
+      ...plan,
+      currentDay,
+      todayTarget: plan.dailyCounts[currentDay] ?? 0,
+    };
+  }
+}
@@ -0,0 +1,308 @@
+import {
+  PerformanceRating,
+  SRSInitialSchedule,
+  SRSScheduleItem,
+  SRSScheduler,
+  SRSUpdateResult,
+} from './srs.interface';
+
+/**
+ * FSRS memory state of a single item
+ */
+export interface FSRSMemoryState {
+  stability: number;
+  difficulty: number;
+}
+
+/**
+ * A past review used to reconstruct FSRS memory state
+ */
+export interface FSRSReviewEvent {
+  rating: PerformanceRating;
+  reviewedAt: Date;
+}
+
+/**
+ * FSRS (Free Spaced Repetition Scheduler) v4.5 Implementation
+ *
+ * Based on: https://github.com/open-spaced-repetition/fsrs4anki/wiki/The-Algorithm
+ *
+ * Key concepts:
+ * - Stability (S): Days until retrievability drops to 90%
+ * - Difficulty (D): Inherent item difficulty, range [1, 10]
+ * - Retrievability (R): Probability of recall after t days, R = (1 + FACTOR * t / S) ^ DECAY
+ * - Grade (G): 1 = again, 2 = hard, 3 = good, 4 = easy
+ *
+ * Interval rule:
+ * - I = S / FACTOR * (requestRetention ^ (1 / DECAY) - 1)
+ */
+export class FSRSCalculator implements SRSScheduler {
+  public readonly type = 'fsrs' as const;
+
+  /**
+   * Default model weights published with FSRS v4.5
+   */
+  public static readonly DEFAULT_WEIGHTS: readonly number[] = [
+    0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072,
+    0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+  ];
+
+  /**
+   * Target probability of recall at the moment an item becomes due
+   */
+  public static readonly DEFAULT_REQUEST_RETENTION = 0.9;
+
+  /**
+   * Longest interval the scheduler will produce (days)
+   */
+  public static readonly MAX_INTERVAL = 36500;
+
+  public static readonly MIN_DIFFICULTY = 1;
+
+  public static readonly MAX_DIFFICULTY = 10;
+
+  public static readonly DECAY = -0.5;
+
+  public static readonly FACTOR = 19 / 81;
+
+  private static readonly MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+  /**
+   * Performance rating to FSRS grade mapping
+   */
+  private static readonly GRADES: Record<PerformanceRating, number> = {
+    again: 1,
+    hard: 2,
+    good: 3,
+    easy: 4,
+  };
+
+  constructor(
+    private readonly weights: readonly number[] = FSRSCalculator.DEFAULT_WEIGHTS,
+    private readonly requestRetention: number = FSRSCalculator.DEFAULT_REQUEST_RETENTION
+  ) {}
+
+  /**
+   * Convert performance rating to FSRS grade (1-4)
+   */
+  public ratingToGrade(rating: PerformanceRating): number {
+    return FSRSCalculator.GRADES[rating];
+  }
+
+  /**
+   * Calculate next review schedule using FSRS
+   *
+   * Items without stored FSRS state but with SM-2 history are converted
+   * on the fly, so switching schedulers never resets progress.
+   *
+   * @param schedule Current schedule item
+   * @param rating Performance rating
+   * @param now Review time (defaults to current time)
+   * @returns Updated schedule parameters including new memory state
+   */
+  public calculateNext(
+    schedule: SRSScheduleItem,
+    rating: PerformanceRating,
+    now: Date = new Date()
+  ): SRSUpdateResult {
+    const grade = this.ratingToGrade(rating);
+    const current = this.getMemoryState(schedule);
+
+    const next = current
+      ? this.nextState(current, this.elapsedDays(schedule, now), grade)
+      : this.initialState(grade);
+
+    const newInterval = this.nextInterval(next.stability);
+    const nextDueDate = new Date(now);
+    nextDueDate.setDate(nextDueDate.getDate() + newInterval);
+
+    return {
+      nextDueDate,
+      newInterval,
+      newRepetitions: this.isPassing(rating) ? schedule.repetitions + 1 : 0,
+      newEaseFactor: schedule.easeFactor,
+      newStability: next.stability,
+      newDifficulty: next.difficulty,
+    };
+  }
+
+  /**
+   * Create initial schedule parameters for a new item
+   *
+   * Ease factor is kept at the SM-2 default so the item stays valid
+   * if the user switches back to SM-2.
+   */
+  public getInitialSchedule(): SRSInitialSchedule {
+    return {
+      nextDueDate: new Date(),
+      newInterval: 0,
+      newRepetitions: 0,
+      newEaseFactor: 2.5,
+    };
+  }
+
+  /**
+   * Determine if a rating represents a passing score (anything but "again")
+   */
+  public isPassing(rating: PerformanceRating): boolean {
+    return this.ratingToGrade(rating) > 1;
+  }
+
+  /**
+   * Probability of recalling an item after elapsedDays with the given stability
+   */
+  public retrievability(elapsedDays: number, stability: number): number {
+    return Math.pow(1 + (FSRSCalculator.FACTOR * elapsedDays) / stability, FSRSCalculator.DECAY);
+  }
+
+  /**
+   * Interval (days) after which retrievability reaches the requested retention
+   */
+  public nextInterval(stability: number): number {
+    const interval =
+      (stability / FSRSCalculator.FACTOR) *
+      (Math.pow(this.requestRetention, 1 / FSRSCalculator.DECAY) - 1);
+
+    return Math.min(FSRSCalculator.MAX_INTERVAL, Math.max(1, Math.round(interval)));
+  }
+
+  /**
+   * Memory state after the very first review of an item
+   */
+  public initialState(grade: number): FSRSMemoryState {
+    return {
+      stability: Math.max(this.weights[grade - 1], 0.1),
+      difficulty: this.initialDifficulty(grade),
+    };
+  }
+
+  /**
+   * Memory state after reviewing an item elapsedDays after the previous review
+   */
+  public nextState(state: FSRSMemoryState, elapsedDays: number, grade: number): FSRSMemoryState {
+    const r = this.retrievability(elapsedDays, state.stability);
+    const stability =
+      grade === 1
+        ? this.forgetStability(state.difficulty, state.stability, r)
+        : this.recallStability(state.difficulty, state.stability, r, grade);
+
+    return {
+      stability,
+      difficulty: this.nextDifficulty(state.difficulty, grade),
+    };
+  }
+
+  /**
+   * Reconstruct memory state by replaying a chronological review history
+   *
+   * @param events Past reviews (any order)
+   * @returns Memory state after the last review, or null if there is no history
+   */
+  public estimateMemoryState(events: FSRSReviewEvent[]): FSRSMemoryState | null {
+    if (events.length === 0) {
+      return null;
+    }
+
+    const sorted = [...events].sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime());
+
+    let state = this.initialState(this.ratingToGrade(sorted[0].rating));
+
+    for (let i = 1; i < sorted.length; i++) {
+      const elapsed =
+        (sorted[i].reviewedAt.getTime() - sorted[i - 1].reviewedAt.getTime()) /
+        FSRSCalculator.MS_PER_DAY;
+      state = this.nextState(state, Math.max(0, elapsed), this.ratingToGrade(sorted[i].rating));
+    }
+
+    return state;
+  }
+
+  /**
+   * Approximate memory state from SM-2 scheduling values
+   *
+   * The current SM-2 interval is treated as stability (the point where recall
+   * is ~90%), and the ease factor range [1.3, 3.0] is mapped onto difficulty [10, 1].
+   */
+  public estimateFromSM2(interval: number, easeFactor: number): FSRSMemoryState {
+    const easeRatio = (easeFactor - 1.3) / (3.0 - 1.3);
+    const difficulty =
+      FSRSCalculator.MAX_DIFFICULTY -
+      easeRatio * (FSRSCalculator.MAX_DIFFICULTY - FSRSCalculator.MIN_DIFFICULTY);
+
+    return {
+      stability: Math.max(interval, this.weights[0]),
+      difficulty: this.clampDifficulty(difficulty),
+    };
+  }
+
+  private getMemoryState(schedule: SRSScheduleItem): FSRSMemoryState | null {
+    if (schedule.stability && schedule.difficulty) {
+      return { stability: schedule.stability, difficulty: schedule.difficulty };
+    }
+
+    if (schedule.repetitions === 0 && !schedule.lastReviewedAt) {
+      return null;
+    }
+
+    return this.estimateFromSM2(schedule.interval, schedule.easeFactor);
+  }
+
+  private elapsedDays(schedule: SRSScheduleItem, now: Date): number {
+    if (!schedule.lastReviewedAt) {
+      return schedule.interval;
+    }
+
+    const elapsed = (now.getTime() - schedule.lastReviewedAt.getTime()) / FSRSCalculator.MS_PER_DAY;
+    return Math.max(0, elapsed);
+  }
+
+  private initialDifficulty(grade: number): number {
+    return this.clampDifficulty(this.weights[4] - (grade - 3) * this.weights[5]);
+  }
+
+  private nextDifficulty(difficulty: number, grade: number): number {
+    const updated = difficulty - this.weights[6] * (grade - 3);
+    const meanReverted =
+      this.weights[7] * this.initialDifficulty(3) + (1 - this.weights[7]) * updated;
+
+    return this.clampDifficulty(meanReverted);
+  }
+
+  private recallStability(
+    difficulty: number,
+    stability: number,
+    retrievability: number,
+    grade: number
+  ): number {
+    const hardPenalty = grade === 2 ? this.weights[15] : 1;
+    const easyBonus = grade === 4 ? this.weights[16] : 1;
+
+    return (
+      stability *
+      (1 +
+        Math.exp(this.weights[8]) *
+          (11 - difficulty) *
+          Math.pow(stability, -this.weights[9]) *
+          (Math.exp(this.weights[10] * (1 - retrievability)) - 1) *
+          hardPenalty *
+          easyBonus)
+    );
+  }
+
+  private forgetStability(difficulty: number, stability: number, retrievability: number): number {
+    const forgotten =
+      this.weights[11] *
+      Math.pow(difficulty, -this.weights[12]) *
+      (Math.pow(stability + 1, this.weights[13]) - 1) *
+      Math.exp(this.weights[14] * (1 - retrievability));
+
+    return Math.min(forgotten, stability);
+  }
+
+  private clampDifficulty(difficulty: number): number {
+    return Math.min(
+      FSRSCalculator.MAX_DIFFICULTY,
+      Math.max(FSRSCalculator.MIN_DIFFICULTY, difficulty)
+    );
+  }
+}
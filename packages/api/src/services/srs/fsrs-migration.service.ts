@@ -0,0 +1,129 @@
+import { Pool } from 'pg';
+import { FSRSCalculator, FSRSMemoryState } from './fsrs-calculator';
+import { PerformanceRating } from './srs.interface';
+
+/**
+ * Outcome of an FSRS memory state migration run
+ */
+export interface FSRSMigrationResult {
+  processed: number;
+  fromHistory: number;
+  fromSchedule: number;
+}
+
+/**
+ * Schedule row that has been reviewed but has no FSRS state yet
+ */
+interface PendingItemRow {
+  id: string;
+  user_id: string;
+  item_type: string;
+  item_id: string;
+  interval: number;
+  ease_factor: string;
+}
+
+interface HistoryRow {
+  rating: PerformanceRating;
+  reviewed_at: Date;
+}
+
+/**
+ * One-time migration estimating FSRS memory state for existing SRS items
+ *
+ * Each reviewed user_srs_items row without stability/difficulty gets a state
+ * reconstructed by replaying its srs_review_history, matched on item type
+ * and id so grammar, orthography and reading items use their own reviews
+ * like vocabulary. Rows without recorded history (reading passages reviewed
+ * before they joined the shared schedule never wrote any) fall back to an
+ * estimate from their SM-2 interval and ease factor, which every review
+ * kept up to date. Items that were never reviewed are left untouched and
+ * start fresh in FSRS.
+ */
+export class FSRSMigrationService {
+  private readonly calculator: FSRSCalculator;
+
+  constructor(private readonly pool: Pool) {
+    this.calculator = new FSRSCalculator();
+  }
+
+  /**
+   * Migrate all pending items in batches until none remain
+   *
+   * @param batchSize Number of items to process per batch
+   * @returns Aggregated migration counts
+   */
+  async migrateAll(batchSize: number = 500): Promise<FSRSMigrationResult> {
+    const total: FSRSMigrationResult = { processed: 0, fromHistory: 0, fromSchedule: 0 };
+
+    let batch: FSRSMigrationResult;
+    do {
+      batch = await this.migrateBatch(batchSize);
+      total.processed += batch.processed;
+      total.fromHistory += batch.fromHistory;
+      total.fromSchedule += batch.fromSchedule;
+    } while (batch.processed === batchSize);
+
+    return total;
+  }
+
+  /**
+   * Migrate a single batch of pending items
+   *
+   * @param batchSize Maximum number of items to process
+   * @returns Counts for this batch
+   */
+  async migrateBatch(batchSize: number): Promise<FSRSMigrationResult> {
+    const pending = await this.pool.query<PendingItemRow>(
+      `SELECT id, user_id, item_type, item_id, interval, ease_factor
+       FROM user_srs_items
+       WHERE stability IS NULL
+         AND (repetitions > 0 OR last_reviewed_at IS NOT NULL)
+       ORDER BY id
+       LIMIT $1`,
+      [batchSize]
+    );
+
+    const result: FSRSMigrationResult = { processed: 0, fromHistory: 0, fromSchedule: 0 };
+
+    for (const row of pending.rows) {
+      const fromHistory = await this.estimateFromHistory(row.user_id, row.item_type, row.item_id);
+      const state =
+        fromHistory ?? this.calculator.estimateFromSM2(row.interval, parseFloat(row.ease_factor));
+
+      await this.pool.query(
+        `UPDATE user_srs_items
+         SET stability = $1, difficulty = $2
+         WHERE id = $3`,
+        [state.stability, state.difficulty, row.id]
+      );
+
+      result.processed++;
+      if (fromHistory) {
+        result.fromHistory++;
+      } else {
+        result.fromSchedule++;
+      }
+    }
+
+    return result;
+  }
+
+  private async estimateFromHistory(
+    userId: string,
+    itemType: string,
+    itemId: string
+  ): Promise<FSRSMemoryState | null> {
+    const history = await this.pool.query<HistoryRow>(
+      `SELECT rating, reviewed_at
+       FROM srs_review_history
+       WHERE user_id = $1 AND item_type = $2 AND item_id = $3
+       ORDER BY reviewed_at ASC`,
+      [userId, itemType, itemId]
+    );
+
+    return this.calculator.estimateMemoryState(
+      history.rows.map((row) => ({ rating: row.rating, reviewedAt: row.reviewed_at }))
+    );
+  }
+}
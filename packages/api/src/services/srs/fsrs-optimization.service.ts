@@ -0,0 +1,154 @@
+import { Pool } from 'pg';
+import { FSRSCalculator, FSRSReviewEvent } from './fsrs-calculator';
+import { FSRSFitResult, FSRSOptimizer, FSRSOptimizerOptions } from './fsrs-optimizer';
+import { PerformanceRating } from './srs.interface';
+
+interface HistoryRow {
+  item_id: string;
+  rating: PerformanceRating;
+  reviewed_at: Date;
+}
+
+/**
+ * Fits and stores personalized FSRS weights per learner
+ *
+ * Review history comes from srs_review_history; fitted weights are kept in
+ * user_fsrs_parameters and picked up by SRSService for FSRS scheduling.
+ */
+export class FSRSOptimizationService {
+  private readonly optimizer: FSRSOptimizer;
+
+  private readonly minReviews: number;
+
+  constructor(
+    private readonly pool: Pool,
+    options: Partial<FSRSOptimizerOptions> = {}
+  ) {
+    this.optimizer = new FSRSOptimizer(options);
+    this.minReviews = options.minReviews ?? FSRSOptimizer.DEFAULT_OPTIONS.minReviews;
+  }
+
+  /**
+   * Load vocabulary review history grouped per item
+   *
+   * @param userId User ID
+   * @param language Optional language filter
+   * @returns Review events for each item, in chronological order
+   */
+  async loadReviewHistories(userId: string, language?: string): Promise<FSRSReviewEvent[][]> {
+    const params: string[] = [userId];
+    let languageFilter = '';
+
+    if (language) {
+      languageFilter = 'AND language = $2';
+      params.push(language);
+    }
+
+    const result = await this.pool.query<HistoryRow>(
+      `SELECT item_id, rating, reviewed_at
+       FROM srs_review_history
+       WHERE user_id = $1 AND item_type = 'vocabulary' ${languageFilter}
+       ORDER BY item_id, reviewed_at ASC`,
+      params
+    );
+
+    const byItem = new Map<string, FSRSReviewEvent[]>();
+    for (const row of result.rows) {
+      const events = byItem.get(row.item_id) ?? [];
+      events.push({ rating: row.rating, reviewedAt: new Date(row.reviewed_at) });
+      byItem.set(row.item_id, events);
+    }
+
+    return [...byItem.values()];
+  }
+
+  /**
+   * Fit and store FSRS weights for one user
+   *
+   * @param userId User ID
+   * @returns Fit result, or null if the user does not have enough reviews yet
+   */
+  async optimizeUser(userId: string): Promise<FSRSFitResult | null> {
+    const histories = await this.loadReviewHistories(userId);
+
+    if (!this.optimizer.hasEnoughReviews(histories)) {
+      return null;
+    }
+
+    const result = this.optimizer.fit(histories, FSRSCalculator.DEFAULT_WEIGHTS);
+
+    await this.pool.query(
+      `INSERT INTO user_fsrs_parameters
+         (user_id, weights, review_count, log_loss, default_log_loss, optimized_at)
+       VALUES ($1, $2::jsonb, $3, $4, $5, CURRENT_TIMESTAMP)
+       ON CONFLICT (user_id) DO UPDATE SET
+         weights = EXCLUDED.weights,
+         review_count = EXCLUDED.review_count,
+         log_loss = EXCLUDED.log_loss,
+         default_log_loss = EXCLUDED.default_log_loss,
+         optimized_at = CURRENT_TIMESTAMP`,
+      [
+        userId,
+        JSON.stringify(result.weights),
+        result.reviewCount,
+        result.logLoss,
+        result.initialLogLoss,
+      ]
+    );
+
+    return result;
+  }
+
+  /**
+   * Find users with new reviews since their last optimization
+   *
+   * Reviews are counted the way the optimizer scores them: first reviews and
+   * reviews less than a day after the previous one of the same item do not
+   * count, so users who could not be optimized are not picked up again.
+   *
+   * @param limit Maximum number of users to return
+   * @returns User IDs, never optimized first, then longest since optimization
+   */
+  async getUsersPendingOptimization(limit: number = 100): Promise<string[]> {
+    const result = await this.pool.query<{ user_id: string }>(
+      `WITH reviews AS (
+         SELECT user_id, reviewed_at,
+                reviewed_at - LAG(reviewed_at) OVER (
+                  PARTITION BY user_id, item_id ORDER BY reviewed_at
+                ) as elapsed
+         FROM srs_review_history
+         WHERE item_type = 'vocabulary'
+       )
+       SELECT reviews.user_id
+       FROM reviews
+       LEFT JOIN user_fsrs_parameters ufp ON ufp.user_id = reviews.user_id
+       GROUP BY reviews.user_id, ufp.optimized_at
+       HAVING COUNT(*) FILTER (WHERE reviews.elapsed >= make_interval(days => $1)) >= $2
+         AND (ufp.optimized_at IS NULL OR MAX(reviews.reviewed_at) > ufp.optimized_at)
+       ORDER BY ufp.optimized_at ASC NULLS FIRST, reviews.user_id
+       LIMIT $3`,
+      [FSRSOptimizer.MIN_SCORED_ELAPSED_DAYS, this.minReviews, limit]
+    );
+
+    return result.rows.map((row) => row.user_id);
+  }
+
+  /**
+   * Optimize every user with new reviews
+   *
+   * @returns Number of users whose weights were updated
+   */
+  async optimizePendingUsers(limit: number = 100): Promise<number> {
+    const userIds = await this.getUsersPendingOptimization(limit);
+    let optimized = 0;
+
+    for (const userId of userIds) {
+      const result = await this.optimizeUser(userId);
+      if (result) {
+        optimized++;
+      }
+    }
+
+    return optimized;
+  }
+}
@@ -0,0 +1,271 @@
+import { FSRSCalculator, FSRSReviewEvent } from './fsrs-calculator';
+
+/**
+ * Tuning options for the FSRS parameter optimizer
+ */
+export interface FSRSOptimizerOptions {
+  epochs: number;
+  learningRate: number;
+  regularization: number;
+  minReviews: number;
+}
+
+/**
+ * Accuracy of a set of FSRS weights on a review history
+ */
+export interface FSRSEvaluation {
+  reviewCount: number;
+  predictedRetention: number | null;
+  actualRetention: number | null;
+  logLoss: number | null;
+}
+
+/**
+ * Result of fitting FSRS weights to a learner's review history
+ */
+export interface FSRSFitResult {
+  weights: number[];
+  reviewCount: number;
+  logLoss: number;
+  initialLogLoss: number;
+}
+
+/**
+ * FSRS Parameter Optimizer
+ *
+ * Fits the 17 FSRS weights to one learner's review history by minimizing the
+ * log loss between predicted retrievability and the observed recall outcome
+ * (any rating except "again" counts as recalled).
+ *
+ * Optimization is full-batch Adam with central finite-difference gradients.
+ * There is no sampling or random initialization, so the same history always
+ * produces the same weights.
+ *
+ * Reviews less than a day after the previous one are replayed to keep memory
+ * state accurate but are not scored, matching the reference FSRS optimizer.
+ */
+export class FSRSOptimizer {
+  public static readonly DEFAULT_OPTIONS: FSRSOptimizerOptions = {
+    epochs: 100,
+    learningRate: 0.01,
+    regularization: 0.05,
+    minReviews: 50,
+  };
+
+  /**
+   * Allowed range for each weight, as clamped by the reference implementation
+   */
+  public static readonly WEIGHT_BOUNDS: ReadonlyArray<readonly [number, number]> = [
+    [0.1, 100],
+    [0.1, 100],
+    [0.1, 100],
+    [0.1, 100],
+    [1, 10],
+    [0.1, 5],
+    [0.1, 5],
+    [0, 0.75],
+    [0, 4],
+    [0, 0.8],
+    [0.01, 3],
+    [0.5, 5],
+    [0.01, 0.2],
+    [0.01, 0.9],
+    [0.01, 2],
+    [0, 1],
+    [1, 6],
+  ];
+
+  /**
+   * Minimum gap to the previous review of the same item for a review to be scored
+   */
+  public static readonly MIN_SCORED_ELAPSED_DAYS = 1;
+
+  private static readonly EPSILON = 1e-6;
+
+  private static readonly MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+  private readonly options: FSRSOptimizerOptions;
+
+  constructor(options: Partial<FSRSOptimizerOptions> = {}) {
+    this.options = { ...FSRSOptimizer.DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Count reviews that contribute to the loss (all but first and same-day reviews)
+   */
+  countScoredReviews(histories: FSRSReviewEvent[][]): number {
+    return this.evaluate(histories, FSRSCalculator.DEFAULT_WEIGHTS).reviewCount;
+  }
+
+  /**
+   * Whether a history is large enough to fit personalized weights
+   */
+  hasEnoughReviews(histories: FSRSReviewEvent[][]): boolean {
+    return this.countScoredReviews(histories) >= this.options.minReviews;
+  }
+
+  /**
+   * Compare predicted retrievability with actual recall outcomes
+   *
+   * @param histories Review events grouped per item
+   * @param weights FSRS weights to evaluate
+   * @param since Only score reviews at or after this time (full history is still replayed)
+   */
+  evaluate(
+    histories: FSRSReviewEvent[][],
+    weights: readonly number[],
+    since?: Date
+  ): FSRSEvaluation {
+    const calculator = new FSRSCalculator(weights);
+    let reviewCount = 0;
+    let predictedSum = 0;
+    let recalledCount = 0;
+    let lossSum = 0;
+
+    for (const history of histories) {
+      const sorted = [...history].sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime());
+      if (sorted.length < 2) {
+        continue;
+      }
+
+      let state = calculator.initialState(calculator.ratingToGrade(sorted[0].rating));
+
+      for (let i = 1; i < sorted.length; i++) {
+        const review = sorted[i];
+        const grade = calculator.ratingToGrade(review.rating);
+        const elapsed =
+          (review.reviewedAt.getTime() - sorted[i - 1].reviewedAt.getTime()) /
+          FSRSOptimizer.MS_PER_DAY;
+
+        const isScored =
+          elapsed >= FSRSOptimizer.MIN_SCORED_ELAPSED_DAYS &&
+          (!since || review.reviewedAt.getTime() >= since.getTime());
+
+        if (isScored) {
+          const predicted = this.clampProbability(
+            calculator.retrievability(elapsed, state.stability)
+          );
+          const recalled = grade > 1;
+
+          reviewCount++;
+          predictedSum += predicted;
+          recalledCount += recalled ? 1 : 0;
+          lossSum -= recalled ? Math.log(predicted) : Math.log(1 - predicted);
+        }
+
+        state = calculator.nextState(state, Math.max(0, elapsed), grade);
+      }
+    }
+
+    if (reviewCount === 0) {
+      return { reviewCount, predictedRetention: null, actualRetention: null, logLoss: null };
+    }
+
+    return {
+      reviewCount,
+      predictedRetention: predictedSum / reviewCount,
+      actualRetention: recalledCount / reviewCount,
+      logLoss: lossSum / reviewCount,
+    };
+  }
+
+  /**
+   * Fit FSRS weights to a review history
+   *
+   * @param histories Review events grouped per item
+   * @param initialWeights Starting point and regularization anchor
+   * @returns Fitted weights with loss before and after fitting
+   */
+  fit(
+    histories: FSRSReviewEvent[][],
+    initialWeights: readonly number[] = FSRSCalculator.DEFAULT_WEIGHTS
+  ): FSRSFitResult {
+    const bounds = FSRSOptimizer.WEIGHT_BOUNDS;
+    const weights = initialWeights.map((w, i) => this.clampWeight(w, i));
+    const firstMoment = new Array<number>(weights.length).fill(0);
+    const secondMoment = new Array<number>(weights.length).fill(0);
+    const beta1 = 0.9;
+    const beta2 = 0.999;
+
+    const initial = this.evaluate(histories, weights);
+
+    for (let epoch = 1; epoch <= this.options.epochs; epoch++) {
+      const gradient = this.gradient(histories, weights, initialWeights);
+
+      for (let i = 0; i < weights.length; i++) {
+        firstMoment[i] = beta1 * firstMoment[i] + (1 - beta1) * gradient[i];
+        secondMoment[i] = beta2 * secondMoment[i] + (1 - beta2) * gradient[i] * gradient[i];
+
+        const correctedFirst = firstMoment[i] / (1 - Math.pow(beta1, epoch));
+        const correctedSecond = secondMoment[i] / (1 - Math.pow(beta2, epoch));
+        const range = bounds[i][1] - bounds[i][0];
+        const step =
+          (this.options.learningRate * range * correctedFirst) /
+          (Math.sqrt(correctedSecond) + 1e-8);
+
+        weights[i] = this.clampWeight(weights[i] - step, i);
+      }
+    }
+
+    const fitted = this.evaluate(histories, weights);
+
+    return {
+      weights,
+      reviewCount: fitted.reviewCount,
+      logLoss: fitted.logLoss ?? 0,
+      initialLogLoss: initial.logLoss ?? 0,
+    };
+  }
+
+  private objective(
+    histories: FSRSReviewEvent[][],
+    weights: readonly number[],
+    anchor: readonly number[]
+  ): number {
+    const logLoss = this.evaluate(histories, weights).logLoss ?? 0;
+
+    const penalty = weights.reduce((sum, w, i) => {
+      const range = FSRSOptimizer.WEIGHT_BOUNDS[i][1] - FSRSOptimizer.WEIGHT_BOUNDS[i][0];
+      const normalized = (w - anchor[i]) / range;
+      return sum + normalized * normalized;
+    }, 0);
+
+    return logLoss + this.options.regularization * penalty;
+  }
+
+  private gradient(
+    histories: FSRSReviewEvent[][],
+    weights: number[],
+    anchor: readonly number[]
+  ): number[] {
+    return weights.map((w, i) => {
+      const [min, max] = FSRSOptimizer.WEIGHT_BOUNDS[i];
+      const h = (max - min) * 1e-4;
+      const upper = Math.min(max, w + h);
+      const lower = Math.max(min, w - h);
+
+      if (upper === lower) {
+        return 0;
+      }
+
+      const plus = [...weights];
+      const minus = [...weights];
+      plus[i] = upper;
+      minus[i] = lower;
+
+      return (
+        (this.objective(histories, plus, anchor) - this.objective(histories, minus, anchor)) /
+        (upper - lower)
+      );
+    });
+  }
+
+  private clampWeight(value: number, index: number): number {
+    const [min, max] = FSRSOptimizer.WEIGHT_BOUNDS[index];
+    return Math.min(max, Math.max(min, value));
+  }
+
+  private clampProbability(value: number): number {
+    return Math.min(1 - FSRSOptimizer.EPSILON, Math.max(FSRSOptimizer.EPSILON, value));
+  }
+}
@@ -1,3 +1,27 @@
 export * from './srs.interface';
 export { SM2Calculator } from './sm2-calculator';
+export { FSRSCalculator } from './fsrs-calculator';
+export type { FSRSMemoryState, FSRSReviewEvent } from './fsrs-calculator';
+export {
+  createScheduler,
+  isSchedulerType,
+  DEFAULT_SCHEDULER_TYPE,
+  SCHEDULER_TYPES,
+} from './scheduler-factory';
+export { SRS_ITEM_TYPES, isSRSItemType } from './item-types';
 export { SRSService } from './srs.service';
+export { ReviewLogService, MAX_UNDO_COUNT } from './review-log.service';
+export { BacklogRecoveryService } from './backlog-recovery.service';
+export type {
+  SRSBacklogStatus,
+  SRSRecoveryPlan,
+  SRSRecoveryPlanProgress,
+  SRSResumeResult,
+} from './backlog-recovery.service';
+export { LeechService } from './leech.service';
+export type { LeechAction, LeechRemediation, LeechSettings, SRSLeech } from './leech.service';
+export { FSRSMigrationService } from './fsrs-migration.service';
+export type { FSRSMigrationResult } from './fsrs-migration.service';
+export { FSRSOptimizer } from './fsrs-optimizer';
+export type { FSRSEvaluation, FSRSFitResult, FSRSOptimizerOptions } from './fsrs-optimizer';
+export { FSRSOptimizationService } from './fsrs-optimization.service';
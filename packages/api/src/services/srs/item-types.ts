@@ -0,0 +1,12 @@
+import { SRSItemType } from './srs.interface';
+
+export const SRS_ITEM_TYPES: readonly SRSItemType[] = [
+  'vocabulary',
+  'grammar',
+  'orthography',
+  'reading',
+];
+
+export function isSRSItemType(value: unknown): value is SRSItemType {
+  return typeof value === 'string' && (SRS_ITEM_TYPES as readonly string[]).includes(value);
+}
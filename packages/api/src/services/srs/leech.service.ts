@@ -0,0 +1,297 @@
+import { Pool, PoolClient } from 'pg';
+import { InterferenceDetectionService } from '../interference/interference-detection.service';
+import { SRSItemType, SRSScheduleItem } from './srs.interface';
+
+/**
+ * What happens to an item once it becomes a leech
+ * - suspend: take it out of reviews until the learner releases it
+ * - remediate: suspend it and send it to a remediation flow
+ */
+export type LeechAction = 'suspend' | 'remediate';
+
+/**
+ * Remediation flow a leech was sent to
+ * - relearn: vocabulary re-introduced as a fresh lesson
+ * - interference: drill for the interference pattern behind the lapses
+ */
+export type LeechRemediation = 'relearn' | 'interference';
+
+/**
+ * Per-user leech configuration
+ */
+export interface LeechSettings {
+  threshold: number; // Lapses before an item becomes a leech
+  action: LeechAction;
+}
+
+/**
+ * Scheduled item that keeps being forgotten
+ */
+export interface SRSLeech {
+  id: string;
+  itemType: SRSItemType;
+  itemId: string;
+  language: string;
+  lapses: number;
+  leechAt: Date;
+  suspended: boolean;
+  remediation: LeechRemediation | null;
+  interferencePatternId: string | null;
+  text: string | null;
+}
+
+interface LeechRow {
+  id: string;
+  item_type: SRSItemType;
+  item_id: string;
+  language: string;
+  lapses: number;
+  leech_at: Date;
+  suspended_at: Date | null;
+  leech_remediation: LeechRemediation | null;
+  leech_pattern_id: string | null;
+  text: string | null;
+}
+
+/**
+ * Leech detection and remediation
+ *
+ * A lapse is an "again" rating on an item that had been learned. SRSService
+ * counts lapses on user_srs_items; once they reach the user's threshold the
+ * item is flagged (leech_at) and suspended (suspended_at), which keeps it out
+ * of every due queue.
+ *
+ * With the 'remediate' action the item is also sent to a remediation flow.
+ * An unresolved interference pattern for the item takes precedence; otherwise
+ * vocabulary goes back into the introduction queue for a fresh lesson. The
+ * item is released with a reset schedule when the flow completes. Leeches
+ * without a flow stay suspended until the learner releases them.
+ */
+export class LeechService {
+  /**
+   * Default number of lapses before an item becomes a leech
+   */
+  public static readonly DEFAULT_LEECH_THRESHOLD = 8;
+
+  public static readonly DEFAULT_LEECH_ACTION: LeechAction = 'remediate';
+
+  private readonly interference: InterferenceDetectionService;
+
+  constructor(private readonly pool: Pool) {
+    this.interference = new InterferenceDetectionService(pool);
+  }
+
+  /**
+   * Get a user's leech threshold and action (defaults when unset)
+   */
+  async getSettings(userId: string, db: Pool | PoolClient = this.pool): Promise<LeechSettings> {
+    const result = await db.query<{ threshold: string | null; action: string | null }>(
+      `SELECT settings->>'srsLeechThreshold' as threshold, settings->>'srsLeechAction' as action
+       FROM user_preferences
+       WHERE user_id = $1`,
+      [userId]
+    );
+
+    const row = result.rows[0];
+    const threshold = Number(row?.threshold ?? NaN);
+
+    return {
+      threshold:
+        Number.isInteger(threshold) && threshold > 0
+          ? threshold
+          : LeechService.DEFAULT_LEECH_THRESHOLD,
+      action:
+        row?.action === 'suspend' || row?.action === 'remediate'
+          ? row.action
+          : LeechService.DEFAULT_LEECH_ACTION,
+    };
+  }
+
+  /**
+   * Flag an item as a leech if its lapse count reached the user's threshold
+   *
+   * @param item Schedule item as it was before the lapse
+   * @param lapses Lapse count including the current lapse
+   * @param db Transaction client of the review that lapsed
+   * @returns The new leech, or null if the item is below the threshold
+   */
+  async handleLapse(
+    item: SRSScheduleItem,
+    lapses: number,
+    db: Pool | PoolClient = this.pool
+  ): Promise<SRSLeech | null> {
+    const settings = await this.getSettings(item.userId, db);
+
+    if (lapses < settings.threshold) {
+      return null;
+    }
+
+    let remediation: LeechRemediation | null = null;
+    let patternId: string | null = null;
+
+    if (settings.action === 'remediate') {
+      const pattern = await this.interference.getActivePatternForItem(item.userId, item.itemId);
+
+      if (pattern) {
+        remediation = 'interference';
+        patternId = pattern.id;
+      } else if (item.itemType === 'vocabulary') {
+        remediation = 'relearn';
+      }
+    }
+
+    const result = await db.query<{ leech_at: Date }>(
+      `UPDATE user_srs_items
+       SET leech_at = current_timestamp,
+           suspended_at = current_timestamp,
+           leech_remediation = $3,
+           leech_pattern_id = $4
+       WHERE id = $1 AND user_id = $2
+       RETURNING leech_at`,
+      [item.id, item.userId, remediation, patternId]
+    );
+
+    if (remediation === 'relearn') {
+      // Back into the introduction queue, as if the word was never seen
+      await db.query(
+        `UPDATE user_word_state
+         SET state = 'unknown',
+             first_seen_at = NULL,
+             marked_known_at = NULL,
+             successful_reviews = 0
+         WHERE user_id = $1 AND meaning_id = $2`,
+        [item.userId, item.itemId]
+      );
+    }
+
+    return {
+      id: item.id,
+      itemType: item.itemType,
+      itemId: item.itemId,
+      language: item.language,
+      lapses,
+      leechAt: result.rows[0]?.leech_at ?? new Date(),
+      suspended: true,
+      remediation,
+      interferencePatternId: patternId,
+      text: null,
+    };
+  }
+
+  /**
+   * List a user's leeches, most lapses first
+   *
+   * Released leeches stay listed (not suspended) until they lapse again.
+   */
+  async getLeeches(userId: string, language?: string): Promise<SRSLeech[]> {
+    const params: string[] = [userId];
+    let languageFilter = '';
+
+    if (language) {
+      languageFilter = 'AND usi.language = $2';
+      params.push(language);
+    }
+
+    const result = await this.pool.query<LeechRow>(
+      `SELECT * FROM (
+         SELECT DISTINCT ON (usi.id)
+           usi.id,
+           usi.item_type,
+           usi.item_id,
+           usi.language,
+           usi.lapses,
+           usi.leech_at,
+           usi.suspended_at,
+           usi.leech_remediation,
+           usi.leech_pattern_id,
+           COALESCE(au.text, ar.title, cg.metadata->>'letter', rp.title) as text
+         FROM user_srs_items usi
+         LEFT JOIN approved_utterances au
+           ON usi.item_type = 'vocabulary' AND au.meaning_id::text = usi.item_id AND au.language = usi.language
+         LEFT JOIN approved_rules ar
+           ON usi.item_type = 'grammar' AND ar.id::text = usi.item_id
+         LEFT JOIN curriculum_graph cg
+           ON usi.item_type = 'orthography' AND cg.concept_id = usi.item_id AND cg.language = usi.language
+         LEFT JOIN approved_reading_passages rp
+           ON usi.item_type = 'reading' AND rp.id::text = usi.item_id
+         WHERE usi.user_id = $1 ${languageFilter} AND usi.leech_at IS NOT NULL
+         ORDER BY usi.id
+       ) leeches
+       ORDER BY lapses DESC, leech_at DESC`,
+      params
+    );
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      itemType: row.item_type,
+      itemId: row.item_id,
+      language: row.language,
+      lapses: row.lapses,
+      leechAt: row.leech_at,
+      suspended: row.suspended_at !== null,
+      remediation: row.leech_remediation,
+      interferencePatternId: row.leech_pattern_id,
+      text: row.text,
+    }));
+  }
+
+  /**
+   * Return a suspended leech to reviews with a fresh schedule
+   *
+   * @returns False if the item is not a suspended leech
+   */
+  async release(userId: string, itemType: SRSItemType, itemId: string): Promise<boolean> {
+    const released = await this.releaseWhere('user_id = $1 AND item_type = $2 AND item_id = $3', [
+      userId,
+      itemType,
+      itemId,
+    ]);
+
+    return released > 0;
+  }
+
+  /**
+   * Release vocabulary leeches that have been re-introduced in a lesson
+   *
+   * @returns Number of released items
+   */
+  async releaseRelearned(userId: string, meaningIds: string[]): Promise<number> {
+    return this.releaseWhere(
+      `user_id = $1 AND item_type = 'vocabulary' AND item_id = ANY($2::text[])
+       AND leech_remediation = 'relearn'`,
+      [userId, meaningIds]
+    );
+  }
+
+  /**
+   * Release leeches waiting on a completed interference drill
+   *
+   * @returns Number of released items
+   */
+  async releaseForPattern(userId: string, patternId: string): Promise<number> {
+    return this.releaseWhere('user_id = $1 AND leech_pattern_id = $2', [userId, patternId]);
+  }
+
+  /**
+   * Lapses restart from zero so a released item needs a full threshold of
+   * new lapses before it is suspended again
+   */
+  private async releaseWhere(condition: string, params: unknown[]): Promise<number> {
+    const result = await this.pool.query(
+      `UPDATE user_srs_items
+       SET suspended_at = NULL,
+           leech_remediation = NULL,
+           leech_pattern_id = NULL,
+           lapses = 0,
+           interval = 0,
+           repetitions = 0,
+           stability = NULL,
+           difficulty = NULL,
+           next_review_at = current_timestamp
+       WHERE ${condition} AND suspended_at IS NOT NULL`,
+      params
+    );
+
+    return result.rowCount ?? 0;
+  }
+}
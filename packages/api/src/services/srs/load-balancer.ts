@@ -0,0 +1,110 @@
+import { SRSUpdateResult } from './srs.interface';
+
+/**
+ * Range of intervals (in days) a due date may be moved within
+ */
+export interface FuzzRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Due date load balancer
+ *
+ * Schedulers return an exact interval, so items learned together keep
+ * coming due on the same day. The balancer widens each interval into a fuzz
+ * window and moves the due date to the day in that window with the fewest
+ * reviews already scheduled, spreading the workload evenly.
+ *
+ * Fuzz window (days either side of the interval), following Anki:
+ * - interval < 2.5: no fuzz
+ * - 2.5 - 7 days: 15% of the part above 2.5, plus 1 day
+ * - 7 - 20 days: additional 10%
+ * - over 20 days: additional 5%
+ *
+ * Ties go to the day closest to the scheduler's interval, then the earlier
+ * day, so an empty calendar leaves the interval unchanged.
+ */
+export class SRSLoadBalancer {
+  /**
+   * Intervals shorter than this are never moved
+   */
+  public static readonly MIN_FUZZ_INTERVAL = 2.5;
+
+  /**
+   * Calculate the window of intervals an item may be scheduled at
+   *
+   * @param interval Interval in days chosen by the scheduler
+   * @returns Inclusive range of intervals, or null when the interval is too short to fuzz
+   */
+  public getFuzzRange(interval: number): FuzzRange | null {
+    if (interval < SRSLoadBalancer.MIN_FUZZ_INTERVAL) {
+      return null;
+    }
+
+    const delta =
+      1 +
+      0.15 * (Math.min(interval, 7) - SRSLoadBalancer.MIN_FUZZ_INTERVAL) +
+      0.1 * Math.max(Math.min(interval, 20) - 7, 0) +
+      0.05 * Math.max(interval - 20, 0);
+
+    return {
+      min: Math.max(2, Math.round(interval - delta)),
+      max: Math.round(interval + delta),
+    };
+  }
+
+  /**
+   * Pick the least loaded interval within the fuzz window
+   *
+   * @param interval Interval in days chosen by the scheduler
+   * @param dueCounts Number of items already due, keyed by days from today
+   * @returns Interval in days
+   */
+  public pickInterval(interval: number, dueCounts: ReadonlyMap<number, number>): number {
+    const range = this.getFuzzRange(interval);
+
+    if (!range) {
+      return interval;
+    }
+
+    let best = interval;
+    let bestLoad = Number.POSITIVE_INFINITY;
+
+    for (let day = range.min; day <= range.max; day++) {
+      const load = dueCounts.get(day) ?? 0;
+      const isCloser = Math.abs(day - interval) < Math.abs(best - interval);
+
+      if (load < bestLoad || (load === bestLoad && isCloser)) {
+        best = day;
+        bestLoad = load;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Move a scheduler update to the balanced interval
+   *
+   * @param update Update calculated by the scheduler
+   * @param dueCounts Number of items already due, keyed by days from today
+   * @returns Update with interval and due date adjusted
+   */
+  public balance(update: SRSUpdateResult, dueCounts: ReadonlyMap<number, number>): SRSUpdateResult {
+    const interval = this.pickInterval(update.newInterval, dueCounts);
+
+    if (interval === update.newInterval) {
+      return update;
+    }
+
+    const nextDueDate = new Date(update.nextDueDate);
+    nextDueDate.setDate(nextDueDate.getDate() + interval - update.newInterval);
+
+    return {
+      ...update,
+      newInterval: interval,
+      nextDueDate,
+    };
+  }
+}
@@ -0,0 +1,399 @@
+import { Pool, PoolClient } from 'pg';
+import { withTransaction } from '../../utils/db.utils';
+import {
+  PerformanceRating,
+  ReviewLogAppend,
+  ReviewLogSource,
+  ReviewUndoResult,
+  SRSItemSnapshot,
+  SRSItemType,
+  SRSLeechSnapshot,
+  SRSPracticeMode,
+  SRSScheduleItem,
+  SRSUpdateResult,
+  WordStateSnapshot,
+} from './srs.interface';
+
+/**
+ * Database row structure for review_log table
+ */
+interface ReviewLogRow {
+  id: string;
+  source: ReviewLogSource;
+  item_type: SRSItemType;
+  item_id: string;
+  practice_mode: SRSPracticeMode;
+  rating: PerformanceRating;
+  response_time_ms: number | null;
+  was_correct: boolean | null;
+  state_before: SRSItemSnapshot | WordStateSnapshot;
+  state_after: SRSItemSnapshot | WordStateSnapshot;
+  history_id: string | null;
+}
+
+/**
+ * Maximum number of reviews that can be undone in one request
+ */
+export const MAX_UNDO_COUNT = 20;
+
+class ReviewUndoError extends Error {
+  statusCode: number;
+  code: string;
+  constructor(message: string, code: string, statusCode: number = 409) {
+    super(message);
+    this.name = 'ReviewUndoError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+/**
+ * Append-only log of schedule changes made by reviews
+ *
+ * Each review stores the schedule row before and after it was applied.
+ * Undo never deletes from the log: it restores the "before" snapshot and
+ * appends an 'undo' entry pointing at the review it reverts, so a review is
+ * undone at most once and the full history stays auditable. The review's
+ * srs_review_history row is deleted, so quotas and the FSRS optimizer no
+ * longer count it.
+ */
+export class ReviewLogService {
+  constructor(private readonly pool: Pool) {}
+
+  /**
+   * Snapshot a schedule item as it was before a review
+   */
+  static snapshotScheduleItem(item: SRSScheduleItem, leech?: SRSLeechSnapshot): SRSItemSnapshot {
+    return {
+      interval: item.interval,
+      repetitions: item.repetitions,
+      easeFactor: item.easeFactor,
+      dueDate: item.dueDate.toISOString(),
+      lastReviewedAt: item.lastReviewedAt ? item.lastReviewedAt.toISOString() : null,
+      stability: item.stability ?? null,
+      difficulty: item.difficulty ?? null,
+      ...leech,
+    };
+  }
+
+  /**
+   * Snapshot a schedule item as written by a review update
+   */
+  static snapshotUpdate(
+    item: SRSScheduleItem,
+    update: SRSUpdateResult,
+    reviewedAt: Date,
+    leech?: SRSLeechSnapshot
+  ): SRSItemSnapshot {
+    return {
+      interval: update.newInterval,
+      repetitions: update.newRepetitions,
+      easeFactor: update.newEaseFactor,
+      dueDate: update.nextDueDate.toISOString(),
+      lastReviewedAt: reviewedAt.toISOString(),
+      stability: update.newStability ?? item.stability ?? null,
+      difficulty: update.newDifficulty ?? item.difficulty ?? null,
+      ...leech,
+    };
+  }
+
+  /**
+   * Append a review to the log
+   *
+   * Pass the transaction client the review was written with, so the entry
+   * is only kept when the review is.
+   */
+  async append(entry: ReviewLogAppend, db: Pool | PoolClient = this.pool): Promise<void> {
+    await db.query(
+      `INSERT INTO review_log (
+        user_id,
+        session_id,
+        source,
+        item_type,
+        item_id,
+        practice_mode,
+        action,
+        rating,
+        response_time_ms,
+        state_before,
+        state_after,
+        history_id,
+        was_correct
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, 'review', $7, $8, $9, $10, $11, $12)`,
+      [
+        entry.userId,
+        entry.sessionId,
+        entry.source,
+        entry.itemType,
+        entry.itemId,
+        entry.practiceMode,
+        entry.rating,
+        entry.responseTimeMs,
+        JSON.stringify(entry.stateBefore),
+        JSON.stringify(entry.stateAfter),
+        entry.historyId ?? null,
+        entry.wasCorrect ?? null,
+      ]
+    );
+  }
+
+  /**
+   * Undo the most recent reviews of a session
+   *
+   * Reviews are reverted newest first, so undoing several reviews of the same
+   * item leaves it in the state it had before the earliest of them. A review
+   * cannot be undone once its item has been reviewed again outside the log
+   * (e.g. in another session).
+   *
+   * @param userId User ID
+   * @param sessionId Session the reviews were recorded in
+   * @param count Number of reviews to undo (1 - MAX_UNDO_COUNT)
+   * @returns Reverted reviews, newest first (empty when nothing is left to undo)
+   */
+  async undoLast(
+    userId: string,
+    sessionId: string,
+    count: number = 1
+  ): Promise<ReviewUndoResult[]> {
+    if (!Number.isInteger(count) || count < 1 || count > MAX_UNDO_COUNT) {
+      throw new Error(`Undo count must be between 1 and ${MAX_UNDO_COUNT}`);
+    }
+
+    const client = await this.pool.connect();
+
+    try {
+      return await withTransaction(client, async (txClient) => {
+        const result = await txClient.query<ReviewLogRow>(
+          `SELECT
+             id, source, item_type, item_id, practice_mode, rating, response_time_ms,
+             was_correct, state_before, state_after, history_id
+           FROM review_log rl
+           WHERE rl.user_id = $1
+             AND rl.session_id = $2
+             AND rl.action = 'review'
+             AND NOT EXISTS (
+               SELECT 1 FROM review_log u WHERE u.reverts_log_id = rl.id
+             )
+           ORDER BY rl.created_at DESC, rl.id DESC
+           LIMIT $3
+           FOR UPDATE`,
+          [userId, sessionId, count]
+        );
+
+        const undone: ReviewUndoResult[] = [];
+
+        for (const row of result.rows) {
+          if (await this.reviewedSince(txClient, row)) {
+            throw new ReviewUndoError(
+              'The item has been reviewed again since, so this review can no longer be undone',
+              'REVIEWED_SINCE'
+            );
+          }
+
+          await this.restoreState(txClient, userId, row);
+
+          if (row.history_id) {
+            await txClient.query(`DELETE FROM srs_review_history WHERE id = $1`, [row.history_id]);
+          }
+
+          await txClient.query(
+            `INSERT INTO review_log (
+              user_id,
+              session_id,
+              source,
+              item_type,
+              item_id,
+              practice_mode,
+              action,
+              rating,
+              state_before,
+              state_after,
+              reverts_log_id
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, 'undo', $7, $8, $9, $10)`,
+            [
+              userId,
+              sessionId,
+              row.source,
+              row.item_type,
+              row.item_id,
+              row.practice_mode,
+              row.rating,
+              JSON.stringify(row.state_after),
+              JSON.stringify(row.state_before),
+              row.id,
+            ]
+          );
+
+          undone.push({
+            logId: row.id,
+            source: row.source,
+            itemType: row.item_type,
+            itemId: row.item_id,
+            practiceMode: row.practice_mode,
+            rating: row.rating,
+            restoredState: row.state_before,
+          });
+        }
+
+        if (result.rows.length > 0) {
+          await this.revertSessionProgress(txClient, userId, sessionId, result.rows);
+        }
+
+        return undone;
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Whether the logged item was reviewed after the log entry was written
+   *
+   * Compared in SQL so timestamps keep their full precision. Reviews undone
+   * earlier in the same transaction have already restored last_reviewed_at.
+   */
+  private async reviewedSince(client: PoolClient, row: ReviewLogRow): Promise<boolean> {
+    const schedule =
+      row.source === 'word_state'
+        ? `user_word_state s ON s.user_id = rl.user_id AND s.meaning_id = rl.item_id`
+        : `user_srs_items s ON s.user_id = rl.user_id
+             AND s.item_type = rl.item_type AND s.item_id = rl.item_id`;
+
+    const result = await client.query(
+      `SELECT 1
+       FROM review_log rl
+       JOIN ${schedule}
+       WHERE rl.id = $1 AND s.last_reviewed_at > rl.created_at
+       FOR UPDATE OF s`,
+      [row.id]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Take undone reviews back out of the review session's counters
+   *
+   * Matches nothing when the session ID belongs to another practice mode.
+   * Correct answers are taken back as the session counted them; entries
+   * written without that fall back to the rating.
+   */
+  private async revertSessionProgress(
+    client: PoolClient,
+    userId: string,
+    sessionId: string,
+    rows: ReviewLogRow[]
+  ): Promise<void> {
+    const correctCount = rows.filter((row) => row.was_correct ?? row.rating !== 'again').length;
+    const responseTimeMs = rows.reduce((sum, row) => sum + (row.response_time_ms ?? 0), 0);
+
+    await client.query(
+      `UPDATE user_review_sessions
+       SET items_reviewed = GREATEST(items_reviewed - $3, 0),
+           correct_count = GREATEST(correct_count - $4, 0),
+           total_response_time_ms = GREATEST(total_response_time_ms - $5, 0),
+           last_activity_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2`,
+      [sessionId, userId, rows.length, correctCount, responseTimeMs]
+    );
+  }
+
+  /**
+   * Write a logged "before" snapshot back to its schedule table
+   */
+  private async restoreState(client: PoolClient, userId: string, row: ReviewLogRow): Promise<void> {
+    if (row.source === 'word_state') {
+      const state = row.state_before as WordStateSnapshot;
+
+      await client.query(
+        `UPDATE user_word_state
+         SET state = $1,
+             successful_reviews = $2,
+             total_reviews = $3,
+             marked_known_at = $4,
+             last_reviewed_at = $5
+         WHERE user_id = $6 AND meaning_id = $7`,
+        [
+          state.state,
+          state.successfulReviews,
+          state.totalReviews,
+          state.markedKnownAt,
+          state.lastReviewedAt,
+          userId,
+          row.item_id,
+        ]
+      );
+      return;
+    }
+
+    const state = row.state_before as SRSItemSnapshot;
+
+    await client.query(
+      `UPDATE user_srs_items
+       SET interval = $1,
+           repetitions = $2,
+           ease_factor = $3,
+           next_review_at = $4,
+           last_reviewed_at = $5,
+           stability = $6,
+           difficulty = $7
+       WHERE user_id = $8 AND item_type = $9 AND item_id = $10`,
+      [
+        state.interval,
+        state.repetitions,
+        state.easeFactor,
+        state.dueDate,
+        state.lastReviewedAt,
+        state.stability,
+        state.difficulty,
+        userId,
+        row.item_type,
+        row.item_id,
+      ]
+    );
+
+    if (state.lapses !== undefined) {
+      // Takes back the lapse, and the leech flag and suspension it caused
+      await client.query(
+        `UPDATE user_srs_items
+         SET lapses = $1,
+             leech_at = $2,
+             suspended_at = $3,
+             leech_remediation = $4,
+             leech_pattern_id = $5
+         WHERE user_id = $6 AND item_type = $7 AND item_id = $8`,
+        [
+          state.lapses,
+          state.leechAt ?? null,
+          state.suspendedAt ?? null,
+          state.leechRemediation ?? null,
+          state.leechPatternId ?? null,
+          userId,
+          row.item_type,
+          row.item_id,
+        ]
+      );
+    }
+
+    if (state.wordState) {
+      // The word was reset for relearning; bring back its progress
+      await client.query(
+        `UPDATE user_word_state
+         SET state = $1,
+             first_seen_at = $2,
+             marked_known_at = $3,
+             successful_reviews = $4
+         WHERE user_id = $5 AND meaning_id = $6`,
+        [
+          state.wordState.state,
+          state.wordState.firstSeenAt,
+          state.wordState.markedKnownAt,
+          state.wordState.successfulReviews,
+          userId,
+          row.item_id,
+        ]
+      );
+    }
+  }
+}
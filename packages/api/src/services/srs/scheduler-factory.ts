@@ -0,0 +1,20 @@
+import { FSRSCalculator } from './fsrs-calculator';
+import { SM2Calculator } from './sm2-calculator';
+import { SRSScheduler, SRSSchedulerType } from './srs.interface';
+
+export const DEFAULT_SCHEDULER_TYPE: SRSSchedulerType = 'sm2';
+
+export const SCHEDULER_TYPES: readonly SRSSchedulerType[] = ['sm2', 'fsrs'];
+
+export function isSchedulerType(value: unknown): value is SRSSchedulerType {
+  return typeof value === 'string' && (SCHEDULER_TYPES as readonly string[]).includes(value);
+}
+
+export function createScheduler(type: SRSSchedulerType): SRSScheduler {
+  switch (type) {
+    case 'fsrs':
+      return new FSRSCalculator();
+    case 'sm2':
+      return new SM2Calculator();
+  }
+}
@@ -1,4 +1,10 @@
-import { PerformanceRating, SRSScheduleItem, SRSUpdateResult } from './srs.interface';
+import {
+  PerformanceRating,
+  SRSInitialSchedule,
+  SRSScheduleItem,
+  SRSScheduler,
+  SRSUpdateResult,
+} from './srs.interface';
 
 /**
  * SM-2 (SuperMemo 2) Algorithm Implementation
@@ -20,7 +26,9 @@ import { PerformanceRating, SRSScheduleItem, SRSUpdateResult } from './srs.inter
  * - Rep 2: 6 days
  * - Rep 3+: previous_interval * EF
  */
-export class SM2Calculator {
+export class SM2Calculator implements SRSScheduler {
+  public readonly type = 'sm2' as const;
+
   /**
    * Default starting ease factor per SM-2 specification
    */
@@ -53,6 +61,18 @@ export class SM2Calculator {
     return SM2Calculator.QUALITY_SCORES[rating];
   }
 
+  /**
+   * Convert SM-2 quality score (0-5) to the closest performance rating
+   *
+   * Scores below 3 are failures; 3, 4 and 5 map to hard, good and easy.
+   */
+  public qualityToRating(quality: number): PerformanceRating {
+    if (quality < 3) return 'again';
+    if (quality < 4) return 'hard';
+    if (quality < 5) return 'good';
+    return 'easy';
+  }
+
   /**
    * Calculate next review schedule using SM-2 algorithm
    *
@@ -124,10 +144,7 @@ export class SM2Calculator {
    *
    * @returns Initial schedule values
    */
-  public getInitialSchedule(): Pick<
-    SRSUpdateResult,
-    'newEaseFactor' | 'newInterval' | 'newRepetitions'
-  > & { nextDueDate: Date } {
+  public getInitialSchedule(): SRSInitialSchedule {
     const nextDueDate = new Date();
     // First review is immediate (same day)
     return {
@@ -13,6 +13,147 @@ export type PerformanceRating = 'again' | 'hard' | 'good' | 'easy';
  */
 export type SRSItemType = 'vocabulary' | 'grammar' | 'orthography' | 'reading';
 
+/**
+ * Practice modes that report reviews to the shared SRS schedule
+ */
+export type SRSPracticeMode =
+  | 'review'
+  | 'recall'
+  | 'recognition'
+  | 'cloze'
+  | 'dictation'
+  | 'translation'
+  | 'production'
+  | 'reading'
+  | 'speaking';
+
+/**
+ * Optional context stored with a review in srs_review_history and review_log
+ */
+export interface SRSReviewOptions {
+  practiceMode?: SRSPracticeMode; // Defaults to 'review'
+  responseTimeMs?: number;
+  sessionId?: string; // Groups reviews so they can be undone together
+  wasCorrect?: boolean; // As counted in the session, taken back out on undo
+}
+
+/**
+ * Schedule tables whose rows are captured by the review log
+ * - srs_item: user_srs_items
+ * - word_state: user_word_state
+ */
+export type ReviewLogSource = 'srs_item' | 'word_state';
+
+/**
+ * Lapse and leech columns of a user_srs_items row
+ */
+export interface SRSLeechSnapshot {
+  lapses: number;
+  leechAt: string | null;
+  suspendedAt: string | null;
+  leechRemediation: string | null;
+  leechPatternId: string | null;
+}
+
+/**
+ * user_word_state columns reset when a leech is sent to relearn
+ */
+export interface RelearnWordStateSnapshot {
+  state: string;
+  firstSeenAt: string | null;
+  markedKnownAt: string | null;
+  successfulReviews: number;
+}
+
+/**
+ * Snapshot of a user_srs_items row before or after a review
+ *
+ * Leech fields are missing from entries logged before lapses were tracked.
+ * wordState is only kept when the review sent the item to relearn.
+ */
+export interface SRSItemSnapshot extends Partial<SRSLeechSnapshot> {
+  interval: number;
+  repetitions: number;
+  easeFactor: number;
+  dueDate: string;
+  lastReviewedAt: string | null;
+  stability: number | null;
+  difficulty: number | null;
+  wordState?: RelearnWordStateSnapshot;
+}
+
+/**
+ * Snapshot of a user_word_state row before or after a review
+ */
+export interface WordStateSnapshot {
+  state: string;
+  successfulReviews: number;
+  totalReviews: number;
+  markedKnownAt: string | null;
+  lastReviewedAt: string | null;
+}
+
+/**
+ * Review to append to the review log
+ */
+export interface ReviewLogAppend {
+  userId: string;
+  sessionId: string | null;
+  source: ReviewLogSource;
+  itemType: SRSItemType;
+  itemId: string;
+  practiceMode: SRSPracticeMode;
+  rating: PerformanceRating;
+  responseTimeMs: number | null;
+  wasCorrect?: boolean | null; // As counted by the review session
+  stateBefore: SRSItemSnapshot | WordStateSnapshot;
+  stateAfter: SRSItemSnapshot | WordStateSnapshot;
+  historyId?: string | null; // srs_review_history row removed again on undo
+}
+
+/**
+ * Review reverted by an undo
+ */
+export interface ReviewUndoResult {
+  logId: string;
+  source: ReviewLogSource;
+  itemType: SRSItemType;
+  itemId: string;
+  practiceMode: SRSPracticeMode;
+  rating: PerformanceRating;
+  restoredState: SRSItemSnapshot | WordStateSnapshot;
+}
+
+/**
+ * Per-user daily review workload
+ *
+ * New items are scheduled items that have never been reviewed; everything
+ * else counts against the review limit. Each item counts once per day.
+ */
+export interface SRSDailyQuota {
+  reviewLimit: number;
+  newLimit: number;
+  reviewsDone: number; // Items reviewed today
+  newDone: number; // New items introduced today
+  reviewsRemaining: number;
+  newRemaining: number;
+}
+
+/**
+ * Scheduling algorithms a user can choose between
+ * - sm2: SuperMemo 2 (ease factor based)
+ * - fsrs: Free Spaced Repetition Scheduler (stability/difficulty/retrievability)
+ */
+export type SRSSchedulerType = 'sm2' | 'fsrs';
+
+/**
+ * Per-user scheduler selection
+ */
+export interface SRSSchedulerConfig {
+  type: SRSSchedulerType;
+  fsrsWeights: readonly number[] | null; // Personalized FSRS weights, null for defaults
+}
+
 /**
  * SRS schedule item representing a user's learning progress for an item
  */
@@ -27,6 +168,8 @@ export interface SRSScheduleItem {
   repetitions: number; // Number of successful reviews
   easeFactor: number; // SM-2 ease factor (1.3 - 3.0)
   lastReviewedAt: Date | null;
+  stability?: number | null; // FSRS memory stability in days
+  difficulty?: number | null; // FSRS difficulty (1 - 10)
 }
 
 /**
@@ -47,6 +190,41 @@ export interface SRSUpdateResult {
   newInterval: number;
   newRepetitions: number;
   newEaseFactor: number;
+  newStability?: number;
+  newDifficulty?: number;
+}
+
+/**
+ * Schedule values for an item that has never been reviewed
+ */
+export type SRSInitialSchedule = Pick<
+  SRSUpdateResult,
+  'newEaseFactor' | 'newInterval' | 'newRepetitions'
+> & { nextDueDate: Date };
+
+/**
+ * Scheduling algorithm used by SRSService to compute review intervals
+ */
+export interface SRSScheduler {
+  readonly type: SRSSchedulerType;
+
+  /**
+   * Calculate next review schedule for an item
+   * @param schedule Current schedule item
+   * @param rating User performance rating
+   * @returns Updated schedule parameters
+   */
+  calculateNext(schedule: SRSScheduleItem, rating: PerformanceRating): SRSUpdateResult;
+
+  /**
+   * Create initial schedule parameters for a new item
+   */
+  getInitialSchedule(): SRSInitialSchedule;
+
+  /**
+   * Determine if a rating represents a passing score
+   */
+  isPassing(rating: PerformanceRating): boolean;
 }
 
 /**
@@ -54,12 +232,19 @@ export interface SRSUpdateResult {
  */
 export interface ISRSService {
   /**
-   * Calculate next review schedule using SM-2 algorithm
+   * Calculate next review schedule
    * @param currentSchedule Current SRS schedule item
    * @param rating User performance rating
+   * @param schedulerType Scheduling algorithm (defaults to SM-2)
+   * @param fsrsWeights Personalized FSRS weights (defaults to published weights)
    * @returns Updated schedule parameters
    */
-  calculateNextReview(currentSchedule: SRSScheduleItem, rating: PerformanceRating): SRSUpdateResult;
+  calculateNextReview(
+    currentSchedule: SRSScheduleItem,
+    rating: PerformanceRating,
+    schedulerType?: SRSSchedulerType,
+    fsrsWeights?: readonly number[] | null
+  ): SRSUpdateResult;
 
   /**
    * Add new item to SRS schedule (first review)
@@ -77,28 +262,87 @@ export interface ISRSService {
   ): Promise<string>;
 
   /**
-   * Get all items due for review for a user
+   * Get items due for review for a user, within today's daily limits
    * @param userId User ID
    * @param language Language code (optional)
    * @param limit Maximum number of items to return
-   * @returns Due items ordered by due_date ASC
+   * @param itemType Item type filter (optional)
+   * @returns Due items, most overdue (relative to their interval) first
    */
-  getDueItems(userId: string, language?: string, limit?: number): Promise<SRSScheduleItem[]>;
+  getDueItems(
+    userId: string,
+    language?: string,
+    limit?: number,
+    itemType?: SRSItemType
+  ): Promise<SRSScheduleItem[]>;
+
+  /**
+   * Get today's review and new item limits and how much of them is used
+   * @param userId User ID
+   * @returns Daily limits from user preferences (defaults when unset) and usage
+   */
+  getDailyQuota(userId: string): Promise<SRSDailyQuota>;
 
   /**
    * Update schedule after review
    * @param userId User ID
    * @param itemId Item ID
    * @param rating Performance rating
+   * @param itemType Type of item (defaults to vocabulary)
+   * @param options Practice mode and response time for the review log
    * @returns Updated schedule
    */
-  recordReview(userId: string, itemId: string, rating: PerformanceRating): Promise<SRSUpdateResult>;
+  recordReview(
+    userId: string,
+    itemId: string,
+    rating: PerformanceRating,
+    itemType?: SRSItemType,
+    options?: SRSReviewOptions
+  ): Promise<SRSUpdateResult>;
+
+  /**
+   * Record an answer from a practice mode scored on the SM-2 quality scale
+   * @param userId User ID
+   * @param itemType Type of item
+   * @param itemId Item ID
+   * @param quality Quality score (0-5)
+   * @param practiceMode Practice mode that produced the answer
+   * @param sessionId Session the answer belongs to, for undo (optional)
+   * @returns Updated schedule item, or null if the item is not scheduled
+   */
+  recordPracticeResult(
+    userId: string,
+    itemType: SRSItemType,
+    itemId: string,
+    quality: number,
+    practiceMode: SRSPracticeMode,
+    sessionId?: string
+  ): Promise<SRSScheduleItem | null>;
 
   /**
    * Get schedule item for a specific user and item
    * @param userId User ID
    * @param itemId Item ID
+   * @param itemType Type of item (defaults to vocabulary)
    * @returns Schedule item or null if not found
    */
-  getScheduleItem(userId: string, itemId: string): Promise<SRSScheduleItem | null>;
+  getScheduleItem(
+    userId: string,
+    itemId: string,
+    itemType?: SRSItemType
+  ): Promise<SRSScheduleItem | null>;
+
+  /**
+   * Get the scheduling algorithm selected by a user
+   * @param userId User ID
+   * @returns Scheduler type from user preferences (SM-2 when unset)
+   */
+  getSchedulerType(userId: string): Promise<SRSSchedulerType>;
+
+  /**
+   * Get the scheduling algorithm and personalized FSRS weights for a user
+   * @param userId User ID
+   * @returns Scheduler configuration
+   */
+  getSchedulerConfig(userId: string): Promise<SRSSchedulerConfig>;
 }
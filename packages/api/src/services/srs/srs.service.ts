@@ -1,10 +1,25 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
+import { withTransaction } from '../../utils/db.utils';
+import { FSRSCalculator } from './fsrs-calculator';
+import { isSRSItemType } from './item-types';
+import { LeechService } from './leech.service';
+import { SRSLoadBalancer } from './load-balancer';
+import { ReviewLogService } from './review-log.service';
 import { SM2Calculator } from './sm2-calculator';
+import { createScheduler, DEFAULT_SCHEDULER_TYPE, isSchedulerType } from './scheduler-factory';
 import {
   ISRSService,
   SRSScheduleItem,
+  SRSDailyQuota,
   SRSItemType,
   PerformanceRating,
+  RelearnWordStateSnapshot,
+  SRSLeechSnapshot,
+  SRSPracticeMode,
+  SRSReviewOptions,
+  SRSScheduler,
+  SRSSchedulerConfig,
+  SRSSchedulerType,
   SRSUpdateResult,
 } from './srs.interface';
 
@@ -14,44 +29,177 @@ import {
 interface SRSItemRow {
   id: string;
   user_id: string;
-  meaning_id: string;
+  item_type: SRSItemType | null;
+  item_id: string | null;
+  meaning_id: string | null;
   language: string;
   interval: number;
   repetitions: number;
   ease_factor: number;
   next_review_at: Date;
   last_reviewed_at: Date | null;
+  stability: number | null;
+  difficulty: number | null;
+}
+
+/**
+ * Lapse and leech columns of a user_srs_items row
+ */
+interface LeechStateRow {
+  lapses: number;
+  leech_at: Date | null;
+  suspended_at: Date | null;
+  leech_remediation: string | null;
+  leech_pattern_id: string | null;
+}
+
+/**
+ * user_word_state columns reset by the relearn flow
+ */
+interface RelearnWordStateRow {
+  state: string;
+  first_seen_at: Date | null;
+  marked_known_at: Date | null;
+  successful_reviews: number;
 }
 
 /**
  * SRS Service implementing spaced repetition scheduling
  *
- * Uses SM-2 algorithm for calculating review intervals.
- * Currently supports vocabulary items via meaning_id.
+ * Review intervals are calculated by the scheduler each user selects in
+ * their preferences (SM-2 by default, FSRS as an alternative).
+ *
+ * Items are keyed by (item_type, item_id), so vocabulary meanings, grammar
+ * rules, orthography concepts and reading passages share one schedule.
+ * Vocabulary rows also keep meaning_id and reading rows reading_passage_id,
+ * which the practice services still join on.
+ *
+ * Due dates are spread across a fuzz window by SRSLoadBalancer, and the due
+ * queue is capped by per-user daily limits. Items over the limit stay due and
+ * roll forward to the next day, most overdue first.
+ *
+ * Lapses are counted per item; items that keep lapsing become leeches and
+ * are suspended by LeechService. Suspended items are never due.
  */
 export class SRSService implements ISRSService {
-  private readonly calculator: SM2Calculator;
+  /**
+   * Default maximum number of items reviewed per day
+   */
+  public static readonly DEFAULT_DAILY_REVIEW_LIMIT = 200;
+
+  /**
+   * Default maximum number of new items introduced per day
+   */
+  public static readonly DEFAULT_DAILY_NEW_LIMIT = 20;
+
+  private readonly schedulers: Record<SRSSchedulerType, SRSScheduler>;
+
+  private readonly sm2 = new SM2Calculator();
+
+  private readonly loadBalancer = new SRSLoadBalancer();
+
+  private readonly reviewLog: ReviewLogService;
+
+  private readonly leeches: LeechService;
 
   constructor(private readonly pool: Pool) {
-    this.calculator = new SM2Calculator();
+    this.schedulers = {
+      sm2: createScheduler('sm2'),
+      fsrs: createScheduler('fsrs'),
+    };
+    this.reviewLog = new ReviewLogService(pool);
+    this.leeches = new LeechService(pool);
   }
 
   /**
-   * Calculate next review schedule using SM-2 algorithm
+   * Calculate next review schedule using the given scheduler
+   *
+   * FSRS uses the learner's fitted weights when provided.
    */
   calculateNextReview(
     currentSchedule: SRSScheduleItem,
-    rating: PerformanceRating
+    rating: PerformanceRating,
+    schedulerType: SRSSchedulerType = DEFAULT_SCHEDULER_TYPE,
+    fsrsWeights: readonly number[] | null = null
+  ): SRSUpdateResult {
+    return this.getScheduler(schedulerType, fsrsWeights).calculateNext(currentSchedule, rating);
+  }
+
+  /**
+   * Calculate next review schedule and the resulting FSRS memory state
+   *
+   * FSRS stability/difficulty is tracked on every review, even when SM-2
+   * schedules the item, so users can switch schedulers without losing progress.
+   */
+  calculateReviewUpdate(
+    currentSchedule: SRSScheduleItem,
+    rating: PerformanceRating,
+    config: SRSSchedulerConfig
   ): SRSUpdateResult {
-    return this.calculator.calculateNext(currentSchedule, rating);
+    const update = this.calculateNextReview(
+      currentSchedule,
+      rating,
+      config.type,
+      config.fsrsWeights
+    );
+
+    if (config.type === 'fsrs') {
+      return update;
+    }
+
+    const memory = this.getScheduler('fsrs', config.fsrsWeights).calculateNext(
+      currentSchedule,
+      rating
+    );
+
+    return {
+      ...update,
+      newStability: memory.newStability,
+      newDifficulty: memory.newDifficulty,
+    };
+  }
+
+  /**
+   * Get the scheduling algorithm selected by a user
+   *
+   * @param userId User ID
+   * @returns Scheduler type stored in user_preferences.settings (SM-2 when unset)
+   */
+  async getSchedulerType(userId: string): Promise<SRSSchedulerType> {
+    const config = await this.getSchedulerConfig(userId);
+    return config.type;
+  }
+
+  /**
+   * Get the scheduling algorithm and personalized FSRS weights for a user
+   *
+   * @param userId User ID
+   * @returns Scheduler type (SM-2 when unset) and fitted weights from user_fsrs_parameters
+   */
+  async getSchedulerConfig(userId: string): Promise<SRSSchedulerConfig> {
+    const result = await this.pool.query<{ scheduler: string | null; weights: unknown }>(
+      `SELECT up.settings->>'srsScheduler' as scheduler, ufp.weights
+       FROM users u
+       LEFT JOIN user_preferences up ON up.user_id = u.id
+       LEFT JOIN user_fsrs_parameters ufp ON ufp.user_id = u.id
+       WHERE u.id = $1`,
+      [userId]
+    );
+
+    const row = result.rows[0];
+
+    return {
+      type: isSchedulerType(row?.scheduler) ? row.scheduler : DEFAULT_SCHEDULER_TYPE,
+      fsrsWeights: this.parseWeights(row?.weights),
+    };
   }
 
   /**
    * Add new item to SRS schedule
    *
    * @param userId User ID
-   * @param itemType Type of item (currently only 'vocabulary' is fully supported)
-   * @param itemId Item ID (meaning_id for vocabulary)
+   * @param itemType Type of item
+   * @param itemId Item ID (meaning ID, grammar rule ID, orthography concept ID or passage ID)
    * @param language Language code
    * @returns Created schedule item ID
    */
@@ -61,30 +209,34 @@ export class SRSService implements ISRSService {
     itemId: string,
     language: string
   ): Promise<string> {
-    if (itemType !== 'vocabulary') {
-      throw new Error(
-        `Item type '${itemType}' is not yet supported. Only 'vocabulary' is available.`
-      );
+    if (!isSRSItemType(itemType)) {
+      throw new Error(`Unknown SRS item type '${String(itemType)}'`);
     }
 
-    const initial = this.calculator.getInitialSchedule();
+    const initial = this.schedulers[DEFAULT_SCHEDULER_TYPE].getInitialSchedule();
 
     const result = await this.pool.query<{ id: string }>(
       `INSERT INTO user_srs_items (
         user_id,
+        item_type,
+        item_id,
         meaning_id,
+        reading_passage_id,
         language,
         interval,
         repetitions,
         ease_factor,
         next_review_at
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
-      ON CONFLICT (user_id, meaning_id) DO NOTHING
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (user_id, item_type, item_id) DO NOTHING
       RETURNING id`,
       [
         userId,
+        itemType,
         itemId,
+        itemType === 'vocabulary' ? itemId : null,
+        itemType === 'reading' ? itemId : null,
         language,
         initial.newInterval,
         initial.newRepetitions,
@@ -96,8 +248,8 @@ export class SRSService implements ISRSService {
     if (result.rows.length === 0) {
       // Item already exists, fetch existing ID
       const existing = await this.pool.query<{ id: string }>(
-        `SELECT id FROM user_srs_items WHERE user_id = $1 AND meaning_id = $2`,
-        [userId, itemId]
+        `SELECT id FROM user_srs_items WHERE user_id = $1 AND item_type = $2 AND item_id = $3`,
+        [userId, itemType, itemId]
       );
       return existing.rows[0]?.id ?? '';
     }
@@ -106,120 +258,279 @@ export class SRSService implements ISRSService {
   }
 
   /**
-   * Get all items due for review
+   * Get items due for review within today's daily limits
+   *
+   * Items are ranked by how overdue they are relative to their interval, so
+   * when the daily limits cut the queue short the most urgent items come
+   * first and the rest roll forward to the next day.
    *
    * @param userId User ID
    * @param language Optional language filter
    * @param limit Maximum number of items to return (default 20)
-   * @returns Due items ordered by due_date ASC
+   * @param itemType Optional item type filter (all types when omitted)
+   * @returns Due items, most overdue first
    */
   async getDueItems(
     userId: string,
     language?: string,
-    limit: number = 20
+    limit: number = 20,
+    itemType?: SRSItemType
   ): Promise<SRSScheduleItem[]> {
-    let query = `
-      SELECT
+    const quota = await this.getDailyQuota(userId);
+
+    const params: (string | number)[] = [userId];
+    let filters = '';
+
+    if (language) {
+      filters += ` AND language = $${params.length + 1}`;
+      params.push(language);
+    }
+
+    if (itemType) {
+      filters += ` AND item_type = $${params.length + 1}`;
+      params.push(itemType);
+    }
+
+    params.push(quota.newRemaining, quota.reviewsRemaining, limit);
+
+    // New and review items are capped separately, each in overdue order
+    const result = await this.pool.query<SRSItemRow>(
+      `SELECT
         id,
         user_id,
+        item_type,
+        item_id,
         meaning_id,
         language,
         interval,
         repetitions,
         ease_factor,
         next_review_at,
-        last_reviewed_at
+        last_reviewed_at,
+        stability,
+        difficulty
+      FROM (
+        SELECT
+          ranked.*,
+          ROW_NUMBER() OVER (
+            PARTITION BY last_reviewed_at IS NULL
+            ORDER BY overdue_ratio DESC, next_review_at ASC
+          ) as quota_rank
+        FROM (
+          SELECT
+            *,
+            EXTRACT(EPOCH FROM (current_timestamp - next_review_at)) / 86400.0
+              / GREATEST(interval, 1) as overdue_ratio
+          FROM user_srs_items
+          WHERE user_id = $1
+            AND next_review_at <= current_timestamp
+            AND suspended_at IS NULL${filters}
+        ) ranked
+      ) due
+      WHERE quota_rank <= CASE
+        WHEN last_reviewed_at IS NULL THEN $${params.length - 2}::int
+        ELSE $${params.length - 1}::int
+      END
+      ORDER BY overdue_ratio DESC, next_review_at ASC
+      LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map((row) => this.mapRowToScheduleItem(row));
+  }
+
+  /**
+   * Get today's review and new item limits and how much of them is used
+   *
+   * Limits come from user_preferences.settings (srsDailyReviewLimit and
+   * srsDailyNewLimit); usage counts distinct items in today's review history.
+   * An item is new when the review started from the initial schedule.
+   *
+   * @param userId User ID
+   * @returns Daily limits and usage
+   */
+  async getDailyQuota(userId: string): Promise<SRSDailyQuota> {
+    const result = await this.pool.query<{
+      review_limit: string | null;
+      new_limit: string | null;
+      reviews_done: string | null;
+      new_done: string | null;
+    }>(
+      `SELECT
+         up.settings->>'srsDailyReviewLimit' as review_limit,
+         up.settings->>'srsDailyNewLimit' as new_limit,
+         (
+           SELECT COUNT(DISTINCT (srh.item_type, srh.item_id))
+           FROM srs_review_history srh
+           WHERE srh.user_id = u.id
+             AND srh.reviewed_at >= date_trunc('day', current_timestamp)
+             AND NOT (srh.previous_interval = 0 AND srh.previous_repetitions = 0)
+         ) as reviews_done,
+         (
+           SELECT COUNT(DISTINCT (srh.item_type, srh.item_id))
+           FROM srs_review_history srh
+           WHERE srh.user_id = u.id
+             AND srh.reviewed_at >= date_trunc('day', current_timestamp)
+             AND srh.previous_interval = 0 AND srh.previous_repetitions = 0
+         ) as new_done
+       FROM users u
+       LEFT JOIN user_preferences up ON up.user_id = u.id
+       WHERE u.id = $1`,
+      [userId]
+    );
+
+    const row = result.rows[0];
+    const reviewLimit = this.parseLimit(row?.review_limit, SRSService.DEFAULT_DAILY_REVIEW_LIMIT);
+    const newLimit = this.parseLimit(row?.new_limit, SRSService.DEFAULT_DAILY_NEW_LIMIT);
+    const reviewsDone = parseInt(row?.reviews_done ?? '0', 10);
+    const newDone = parseInt(row?.new_done ?? '0', 10);
+
+    return {
+      reviewLimit,
+      newLimit,
+      reviewsDone,
+      newDone,
+      reviewsRemaining: Math.max(0, reviewLimit - reviewsDone),
+      newRemaining: Math.max(0, newLimit - newDone),
+    };
+  }
+
+  /**
+   * Count items due for review
+   *
+   * @param userId User ID
+   * @param language Optional language filter
+   * @param itemType Optional item type filter
+   * @returns Number of due items
+   */
+  async countDueItems(userId: string, language?: string, itemType?: SRSItemType): Promise<number> {
+    let query = `
+      SELECT COUNT(*) as count
       FROM user_srs_items
       WHERE user_id = $1
         AND next_review_at <= current_timestamp
+        AND suspended_at IS NULL
     `;
 
-    const params: (string | number)[] = [userId];
+    const params: string[] = [userId];
 
     if (language) {
-      query += ` AND language = $2`;
+      query += ` AND language = $${params.length + 1}`;
       params.push(language);
     }
 
-    query += ` ORDER BY next_review_at ASC LIMIT $${params.length + 1}`;
-    params.push(limit);
+    if (itemType) {
+      query += ` AND item_type = $${params.length + 1}`;
+      params.push(itemType);
+    }
 
-    const result = await this.pool.query<SRSItemRow>(query, params);
+    const result = await this.pool.query<{ count: string }>(query, params);
 
-    return result.rows.map((row) => this.mapRowToScheduleItem(row));
+    return parseInt(result.rows[0]?.count ?? '0', 10);
   }
 
   /**
    * Record a review and update schedule
    *
    * @param userId User ID
-   * @param itemId Item ID (meaning_id for vocabulary)
+   * @param itemId Item ID
    * @param rating Performance rating
+   * @param itemType Type of item (defaults to vocabulary)
+   * @param options Practice mode, response time and session for the review log
    * @returns Updated schedule parameters
    */
   async recordReview(
     userId: string,
     itemId: string,
-    rating: PerformanceRating
+    rating: PerformanceRating,
+    itemType: SRSItemType = 'vocabulary',
+    options: SRSReviewOptions = {}
   ): Promise<SRSUpdateResult> {
     // Get current schedule
-    const current = await this.getScheduleItem(userId, itemId);
+    const current = await this.getScheduleItem(userId, itemId, itemType);
 
     if (!current) {
       throw new NotFoundError(`SRS item not found for user ${userId} and item ${itemId}`);
     }
 
-    // Calculate new schedule
-    const update = this.calculator.calculateNext(current, rating);
-
-    // Update database
-    await this.pool.query(
-      `UPDATE user_srs_items
-       SET
-         interval = $1,
-         repetitions = $2,
-         ease_factor = $3,
-         next_review_at = $4,
-         last_reviewed_at = current_timestamp
-       WHERE user_id = $5 AND meaning_id = $6`,
-      [
-        update.newInterval,
-        update.newRepetitions,
-        update.newEaseFactor,
-        update.nextDueDate,
-        userId,
-        itemId,
-      ]
-    );
+    return this.applyReview(current, rating, options);
+  }
 
-    // Record review in history
-    await this.recordReviewHistory(userId, itemId, rating, current, update);
+  /**
+   * Record an answer from a practice mode
+   *
+   * Every practice mode reports here, so an item's due date reflects all of
+   * its exposures rather than only the mode that scheduled it. The 0-5 quality
+   * score is mapped onto a performance rating for the user's scheduler.
+   *
+   * @param userId User ID
+   * @param itemType Type of item
+   * @param itemId Item ID
+   * @param quality Quality score (0-5)
+   * @param practiceMode Practice mode that produced the answer
+   * @param sessionId Session the answer belongs to, for undo (optional)
+   * @returns Updated schedule item, or null if the item is not scheduled
+   */
+  async recordPracticeResult(
+    userId: string,
+    itemType: SRSItemType,
+    itemId: string,
+    quality: number,
+    practiceMode: SRSPracticeMode,
+    sessionId?: string
+  ): Promise<SRSScheduleItem | null> {
+    const current = await this.getScheduleItem(userId, itemId, itemType);
 
-    return update;
+    if (!current) {
+      return null;
+    }
+
+    const rating = this.sm2.qualityToRating(quality);
+    const update = await this.applyReview(current, rating, { practiceMode, sessionId });
+
+    return {
+      ...current,
+      dueDate: update.nextDueDate,
+      interval: update.newInterval,
+      repetitions: update.newRepetitions,
+      easeFactor: update.newEaseFactor,
+      lastReviewedAt: new Date(),
+      stability: update.newStability ?? current.stability,
+      difficulty: update.newDifficulty ?? current.difficulty,
+    };
   }
 
   /**
    * Get schedule item for a specific user and item
    *
    * @param userId User ID
-   * @param itemId Item ID (meaning_id for vocabulary)
+   * @param itemId Item ID
+   * @param itemType Type of item (defaults to vocabulary)
    * @returns Schedule item or null if not found
    */
-  async getScheduleItem(userId: string, itemId: string): Promise<SRSScheduleItem | null> {
+  async getScheduleItem(
+    userId: string,
+    itemId: string,
+    itemType: SRSItemType = 'vocabulary'
+  ): Promise<SRSScheduleItem | null> {
     const result = await this.pool.query<SRSItemRow>(
       `SELECT
         id,
         user_id,
+        item_type,
+        item_id,
         meaning_id,
         language,
         interval,
         repetitions,
         ease_factor,
         next_review_at,
-        last_reviewed_at
+        last_reviewed_at,
+        stability,
+        difficulty
       FROM user_srs_items
-      WHERE user_id = $1 AND meaning_id = $2`,
-      [userId, itemId]
+      WHERE user_id = $1 AND item_type = $2 AND item_id = $3`,
+      [userId, itemType, itemId]
     );
 
     if (result.rows.length === 0) {
@@ -233,31 +544,36 @@ export class SRSService implements ISRSService {
    * Bulk add items to SRS schedule
    *
    * @param userId User ID
-   * @param items Array of items to add
+   * @param items Array of items to add (item type defaults to vocabulary)
    * @returns Number of items added
    */
   async bulkAddToSchedule(
     userId: string,
-    items: Array<{ itemId: string; language: string }>
+    items: Array<{ itemId: string; language: string; itemType?: SRSItemType }>
   ): Promise<number> {
     if (items.length === 0) {
       return 0;
     }
 
-    const initial = this.calculator.getInitialSchedule();
+    const initial = this.schedulers[DEFAULT_SCHEDULER_TYPE].getInitialSchedule();
 
     // Build VALUES clause
-    const values: (string | number | Date)[] = [];
+    const values: (string | number | Date | null)[] = [];
     const placeholders: string[] = [];
+    const columnCount = 10;
 
     items.forEach((item, idx) => {
-      const base = idx * 7;
+      const itemType = item.itemType ?? 'vocabulary';
+      const base = idx * columnCount;
       placeholders.push(
-        `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7})`
+        `(${Array.from({ length: columnCount }, (_, i) => `$${base + i + 1}`).join(', ')})`
       );
       values.push(
         userId,
+        itemType,
         item.itemId,
+        itemType === 'vocabulary' ? item.itemId : null,
+        itemType === 'reading' ? item.itemId : null,
         item.language,
         initial.newInterval,
         initial.newRepetitions,
@@ -269,7 +585,10 @@ export class SRSService implements ISRSService {
     const result = await this.pool.query(
       `INSERT INTO user_srs_items (
         user_id,
+        item_type,
+        item_id,
         meaning_id,
+        reading_passage_id,
         language,
         interval,
         repetitions,
@@ -277,7 +596,7 @@ export class SRSService implements ISRSService {
         next_review_at
       )
       VALUES ${placeholders.join(', ')}
-      ON CONFLICT (user_id, meaning_id) DO NOTHING`,
+      ON CONFLICT (user_id, item_type, item_id) DO NOTHING`,
       values
     );
 
@@ -299,7 +618,7 @@ export class SRSService implements ISRSService {
     let query = `
       SELECT
         COUNT(*) as total_items,
-        COUNT(*) FILTER (WHERE next_review_at <= current_timestamp) as due_now,
+        COUNT(*) FILTER (WHERE next_review_at <= current_timestamp AND suspended_at IS NULL) as due_now,
         COUNT(*) FILTER (WHERE repetitions >= 3) as learned,
         AVG(ease_factor) as avg_ease_factor
       FROM user_srs_items
@@ -330,50 +649,268 @@ export class SRSService implements ISRSService {
     };
   }
 
+  /**
+   * Calculate and persist a review of a scheduled item
+   */
+  private async applyReview(
+    current: SRSScheduleItem,
+    rating: PerformanceRating,
+    options: SRSReviewOptions
+  ): Promise<SRSUpdateResult> {
+    // Calculate new schedule with the user's scheduler
+    const schedulerConfig = await this.getSchedulerConfig(current.userId);
+    const update = await this.balanceDueDate(
+      current,
+      this.calculateReviewUpdate(current, rating, schedulerConfig)
+    );
+
+    // Forgetting an item that had been learned is a lapse
+    const isLapse = rating === 'again' && current.repetitions > 0;
+
+    // The review, its history, the leech it may cause and the log entry that
+    // undoes all of them are written together
+    const client = await this.pool.connect();
+
+    try {
+      await withTransaction(client, async (txClient) => {
+        const leechResult = await txClient.query<LeechStateRow>(
+          `SELECT lapses, leech_at, suspended_at, leech_remediation, leech_pattern_id
+           FROM user_srs_items
+           WHERE id = $1 AND user_id = $2
+           FOR UPDATE`,
+          [current.id, current.userId]
+        );
+        const leechBefore = this.mapRowToLeechSnapshot(leechResult.rows[0]);
+
+        const updateResult = await txClient.query<{ lapses: number }>(
+          `UPDATE user_srs_items
+           SET
+             interval = $1,
+             repetitions = $2,
+             ease_factor = $3,
+             next_review_at = $4,
+             stability = $5,
+             difficulty = $6,
+             lapses = lapses + $9,
+             last_reviewed_at = current_timestamp
+           WHERE id = $7 AND user_id = $8
+           RETURNING lapses`,
+          [
+            update.newInterval,
+            update.newRepetitions,
+            update.newEaseFactor,
+            update.nextDueDate,
+            update.newStability ?? null,
+            update.newDifficulty ?? null,
+            current.id,
+            current.userId,
+            isLapse ? 1 : 0,
+          ]
+        );
+        const lapses = updateResult.rows[0].lapses;
+
+        // Record review in history
+        const historyId = await this.recordReviewHistory(
+          txClient,
+          rating,
+          current,
+          update,
+          options
+        );
+
+        // Relearning resets the word, so keep its progress for undo
+        const wordState =
+          isLapse && current.itemType === 'vocabulary'
+            ? await this.getRelearnWordState(txClient, current)
+            : null;
+        const leech = isLapse ? await this.leeches.handleLapse(current, lapses, txClient) : null;
+
+        const leechAfter: SRSLeechSnapshot = leech
+          ? {
+              lapses,
+              leechAt: leech.leechAt.toISOString(),
+              suspendedAt: leech.leechAt.toISOString(),
+              leechRemediation: leech.remediation,
+              leechPatternId: leech.interferencePatternId,
+            }
+          : { ...leechBefore, lapses };
+
+        // Keep the previous state so the review can be undone
+        await this.reviewLog.append(
+          {
+            userId: current.userId,
+            sessionId: options.sessionId ?? null,
+            source: 'srs_item',
+            itemType: current.itemType,
+            itemId: current.itemId,
+            practiceMode: options.practiceMode ?? 'review',
+            rating,
+            responseTimeMs: options.responseTimeMs ?? null,
+            wasCorrect: options.wasCorrect ?? null,
+            stateBefore: {
+              ...ReviewLogService.snapshotScheduleItem(current, leechBefore),
+              ...(leech?.remediation === 'relearn' && wordState ? { wordState } : {}),
+            },
+            stateAfter: ReviewLogService.snapshotUpdate(current, update, new Date(), leechAfter),
+            historyId,
+          },
+          txClient
+        );
+      });
+    } finally {
+      client.release();
+    }
+
+    return update;
+  }
+
+  /**
+   * Move a new due date to the least busy day in its fuzz window
+   */
+  private async balanceDueDate(
+    current: SRSScheduleItem,
+    update: SRSUpdateResult
+  ): Promise<SRSUpdateResult> {
+    const range = this.loadBalancer.getFuzzRange(update.newInterval);
+
+    if (!range) {
+      return update;
+    }
+
+    const result = await this.pool.query<{ day_offset: number; count: string }>(
+      `SELECT
+         next_review_at::date - current_date as day_offset,
+         COUNT(*) as count
+       FROM user_srs_items
+       WHERE user_id = $1
+         AND id <> $2
+         AND suspended_at IS NULL
+         AND next_review_at >= current_date + $3::int
+         AND next_review_at < current_date + $4::int + 1
+       GROUP BY day_offset`,
+      [current.userId, current.id, range.min, range.max]
+    );
+
+    const dueCounts = new Map<number, number>(
+      result.rows.map((row) => [Number(row.day_offset), parseInt(row.count, 10)])
+    );
+
+    return this.loadBalancer.balance(update, dueCounts);
+  }
+
   /**
    * Record review in history table for analytics
+   *
+   * @returns ID of the history row, so undoing the review can remove it
    */
   private async recordReviewHistory(
-    userId: string,
-    itemId: string,
+    client: PoolClient,
     rating: PerformanceRating,
     previousSchedule: SRSScheduleItem,
-    newUpdate: SRSUpdateResult
-  ): Promise<void> {
-    try {
-      await this.pool.query(
-        `INSERT INTO srs_review_history (
-          user_id,
-          item_id,
-          item_type,
-          language,
-          rating,
-          previous_interval,
-          new_interval,
-          previous_ease_factor,
-          new_ease_factor,
-          previous_repetitions,
-          new_repetitions
-        )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
-        [
-          userId,
-          itemId,
-          previousSchedule.itemType,
-          previousSchedule.language,
-          rating,
-          previousSchedule.interval,
-          newUpdate.newInterval,
-          previousSchedule.easeFactor,
-          newUpdate.newEaseFactor,
-          previousSchedule.repetitions,
-          newUpdate.newRepetitions,
-        ]
-      );
-    } catch {
-      // Silently fail if history table doesn't exist yet
-      // This allows the service to work before migration is applied
+    newUpdate: SRSUpdateResult,
+    options: SRSReviewOptions
+  ): Promise<string> {
+    const result = await client.query<{ id: string }>(
+      `INSERT INTO srs_review_history (
+        user_id,
+        item_id,
+        item_type,
+        language,
+        rating,
+        previous_interval,
+        new_interval,
+        previous_ease_factor,
+        new_ease_factor,
+        previous_repetitions,
+        new_repetitions,
+        practice_mode,
+        response_time_ms
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      RETURNING id`,
+      [
+        previousSchedule.userId,
+        previousSchedule.itemId,
+        previousSchedule.itemType,
+        previousSchedule.language,
+        rating,
+        previousSchedule.interval,
+        newUpdate.newInterval,
+        previousSchedule.easeFactor,
+        newUpdate.newEaseFactor,
+        previousSchedule.repetitions,
+        newUpdate.newRepetitions,
+        options.practiceMode ?? 'review',
+        options.responseTimeMs ?? null,
+      ]
+    );
+
+    return result.rows[0].id;
+  }
+
+  /**
+   * Word state the relearn flow would reset, locked until the review commits
+   */
+  private async getRelearnWordState(
+    client: PoolClient,
+    item: SRSScheduleItem
+  ): Promise<RelearnWordStateSnapshot | null> {
+    const result = await client.query<RelearnWordStateRow>(
+      `SELECT state, first_seen_at, marked_known_at, successful_reviews
+       FROM user_word_state
+       WHERE user_id = $1 AND meaning_id = $2
+       FOR UPDATE`,
+      [item.userId, item.itemId]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
     }
+
+    return {
+      state: row.state,
+      firstSeenAt: row.first_seen_at ? row.first_seen_at.toISOString() : null,
+      markedKnownAt: row.marked_known_at ? row.marked_known_at.toISOString() : null,
+      successfulReviews: row.successful_reviews,
+    };
+  }
+
+  private getScheduler(
+    schedulerType: SRSSchedulerType,
+    fsrsWeights: readonly number[] | null
+  ): SRSScheduler {
+    if (schedulerType === 'fsrs' && fsrsWeights) {
+      return new FSRSCalculator(fsrsWeights);
+    }
+    return this.schedulers[schedulerType];
+  }
+
+  private parseLimit(value: string | null | undefined, fallback: number): number {
+    const limit = value === null || value === undefined ? NaN : Number(value);
+    return Number.isInteger(limit) && limit >= 0 ? limit : fallback;
+  }
+
+  private parseWeights(value: unknown): readonly number[] | null {
+    const isValid =
+      Array.isArray(value) &&
+      value.length === FSRSCalculator.DEFAULT_WEIGHTS.length &&
+      value.every((w) => typeof w === 'number' && Number.isFinite(w));
+
+    return isValid ? (value as number[]) : null;
+  }
+
+  /**
+   * Map lapse and leech columns to a review log snapshot
+   */
+  private mapRowToLeechSnapshot(row: LeechStateRow): SRSLeechSnapshot {
+    return {
+      lapses: row.lapses,
+      leechAt: row.leech_at ? row.leech_at.toISOString() : null,
+      suspendedAt: row.suspended_at ? row.suspended_at.toISOString() : null,
+      leechRemediation: row.leech_remediation,
+      leechPatternId: row.leech_pattern_id,
+    };
   }
 
   /**
@@ -383,14 +920,17 @@ export class SRSService implements ISRSService {
     return {
       id: row.id,
       userId: row.user_id,
-      itemType: 'vocabulary', // Currently only vocabulary is supported
-      itemId: row.meaning_id,
+      // Rows created before item_type/item_id existed are vocabulary keyed by meaning_id
+      itemType: row.item_type ?? 'vocabulary',
+      itemId: row.item_id ?? row.meaning_id ?? '',
       language: row.language,
       dueDate: row.next_review_at,
       interval: row.interval,
       repetitions: row.repetitions,
       easeFactor: row.ease_factor,
       lastReviewedAt: row.last_reviewed_at,
+      stability: row.stability ? Number(row.stability) : null,
+      difficulty: row.difficulty ? Number(row.difficulty) : null,
     };
   }
 }
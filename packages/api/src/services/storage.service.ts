@@ -7,6 +7,7 @@ export interface StorageConfig {
   localPath?: string;
   s3Bucket?: string;
   s3Region?: string;
+  keyPrefix?: string; // S3 key prefix, defaults to "documents"
 }
 
 export interface UploadResult {
@@ -25,7 +26,7 @@ export class StorageService {
     const uniqueFilename = `${randomUUID()}-${filename}`;
 
     if (this.config.type === 's3' && this.config.s3Bucket) {
-      const key = `documents/${uniqueFilename}`;
+      const key = `${this.config.keyPrefix ?? 'documents'}/${uniqueFilename}`;
 
       return {
         storagePath: key,
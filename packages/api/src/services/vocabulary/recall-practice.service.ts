@@ -1,4 +1,6 @@
 import { Pool } from 'pg';
+import { SRSService } from '../srs/srs.service';
+import { applyHintPenalty } from '../hints';
 
 /**
  * Quality rating for SM-2 algorithm (0-5 scale)
@@ -50,14 +52,16 @@ class NotFoundError extends Error {
 }
 
 /**
- * RecallPracticeService implements SM-2 spaced repetition algorithm
- * for vocabulary recall practice.
+ * RecallPracticeService provides vocabulary recall practice.
+ * Scheduling is delegated to SRSService so recall shares review state
+ * with every other practice mode.
  */
 export class RecallPracticeService {
-  private readonly MIN_EASE_FACTOR = 1.3;
-  private readonly INITIAL_EASE_FACTOR = 2.5;
+  private readonly srsService: SRSService;
 
-  constructor(private readonly pool: Pool) {}
+  constructor(private readonly pool: Pool) {
+    this.srsService = new SRSService(pool);
+  }
 
   /**
    * Get words due for review
@@ -97,6 +101,7 @@ export class RecallPracticeService {
          WHERE usi.user_id = $1
            AND usi.language = $2
            AND usi.next_review_at <= current_timestamp
+           AND usi.suspended_at IS NULL
          ORDER BY usi.meaning_id, usi.next_review_at ASC
        ) AS distinct_words
        WHERE word_text IS NOT NULL
@@ -142,76 +147,48 @@ export class RecallPracticeService {
       return 0;
     }
 
-    // Bulk insert new SRS items
-    const values = result.rows
-      .map((_, idx) => {
-        const baseIdx = idx * 3;
-        return `($${baseIdx + 1}, $${baseIdx + 2}, $${baseIdx + 3}, 0, 0, ${this.INITIAL_EASE_FACTOR}, current_timestamp)`;
-      })
-      .join(', ');
-
-    const params: string[] = [];
-    result.rows.forEach((row) => {
-      params.push(userId, row.meaning_id, language);
-    });
-
-    const insertResult = await this.pool.query(
-      `INSERT INTO user_srs_items
-       (user_id, meaning_id, language, interval, repetitions, ease_factor, next_review_at)
-       VALUES ${values}
-       ON CONFLICT (user_id, meaning_id) DO NOTHING
-       RETURNING id`,
-      params
+    return this.srsService.bulkAddToSchedule(
+      userId,
+      result.rows.map((row) => ({ itemId: row.meaning_id, language }))
     );
-
-    return insertResult.rowCount || 0;
   }
 
   /**
-   * Submit review results and update SRS scheduling using SM-2 algorithm
+   * Submit review results and update the shared SRS schedule
+   *
+   * @param hintsUsed Rungs of the hint ladder used before answering
    */
-  async submitReview(userId: string, meaningId: string, quality: QualityRating): Promise<SRSItem> {
-    // Get current SRS item
-    const currentResult = await this.pool.query<Record<string, unknown>>(
-      `SELECT * FROM user_srs_items
-       WHERE user_id = $1 AND meaning_id = $2`,
-      [userId, meaningId]
+  async submitReview(
+    userId: string,
+    meaningId: string,
+    quality: QualityRating,
+    sessionId?: string,
+    hintsUsed: number = 0
+  ): Promise<SRSItem> {
+    const item = await this.srsService.recordPracticeResult(
+      userId,
+      'vocabulary',
+      meaningId,
+      applyHintPenalty(quality, hintsUsed),
+      'recall',
+      sessionId
     );
 
-    if (currentResult.rows.length === 0) {
+    if (!item) {
       throw new NotFoundError('SRS item not found');
     }
 
-    const current = currentResult.rows[0];
-    const currentEaseFactor = current.ease_factor as number;
-    const currentRepetitions = current.repetitions as number;
-    const currentInterval = current.interval as number;
-
-    // Apply SM-2 algorithm
-    const { easeFactor, repetitions, interval } = this.calculateSM2(
-      quality,
-      currentEaseFactor,
-      currentRepetitions,
-      currentInterval
-    );
-
-    // Calculate next review date
-    const nextReviewAt = this.calculateNextReviewDate(interval);
-
-    // Update SRS item
-    const updateResult = await this.pool.query<Record<string, unknown>>(
-      `UPDATE user_srs_items
-       SET ease_factor = $1,
-           repetitions = $2,
-           interval = $3,
-           next_review_at = $4,
-           last_reviewed_at = current_timestamp
-       WHERE user_id = $5 AND meaning_id = $6
-       RETURNING *`,
-      [easeFactor, repetitions, interval, nextReviewAt, userId, meaningId]
-    );
-
-    return this.mapRowToSRSItem(updateResult.rows[0]);
+    return {
+      id: item.id,
+      userId: item.userId,
+      meaningId: item.itemId,
+      language: item.language,
+      interval: item.interval,
+      repetitions: item.repetitions,
+      easeFactor: item.easeFactor,
+      nextReviewAt: item.dueDate.toISOString(),
+      lastReviewedAt: item.lastReviewedAt?.toISOString() ?? null,
+    };
   }
 
   /**
@@ -245,75 +222,4 @@ export class RecallPracticeService {
       learned: parseInt(row.learned, 10),
     };
   }
-
-  /**
-   * SM-2 algorithm implementation
-   * Based on SuperMemo 2 algorithm
-   */
-  private calculateSM2(
-    quality: QualityRating,
-    easeFactor: number,
-    repetitions: number,
-    interval: number
-  ): { easeFactor: number; repetitions: number; interval: number } {
-    // Update ease factor based on quality
-    let newEaseFactor = easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
-
-    // Ensure ease factor doesn't go below minimum
-    if (newEaseFactor < this.MIN_EASE_FACTOR) {
-      newEaseFactor = this.MIN_EASE_FACTOR;
-    }
-
-    let newRepetitions: number;
-    let newInterval: number;
-
-    // If quality < 3, reset repetitions and interval
-    if (quality < 3) {
-      newRepetitions = 0;
-      newInterval = 1; // Review again in 1 day
-    } else {
-      newRepetitions = repetitions + 1;
-
-      // Calculate new interval based on repetition number
-      if (newRepetitions === 1) {
-        newInterval = 1; // First successful review: 1 day
-      } else if (newRepetitions === 2) {
-        newInterval = 6; // Second successful review: 6 days
-      } else {
-        newInterval = Math.round(interval * newEaseFactor);
-      }
-    }
-
-    return {
-      easeFactor: newEaseFactor,
-      repetitions: newRepetitions,
-      interval: newInterval,
-    };
-  }
-
-  /**
-   * Calculate next review date based on interval (in days)
-   */
-  private calculateNextReviewDate(intervalDays: number): Date {
-    const now = new Date();
-    now.setDate(now.getDate() + intervalDays);
-    return now;
-  }
-
-  /**
-   * Map database row to SRSItem
-   */
-  private mapRowToSRSItem(row: Record<string, unknown>): SRSItem {
-    return {
-      id: row.id as string,
-      userId: row.user_id as string,
-      meaningId: row.meaning_id as string,
-      language: row.language as string,
-      interval: row.interval as number,
-      repetitions: row.repetitions as number,
-      easeFactor: row.ease_factor as number,
-      nextReviewAt: (row.next_review_at as Date).toISOString(),
-      lastReviewedAt: (row.last_reviewed_at as Date | null)?.toISOString() ?? null,
-    };
-  }
 }
@@ -1,4 +1,5 @@
 import { Pool } from 'pg';
+import { LeechService } from '../srs/leech.service';
 
 class NotFoundError extends Error {
   statusCode: number;
@@ -26,7 +27,11 @@ const LEVEL_ORDER = ['A0', 'A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
 const DEFAULT_BATCH_SIZE = 10;
 
 export class VocabularySequencingService {
-  constructor(private readonly pool: Pool) {}
+  private readonly leeches: LeechService;
+
+  constructor(private readonly pool: Pool) {
+    this.leeches = new LeechService(pool);
+  }
 
   /**
    * Get next batch of vocabulary for introduction
@@ -95,6 +100,8 @@ export class VocabularySequencingService {
 
   /**
    * Mark vocabulary as introduced (creates or updates word state with first_seen_at)
+   *
+   * Leeches sent back for relearning return to reviews once re-introduced.
    */
   async markVocabularyIntroduced(
     userId: string,
@@ -135,6 +142,8 @@ export class VocabularySequencingService {
       params
     );
 
+    await this.leeches.releaseRelearned(userId, meaningIds);
+
     return { markedCount: result.rowCount || 0 };
   }
 
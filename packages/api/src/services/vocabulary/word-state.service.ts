@@ -1,4 +1,6 @@
 import { Pool } from 'pg';
+import { ReviewLogService } from '../srs/review-log.service';
+import { WordStateSnapshot } from '../srs/srs.interface';
 
 class NotFoundError extends Error {
   statusCode: number;
@@ -26,7 +28,11 @@ export interface WordStateInfo {
 const KNOWN_THRESHOLD = 5; // Number of successful reviews to mark as "known"
 
 export class WordStateService {
-  constructor(private readonly pool: Pool) {}
+  private readonly reviewLog: ReviewLogService;
+
+  constructor(private readonly pool: Pool) {
+    this.reviewLog = new ReviewLogService(pool);
+  }
 
   /**
    * Get word state for a user
@@ -106,11 +112,14 @@ export class WordStateService {
 
   /**
    * Record a review result and update state if necessary
+   *
+   * The change is appended to the review log so it can be undone.
    */
   async recordReview(
     userId: string,
     meaningId: string,
-    wasSuccessful: boolean
+    wasSuccessful: boolean,
+    sessionId?: string
   ): Promise<WordStateInfo> {
     // Mark as encountered if first time
     await this.markAsEncountered(userId, meaningId);
@@ -149,7 +158,22 @@ export class WordStateService {
       [newSuccessfulReviews, newTotalReviews, newState, userId, meaningId]
     );
 
-    return this.mapRowToWordState(result.rows[0]);
+    const updatedState = this.mapRowToWordState(result.rows[0]);
+
+    await this.reviewLog.append({
+      userId,
+      sessionId: sessionId ?? null,
+      source: 'word_state',
+      itemType: 'vocabulary',
+      itemId: meaningId,
+      practiceMode: 'review',
+      rating: wasSuccessful ? 'good' : 'again',
+      responseTimeMs: null,
+      stateBefore: this.toSnapshot(currentState),
+      stateAfter: this.toSnapshot(updatedState),
+    });
+
+    return updatedState;
   }
 
   /**
@@ -316,6 +340,16 @@ export class WordStateService {
     return result.rowCount || 0;
   }
 
+  private toSnapshot(info: WordStateInfo): WordStateSnapshot {
+    return {
+      state: info.state,
+      successfulReviews: info.successfulReviews,
+      totalReviews: info.totalReviews,
+      markedKnownAt: info.markedKnownAt,
+      lastReviewedAt: info.lastReviewedAt,
+    };
+  }
+
   private mapRowToWordState(row: Record<string, unknown>): WordStateInfo {
     return {
       meaningId: row.meaning_id as string,
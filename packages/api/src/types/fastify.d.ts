@@ -1,14 +1,22 @@
 import 'fastify';
 import { Pool } from 'pg';
+import { Permission } from '../services/access';
+import { Mailer } from '../services/mail';
 
 declare module 'fastify' {
   interface FastifyInstance {
     db: Pool;
 
+    mailer: Mailer;
+
     requireAuth: () => (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
 
     requireOperator: () => (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
 
+    requirePermission: (
+      permission: Permission
+    ) => (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+
     requireLearner: () => (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
   }
 
@@ -0,0 +1,83 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { getEnv } from '../config/env';
+
+export const REFRESH_COOKIE_NAME = 'polyladder_refresh';
+
+/**
+ * The refresh cookie is only sent to the auth routes
+ */
+const REFRESH_COOKIE_PATH = '/api/v1/auth';
+
+export interface CookieOptions {
+  maxAgeSeconds: number;
+  path: string;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: 'strict' | 'lax' | 'none';
+}
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) {
+    return cookies;
+  }
+
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) continue;
+
+    const name = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+}
+
+export function serializeCookie(name: string, value: string, options: CookieOptions): string {
+  const sameSite = options.sameSite.charAt(0).toUpperCase() + options.sameSite.slice(1);
+  return [
+    `${name}=${encodeURIComponent(value)}`,
+    `Max-Age=${options.maxAgeSeconds}`,
+    `Path=${options.path}`,
+    `SameSite=${sameSite}`,
+    ...(options.httpOnly ? ['HttpOnly'] : []),
+    ...(options.secure ? ['Secure'] : []),
+  ].join('; ');
+}
+
+function refreshCookieOptions(maxAgeSeconds: number): CookieOptions {
+  const env = getEnv();
+  return {
+    maxAgeSeconds,
+    path: REFRESH_COOKIE_PATH,
+    httpOnly: true,
+    secure: env.NODE_ENV === 'production' || env.AUTH_COOKIE_SAME_SITE === 'none',
+    sameSite: env.AUTH_COOKIE_SAME_SITE,
+  };
+}
+
+export function setRefreshCookie(reply: FastifyReply, refreshToken: string, expiresAt: Date): void {
+  const maxAgeSeconds = Math.max(0, Math.floor((expiresAt.getTime() - Date.now()) / 1000));
+  void reply.header(
+    'set-cookie',
+    serializeCookie(REFRESH_COOKIE_NAME, refreshToken, refreshCookieOptions(maxAgeSeconds))
+  );
+}
+
+export function clearRefreshCookie(reply: FastifyReply): void {
+  void reply.header(
+    'set-cookie',
+    serializeCookie(REFRESH_COOKIE_NAME, '', refreshCookieOptions(0))
+  );
+}
+
+/**
+ * Refresh token from the request body (API clients) or the cookie (browsers)
+ */
+export function readRefreshToken(request: FastifyRequest, bodyToken?: string): string | null {
+  return bodyToken ?? parseCookies(request.headers.cookie)[REFRESH_COOKIE_NAME] ?? null;
+}
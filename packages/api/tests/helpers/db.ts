@@ -8,6 +8,7 @@ export interface TestUser {
   password: string;
   role: 'learner' | 'operator';
   baseLanguage?: string;
+  emailVerified?: boolean;
 }
 
 export async function createTestUser(
@@ -19,16 +20,23 @@ export async function createTestUser(
   const password = overrides.password ?? 'TestPassword123!';
   const role = overrides.role ?? 'learner';
   const baseLanguage = overrides.baseLanguage ?? 'EN';
+  const emailVerified = overrides.emailVerified ?? true;
 
   const passwordHash = await bcrypt.hash(password, 10);
 
   await pool.query(
-    `INSERT INTO users (id, email, password_hash, role, base_language, created_at, updated_at)
-     VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
-    [id, email, passwordHash, role, baseLanguage]
+    `INSERT INTO users
+       (id, email, password_hash, role, base_language, email_verified_at, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+    [id, email, passwordHash, role, baseLanguage, emailVerified ? new Date() : null]
   );
 
-  return { id, email, password, role, baseLanguage };
+  // Test operators hold every permission
+  if (role === 'operator') {
+    await pool.query(`INSERT INTO operator_roles (user_id, role) VALUES ($1, 'admin')`, [id]);
+  }
+
+  return { id, email, password, role, baseLanguage, emailVerified };
 }
 
 export async function createTestOperator(
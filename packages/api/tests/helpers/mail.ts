@@ -0,0 +1,62 @@
+import { readFile, rm } from 'fs/promises';
+import { RecordedMail } from '../../src/services/mail';
+
+function mailFilePath(): string {
+  const filePath = process.env.MAILER_FILE_PATH;
+  if (!filePath) {
+    throw new Error('MAILER_FILE_PATH is not set. Call setupTestEnv() first.');
+  }
+  return filePath;
+}
+
+/**
+ * Mails recorded by the file mailer, optionally only those to one address
+ */
+export async function readSentMail(to?: string): Promise<RecordedMail[]> {
+  let content: string;
+  try {
+    content = await readFile(mailFilePath(), 'utf8');
+  } catch {
+    return [];
+  }
+
+  return content
+    .split('\n')
+    .filter((line) => line.length > 0)
+    .map((line) => JSON.parse(line) as RecordedMail)
+    .filter((mail) => to === undefined || mail.to === to);
+}
+
+/**
+ * Mails to an address once at least `count` are recorded; some routes
+ * reply before their mail is sent
+ */
+export async function waitForMail(
+  to: string,
+  count: number = 1,
+  timeoutMs: number = 2000
+): Promise<RecordedMail[]> {
+  const deadline = Date.now() + timeoutMs;
+  let mails = await readSentMail(to);
+
+  while (mails.length < count && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    mails = await readSentMail(to);
+  }
+  return mails;
+}
+
+export async function clearSentMail(): Promise<void> {
+  await rm(mailFilePath(), { force: true });
+}
+
+/**
+ * Token of the link in a mail, e.g. "/reset-password?token=..."
+ */
+export function tokenFromMail(mail: RecordedMail): string {
+  const match = mail.text.match(/[?&]token=([\w-]+)/);
+  if (!match) {
+    throw new Error(`No token link in mail "${mail.subject}"`);
+  }
+  return match[1];
+}
@@ -0,0 +1,41 @@
+import { vi } from 'vitest';
+import { QueryResult } from 'pg';
+
+/**
+ * Answer a statement SRSService issues while recording a review
+ *
+ * For tests of services built on the shared schedule: the item has no
+ * lapses and is no leech, the history insert returns its row ID and
+ * everything else returns no rows.
+ */
+export function answerSrsReview(sql: string): Promise<QueryResult> {
+  let rows: unknown[] = [];
+
+  if (sql.includes('SELECT lapses')) {
+    rows = [
+      {
+        lapses: 0,
+        leech_at: null,
+        suspended_at: null,
+        leech_remediation: null,
+        leech_pattern_id: null,
+      },
+    ];
+  } else if (sql.includes('RETURNING lapses')) {
+    rows = [{ lapses: 0 }];
+  } else if (sql.includes('INSERT INTO srs_review_history')) {
+    rows = [{ id: 'history-1' }];
+  }
+
+  return Promise.resolve({ rows, rowCount: rows.length } as unknown as QueryResult);
+}
+
+/**
+ * Transaction client a review is written with
+ */
+export function srsReviewClient() {
+  return {
+    query: vi.fn<(sql: string, params?: unknown[]) => Promise<QueryResult>>(answerSrsReview),
+    release: vi.fn(),
+  };
+}
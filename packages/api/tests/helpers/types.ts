@@ -6,7 +6,6 @@ export interface RegisterResponse {
 
 export interface LoginResponse {
   accessToken: string;
-  refreshToken: string;
   user: {
     id: string;
     email: string;
@@ -14,15 +13,49 @@ export interface LoginResponse {
   };
 }
 
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number;
+}
+
+export interface TwoFactorStatusResponse {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollmentResponse {
+  secret: string;
+  provisioningUri: string;
+}
+
+export interface RecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
 export interface UserProfileResponse {
   id: string;
   email: string;
   role: 'learner' | 'operator';
   createdAt: string;
+  emailVerified: boolean;
 }
 
 export interface RefreshResponse {
   accessToken: string;
+  expiresIn: number;
+}
+
+export interface SessionsResponse {
+  sessions: Array<{
+    id: string;
+    userAgent: string | null;
+    ipAddress: string | null;
+    createdAt: string;
+    lastUsedAt: string;
+    current: boolean;
+  }>;
 }
 
 export interface SuccessResponse {
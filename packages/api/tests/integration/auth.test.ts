@@ -9,7 +9,8 @@ import {
   closeTestPool,
   setupTestEnv,
 } from '../setup';
-import { createTestUser } from '../helpers/db';
+import { createTestOperator, createTestUser } from '../helpers/db';
+import { clearSentMail, readSentMail, tokenFromMail, waitForMail } from '../helpers/mail';
 import {
   RegisterResponse,
   LoginResponse,
@@ -17,7 +18,26 @@ import {
   RefreshResponse,
   SuccessResponse,
   ErrorResponse,
+  SessionsResponse,
+  TwoFactorChallengeResponse,
+  TwoFactorStatusResponse,
+  TwoFactorEnrollmentResponse,
+  RecoveryCodesResponse,
 } from '../helpers/types';
+import { base32Decode, hotp, totpStep } from '../../src/services/auth/totp';
+import { AccountPurgeService } from '../../src/services/account';
+import { readZip } from '../helpers/zip';
+
+/**
+ * Refresh tokens are only handed out in the httpOnly cookie
+ */
+function refreshCookie(response: { cookies: Array<{ name: string; value: string }> }): string {
+  const cookie = response.cookies.find((c) => c.name === 'polyladder_refresh');
+  if (!cookie) {
+    throw new Error('Response did not set the refresh cookie');
+  }
+  return cookie.value;
+}
 
 describe('Auth Integration Tests', () => {
   let server: FastifyInstance;
@@ -36,6 +56,7 @@ describe('Auth Integration Tests', () => {
 
   beforeEach(async () => {
     await cleanupTestData();
+    await clearSentMail();
   });
 
   describe('POST /api/v1/auth/register', () => {
@@ -57,7 +78,7 @@ describe('Auth Integration Tests', () => {
       expect(body.role).toBe('learner');
     });
 
-    it('should register an operator when role specified', async () => {
+    it('should reject self-registration as operator', async () => {
       const uniqueEmail = `test-operator-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
       const response = await server.inject({
         method: 'POST',
@@ -69,9 +90,9 @@ describe('Auth Integration Tests', () => {
         },
       });
 
-      expect(response.statusCode).toBe(201);
-      const body = response.json<RegisterResponse>();
-      expect(body.role).toBe('operator');
+      expect(response.statusCode).toBe(403);
+      const body = response.json<ErrorResponse>();
+      expect(body.error.code).toBe('INVITATION_REQUIRED');
     });
 
     it.skip('should reject duplicate email - requires base_language in createTestUser', async () => {
@@ -138,7 +159,8 @@ describe('Auth Integration Tests', () => {
       expect(response.statusCode).toBe(200);
       const body = response.json<LoginResponse>();
       expect(body.accessToken).toBeDefined();
-      expect(body.refreshToken).toBeDefined();
+      expect(body).not.toHaveProperty('refreshToken');
+      expect(refreshCookie(response)).toBeDefined();
       expect(body.user.email).toBe(user.email);
       expect(body.user.role).toBe('learner');
     });
@@ -256,7 +278,7 @@ describe('Auth Integration Tests', () => {
         throw new Error(`Login failed: ${loginResponse.statusCode} - ${loginResponse.body}`);
       }
 
-      const { refreshToken } = loginResponse.json<LoginResponse>();
+      const refreshToken = refreshCookie(loginResponse);
 
       const tokenCheck = await pool.query('SELECT user_id FROM refresh_tokens WHERE token = $1', [
         refreshToken,
@@ -276,7 +298,7 @@ describe('Auth Integration Tests', () => {
             `Retry login failed: ${retryLoginResponse.statusCode} - ${retryLoginResponse.body}`
           );
         }
-        const newRefreshToken = retryLoginResponse.json<LoginResponse>().refreshToken;
+        const newRefreshToken = refreshCookie(retryLoginResponse);
         const response = await server.inject({
           method: 'POST',
           url: '/api/v1/auth/refresh',
@@ -299,6 +321,83 @@ describe('Auth Integration Tests', () => {
       expect(body.accessToken).toBeDefined();
     });
 
+    it('should rotate the refresh token and revoke the session when an old one is reused', async () => {
+      const user = await createTestUser(pool, {
+        email: `test-rotate-${Date.now()}@example.com`,
+        password: 'SecurePassword123!',
+      });
+      const loginResponse = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login',
+        payload: { email: user.email, password: user.password },
+      });
+      const refreshToken = refreshCookie(loginResponse);
+
+      const first = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/refresh',
+        payload: { refreshToken },
+      });
+      expect(first.statusCode).toBe(200);
+      expect(first.json<RefreshResponse>()).not.toHaveProperty('refreshToken');
+      const rotatedToken = refreshCookie(first);
+      expect(rotatedToken).not.toBe(refreshToken);
+
+      // A concurrent refresh with the same token gets the same successor
+      const concurrent = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/refresh',
+        payload: { refreshToken },
+      });
+      expect(concurrent.statusCode).toBe(200);
+      expect(refreshCookie(concurrent)).toBe(rotatedToken);
+
+      // Past the grace window the replay is reuse
+      await pool.query(
+        `UPDATE refresh_tokens SET rotated_at = rotated_at - INTERVAL '1 minute'
+         WHERE rotated_at IS NOT NULL AND user_id = $1`,
+        [user.id]
+      );
+      const replay = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/refresh',
+        payload: { refreshToken },
+      });
+      expect(replay.statusCode).toBe(401);
+      expect(replay.json<ErrorResponse>().error.code).toBe('TOKEN_REUSED');
+
+      const afterReuse = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/refresh',
+        payload: { refreshToken: rotatedToken },
+      });
+      expect(afterReuse.statusCode).toBe(401);
+    });
+
+    it('should refresh from the httpOnly cookie', async () => {
+      const user = await createTestUser(pool, {
+        email: `test-cookie-${Date.now()}@example.com`,
+        password: 'SecurePassword123!',
+      });
+      const loginResponse = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login',
+        payload: { email: user.email, password: user.password },
+      });
+      const cookie = loginResponse.cookies.find((c) => c.name === 'polyladder_refresh');
+      expect(cookie?.httpOnly).toBe(true);
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/refresh',
+        cookies: { polyladder_refresh: cookie!.value },
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.cookies.some((c) => c.name === 'polyladder_refresh')).toBe(true);
+    });
+
     it('should reject invalid refresh token', async () => {
       const response = await server.inject({
         method: 'POST',
@@ -323,7 +422,8 @@ describe('Auth Integration Tests', () => {
         url: '/api/v1/auth/login',
         payload: { email: user.email, password: user.password },
       });
-      const { accessToken, refreshToken } = loginResponse.json<LoginResponse>();
+      const { accessToken } = loginResponse.json<LoginResponse>();
+      const refreshToken = refreshCookie(loginResponse);
 
       const logoutResponse = await server.inject({
         method: 'POST',
@@ -346,4 +446,519 @@ describe('Auth Integration Tests', () => {
       expect(refreshResponse.statusCode).toBe(401);
     });
   });
+
+  describe('/auth/sessions', () => {
+    it('should list devices and log out everywhere', async () => {
+      const user = await createTestUser(pool, {
+        email: `test-sessions-${Date.now()}@example.com`,
+        password: 'SecurePassword123!',
+      });
+      const login = async (userAgent: string) => {
+        const response = await server.inject({
+          method: 'POST',
+          url: '/api/v1/auth/login',
+          headers: { 'user-agent': userAgent },
+          payload: { email: user.email, password: user.password },
+        });
+        return { ...response.json<LoginResponse>(), refreshToken: refreshCookie(response) };
+      };
+
+      const laptop = await login('Laptop Browser');
+      const phone = await login('Phone Browser');
+
+      const listResponse = await server.inject({
+        method: 'GET',
+        url: '/api/v1/auth/sessions',
+        headers: { authorization: `Bearer ${laptop.accessToken}` },
+      });
+      expect(listResponse.statusCode).toBe(200);
+      const { sessions } = listResponse.json<SessionsResponse>();
+      expect(sessions.map((session) => session.userAgent).sort()).toEqual([
+        'Laptop Browser',
+        'Phone Browser',
+      ]);
+
+      const logoutAll = await server.inject({
+        method: 'DELETE',
+        url: '/api/v1/auth/sessions',
+        headers: { authorization: `Bearer ${laptop.accessToken}` },
+      });
+      expect(logoutAll.statusCode).toBe(200);
+
+      const refreshResponse = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/refresh',
+        payload: { refreshToken: phone.refreshToken },
+      });
+      expect(refreshResponse.statusCode).toBe(401);
+    });
+  });
+
+  describe('email verification', () => {
+    it('should keep learning closed until the emailed link is followed', async () => {
+      const email = `test-verify-${Date.now()}@example.com`;
+      await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/register',
+        payload: { email, password: 'SecurePassword123!' },
+      });
+      const { accessToken } = (
+        await server.inject({
+          method: 'POST',
+          url: '/api/v1/auth/login',
+          payload: { email, password: 'SecurePassword123!' },
+        })
+      ).json<LoginResponse>();
+      const headers = { authorization: `Bearer ${accessToken}` };
+
+      const restricted = await server.inject({
+        method: 'GET',
+        url: '/api/v1/learning/preferences',
+        headers,
+      });
+      expect(restricted.statusCode).toBe(403);
+      expect(restricted.json<ErrorResponse>().error.code).toBe('EMAIL_NOT_VERIFIED');
+
+      const [mail] = await readSentMail(email);
+      expect(mail.text).toContain('http://localhost:5173/verify-email?token=');
+      const token = tokenFromMail(mail);
+
+      const verify = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/email/verify',
+        payload: { token },
+      });
+      expect(verify.statusCode).toBe(200);
+
+      const me = await server.inject({ method: 'GET', url: '/api/v1/auth/me', headers });
+      expect(me.json<UserProfileResponse>().emailVerified).toBe(true);
+
+      const allowed = await server.inject({
+        method: 'GET',
+        url: '/api/v1/learning/preferences',
+        headers,
+      });
+      expect(allowed.statusCode).not.toBe(403);
+
+      const reused = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/email/verify',
+        payload: { token },
+      });
+      expect(reused.statusCode).toBe(400);
+      expect(reused.json<ErrorResponse>().error.code).toBe('INVALID_TOKEN');
+    });
+
+    it('should only honour the latest verification mail', async () => {
+      const user = await createTestUser(pool, { emailVerified: false });
+      const { accessToken } = (
+        await server.inject({
+          method: 'POST',
+          url: '/api/v1/auth/login',
+          payload: { email: user.email, password: user.password },
+        })
+      ).json<LoginResponse>();
+
+      for (let i = 0; i < 2; i++) {
+        const resend = await server.inject({
+          method: 'POST',
+          url: '/api/v1/auth/email/verification',
+          headers: { authorization: `Bearer ${accessToken}` },
+        });
+        expect(resend.statusCode).toBe(200);
+      }
+
+      const [first, second] = await waitForMail(user.email, 2);
+      const stale = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/email/verify',
+        payload: { token: tokenFromMail(first) },
+      });
+      expect(stale.statusCode).toBe(400);
+
+      const latest = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/email/verify',
+        payload: { token: tokenFromMail(second) },
+      });
+      expect(latest.statusCode).toBe(200);
+    });
+  });
+
+  describe('password reset', () => {
+    it('should not reveal whether an address has an account', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/password/forgot',
+        payload: { email: 'nobody@example.com' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(await readSentMail()).toHaveLength(0);
+    });
+
+    it('should set a new password and log out every device', async () => {
+      const user = await createTestUser(pool, {
+        email: `test-reset-${Date.now()}@example.com`,
+        password: 'OldPassword123!',
+      });
+      const refreshToken = refreshCookie(
+        await server.inject({
+          method: 'POST',
+          url: '/api/v1/auth/login',
+          payload: { email: user.email, password: user.password },
+        })
+      );
+
+      const forgot = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/password/forgot',
+        payload: { email: user.email.toUpperCase() },
+      });
+      expect(forgot.statusCode).toBe(200);
+
+      const [mail] = await waitForMail(user.email);
+      const token = tokenFromMail(mail);
+
+      const reset = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/password/reset',
+        payload: { token, password: 'NewPassword123!' },
+      });
+      expect(reset.statusCode).toBe(200);
+
+      const refresh = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/refresh',
+        payload: { refreshToken },
+      });
+      expect(refresh.statusCode).toBe(401);
+
+      const oldLogin = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login',
+        payload: { email: user.email, password: 'OldPassword123!' },
+      });
+      expect(oldLogin.statusCode).toBe(401);
+
+      const newLogin = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login',
+        payload: { email: user.email, password: 'NewPassword123!' },
+      });
+      expect(newLogin.statusCode).toBe(200);
+
+      const reused = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/password/reset',
+        payload: { token, password: 'OtherPassword123!' },
+      });
+      expect(reused.statusCode).toBe(400);
+    });
+  });
+
+  describe('two-factor authentication', () => {
+    /**
+     * Authenticator app code, `offset` steps from now
+     */
+    function appCode(secret: string, offset: number = 0): string {
+      return hotp(base32Decode(secret), totpStep(Date.now() / 1000) + offset);
+    }
+
+    async function loginWith(email: string, password: string) {
+      return server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login',
+        payload: { email, password },
+      });
+    }
+
+    async function enroll(
+      accessToken: string
+    ): Promise<{ secret: string; recoveryCodes: string[] }> {
+      const headers = { authorization: `Bearer ${accessToken}` };
+      const enrollment = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/two-factor/enrollment',
+        headers,
+      });
+      expect(enrollment.statusCode).toBe(200);
+      const { secret, provisioningUri } = enrollment.json<TwoFactorEnrollmentResponse>();
+      expect(provisioningUri).toContain(`secret=${secret}`);
+
+      const confirm = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/two-factor/enrollment/confirm',
+        headers,
+        payload: { code: appCode(secret) },
+      });
+      expect(confirm.statusCode).toBe(200);
+
+      return { secret, recoveryCodes: confirm.json<RecoveryCodesResponse>().recoveryCodes };
+    }
+
+    it('should ask enrolled operators for a second factor at login', async () => {
+      const operator = await createTestOperator(pool);
+      const { accessToken } = (
+        await loginWith(operator.email, operator.password)
+      ).json<LoginResponse>();
+      const { secret, recoveryCodes } = await enroll(accessToken);
+      expect(recoveryCodes).toHaveLength(10);
+
+      const login = await loginWith(operator.email, operator.password);
+      expect(login.statusCode).toBe(200);
+      const challenge = login.json<TwoFactorChallengeResponse>();
+      expect(challenge.twoFactorRequired).toBe(true);
+      expect(login.json<Partial<LoginResponse>>().accessToken).toBeUndefined();
+
+      // The code used for enrollment cannot be replayed
+      const replayed = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login/two-factor',
+        payload: { challengeToken: challenge.challengeToken, code: appCode(secret) },
+      });
+      expect(replayed.statusCode).toBe(401);
+
+      const verified = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login/two-factor',
+        payload: { challengeToken: challenge.challengeToken, code: appCode(secret, 1) },
+      });
+      expect(verified.statusCode).toBe(200);
+      const session = verified.json<LoginResponse>();
+      expect(session.user.id).toBe(operator.id);
+
+      const me = await server.inject({
+        method: 'GET',
+        url: '/api/v1/auth/me',
+        headers: { authorization: `Bearer ${session.accessToken}` },
+      });
+      expect(me.statusCode).toBe(200);
+    });
+
+    it('should accept each recovery code once', async () => {
+      const operator = await createTestOperator(pool);
+      const { accessToken } = (
+        await loginWith(operator.email, operator.password)
+      ).json<LoginResponse>();
+      const { recoveryCodes } = await enroll(accessToken);
+
+      const completeWith = async (code: string) => {
+        const { challengeToken } = (
+          await loginWith(operator.email, operator.password)
+        ).json<TwoFactorChallengeResponse>();
+        return server.inject({
+          method: 'POST',
+          url: '/api/v1/auth/login/two-factor',
+          payload: { challengeToken, code },
+        });
+      };
+
+      expect((await completeWith(recoveryCodes[0].toLowerCase())).statusCode).toBe(200);
+      expect((await completeWith(recoveryCodes[0])).statusCode).toBe(401);
+
+      const status = await server.inject({
+        method: 'GET',
+        url: '/api/v1/auth/two-factor',
+        headers: { authorization: `Bearer ${accessToken}` },
+      });
+      expect(status.json<TwoFactorStatusResponse>().recoveryCodesRemaining).toBe(9);
+    });
+
+    it('should not accept an access token as a challenge', async () => {
+      const operator = await createTestOperator(pool);
+      const { accessToken } = (
+        await loginWith(operator.email, operator.password)
+      ).json<LoginResponse>();
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login/two-factor',
+        payload: { challengeToken: accessToken, code: '123456' },
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json<ErrorResponse>().error.code).toBe('INVALID_CHALLENGE');
+    });
+
+    it('should hold back operators the policy covers until they enroll', async () => {
+      const operator = await createTestOperator(pool);
+      const { accessToken } = (
+        await loginWith(operator.email, operator.password)
+      ).json<LoginResponse>();
+      const headers = { authorization: `Bearer ${accessToken}` };
+
+      const policy = await server.inject({
+        method: 'PUT',
+        url: '/api/v1/operational/operators/two-factor-policy',
+        headers,
+        payload: { roles: ['admin'] },
+      });
+      expect(policy.statusCode).toBe(200);
+
+      const blocked = await server.inject({
+        method: 'GET',
+        url: '/api/v1/operational/operators',
+        headers,
+      });
+      expect(blocked.statusCode).toBe(403);
+      expect(blocked.json<ErrorResponse>().error.code).toBe('TWO_FACTOR_REQUIRED');
+
+      const { secret } = await enroll(accessToken);
+
+      const allowed = await server.inject({
+        method: 'GET',
+        url: '/api/v1/operational/operators',
+        headers,
+      });
+      expect(allowed.statusCode).toBe(200);
+
+      const disable = await server.inject({
+        method: 'DELETE',
+        url: '/api/v1/auth/two-factor',
+        headers,
+        payload: { code: appCode(secret, 1) },
+      });
+      expect(disable.statusCode).toBe(409);
+    });
+
+    it('should not offer 2FA to learners', async () => {
+      const learner = await createTestUser(pool);
+      const { accessToken } = (
+        await loginWith(learner.email, learner.password)
+      ).json<LoginResponse>();
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/two-factor/enrollment',
+        headers: { authorization: `Bearer ${accessToken}` },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('account export and deletion', () => {
+    async function loginAs(email: string, password: string) {
+      return server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login',
+        payload: { email, password },
+      });
+    }
+
+    it('should export the account as a ZIP of JSON and CSV files', async () => {
+      const user = await createTestUser(pool);
+      await pool.query(
+        `INSERT INTO user_languages (user_id, language, started_at, orthography_completed)
+         VALUES ($1, 'ES', CURRENT_TIMESTAMP, false)`,
+        [user.id]
+      );
+      const { accessToken } = (await loginAs(user.email, user.password)).json<LoginResponse>();
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/v1/auth/me/export',
+        headers: { authorization: `Bearer ${accessToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('application/zip');
+      expect(response.headers['content-disposition']).toContain('attachment');
+
+      const files = readZip(response.rawPayload);
+      const account = JSON.parse(files.get('account.json')!.toString()) as {
+        profile: Record<string, unknown>;
+      };
+      expect(account.profile.email).toBe(user.email);
+      expect(account.profile.password_hash).toBeUndefined();
+      expect(files.get('user_languages.csv')!.toString()).toContain('"ES"');
+      expect(files.has('user_languages.json')).toBe(true);
+    });
+
+    it('should require the password to delete the account', async () => {
+      const user = await createTestUser(pool);
+      const { accessToken } = (await loginAs(user.email, user.password)).json<LoginResponse>();
+
+      const response = await server.inject({
+        method: 'DELETE',
+        url: '/api/v1/auth/me',
+        headers: { authorization: `Bearer ${accessToken}` },
+        payload: { password: 'WrongPassword123!' },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json<ErrorResponse>().error.code).toBe('INVALID_PASSWORD');
+    });
+
+    it('should log out a deleted account and keep it when the user logs in again', async () => {
+      const user = await createTestUser(pool);
+      const loginResponse = await loginAs(user.email, user.password);
+      const { accessToken } = loginResponse.json<LoginResponse>();
+      const refreshToken = refreshCookie(loginResponse);
+
+      const deletion = await server.inject({
+        method: 'DELETE',
+        url: '/api/v1/auth/me',
+        headers: { authorization: `Bearer ${accessToken}` },
+        payload: { password: user.password },
+      });
+      expect(deletion.statusCode).toBe(200);
+      const [notice] = await readSentMail(user.email);
+      expect(notice.subject).toContain('deleted');
+
+      const refresh = await server.inject({
+        method: 'POST',
+        url: '/api/v1/auth/refresh',
+        payload: { refreshToken },
+      });
+      expect(refresh.statusCode).toBe(401);
+
+      expect((await loginAs(user.email, user.password)).statusCode).toBe(200);
+      const row = await pool.query(`SELECT deleted_at FROM users WHERE id = $1`, [user.id]);
+      expect(row.rows[0].deleted_at).toBeNull();
+    });
+
+    it('should purge learners and anonymize operators after the grace period', async () => {
+      const learner = await createTestUser(pool);
+      const operator = await createTestOperator(pool);
+      const admin = await createTestOperator(pool);
+
+      for (const account of [learner, operator]) {
+        const { accessToken } = (
+          await loginAs(account.email, account.password)
+        ).json<LoginResponse>();
+        const deletion = await server.inject({
+          method: 'DELETE',
+          url: '/api/v1/auth/me',
+          headers: { authorization: `Bearer ${accessToken}` },
+          payload: { password: account.password },
+        });
+        expect(deletion.statusCode).toBe(200);
+      }
+      await pool.query(
+        `UPDATE users SET purge_after = CURRENT_TIMESTAMP - INTERVAL '1 minute'
+         WHERE id = ANY($1)`,
+        [[learner.id, operator.id]]
+      );
+
+      expect(await new AccountPurgeService(pool).purgeExpired()).toBe(2);
+
+      const remaining = await pool.query<{ id: string; email: string; purged_at: Date | null }>(
+        `SELECT id, email, purged_at FROM users WHERE id = ANY($1)`,
+        [[learner.id, operator.id, admin.id]]
+      );
+      const byId = new Map(remaining.rows.map((row) => [row.id, row]));
+      expect(byId.has(learner.id)).toBe(false);
+      expect(byId.get(operator.id)?.email).toBe(`deleted-${operator.id}@deleted.invalid`);
+      expect(byId.get(operator.id)?.purged_at).not.toBeNull();
+      expect(byId.get(admin.id)?.purged_at).toBeNull();
+
+      const roles = await pool.query(`SELECT 1 FROM operator_roles WHERE user_id = $1`, [
+        operator.id,
+      ]);
+      expect(roles.rowCount).toBe(0);
+      expect((await loginAs(operator.email, operator.password)).statusCode).toBe(401);
+    });
+  });
 });
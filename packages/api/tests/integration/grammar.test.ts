@@ -16,7 +16,6 @@ interface LoginResponse {
   email: string;
   role: string;
   accessToken: string;
-  refreshToken: string;
 }
 
 describe('Grammar API Integration Tests', () => {
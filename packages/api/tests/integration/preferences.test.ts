@@ -315,4 +315,84 @@ describe('User Preferences Integration Tests', () => {
       expect(response.statusCode).toBe(401);
     });
   });
+
+  describe('/api/v1/learning/preferences/scheduler', () => {
+    it('should default to SM-2 scheduler', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/v1/learning/preferences/scheduler',
+        headers: {
+          authorization: `Bearer ${learnerToken}`,
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json<{ scheduler: string }>().scheduler).toBe('sm2');
+    });
+
+    it('should switch to FSRS scheduler and keep other settings', async () => {
+      await server.inject({
+        method: 'PUT',
+        url: '/api/v1/learning/preferences',
+        headers: {
+          authorization: `Bearer ${learnerToken}`,
+        },
+        payload: {
+          settings: { theme: 'dark' },
+        },
+      });
+
+      const response = await server.inject({
+        method: 'PUT',
+        url: '/api/v1/learning/preferences/scheduler',
+        headers: {
+          authorization: `Bearer ${learnerToken}`,
+        },
+        payload: {
+          scheduler: 'fsrs',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json<SuccessResponse>().success).toBe(true);
+
+      const getResponse = await server.inject({
+        method: 'GET',
+        url: '/api/v1/learning/preferences',
+        headers: {
+          authorization: `Bearer ${learnerToken}`,
+        },
+      });
+
+      const prefs = getResponse.json<UserPreferencesResponse>();
+      expect(prefs.settings).toEqual({ theme: 'dark', srsScheduler: 'fsrs' });
+    });
+
+    it('should reject unknown scheduler', async () => {
+      const response = await server.inject({
+        method: 'PUT',
+        url: '/api/v1/learning/preferences/scheduler',
+        headers: {
+          authorization: `Bearer ${learnerToken}`,
+        },
+        payload: {
+          scheduler: 'leitner',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should require authentication', async () => {
+      const response = await server.inject({
+        method: 'PUT',
+        url: '/api/v1/learning/preferences/scheduler',
+        payload: {
+          scheduler: 'fsrs',
+        },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
 });
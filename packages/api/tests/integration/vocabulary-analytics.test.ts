@@ -16,7 +16,6 @@ interface LoginResponse {
   email: string;
   role: string;
   accessToken: string;
-  refreshToken: string;
 }
 
 interface VocabularyStatsResponse {
@@ -60,6 +59,14 @@ interface VelocityResponse {
   wordsThisWeek: number;
   wordsLastWeek: number;
   trend: 'increasing' | 'stable' | 'decreasing';
+  retention: {
+    windowDays: number;
+    reviewCount: number;
+    actualRetention: number | null;
+    predictedDefault: number | null;
+    predictedPersonalized: number | null;
+    personalized: boolean;
+  };
 }
 
 interface PaginatedWordsResponse {
@@ -258,6 +265,24 @@ describe('Vocabulary Analytics Integration Tests', () => {
       expect(['increasing', 'stable', 'decreasing']).toContain(body.trend);
     });
 
+    it('should return retention comparison without personalized weights', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/v1/analytics/vocabulary/velocity',
+        headers: {
+          authorization: `Bearer ${learnerToken}`,
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json<VelocityResponse>();
+      expect(body.retention.windowDays).toBe(30);
+      expect(body.retention.reviewCount).toBe(0);
+      expect(body.retention.actualRetention).toBeNull();
+      expect(body.retention.predictedPersonalized).toBeNull();
+      expect(body.retention.personalized).toBe(false);
+    });
+
     it('should filter by language', async () => {
       const response = await server.inject({
         method: 'GET',
@@ -1,4 +1,6 @@
 import { FastifyInstance } from 'fastify';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { Pool } from 'pg';
 import { beforeAll, afterAll, beforeEach } from 'vitest';
 import { resetEnv } from '../src/config/env';
@@ -38,6 +40,8 @@ export function setupTestEnv(): void {
   process.env.LOG_LEVEL = 'error';
   process.env.RATE_LIMIT_MAX = '1000';
   process.env.RATE_LIMIT_WINDOW = '1 minute';
+  process.env.MAILER = 'file';
+  process.env.MAILER_FILE_PATH = join(tmpdir(), `polyladder-test-mail-${process.pid}.jsonl`);
 
   resetEnv();
 }
@@ -119,6 +123,12 @@ export async function cleanupTestData(): Promise<void> {
     'curriculum_topics',
     'curriculum_levels',
     'refresh_tokens',
+    'auth_sessions',
+    'account_tokens',
+    'operator_invitations',
+    'operator_recovery_codes',
+    'operator_totp',
+    'operator_two_factor_policy',
     'approval_events',
     'review_queue',
     'pipeline_failures',
@@ -149,6 +159,7 @@ export async function cleanupTestData(): Promise<void> {
 
   try {
     await pool.query('DELETE FROM refresh_tokens');
+    await pool.query('DELETE FROM auth_sessions');
   } catch (_error) {
     void _error;
   }
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Pool, QueryResult } from 'pg';
+import { OperatorInvitationService } from '../../../../src/services/access';
+
+const mockQuery = vi.fn();
+const mockClientQuery = vi.fn();
+const mockRelease = vi.fn();
+const mockPool = {
+  query: mockQuery,
+  connect: vi.fn().mockResolvedValue({ query: mockClientQuery, release: mockRelease }),
+} as unknown as Pool;
+
+const SECRET = 'test-secret-that-is-at-least-32-characters';
+
+function rows<T>(data: T[]): QueryResult {
+  return { rows: data, rowCount: data.length } as unknown as QueryResult;
+}
+
+function invitationRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: '11111111-1111-4111-8111-111111111111',
+    email: 'reviewer@example.com',
+    roles: ['content_reviewer'],
+    invited_by: 'admin-1',
+    expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    accepted_at: null,
+    revoked_at: null,
+    created_at: new Date(),
+    ...overrides,
+  };
+}
+
+/**
+ * Route transaction statements to canned results by the table they touch
+ */
+function mockTransaction(invitation: ReturnType<typeof invitationRow> | null, userExists = false) {
+  mockClientQuery.mockImplementation((sql: string) => {
+    if (sql.includes('FROM operator_invitations WHERE id')) {
+      return Promise.resolve(rows(invitation ? [invitation] : []));
+    }
+    if (sql.includes('SELECT id FROM users')) {
+      return Promise.resolve(rows(userExists ? [{ id: 'existing' }] : []));
+    }
+    if (sql.includes('INSERT INTO users')) {
+      return Promise.resolve(rows([{ id: 'new-operator' }]));
+    }
+    if (sql.includes('INSERT INTO operator_invitations')) {
+      return Promise.resolve(rows([invitationRow({ id: 'unused' })]));
+    }
+    return Promise.resolve(rows([]));
+  });
+}
+
+describe('OperatorInvitationService', () => {
+  let service: OperatorInvitationService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new OperatorInvitationService(mockPool, SECRET);
+  });
+
+  async function issueToken(email = 'reviewer@example.com'): Promise<string> {
+    mockQuery.mockResolvedValueOnce(rows([]));
+    mockTransaction(null);
+    const { token } = await service.createInvitation(email, ['content_reviewer'], 'admin-1');
+    return token;
+  }
+
+  describe('createInvitation', () => {
+    it('should issue a signed token for a new email', async () => {
+      const token = await issueToken('Reviewer@Example.com');
+
+      expect(token).toMatch(/^[0-9a-f-]{36}\.[\w-]+$/);
+      const insert = mockClientQuery.mock.calls.find((call) =>
+        String(call[0]).includes('INSERT INTO operator_invitations')
+      );
+      expect(insert?.[1]).toEqual(
+        expect.arrayContaining(['reviewer@example.com', ['content_reviewer'], 'admin-1'])
+      );
+    });
+
+    it('should reject emails that already have an account', async () => {
+      mockQuery.mockResolvedValueOnce(rows([{ id: 'existing' }]));
+
+      await expect(
+        service.createInvitation('taken@example.com', ['admin'], 'admin-1')
+      ).rejects.toMatchObject({ statusCode: 409, code: 'EMAIL_EXISTS' });
+    });
+
+    it('should reject unknown roles', async () => {
+      await expect(
+        service.createInvitation('new@example.com', ['owner'], 'admin-1')
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should create the operator with the invited roles', async () => {
+      const token = await issueToken();
+      const invitation = invitationRow({ id: token.split('.')[0] });
+      vi.clearAllMocks();
+      mockTransaction(invitation);
+
+      const result = await service.acceptInvitation(token, 'password-hash');
+
+      expect(result).toEqual({
+        userId: 'new-operator',
+        email: 'reviewer@example.com',
+        roles: ['content_reviewer'],
+      });
+      const statements = mockClientQuery.mock.calls.map((call) => String(call[0]));
+      expect(statements.some((sql) => sql.includes('INSERT INTO operator_roles'))).toBe(true);
+      expect(statements.some((sql) => sql.includes('SET accepted_at'))).toBe(true);
+      expect(statements[statements.length - 1]).toBe('COMMIT');
+    });
+
+    it('should reject a token with a forged signature', async () => {
+      const token = await issueToken();
+      const invitation = invitationRow({ id: token.split('.')[0] });
+      mockTransaction(invitation);
+
+      await expect(
+        service.acceptInvitation(`${invitation.id}.forged`, 'password-hash')
+      ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_INVITATION' });
+    });
+
+    it('should reject a token signed for another email', async () => {
+      const token = await issueToken('someone-else@example.com');
+      mockTransaction(invitationRow({ id: token.split('.')[0] }));
+
+      await expect(service.acceptInvitation(token, 'password-hash')).rejects.toMatchObject({
+        code: 'INVALID_INVITATION',
+      });
+    });
+
+    it('should not accept an invitation twice', async () => {
+      const token = await issueToken();
+      mockTransaction(invitationRow({ id: token.split('.')[0], accepted_at: new Date() }));
+
+      await expect(service.acceptInvitation(token, 'password-hash')).rejects.toMatchObject({
+        statusCode: 410,
+        message: 'Invitation is accepted',
+      });
+    });
+
+    it('should reject revoked and expired invitations', async () => {
+      const token = await issueToken();
+      const id = token.split('.')[0];
+
+      mockTransaction(invitationRow({ id, revoked_at: new Date() }));
+      await expect(service.acceptInvitation(token, 'hash')).rejects.toMatchObject({
+        message: 'Invitation is revoked',
+      });
+
+      mockTransaction(invitationRow({ id, expires_at: new Date(Date.now() - 1000) }));
+      await expect(service.acceptInvitation(token, 'hash')).rejects.toMatchObject({
+        message: 'Invitation is expired',
+      });
+    });
+
+    it('should reject malformed tokens without querying', async () => {
+      await expect(service.acceptInvitation('not-a-token', 'hash')).rejects.toMatchObject({
+        code: 'INVALID_INVITATION',
+      });
+      expect(mockPool.connect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeInvitation', () => {
+    it('should return 404 when no pending invitation matches', async () => {
+      mockQuery.mockResolvedValueOnce(rows([]));
+
+      await expect(
+        service.revokeInvitation('11111111-1111-4111-8111-111111111111')
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Pool, QueryResult } from 'pg';
+import {
+  OperatorAccessService,
+  PERMISSIONS,
+  permissionsForRoles,
+} from '../../../../src/services/access';
+
+const mockQuery = vi.fn();
+const mockClientQuery = vi.fn();
+const mockRelease = vi.fn();
+const mockPool = {
+  query: mockQuery,
+  connect: vi.fn().mockResolvedValue({ query: mockClientQuery, release: mockRelease }),
+} as unknown as Pool;
+
+function rows<T>(data: T[]): QueryResult {
+  return { rows: data, rowCount: data.length } as unknown as QueryResult;
+}
+
+describe('permissionsForRoles', () => {
+  it('should grant admins every permission', () => {
+    expect(Array.from(permissionsForRoles(['admin'])).sort()).toEqual([...PERMISSIONS].sort());
+  });
+
+  it('should combine the permissions of several roles', () => {
+    const permissions = permissionsForRoles(['content_reviewer', 'curriculum_editor']);
+
+    expect(permissions.has('content:review')).toBe(true);
+    expect(permissions.has('curriculum:edit')).toBe(true);
+    expect(permissions.has('pipeline:manage')).toBe(false);
+    expect(permissions.has('operators:manage')).toBe(false);
+  });
+
+  it('should ignore unknown roles', () => {
+    expect(permissionsForRoles(['superuser']).size).toBe(0);
+  });
+});
+
+describe('OperatorAccessService', () => {
+  let service: OperatorAccessService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockClientQuery.mockResolvedValue(rows([]));
+    service = new OperatorAccessService(mockPool);
+  });
+
+  describe('hasPermission', () => {
+    it('should allow a permission granted by one of the roles', async () => {
+      mockQuery.mockResolvedValueOnce(rows([{ role: 'pipeline_admin' }]));
+
+      await expect(service.hasPermission('op-1', 'analytics:view')).resolves.toBe(true);
+    });
+
+    it('should deny operators without roles', async () => {
+      mockQuery.mockResolvedValueOnce(rows([]));
+
+      await expect(service.hasPermission('op-1', 'content:review')).resolves.toBe(false);
+    });
+  });
+
+  describe('setRoles', () => {
+    it('should replace the roles in a transaction', async () => {
+      mockQuery.mockResolvedValueOnce(rows([{ role: 'operator' }]));
+      mockClientQuery.mockImplementation((sql: string) =>
+        Promise.resolve(sql.includes("role = 'admin'") ? rows([{ user_id: 'admin-1' }]) : rows([]))
+      );
+
+      const roles = await service.setRoles(
+        'op-1',
+        ['content_reviewer', 'content_reviewer', 'analytics_viewer'],
+        'admin-1'
+      );
+
+      expect(roles).toEqual(['content_reviewer', 'analytics_viewer']);
+      const statements = mockClientQuery.mock.calls.map((call) => String(call[0]));
+      expect(statements[0]).toBe('BEGIN');
+      expect(statements.some((sql) => sql.includes('DELETE FROM operator_roles'))).toBe(true);
+      expect(statements[statements.length - 1]).toBe('COMMIT');
+      expect(mockRelease).toHaveBeenCalled();
+    });
+
+    it('should reject unknown roles', async () => {
+      await expect(service.setRoles('op-1', ['superuser'], 'admin-1')).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'Unknown operator roles: superuser',
+      });
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should reject an empty role list', async () => {
+      await expect(service.setRoles('op-1', [], 'admin-1')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+
+    it('should return 404 for learners', async () => {
+      mockQuery.mockResolvedValueOnce(rows([{ role: 'learner' }]));
+
+      await expect(
+        service.setRoles('learner-1', ['content_reviewer'], 'admin-1')
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should keep the admin role of the last admin', async () => {
+      mockQuery.mockResolvedValueOnce(rows([{ role: 'operator' }]));
+      mockClientQuery.mockImplementation((sql: string) =>
+        Promise.resolve(sql.includes("role = 'admin'") ? rows([{ user_id: 'op-1' }]) : rows([]))
+      );
+
+      await expect(service.setRoles('op-1', ['content_reviewer'], 'op-1')).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'LAST_ADMIN',
+      });
+
+      const statements = mockClientQuery.mock.calls.map((call) => String(call[0]));
+      expect(statements).toContain('ROLLBACK');
+      expect(statements.some((sql) => sql.includes('DELETE FROM operator_roles'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Pool, QueryResult } from 'pg';
+import { AccountDeletionService } from '../../../../src/services/account';
+import { Mailer } from '../../../../src/services/mail';
+
+const mockQuery = vi.fn();
+const mockClientQuery = vi.fn();
+const mockRelease = vi.fn();
+const mockPool = {
+  query: mockQuery,
+  connect: vi.fn().mockResolvedValue({ query: mockClientQuery, release: mockRelease }),
+} as unknown as Pool;
+const mockSend = vi.fn();
+const mockMailer: Mailer = { transport: 'console', send: mockSend };
+
+function rows<T>(data: T[]): QueryResult {
+  return { rows: data, rowCount: data.length } as unknown as QueryResult;
+}
+
+describe('AccountDeletionService', () => {
+  let service: AccountDeletionService;
+  const purgeAfter = new Date('2026-11-17T12:00:00Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new AccountDeletionService(mockPool, mockMailer, 30);
+  });
+
+  function mockAccount(deletedAt: Date | null, admins: string[] = []) {
+    mockClientQuery.mockImplementation((sql: string) => {
+      if (sql.includes('SELECT email, deleted_at')) {
+        return Promise.resolve(rows([{ email: 'learner@example.com', deleted_at: deletedAt }]));
+      }
+      if (sql.includes("r.role = 'admin'")) {
+        return Promise.resolve(rows(admins.map((user_id) => ({ user_id }))));
+      }
+      if (sql.includes('RETURNING purge_after')) {
+        return Promise.resolve(rows([{ purge_after: purgeAfter }]));
+      }
+      return Promise.resolve(rows([]));
+    });
+  }
+
+  describe('scheduleDeletion', () => {
+    it('should schedule the purge after the grace period and log out every device', async () => {
+      mockAccount(null);
+
+      const deletion = await service.scheduleDeletion('user-1');
+
+      expect(deletion).toEqual({ userId: 'user-1', email: 'learner@example.com', purgeAfter });
+      const update = mockClientQuery.mock.calls.find((call) =>
+        String(call[0]).includes('RETURNING purge_after')
+      ) as [string, unknown[]];
+      expect(update[1]).toEqual(['user-1', 30]);
+      expect(
+        mockClientQuery.mock.calls.some((call) =>
+          String(call[0]).includes("revoked_reason = 'account_deleted'")
+        )
+      ).toBe(true);
+      expect(mockRelease).toHaveBeenCalled();
+    });
+
+    it('should refuse an account that is already being deleted', async () => {
+      mockAccount(new Date());
+
+      await expect(service.scheduleDeletion('user-1')).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'ALREADY_DELETED',
+      });
+    });
+
+    it('should not let the last admin delete their account', async () => {
+      mockAccount(null, ['user-1']);
+
+      await expect(service.scheduleDeletion('user-1')).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'LAST_ADMIN',
+      });
+    });
+
+    it('should let an admin go while another admin remains', async () => {
+      mockAccount(null, ['user-1', 'admin-2']);
+
+      await expect(service.scheduleDeletion('user-1')).resolves.toMatchObject({ purgeAfter });
+    });
+  });
+
+  it('should mail when the data will be removed', async () => {
+    await service.sendDeletionNotice({
+      userId: 'user-1',
+      email: 'learner@example.com',
+      purgeAfter,
+    });
+
+    const [mail] = mockSend.mock.calls[0] as [{ to: string; text: string }];
+    expect(mail.to).toBe('learner@example.com');
+    expect(mail.text).toContain(purgeAfter.toUTCString());
+  });
+
+  it('should report whether a pending deletion was cancelled', async () => {
+    mockQuery.mockResolvedValueOnce({ rowCount: 1 }).mockResolvedValueOnce({ rowCount: 0 });
+
+    expect(await service.cancelDeletion('user-1')).toBe(true);
+    expect(await service.cancelDeletion('user-1')).toBe(false);
+  });
+});
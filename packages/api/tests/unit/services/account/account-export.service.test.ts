@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Pool, QueryResult } from 'pg';
+import { AccountExportService } from '../../../../src/services/account';
+import { readZip } from '../../../helpers/zip';
+
+const mockQuery = vi.fn();
+const mockPool = { query: mockQuery } as unknown as Pool;
+
+function rows(data: Record<string, unknown>[]): QueryResult {
+  return {
+    rows: data,
+    rowCount: data.length,
+    fields: Object.keys(data[0] ?? {}).map((name) => ({ name })),
+  } as unknown as QueryResult;
+}
+
+describe('AccountExportService', () => {
+  let service: AccountExportService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new AccountExportService(mockPool);
+  });
+
+  it('should export each table with rows of the user as JSON and CSV', async () => {
+    mockQuery.mockImplementation((sql: string) => {
+      if (sql.includes('FROM users')) {
+        return Promise.resolve(rows([{ id: 'user-1', email: 'learner@example.com' }]));
+      }
+      if (sql.includes('FROM user_word_state')) {
+        return Promise.resolve(
+          rows([
+            { meaning_id: 'm-1', state: 'known', notes: 'say "hola"', first_seen_at: null },
+            { meaning_id: 'm-2', state: 'learning', notes: null, first_seen_at: null },
+          ])
+        );
+      }
+      return Promise.resolve(rows([]));
+    });
+
+    const files = readZip(await service.buildArchive('user-1'));
+
+    expect([...files.keys()]).toEqual([
+      'account.json',
+      'user_word_state.json',
+      'user_word_state.csv',
+    ]);
+    const account = JSON.parse(files.get('account.json')!.toString()) as {
+      profile: { email: string };
+      tables: Record<string, number>;
+    };
+    expect(account.profile.email).toBe('learner@example.com');
+    expect(account.tables.user_word_state).toBe(2);
+    expect(account.tables.user_srs_items).toBe(0);
+    expect(files.get('user_word_state.csv')!.toString()).toBe(
+      'meaning_id,state,notes,first_seen_at\n' +
+        '"m-1","known","say ""hola""",\n' +
+        '"m-2","learning",,\n'
+    );
+  });
+
+  it('should select rows by the user and leave out credentials', async () => {
+    mockQuery.mockImplementation((sql: string) =>
+      Promise.resolve(sql.includes('FROM users') ? rows([{ id: 'user-1' }]) : rows([]))
+    );
+
+    await service.buildArchive('user-1');
+
+    const queries = mockQuery.mock.calls.map((call) => String(call[0]));
+    expect(queries.some((sql) => sql.includes('password_hash'))).toBe(false);
+    expect(queries.some((sql) => sql.includes('refresh_tokens'))).toBe(false);
+    expect(queries.some((sql) => sql.includes('operator_totp'))).toBe(false);
+    expect(mockQuery.mock.calls.every((call) => (call[1] as string[])[0] === 'user-1')).toBe(true);
+  });
+});
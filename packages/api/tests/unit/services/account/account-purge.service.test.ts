@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Pool, QueryResult } from 'pg';
+import { AccountPurgeService, USER_DATA_TABLES } from '../../../../src/services/account';
+
+const mockQuery = vi.fn();
+const mockClientQuery = vi.fn();
+const mockRelease = vi.fn();
+const mockPool = {
+  query: mockQuery,
+  connect: vi.fn().mockResolvedValue({ query: mockClientQuery, release: mockRelease }),
+} as unknown as Pool;
+
+function rows<T>(data: T[]): QueryResult {
+  return { rows: data, rowCount: data.length } as unknown as QueryResult;
+}
+
+describe('AccountPurgeService', () => {
+  let service: AccountPurgeService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new AccountPurgeService(mockPool);
+  });
+
+  function mockDueAccounts(accounts: Record<string, 'learner' | 'operator' | null>) {
+    mockQuery.mockResolvedValueOnce(rows(Object.keys(accounts).map((id) => ({ id }))));
+    mockClientQuery.mockImplementation((sql: string, params?: string[]) => {
+      if (sql.includes('SELECT role FROM users')) {
+        const role = accounts[params![0]];
+        return Promise.resolve(rows(role ? [{ role }] : []));
+      }
+      return Promise.resolve(rows([]));
+    });
+  }
+
+  function statementsFor(userId: string): string[] {
+    return mockClientQuery.mock.calls
+      .filter((call) => (call[1] as string[] | undefined)?.[0] === userId)
+      .map((call) => String(call[0]).replace(/\s+/g, ' '));
+  }
+
+  it("should delete a learner's personal data and user row", async () => {
+    mockDueAccounts({ 'learner-1': 'learner' });
+
+    expect(await service.purgeExpired()).toBe(1);
+
+    const statements = statementsFor('learner-1');
+    for (const { table } of USER_DATA_TABLES) {
+      expect(statements).toContainEqual(expect.stringContaining(`DELETE FROM ${table} WHERE`));
+    }
+    expect(statements).toContain('DELETE FROM users WHERE id = $1');
+  });
+
+  it('should keep an anonymized placeholder for operators', async () => {
+    mockDueAccounts({ 'operator-1': 'operator' });
+
+    await service.purgeExpired();
+
+    const statements = statementsFor('operator-1');
+    expect(statements).not.toContain('DELETE FROM users WHERE id = $1');
+    const anonymize = mockClientQuery.mock.calls.find((call) =>
+      String(call[0]).includes('purged_at = CURRENT_TIMESTAMP')
+    ) as [string, string[]];
+    expect(anonymize[1]).toEqual(['operator-1', 'deleted-operator-1@deleted.invalid']);
+  });
+
+  it('should skip accounts restored since they were selected', async () => {
+    mockDueAccounts({ 'learner-1': null, 'learner-2': 'learner' });
+
+    expect(await service.purgeExpired(10)).toBe(1);
+
+    expect(statementsFor('learner-1').some((sql) => sql.startsWith('DELETE'))).toBe(false);
+    expect(mockQuery.mock.calls[0][1]).toEqual([10]);
+    expect(mockRelease).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { USER_DATA_TABLES } from '../../../../src/services/account';
+
+const SRC_DIR = join(__dirname, '../../../../src');
+
+// Read-only views over tables that are already listed
+const DERIVED_VIEWS = new Set(['user_curriculum_stats']);
+
+// Words that can follow a table name where an alias would stand
+const SQL_KEYWORDS = new Set([
+  'where',
+  'on',
+  'set',
+  'values',
+  'select',
+  'join',
+  'left',
+  'inner',
+  'right',
+  'cross',
+  'lateral',
+  'as',
+  'group',
+  'order',
+  'limit',
+  'using',
+  'returning',
+  'and',
+  'or',
+]);
+
+function sourceFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return sourceFiles(path);
+    return entry.name.endsWith('.ts') ? [path] : [];
+  });
+}
+
+/**
+ * Tables the API reads or writes by user: inserted with a user_id column,
+ * filtered on `alias.user_id`, or the only table of a statement on user_id
+ */
+function userKeyedTables(): Set<string> {
+  const tables = new Set<string>();
+
+  for (const file of sourceFiles(SRC_DIR)) {
+    const statements = readFileSync(file, 'utf8').match(/`[^`]*`/g) ?? [];
+
+    for (const sql of statements) {
+      const references = [
+        ...sql.matchAll(/\b(?:FROM|JOIN|INTO|UPDATE)\s+([a-z_]+)(?:\s+(?:AS\s+)?([a-z_]+))?/g),
+      ];
+
+      for (const [, table, rawAlias] of references) {
+        const alias = rawAlias && !SQL_KEYWORDS.has(rawAlias.toLowerCase()) ? rawAlias : null;
+        const columns = new RegExp(`INSERT INTO\\s+${table}\\s*\\(([^)]*)\\)`).exec(sql)?.[1];
+
+        if (
+          (columns && /\buser_id\b/.test(columns)) ||
+          (alias && new RegExp(`\\b${alias}\\.user_id\\b`).test(sql)) ||
+          (!alias && references.length === 1 && /\buser_id\s*=/.test(sql))
+        ) {
+          tables.add(table);
+        }
+      }
+    }
+  }
+
+  return tables;
+}
+
+describe('USER_DATA_TABLES', () => {
+  it('should cover every table the API keys by user', () => {
+    const listed = new Set(USER_DATA_TABLES.map(({ table }) => table));
+    const missing = [...userKeyedTables()].filter(
+      (table) => !listed.has(table) && !DERIVED_VIEWS.has(table)
+    );
+
+    expect(missing).toEqual([]);
+  });
+
+  it('should list each table once', () => {
+    const tables = USER_DATA_TABLES.map(({ table }) => table);
+    expect(new Set(tables).size).toBe(tables.length);
+  });
+});
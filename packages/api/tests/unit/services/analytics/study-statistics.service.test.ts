@@ -431,6 +431,56 @@ describe('StudyStatisticsService', () => {
     });
   });
 
+  describe('getHintUsage', () => {
+    it('should aggregate hint usage per practice mode and level', async () => {
+      mockQuery
+        .mockResolvedValueOnce(
+          mockResult([
+            { exercise_type: 'cloze', hints_used: '7', items_hinted: '4', reveals: '1' },
+            { exercise_type: 'translation', hints_used: '3', items_hinted: '2', reveals: '0' },
+          ])
+        )
+        .mockResolvedValueOnce(
+          mockResult([
+            { hint_level: 1, count: '6' },
+            { hint_level: 2, count: '3' },
+            { hint_level: 5, count: '1' },
+          ])
+        );
+
+      const result = await service.getHintUsage('user-1', 30);
+
+      expect(result.totalHints).toBe(10);
+      expect(result.itemsHinted).toBe(6);
+      expect(result.reveals).toBe(1);
+      expect(result.byExerciseType[0]).toEqual({
+        exerciseType: 'cloze',
+        hintsUsed: 7,
+        itemsHinted: 4,
+        reveals: 1,
+      });
+      expect(result.byLevel).toEqual([
+        { level: 1, count: 6 },
+        { level: 2, count: 3 },
+        { level: 5, count: 1 },
+      ]);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('FROM hint_usage'), [
+        'user-1',
+        30,
+      ]);
+    });
+
+    it('should return zeros when no hints were used', async () => {
+      mockQuery.mockResolvedValueOnce(mockResult([])).mockResolvedValueOnce(mockResult([]));
+
+      const result = await service.getHintUsage('user-1', 7);
+
+      expect(result.totalHints).toBe(0);
+      expect(result.byExerciseType).toEqual([]);
+      expect(result.byLevel).toEqual([]);
+    });
+  });
+
   describe('getStudyOverview', () => {
     it('should return comprehensive study overview', async () => {
       // Mock individual service methods to avoid Promise.all ordering issues
@@ -336,6 +336,67 @@ describe('VocabularyAnalyticsService', () => {
     });
   });
 
+  describe('getRetentionComparison', () => {
+    const dayMs = 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    const historyRows = [
+      { item_id: 'meaning-1', rating: 'good', reviewed_at: new Date(now - 20 * dayMs) },
+      { item_id: 'meaning-1', rating: 'good', reviewed_at: new Date(now - 10 * dayMs) },
+      { item_id: 'meaning-2', rating: 'good', reviewed_at: new Date(now - 20 * dayMs) },
+      { item_id: 'meaning-2', rating: 'again', reviewed_at: new Date(now - 5 * dayMs) },
+    ];
+
+    it('should compare default predictions with actual retention', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: historyRows, rowCount: 4 } as unknown as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [{ scheduler: null, weights: null }],
+          rowCount: 1,
+        } as unknown as QueryResult);
+
+      const result = await service.getRetentionComparison('user-123');
+
+      expect(result.reviewCount).toBe(2);
+      expect(result.actualRetention).toBe(0.5);
+      expect(result.predictedDefault).toBeGreaterThan(0);
+      expect(result.predictedDefault).toBeLessThan(1);
+      expect(result.predictedPersonalized).toBeNull();
+      expect(result.personalized).toBe(false);
+    });
+
+    it('should include personalized predictions when weights are fitted', async () => {
+      const weights = [
+        0.4872, 1.4003, 6, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072,
+        0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+      ];
+      mockQuery
+        .mockResolvedValueOnce({ rows: historyRows, rowCount: 4 } as unknown as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [{ scheduler: 'fsrs', weights }],
+          rowCount: 1,
+        } as unknown as QueryResult);
+
+      const result = await service.getRetentionComparison('user-123');
+
+      expect(result.personalized).toBe(true);
+      expect(result.predictedPersonalized).not.toBeNull();
+      expect(result.predictedPersonalized).not.toBe(result.predictedDefault);
+    });
+
+    it('should return nulls without review history', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult);
+
+      const result = await service.getRetentionComparison('user-123', 'ES', 7);
+
+      expect(result.windowDays).toBe(7);
+      expect(result.reviewCount).toBe(0);
+      expect(result.actualRetention).toBeNull();
+      expect(result.predictedDefault).toBeNull();
+    });
+  });
+
   describe('getWordsByState', () => {
     it('should return paginated words by state', async () => {
       // Mock count
@@ -36,6 +36,17 @@ interface GrammarWeaknessRow {
   recent_failures: string;
 }
 
+// Interface for orthography (diacritic letter) weakness row
+interface OrthographyWeaknessRow {
+  language: string;
+  letter: string;
+  total_attempts: string;
+  correct_attempts: string;
+  recent_failures: string;
+  last_attempted_at: Date | null;
+  missed_words: string[] | null;
+}
+
 // Interface for historical performance row
 interface HistoricalRow {
   item_id: string;
@@ -91,7 +102,8 @@ describe('WeaknessIdentificationService', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
-    mockQuery = vi.fn();
+    // Queries without an explicit mock (e.g. orthography) find no rows
+    mockQuery = vi.fn().mockResolvedValue(mockResult([]));
     const mockPool = { query: mockQuery } as unknown as Pool;
     service = new WeaknessIdentificationService(mockPool);
   });
@@ -110,6 +122,7 @@ describe('WeaknessIdentificationService', () => {
       expect(result.totalWeaknesses).toBe(0);
       expect(result.weaknessesByType.vocabulary).toBe(0);
       expect(result.weaknessesByType.grammar).toBe(0);
+      expect(result.weaknessesByType.orthography).toBe(0);
       expect(result.topWeaknesses).toHaveLength(0);
     });
 
@@ -147,6 +160,49 @@ describe('WeaknessIdentificationService', () => {
       expect(result.topWeaknesses[0].itemType).toBe('grammar');
     });
 
+    it('should identify diacritic letters as orthography weaknesses', async () => {
+      mockQuery.mockResolvedValueOnce(mockResult<VocabWeaknessRow>([]));
+      mockQuery.mockResolvedValueOnce(mockResult<GrammarWeaknessRow>([]));
+      // "ã" written correctly 3 times out of 10
+      mockQuery.mockResolvedValueOnce(
+        mockResult<OrthographyWeaknessRow>([
+          {
+            language: 'PT',
+            letter: 'ã',
+            total_attempts: '10',
+            correct_attempts: '3',
+            recent_failures: '4',
+            last_attempted_at: new Date('2024-01-15'),
+            missed_words: ['não', 'pão'],
+          },
+        ])
+      );
+
+      const result = await service.analyzeWeaknesses('user-123', 'PT');
+
+      expect(result.weaknessesByType.orthography).toBe(1);
+      expect(result.topWeaknesses[0]).toMatchObject({
+        itemId: 'diacritic_PT_ã',
+        itemType: 'orthography',
+        itemText: 'ã (não, pão)',
+        category: 'diacritics',
+        accuracy: 30,
+        failureCount: 4,
+      });
+      expect(mockQuery.mock.calls[2][0]).toContain('user_diacritic_attempts');
+      expect(mockQuery.mock.calls[2][1]).toEqual(['user-123', 'PT']);
+    });
+
+    it('should skip orthography weaknesses when filtering by a higher CEFR level', async () => {
+      mockQuery.mockResolvedValueOnce(mockResult<VocabWeaknessRow>([]));
+      mockQuery.mockResolvedValueOnce(mockResult<GrammarWeaknessRow>([]));
+
+      const result = await service.analyzeWeaknesses('user-123', 'PT', 'B1');
+
+      expect(result.weaknessesByType.orthography).toBe(0);
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+
     it('should combine and sort weaknesses by severity', async () => {
       // Vocabulary with 30% accuracy (worst)
       mockQuery.mockResolvedValueOnce(
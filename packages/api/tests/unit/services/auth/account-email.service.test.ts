@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { Pool, QueryResult } from 'pg';
+import { AccountEmailService } from '../../../../src/services/auth';
+import { Mailer } from '../../../../src/services/mail';
+
+const mockQuery = vi.fn();
+const mockClientQuery = vi.fn();
+const mockRelease = vi.fn();
+const mockPool = {
+  query: mockQuery,
+  connect: vi.fn().mockResolvedValue({ query: mockClientQuery, release: mockRelease }),
+} as unknown as Pool;
+
+const mockSend = vi.fn();
+const mockMailer: Mailer = { transport: 'console', send: mockSend };
+
+function rows<T>(data: T[]): QueryResult {
+  return { rows: data, rowCount: data.length } as unknown as QueryResult;
+}
+
+function sentToken(): string {
+  const [message] = mockSend.mock.calls[0] as [{ text: string }];
+  return message.text.match(/token=([\w-]+)/)![1];
+}
+
+function statements(): string[] {
+  return mockClientQuery.mock.calls.map((call) => String(call[0]));
+}
+
+function mockStoredToken(row: Record<string, unknown> | null) {
+  mockClientQuery.mockImplementation((sql: string) =>
+    Promise.resolve(sql.includes('FROM account_tokens') ? rows(row ? [row] : []) : rows([]))
+  );
+}
+
+describe('AccountEmailService', () => {
+  let service: AccountEmailService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockClientQuery.mockResolvedValue(rows([]));
+    mockSend.mockResolvedValue(undefined);
+    service = new AccountEmailService(mockPool, mockMailer, 'https://app.polyladder.test');
+  });
+
+  describe('sendVerificationEmail', () => {
+    it('should mail a link whose token is stored only as a hash', async () => {
+      mockQuery.mockResolvedValueOnce(rows([{ email: 'a@example.com', email_verified_at: null }]));
+
+      await service.sendVerificationEmail('user-1');
+
+      const [message] = mockSend.mock.calls[0] as [{ to: string; text: string }];
+      expect(message.to).toBe('a@example.com');
+      expect(message.text).toContain('https://app.polyladder.test/verify-email?token=');
+
+      const token = sentToken();
+      const insert = mockClientQuery.mock.calls.find((call) =>
+        String(call[0]).includes('INSERT INTO account_tokens')
+      ) as [string, unknown[]];
+      expect(insert[1][2]).toBe(createHash('sha256').update(token).digest('hex'));
+      expect(insert[1]).not.toContain(token);
+      // Earlier unused tokens are discarded first
+      expect(
+        statements().findIndex((sql) => sql.includes('DELETE FROM account_tokens'))
+      ).toBeLessThan(statements().findIndex((sql) => sql.includes('INSERT INTO account_tokens')));
+    });
+
+    it('should refuse already verified addresses', async () => {
+      mockQuery.mockResolvedValueOnce(
+        rows([{ email: 'a@example.com', email_verified_at: new Date() }])
+      );
+
+      await expect(service.sendVerificationEmail('user-1')).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'ALREADY_VERIFIED',
+      });
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('prepareVerificationEmail', () => {
+    it('should store the token and leave delivery to the caller', async () => {
+      mockQuery.mockResolvedValueOnce(rows([{ email: 'a@example.com', email_verified_at: null }]));
+
+      const message = await service.prepareVerificationEmail('user-1');
+
+      expect(message.to).toBe('a@example.com');
+      expect(message.text).toContain('https://app.polyladder.test/verify-email?token=');
+      expect(statements().some((sql) => sql.includes('INSERT INTO account_tokens'))).toBe(true);
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should send nothing for unknown addresses', async () => {
+      mockQuery.mockResolvedValueOnce(rows([]));
+
+      expect(await service.requestPasswordReset('Nobody@Example.com')).toBe(false);
+      expect(mockQuery.mock.calls[0][1]).toEqual(['nobody@example.com']);
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should use up the token, set the password and revoke all sessions', async () => {
+      mockStoredToken({
+        id: 'token-1',
+        user_id: 'user-1',
+        expires_at: new Date(Date.now() + 60_000),
+        used_at: null,
+      });
+
+      expect(await service.resetPassword('token', 'new-hash')).toBe('user-1');
+
+      expect(statements().some((sql) => sql.includes('SET used_at'))).toBe(true);
+      expect(statements().some((sql) => sql.includes('SET password_hash'))).toBe(true);
+      expect(statements().some((sql) => sql.includes('UPDATE auth_sessions'))).toBe(true);
+      expect(statements()[statements().length - 1]).toBe('COMMIT');
+    });
+
+    it.each([
+      ['unknown', null],
+      [
+        'used',
+        { id: 't', user_id: 'u', expires_at: new Date(Date.now() + 60_000), used_at: new Date() },
+      ],
+      [
+        'expired',
+        { id: 't', user_id: 'u', expires_at: new Date(Date.now() - 1000), used_at: null },
+      ],
+    ])('should reject %s tokens', async (_label, row) => {
+      mockStoredToken(row);
+
+      await expect(service.resetPassword('token', 'new-hash')).rejects.toMatchObject({
+        statusCode: 400,
+        code: 'INVALID_TOKEN',
+      });
+      expect(statements().some((sql) => sql.includes('SET password_hash'))).toBe(false);
+      expect(statements()).toContain('ROLLBACK');
+      expect(mockRelease).toHaveBeenCalled();
+    });
+  });
+});
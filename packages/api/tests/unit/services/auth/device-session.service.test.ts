@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { Pool, QueryResult } from 'pg';
+import { DeviceSessionService } from '../../../../src/services/auth';
+
+const mockQuery = vi.fn();
+const mockClientQuery = vi.fn();
+const mockRelease = vi.fn();
+const mockPool = {
+  query: mockQuery,
+  connect: vi.fn().mockResolvedValue({ query: mockClientQuery, release: mockRelease }),
+} as unknown as Pool;
+
+const device = { userAgent: 'Test Browser', ipAddress: '203.0.113.7' };
+
+function rows<T>(data: T[]): QueryResult {
+  return { rows: data, rowCount: data.length } as unknown as QueryResult;
+}
+
+function presentedToken(overrides: Record<string, unknown> = {}) {
+  return {
+    session_id: 'session-1',
+    user_id: 'user-1',
+    role: 'learner',
+    expires_at: new Date(Date.now() + 60 * 60 * 1000),
+    rotated_at: null,
+    successor_nonce: null,
+    revoked_at: null,
+    ...overrides,
+  };
+}
+
+function mockPresentedToken(row: ReturnType<typeof presentedToken> | null) {
+  mockClientQuery.mockImplementation((sql: string) =>
+    Promise.resolve(sql.includes('FROM refresh_tokens rt') ? rows(row ? [row] : []) : rows([]))
+  );
+}
+
+function hash(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Keep refresh tokens in memory and let FOR UPDATE wait for the previous
+ * transaction to finish, as concurrent refreshes would in Postgres
+ */
+function mockTokenStore(token: string) {
+  const tokens = new Map([[hash(token), presentedToken()]]);
+  const locks: Array<() => void> = [];
+  let held = Promise.resolve();
+
+  mockClientQuery.mockImplementation(async (sql: string, params: unknown[] = []) => {
+    if (sql.includes('FROM refresh_tokens rt')) {
+      const previous = held;
+      held = new Promise((release) => locks.push(release));
+      await previous;
+      const row = tokens.get(params[0] as string);
+      return rows(row ? [{ ...row }] : []);
+    }
+    if (sql.includes('SET rotated_at')) {
+      Object.assign(tokens.get(params[0] as string)!, {
+        rotated_at: new Date(),
+        successor_nonce: params[1],
+      });
+    }
+    if (sql.includes('INSERT INTO refresh_tokens')) {
+      tokens.set(params[2] as string, presentedToken({ expires_at: params[3] }));
+    }
+    if (sql.includes('SELECT expires_at FROM refresh_tokens')) {
+      const row = tokens.get(params[0] as string);
+      return rows(row && !row.rotated_at ? [row] : []);
+    }
+    if (sql === 'COMMIT' || sql === 'ROLLBACK') {
+      locks.shift()?.();
+    }
+    return rows([]);
+  });
+}
+
+function statements(): string[] {
+  return mockClientQuery.mock.calls.map((call) => String(call[0]));
+}
+
+describe('DeviceSessionService', () => {
+  let service: DeviceSessionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new DeviceSessionService(mockPool, 3600);
+  });
+
+  describe('createSession', () => {
+    it('should open a session and store only the hash of the refresh token', async () => {
+      mockQuery.mockResolvedValueOnce(rows([{ id: 'session-1' }])).mockResolvedValueOnce(rows([]));
+
+      const issued = await service.createSession('user-1', device);
+
+      expect(issued.sessionId).toBe('session-1');
+      expect(issued.refreshToken).toMatch(/^[\w-]{43}$/);
+      const [, params] = mockQuery.mock.calls[1] as [string, unknown[]];
+      expect(params[2]).toBe(createHash('sha256').update(issued.refreshToken).digest('hex'));
+      expect(params).not.toContain(issued.refreshToken);
+    });
+  });
+
+  describe('rotate', () => {
+    it('should mark the presented token rotated and issue a new one', async () => {
+      mockPresentedToken(presentedToken());
+
+      const rotated = await service.rotate('old-token', device);
+
+      expect(rotated).toMatchObject({ userId: 'user-1', role: 'learner', sessionId: 'session-1' });
+      expect(rotated.refreshToken).not.toBe('old-token');
+      expect(statements().some((sql) => sql.includes('SET rotated_at'))).toBe(true);
+      expect(statements().some((sql) => sql.includes('INSERT INTO refresh_tokens'))).toBe(true);
+      expect(statements()[statements().length - 1]).toBe('COMMIT');
+    });
+
+    it('should give concurrent refreshes with the same token the same successor', async () => {
+      mockTokenStore('old-token');
+
+      const [first, second] = await Promise.all([
+        service.rotate('old-token', device),
+        service.rotate('old-token', device),
+      ]);
+
+      expect(second.refreshToken).toBe(first.refreshToken);
+      expect(second.expiresAt).toEqual(first.expiresAt);
+      expect(statements().filter((sql) => sql.includes('INSERT INTO refresh_tokens'))).toHaveLength(
+        1
+      );
+      expect(statements().some((sql) => sql.includes('SET revoked_at'))).toBe(false);
+    });
+
+    it('should treat a replay within the grace window as reuse once the successor was used', async () => {
+      mockTokenStore('old-token');
+      const { refreshToken } = await service.rotate('old-token', device);
+      await service.rotate(refreshToken, device);
+
+      await expect(service.rotate('old-token', device)).rejects.toMatchObject({
+        code: 'TOKEN_REUSED',
+      });
+    });
+
+    it('should revoke the whole session when a rotated token is replayed', async () => {
+      mockPresentedToken(
+        presentedToken({ rotated_at: new Date(Date.now() - 60 * 1000), successor_nonce: 'nonce' })
+      );
+
+      await expect(service.rotate('old-token', device)).rejects.toMatchObject({
+        statusCode: 401,
+        code: 'TOKEN_REUSED',
+      });
+
+      const revoke = mockClientQuery.mock.calls.find((call) =>
+        String(call[0]).includes('UPDATE auth_sessions SET revoked_at')
+      );
+      expect(revoke?.[1]).toEqual(['session-1', 'reuse']);
+      // The revocation is committed, not rolled back with the error
+      expect(statements()).toContain('COMMIT');
+      expect(statements()).not.toContain('ROLLBACK');
+      expect(statements().some((sql) => sql.includes('INSERT INTO refresh_tokens'))).toBe(false);
+    });
+
+    it('should reject tokens of revoked sessions', async () => {
+      mockPresentedToken(presentedToken({ revoked_at: new Date() }));
+
+      await expect(service.rotate('old-token', device)).rejects.toMatchObject({
+        code: 'TOKEN_REVOKED',
+      });
+    });
+
+    it('should reject expired tokens', async () => {
+      mockPresentedToken(presentedToken({ expires_at: new Date(Date.now() - 1000) }));
+
+      await expect(service.rotate('old-token', device)).rejects.toMatchObject({
+        code: 'TOKEN_REVOKED',
+      });
+    });
+
+    it('should reject unknown tokens', async () => {
+      mockPresentedToken(null);
+
+      await expect(service.rotate('unknown', device)).rejects.toMatchObject({
+        statusCode: 401,
+        code: 'INVALID_TOKEN',
+      });
+      expect(mockRelease).toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should return 404 for sessions of other users', async () => {
+      mockQuery.mockResolvedValueOnce(rows([]));
+
+      await expect(service.revokeSession('user-1', 'session-2')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Decode,
+  base32Encode,
+  hotp,
+  matchTotp,
+  provisioningUri,
+  totpStep,
+} from '../../../../src/services/auth/totp';
+
+// RFC 6238 appendix B secret for HMAC-SHA1
+const RFC_SECRET = Buffer.from('12345678901234567890', 'ascii');
+
+describe('TOTP', () => {
+  it('should round-trip base32 secrets', () => {
+    expect(base32Encode(RFC_SECRET)).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq')).toEqual(RFC_SECRET);
+    expect(() => base32Decode('GEZ1')).toThrow('Invalid base32 character');
+  });
+
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('should match the RFC 6238 test vector at %i', (time, code) => {
+    expect(hotp(RFC_SECRET, totpStep(time))).toBe(code);
+  });
+
+  it('should accept codes one step of clock drift away', () => {
+    const now = 1111111111;
+    const previous = hotp(RFC_SECRET, totpStep(now) - 1);
+    const stale = hotp(RFC_SECRET, totpStep(now) - 2);
+
+    expect(matchTotp(RFC_SECRET, previous, now)).toBe(totpStep(now) - 1);
+    expect(matchTotp(RFC_SECRET, stale, now)).toBeNull();
+    expect(matchTotp(RFC_SECRET, '12345', now)).toBeNull();
+  });
+
+  it('should build an otpauth provisioning URI', () => {
+    const uri = provisioningUri('GEZDGNBV', 'ops@example.com', 'PolyLadder');
+
+    expect(uri).toBe(
+      'otpauth://totp/PolyLadder:ops%40example.com?secret=GEZDGNBV&issuer=PolyLadder&algorithm=SHA1&digits=6&period=30'
+    );
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Pool, QueryResult } from 'pg';
+import { TwoFactorService } from '../../../../src/services/auth';
+import { base32Decode, hotp, totpStep } from '../../../../src/services/auth/totp';
+
+const mockQuery = vi.fn();
+const mockClientQuery = vi.fn();
+const mockRelease = vi.fn();
+const mockPool = {
+  query: mockQuery,
+  connect: vi.fn().mockResolvedValue({ query: mockClientQuery, release: mockRelease }),
+} as unknown as Pool;
+
+const SERVER_SECRET = 'test-secret-key-that-is-at-least-32-characters-long';
+
+function rows<T>(data: T[]): QueryResult {
+  return { rows: data, rowCount: data.length } as unknown as QueryResult;
+}
+
+function status(overrides: Record<string, unknown> = {}) {
+  return rows([{ enabled: false, required: false, recovery_codes_remaining: '0', ...overrides }]);
+}
+
+function currentCode(secret: string, offset: number = 0): string {
+  return hotp(base32Decode(secret), totpStep(Date.now() / 1000) + offset);
+}
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockClientQuery.mockResolvedValue(rows([]));
+    service = new TwoFactorService(mockPool, SERVER_SECRET);
+  });
+
+  /**
+   * Start enrollment and return the secret and what was stored for it
+   */
+  async function enroll(): Promise<{ secret: string; stored: string }> {
+    mockQuery.mockResolvedValueOnce(status()).mockResolvedValueOnce(rows([]));
+    const enrollment = await service.startEnrollment('user-1', 'ops@example.com');
+    const stored = (mockQuery.mock.calls[1] as [string, string[]])[1][1];
+    return { secret: enrollment.secret, stored };
+  }
+
+  function mockTotpRow(stored: string, overrides: Record<string, unknown> = {}) {
+    mockClientQuery.mockImplementation((sql: string) =>
+      Promise.resolve(
+        sql.includes('FROM operator_totp')
+          ? rows([
+              { secret_encrypted: stored, enabled_at: null, last_used_step: null, ...overrides },
+            ])
+          : rows([])
+      )
+    );
+  }
+
+  describe('startEnrollment', () => {
+    it('should store the secret encrypted and return a provisioning URI', async () => {
+      const { secret, stored } = await enroll();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(stored).not.toContain(secret);
+      expect(mockQuery.mock.calls[1][0]).toContain('INSERT INTO operator_totp');
+    });
+
+    it('should refuse when 2FA is already enabled', async () => {
+      mockQuery.mockResolvedValueOnce(status({ enabled: true }));
+
+      await expect(service.startEnrollment('user-1', 'ops@example.com')).rejects.toMatchObject({
+        statusCode: 409,
+      });
+    });
+  });
+
+  describe('confirmEnrollment', () => {
+    it('should enable 2FA with a current code and issue ten recovery codes', async () => {
+      const { secret, stored } = await enroll();
+      mockTotpRow(stored);
+
+      const codes = await service.confirmEnrollment('user-1', currentCode(secret));
+
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      codes.forEach((code) => expect(code).toMatch(/^[A-Z2-7]{4}-[A-Z2-7]{4}$/));
+      const insert = mockClientQuery.mock.calls.find((call) =>
+        String(call[0]).includes('INSERT INTO operator_recovery_codes')
+      ) as [string, [string, string[]]];
+      expect(insert[1][1]).not.toContain(codes[0]);
+    });
+
+    it('should reject a wrong code', async () => {
+      const { stored } = await enroll();
+      mockTotpRow(stored);
+
+      await expect(service.confirmEnrollment('user-1', '000000')).rejects.toMatchObject({
+        statusCode: 400,
+        code: 'INVALID_CODE',
+      });
+    });
+  });
+
+  describe('verifyLogin', () => {
+    /**
+     * Enabled 2FA row for login; recovery codes match when recoveryMatches
+     */
+    function mockLoginRow(
+      stored: string,
+      overrides: Record<string, unknown> = {},
+      recoveryMatches: boolean = false
+    ) {
+      mockClientQuery.mockImplementation((sql: string) => {
+        if (sql.includes('FROM operator_totp')) {
+          return Promise.resolve(
+            rows([
+              {
+                secret_encrypted: stored,
+                enabled_at: new Date(),
+                last_used_step: null,
+                failed_login_attempts: 0,
+                locked: false,
+                ...overrides,
+              },
+            ])
+          );
+        }
+        if (sql.includes('UPDATE operator_recovery_codes') && recoveryMatches) {
+          return Promise.resolve(rows([{}]));
+        }
+        return Promise.resolve(rows([]));
+      });
+    }
+
+    const failureUpdate = () =>
+      mockClientQuery.mock.calls.find((call) =>
+        String(call[0]).includes('SET failed_login_attempts = $2')
+      ) as [string, unknown[]] | undefined;
+
+    it('should not accept a code of an already used time step', async () => {
+      const { secret, stored } = await enroll();
+      const step = totpStep(Date.now() / 1000);
+      mockLoginRow(stored, { last_used_step: String(step) });
+
+      await expect(service.verifyLogin('user-1', currentCode(secret))).rejects.toMatchObject({
+        statusCode: 401,
+        code: 'INVALID_CODE',
+      });
+      expect(await service.verifyLogin('user-1', currentCode(secret, 1))).toBe('totp');
+    });
+
+    it('should accept an unused recovery code regardless of case and dashes', async () => {
+      const { stored } = await enroll();
+      mockLoginRow(stored, {}, true);
+      const recoveryParams = () =>
+        mockClientQuery.mock.calls
+          .filter((call) => String(call[0]).includes('UPDATE operator_recovery_codes'))
+          .map((call) => (call as [string, string[]])[1][1]);
+
+      expect(await service.verifyLogin('user-1', 'abcd-efgh')).toBe('recovery_code');
+      await service.verifyLogin('user-1', 'ABCDEFGH');
+
+      const [first, second] = recoveryParams();
+      expect(second).toBe(first);
+      expect(failureUpdate()).toBeUndefined();
+    });
+
+    it('should reject a used or unknown recovery code and count the failure', async () => {
+      const { stored } = await enroll();
+      mockLoginRow(stored, { failed_login_attempts: 1 });
+
+      await expect(service.verifyLogin('user-1', 'ABCD-EFGH')).rejects.toMatchObject({
+        statusCode: 401,
+        code: 'INVALID_CODE',
+      });
+      expect(failureUpdate()?.[1]).toEqual(['user-1', 2, null]);
+      expect(mockClientQuery.mock.calls.map((call) => call[0])).toContain('COMMIT');
+    });
+
+    it('should lock the second step after five wrong codes', async () => {
+      const { stored } = await enroll();
+      mockLoginRow(stored, { failed_login_attempts: 4 });
+
+      await expect(service.verifyLogin('user-1', '000000')).rejects.toMatchObject({
+        statusCode: 401,
+      });
+      expect(failureUpdate()?.[1]).toEqual(['user-1', 0, 15]);
+    });
+
+    it('should refuse even a correct code while locked', async () => {
+      const { secret, stored } = await enroll();
+      mockLoginRow(stored, { locked: true });
+
+      await expect(service.verifyLogin('user-1', currentCode(secret))).rejects.toMatchObject({
+        statusCode: 429,
+        code: 'TWO_FACTOR_LOCKED',
+      });
+      expect(
+        mockClientQuery.mock.calls.some((call) => String(call[0]).includes('last_used_step = $2'))
+      ).toBe(false);
+    });
+  });
+
+  describe('disable', () => {
+    it('should refuse while the policy requires 2FA', async () => {
+      mockQuery.mockResolvedValueOnce(status({ enabled: true, required: true }));
+
+      await expect(service.disable('user-1', '123456')).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'TWO_FACTOR_REQUIRED',
+      });
+    });
+  });
+});
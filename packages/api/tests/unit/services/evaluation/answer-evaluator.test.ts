@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest';
+import { AnswerEvaluator } from '../../../../src/services/evaluation/answer-evaluator';
+import {
+  foldDiacritics,
+  levenshteinDistance,
+  splitLetters,
+  stringSimilarity,
+} from '../../../../src/services/evaluation/string-distance';
+
+describe('string distance', () => {
+  it('should count edits between strings and token sequences', () => {
+    expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+    expect(levenshteinDistance(['the', 'cat'], ['the', 'dog'])).toBe(1);
+    expect(levenshteinDistance('', 'abc')).toBe(3);
+  });
+
+  it('should scale similarity by the longer string', () => {
+    expect(stringSimilarity('', '')).toBe(1);
+    expect(stringSimilarity('', 'hello')).toBe(0);
+    expect(stringSimilarity('hello', 'hallo')).toBeCloseTo(0.8);
+  });
+
+  it('should fold diacritics of all supported languages', () => {
+    expect(foldDiacritics('está año ação città čaša')).toBe('esta ano acao citta casa');
+  });
+
+  it('should split words into letters with their diacritics', () => {
+    expect(splitLetters('ação')).toEqual(['a', 'ç', 'ã', 'o']);
+    expect(splitLetters('c\u030caša')).toEqual(['č', 'a', 'š', 'a']);
+  });
+});
+
+describe('AnswerEvaluator', () => {
+  const evaluator = new AnswerEvaluator();
+
+  describe('normalize', () => {
+    it('should ignore case, punctuation and quote styles', () => {
+      expect(evaluator.normalize('  ¿Cómo  estás? «Bien», gracias!')).toBe(
+        'cómo estás bien gracias'
+      );
+      expect(evaluator.normalize('I DON’T know.', 'EN')).toBe("i don't know");
+    });
+
+    it('should write contractions in contracted form', () => {
+      expect(evaluator.normalize('Voy a el mercado', 'ES')).toBe('voy al mercado');
+      expect(evaluator.normalize('I do not know', 'EN')).toBe("i don't know");
+      expect(evaluator.normalize('Moro em a cidade', 'PT')).toBe('moro na cidade');
+    });
+
+    it('should split Italian elisions into their own word', () => {
+      expect(evaluator.normalize("L'acqua è fredda", 'IT')).toBe("l' acqua è fredda");
+      expect(evaluator.normalize("l' acqua", 'IT')).toBe("l' acqua");
+      expect(evaluator.normalize("il colore di l'acqua", 'IT')).toBe("il colore dell' acqua");
+    });
+
+    it('should fall back to generic rules for unknown languages', () => {
+      expect(evaluator.normalize('a el', 'XX')).toBe('a el');
+      expect(evaluator.normalize('a el', 'es-MX')).toBe('al');
+    });
+  });
+
+  describe('evaluate', () => {
+    it('should match contracted and expanded spellings exactly', () => {
+      const evaluation = evaluator.evaluate('I do not know', ["I don't know."], 'EN');
+
+      expect(evaluation.isExact).toBe(true);
+      expect(evaluation.similarity).toBe(1);
+      expect(evaluation.errors).toEqual([]);
+    });
+
+    it('should pick the closest acceptable answer', () => {
+      const evaluation = evaluator.evaluate('buenos dias', ['hola', 'buenos días'], 'ES');
+
+      expect(evaluation.matchedAnswer).toBe('buenos días');
+      expect(evaluation.isExact).toBe(false);
+      expect(evaluation.spellingSimilarity).toBe(1);
+      expect(evaluation.similarity).toBeLessThan(1);
+    });
+
+    it('should handle missing acceptable answers', () => {
+      const evaluation = evaluator.evaluate('hola', [], 'ES');
+
+      expect(evaluation.matchedAnswer).toBeNull();
+      expect(evaluation.similarity).toBe(0);
+      expect(evaluation.errors).toEqual([]);
+    });
+
+    it('should separate missing accents from wrong accents', () => {
+      expect(evaluator.evaluate('esta aqui', 'está aquí', 'ES').errors).toEqual([
+        {
+          type: 'missing_accent',
+          expected: 'está',
+          actual: 'esta',
+          position: 0,
+          accentPositions: [3],
+        },
+        {
+          type: 'missing_accent',
+          expected: 'aquí',
+          actual: 'aqui',
+          position: 1,
+          accentPositions: [3],
+        },
+      ]);
+      expect(evaluator.evaluate('cafè', 'café', 'IT').errors[0].type).toBe('wrong_accent');
+      expect(evaluator.evaluate('pao', 'pão', 'PT').errors[0].type).toBe('missing_accent');
+      expect(evaluator.evaluate('casa', 'čaša', 'SL').errors[0].type).toBe('missing_accent');
+    });
+
+    it('should diagnose wrong gender endings', () => {
+      expect(evaluator.evaluate('la casa bonito', 'la casa bonita', 'ES').errors).toEqual([
+        { type: 'gender_ending', expected: 'bonita', actual: 'bonito', position: 2 },
+      ]);
+      expect(evaluator.evaluate('lepa hiša', 'lep dan', 'SL').errors[0].type).toBe('gender_ending');
+      // English has no gendered endings
+      expect(evaluator.evaluate('hella', 'hello', 'EN').errors[0].type).toBe('typo');
+    });
+
+    it('should diagnose article mistakes', () => {
+      expect(evaluator.evaluate('la gato', 'el gato', 'ES').errors).toEqual([
+        { type: 'article', expected: 'el', actual: 'la', position: 0 },
+      ]);
+      expect(evaluator.evaluate('gato', 'el gato', 'ES').errors).toEqual([
+        { type: 'article', expected: 'el', position: 0 },
+      ]);
+      // Slovene has no articles
+      expect(evaluator.evaluate('hiša', 'la hiša', 'SL').errors[0].type).toBe('missing_word');
+    });
+
+    it('should tell typos from wrong words', () => {
+      expect(evaluator.evaluate('perrro', 'perro', 'ES').errors[0].type).toBe('typo');
+      expect(evaluator.evaluate('gato', 'perro', 'ES').errors[0].type).toBe('wrong_word');
+    });
+
+    it('should report misplaced words once as word order', () => {
+      const evaluation = evaluator.evaluate('yo mucho como', 'yo como mucho', 'ES');
+
+      expect(evaluation.errors).toEqual([
+        { type: 'word_order', expected: 'como', actual: 'como', position: 1 },
+      ]);
+      expect(evaluation.spellingSimilarity).toBeLessThan(1);
+    });
+
+    it('should produce a word diff and word accuracy', () => {
+      const evaluation = evaluator.evaluate('the big cat sat', 'the cat sat');
+
+      expect(evaluation.wordAccuracy).toBe(0.75);
+      expect(evaluation.diff.map((entry) => entry.type)).toEqual([
+        'correct',
+        'insertion',
+        'correct',
+        'correct',
+      ]);
+      expect(evaluation.errors).toEqual([{ type: 'extra_word', actual: 'big', position: 1 }]);
+    });
+
+    it('should point accent mistakes at the exact letters', () => {
+      const evaluation = evaluator.evaluate('eu nao sei cacar', 'eu não sei caçar', 'PT');
+
+      expect(evaluation.diff[1]).toEqual({
+        type: 'substitution',
+        expected: 'não',
+        actual: 'nao',
+        position: 1,
+        accentPositions: [1],
+      });
+      expect(evaluation.errors.map((error) => error.accentPositions)).toEqual([[1], [2]]);
+      expect(evaluation.diacriticChecks).toEqual([
+        { letter: 'ã', word: 'não', correct: false },
+        { letter: 'ç', word: 'caçar', correct: false },
+      ]);
+    });
+  });
+
+  describe('diacritic strictness', () => {
+    it('should grade accent mistakes as errors when strict', () => {
+      const evaluation = evaluator.evaluate('casa', 'čaša', 'SL', { diacritics: 'strict' });
+
+      expect(evaluation.isExact).toBe(false);
+      expect(evaluation.score).toBe(evaluation.similarity);
+      expect(evaluation.score).toBeLessThan(1);
+    });
+
+    it('should accept accent mistakes with a warning when lenient', () => {
+      const evaluation = evaluator.evaluate('casa', 'čaša', 'SL', { diacritics: 'lenient' });
+
+      expect(evaluation.isExact).toBe(false);
+      expect(evaluation.score).toBe(1);
+      expect(evaluation.errors).toEqual([
+        {
+          type: 'missing_accent',
+          expected: 'čaša',
+          actual: 'casa',
+          position: 0,
+          accentPositions: [0, 2],
+        },
+      ]);
+      expect(evaluation.diacriticChecks.map((check) => check.correct)).toEqual([false, false]);
+    });
+
+    it('should neither grade nor report accents when ignored', () => {
+      const evaluation = evaluator.evaluate('pao e cafe', 'pão e café', 'PT', {
+        diacritics: 'ignore',
+      });
+
+      expect(evaluation.isExact).toBe(true);
+      expect(evaluation.score).toBe(1);
+      expect(evaluation.errors).toEqual([]);
+      expect(evaluation.diacriticChecks).toEqual([]);
+      expect(evaluation.diff.every((entry) => entry.type === 'correct')).toBe(true);
+    });
+
+    it('should record correctly written diacritics', () => {
+      const evaluation = evaluator.evaluate('não sei', 'não sei', 'PT', { diacritics: 'lenient' });
+
+      expect(evaluation.diacriticChecks).toEqual([{ letter: 'ã', word: 'não', correct: true }]);
+    });
+  });
+
+  describe('describe', () => {
+    it('should turn errors into feedback sentences', () => {
+      const { errors } = evaluator.evaluate('la casa bonito esta', 'la casa bonita está', 'ES');
+
+      expect(evaluator.describe(errors)).toBe(
+        'Check the ending of "bonita" (gender/number agreement). Missing accent: "está".'
+      );
+    });
+
+    it('should summarize errors beyond the limit', () => {
+      const { errors } = evaluator.evaluate('a b c d', 'w x y z');
+
+      expect(evaluator.describe(errors, 2)).toMatch(/2 more mistakes\.$/);
+      expect(evaluator.describe([])).toBe('');
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Pool } from 'pg';
+import { DiacriticService } from '../../../../src/services/evaluation/diacritic.service';
+
+describe('DiacriticService', () => {
+  let service: DiacriticService;
+  let mockQuery: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockQuery = vi.fn().mockResolvedValue({ rows: [], rowCount: 0 });
+    service = new DiacriticService({ query: mockQuery } as unknown as Pool);
+  });
+
+  describe('getStrictness', () => {
+    it('should default to lenient', async () => {
+      expect(await service.getStrictness('user-1')).toBe('lenient');
+    });
+
+    it('should return the stored strictness', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ strictness: 'strict' }], rowCount: 1 });
+
+      expect(await service.getStrictness('user-1')).toBe('strict');
+    });
+
+    it('should ignore unknown stored values', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ strictness: 'loose' }], rowCount: 1 });
+
+      expect(await service.getStrictness('user-1')).toBe('lenient');
+    });
+  });
+
+  describe('setStrictness', () => {
+    it('should merge the strictness into the user settings', async () => {
+      await service.setStrictness('user-1', 'ignore');
+
+      expect(mockQuery.mock.calls[0][0]).toContain("'diacriticStrictness'");
+      expect(mockQuery.mock.calls[0][1]).toEqual(['user-1', 'ignore']);
+    });
+  });
+
+  describe('recordChecks', () => {
+    it('should insert one attempt per diacritic letter', async () => {
+      await service.recordChecks('user-1', 'PT', [
+        { letter: 'ç', word: 'caçar', correct: true },
+        { letter: 'ã', word: 'não', correct: false },
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][0]).toContain('INSERT INTO user_diacritic_attempts');
+      expect(mockQuery.mock.calls[0][1]).toEqual([
+        'user-1',
+        'PT',
+        ['ç', 'ã'],
+        ['caçar', 'não'],
+        [true, false],
+      ]);
+    });
+
+    it('should skip answers without a language or diacritics', async () => {
+      await service.recordChecks('user-1', undefined, [
+        { letter: 'ã', word: 'não', correct: true },
+      ]);
+      await service.recordChecks('user-1', 'PT', []);
+
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { ProductionGrader } from '../../../../src/services/evaluation/production-grader';
+
+describe('ProductionGrader', () => {
+  const grader = new ProductionGrader();
+
+  it('should give full marks to an approved utterance', () => {
+    const grade = grader.grade('Los niños comen manzanas.', ['los niños comen manzanas'], 'ES');
+
+    expect(grade.score).toBe(1);
+    expect(grade.qualityRating).toBe(5);
+    expect(grade.feedback).toBe('Perfect!');
+  });
+
+  it('should match lemmas in any order and across gender endings, below full marks', () => {
+    const reordered = grader.grade('manzanas comen los niños', ['los niños comen manzanas'], 'ES');
+    const agreement = grader.grade('la casa bonito', ['la casa bonita'], 'ES');
+
+    expect(reordered.lemmaOverlap).toBe(1);
+    expect(reordered.score).toBe(0.9);
+    expect(reordered.qualityRating).toBe(4);
+    expect(agreement.keywordCoverage).toBe(1);
+    expect(agreement.errors.map((error) => error.type)).toContain('gender_ending');
+  });
+
+  it('should report missing keywords but not missing articles', () => {
+    const grade = grader.grade('niños comen', ['los niños comen manzanas'], 'ES');
+
+    expect(grade.missingKeywords).toEqual(['manzanas']);
+    expect(grade.lemmaOverlap).toBe(0.5);
+    expect(grade.feedback).toContain('Missing: "manzanas".');
+  });
+
+  it('should check grammar rules that apply to the expected answer', () => {
+    const rules = [
+      { ruleId: 'rule-estar', title: 'Estar for states', patterns: ['\\bestoy\\b'] },
+      { ruleId: 'rule-past', title: 'Preterite', patterns: ['\\bestuve\\b'] },
+    ];
+
+    const grade = grader.grade('soy cansado', ['estoy cansado'], 'ES', { rules });
+
+    expect(grade.ruleChecks).toEqual([
+      { ruleId: 'rule-estar', title: 'Estar for states', passed: false },
+    ]);
+    expect(grade.qualityRating).toBe(0);
+    expect(grade.feedback).toContain('Check the rule "Estar for states".');
+  });
+
+  it('should skip malformed rule patterns', () => {
+    const rules = [{ ruleId: 'rule-1', title: 'Broken', patterns: ['(estoy'] }];
+
+    const grade = grader.grade('estoy cansado', ['estoy cansado'], 'ES', { rules });
+
+    expect(grade.ruleChecks).toEqual([]);
+    expect(grade.score).toBe(1);
+  });
+
+  it('should grade against the closest of several utterances', () => {
+    const grade = grader.grade('hasta luego', ['adiós', 'hasta luego'], 'ES');
+
+    expect(grade.matchedAnswer).toBe('hasta luego');
+    expect(grade.isCorrect).toBe(true);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { isDrillId, ParadigmDrillService } from '../../../../src/services/grammar/drill.service';
+
+describe('ParadigmDrillService', () => {
+  // Deterministic "random" keeps the generated drills stable
+  const service = new ParadigmDrillService(undefined, () => 0);
+
+  it('should generate conjugation fill-blank drills', () => {
+    const drills = service.generate('ES', 'conjugation', {
+      exerciseType: 'fill_blank',
+      focus: 'present',
+      limit: 5,
+    });
+
+    expect(drills).toHaveLength(5);
+    for (const drill of drills) {
+      expect(isDrillId(drill.exerciseId)).toBe(true);
+      expect(drill.exerciseType).toBe('fill_blank');
+      expect(drill.grammarRuleId).toBe('paradigm:ES:conjugation');
+      expect(drill.prompt).toContain('in the present');
+      expect(drill.sentenceText).toMatch(/_____$/);
+    }
+  });
+
+  it('should rebuild a drill from its id with the answer and explanation', () => {
+    const drill = service.resolve('paradigm:ES:conjugation:hablar:present:1pl:fill_blank');
+
+    expect(drill).toMatchObject({
+      language: 'ES',
+      kind: 'conjugation',
+      exercise: {
+        prompt: 'Conjugate "hablar" (to speak) in the present',
+        sentenceText: 'nosotros _____',
+        correctAnswer: 'hablamos',
+        difficulty: 2,
+        explanation: 'Present of -ar verbs: nosotros → -amos.',
+      },
+    });
+  });
+
+  it('should build tense transformations from another tense of the same person', () => {
+    const drill = service.resolve(
+      'paradigm:ES:conjugation:tener:preterite:1sg:transformation:present'
+    );
+
+    expect(drill?.exercise).toMatchObject({
+      exerciseType: 'transformation',
+      sentenceText: 'yo tengo → yo _____',
+      correctAnswer: 'tuve',
+      difficulty: 5,
+      explanation: 'tener is irregular in the preterite.',
+    });
+  });
+
+  it('should build declension drills with the governing word as context', () => {
+    const fill = service.resolve('paradigm:SL:declension:hiša:locative:dual:fill_blank');
+    const transform = service.resolve(
+      'paradigm:SL:declension:hiša:locative:plural:transformation:singular'
+    );
+
+    expect(fill?.exercise).toMatchObject({ sentenceText: 'pri _____', correctAnswer: 'hišah' });
+    expect(transform?.exercise).toMatchObject({
+      sentenceText: 'pri hiši → pri _____',
+      correctAnswer: 'hišah',
+    });
+  });
+
+  it('should not resolve malformed or unknown drill ids', () => {
+    expect(service.resolve('paradigm:ES:conjugation:cantar:present:1sg:fill_blank')).toBeNull();
+    expect(service.resolve('paradigm:ES:conjugation:hablar:present:1sg:transformation')).toBeNull();
+    expect(
+      service.resolve('paradigm:ES:conjugation:hablar:present:1sg:transformation:present')
+    ).toBeNull();
+    expect(service.resolve('paradigm:ES:declension:hablar:present:1sg:fill_blank')).toBeNull();
+  });
+
+  it('should reject languages without tables and unknown tenses', () => {
+    expect(() => service.generate('XX', 'conjugation')).toThrow(
+      expect.objectContaining({ statusCode: 404 })
+    );
+    expect(() => service.generate('ES', 'conjugation', { focus: 'aorist' })).toThrow(
+      expect.objectContaining({ statusCode: 400 })
+    );
+    expect(service.generate('ES', 'declension')).toEqual([]);
+  });
+});
@@ -303,6 +303,36 @@ describe('GrammarExerciseService', () => {
       );
     });
 
+    it('should validate paradigm drills without a stored exercise', async () => {
+      const drillId = 'paradigm:ES:conjugation:hablar:present:1pl:fill_blank';
+      mockPool.query.mockResolvedValue(mockQueryResult([], 0));
+
+      const result = await service.validateAnswer(drillId, 'hablamos', 'user-123', 1);
+
+      expect(result.isCorrect).toBe(true);
+      expect(result.partialCredit).toBe(0.8);
+      expect(mockPool.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('FROM grammar_exercises'),
+        expect.anything()
+      );
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('INSERT INTO user_exercise_results'),
+        [
+          'user-123',
+          '00000000-0000-0000-0000-000000000000',
+          'ES',
+          true,
+          JSON.stringify({ answer: 'hablamos', partialCredit: 0.8, hintsUsed: 1, drillId }),
+        ]
+      );
+    });
+
+    it('should reject unknown paradigm drills', async () => {
+      await expect(
+        service.validateAnswer('paradigm:ES:conjugation:cantar:present:1pl:fill_blank', 'x', 'u')
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+
     it('should handle accent normalization in text validation', async () => {
       const exerciseId = 'ex-4';
       const userAnswer = 'café';
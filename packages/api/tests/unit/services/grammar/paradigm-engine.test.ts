@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { ParadigmEngine } from '../../../../src/services/grammar/paradigms';
+
+describe('ParadigmEngine', () => {
+  const engine = new ParadigmEngine();
+
+  describe('conjugate', () => {
+    it('should attach the class ending to the root', () => {
+      expect(engine.conjugate('ES', 'hablar', 'present', '1pl')).toEqual({
+        form: 'hablamos',
+        irregular: false,
+        ending: 'amos',
+        classLabel: '-ar',
+      });
+      expect(engine.conjugate('PT', 'partir', 'preterite', '3sg')?.form).toBe('partiu');
+      expect(engine.conjugate('SL', 'govoriti', 'present', '3pl')?.form).toBe('govorijo');
+    });
+
+    it('should attach future endings to the infinitive or the suffixed root', () => {
+      expect(engine.conjugate('ES', 'vivir', 'future', '2sg')?.form).toBe('vivirás');
+      expect(engine.conjugate('IT', 'parlare', 'future', '1sg')?.form).toBe('parlerò');
+      expect(engine.conjugate('IT', 'dormire', 'future', '3pl')?.form).toBe('dormiranno');
+    });
+
+    it('should use irregular stems with regular endings', () => {
+      expect(engine.conjugate('ES', 'tener', 'future', '1sg')).toEqual({
+        form: 'tendré',
+        irregular: true,
+        ending: 'é',
+        classLabel: '-er',
+      });
+      expect(engine.conjugate('SL', 'pisati', 'present', '1du')?.form).toBe('piševa');
+    });
+
+    it('should prefer spelled-out irregular tenses and fall back to the class elsewhere', () => {
+      expect(engine.conjugate('ES', 'ser', 'present', '1sg')).toEqual({
+        form: 'soy',
+        irregular: true,
+        ending: null,
+        classLabel: '-er',
+      });
+      expect(engine.conjugate('ES', 'ser', 'future', '1sg')?.form).toBe('seré');
+      expect(engine.conjugate('IT', 'finire', 'present', '3sg')?.form).toBe('finisce');
+    });
+
+    it('should return null outside the tables', () => {
+      expect(engine.conjugate('ES', 'cantar', 'present', '1sg')).toBeNull();
+      expect(engine.conjugate('SL', 'delati', 'future', '1sg')).toBeNull();
+      expect(engine.conjugate('ES', 'hablar', 'present', '1du')).toBeNull();
+      expect(engine.conjugate('XX', 'hablar', 'present', '1sg')).toBeNull();
+    });
+  });
+
+  describe('decline', () => {
+    it('should decline nouns by case and number, including the dual', () => {
+      expect(engine.decline('SL', 'hiša', 'locative', 'dual')).toEqual({
+        form: 'hišah',
+        irregular: false,
+        ending: 'ah',
+        classLabel: 'feminine -a',
+      });
+      expect(engine.decline('SL', 'mesto', 'instrumental', 'plural')?.form).toBe('mesti');
+      expect(engine.decline('SL', 'hiša', 'genitive', 'plural')?.form).toBe('hiš');
+    });
+
+    it('should distinguish animate and inanimate masculine accusatives', () => {
+      expect(engine.decline('SL', 'stol', 'accusative', 'singular')?.form).toBe('stol');
+      expect(engine.decline('SL', 'študent', 'accusative', 'singular')?.form).toBe('študenta');
+    });
+
+    it('should return null for languages without declension tables', () => {
+      expect(engine.decline('ES', 'casa', 'genitive', 'singular')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Pool } from 'pg';
+import { HintService, applyHintPenalty, MAX_HINT_LEVEL } from '../../../../src/services/hints';
+
+describe('applyHintPenalty', () => {
+  it('should keep the quality when no hints were used', () => {
+    expect(applyHintPenalty(5, 0)).toBe(5);
+    expect(applyHintPenalty(4)).toBe(4);
+  });
+
+  it('should lower the quality by one per hint', () => {
+    expect(applyHintPenalty(5, 1)).toBe(4);
+    expect(applyHintPenalty(5, 3)).toBe(2);
+    expect(applyHintPenalty(2, 4)).toBe(0);
+  });
+
+  it('should grade a revealed answer as a failed recall', () => {
+    expect(applyHintPenalty(5, MAX_HINT_LEVEL)).toBe(1);
+    expect(applyHintPenalty(0, MAX_HINT_LEVEL)).toBe(0);
+  });
+});
+
+describe('HintService', () => {
+  let service: HintService;
+  let mockQuery: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockQuery = vi.fn().mockResolvedValue({ rows: [], rowCount: 0 });
+    service = new HintService({ query: mockQuery } as unknown as Pool);
+  });
+
+  const clozeRequest = {
+    exerciseType: 'cloze' as const,
+    language: 'ES',
+    answer: 'mañana',
+    meaningId: 'meaning-1',
+  };
+
+  it('should give the first letter at level 1', async () => {
+    const hint = await service.getHint('user-1', { ...clozeRequest, level: 1 });
+
+    expect(hint).toEqual({
+      level: 1,
+      type: 'first_letter',
+      text: 'Starts with "m"',
+      isReveal: false,
+    });
+  });
+
+  it('should count letters of single words and words of phrases at level 2', async () => {
+    const word = await service.getHint('user-1', { ...clozeRequest, level: 2 });
+    const phrase = await service.getHint('user-1', {
+      ...clozeRequest,
+      answer: 'hasta luego',
+      level: 2,
+    });
+
+    expect(word.text).toBe('One word, 6 letters');
+    expect(phrase.text).toBe('2 words');
+  });
+
+  it('should give the part of speech as the grammar hint of vocabulary', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ part_of_speech: 'adverb' }] });
+
+    const hint = await service.getHint('user-1', { ...clozeRequest, level: 3 });
+
+    expect(hint.type).toBe('grammar');
+    expect(hint.text).toBe('Part of speech: adverb');
+  });
+
+  it('should give the meaning in another studied language at level 4', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ language: 'IT', text: 'domani' }] });
+
+    const hint = await service.getHint('user-1', { ...clozeRequest, level: 4 });
+
+    expect(hint.text).toBe('In IT: "domani"');
+    expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('user_languages'), [
+      'user-1',
+      'meaning-1',
+      'ES',
+    ]);
+  });
+
+  it('should say so when no other studied language has the meaning', async () => {
+    const hint = await service.getHint('user-1', { ...clozeRequest, level: 4 });
+
+    expect(hint.text).toBe('No example in your other languages');
+  });
+
+  it('should reveal the answer at the last level', async () => {
+    const hint = await service.getHint('user-1', { ...clozeRequest, level: MAX_HINT_LEVEL });
+
+    expect(hint).toMatchObject({ type: 'reveal', text: 'Answer: "mañana"', isReveal: true });
+  });
+
+  it('should record each hint for analytics', async () => {
+    await service.getHint('user-1', { ...clozeRequest, level: 2 });
+
+    expect(mockQuery).toHaveBeenLastCalledWith(expect.stringContaining('INSERT INTO hint_usage'), [
+      'user-1',
+      'cloze',
+      'ES',
+      'meaning-1',
+      2,
+      'word_count',
+    ]);
+  });
+
+  it('should use the grammar exercise, preferring its authored hint', async () => {
+    mockQuery.mockResolvedValueOnce({
+      rows: [
+        {
+          correct_answer: ['yo', 'soy', 'estudiante'],
+          hint: 'Use the verb for permanent traits',
+          rule_id: 'rule-1',
+          title: 'Ser vs Estar',
+          explanation: 'SER is for identity. ESTAR is for states.',
+          category: 'verbs',
+        },
+      ],
+    });
+
+    const hint = await service.getHint('user-1', {
+      exerciseType: 'grammar',
+      language: 'ES',
+      grammarExerciseId: '2b1f1c4e-0000-4000-8000-000000000001',
+      level: 3,
+    });
+
+    expect(hint.text).toBe('Use the verb for permanent traits');
+  });
+
+  it('should fall back to the rule explanation without an authored hint', async () => {
+    mockQuery.mockResolvedValueOnce({
+      rows: [
+        {
+          correct_answer: 'soy',
+          hint: null,
+          rule_id: 'rule-1',
+          title: 'Ser vs Estar',
+          explanation: 'SER is for identity. ESTAR is for states.',
+          category: 'verbs',
+        },
+      ],
+    });
+
+    const hint = await service.getHint('user-1', {
+      exerciseType: 'grammar',
+      language: 'ES',
+      grammarExerciseId: '2b1f1c4e-0000-4000-8000-000000000001',
+      level: 3,
+    });
+
+    expect(hint.text).toBe('Ser vs Estar: SER is for identity.');
+  });
+
+  it('should use the explanation of a paradigm drill as its grammar hint', async () => {
+    const request = {
+      exerciseType: 'grammar' as const,
+      language: 'ES',
+      grammarExerciseId: 'paradigm:ES:conjugation:hablar:present:1pl:fill_blank',
+    };
+
+    const grammar = await service.getHint('user-1', { ...request, level: 3 });
+    const reveal = await service.getHint('user-1', { ...request, level: MAX_HINT_LEVEL });
+
+    expect(grammar.text).toBe('Present of -ar verbs: nosotros → -amos.');
+    expect(reveal.text).toBe('Answer: "hablamos"');
+    expect(mockQuery).not.toHaveBeenCalledWith(
+      expect.stringContaining('grammar_exercises'),
+      expect.anything()
+    );
+  });
+
+  it('should reject grammar hints for unknown exercises', async () => {
+    await expect(
+      service.getHint('user-1', {
+        exerciseType: 'grammar',
+        language: 'ES',
+        grammarExerciseId: '2b1f1c4e-0000-4000-8000-000000000001',
+        level: 1,
+      })
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should require the answer outside grammar exercises', async () => {
+    await expect(
+      service.getHint('user-1', { exerciseType: 'recall', language: 'ES', level: 1 })
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('should reject levels outside the ladder', async () => {
+    await expect(service.getHint('user-1', { ...clozeRequest, level: 6 })).rejects.toMatchObject({
+      statusCode: 400,
+    });
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createMailer, FileMailer, RecordedMail } from '../../../../src/services/mail';
+
+describe('FileMailer', () => {
+  let directory: string | null = null;
+
+  afterEach(async () => {
+    if (directory) {
+      await rm(directory, { recursive: true, force: true });
+      directory = null;
+    }
+  });
+
+  it('should append one JSON line per message', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mailer-'));
+    const filePath = join(directory, 'nested', 'mail.jsonl');
+    const mailer = new FileMailer('no-reply@polyladder.test', filePath);
+
+    await mailer.send({ to: 'a@example.com', subject: 'First', text: 'one' });
+    await mailer.send({ to: 'b@example.com', subject: 'Second', text: 'two' });
+
+    const lines = (await readFile(filePath, 'utf8')).trim().split('\n');
+    const mails = lines.map((line) => JSON.parse(line) as RecordedMail);
+    expect(mails.map((mail) => mail.subject)).toEqual(['First', 'Second']);
+    expect(mails[0]).toMatchObject({ from: 'no-reply@polyladder.test', to: 'a@example.com' });
+  });
+});
+
+describe('createMailer', () => {
+  it('should default to printing mail on the console', () => {
+    expect(createMailer({ transport: 'console', from: 'a@example.com' }).transport).toBe('console');
+  });
+
+  it('should require the settings of the chosen transport', () => {
+    expect(() => createMailer({ transport: 'smtp', from: 'a@example.com' })).toThrow('SMTP_HOST');
+    expect(() => createMailer({ transport: 'file', from: 'a@example.com' })).toThrow(
+      'MAILER_FILE_PATH'
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { AddressInfo, createServer, Server, Socket } from 'net';
+import { SmtpMailer } from '../../../../src/services/mail';
+
+interface FakeRelay {
+  port: number;
+  commands: string[];
+  data: string[];
+}
+
+let server: Server | null = null;
+
+/**
+ * Minimal plaintext SMTP relay that accepts every message
+ */
+async function startRelay(extensions: string[] = []): Promise<FakeRelay> {
+  const relay: FakeRelay = { port: 0, commands: [], data: [] };
+
+  server = createServer((socket: Socket) => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 relay.test ESMTP\r\n');
+
+    socket.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString('utf8');
+
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        relay.data.push(buffer.slice(0, end));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 queued\r\n');
+      }
+
+      let end = buffer.indexOf('\r\n');
+      while (!inData && end !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        relay.commands.push(line);
+
+        if (line.startsWith('EHLO')) {
+          const lines = ['relay.test', ...extensions];
+          socket.write(
+            lines.map((text, i) => `250${i === lines.length - 1 ? ' ' : '-'}${text}\r\n`).join('')
+          );
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+        end = buffer.indexOf('\r\n');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+  relay.port = (server!.address() as AddressInfo).port;
+  return relay;
+}
+
+describe('SmtpMailer', () => {
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = null;
+  });
+
+  it('should deliver a base64 encoded message', async () => {
+    const relay = await startRelay();
+    const mailer = new SmtpMailer('PolyLadder <no-reply@polyladder.test>', {
+      host: '127.0.0.1',
+      port: relay.port,
+      secure: false,
+    });
+
+    await mailer.send({ to: 'learner@example.com', subject: 'Grüße', text: 'Hallo Welt' });
+
+    expect(relay.commands).toEqual([
+      'EHLO polyladder',
+      'MAIL FROM:<no-reply@polyladder.test>',
+      'RCPT TO:<learner@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+    const [message] = relay.data;
+    expect(message).toContain('To: learner@example.com');
+    expect(message).toContain(`Subject: =?UTF-8?B?${Buffer.from('Grüße').toString('base64')}?=`);
+    const body = message.split('\r\n\r\n')[1];
+    expect(Buffer.from(body, 'base64').toString('utf8')).toBe('Hallo Welt');
+  });
+
+  it('should refuse to send credentials without TLS', async () => {
+    const relay = await startRelay();
+    const mailer = new SmtpMailer('no-reply@polyladder.test', {
+      host: '127.0.0.1',
+      port: relay.port,
+      secure: false,
+      user: 'mailer',
+      password: 'secret',
+    });
+
+    await expect(
+      mailer.send({ to: 'learner@example.com', subject: 'Hi', text: 'Hi' })
+    ).rejects.toMatchObject({ statusCode: 502, message: expect.stringContaining('TLS') });
+    expect(relay.commands.some((command) => command.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('should fail with 502 when the relay is unreachable', async () => {
+    const relay = await startRelay();
+    await new Promise<void>((resolve) => server!.close(() => resolve()));
+    server = null;
+    const mailer = new SmtpMailer('no-reply@polyladder.test', {
+      host: '127.0.0.1',
+      port: relay.port,
+      secure: false,
+    });
+
+    await expect(
+      mailer.send({ to: 'learner@example.com', subject: 'Hi', text: 'Hi' })
+    ).rejects.toMatchObject({ statusCode: 502 });
+  });
+});
@@ -1,14 +1,18 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Pool } from 'pg';
 import { ClozeExerciseService } from '../../../../src/services/practice/cloze.service';
+import { srsReviewClient } from '../../../helpers/srs';
 
 describe('ClozeExerciseService', () => {
   let service: ClozeExerciseService;
   let mockPool: Pool;
+  let reviewClient: ReturnType<typeof srsReviewClient>;
 
   beforeEach(() => {
+    reviewClient = srsReviewClient();
     mockPool = {
       query: vi.fn(),
+      connect: vi.fn().mockResolvedValue(reviewClient),
     } as unknown as Pool;
 
     service = new ClozeExerciseService(mockPool);
@@ -254,17 +258,34 @@ describe('ClozeExerciseService', () => {
     it('should update SRS when meaningId provided', async () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
+      // Diacritic strictness (unset)
+      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
+
       // Recording result
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
 
       // Get SRS item
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [
+          {
+            id: 'srs-1',
+            user_id: 'user-1',
+            item_type: 'vocabulary',
+            item_id: 'en-hello',
+            language: 'EN',
+            ease_factor: 2.5,
+            repetitions: 2,
+            interval: 6,
+            next_review_at: new Date(),
+            last_reviewed_at: null,
+          },
+        ],
         rowCount: 1,
       } as never);
 
-      // Update SRS
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
+      // Scheduler config and due load; the review is written by reviewClient
+      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
+      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
 
       await service.validateClozeAnswer(
         'user-1',
@@ -276,8 +297,11 @@ describe('ClozeExerciseService', () => {
         1000
       );
 
-      // Verify SRS was updated
-      expect(querySpy).toHaveBeenCalledTimes(3);
+      // Verify SRS was updated through the shared engine
+      expect(querySpy).toHaveBeenCalledTimes(5);
+      const writes = reviewClient.query.mock.calls;
+      expect(writes[2][0]).toContain('UPDATE user_srs_items');
+      expect(writes[3][1]).toEqual(expect.arrayContaining(['cloze']));
     });
   });
 
@@ -375,6 +399,70 @@ describe('ClozeExerciseService', () => {
 
       expect(result.isCorrect).toBe(true);
       expect(result.similarity).toBe(1.0);
+      expect(result.errors).toEqual([
+        {
+          type: 'missing_accent',
+          expected: 'café',
+          actual: 'cafe',
+          position: 0,
+          accentPositions: [3],
+        },
+      ]);
+      expect(result.feedback).toContain('Missing accent: "café"');
+    });
+
+    it('should reject missing accents for strict users', async () => {
+      const querySpy = vi.spyOn(mockPool, 'query');
+      querySpy.mockResolvedValueOnce({ rows: [{ strictness: 'strict' }], rowCount: 1 } as never);
+
+      const result = await service.validateClozeAnswer(
+        'user-1',
+        'cloze_1',
+        'nao',
+        'não',
+        [],
+        null,
+        1000
+      );
+
+      expect(result.isCorrect).toBe(false);
+      expect(result.feedback).toContain('Missing accent: "não"');
+    });
+
+    it('should not mention accents for users who ignore them', async () => {
+      const querySpy = vi.spyOn(mockPool, 'query');
+      querySpy.mockResolvedValueOnce({ rows: [{ strictness: 'ignore' }], rowCount: 1 } as never);
+
+      const result = await service.validateClozeAnswer(
+        'user-1',
+        'cloze_1',
+        'cafe',
+        'café',
+        [],
+        null,
+        1000
+      );
+
+      expect(result.isCorrect).toBe(true);
+      expect(result.feedback).toBe('Perfect!');
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should log diacritic letters when the language is known', async () => {
+      const querySpy = vi.spyOn(mockPool, 'query');
+      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
+      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 3 } as never);
+
+      await service.validateClozeAnswer('user-1', 'cloze_1', 'casa', 'čaša', [], null, 1000, 'SL');
+
+      expect(querySpy.mock.calls[1][0]).toContain('INSERT INTO user_diacritic_attempts');
+      expect(querySpy.mock.calls[1][1]).toEqual([
+        'user-1',
+        'SL',
+        ['č', 'š'],
+        ['čaša', 'čaša'],
+        [false, false],
+      ]);
     });
 
     it('should handle empty strings', async () => {
@@ -1,14 +1,18 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Pool } from 'pg';
 import { DictationService } from '../../../../src/services/practice/dictation.service';
+import { srsReviewClient } from '../../../helpers/srs';
 
 describe('DictationService', () => {
   let service: DictationService;
   let mockPool: Pool;
+  let reviewClient: ReturnType<typeof srsReviewClient>;
 
   beforeEach(() => {
+    reviewClient = srsReviewClient();
     mockPool = {
       query: vi.fn(),
+      connect: vi.fn().mockResolvedValue(reviewClient),
     } as unknown as Pool;
 
     service = new DictationService(mockPool);
@@ -57,6 +61,76 @@ describe('DictationService', () => {
 
       expect(result).toEqual([]);
     });
+
+    it('should split the audio into sentence and word group segments', async () => {
+      vi.spyOn(mockPool, 'query').mockResolvedValueOnce({
+        rows: [
+          {
+            meaning_id: 'es-weather',
+            text: 'Hoy hace sol. Mañana, si no llueve mucho, iremos a la playa con los niños.',
+            audio_url: 'https://example.com/weather.wav',
+            audio_length: 6,
+            level: 'A2',
+          },
+        ],
+        rowCount: 1,
+      } as never);
+
+      const [exercise] = await service.getDictationExercises('user-1', 'ES', 10);
+
+      expect(exercise.segments.map((s) => s.text)).toEqual([
+        'Hoy hace sol.',
+        'Mañana, si no llueve mucho,',
+        'iremos a la playa',
+        'con los niños.',
+      ]);
+      expect(exercise.segments[0].startSeconds).toBe(0);
+      expect(exercise.segments[3].endSeconds).toBe(6);
+      for (let i = 1; i < exercise.segments.length; i++) {
+        expect(exercise.segments[i].startSeconds).toBe(exercise.segments[i - 1].endSeconds);
+      }
+    });
+
+    it('should split long sentences without commas into even word groups', async () => {
+      vi.spyOn(mockPool, 'query').mockResolvedValueOnce({
+        rows: [
+          {
+            meaning_id: 'en-long',
+            text: 'The old man walked slowly along the quiet river every single morning',
+            audio_url: 'https://example.com/long.wav',
+            audio_length: 5,
+            level: 'B1',
+          },
+        ],
+        rowCount: 1,
+      } as never);
+
+      const [exercise] = await service.getDictationExercises('user-1', 'EN', 10);
+
+      expect(exercise.segments.map((s) => s.text)).toEqual([
+        'The old man walked slowly along',
+        'the quiet river every single morning',
+      ]);
+    });
+
+    it('should return no segments when the audio length is unknown', async () => {
+      vi.spyOn(mockPool, 'query').mockResolvedValueOnce({
+        rows: [
+          {
+            meaning_id: 'en-hello',
+            text: 'Hello, how are you?',
+            audio_url: 'https://example.com/hello.mp3',
+            audio_length: null,
+            level: 'A1',
+          },
+        ],
+        rowCount: 1,
+      } as never);
+
+      const [exercise] = await service.getDictationExercises('user-1', 'EN', 10);
+
+      expect(exercise.segments).toEqual([]);
+    });
   });
 
   describe('validateDictation', () => {
@@ -65,7 +139,7 @@ describe('DictationService', () => {
 
       // Get SRS item
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
 
@@ -93,7 +167,7 @@ describe('DictationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -115,7 +189,7 @@ describe('DictationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -140,11 +214,11 @@ describe('DictationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
+      // Scheduler config; the review is written in a transaction
+      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
 
       const result = await service.validateDictation(
         'user-1',
@@ -162,7 +236,7 @@ describe('DictationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -185,7 +259,7 @@ describe('DictationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -208,7 +282,7 @@ describe('DictationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -279,7 +353,7 @@ describe('DictationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -300,7 +374,7 @@ describe('DictationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -322,11 +396,11 @@ describe('DictationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
+      // Scheduler config; the review is written in a transaction
+      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
 
       const result = await service.validateDictation(
         'user-1',
@@ -338,6 +412,70 @@ describe('DictationService', () => {
 
       expect(result.qualityRating).toBe(0);
     });
+
+    it('should not lower quality for the free replays', async () => {
+      vi.spyOn(mockPool, 'query').mockResolvedValue({ rows: [], rowCount: 1 } as never);
+
+      const result = await service.validateDictation(
+        'user-1',
+        'en-test',
+        'hello world',
+        'hello world',
+        1000,
+        'EN',
+        2
+      );
+
+      expect(result.qualityRating).toBe(5);
+    });
+
+    it('should lower quality by one per extra replay, but not below 3', async () => {
+      vi.spyOn(mockPool, 'query').mockResolvedValue({ rows: [], rowCount: 1 } as never);
+
+      const oneExtra = await service.validateDictation(
+        'user-1',
+        'en-test',
+        'hello world',
+        'hello world',
+        1000,
+        'EN',
+        3
+      );
+      const manyExtra = await service.validateDictation(
+        'user-1',
+        'en-test',
+        'hello world',
+        'hello world',
+        1000,
+        'EN',
+        10
+      );
+
+      expect(oneExtra.qualityRating).toBe(4);
+      expect(manyExtra.qualityRating).toBe(3);
+    });
+
+    it('should record the replay count with the attempt', async () => {
+      const querySpy = vi
+        .spyOn(mockPool, 'query')
+        .mockResolvedValue({ rows: [], rowCount: 1 } as never);
+
+      await service.validateDictation(
+        'user-1',
+        'en-test',
+        'hello world',
+        'hello world',
+        1000,
+        'EN',
+        4
+      );
+
+      const insertCall = querySpy.mock.calls.find((call) =>
+        String(call[0]).includes('INSERT INTO user_exercise_results')
+      );
+      const userAnswer = JSON.parse((insertCall![1] as string[])[4]) as { replayCount: number };
+      expect(userAnswer.replayCount).toBe(4);
+    });
   });
 
   describe('text normalization', () => {
@@ -345,7 +483,7 @@ describe('DictationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -366,7 +504,7 @@ describe('DictationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
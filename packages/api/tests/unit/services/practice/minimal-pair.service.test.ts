@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Pool } from 'pg';
+import {
+  MinimalPairService,
+  deriveMinimalPairs,
+} from '../../../../src/services/practice/minimal-pair.service';
+
+describe('deriveMinimalPairs', () => {
+  it('should pair words differing by one letter or a doubled letter', () => {
+    expect(deriveMinimalPairs(['caro', 'Carro', 'casa', 'cama', 'livro'])).toEqual([
+      { words: ['caro', 'carro'], contrast: 'r/rr' },
+      { words: ['casa', 'cama'], contrast: 's/m' },
+    ]);
+  });
+
+  it('should treat diacritics as a contrast', () => {
+    expect(deriveMinimalPairs(['avó', 'avô'])).toEqual([
+      { words: ['avó', 'avô'], contrast: 'ó/ô' },
+    ]);
+  });
+
+  it('should ignore insertions that are not doubled letters', () => {
+    expect(deriveMinimalPairs(['mala', 'sol', 'sal', 'salt'])).toEqual([
+      { words: ['sol', 'sal'], contrast: 'o/a' },
+    ]);
+  });
+});
+
+describe('MinimalPairService', () => {
+  let service: MinimalPairService;
+  let mockQuery: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockQuery = vi.fn();
+    // Always plays the second word of a pair and keeps the order
+    service = new MinimalPairService({ query: mockQuery } as unknown as Pool, () => 0.99);
+  });
+
+  describe('getExercises', () => {
+    it('should combine curated pairs with pairs from orthography examples', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [{ example_words: ['čas', 'kos'] }, { example_words: ['vas', 'kot'] }],
+        })
+        .mockResolvedValueOnce({ rows: [{ word: 'čelo', audio_url: '/audio/sl-1.wav' }] });
+
+      const exercises = await service.getExercises('SL', 50);
+      const pairIds = exercises.map((exercise) => exercise.pairId);
+
+      expect(pairIds).toContain('celo/čelo');
+      expect(pairIds).toContain('kos/kot');
+      expect(pairIds).toContain('kos/koš');
+      expect(pairIds.filter((id) => id === 'kos/koš')).toHaveLength(1);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('curriculum_graph'), ['SL']);
+    });
+
+    it('should attach audio of the played word when an utterance has it', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ word: 'avô', audio_url: '/audio/pt-1.wav' }] });
+
+      const exercises = await service.getExercises('PT', 50);
+      const avo = exercises.find((exercise) => exercise.pairId === 'avó/avô');
+
+      expect(avo).toMatchObject({
+        contrast: 'ó/ô',
+        targetWord: 'avô',
+        audioUrl: '/audio/pt-1.wav',
+      });
+      expect(avo?.options).toEqual(expect.arrayContaining(['avó', 'avô']));
+    });
+
+    it('should return nothing for languages without pairs', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      expect(await service.getExercises('XX')).toEqual([]);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('submitAnswer', () => {
+    it('should record the answer toward the orthography gate', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ attempts: 20, accuracy: 0.85 }] })
+        .mockResolvedValueOnce({ rows: [{ status: 'unlocked' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await service.submitAnswer('user-1', {
+        language: 'PT',
+        pairId: 'avó/avô',
+        targetWord: 'avô',
+        answer: 'avô',
+      });
+
+      expect(result).toEqual({
+        isCorrect: true,
+        targetWord: 'avô',
+        gate: {
+          attempts: 20,
+          accuracy: 0.85,
+          requiredAttempts: 20,
+          requiredAccuracy: 0.8,
+          gateCompleted: true,
+        },
+      });
+      expect(mockQuery).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('INSERT INTO minimal_pair_results'),
+        ['user-1', 'PT', 'avó/avô', true]
+      );
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining("SET status = 'completed'"),
+        ['user-1', 'PT']
+      );
+    });
+
+    it('should not complete the gate before enough answers', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ attempts: 5, accuracy: 1 }] })
+        .mockResolvedValueOnce({ rows: [{ status: 'unlocked' }] });
+
+      const result = await service.submitAnswer('user-1', {
+        language: 'IT',
+        pairId: 'caro/carro',
+        targetWord: 'carro',
+        answer: 'caro',
+      });
+
+      expect(result.isCorrect).toBe(false);
+      expect(result.gate.gateCompleted).toBe(false);
+      expect(mockQuery).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject answers that are not words of the pair', async () => {
+      await expect(
+        service.submitAnswer('user-1', {
+          language: 'IT',
+          pairId: 'caro/carro',
+          targetWord: 'carro',
+          answer: 'cane',
+        })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,6 +1,13 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Pool, QueryResult } from 'pg';
 import { MixedSessionService } from '../../../../src/services/practice/mixed-session.service';
+import { MixedExerciseItem } from '../../../../src/services/practice/mixed-session.interface';
+import { ClozeExerciseService } from '../../../../src/services/practice/cloze.service';
+import { TranslationService } from '../../../../src/services/practice/translation.service';
+import { InterferenceDetectionService } from '../../../../src/services/interference/interference-detection.service';
+import { InterferencePattern } from '../../../../src/services/interference/interference.interface';
+import { WeaknessIdentificationService } from '../../../../src/services/analytics/weakness-identification.service';
+import { WeaknessAnalysis } from '../../../../src/services/analytics/weakness-identification.interface';
 
 // Mock pg Pool
 const mockQuery = vi.fn();
@@ -142,6 +149,80 @@ describe('MixedSessionService', () => {
       ).rejects.toThrow('No items available for practice in any language');
     });
 
+    it('should interleave exercises of other practice modes', async () => {
+      const clozeSpy = vi
+        .spyOn(ClozeExerciseService.prototype, 'getClozeExercises')
+        .mockImplementation((_userId, language) =>
+          Promise.resolve(
+            [1, 2].map((n) => ({
+              exerciseId: `cloze-${language}-${n}`,
+              sentenceWithBlank: `${language} sentence _____ ${n}`,
+              correctAnswer: 'word',
+              alternativeAnswers: [],
+              hint: { firstLetter: 'w', wordLength: 4, partOfSpeech: null },
+              context: null,
+              audioUrl: null,
+              explanation: '',
+              cefrLevel: 'B1',
+              meaningId: null,
+            }))
+          )
+        );
+      const translationSpy = vi
+        .spyOn(TranslationService.prototype, 'getTranslationExercises')
+        .mockImplementation((_userId, sourceLanguage, targetLanguage) =>
+          Promise.resolve(
+            [1, 2].map((n) => ({
+              exerciseId: `translation-${targetLanguage}-${n}`,
+              sourceText: `${sourceLanguage} text ${n}`,
+              sourceLanguage,
+              targetLanguage,
+              acceptableTranslations: ['text'],
+              hint: { firstWord: 'text', wordCount: 1 },
+              cefrLevel: 'A2',
+              meaningId: `meaning-${n}`,
+            }))
+          )
+        );
+
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          { language: 'EN', proficiency_score: 50 },
+          { language: 'RU', proficiency_score: 30 },
+        ],
+        rowCount: 2,
+      } as unknown as QueryResult);
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'session-123' }],
+        rowCount: 1,
+      } as unknown as QueryResult);
+
+      const result = await service.createMixedSession({
+        userId: 'user-123',
+        practiceTypes: ['cloze', 'translation'],
+        itemsPerLanguage: 4,
+        mixingStrategy: 'equal',
+        totalItems: 8,
+      });
+
+      expect(translationSpy).toHaveBeenCalledWith('user-123', 'RU', 'EN', 2);
+      expect(translationSpy).toHaveBeenCalledWith('user-123', 'EN', 'RU', 2);
+      expect(result.items).toHaveLength(8);
+      expect(result.items.filter((item) => item.practiceType === 'cloze')).toHaveLength(4);
+
+      const cloze = result.items.find((item) => item.practiceType === 'cloze');
+      expect(cloze?.exercise).toMatchObject({ exerciseId: expect.stringMatching(/^cloze-/) });
+      expect(cloze?.estimatedDifficulty).toBe(3);
+      expect(cloze?.meaningId).toBeNull();
+
+      const translation = result.items.find((item) => item.practiceType === 'translation');
+      expect(translation?.content.text).toMatch(/text/);
+      expect(translation?.estimatedDifficulty).toBe(2);
+
+      clozeSpy.mockRestore();
+      translationSpy.mockRestore();
+    });
+
     it('should apply weighted distribution strategy', async () => {
       // Mock active languages
       mockQuery.mockResolvedValueOnce({
@@ -246,6 +327,219 @@ describe('MixedSessionService', () => {
     });
   });
 
+  describe('adaptive strategy', () => {
+    const vocabRow = (meaningId: string, word: string) => ({
+      meaning_id: meaningId,
+      word_text: word,
+      definition: null,
+      audio_url: null,
+      level: 'A1',
+      ease_factor: 2.5,
+    });
+
+    const mockAdaptiveData = () => {
+      const burro: InterferencePattern = {
+        id: 'pattern-1',
+        userId: 'user-123',
+        targetLanguage: 'IT',
+        sourceLanguage: 'ES',
+        targetItemId: 'it-burro',
+        targetText: 'burro',
+        interferingItemId: 'es-burro',
+        interferingText: 'burro',
+        interferenceType: 'vocabulary',
+        confidenceScore: 1,
+        occurrenceCount: 3,
+        lastOccurrence: new Date(),
+        remediationCompleted: false,
+        createdAt: new Date(),
+      };
+
+      vi.spyOn(
+        InterferenceDetectionService.prototype,
+        'getUserInterferencePatterns'
+      ).mockResolvedValue([burro, { ...burro, id: 'pattern-2', sourceLanguage: 'DE' }]);
+      vi.spyOn(WeaknessIdentificationService.prototype, 'analyzeWeaknesses').mockResolvedValue({
+        topWeaknesses: [
+          { itemId: 'it-cane', itemType: 'vocabulary', language: 'IT', severityScore: 80 },
+        ],
+      } as unknown as WeaknessAnalysis);
+
+      // Active languages
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          { language: 'ES', proficiency_score: 50 },
+          { language: 'IT', proficiency_score: 50 },
+        ],
+        rowCount: 2,
+      } as unknown as QueryResult);
+
+      // Due items for ES and IT
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          vocabRow('es-burro', 'burro'),
+          ...[1, 2, 3, 4, 5].map((n) => vocabRow(`es-${n}`, `palabra ${n}`)),
+        ],
+        rowCount: 6,
+      } as unknown as QueryResult);
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          vocabRow('it-burro', 'burro'),
+          ...[1, 2, 3, 4, 5, 6].map((n) => vocabRow(`it-${n}`, `parola ${n}`)),
+          vocabRow('it-cane', 'cane'),
+        ],
+        rowCount: 8,
+      } as unknown as QueryResult);
+
+      // Contrast pair words
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          { ...vocabRow('es-burro', 'burro'), language: 'ES' },
+          { ...vocabRow('it-burro', 'burro'), language: 'IT' },
+        ],
+        rowCount: 2,
+      } as unknown as QueryResult);
+    };
+
+    const createAdaptiveSession = async () => {
+      // Session creation
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'session-123' }],
+        rowCount: 1,
+      } as unknown as QueryResult);
+
+      return service.createMixedSession({
+        userId: 'user-123',
+        practiceTypes: ['recall'],
+        itemsPerLanguage: 10,
+        mixingStrategy: 'adaptive',
+        totalItems: 12,
+      });
+    };
+
+    const pairIndexes = (items: MixedExerciseItem[]) =>
+      items.map((item, index) => (item.contrastWith ? index : -1)).filter((index) => index >= 0);
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should weight languages and words by interference and weaknesses', async () => {
+      mockAdaptiveData();
+      // No earlier switch between IT and ES
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult);
+
+      const result = await createAdaptiveSession();
+      const meaningIds = result.items.map((item) => item.meaningId);
+
+      // 2 pair words, then 10 items split 2.8 : 2 between IT and ES
+      expect(result.items).toHaveLength(11);
+      expect(result.items.filter((item) => item.language === 'IT')).toHaveLength(6);
+      expect(meaningIds).toContain('it-cane');
+      expect(meaningIds.filter((id) => id === 'it-burro')).toHaveLength(1);
+      // The pattern with a language outside the session is ignored
+      expect(mockQuery.mock.calls[3][1]).toEqual([
+        'user-123',
+        ['IT', 'ES'],
+        ['it-burro', 'es-burro'],
+      ]);
+    });
+
+    it('should place confusable words next to each other until separated', async () => {
+      mockAdaptiveData();
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult);
+
+      const result = await createAdaptiveSession();
+      const [first, second] = pairIndexes(result.items);
+
+      expect(second - first).toBe(1);
+      expect(result.items[first].contrastWith).toBe(result.items[second].id);
+      expect(result.items[second].contrastWith).toBe(result.items[first].id);
+    });
+
+    it('should spread confusable words apart once switching is efficient', async () => {
+      mockAdaptiveData();
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ session_id: 'session-prev' }],
+        rowCount: 1,
+      } as unknown as QueryResult);
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ efficiency: '0.9' }],
+        rowCount: 1,
+      } as unknown as QueryResult);
+
+      const result = await createAdaptiveSession();
+      const [first, second] = pairIndexes(result.items);
+
+      expect(mockQuery.mock.calls[5][1]).toEqual(['session-prev', 'ES', 'IT']);
+      expect(second - first).toBe(Math.floor(result.items.length / 2));
+    });
+  });
+
+  describe('clustering prevention', () => {
+    const longestRun = (items: MixedExerciseItem[], key: 'language' | 'practiceType') => {
+      let longest = 0;
+      let run = 0;
+      items.forEach((item, i) => {
+        run = i > 0 && items[i - 1][key] === item[key] ? run + 1 : 1;
+        longest = Math.max(longest, run);
+      });
+      return longest;
+    };
+
+    it('should break up runs of the same language and the same mode', () => {
+      const items: MixedExerciseItem[] = ['EN', 'RU'].flatMap((language) =>
+        (['recall', 'cloze'] as const).flatMap((practiceType) =>
+          [1, 2, 3].map((n) => ({
+            id: `${language}-${practiceType}-${n}`,
+            language,
+            practiceType,
+            meaningId: null,
+            content: { text: '', definition: null, audioUrl: null, level: 'A1' },
+            estimatedDifficulty: 1,
+            exercise: null,
+          }))
+        )
+      );
+      const shuffle = (
+        service as unknown as {
+          shuffleWithClusteringPrevention: (items: MixedExerciseItem[]) => MixedExerciseItem[];
+        }
+      ).shuffleWithClusteringPrevention.bind(service);
+
+      for (let i = 0; i < 50; i++) {
+        const shuffled = shuffle(items);
+
+        expect(shuffled).toHaveLength(items.length);
+        expect(longestRun(shuffled, 'language')).toBeLessThanOrEqual(4);
+        expect(longestRun(shuffled, 'practiceType')).toBeLessThanOrEqual(3);
+      }
+    });
+
+    it('should break up language runs when all items share a mode', () => {
+      const items: MixedExerciseItem[] = ['EN', 'RU'].flatMap((language) =>
+        [1, 2, 3, 4, 5, 6].map((n) => ({
+          id: `${language}-${n}`,
+          language,
+          practiceType: 'recall' as const,
+          meaningId: `${language}-${n}`,
+          content: { text: '', definition: null, audioUrl: null, level: 'A1' },
+          estimatedDifficulty: 1,
+          exercise: null,
+        }))
+      );
+      const shuffle = (
+        service as unknown as {
+          shuffleWithClusteringPrevention: (items: MixedExerciseItem[]) => MixedExerciseItem[];
+        }
+      ).shuffleWithClusteringPrevention.bind(service);
+
+      for (let i = 0; i < 50; i++) {
+        expect(longestRun(shuffle(items), 'language')).toBeLessThanOrEqual(4);
+      }
+    });
+  });
+
   describe('recordMixedAttempt', () => {
     it('should record an attempt and track language switching', async () => {
       // Mock getting previous attempt
@@ -355,6 +649,27 @@ describe('MixedSessionService', () => {
         rowCount: 2,
       } as unknown as QueryResult);
 
+      // Mock per-mode breakdown
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          {
+            item_type: 'cloze',
+            items_attempted: '4',
+            correct_answers: '2',
+            average_time: '15.0',
+            accuracy: '0.5',
+          },
+          {
+            item_type: 'recall',
+            items_attempted: '6',
+            correct_answers: '6',
+            average_time: '10.0',
+            accuracy: '1.0',
+          },
+        ],
+        rowCount: 2,
+      } as unknown as QueryResult);
+
       // Mock switching efficiency
       mockQuery.mockResolvedValueOnce({
         rows: [{ efficiency: '0.75' }],
@@ -376,6 +691,22 @@ describe('MixedSessionService', () => {
       expect(result.languageBreakdown).toHaveLength(2);
       expect(result.languageBreakdown[0].language).toBe('EN');
       expect(result.languageBreakdown[0].accuracy).toBe(0.8);
+      expect(result.modeBreakdown).toEqual([
+        {
+          practiceType: 'cloze',
+          itemsAttempted: 4,
+          correctAnswers: 2,
+          averageTime: 15,
+          accuracy: 0.5,
+        },
+        {
+          practiceType: 'recall',
+          itemsAttempted: 6,
+          correctAnswers: 6,
+          averageTime: 10,
+          accuracy: 1,
+        },
+      ]);
       expect(result.switchingEfficiency).toBe(0.75);
     });
 
@@ -392,6 +723,12 @@ describe('MixedSessionService', () => {
         rowCount: 0,
       } as unknown as QueryResult);
 
+      // Mock per-mode breakdown - empty
+      mockQuery.mockResolvedValueOnce({
+        rows: [],
+        rowCount: 0,
+      } as unknown as QueryResult);
+
       // Mock switching efficiency - default to 1.0
       mockQuery.mockResolvedValueOnce({
         rows: [{ efficiency: '1.0' }],
@@ -409,6 +746,7 @@ describe('MixedSessionService', () => {
       expect(result.totalItems).toBe(0);
       expect(result.totalCorrect).toBe(0);
       expect(result.languageBreakdown).toHaveLength(0);
+      expect(result.modeBreakdown).toHaveLength(0);
       expect(result.switchingEfficiency).toBe(1.0);
     });
   });
@@ -1,14 +1,18 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Pool } from 'pg';
 import { ProductionService } from '../../../../src/services/practice/production.service';
+import { answerSrsReview, srsReviewClient } from '../../../helpers/srs';
 
 describe('ProductionService', () => {
   let service: ProductionService;
   let mockPool: Pool;
+  let reviewClient: ReturnType<typeof srsReviewClient>;
 
   beforeEach(() => {
+    reviewClient = srsReviewClient();
     mockPool = {
-      query: vi.fn(),
+      query: vi.fn(answerSrsReview),
+      connect: vi.fn().mockResolvedValue(reviewClient),
     } as unknown as Pool;
 
     service = new ProductionService(mockPool);
@@ -99,7 +103,7 @@ describe('ProductionService', () => {
 
       // Get SRS item
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
 
@@ -125,7 +129,7 @@ describe('ProductionService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -147,7 +151,7 @@ describe('ProductionService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -169,11 +173,11 @@ describe('ProductionService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
+      // Scheduler config; the review is written in a transaction
+      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
 
       const result = await service.submitAssessment('user-1', {
         meaningId: 'meaning-1',
@@ -211,6 +215,92 @@ describe('ProductionService', () => {
     });
   });
 
+  describe('typed answers', () => {
+    const mockGradingData = (querySpy: ReturnType<typeof vi.spyOn>) => {
+      querySpy.mockResolvedValue({ rows: [], rowCount: 0 } as never);
+      // Approved utterances
+      querySpy.mockResolvedValueOnce({
+        rows: [{ text: 'estoy cansado' }],
+        rowCount: 1,
+      } as never);
+      // Grammar rules with answer patterns
+      querySpy.mockResolvedValueOnce({
+        rows: [{ id: 'rule-1', title: 'Estar for states', answer_patterns: ['\\bestoy\\b'] }],
+        rowCount: 1,
+      } as never);
+      // Diacritic strictness
+      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
+    };
+
+    it('should grade against the approved utterances and grammar rules', async () => {
+      const querySpy = vi.spyOn(mockPool, 'query');
+      mockGradingData(querySpy);
+
+      const grade = await service.gradeAnswer('user-1', 'meaning-1', 'ES', 'soy cansado');
+
+      expect(grade.ruleChecks).toEqual([
+        { ruleId: 'rule-1', title: 'Estar for states', passed: false },
+      ]);
+      expect(grade.isCorrect).toBe(false);
+      expect(querySpy).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject meanings without an approved utterance', async () => {
+      const querySpy = vi.spyOn(mockPool, 'query');
+      querySpy.mockResolvedValue({ rows: [], rowCount: 0 } as never);
+
+      await expect(
+        service.gradeAnswer('user-1', 'meaning-1', 'ES', 'estoy cansado')
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should record the automatic grade', async () => {
+      const querySpy = vi.spyOn(mockPool, 'query');
+      mockGradingData(querySpy);
+
+      const result = await service.submitAnswer('user-1', {
+        meaningId: 'meaning-1',
+        language: 'ES',
+        answer: 'Estoy cansado',
+        timeSpentMs: 4000,
+      });
+
+      expect(result).toMatchObject({
+        qualityRating: 5,
+        autoQualityRating: 5,
+        selfRating: null,
+        isCorrect: true,
+      });
+      const [, params] = querySpy.mock.calls[querySpy.mock.calls.length - 1];
+      expect(JSON.parse((params as string[])[5])).toMatchObject({
+        autoQualityRating: 5,
+        qualityRating: 5,
+        selfRating: null,
+      });
+    });
+
+    it('should let a self-rating override the automatic grade', async () => {
+      const querySpy = vi.spyOn(mockPool, 'query');
+      mockGradingData(querySpy);
+
+      const result = await service.submitAnswer('user-1', {
+        meaningId: 'meaning-1',
+        language: 'ES',
+        answer: 'soy cansado',
+        timeSpentMs: 4000,
+        selfRating: 'good',
+        hintsUsed: 1,
+      });
+
+      expect(result).toMatchObject({
+        autoQualityRating: 0,
+        selfRating: 'good',
+        qualityRating: 3,
+        isCorrect: true,
+      });
+    });
+  });
+
   describe('getStats', () => {
     it('should return practice statistics', async () => {
       const querySpy = vi.spyOn(mockPool, 'query');
@@ -280,12 +370,25 @@ describe('ProductionService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 5, interval: 30 }],
+        rows: [
+          {
+            id: 'srs-1',
+            user_id: 'user-1',
+            item_type: 'vocabulary',
+            item_id: 'meaning-1',
+            language: 'EN',
+            ease_factor: 2.5,
+            repetitions: 5,
+            interval: 30,
+            next_review_at: new Date(),
+            last_reviewed_at: null,
+          },
+        ],
         rowCount: 1,
       } as never);
 
-      // Update SRS
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
+      // Scheduler config; the review is written in a transaction
+      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
 
       // Record attempt
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -299,22 +402,37 @@ describe('ProductionService', () => {
       });
 
       // Verify SRS update was called with reset values
-      const updateCall = querySpy.mock.calls[1];
+      const updateCall = reviewClient.query.mock.calls[2];
       const params = updateCall[1] as unknown[];
+      expect(updateCall[0]).toContain('UPDATE user_srs_items');
+      expect(params[0]).toBe(1); // newInterval reset to 1
       expect(params[1]).toBe(0); // newRepetitions reset to 0
-      expect(params[2]).toBe(1); // newInterval reset to 1
     });
 
     it('should increase interval on successful rating', async () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 3, interval: 10 }],
+        rows: [
+          {
+            id: 'srs-1',
+            user_id: 'user-1',
+            item_type: 'vocabulary',
+            item_id: 'meaning-1',
+            language: 'EN',
+            ease_factor: 2.5,
+            repetitions: 3,
+            interval: 10,
+            next_review_at: new Date(),
+            last_reviewed_at: null,
+          },
+        ],
         rowCount: 1,
       } as never);
 
-      // Update SRS
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
+      // Scheduler config and due load; the review is written in a transaction
+      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
+      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
 
       // Record attempt
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -328,10 +446,13 @@ describe('ProductionService', () => {
       });
 
       // Verify SRS update was called with increased values
-      const updateCall = querySpy.mock.calls[1];
+      const updateCall = reviewClient.query.mock.calls[2];
       const params = updateCall[1] as unknown[];
+      expect(params[0]).toBeGreaterThan(10); // newInterval should increase
       expect(params[1]).toBe(4); // newRepetitions = 3 + 1
-      expect(params[2]).toBeGreaterThan(10); // newInterval should increase
+
+      const historyCall = reviewClient.query.mock.calls[3];
+      expect(historyCall[1]).toEqual(expect.arrayContaining(['easy', 'production']));
     });
   });
 });
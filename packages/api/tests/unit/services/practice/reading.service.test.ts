@@ -1,14 +1,18 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Pool } from 'pg';
 import { ReadingComprehensionService } from '../../../../src/services/practice/reading.service';
+import { answerSrsReview, srsReviewClient } from '../../../helpers/srs';
 
 describe('ReadingComprehensionService', () => {
   let service: ReadingComprehensionService;
   let mockPool: Pool;
+  let reviewClient: ReturnType<typeof srsReviewClient>;
 
   beforeEach(() => {
+    reviewClient = srsReviewClient();
     mockPool = {
-      query: vi.fn(),
+      query: vi.fn(answerSrsReview),
+      connect: vi.fn().mockResolvedValue(reviewClient),
     } as unknown as Pool;
 
     service = new ReadingComprehensionService(mockPool);
@@ -181,7 +185,7 @@ describe('ReadingComprehensionService', () => {
 
       // Get SRS item for update
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
 
@@ -258,7 +262,7 @@ describe('ReadingComprehensionService', () => {
 
       // Get SRS item for update
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
 
@@ -313,12 +317,12 @@ describe('ReadingComprehensionService', () => {
 
       // Get SRS item for update
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
 
-      // Update SRS
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
+      // Scheduler config; the review is written in a transaction
+      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
 
       // Record attempt
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -373,7 +377,7 @@ describe('ReadingComprehensionService', () => {
 
       // Get SRS item for update
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 0, interval: 0 }],
+        rows: [{ ease_factor: 2.5, repetitions: 0, interval: 0, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
 
@@ -497,7 +501,7 @@ describe('ReadingComprehensionService', () => {
 
       querySpy.mockResolvedValueOnce({ rows: [{ id: 'srs-1' }], rowCount: 1 } as never);
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -571,7 +575,7 @@ describe('ReadingComprehensionService', () => {
 
       querySpy.mockResolvedValueOnce({ rows: [{ id: 'srs-1' }], rowCount: 1 } as never);
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -620,11 +624,11 @@ describe('ReadingComprehensionService', () => {
 
       querySpy.mockResolvedValueOnce({ rows: [{ id: 'srs-1' }], rowCount: 1 } as never);
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
+      // Scheduler config; the review is written in a transaction
+      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
 
       const result = await service.submitAnswers(
         'user-1',
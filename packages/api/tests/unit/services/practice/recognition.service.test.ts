@@ -1,14 +1,42 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, vi, MockInstance } from 'vitest';
 import { Pool } from 'pg';
 import { RecognitionPracticeService } from '../../../../src/services/practice/recognition.service';
+import { answerSrsReview, srsReviewClient } from '../../../helpers/srs';
+
+// SRSService looks up the scheduled item, then reads the scheduler config,
+// checks the due load when the new interval can be fuzzed, updates the item
+// and writes the review history and review log
+function srsItemRow(progress: { ease_factor: number; repetitions: number; interval: number }) {
+  return {
+    id: 'srs-1',
+    user_id: 'user-123',
+    item_type: 'vocabulary',
+    item_id: 'en-hello',
+    language: 'EN',
+    next_review_at: new Date(),
+    last_reviewed_at: null,
+    ...progress,
+  };
+}
+
+function mockSrsWrites(querySpy: MockInstance, { balanced = false } = {}) {
+  querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
+
+  if (balanced) {
+    querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
+  }
+}
 
 describe('RecognitionPracticeService', () => {
   let service: RecognitionPracticeService;
   let mockPool: Pool;
+  let reviewClient: ReturnType<typeof srsReviewClient>;
 
   beforeEach(() => {
+    reviewClient = srsReviewClient();
     mockPool = {
-      query: vi.fn(),
+      query: vi.fn(answerSrsReview),
+      connect: vi.fn().mockResolvedValue(reviewClient),
     } as unknown as Pool;
 
     service = new RecognitionPracticeService(mockPool);
@@ -111,21 +139,12 @@ describe('RecognitionPracticeService', () => {
 
       // Mock get SRS item
       querySpy.mockResolvedValueOnce({
-        rows: [
-          {
-            ease_factor: 2.5,
-            repetitions: 1,
-            interval: 1,
-          },
-        ],
+        rows: [srsItemRow({ ease_factor: 2.5, repetitions: 1, interval: 1 })],
         rowCount: 1,
       } as never);
 
-      // Mock update SRS item
-      querySpy.mockResolvedValueOnce({
-        rows: [],
-        rowCount: 1,
-      } as never);
+      // Mock SRS config lookup and due load; the review is written in a transaction
+      mockSrsWrites(querySpy, { balanced: true });
 
       // Mock get utterance for correct answer
       querySpy.mockResolvedValueOnce({
@@ -138,6 +157,10 @@ describe('RecognitionPracticeService', () => {
       expect(result.isCorrect).toBe(true);
       expect(result.explanation).toBe('Correct! Well done.');
       expect(result.interval).toBeGreaterThan(0);
+
+      const historyCall = reviewClient.query.mock.calls[3];
+      expect(historyCall[0]).toContain('INSERT INTO srs_review_history');
+      expect(historyCall[1]).toEqual(expect.arrayContaining(['good', 'recognition']));
     });
 
     it('should handle incorrect answer and reset SRS progress', async () => {
@@ -145,21 +168,12 @@ describe('RecognitionPracticeService', () => {
 
       // Mock get SRS item with some progress
       querySpy.mockResolvedValueOnce({
-        rows: [
-          {
-            ease_factor: 2.5,
-            repetitions: 3,
-            interval: 15,
-          },
-        ],
+        rows: [srsItemRow({ ease_factor: 2.5, repetitions: 3, interval: 15 })],
         rowCount: 1,
       } as never);
 
-      // Mock update SRS item
-      querySpy.mockResolvedValueOnce({
-        rows: [],
-        rowCount: 1,
-      } as never);
+      // Mock SRS config lookup; the review is written in a transaction
+      mockSrsWrites(querySpy);
 
       // Mock get utterance
       querySpy.mockResolvedValueOnce({
@@ -233,17 +247,17 @@ describe('RecognitionPracticeService', () => {
     });
   });
 
-  describe('SM-2 Algorithm', () => {
+  describe('SRS scheduling', () => {
     it('should increase interval on correct answer (quality 4)', async () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       // First successful review
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 0, interval: 0 }],
+        rows: [srsItemRow({ ease_factor: 2.5, repetitions: 0, interval: 0 })],
         rowCount: 1,
       } as never);
 
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
+      mockSrsWrites(querySpy);
       querySpy.mockResolvedValueOnce({
         rows: [{ text: 'word', usage_notes: null }],
         rowCount: 1,
@@ -260,11 +274,11 @@ describe('RecognitionPracticeService', () => {
 
       // Item with existing progress
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 5, interval: 30 }],
+        rows: [srsItemRow({ ease_factor: 2.5, repetitions: 5, interval: 30 })],
         rowCount: 1,
       } as never);
 
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
+      mockSrsWrites(querySpy);
       querySpy.mockResolvedValueOnce({
         rows: [{ text: 'word', usage_notes: null }],
         rowCount: 1,
@@ -281,11 +295,11 @@ describe('RecognitionPracticeService', () => {
 
       // After first successful review
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 1, interval: 1 }],
+        rows: [srsItemRow({ ease_factor: 2.5, repetitions: 1, interval: 1 })],
         rowCount: 1,
       } as never);
 
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
+      mockSrsWrites(querySpy, { balanced: true });
       querySpy.mockResolvedValueOnce({
         rows: [{ text: 'word', usage_notes: null }],
         rowCount: 1,
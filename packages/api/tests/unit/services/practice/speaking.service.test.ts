@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Pool } from 'pg';
+import { SpeakingService } from '../../../../src/services/practice/speaking.service';
+import { SRSService } from '../../../../src/services/srs/srs.service';
+import { SpeechRecognizer } from '../../../../src/services/speech';
+
+describe('SpeakingService', () => {
+  let service: SpeakingService;
+  let mockPool: Pool;
+  let recognizer: SpeechRecognizer;
+  let transcribe: ReturnType<typeof vi.fn>;
+
+  const attempt = {
+    meaningId: 'es-hola',
+    targetText: '¿Cómo estás hoy?',
+    audio: Buffer.from('recording'),
+    mimeType: 'audio/webm;codecs=opus',
+    language: 'ES',
+    timeSpentMs: 4000,
+  };
+
+  beforeEach(() => {
+    mockPool = {
+      query: vi.fn().mockResolvedValue({ rows: [], rowCount: 1 }),
+    } as unknown as Pool;
+    transcribe = vi.fn();
+    recognizer = { engine: 'whisper-server', transcribe } as unknown as SpeechRecognizer;
+
+    service = new SpeakingService(mockPool, recognizer);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getSpeakingExercises', () => {
+    it('should include items without native audio', async () => {
+      vi.spyOn(mockPool, 'query').mockResolvedValueOnce({
+        rows: [
+          {
+            meaning_id: 'es-hola',
+            text: 'Hola',
+            audio_url: null,
+            romanization: null,
+            translation: 'hello',
+            level: 'A1',
+          },
+        ],
+        rowCount: 1,
+      } as never);
+
+      const result = await service.getSpeakingExercises('user-1', 'ES', 10);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({ text: 'Hola', audioUrl: null, meaningId: 'es-hola' });
+      expect(result[0].exerciseId).toMatch(/^speaking_es-hola_/);
+    });
+  });
+
+  describe('assessSpeech', () => {
+    it('should score the transcript against the target and update SRS', async () => {
+      const srsSpy = vi.spyOn(SRSService.prototype, 'recordPracticeResult').mockResolvedValue(null);
+      transcribe.mockResolvedValue({ text: 'Cómo estás hoy', confidence: null });
+
+      const result = await service.assessSpeech('user-1', attempt);
+
+      expect(transcribe).toHaveBeenCalledWith({
+        audio: attempt.audio,
+        mimeType: attempt.mimeType,
+        language: 'ES',
+      });
+      expect(result.isCorrect).toBe(true);
+      expect(result.transcript).toBe('Cómo estás hoy');
+      expect(result.qualityRating).toBe(5);
+      expect(srsSpy).toHaveBeenCalledWith('user-1', 'vocabulary', 'es-hola', 5, 'speaking');
+    });
+
+    it('should not grade diacritics spelled by the recognizer', async () => {
+      vi.spyOn(SRSService.prototype, 'recordPracticeResult').mockResolvedValue(null);
+      transcribe.mockResolvedValue({ text: 'como estas hoy', confidence: 0.8 });
+
+      const result = await service.assessSpeech('user-1', attempt);
+
+      expect(result.characterAccuracy).toBe(1);
+      expect(result.errors).toEqual([]);
+      expect(result.confidence).toBe(0.8);
+    });
+
+    it('should report missed words as a failed review', async () => {
+      const srsSpy = vi.spyOn(SRSService.prototype, 'recordPracticeResult').mockResolvedValue(null);
+      transcribe.mockResolvedValue({ text: 'hoy', confidence: null });
+
+      const result = await service.assessSpeech('user-1', attempt);
+
+      expect(result.isCorrect).toBe(false);
+      expect(result.diff.filter((entry) => entry.type === 'deletion')).toHaveLength(2);
+      expect(srsSpy.mock.calls[0][3]).toBeLessThan(3);
+
+      const [sql, params] = vi.mocked(mockPool.query).mock.calls[0] as unknown as [
+        string,
+        unknown[],
+      ];
+      expect(sql).toContain("'speaking'");
+      expect(params[2]).toBe('ES');
+      expect(params[3]).toBe(false);
+    });
+
+    it('should fail with 503 when speech recognition is not configured', async () => {
+      service = new SpeakingService(mockPool, null);
+
+      expect(service.isAvailable()).toBe(false);
+      await expect(service.assessSpeech('user-1', attempt)).rejects.toMatchObject({
+        statusCode: 503,
+      });
+    });
+
+    it('should reject an empty recording', async () => {
+      await expect(
+        service.assessSpeech('user-1', { ...attempt, audio: Buffer.alloc(0) })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(transcribe).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,14 +1,18 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Pool } from 'pg';
 import { TranslationService } from '../../../../src/services/practice/translation.service';
+import { srsReviewClient } from '../../../helpers/srs';
 
 describe('TranslationService', () => {
   let service: TranslationService;
   let mockPool: Pool;
+  let reviewClient: ReturnType<typeof srsReviewClient>;
 
   beforeEach(() => {
+    reviewClient = srsReviewClient();
     mockPool = {
       query: vi.fn(),
+      connect: vi.fn().mockResolvedValue(reviewClient),
     } as unknown as Pool;
 
     service = new TranslationService(mockPool);
@@ -106,7 +110,7 @@ describe('TranslationService', () => {
 
       // SRS query
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
 
@@ -134,7 +138,7 @@ describe('TranslationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -156,7 +160,7 @@ describe('TranslationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -178,7 +182,7 @@ describe('TranslationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -201,11 +205,11 @@ describe('TranslationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
+      // Scheduler config; the review is written in a transaction
+      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
 
       const result = await service.validateTranslation(
         'user-1',
@@ -223,7 +227,7 @@ describe('TranslationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -288,30 +292,22 @@ describe('TranslationService', () => {
     });
   });
 
-  describe('generateHint', () => {
-    it('should generate hint level 1 - first word', () => {
-      const hint = service.generateHint(['The quick brown fox', 'A fast brown fox'], 1);
-      expect(hint).toBe('First word: "The"');
-    });
-
-    it('should generate hint level 2 - word count', () => {
-      const hint = service.generateHint(['The quick brown fox'], 2);
-      expect(hint).toBe('Word count: 4 words');
-    });
-
-    it('should generate hint level 3 - partial translation', () => {
-      const hint = service.generateHint(['The quick brown fox'], 3);
-      expect(hint).toBe('Beginning: "The quick..."');
-    });
+  describe('hints', () => {
+    it('should lower the quality rating for each hint used', async () => {
+      vi.spyOn(mockPool, 'query').mockResolvedValue({ rows: [], rowCount: 1 } as never);
 
-    it('should handle empty translations', () => {
-      const hint = service.generateHint([], 1);
-      expect(hint).toBe('No hint available');
-    });
+      const result = await service.validateTranslation(
+        'user-1',
+        'meaning-1',
+        'Привет',
+        ['Привет'],
+        5000,
+        'RU',
+        2
+      );
 
-    it('should handle single word translation', () => {
-      const hint = service.generateHint(['Hello'], 3);
-      expect(hint).toBe('Beginning: "Hello..."');
+      expect(result.isCorrect).toBe(true);
+      expect(result.qualityRating).toBe(3);
     });
   });
 
@@ -320,7 +316,7 @@ describe('TranslationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -341,11 +337,11 @@ describe('TranslationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
-      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
+      // Scheduler config; the review is written in a transaction
+      querySpy.mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
 
       const result = await service.validateTranslation(
         'user-1',
@@ -364,7 +360,7 @@ describe('TranslationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -385,7 +381,7 @@ describe('TranslationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -406,7 +402,7 @@ describe('TranslationService', () => {
       const querySpy = vi.spyOn(mockPool, 'query');
 
       querySpy.mockResolvedValueOnce({
-        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6 }],
+        rows: [{ ease_factor: 2.5, repetitions: 2, interval: 6, next_review_at: new Date() }],
         rowCount: 1,
       } as never);
       querySpy.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
@@ -4,14 +4,18 @@ import {
   RecallPracticeService,
   QualityRating,
 } from '../../../src/services/vocabulary/recall-practice.service';
+import { answerSrsReview, srsReviewClient } from '../../helpers/srs';
 
 describe('RecallPracticeService', () => {
   let service: RecallPracticeService;
   let mockPool: Pool;
+  let reviewClient: ReturnType<typeof srsReviewClient>;
 
   beforeEach(() => {
+    reviewClient = srsReviewClient();
     mockPool = {
-      query: vi.fn(),
+      query: vi.fn(answerSrsReview),
+      connect: vi.fn().mockResolvedValue(reviewClient),
     } as unknown as Pool;
 
     service = new RecallPracticeService(mockPool);
@@ -108,7 +112,10 @@ describe('RecallPracticeService', () => {
       // Check bulk insert query
       const insertCall = querySpy.mock.calls[1];
       expect(insertCall[0]).toContain('INSERT INTO user_srs_items');
-      expect(insertCall[1]).toEqual(['user-123', 'en-cat', 'EN', 'user-123', 'en-dog', 'EN']);
+      expect(insertCall[0]).toContain('ON CONFLICT (user_id, item_type, item_id)');
+      expect(insertCall[1]).toEqual(
+        expect.arrayContaining(['user-123', 'vocabulary', 'en-cat', 'en-dog', 'EN'])
+      );
     });
 
     it('should return 0 when no learning words to initialize', async () => {
@@ -125,88 +132,50 @@ describe('RecallPracticeService', () => {
     });
   });
 
-  describe('submitReview - SM-2 Algorithm', () => {
-    it('should handle first successful review (quality 5)', async () => {
-      const querySpy = vi.spyOn(mockPool, 'query');
-
-      // Get current SRS item
-      querySpy.mockResolvedValueOnce({
-        rows: [
-          {
-            id: 'srs-1',
-            user_id: 'user-123',
-            meaning_id: 'en-hello',
-            language: 'EN',
-            ease_factor: 2.5,
-            repetitions: 0,
-            interval: 0,
-          },
-        ],
-        rowCount: 1,
-      } as never);
+  describe('submitReview - shared SRS engine', () => {
+    // Pool queries issued by SRSService: item lookup and scheduler config; the
+    // update and history are written through the transaction client
+    function mockScheduledItem(overrides: Record<string, unknown> = {}) {
+      vi.spyOn(mockPool, 'query')
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'srs-1',
+              user_id: 'user-123',
+              item_type: 'vocabulary',
+              item_id: 'en-hello',
+              meaning_id: 'en-hello',
+              language: 'EN',
+              ease_factor: 2.5,
+              repetitions: 0,
+              interval: 0,
+              next_review_at: new Date('2026-01-01'),
+              last_reviewed_at: null,
+              ...overrides,
+            },
+          ],
+          rowCount: 1,
+        } as never)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
+    }
 
-      // Update SRS item
-      querySpy.mockResolvedValueOnce({
-        rows: [
-          {
-            id: 'srs-1',
-            user_id: 'user-123',
-            meaning_id: 'en-hello',
-            language: 'EN',
-            ease_factor: 2.6, // 2.5 + 0.1
-            repetitions: 1,
-            interval: 1, // First review: 1 day
-            next_review_at: new Date('2026-01-02'),
-            last_reviewed_at: new Date('2026-01-01'),
-          },
-        ],
-        rowCount: 1,
-      } as never);
+    it('should handle first successful review (quality 5)', async () => {
+      mockScheduledItem();
 
       const result = await service.submitReview('user-123', 'en-hello', 5);
 
-      expect(result.easeFactor).toBe(2.6);
+      expect(result.easeFactor).toBeCloseTo(2.6, 2);
       expect(result.repetitions).toBe(1);
       expect(result.interval).toBe(1);
+      expect(result.meaningId).toBe('en-hello');
 
-      // Check update query
-      const updateCall = querySpy.mock.calls[1];
+      const updateCall = reviewClient.query.mock.calls[2];
       expect(updateCall[0]).toContain('UPDATE user_srs_items');
-      expect(updateCall[1][0]).toBe(2.6); // ease_factor
-      expect(updateCall[1][1]).toBe(1); // repetitions
-      expect(updateCall[1][2]).toBe(1); // interval
+      expect(updateCall[1]).toEqual(expect.arrayContaining([1, 1, 'srs-1', 'user-123']));
     });
 
     it('should handle second successful review (quality 4)', async () => {
-      const querySpy = vi.spyOn(mockPool, 'query');
-
-      querySpy.mockResolvedValueOnce({
-        rows: [
-          {
-            ease_factor: 2.6,
-            repetitions: 1,
-            interval: 1,
-          },
-        ],
-        rowCount: 1,
-      } as never);
-
-      querySpy.mockResolvedValueOnce({
-        rows: [
-          {
-            id: 'srs-1',
-            user_id: 'user-123',
-            meaning_id: 'en-hello',
-            language: 'EN',
-            ease_factor: 2.5, // 2.6 + (0.1 - 0.1) = 2.6, then -0.1 for quality 4
-            repetitions: 2,
-            interval: 6, // Second review: 6 days
-            next_review_at: new Date('2026-01-07'),
-            last_reviewed_at: new Date('2026-01-01'),
-          },
-        ],
-        rowCount: 1,
-      } as never);
+      mockScheduledItem({ ease_factor: 2.6, repetitions: 1, interval: 1 });
 
       const result = await service.submitReview('user-123', 'en-hello', 4);
 
@@ -215,72 +184,17 @@ describe('RecallPracticeService', () => {
     });
 
     it('should handle third+ successful review with ease factor multiplication', async () => {
-      const querySpy = vi.spyOn(mockPool, 'query');
-
-      querySpy.mockResolvedValueOnce({
-        rows: [
-          {
-            ease_factor: 2.5,
-            repetitions: 2,
-            interval: 6,
-          },
-        ],
-        rowCount: 1,
-      } as never);
-
-      querySpy.mockResolvedValueOnce({
-        rows: [
-          {
-            id: 'srs-1',
-            user_id: 'user-123',
-            meaning_id: 'en-hello',
-            language: 'EN',
-            ease_factor: 2.36, // 2.5 + (0.1 - (5-3)*(0.08 + (5-3)*0.02))
-            repetitions: 3,
-            interval: 15, // 6 * 2.5 = 15
-            next_review_at: new Date('2026-01-16'),
-            last_reviewed_at: new Date('2026-01-01'),
-          },
-        ],
-        rowCount: 1,
-      } as never);
+      mockScheduledItem({ ease_factor: 2.5, repetitions: 2, interval: 6 });
 
       const result = await service.submitReview('user-123', 'en-hello', 3);
 
       expect(result.repetitions).toBe(3);
-      expect(result.interval).toBe(15);
+      expect(result.easeFactor).toBeCloseTo(2.36, 2);
+      expect(result.interval).toBe(14); // round(6 * 2.36)
     });
 
     it('should reset interval on failed review (quality < 3)', async () => {
-      const querySpy = vi.spyOn(mockPool, 'query');
-
-      querySpy.mockResolvedValueOnce({
-        rows: [
-          {
-            ease_factor: 2.5,
-            repetitions: 5,
-            interval: 30,
-          },
-        ],
-        rowCount: 1,
-      } as never);
-
-      querySpy.mockResolvedValueOnce({
-        rows: [
-          {
-            id: 'srs-1',
-            user_id: 'user-123',
-            meaning_id: 'en-hello',
-            language: 'EN',
-            ease_factor: 1.96, // Reduced due to poor quality
-            repetitions: 0, // Reset
-            interval: 1, // Reset to 1 day
-            next_review_at: new Date('2026-01-02'),
-            last_reviewed_at: new Date('2026-01-01'),
-          },
-        ],
-        rowCount: 1,
-      } as never);
+      mockScheduledItem({ ease_factor: 2.5, repetitions: 5, interval: 30 });
 
       const result = await service.submitReview('user-123', 'en-hello', 2);
 
@@ -289,41 +203,23 @@ describe('RecallPracticeService', () => {
     });
 
     it('should enforce minimum ease factor of 1.3', async () => {
-      const querySpy = vi.spyOn(mockPool, 'query');
-
-      querySpy.mockResolvedValueOnce({
-        rows: [
-          {
-            ease_factor: 1.3, // Already at minimum
-            repetitions: 0,
-            interval: 0,
-          },
-        ],
-        rowCount: 1,
-      } as never);
-
-      querySpy.mockResolvedValueOnce({
-        rows: [
-          {
-            id: 'srs-1',
-            user_id: 'user-123',
-            meaning_id: 'en-hello',
-            language: 'EN',
-            ease_factor: 1.3, // Should not go below 1.3
-            repetitions: 0,
-            interval: 1,
-            next_review_at: new Date('2026-01-02'),
-            last_reviewed_at: new Date('2026-01-01'),
-          },
-        ],
-        rowCount: 1,
-      } as never);
+      mockScheduledItem({ ease_factor: 1.3 });
 
       const result = await service.submitReview('user-123', 'en-hello', 0);
 
       expect(result.easeFactor).toBe(1.3);
     });
 
+    it('should log the review with the recall practice mode', async () => {
+      mockScheduledItem();
+
+      await service.submitReview('user-123', 'en-hello', 4);
+
+      const historyCall = reviewClient.query.mock.calls[3];
+      expect(historyCall[0]).toContain('INSERT INTO srs_review_history');
+      expect(historyCall[1]).toEqual(expect.arrayContaining(['good', 'recall']));
+    });
+
     it('should throw NotFoundError when SRS item does not exist', async () => {
       const querySpy = vi.spyOn(mockPool, 'query');
       querySpy.mockResolvedValueOnce({
@@ -389,51 +285,41 @@ describe('RecallPracticeService', () => {
     });
   });
 
-  describe('SM-2 Quality Ratings', () => {
+  describe('Quality to rating mapping', () => {
     it.each([
-      [5, 2.6, 'perfect recall'],
-      [4, 2.5, 'correct after hesitation'],
-      [3, 2.36, 'correct with difficulty'],
-      [2, 1.96, 'incorrect but easy'],
-      [1, 1.74, 'incorrect but remembered'],
-      [0, 1.3, 'complete blackout (capped at minimum)'],
-    ])(
-      'should calculate correct ease factor for quality %d (%s)',
-      async (quality: number, expectedEaseFactor: number) => {
-        const querySpy = vi.spyOn(mockPool, 'query');
-
-        querySpy.mockResolvedValueOnce({
-          rows: [
-            {
-              ease_factor: 2.5,
-              repetitions: 0,
-              interval: 0,
-            },
-          ],
-          rowCount: 1,
-        } as never);
+      [5, 'easy'],
+      [4, 'good'],
+      [3, 'hard'],
+      [2, 'again'],
+      [1, 'again'],
+      [0, 'again'],
+    ])('should record quality %d as "%s"', async (quality: number, expectedRating: string) => {
+      const querySpy = vi.spyOn(mockPool, 'query');
 
-        querySpy.mockResolvedValueOnce({
+      querySpy
+        .mockResolvedValueOnce({
           rows: [
             {
               id: 'srs-1',
               user_id: 'user-123',
-              meaning_id: 'en-test',
+              item_type: 'vocabulary',
+              item_id: 'en-test',
               language: 'EN',
-              ease_factor: expectedEaseFactor,
-              repetitions: quality >= 3 ? 1 : 0,
-              interval: quality >= 3 ? 1 : 1,
-              next_review_at: new Date('2026-01-02'),
-              last_reviewed_at: new Date('2026-01-01'),
+              ease_factor: 2.5,
+              repetitions: 0,
+              interval: 0,
+              next_review_at: new Date('2026-01-01'),
+              last_reviewed_at: null,
             },
           ],
           rowCount: 1,
-        } as never);
+        } as never)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
 
-        const result = await service.submitReview('user-123', 'en-test', quality as QualityRating);
+      await service.submitReview('user-123', 'en-test', quality as QualityRating);
 
-        expect(result.easeFactor).toBeCloseTo(expectedEaseFactor, 2);
-      }
-    );
+      const historyParams = reviewClient.query.mock.calls[3][1] as unknown[];
+      expect(historyParams[4]).toBe(expectedRating);
+    });
   });
 });
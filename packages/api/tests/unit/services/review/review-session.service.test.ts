@@ -1,26 +1,42 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Pool, QueryResult } from 'pg';
 import { ReviewSessionService } from '../../../../src/services/review/review-session.service';
+import { answerSrsReview, srsReviewClient } from '../../../helpers/srs';
 
 // Mock pg Pool
 const mockQuery = vi.fn();
+const reviewClient = srsReviewClient();
 const mockPool = {
   query: mockQuery,
+  connect: vi.fn().mockResolvedValue(reviewClient),
 } as unknown as Pool;
 
+// Daily quota lookup with no stored limits and nothing reviewed today
+const emptyQuota = {
+  rows: [{ review_limit: null, new_limit: null, reviews_done: '0', new_done: '0' }],
+  rowCount: 1,
+} as unknown as QueryResult;
+
+// Vacation mode check when the user is not paused
+const notPaused = { rows: [], rowCount: 0 } as unknown as QueryResult;
+
 describe('ReviewSessionService', () => {
   let service: ReviewSessionService;
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mockQuery.mockImplementation(answerSrsReview);
+    reviewClient.query.mockImplementation(answerSrsReview);
     service = new ReviewSessionService(mockPool);
   });
 
   describe('startSession', () => {
     it('should create a new session and return queue count', async () => {
       mockQuery
+        .mockResolvedValueOnce(notPaused)
+        .mockResolvedValueOnce(emptyQuota)
         .mockResolvedValueOnce({
-          rows: [{ count: '15' }],
+          rows: [{ item_type: 'vocabulary', count: '15' }],
           rowCount: 1,
         } as QueryResult)
         .mockResolvedValueOnce({
@@ -37,8 +53,10 @@ describe('ReviewSessionService', () => {
 
     it('should handle language filter', async () => {
       mockQuery
+        .mockResolvedValueOnce(notPaused)
+        .mockResolvedValueOnce(emptyQuota)
         .mockResolvedValueOnce({
-          rows: [{ count: '10' }],
+          rows: [{ item_type: 'vocabulary', count: '10' }],
           rowCount: 1,
         } as QueryResult)
         .mockResolvedValueOnce({
@@ -50,15 +68,17 @@ describe('ReviewSessionService', () => {
 
       expect(result.sessionId).toBe('session-456');
       expect(result.itemsInQueue).toBe(10);
-      expect(mockQuery).toHaveBeenCalledTimes(2);
+      expect(mockQuery).toHaveBeenCalledTimes(4);
     });
 
     it('should return 0 items when queue is empty', async () => {
       mockQuery
+        .mockResolvedValueOnce(notPaused)
+        .mockResolvedValueOnce(emptyQuota)
         .mockResolvedValueOnce({
-          rows: [{ count: '0' }],
-          rowCount: 1,
-        } as QueryResult)
+          rows: [],
+          rowCount: 0,
+        } as unknown as QueryResult)
         .mockResolvedValueOnce({
           rows: [{ id: 'session-789', started_at: new Date() }],
           rowCount: 1,
@@ -67,13 +87,93 @@ describe('ReviewSessionService', () => {
       const result = await service.startSession('user-123');
 
       expect(result.itemsInQueue).toBe(0);
+      expect(result.itemsByType).toEqual({});
+    });
+
+    it('should count due items of every type', async () => {
+      mockQuery
+        .mockResolvedValueOnce(notPaused)
+        .mockResolvedValueOnce(emptyQuota)
+        .mockResolvedValueOnce({
+          rows: [
+            { item_type: 'vocabulary', count: '12' },
+            { item_type: 'grammar', count: '3' },
+            { item_type: 'reading', count: '1' },
+          ],
+          rowCount: 3,
+        } as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [{ id: 'session-mixed', started_at: new Date() }],
+          rowCount: 1,
+        } as QueryResult);
+
+      const result = await service.startSession('user-123', 'EN');
+
+      expect(result.itemsInQueue).toBe(16);
+      expect(result.itemsByType).toEqual({ vocabulary: 12, grammar: 3, reading: 1 });
+      const [sql, params] = mockQuery.mock.calls[2];
+      expect(sql).toContain('FROM user_srs_items');
+      expect(sql).toContain('GROUP BY item_type');
+      expect(params).toEqual(['user-123', 'EN', 20, 200]);
+    });
+
+    it('should cap the counts with the remaining daily quota', async () => {
+      mockQuery
+        .mockResolvedValueOnce(notPaused)
+        .mockResolvedValueOnce({
+          rows: [{ review_limit: '50', new_limit: '5', reviews_done: '20', new_done: '2' }],
+          rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [{ item_type: 'vocabulary', count: '33' }],
+          rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [{ id: 'session-capped', started_at: new Date() }],
+          rowCount: 1,
+        } as QueryResult);
+
+      const result = await service.startSession('user-123');
+
+      expect(result.itemsInQueue).toBe(33);
+      const [sql, params] = mockQuery.mock.calls[2];
+      expect(sql).toContain('PARTITION BY last_reviewed_at IS NULL');
+      expect(sql).toContain('WHEN is_new THEN $2::int');
+      expect(params).toEqual(['user-123', 3, 30]);
+    });
+
+    it('should end vacation mode before counting due items', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            { paused_at: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000), shifted_items: '120' },
+          ],
+          rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce(emptyQuota)
+        .mockResolvedValueOnce({
+          rows: [{ item_type: 'vocabulary', count: '4' }],
+          rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [{ id: 'session-back', started_at: new Date() }],
+          rowCount: 1,
+        } as QueryResult);
+
+      const result = await service.startSession('user-123');
+
+      expect(result.itemsInQueue).toBe(4);
+      const [resumeSql, resumeParams] = mockQuery.mock.calls[0];
+      expect(resumeSql).toContain("settings - 'srsPausedAt'");
+      expect(resumeSql).toContain('UPDATE user_srs_items');
+      expect(resumeParams).toEqual(['user-123']);
     });
   });
 
   describe('getQueue', () => {
-    it('should return items from user_srs_schedule when no language filter', async () => {
+    it('should return due items when no language filter', async () => {
       const now = new Date();
-      mockQuery.mockResolvedValueOnce({
+      mockQuery.mockResolvedValueOnce(emptyQuota).mockResolvedValueOnce({
         rows: [
           {
             id: 'item-1',
@@ -97,7 +197,7 @@ describe('ReviewSessionService', () => {
 
     it('should return vocabulary items with content when language filter provided', async () => {
       const now = new Date();
-      mockQuery.mockResolvedValueOnce({
+      mockQuery.mockResolvedValueOnce(emptyQuota).mockResolvedValueOnce({
         rows: [
           {
             id: 'item-1',
@@ -125,15 +225,62 @@ describe('ReviewSessionService', () => {
       expect(result.items[0].content.level).toBe('A1');
     });
 
+    it('should interleave item types in one queue', async () => {
+      const now = new Date();
+      mockQuery.mockResolvedValueOnce(emptyQuota).mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'item-1',
+            item_type: 'vocabulary',
+            item_id: 'meaning-1',
+            due_date: now,
+            interval_days: 1,
+            ease_factor: '2.5',
+            repetitions: 1,
+            word_text: 'Hello',
+            definition: null,
+            audio_url: null,
+            level: 'A1',
+          },
+          {
+            id: 'item-2',
+            item_type: 'grammar',
+            item_id: 'rule-1',
+            due_date: now,
+            interval_days: 3,
+            ease_factor: '2.4',
+            repetitions: 2,
+            word_text: 'Present simple',
+            definition: 'Habitual actions',
+            audio_url: null,
+            level: 'A1',
+          },
+        ],
+        rowCount: 2,
+      } as QueryResult);
+
+      const result = await service.getQueue('user-123', undefined, 10);
+
+      expect(result.items.map((item) => item.itemType)).toEqual(['vocabulary', 'grammar']);
+      expect(result.items[1].content.wordText).toBe('Present simple');
+      expect(result.items[1].content.definition).toBe('Habitual actions');
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('PARTITION BY item_type');
+      expect(sql).toContain('ORDER BY type_rank ASC, overdue_ratio DESC');
+      expect(params).toEqual(['user-123', 20, 200, 10]);
+    });
+
     it('should return next review time when queue is empty', async () => {
       const nextDue = new Date('2024-01-02T10:00:00Z');
       mockQuery
+        .mockResolvedValueOnce(emptyQuota)
         .mockResolvedValueOnce({
           rows: [],
           rowCount: 0,
         } as unknown as QueryResult)
         .mockResolvedValueOnce({
-          rows: [{ next_due: nextDue }],
+          rows: [{ next_due: nextDue, held_back: '0' }],
           rowCount: 1,
         } as QueryResult);
 
@@ -142,6 +289,46 @@ describe('ReviewSessionService', () => {
       expect(result.total).toBe(0);
       expect(result.items).toHaveLength(0);
       expect(result.nextReviewAt).toBe('2024-01-02T10:00:00.000Z');
+      expect(result.dailyLimitReached).toBe(false);
+    });
+
+    it('should cap the queue with the remaining daily quota', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [{ review_limit: '50', new_limit: '5', reviews_done: '20', new_done: '2' }],
+          rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult);
+
+      await service.getQueue('user-123', 'EN', 25);
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('PARTITION BY usi.last_reviewed_at IS NULL');
+      expect(sql).toContain('WHEN is_new THEN $3::int');
+      expect(params).toEqual(['user-123', 'EN', 3, 30, 25]);
+      // Words with several utterances must count once against the quota
+      expect(sql).toMatch(/LEFT JOIN LATERAL \([^)]*approved_utterances[\s\S]*?LIMIT 1\s*\) au/);
+    });
+
+    it('should report held back items when the daily limit is reached', async () => {
+      const tomorrow = new Date('2024-01-02T00:00:00Z');
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [{ review_limit: '10', new_limit: '0', reviews_done: '10', new_done: '0' }],
+          rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [{ next_due: tomorrow, held_back: '42' }],
+          rowCount: 1,
+        } as QueryResult);
+
+      const result = await service.getQueue('user-123');
+
+      expect(result.items).toHaveLength(0);
+      expect(result.dailyLimitReached).toBe(true);
+      expect(result.nextReviewAt).toBe('2024-01-02T00:00:00.000Z');
     });
   });
 
@@ -149,13 +336,22 @@ describe('ReviewSessionService', () => {
     it('should update SRS schedule with new values', async () => {
       mockQuery
         .mockResolvedValueOnce({
-          rows: [{ id: 'srs-1', interval_days: 1, ease_factor: '2.5', repetitions: 1 }],
+          rows: [
+            {
+              id: 'srs-1',
+              user_id: 'user-123',
+              item_type: 'vocabulary',
+              item_id: 'vocab-1',
+              language: 'EN',
+              interval: 1,
+              repetitions: 1,
+              ease_factor: '2.5',
+              next_review_at: new Date(),
+              last_reviewed_at: null,
+            },
+          ],
           rowCount: 1,
         } as QueryResult)
-        .mockResolvedValueOnce({
-          rows: [],
-          rowCount: 1,
-        } as unknown as QueryResult)
         .mockResolvedValueOnce({
           rows: [],
           rowCount: 1,
@@ -177,13 +373,22 @@ describe('ReviewSessionService', () => {
     it('should reset on "again" rating', async () => {
       mockQuery
         .mockResolvedValueOnce({
-          rows: [{ id: 'srs-1', interval_days: 15, ease_factor: '2.5', repetitions: 3 }],
+          rows: [
+            {
+              id: 'srs-1',
+              user_id: 'user-123',
+              item_type: 'vocabulary',
+              item_id: 'vocab-1',
+              language: 'EN',
+              interval: 15,
+              repetitions: 3,
+              ease_factor: '2.5',
+              next_review_at: new Date(),
+              last_reviewed_at: null,
+            },
+          ],
           rowCount: 1,
         } as QueryResult)
-        .mockResolvedValueOnce({
-          rows: [],
-          rowCount: 1,
-        } as unknown as QueryResult)
         .mockResolvedValueOnce({
           rows: [],
           rowCount: 1,
@@ -219,20 +424,97 @@ describe('ReviewSessionService', () => {
       ).rejects.toThrow('SRS item not found');
     });
 
-    it('should update session progress when sessionId provided', async () => {
+    it('should review grammar items from the shared schedule', async () => {
       mockQuery
         .mockResolvedValueOnce({
-          rows: [{ id: 'srs-1', interval_days: 1, ease_factor: '2.5', repetitions: 1 }],
+          rows: [
+            {
+              id: 'srs-grammar',
+              user_id: 'user-123',
+              item_type: 'grammar',
+              item_id: 'rule-1',
+              language: 'DE',
+              interval: 6,
+              repetitions: 2,
+              ease_factor: '2.5',
+              next_review_at: new Date(),
+              last_reviewed_at: null,
+            },
+          ],
           rowCount: 1,
         } as QueryResult)
         .mockResolvedValueOnce({
           rows: [],
-          rowCount: 1,
+          rowCount: 0,
         } as unknown as QueryResult)
+        // No other items due in the fuzz window
         .mockResolvedValueOnce({
           rows: [],
+          rowCount: 0,
+        } as unknown as QueryResult);
+
+      const result = await service.submitReview('user-123', {
+        itemId: 'rule-1',
+        itemType: 'grammar',
+        rating: 'good',
+        responseTimeMs: 3000,
+        wasCorrect: true,
+      });
+
+      expect(result.nextReview.interval).toBe(15);
+      expect(mockQuery.mock.calls[0][1]).toEqual(['user-123', 'grammar', 'rule-1']);
+      expect(reviewClient.query.mock.calls[2][0]).toContain('UPDATE user_srs_items');
+      expect(reviewClient.query.mock.calls[2][1]?.slice(6)).toEqual(['srs-grammar', 'user-123', 0]);
+      expect(reviewClient.query.mock.calls[3][1]?.slice(0, 4)).toEqual([
+        'user-123',
+        'rule-1',
+        'grammar',
+        'DE',
+      ]);
+    });
+
+    it('should throw NotFoundError for unknown item types', async () => {
+      await expect(
+        service.submitReview('user-123', {
+          itemId: 'item-1',
+          itemType: 'phrase',
+          rating: 'good',
+          responseTimeMs: 1000,
+          wasCorrect: true,
+        })
+      ).rejects.toThrow('SRS item not found');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should update session progress when sessionId provided', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'srs-1',
+              user_id: 'user-123',
+              item_type: 'vocabulary',
+              item_id: 'vocab-1',
+              language: 'EN',
+              interval: 1,
+              repetitions: 1,
+              ease_factor: '2.5',
+              next_review_at: new Date(),
+              last_reviewed_at: null,
+            },
+          ],
           rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [],
+          rowCount: 0,
+        } as unknown as QueryResult)
+        // No other items due in the fuzz window
+        .mockResolvedValueOnce({
+          rows: [],
+          rowCount: 0,
         } as unknown as QueryResult)
+        // Session progress
         .mockResolvedValueOnce({
           rows: [],
           rowCount: 1,
@@ -247,8 +529,15 @@ describe('ReviewSessionService', () => {
         sessionId: 'session-123',
       });
 
+      // Review is logged under the session so it can be undone
+      expect(reviewClient.query.mock.calls[4][0]).toContain('INSERT INTO review_log');
+      expect(reviewClient.query.mock.calls[4][1]?.[1]).toBe('session-123');
+      // ...with the correctness the session counts, for undo
+      expect(reviewClient.query.mock.calls[4][1]?.[11]).toBe(true);
+
       // Verify session update was called
       expect(mockQuery).toHaveBeenCalledTimes(4);
+      expect(mockQuery.mock.calls[3][0]).toContain('UPDATE user_review_sessions');
     });
   });
 
@@ -0,0 +1,575 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Pool, QueryResult } from 'pg';
+import { PracticeSessionService } from '../../../../src/services/session/practice-session.service';
+import {
+  ClozeExercise,
+  ClozeExerciseService,
+  ClozeValidationResult,
+} from '../../../../src/services/practice/cloze.service';
+import {
+  ReadingComprehensionService,
+  ReadingPassage,
+  ReadingResult,
+} from '../../../../src/services/practice/reading.service';
+
+// Mock pg Pool
+const mockQuery = vi.fn();
+const mockClientQuery = vi.fn();
+const mockRelease = vi.fn();
+const mockConnect = vi.fn();
+const mockPool = {
+  query: mockQuery,
+  connect: mockConnect,
+} as unknown as Pool;
+
+const emptyResult = { rows: [], rowCount: 0 } as unknown as QueryResult;
+
+const clozeExercise = (exerciseId: string): ClozeExercise => ({
+  exerciseId,
+  sentenceWithBlank: 'Ich trinke ___ Wasser.',
+  correctAnswer: 'das',
+  alternativeAnswers: [],
+  hint: { firstLetter: 'd', wordLength: 3, partOfSpeech: null },
+  context: null,
+  audioUrl: null,
+  explanation: 'Fill in the blank',
+  cefrLevel: 'A1',
+  meaningId: `meaning-${exerciseId}`,
+});
+
+const readingPassage: ReadingPassage = {
+  id: 'passage-1',
+  title: 'Im Park',
+  text: 'Der Hund spielt im Park.',
+  language: 'DE',
+  cefrLevel: 'A1',
+  wordCount: 5,
+  audioUrl: null,
+  source: null,
+  vocabularyHints: [],
+  questions: [
+    {
+      id: 'q-1',
+      questionText: 'Wo spielt der Hund?',
+      questionType: 'factual',
+      options: ['Im Park', 'Im Haus'],
+      correctAnswerIndex: 0,
+      explanation: 'The text says so',
+    },
+  ],
+  srsItemId: 'srs-1',
+};
+
+const sessionRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'session-1',
+  user_id: 'user-1',
+  practice_mode: 'cloze',
+  language: 'DE',
+  source_language: null,
+  status: 'active',
+  items_total: 2,
+  items_answered: 0,
+  correct_count: 0,
+  total_time_ms: '0',
+  time_limit_seconds: null,
+  expires_at: null,
+  started_at: new Date('2024-01-01T10:00:00Z'),
+  completed_at: null,
+  ...overrides,
+});
+
+const clozeResult: ClozeValidationResult = {
+  isCorrect: true,
+  similarity: 1,
+  feedback: 'Correct!',
+  correctAnswer: 'das',
+  partialCredit: 1,
+  errors: [],
+};
+
+describe('PracticeSessionService', () => {
+  let service: PracticeSessionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockConnect.mockResolvedValue({ query: mockClientQuery, release: mockRelease });
+    service = new PracticeSessionService(mockPool);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('startSession', () => {
+    it('should persist the ordered items and return the session', async () => {
+      vi.spyOn(ClozeExerciseService.prototype, 'getClozeExercises').mockResolvedValue([
+        clozeExercise('ex-1'),
+        clozeExercise('ex-2'),
+      ]);
+      mockClientQuery
+        .mockResolvedValueOnce(emptyResult) // BEGIN
+        .mockResolvedValueOnce(emptyResult)
+        .mockResolvedValueOnce({ rows: [sessionRow()], rowCount: 1 } as unknown as QueryResult)
+        .mockResolvedValueOnce(emptyResult)
+        .mockResolvedValueOnce(emptyResult); // COMMIT
+
+      const session = await service.startSession('user-1', {
+        practiceMode: 'cloze',
+        language: 'DE',
+        limit: 2,
+      });
+
+      expect(session.sessionId).toBe('session-1');
+      expect(session.items.map((item) => item.itemId)).toEqual(['ex-1', 'ex-2']);
+      expect(session.currentPosition).toBe(0);
+      expect(session.timeRemainingSeconds).toBeNull();
+
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(mockClientQuery.mock.calls[0][0]).toBe('BEGIN');
+
+      const [abandonSql, abandonParams] = mockClientQuery.mock.calls[1];
+      expect(abandonSql).toContain("SET status = 'abandoned'");
+      expect(abandonParams).toEqual(['user-1', 'cloze']);
+
+      const [, itemParams] = mockClientQuery.mock.calls[3];
+      expect(itemParams[1]).toEqual([0, 1]);
+      expect(itemParams[2]).toEqual(['ex-1', 'ex-2']);
+
+      expect(mockClientQuery.mock.calls[4][0]).toBe('COMMIT');
+      expect(mockRelease).toHaveBeenCalled();
+    });
+
+    it('should roll back the abandoned session when storing the items fails', async () => {
+      vi.spyOn(ClozeExerciseService.prototype, 'getClozeExercises').mockResolvedValue([
+        clozeExercise('ex-1'),
+      ]);
+      mockClientQuery
+        .mockResolvedValueOnce(emptyResult) // BEGIN
+        .mockResolvedValueOnce(emptyResult)
+        .mockResolvedValueOnce({ rows: [sessionRow()], rowCount: 1 } as unknown as QueryResult)
+        .mockRejectedValueOnce(new Error('insert failed'))
+        .mockResolvedValueOnce(emptyResult); // ROLLBACK
+
+      await expect(
+        service.startSession('user-1', { practiceMode: 'cloze', language: 'DE', limit: 1 })
+      ).rejects.toThrow('insert failed');
+
+      expect(mockClientQuery.mock.calls[4][0]).toBe('ROLLBACK');
+      expect(mockRelease).toHaveBeenCalled();
+    });
+
+    it('should store the time limit of a timed session', async () => {
+      vi.spyOn(ClozeExerciseService.prototype, 'getClozeExercises').mockResolvedValue([
+        clozeExercise('ex-1'),
+      ]);
+      mockClientQuery
+        .mockResolvedValueOnce(emptyResult) // BEGIN
+        .mockResolvedValueOnce(emptyResult)
+        .mockResolvedValueOnce({
+          rows: [
+            sessionRow({
+              items_total: 1,
+              time_limit_seconds: 300,
+              expires_at: new Date(Date.now() + 300 * 1000),
+            }),
+          ],
+          rowCount: 1,
+        } as unknown as QueryResult)
+        .mockResolvedValueOnce(emptyResult)
+        .mockResolvedValueOnce(emptyResult); // COMMIT
+
+      const session = await service.startSession('user-1', {
+        practiceMode: 'cloze',
+        language: 'DE',
+        limit: 1,
+        timeLimitSeconds: 300,
+      });
+
+      const [, insertParams] = mockClientQuery.mock.calls[2];
+      expect(insertParams[5]).toBe(300);
+      expect(session.timeLimitSeconds).toBe(300);
+      expect(session.timeRemainingSeconds).toBeGreaterThan(290);
+    });
+
+    it('should require a source language for translation sessions', async () => {
+      await expect(
+        service.startSession('user-1', { practiceMode: 'translation', language: 'DE', limit: 5 })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should fail with 404 when no exercises are available', async () => {
+      vi.spyOn(ClozeExerciseService.prototype, 'getClozeExercises').mockResolvedValue([]);
+
+      await expect(
+        service.startSession('user-1', { practiceMode: 'cloze', language: 'DE', limit: 5 })
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getActiveSession', () => {
+    it('should expire timed out sessions and return null when none is active', async () => {
+      mockQuery.mockResolvedValueOnce(emptyResult).mockResolvedValueOnce(emptyResult);
+
+      const session = await service.getActiveSession('user-1', 'cloze');
+
+      expect(session).toBeNull();
+      const [expireSql] = mockQuery.mock.calls[0];
+      expect(expireSql).toContain("SET status = 'expired'");
+      const [, params] = mockQuery.mock.calls[1];
+      expect(params).toEqual(['user-1', 'cloze']);
+    });
+
+    it('should resume from the first unanswered item', async () => {
+      mockQuery
+        .mockResolvedValueOnce(emptyResult)
+        .mockResolvedValueOnce({
+          rows: [sessionRow({ items_answered: 1, correct_count: 1 })],
+          rowCount: 1,
+        } as unknown as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              item_id: 'ex-1',
+              position: 0,
+              exercise: clozeExercise('ex-1'),
+              result: clozeResult,
+              is_correct: true,
+              answered_at: new Date(),
+            },
+            {
+              item_id: 'ex-2',
+              position: 1,
+              exercise: clozeExercise('ex-2'),
+              result: null,
+              is_correct: null,
+              answered_at: null,
+            },
+          ],
+          rowCount: 2,
+        } as unknown as QueryResult);
+
+      const session = await service.getActiveSession('user-1');
+
+      expect(session!.currentPosition).toBe(1);
+      expect(session!.items[0]).toMatchObject({ answered: true, isCorrect: true });
+      expect(session!.items[1]).toMatchObject({ answered: false, result: null });
+    });
+
+    it('should not expose the answers of reading questions', async () => {
+      mockQuery
+        .mockResolvedValueOnce(emptyResult)
+        .mockResolvedValueOnce({
+          rows: [sessionRow({ practice_mode: 'reading', items_total: 1 })],
+          rowCount: 1,
+        } as unknown as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              item_id: 'passage-1',
+              position: 0,
+              exercise: readingPassage,
+              result: null,
+              is_correct: null,
+              answered_at: null,
+            },
+          ],
+          rowCount: 1,
+        } as unknown as QueryResult);
+
+      const session = await service.getActiveSession('user-1', 'reading');
+
+      const question = (session!.items[0].exercise as ReadingPassage).questions[0];
+      expect(question).not.toHaveProperty('correctAnswerIndex');
+      expect(question).not.toHaveProperty('explanation');
+    });
+  });
+
+  describe('submitAnswer', () => {
+    it('should grade the answer with the practice mode and persist it', async () => {
+      const validateSpy = vi
+        .spyOn(ClozeExerciseService.prototype, 'validateClozeAnswer')
+        .mockResolvedValue(clozeResult);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [sessionRow()], rowCount: 1 } as unknown as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              item_id: 'ex-1',
+              position: 0,
+              exercise: clozeExercise('ex-1'),
+              result: null,
+              is_correct: null,
+              answered_at: null,
+            },
+          ],
+          rowCount: 1,
+        } as unknown as QueryResult)
+        .mockResolvedValueOnce(emptyResult)
+        .mockResolvedValueOnce({
+          rows: [sessionRow({ items_answered: 1, correct_count: 1 })],
+          rowCount: 1,
+        } as unknown as QueryResult);
+
+      const outcome = await service.submitAnswer(
+        'user-1',
+        'session-1',
+        'ex-1',
+        { text: 'das', hintsUsed: 2 },
+        4000
+      );
+
+      expect(validateSpy).toHaveBeenCalledWith(
+        'user-1',
+        'ex-1',
+        'das',
+        'das',
+        [],
+        'meaning-ex-1',
+        4000,
+        'DE',
+        2
+      );
+      expect(outcome).toMatchObject({
+        isCorrect: true,
+        itemsAnswered: 1,
+        itemsTotal: 2,
+        status: 'active',
+      });
+      const [, itemParams] = mockQuery.mock.calls[2];
+      expect(itemParams).toEqual([
+        'session-1',
+        'ex-1',
+        JSON.stringify({ text: 'das', hintsUsed: 2 }),
+        JSON.stringify(clozeResult),
+        true,
+        4000,
+      ]);
+    });
+
+    it('should count reading passages with quality 3 or more as correct', async () => {
+      const readingResult: ReadingResult = {
+        passageId: 'passage-1',
+        totalQuestions: 1,
+        correctAnswers: 1,
+        score: 1,
+        qualityRating: 5,
+        answers: [
+          {
+            questionId: 'q-1',
+            userAnswerIndex: 0,
+            correctAnswerIndex: 0,
+            isCorrect: true,
+            explanation: 'The text says so',
+          },
+        ],
+      };
+      vi.spyOn(ReadingComprehensionService.prototype, 'submitAnswers').mockResolvedValue(
+        readingResult
+      );
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [sessionRow({ practice_mode: 'reading', items_total: 1 })],
+          rowCount: 1,
+        } as unknown as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              item_id: 'passage-1',
+              position: 0,
+              exercise: readingPassage,
+              result: null,
+              is_correct: null,
+              answered_at: null,
+            },
+          ],
+          rowCount: 1,
+        } as unknown as QueryResult)
+        .mockResolvedValueOnce(emptyResult)
+        .mockResolvedValueOnce({
+          rows: [
+            sessionRow({
+              practice_mode: 'reading',
+              items_total: 1,
+              items_answered: 1,
+              correct_count: 1,
+              status: 'completed',
+            }),
+          ],
+          rowCount: 1,
+        } as unknown as QueryResult);
+
+      const outcome = await service.submitAnswer(
+        'user-1',
+        'session-1',
+        'passage-1',
+        { answers: [{ questionId: 'q-1', answerIndex: 0 }] },
+        60000
+      );
+
+      expect(outcome.isCorrect).toBe(true);
+      expect(outcome.status).toBe('completed');
+    });
+
+    it('should reject an item that was already answered', async () => {
+      const validateSpy = vi.spyOn(ClozeExerciseService.prototype, 'validateClozeAnswer');
+      mockQuery
+        .mockResolvedValueOnce({ rows: [sessionRow()], rowCount: 1 } as unknown as QueryResult)
+        .mockResolvedValueOnce(emptyResult)
+        .mockResolvedValueOnce({
+          rows: [{ '?column?': 1 }],
+          rowCount: 1,
+        } as unknown as QueryResult);
+
+      await expect(
+        service.submitAnswer('user-1', 'session-1', 'ex-1', { text: 'das' }, 1000)
+      ).rejects.toMatchObject({ statusCode: 409, message: 'Item already answered' });
+      expect(validateSpy).not.toHaveBeenCalled();
+    });
+
+    it('should grade and count only the first of two submissions of the same item', async () => {
+      const validateSpy = vi
+        .spyOn(ClozeExerciseService.prototype, 'validateClozeAnswer')
+        .mockResolvedValue(clozeResult);
+      const claimedItem = {
+        rows: [
+          {
+            item_id: 'ex-1',
+            position: 0,
+            exercise: clozeExercise('ex-1'),
+            result: null,
+            is_correct: null,
+            answered_at: new Date(),
+          },
+        ],
+        rowCount: 1,
+      } as unknown as QueryResult;
+      mockQuery
+        // First submission claims the item
+        .mockResolvedValueOnce({ rows: [sessionRow()], rowCount: 1 } as unknown as QueryResult)
+        .mockResolvedValueOnce(claimedItem)
+        .mockResolvedValueOnce(emptyResult)
+        .mockResolvedValueOnce({
+          rows: [sessionRow({ items_answered: 1, correct_count: 1 })],
+          rowCount: 1,
+        } as unknown as QueryResult)
+        // Second submission finds the item already claimed
+        .mockResolvedValueOnce({ rows: [sessionRow()], rowCount: 1 } as unknown as QueryResult)
+        .mockResolvedValueOnce(emptyResult)
+        .mockResolvedValueOnce({
+          rows: [{ '?column?': 1 }],
+          rowCount: 1,
+        } as unknown as QueryResult);
+
+      await service.submitAnswer('user-1', 'session-1', 'ex-1', { text: 'das' }, 1000);
+      await expect(
+        service.submitAnswer('user-1', 'session-1', 'ex-1', { text: 'das' }, 1000)
+      ).rejects.toMatchObject({ statusCode: 409 });
+
+      expect(validateSpy).toHaveBeenCalledTimes(1);
+      const [claimSql] = mockQuery.mock.calls[5];
+      expect(claimSql).toContain('answered_at IS NULL');
+      const counterUpdates = mockQuery.mock.calls.filter(([sql]) =>
+        String(sql).includes('items_answered = items_answered + 1')
+      );
+      expect(counterUpdates).toHaveLength(1);
+    });
+
+    it('should release the claim when grading fails', async () => {
+      vi.spyOn(ClozeExerciseService.prototype, 'validateClozeAnswer').mockRejectedValue(
+        new Error('grading failed')
+      );
+      mockQuery
+        .mockResolvedValueOnce({ rows: [sessionRow()], rowCount: 1 } as unknown as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              item_id: 'ex-1',
+              position: 0,
+              exercise: clozeExercise('ex-1'),
+              result: null,
+              is_correct: null,
+              answered_at: new Date(),
+            },
+          ],
+          rowCount: 1,
+        } as unknown as QueryResult)
+        .mockResolvedValueOnce(emptyResult);
+
+      await expect(
+        service.submitAnswer('user-1', 'session-1', 'ex-1', { text: 'das' }, 1000)
+      ).rejects.toThrow('grading failed');
+
+      const [releaseSql, releaseParams] = mockQuery.mock.calls[2];
+      expect(releaseSql).toContain('SET answered_at = NULL');
+      expect(releaseParams).toEqual(['session-1', 'ex-1']);
+    });
+
+    it('should reject answers once the time limit has run out', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            sessionRow({
+              time_limit_seconds: 60,
+              expires_at: new Date(Date.now() - 1000),
+            }),
+          ],
+          rowCount: 1,
+        } as unknown as QueryResult)
+        .mockResolvedValueOnce(emptyResult);
+
+      await expect(
+        service.submitAnswer('user-1', 'session-1', 'ex-1', { text: 'das' }, 1000)
+      ).rejects.toMatchObject({ statusCode: 409, message: 'Session time limit reached' });
+      const [expireSql] = mockQuery.mock.calls[1];
+      expect(expireSql).toContain("SET status = 'expired'");
+    });
+
+    it('should fail with 404 when the session does not belong to the user', async () => {
+      mockQuery.mockResolvedValueOnce(emptyResult);
+
+      await expect(
+        service.submitAnswer('user-2', 'session-1', 'ex-1', { text: 'das' }, 1000)
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('getSummary', () => {
+    it('should calculate accuracy and average time', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          sessionRow({
+            status: 'completed',
+            items_answered: 4,
+            correct_count: 3,
+            total_time_ms: '20000',
+            completed_at: new Date('2024-01-01T10:05:00Z'),
+            duration_seconds: '300.4',
+          }),
+        ],
+        rowCount: 1,
+      } as unknown as QueryResult);
+
+      const summary = await service.getSummary('session-1', 'user-1');
+
+      expect(summary).toMatchObject({
+        status: 'completed',
+        itemsAnswered: 4,
+        correctCount: 3,
+        accuracyPct: 75,
+        avgTimeMs: 5000,
+        durationSeconds: 300,
+        completedAt: '2024-01-01T10:05:00.000Z',
+      });
+    });
+
+    it('should return null for an unknown session', async () => {
+      mockQuery.mockResolvedValueOnce(emptyResult);
+
+      const summary = await service.getSummary('missing', 'user-1');
+
+      expect(summary).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  SpeechRecognitionError,
+  WhisperServerRecognizer,
+  createSpeechRecognizer,
+} from '../../../../src/services/speech';
+
+describe('WhisperServerRecognizer', () => {
+  const mockFetch = vi.fn();
+  const request = { audio: Buffer.from('recording'), mimeType: 'audio/webm', language: 'DE' };
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post the recording to the inference endpoint', async () => {
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ text: ' Guten Morgen \n' })));
+    const recognizer = new WhisperServerRecognizer('http://localhost:8080');
+
+    const transcription = await recognizer.transcribe(request);
+
+    expect(transcription).toEqual({ text: 'Guten Morgen', confidence: null });
+    const [url, init] = mockFetch.mock.calls[0] as [URL, RequestInit];
+    expect(url.toString()).toBe('http://localhost:8080/inference');
+    const form = init.body as FormData;
+    expect(form.get('language')).toBe('de');
+    expect(form.get('file')).toBeInstanceOf(Blob);
+  });
+
+  it('should fail with 502 when the engine responds with an error', async () => {
+    mockFetch.mockResolvedValue(new Response('busy', { status: 503 }));
+    const recognizer = new WhisperServerRecognizer('http://localhost:8080');
+
+    await expect(recognizer.transcribe(request)).rejects.toMatchObject({ statusCode: 502 });
+  });
+
+  it('should fail with 502 when the engine is unreachable', async () => {
+    mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+    const recognizer = new WhisperServerRecognizer('http://localhost:8080');
+
+    await expect(recognizer.transcribe(request)).rejects.toMatchObject({
+      statusCode: 502,
+      message: 'Speech recognition engine unreachable: fetch failed',
+    });
+  });
+
+  it('should fail with 502 when the engine does not answer with JSON', async () => {
+    mockFetch.mockResolvedValue(
+      new Response('<html>Bad Gateway</html>', { headers: { 'Content-Type': 'text/html' } })
+    );
+    const recognizer = new WhisperServerRecognizer('http://localhost:8080');
+
+    const error: unknown = await recognizer.transcribe(request).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SpeechRecognitionError);
+    expect(error).toMatchObject({ statusCode: 502 });
+    expect((error as Error).message).toContain('invalid response');
+  });
+});
+
+describe('createSpeechRecognizer', () => {
+  it('should return null when speech recognition is disabled', () => {
+    expect(createSpeechRecognizer({ engine: 'none' })).toBeNull();
+  });
+
+  it('should require a URL for the whisper-server engine', () => {
+    expect(() => createSpeechRecognizer({ engine: 'whisper-server' })).toThrow(
+      'SPEECH_RECOGNIZER_URL'
+    );
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Pool, QueryResult } from 'pg';
+import {
+  BacklogRecoveryService,
+  SRSRecoveryPlan,
+} from '../../../../src/services/srs/backlog-recovery.service';
+
+// Mock pg Pool and transaction client
+const mockQuery = vi.fn();
+const mockClientQuery = vi.fn();
+const mockRelease = vi.fn();
+const mockPool = {
+  query: mockQuery,
+  connect: vi.fn().mockResolvedValue({ query: mockClientQuery, release: mockRelease }),
+} as unknown as Pool;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * DAY_MS);
+}
+
+describe('BacklogRecoveryService', () => {
+  let service: BacklogRecoveryService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    mockClientQuery.mockResolvedValue({ rows: [], rowCount: 0 } as unknown as QueryResult);
+    service = new BacklogRecoveryService(mockPool);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('getStatus', () => {
+    it('should report the pause and the active day of the recovery plan', async () => {
+      const plan: SRSRecoveryPlan = {
+        createdAt: '2026-03-09T08:00:00.000Z',
+        startDate: '2026-03-09',
+        days: 3,
+        totalItems: 90,
+        dailyCounts: [30, 30, 30],
+        language: null,
+      };
+
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [{ paused_at: null, recovery_plan: plan }],
+          rowCount: 1,
+        } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: [{ count: '30' }], rowCount: 1 } as QueryResult);
+
+      const status = await service.getStatus('user-1');
+
+      expect(status.paused).toBe(false);
+      expect(status.overdueCount).toBe(30);
+      expect(status.recoveryPlan).toEqual({ ...plan, currentDay: 1, todayTarget: 30 });
+    });
+
+    it('should drop a finished recovery plan', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              paused_at: '2026-03-01T09:00:00.000Z',
+              recovery_plan: {
+                createdAt: '2026-03-01T08:00:00.000Z',
+                startDate: '2026-03-01',
+                days: 5,
+                totalItems: 10,
+                dailyCounts: [2, 2, 2, 2, 2],
+                language: 'EN',
+              },
+            },
+          ],
+          rowCount: 1,
+        } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: [{ count: '0' }], rowCount: 1 } as QueryResult);
+
+      const status = await service.getStatus('user-1');
+
+      expect(status.paused).toBe(true);
+      expect(status.pausedAt).toBe('2026-03-01T09:00:00.000Z');
+      expect(status.recoveryPlan).toBeNull();
+    });
+  });
+
+  describe('pause', () => {
+    it('should keep the original start of an existing pause', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ paused_at: '2026-03-01T09:00:00+00:00' }],
+        rowCount: 1,
+      } as QueryResult);
+
+      const pausedAt = await service.pause('user-1');
+
+      expect(pausedAt).toBe('2026-03-01T09:00:00+00:00');
+      const [sql, params] = mockQuery.mock.calls[0] as [string, unknown[]];
+      expect(sql).toContain("COALESCE(user_preferences.settings->'srsPausedAt'");
+      expect(params).toEqual(['user-1']);
+    });
+  });
+
+  describe('resume', () => {
+    it('should shift due dates by the length of the pause', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ paused_at: daysAgo(14), shifted_items: '250' }],
+        rowCount: 1,
+      } as QueryResult);
+
+      const result = await service.resume('user-1');
+
+      expect(result).toEqual({ pausedDays: 14, shiftedItems: 250 });
+      const [sql] = mockQuery.mock.calls[0] as [string];
+      expect(sql).toContain("settings - 'srsPausedAt'");
+      expect(sql).toContain('next_review_at + (CURRENT_TIMESTAMP - ended.paused_at)');
+    });
+
+    it('should leave items reviewed during the pause where they are', async () => {
+      // One of three items was reviewed while paused, so only two are shifted
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ paused_at: daysAgo(7), shifted_items: '2' }],
+        rowCount: 1,
+      } as QueryResult);
+
+      const result = await service.resume('user-1');
+
+      expect(result).toEqual({ pausedDays: 7, shiftedItems: 2 });
+      const [sql] = mockQuery.mock.calls[0] as [string];
+      expect(sql).toContain(
+        '(usi.last_reviewed_at IS NULL OR usi.last_reviewed_at < ended.paused_at)'
+      );
+      expect(sql).toContain('usi.created_at < ended.paused_at');
+    });
+
+    it('should return null when reviews are not paused', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult);
+
+      expect(await service.resume('user-1')).toBeNull();
+    });
+  });
+
+  describe('createPlan', () => {
+    it('should spread the backlog by predicted forgetting', async () => {
+      // Not paused
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult);
+
+      mockClientQuery
+        .mockResolvedValueOnce({ rows: [] } as unknown as QueryResult) // BEGIN
+        .mockResolvedValueOnce({
+          rows: [
+            // Recall: new items last, then by elapsed time relative to stability
+            { id: 'new', interval: 0, stability: null, last_reviewed_at: null },
+            { id: 'fresh', interval: 30, stability: '40.0', last_reviewed_at: daysAgo(35) },
+            { id: 'sm2-old', interval: 3, stability: null, last_reviewed_at: daysAgo(40) },
+            { id: 'weak', interval: 5, stability: '2.5', last_reviewed_at: daysAgo(20) },
+            { id: 'medium', interval: 10, stability: '10.0', last_reviewed_at: daysAgo(20) },
+          ],
+          rowCount: 5,
+        } as unknown as QueryResult);
+
+      const plan = await service.createPlan('user-1', 3);
+
+      expect(plan).toMatchObject({
+        startDate: '2026-03-10',
+        days: 3,
+        totalItems: 5,
+        dailyCounts: [2, 2, 1],
+        language: null,
+      });
+
+      const calls = mockClientQuery.mock.calls as [string, unknown[]?][];
+      expect(calls[1][0]).toContain('FOR UPDATE');
+      expect(calls[1][1]).toEqual(['user-1']);
+
+      // Day 0 items stay due; the rest move to their plan day
+      expect(calls[2][0]).toContain('unnest($2::uuid[], $3::int[])');
+      expect(calls[2][1]).toEqual(['user-1', ['medium', 'fresh', 'new'], [1, 1, 2]]);
+
+      expect(calls[3][0]).toContain("'srsRecoveryPlan'");
+      expect(JSON.parse(calls[3][1]![1] as string)).toEqual(plan);
+      expect(calls[4][0]).toBe('COMMIT');
+      expect(mockRelease).toHaveBeenCalled();
+    });
+
+    it('should filter the backlog by language', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult);
+
+      const plan = await service.createPlan('user-1', 7, 'ES');
+
+      const calls = mockClientQuery.mock.calls as [string, unknown[]?][];
+      expect(calls[1][0]).toContain('language = $2');
+      expect(calls[1][1]).toEqual(['user-1', 'ES']);
+      // Nothing to move, so no due dates are rewritten
+      expect(calls.some(([sql]) => sql.includes('unnest'))).toBe(false);
+      expect(plan.totalItems).toBe(0);
+      expect(plan.dailyCounts).toEqual([0, 0, 0, 0, 0, 0, 0]);
+    });
+
+    it('should roll back when rescheduling fails', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult);
+      mockClientQuery
+        .mockResolvedValueOnce({ rows: [] } as unknown as QueryResult)
+        .mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(service.createPlan('user-1', 3)).rejects.toThrow('connection lost');
+
+      expect(mockClientQuery.mock.calls.at(-1)?.[0]).toBe('ROLLBACK');
+      expect(mockRelease).toHaveBeenCalled();
+    });
+
+    it('should reject plan lengths outside the allowed range', async () => {
+      await expect(service.createPlan('user-1', 0)).rejects.toThrow(
+        'Recovery plan length must be between 1 and 30 days'
+      );
+      await expect(service.createPlan('user-1', 31)).rejects.toThrow();
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FSRSCalculator } from '../../../../src/services/srs/fsrs-calculator';
+import { SRSScheduleItem } from '../../../../src/services/srs/srs.interface';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createSchedule(overrides: Partial<SRSScheduleItem> = {}): SRSScheduleItem {
+  return {
+    id: 'test-id',
+    userId: 'user-123',
+    itemType: 'vocabulary',
+    itemId: 'item-456',
+    language: 'EN',
+    dueDate: new Date(),
+    interval: 0,
+    repetitions: 0,
+    easeFactor: 2.5,
+    lastReviewedAt: null,
+    stability: null,
+    difficulty: null,
+    ...overrides,
+  };
+}
+
+describe('FSRSCalculator', () => {
+  let calculator: FSRSCalculator;
+
+  beforeEach(() => {
+    calculator = new FSRSCalculator();
+  });
+
+  describe('ratingToGrade', () => {
+    it('should map ratings to grades 1-4', () => {
+      expect(calculator.ratingToGrade('again')).toBe(1);
+      expect(calculator.ratingToGrade('hard')).toBe(2);
+      expect(calculator.ratingToGrade('good')).toBe(3);
+      expect(calculator.ratingToGrade('easy')).toBe(4);
+    });
+  });
+
+  describe('retrievability', () => {
+    it('should be 100% immediately after review', () => {
+      expect(calculator.retrievability(0, 10)).toBe(1);
+    });
+
+    it('should be 90% when elapsed days equal stability', () => {
+      expect(calculator.retrievability(10, 10)).toBeCloseTo(0.9, 5);
+    });
+  });
+
+  describe('nextInterval', () => {
+    it('should equal stability at 90% requested retention', () => {
+      expect(calculator.nextInterval(10)).toBe(10);
+    });
+
+    it('should be shorter for higher requested retention', () => {
+      const strict = new FSRSCalculator(FSRSCalculator.DEFAULT_WEIGHTS, 0.95);
+      expect(strict.nextInterval(10)).toBeLessThan(10);
+    });
+
+    it('should never be shorter than one day', () => {
+      expect(calculator.nextInterval(0.1)).toBe(1);
+    });
+
+    it('should be capped at maximum interval', () => {
+      expect(calculator.nextInterval(1_000_000)).toBe(FSRSCalculator.MAX_INTERVAL);
+    });
+  });
+
+  describe('calculateNext', () => {
+    it('should use initial stability for the first review', () => {
+      const result = calculator.calculateNext(createSchedule(), 'good');
+
+      expect(result.newStability).toBeCloseTo(FSRSCalculator.DEFAULT_WEIGHTS[2], 4);
+      expect(result.newInterval).toBe(4);
+      expect(result.newRepetitions).toBe(1);
+    });
+
+    it('should give easier items a lower difficulty', () => {
+      const easy = calculator.calculateNext(createSchedule(), 'easy');
+      const hard = calculator.calculateNext(createSchedule(), 'hard');
+
+      expect(easy.newDifficulty!).toBeLessThan(hard.newDifficulty!);
+    });
+
+    it('should increase stability after a successful recall', () => {
+      const now = new Date();
+      const schedule = createSchedule({
+        interval: 10,
+        repetitions: 3,
+        stability: 10,
+        difficulty: 5,
+        lastReviewedAt: new Date(now.getTime() - 10 * DAY_MS),
+      });
+
+      const result = calculator.calculateNext(schedule, 'good', now);
+
+      expect(result.newStability!).toBeGreaterThan(10);
+      expect(result.newInterval).toBeGreaterThan(10);
+      expect(result.newRepetitions).toBe(4);
+    });
+
+    it('should decrease stability and reset repetitions after a lapse', () => {
+      const now = new Date();
+      const schedule = createSchedule({
+        interval: 30,
+        repetitions: 5,
+        stability: 30,
+        difficulty: 5,
+        lastReviewedAt: new Date(now.getTime() - 30 * DAY_MS),
+      });
+
+      const result = calculator.calculateNext(schedule, 'again', now);
+
+      expect(result.newStability!).toBeLessThan(30);
+      expect(result.newRepetitions).toBe(0);
+      expect(result.newDifficulty!).toBeGreaterThan(5);
+    });
+
+    it('should preserve ease factor so SM-2 can resume', () => {
+      const schedule = createSchedule({ interval: 6, repetitions: 2, easeFactor: 2.2 });
+
+      const result = calculator.calculateNext(schedule, 'good');
+
+      expect(result.newEaseFactor).toBe(2.2);
+    });
+
+    it('should derive memory state from SM-2 values when none is stored', () => {
+      const now = new Date();
+      const schedule = createSchedule({
+        interval: 20,
+        repetitions: 4,
+        easeFactor: 2.5,
+        lastReviewedAt: new Date(now.getTime() - 20 * DAY_MS),
+      });
+
+      const result = calculator.calculateNext(schedule, 'good', now);
+
+      expect(result.newInterval).toBeGreaterThan(20);
+    });
+  });
+
+  describe('estimateFromSM2', () => {
+    it('should map high ease factor to low difficulty', () => {
+      expect(calculator.estimateFromSM2(10, 3.0).difficulty).toBe(FSRSCalculator.MIN_DIFFICULTY);
+      expect(calculator.estimateFromSM2(10, 1.3).difficulty).toBe(FSRSCalculator.MAX_DIFFICULTY);
+    });
+
+    it('should use the SM-2 interval as stability', () => {
+      expect(calculator.estimateFromSM2(15, 2.5).stability).toBe(15);
+    });
+  });
+
+  describe('estimateMemoryState', () => {
+    it('should return null for empty history', () => {
+      expect(calculator.estimateMemoryState([])).toBeNull();
+    });
+
+    it('should replay reviews in chronological order', () => {
+      const start = new Date('2025-01-01T00:00:00Z');
+      const events = [
+        { rating: 'good' as const, reviewedAt: new Date(start.getTime() + 4 * DAY_MS) },
+        { rating: 'good' as const, reviewedAt: start },
+      ];
+
+      const state = calculator.estimateMemoryState(events)!;
+      const first = calculator.initialState(3);
+      const expected = calculator.nextState(first, 4, 3);
+
+      expect(state.stability).toBeCloseTo(expected.stability, 6);
+      expect(state.difficulty).toBeCloseTo(expected.difficulty, 6);
+    });
+
+    it('should be deterministic', () => {
+      const start = new Date('2025-01-01T00:00:00Z');
+      const events = [
+        { rating: 'good' as const, reviewedAt: start },
+        { rating: 'again' as const, reviewedAt: new Date(start.getTime() + 3 * DAY_MS) },
+        { rating: 'easy' as const, reviewedAt: new Date(start.getTime() + 5 * DAY_MS) },
+      ];
+
+      expect(calculator.estimateMemoryState(events)).toEqual(
+        calculator.estimateMemoryState(events)
+      );
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Pool, QueryResult } from 'pg';
+import { FSRSMigrationService } from '../../../../src/services/srs/fsrs-migration.service';
+
+const mockQuery = vi.fn();
+const mockPool = {
+  query: mockQuery,
+} as unknown as Pool;
+
+describe('FSRSMigrationService', () => {
+  let service: FSRSMigrationService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new FSRSMigrationService(mockPool);
+  });
+
+  describe('migrateBatch', () => {
+    it('should estimate state from review history when available', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'srs-1',
+              user_id: 'user-1',
+              item_type: 'vocabulary',
+              item_id: 'meaning-1',
+              interval: 6,
+              ease_factor: '2.5',
+            },
+          ],
+          rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [
+            { rating: 'good', reviewed_at: new Date('2025-01-01T00:00:00Z') },
+            { rating: 'good', reviewed_at: new Date('2025-01-05T00:00:00Z') },
+          ],
+          rowCount: 2,
+        } as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as unknown as QueryResult);
+
+      const result = await service.migrateBatch(100);
+
+      expect(result).toEqual({ processed: 1, fromHistory: 1, fromSchedule: 0 });
+      expect(mockQuery).toHaveBeenLastCalledWith(expect.stringContaining('UPDATE user_srs_items'), [
+        expect.any(Number),
+        expect.any(Number),
+        'srs-1',
+      ]);
+    });
+
+    it('should replay the history of non-vocabulary items by their own type', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'srs-2',
+              user_id: 'user-1',
+              item_type: 'grammar',
+              item_id: 'rule-1',
+              interval: 6,
+              ease_factor: '2.5',
+            },
+          ],
+          rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [
+            { rating: 'good', reviewed_at: new Date('2025-01-01T00:00:00Z') },
+            { rating: 'hard', reviewed_at: new Date('2025-01-04T00:00:00Z') },
+          ],
+          rowCount: 2,
+        } as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as unknown as QueryResult);
+
+      const result = await service.migrateBatch(100);
+
+      expect(result).toEqual({ processed: 1, fromHistory: 1, fromSchedule: 0 });
+      expect(mockQuery.mock.calls[1][1]).toEqual(['user-1', 'grammar', 'rule-1']);
+    });
+
+    it('should fall back to SM-2 values when there is no history', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'srs-1',
+              user_id: 'user-1',
+              item_type: 'vocabulary',
+              item_id: 'meaning-1',
+              interval: 15,
+              ease_factor: '2.5',
+            },
+          ],
+          rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as unknown as QueryResult);
+
+      const result = await service.migrateBatch(100);
+
+      expect(result).toEqual({ processed: 1, fromHistory: 0, fromSchedule: 1 });
+      const [stability] = mockQuery.mock.calls[2][1] as number[];
+      expect(stability).toBe(15);
+    });
+  });
+
+  describe('migrateAll', () => {
+    it('should stop when a batch is not full', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult);
+
+      const result = await service.migrateAll(50);
+
+      expect(result).toEqual({ processed: 0, fromHistory: 0, fromSchedule: 0 });
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Pool, QueryResult } from 'pg';
+import { FSRSOptimizationService } from '../../../../src/services/srs/fsrs-optimization.service';
+
+const mockQuery = vi.fn();
+const mockPool = {
+  query: mockQuery,
+} as unknown as Pool;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function historyRows(itemCount: number) {
+  const start = new Date('2025-01-01T00:00:00Z').getTime();
+  return Array.from({ length: itemCount }, (_, i) =>
+    [0, 5, 20].map((offset) => ({
+      item_id: `meaning-${i}`,
+      rating: 'good',
+      reviewed_at: new Date(start + offset * DAY_MS),
+    }))
+  ).flat();
+}
+
+describe('FSRSOptimizationService', () => {
+  let service: FSRSOptimizationService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new FSRSOptimizationService(mockPool, { epochs: 5, minReviews: 10 });
+  });
+
+  describe('loadReviewHistories', () => {
+    it('should group reviews by item', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: historyRows(2), rowCount: 6 } as QueryResult);
+
+      const histories = await service.loadReviewHistories('user-1', 'ES');
+
+      expect(histories).toHaveLength(2);
+      expect(histories[0]).toHaveLength(3);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('AND language = $2'), [
+        'user-1',
+        'ES',
+      ]);
+    });
+  });
+
+  describe('optimizeUser', () => {
+    it('should skip users without enough reviews', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: historyRows(2), rowCount: 6 } as QueryResult);
+
+      const result = await service.optimizeUser('user-1');
+
+      expect(result).toBeNull();
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should store fitted weights', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: historyRows(10), rowCount: 30 } as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as unknown as QueryResult);
+
+      const result = await service.optimizeUser('user-1');
+
+      expect(result?.weights).toHaveLength(17);
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('INSERT INTO user_fsrs_parameters'),
+        ['user-1', JSON.stringify(result!.weights), 20, result!.logLoss, result!.initialLogLoss]
+      );
+    });
+  });
+
+  describe('getUsersPendingOptimization', () => {
+    it('should select users by scored reviews, stalest first', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ user_id: 'user-1' }],
+        rowCount: 1,
+      } as QueryResult);
+
+      const userIds = await service.getUsersPendingOptimization(25);
+
+      expect(userIds).toEqual(['user-1']);
+      const [sql, params] = mockQuery.mock.calls[0] as [string, unknown[]];
+      expect(sql).toContain('LAG(reviewed_at)');
+      expect(sql).toContain('FILTER (WHERE reviews.elapsed >= make_interval(days => $1)) >= $2');
+      expect(sql).toContain('ORDER BY ufp.optimized_at ASC NULLS FIRST');
+      expect(params).toEqual([1, 10, 25]);
+    });
+  });
+
+  describe('optimizePendingUsers', () => {
+    it('should count only users whose weights were updated', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [{ user_id: 'user-1' }, { user_id: 'user-2' }],
+          rowCount: 2,
+        } as QueryResult)
+        .mockResolvedValueOnce({ rows: historyRows(10), rowCount: 30 } as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: historyRows(1), rowCount: 3 } as QueryResult);
+
+      const optimized = await service.optimizePendingUsers();
+
+      expect(optimized).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { FSRSOptimizer } from '../../../../src/services/srs/fsrs-optimizer';
+import { FSRSCalculator, FSRSReviewEvent } from '../../../../src/services/srs/fsrs-calculator';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2025-01-01T00:00:00Z').getTime();
+
+function buildHistory(
+  gapsInDays: number[],
+  ratings: FSRSReviewEvent['rating'][]
+): FSRSReviewEvent[] {
+  let time = START;
+  return ratings.map((rating, i) => {
+    time += (gapsInDays[i] ?? 0) * DAY_MS;
+    return { rating, reviewedAt: new Date(time) };
+  });
+}
+
+function buildStrongLearnerHistories(itemCount: number): FSRSReviewEvent[][] {
+  return Array.from({ length: itemCount }, (_, i) =>
+    buildHistory([0, 10, 40, 120], ['good', 'good', 'good', i % 10 === 0 ? 'again' : 'good'])
+  );
+}
+
+describe('FSRSOptimizer', () => {
+  describe('evaluate', () => {
+    it('should return nulls when there are no scored reviews', () => {
+      const result = new FSRSOptimizer().evaluate([], FSRSCalculator.DEFAULT_WEIGHTS);
+
+      expect(result).toEqual({
+        reviewCount: 0,
+        predictedRetention: null,
+        actualRetention: null,
+        logLoss: null,
+      });
+    });
+
+    it('should not score the first or same-day reviews', () => {
+      const history = buildHistory([0, 0.1, 3], ['good', 'again', 'good']);
+
+      const result = new FSRSOptimizer().evaluate([history], FSRSCalculator.DEFAULT_WEIGHTS);
+
+      expect(result.reviewCount).toBe(1);
+      expect(result.actualRetention).toBe(1);
+    });
+
+    it('should only score reviews after the given date', () => {
+      const history = buildHistory([0, 5, 10], ['good', 'again', 'good']);
+      const since = new Date(START + 12 * DAY_MS);
+
+      const result = new FSRSOptimizer().evaluate([history], FSRSCalculator.DEFAULT_WEIGHTS, since);
+
+      expect(result.reviewCount).toBe(1);
+      expect(result.actualRetention).toBe(1);
+    });
+  });
+
+  describe('hasEnoughReviews', () => {
+    it('should require the minimum number of scored reviews', () => {
+      const optimizer = new FSRSOptimizer({ minReviews: 10 });
+
+      expect(optimizer.hasEnoughReviews(buildStrongLearnerHistories(3))).toBe(false);
+      expect(optimizer.hasEnoughReviews(buildStrongLearnerHistories(4))).toBe(true);
+    });
+  });
+
+  describe('fit', () => {
+    const histories = buildStrongLearnerHistories(30);
+    const optimizer = new FSRSOptimizer({ epochs: 20 });
+
+    it('should reduce log loss on the training history', () => {
+      const result = optimizer.fit(histories);
+
+      expect(result.reviewCount).toBe(90);
+      expect(result.logLoss).toBeLessThan(result.initialLogLoss);
+    });
+
+    it('should be deterministic', () => {
+      expect(optimizer.fit(histories).weights).toEqual(optimizer.fit(histories).weights);
+    });
+
+    it('should keep weights within bounds', () => {
+      const result = optimizer.fit(histories);
+
+      result.weights.forEach((w, i) => {
+        const [min, max] = FSRSOptimizer.WEIGHT_BOUNDS[i];
+        expect(w).toBeGreaterThanOrEqual(min);
+        expect(w).toBeLessThanOrEqual(max);
+      });
+    });
+  });
+});
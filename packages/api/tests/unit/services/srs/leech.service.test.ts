@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Pool, QueryResult } from 'pg';
+import { LeechService } from '../../../../src/services/srs/leech.service';
+import { SRSScheduleItem } from '../../../../src/services/srs/srs.interface';
+
+// Mock pg Pool
+const mockQuery = vi.fn();
+const mockPool = {
+  query: mockQuery,
+} as unknown as Pool;
+
+const leechAt = new Date('2026-02-01T10:00:00Z');
+
+function scheduleItem(overrides: Partial<SRSScheduleItem> = {}): SRSScheduleItem {
+  return {
+    id: 'srs-1',
+    userId: 'user-1',
+    itemType: 'vocabulary',
+    itemId: 'meaning-1',
+    language: 'ES',
+    dueDate: new Date(),
+    interval: 4,
+    repetitions: 3,
+    easeFactor: 1.6,
+    lastReviewedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function settingsRow(threshold: string | null, action: string | null) {
+  return { rows: [{ threshold, action }], rowCount: 1 } as unknown as QueryResult;
+}
+
+describe('LeechService', () => {
+  let service: LeechService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new LeechService(mockPool);
+  });
+
+  describe('getSettings', () => {
+    it('should fall back to defaults when nothing valid is stored', async () => {
+      mockQuery.mockResolvedValueOnce(settingsRow('zero', 'delete'));
+
+      const settings = await service.getSettings('user-1');
+
+      expect(settings).toEqual({ threshold: 8, action: 'remediate' });
+    });
+
+    it('should read the stored threshold and action', async () => {
+      mockQuery.mockResolvedValueOnce(settingsRow('4', 'suspend'));
+
+      expect(await service.getSettings('user-1')).toEqual({ threshold: 4, action: 'suspend' });
+    });
+  });
+
+  describe('handleLapse', () => {
+    it('should ignore lapses below the threshold', async () => {
+      mockQuery.mockResolvedValueOnce(settingsRow(null, null));
+
+      const result = await service.handleLapse(scheduleItem(), 7);
+
+      expect(result).toBeNull();
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should suspend without remediation when the action is suspend', async () => {
+      mockQuery
+        .mockResolvedValueOnce(settingsRow('5', 'suspend'))
+        .mockResolvedValueOnce({ rows: [{ leech_at: leechAt }], rowCount: 1 } as QueryResult);
+
+      const result = await service.handleLapse(scheduleItem(), 5);
+
+      expect(result).toMatchObject({ suspended: true, remediation: null, leechAt, lapses: 5 });
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('suspended_at = current_timestamp');
+      expect(params).toEqual(['srs-1', 'user-1', null, null]);
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('should send vocabulary back to the introduction queue', async () => {
+      mockQuery
+        .mockResolvedValueOnce(settingsRow(null, null))
+        // No interference pattern for the item
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: [{ leech_at: leechAt }], rowCount: 1 } as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as unknown as QueryResult);
+
+      const result = await service.handleLapse(scheduleItem(), 8);
+
+      expect(result?.remediation).toBe('relearn');
+      expect(mockQuery.mock.calls[2][1]).toEqual(['srs-1', 'user-1', 'relearn', null]);
+
+      const [wordSql, wordParams] = mockQuery.mock.calls[3];
+      expect(wordSql).toContain('UPDATE user_word_state');
+      expect(wordSql).toContain('first_seen_at = NULL');
+      expect(wordParams).toEqual(['user-1', 'meaning-1']);
+    });
+
+    it('should prefer an interference drill when a pattern exists', async () => {
+      mockQuery
+        .mockResolvedValueOnce(settingsRow('6', 'remediate'))
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'pattern-1',
+              user_id: 'user-1',
+              target_language: 'ES',
+              source_language: 'IT',
+              target_item_id: 'rule-1',
+              target_text: 'ser',
+              interfering_item_id: 'it-rule-1',
+              interfering_text: 'essere',
+              interference_type: 'grammar',
+              confidence_score: '0.9',
+              occurrence_count: '4',
+              last_occurrence: '2026-01-30T00:00:00Z',
+              remediation_completed: false,
+              created_at: '2026-01-01T00:00:00Z',
+            },
+          ],
+          rowCount: 1,
+        } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: [{ leech_at: leechAt }], rowCount: 1 } as QueryResult);
+
+      const result = await service.handleLapse(
+        scheduleItem({ itemType: 'grammar', itemId: 'rule-1' }),
+        6
+      );
+
+      expect(result).toMatchObject({
+        remediation: 'interference',
+        interferencePatternId: 'pattern-1',
+      });
+      expect(mockQuery.mock.calls[1][1]).toEqual(['user-1', 'rule-1']);
+      expect(mockQuery.mock.calls[2][1]).toEqual(['srs-1', 'user-1', 'interference', 'pattern-1']);
+      // Word state is only reset for relearning
+      expect(mockQuery).toHaveBeenCalledTimes(3);
+    });
+
+    it('should only suspend non-vocabulary items without a pattern', async () => {
+      mockQuery
+        .mockResolvedValueOnce(settingsRow(null, null))
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: [{ leech_at: leechAt }], rowCount: 1 } as QueryResult);
+
+      const result = await service.handleLapse(scheduleItem({ itemType: 'reading' }), 9);
+
+      expect(result?.remediation).toBeNull();
+      expect(mockQuery).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('getLeeches', () => {
+    it('should map leech rows', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'srs-1',
+            item_type: 'vocabulary',
+            item_id: 'meaning-1',
+            language: 'ES',
+            lapses: 9,
+            leech_at: leechAt,
+            suspended_at: leechAt,
+            leech_remediation: 'relearn',
+            leech_pattern_id: null,
+            text: 'embarazada',
+          },
+        ],
+        rowCount: 1,
+      } as QueryResult);
+
+      const leeches = await service.getLeeches('user-1', 'ES');
+
+      expect(leeches).toEqual([
+        {
+          id: 'srs-1',
+          itemType: 'vocabulary',
+          itemId: 'meaning-1',
+          language: 'ES',
+          lapses: 9,
+          leechAt,
+          suspended: true,
+          remediation: 'relearn',
+          interferencePatternId: null,
+          text: 'embarazada',
+        },
+      ]);
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('leech_at IS NOT NULL');
+      expect(params).toEqual(['user-1', 'ES']);
+    });
+  });
+
+  describe('release', () => {
+    it('should reset the schedule and lapses of a suspended leech', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 } as unknown as QueryResult);
+
+      const released = await service.release('user-1', 'grammar', 'rule-1');
+
+      expect(released).toBe(true);
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('suspended_at = NULL');
+      expect(sql).toContain('lapses = 0');
+      expect(sql).toContain('AND suspended_at IS NOT NULL');
+      expect(params).toEqual(['user-1', 'grammar', 'rule-1']);
+    });
+
+    it('should report items that are not suspended', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult);
+
+      expect(await service.release('user-1', 'grammar', 'rule-1')).toBe(false);
+    });
+
+    it('should release relearned vocabulary and completed interference drills', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [], rowCount: 2 } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as unknown as QueryResult);
+
+      expect(await service.releaseRelearned('user-1', ['meaning-1', 'meaning-2'])).toBe(2);
+      expect(await service.releaseForPattern('user-1', 'pattern-1')).toBe(1);
+
+      expect(mockQuery.mock.calls[0][0]).toContain("leech_remediation = 'relearn'");
+      expect(mockQuery.mock.calls[0][1]).toEqual(['user-1', ['meaning-1', 'meaning-2']]);
+      expect(mockQuery.mock.calls[1][0]).toContain('leech_pattern_id = $2');
+      expect(mockQuery.mock.calls[1][1]).toEqual(['user-1', 'pattern-1']);
+    });
+  });
+});
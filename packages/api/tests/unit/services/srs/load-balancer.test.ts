@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { SRSLoadBalancer } from '../../../../src/services/srs/load-balancer';
+
+describe('SRSLoadBalancer', () => {
+  const balancer = new SRSLoadBalancer();
+
+  describe('getFuzzRange', () => {
+    it('should not fuzz short intervals', () => {
+      expect(balancer.getFuzzRange(0)).toBeNull();
+      expect(balancer.getFuzzRange(1)).toBeNull();
+      expect(balancer.getFuzzRange(2)).toBeNull();
+    });
+
+    it('should widen the window as intervals grow', () => {
+      expect(balancer.getFuzzRange(3)).toEqual({ min: 2, max: 4 });
+      expect(balancer.getFuzzRange(6)).toEqual({ min: 4, max: 8 });
+      expect(balancer.getFuzzRange(15)).toEqual({ min: 13, max: 17 });
+      expect(balancer.getFuzzRange(100)).toEqual({ min: 93, max: 107 });
+    });
+
+    it('should never move an item earlier than two days', () => {
+      const range = balancer.getFuzzRange(2.5);
+      expect(range?.min).toBe(2);
+    });
+  });
+
+  describe('pickInterval', () => {
+    it('should keep the interval when no other items are due', () => {
+      expect(balancer.pickInterval(15, new Map())).toBe(15);
+    });
+
+    it('should keep short intervals regardless of load', () => {
+      expect(balancer.pickInterval(1, new Map([[1, 500]]))).toBe(1);
+    });
+
+    it('should pick the least loaded day in the window', () => {
+      const load = new Map([
+        [13, 8],
+        [14, 6],
+        [15, 9],
+        [16, 2],
+        [17, 7],
+      ]);
+
+      expect(balancer.pickInterval(15, load)).toBe(16);
+    });
+
+    it('should prefer the day closest to the interval on equal load', () => {
+      const load = new Map([
+        [13, 1],
+        [14, 1],
+        [15, 5],
+        [16, 1],
+        [17, 1],
+      ]);
+
+      // 14 and 16 are equally close; the earlier day wins
+      expect(balancer.pickInterval(15, load)).toBe(14);
+    });
+  });
+
+  describe('balance', () => {
+    it('should shift the due date by the interval change', () => {
+      const nextDueDate = new Date('2026-03-16T09:30:00.000Z');
+      const update = { nextDueDate, newInterval: 15, newRepetitions: 3, newEaseFactor: 2.5 };
+
+      const result = balancer.balance(update, new Map([[15, 10]]));
+
+      expect(result.newInterval).toBe(14);
+      expect(result.nextDueDate.toISOString()).toBe('2026-03-15T09:30:00.000Z');
+      expect(result.newRepetitions).toBe(3);
+      // The scheduler's update is left untouched
+      expect(update.nextDueDate.toISOString()).toBe('2026-03-16T09:30:00.000Z');
+    });
+
+    it('should return the update unchanged when no move is needed', () => {
+      const update = {
+        nextDueDate: new Date(),
+        newInterval: 1,
+        newRepetitions: 0,
+        newEaseFactor: 2.3,
+      };
+
+      expect(balancer.balance(update, new Map())).toBe(update);
+    });
+  });
+});
@@ -0,0 +1,416 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Pool, QueryResult } from 'pg';
+import { ReviewLogService } from '../../../../src/services/srs/review-log.service';
+import { SRSItemSnapshot, WordStateSnapshot } from '../../../../src/services/srs/srs.interface';
+
+// Mock pg Pool and transaction client
+const mockQuery = vi.fn();
+const mockClientQuery = vi.fn();
+const mockRelease = vi.fn();
+const mockPool = {
+  query: mockQuery,
+  connect: vi.fn().mockResolvedValue({ query: mockClientQuery, release: mockRelease }),
+} as unknown as Pool;
+
+const srsBefore: SRSItemSnapshot = {
+  interval: 14,
+  repetitions: 3,
+  easeFactor: 2.5,
+  dueDate: '2026-01-10T00:00:00.000Z',
+  lastReviewedAt: '2025-12-27T00:00:00.000Z',
+  stability: 12.4,
+  difficulty: 4.8,
+};
+
+const srsAfter: SRSItemSnapshot = {
+  interval: 1,
+  repetitions: 0,
+  easeFactor: 1.7,
+  dueDate: '2026-01-11T00:00:00.000Z',
+  lastReviewedAt: '2026-01-10T00:00:00.000Z',
+  stability: 2.1,
+  difficulty: 6.3,
+};
+
+function logRow(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    source: 'srs_item',
+    item_type: 'vocabulary',
+    item_id: 'meaning-1',
+    practice_mode: 'review',
+    rating: 'again',
+    response_time_ms: 2400,
+    was_correct: null,
+    state_before: srsBefore,
+    state_after: srsAfter,
+    history_id: null,
+    ...overrides,
+  };
+}
+
+describe('ReviewLogService', () => {
+  let service: ReviewLogService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockClientQuery.mockResolvedValue({ rows: [], rowCount: 1 } as unknown as QueryResult);
+    service = new ReviewLogService(mockPool);
+  });
+
+  describe('append', () => {
+    it('should insert a review entry with serialized snapshots', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 } as unknown as QueryResult);
+
+      await service.append({
+        userId: 'user-1',
+        sessionId: 'session-1',
+        source: 'srs_item',
+        itemType: 'vocabulary',
+        itemId: 'meaning-1',
+        practiceMode: 'recall',
+        rating: 'again',
+        responseTimeMs: 1800,
+        wasCorrect: false,
+        stateBefore: srsBefore,
+        stateAfter: srsAfter,
+      });
+
+      const [sql, params] = mockQuery.mock.calls[0] as [string, unknown[]];
+      expect(sql).toContain('INSERT INTO review_log');
+      expect(sql).toContain("'review'");
+      expect(params.slice(0, 8)).toEqual([
+        'user-1',
+        'session-1',
+        'srs_item',
+        'vocabulary',
+        'meaning-1',
+        'recall',
+        'again',
+        1800,
+      ]);
+      expect(JSON.parse(params[8] as string)).toEqual(srsBefore);
+      expect(JSON.parse(params[9] as string)).toEqual(srsAfter);
+      expect(params[11]).toBe(false);
+    });
+
+    it('should fail the review when the entry cannot be written', async () => {
+      mockQuery.mockRejectedValueOnce(new Error('relation "review_log" does not exist'));
+
+      await expect(
+        service.append({
+          userId: 'user-1',
+          sessionId: null,
+          source: 'srs_item',
+          itemType: 'vocabulary',
+          itemId: 'meaning-1',
+          practiceMode: 'review',
+          rating: 'good',
+          responseTimeMs: null,
+          stateBefore: srsBefore,
+          stateAfter: srsAfter,
+        })
+      ).rejects.toThrow('relation "review_log" does not exist');
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should capture the schedule before and after a review', () => {
+      const item = {
+        id: 'srs-1',
+        userId: 'user-1',
+        itemType: 'vocabulary' as const,
+        itemId: 'meaning-1',
+        language: 'EN',
+        dueDate: new Date(srsBefore.dueDate),
+        interval: 14,
+        repetitions: 3,
+        easeFactor: 2.5,
+        lastReviewedAt: new Date(srsBefore.lastReviewedAt!),
+        stability: 12.4,
+        difficulty: 4.8,
+      };
+
+      expect(ReviewLogService.snapshotScheduleItem(item)).toEqual(srsBefore);
+
+      const after = ReviewLogService.snapshotUpdate(
+        item,
+        {
+          nextDueDate: new Date(srsAfter.dueDate),
+          newInterval: 1,
+          newRepetitions: 0,
+          newEaseFactor: 1.7,
+        },
+        new Date(srsAfter.lastReviewedAt!)
+      );
+
+      // Memory state is carried over when the update has none
+      expect(after).toEqual({ ...srsAfter, stability: 12.4, difficulty: 4.8 });
+    });
+  });
+
+  describe('undoLast', () => {
+    it('should restore the previous schedule and append an undo entry', async () => {
+      mockClientQuery
+        .mockResolvedValueOnce({ rows: [] } as unknown as QueryResult) // BEGIN
+        .mockResolvedValueOnce({
+          rows: [logRow('log-2', { history_id: 'history-2' })],
+        } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: [] } as unknown as QueryResult); // Not reviewed since
+
+      const result = await service.undoLast('user-1', 'session-1');
+
+      expect(result).toEqual([
+        {
+          logId: 'log-2',
+          source: 'srs_item',
+          itemType: 'vocabulary',
+          itemId: 'meaning-1',
+          practiceMode: 'review',
+          rating: 'again',
+          restoredState: srsBefore,
+        },
+      ]);
+
+      const calls = mockClientQuery.mock.calls as [string, unknown[]?][];
+      expect(calls[0][0]).toBe('BEGIN');
+      expect(calls[1][0]).toContain('NOT EXISTS');
+      expect(calls[1][1]).toEqual(['user-1', 'session-1', 1]);
+
+      expect(calls[2][0]).toContain('s.last_reviewed_at > rl.created_at');
+      expect(calls[2][1]).toEqual(['log-2']);
+
+      expect(calls[3][0]).toContain('UPDATE user_srs_items');
+      expect(calls[3][1]).toEqual([
+        14,
+        3,
+        2.5,
+        srsBefore.dueDate,
+        srsBefore.lastReviewedAt,
+        12.4,
+        4.8,
+        'user-1',
+        'vocabulary',
+        'meaning-1',
+      ]);
+
+      // Quotas and the FSRS optimizer no longer count the review
+      expect(calls[4][0]).toContain('DELETE FROM srs_review_history');
+      expect(calls[4][1]).toEqual(['history-2']);
+
+      expect(calls[5][0]).toContain("'undo'");
+      const undoParams = calls[5][1]!;
+      expect(JSON.parse(undoParams[7] as string)).toEqual(srsAfter);
+      expect(JSON.parse(undoParams[8] as string)).toEqual(srsBefore);
+      expect(undoParams[9]).toBe('log-2');
+
+      // The review session no longer counts the undone review
+      expect(calls[6][0]).toContain('UPDATE user_review_sessions');
+      expect(calls[6][1]).toEqual(['session-1', 'user-1', 1, 0, 2400]);
+
+      expect(calls[7][0]).toBe('COMMIT');
+      expect(mockRelease).toHaveBeenCalled();
+    });
+
+    it('should revert several reviews newest first', async () => {
+      mockClientQuery
+        .mockResolvedValueOnce({ rows: [] } as unknown as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [logRow('log-3', { item_id: 'meaning-2', rating: 'good' }), logRow('log-2')],
+        } as unknown as QueryResult);
+
+      const result = await service.undoLast('user-1', 'session-1', 2);
+
+      expect(result.map((r) => r.logId)).toEqual(['log-3', 'log-2']);
+      const updates = (mockClientQuery.mock.calls as [string, unknown[]?][]).filter(([sql]) =>
+        sql.includes('UPDATE user_srs_items')
+      );
+      expect(updates.map(([, params]) => params![9])).toEqual(['meaning-2', 'meaning-1']);
+
+      const sessionUpdate = (mockClientQuery.mock.calls as [string, unknown[]?][]).find(([sql]) =>
+        sql.includes('UPDATE user_review_sessions')
+      );
+      expect(sessionUpdate?.[1]).toEqual(['session-1', 'user-1', 2, 1, 4800]);
+    });
+
+    it('should take correct answers back as the session counted them', async () => {
+      mockClientQuery
+        .mockResolvedValueOnce({ rows: [] } as unknown as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [
+            logRow('log-5', { item_id: 'meaning-2', rating: 'hard', was_correct: false }),
+            logRow('log-4', { rating: 'again', was_correct: true }),
+          ],
+        } as unknown as QueryResult);
+
+      await service.undoLast('user-1', 'session-1', 2);
+
+      const sessionUpdate = (mockClientQuery.mock.calls as [string, unknown[]?][]).find(([sql]) =>
+        sql.includes('UPDATE user_review_sessions')
+      );
+      expect(sessionUpdate?.[1]).toEqual(['session-1', 'user-1', 2, 1, 4800]);
+    });
+
+    it('should restore word state reviews', async () => {
+      const wordBefore: WordStateSnapshot = {
+        state: 'learning',
+        successfulReviews: 4,
+        totalReviews: 6,
+        markedKnownAt: null,
+        lastReviewedAt: '2026-01-09T00:00:00.000Z',
+      };
+
+      mockClientQuery
+        .mockResolvedValueOnce({ rows: [] } as unknown as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [
+            logRow('log-9', {
+              source: 'word_state',
+              rating: 'good',
+              state_before: wordBefore,
+              state_after: { ...wordBefore, state: 'known', successfulReviews: 5 },
+            }),
+          ],
+        } as unknown as QueryResult);
+
+      await service.undoLast('user-1', 'session-1');
+
+      expect(mockClientQuery.mock.calls[2][0]).toContain('JOIN user_word_state s');
+
+      const [sql, params] = mockClientQuery.mock.calls[3] as [string, unknown[]];
+      expect(sql).toContain('UPDATE user_word_state');
+      expect(params).toEqual([
+        'learning',
+        4,
+        6,
+        null,
+        wordBefore.lastReviewedAt,
+        'user-1',
+        'meaning-1',
+      ]);
+    });
+
+    it('should take back the lapse that turned an item into a leech', async () => {
+      const wordState = {
+        state: 'known',
+        firstSeenAt: '2026-01-02T09:00:00.000Z',
+        markedKnownAt: '2026-02-01T09:00:00.000Z',
+        successfulReviews: 6,
+      };
+      const leechBefore: SRSItemSnapshot = {
+        ...srsBefore,
+        lapses: 7,
+        leechAt: null,
+        suspendedAt: null,
+        leechRemediation: null,
+        leechPatternId: null,
+        wordState,
+      };
+      const leechAfter: SRSItemSnapshot = {
+        ...srsAfter,
+        lapses: 8,
+        leechAt: '2026-01-10T00:00:00.000Z',
+        suspendedAt: '2026-01-10T00:00:00.000Z',
+        leechRemediation: 'relearn',
+        leechPatternId: null,
+      };
+
+      mockClientQuery
+        .mockResolvedValueOnce({ rows: [] } as unknown as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [logRow('log-4', { state_before: leechBefore, state_after: leechAfter })],
+        } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: [] } as unknown as QueryResult);
+
+      await service.undoLast('user-1', 'session-1');
+
+      const calls = mockClientQuery.mock.calls as [string, unknown[]?][];
+
+      // Lapse count, leech flag and suspension are restored
+      const leechRestore = calls.find(([sql]) => sql.includes('leech_at = $2'));
+      expect(leechRestore?.[1]).toEqual([
+        7,
+        null,
+        null,
+        null,
+        null,
+        'user-1',
+        'vocabulary',
+        'meaning-1',
+      ]);
+
+      // The word reset for relearning gets its progress back
+      const wordRestore = calls.find(([sql]) => sql.includes('UPDATE user_word_state'));
+      expect(wordRestore?.[1]).toEqual([
+        'known',
+        wordState.firstSeenAt,
+        wordState.markedKnownAt,
+        6,
+        'user-1',
+        'meaning-1',
+      ]);
+      expect(calls.at(-1)?.[0]).toBe('COMMIT');
+    });
+
+    it('should leave lapses alone for entries logged without them', async () => {
+      mockClientQuery
+        .mockResolvedValueOnce({ rows: [] } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: [logRow('log-2')] } as unknown as QueryResult);
+
+      await service.undoLast('user-1', 'session-1');
+
+      const sqls = mockClientQuery.mock.calls.map(([sql]) => sql as string);
+      expect(sqls.some((sql) => sql.includes('lapses ='))).toBe(false);
+      expect(sqls.some((sql) => sql.includes('UPDATE user_word_state'))).toBe(false);
+    });
+
+    it('should return an empty list when nothing is left to undo', async () => {
+      mockClientQuery
+        .mockResolvedValueOnce({ rows: [] } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: [] } as unknown as QueryResult);
+
+      const result = await service.undoLast('user-1', 'session-1');
+
+      expect(result).toEqual([]);
+      expect(mockClientQuery.mock.calls.map(([sql]) => sql as string)).toHaveLength(3);
+      expect(mockClientQuery.mock.calls[2][0]).toBe('COMMIT');
+    });
+
+    it('should refuse to undo a review when the item was reviewed again since', async () => {
+      mockClientQuery
+        .mockResolvedValueOnce({ rows: [] } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: [logRow('log-2')] } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] } as unknown as QueryResult);
+
+      await expect(service.undoLast('user-1', 'session-1')).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'REVIEWED_SINCE',
+      });
+
+      const calls = mockClientQuery.mock.calls as [string, unknown[]?][];
+      expect(calls.some(([sql]) => sql.includes('UPDATE user_srs_items'))).toBe(false);
+      expect(calls.at(-1)?.[0]).toBe('ROLLBACK');
+    });
+
+    it('should roll back when restoring fails', async () => {
+      mockClientQuery
+        .mockResolvedValueOnce({ rows: [] } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: [logRow('log-2')] } as unknown as QueryResult)
+        .mockResolvedValueOnce({ rows: [] } as unknown as QueryResult)
+        .mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(service.undoLast('user-1', 'session-1')).rejects.toThrow('connection lost');
+
+      expect(mockClientQuery.mock.calls.at(-1)?.[0]).toBe('ROLLBACK');
+      expect(mockRelease).toHaveBeenCalled();
+    });
+
+    it('should reject counts outside the allowed range', async () => {
+      await expect(service.undoLast('user-1', 'session-1', 0)).rejects.toThrow(
+        'Undo count must be between 1 and 20'
+      );
+      await expect(service.undoLast('user-1', 'session-1', 21)).rejects.toThrow();
+      expect(mockPool.connect).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -27,6 +27,20 @@ describe('SM2Calculator', () => {
     });
   });
 
+  describe('qualityToRating', () => {
+    it('should map failing quality scores to "again"', () => {
+      expect(calculator.qualityToRating(0)).toBe('again');
+      expect(calculator.qualityToRating(2)).toBe('again');
+    });
+
+    it('should invert ratingToQuality for passing scores', () => {
+      const ratings: PerformanceRating[] = ['hard', 'good', 'easy'];
+      for (const rating of ratings) {
+        expect(calculator.qualityToRating(calculator.ratingToQuality(rating))).toBe(rating);
+      }
+    });
+  });
+
   describe('calculateEaseFactor', () => {
     it('should increase ease factor for easy (quality 5)', () => {
       const result = calculator.calculateEaseFactor(2.5, 5);
@@ -1,19 +1,97 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Pool, QueryResult } from 'pg';
 import { SRSService } from '../../../../src/services/srs/srs.service';
-import { SRSScheduleItem, PerformanceRating } from '../../../../src/services/srs/srs.interface';
+import { FSRSCalculator } from '../../../../src/services/srs/fsrs-calculator';
+import {
+  SRSScheduleItem,
+  SRSItemType,
+  PerformanceRating,
+} from '../../../../src/services/srs/srs.interface';
 
-// Mock pg Pool
+// Mock pg Pool and transaction client
 const mockQuery = vi.fn();
+const mockClientQuery = vi.fn();
+const mockRelease = vi.fn();
 const mockPool = {
   query: mockQuery,
+  connect: vi.fn().mockResolvedValue({ query: mockClientQuery, release: mockRelease }),
 } as unknown as Pool;
 
+// Daily quota lookup with no stored limits and nothing reviewed today
+const emptyQuota = {
+  rows: [{ review_limit: null, new_limit: null, reviews_done: '0', new_done: '0' }],
+  rowCount: 1,
+} as unknown as QueryResult;
+
+// Load balancer lookup with no other items due in the fuzz window
+const noDueLoad = { rows: [], rowCount: 0 } as unknown as QueryResult;
+
+// Time a lapse flags its item as a leech
+const leechAt = new Date('2026-03-01T12:00:00.000Z');
+
+/**
+ * Stored state the statements of a review transaction see
+ */
+interface ReviewTransaction {
+  lapsesBefore?: number;
+  lapsesAfter?: number;
+  leechSettings?: { threshold: string; action: string };
+  wordState?: Record<string, unknown>;
+}
+
+function reviewTransactionResult(sql: string, review: ReviewTransaction): QueryResult {
+  const lapsesBefore = review.lapsesBefore ?? 0;
+  let rows: unknown[] = [];
+
+  if (sql.includes('SELECT lapses')) {
+    rows = [
+      {
+        lapses: lapsesBefore,
+        leech_at: null,
+        suspended_at: null,
+        leech_remediation: null,
+        leech_pattern_id: null,
+      },
+    ];
+  } else if (sql.includes('RETURNING lapses')) {
+    rows = [{ lapses: review.lapsesAfter ?? lapsesBefore }];
+  } else if (sql.includes('INSERT INTO srs_review_history')) {
+    rows = [{ id: 'history-1' }];
+  } else if (sql.includes('FROM user_word_state')) {
+    rows = review.wordState ? [review.wordState] : [];
+  } else if (sql.includes('srsLeechThreshold')) {
+    rows = review.leechSettings ? [review.leechSettings] : [];
+  } else if (sql.includes('RETURNING leech_at')) {
+    rows = [{ leech_at: leechAt }];
+  }
+
+  return { rows, rowCount: rows.length } as unknown as QueryResult;
+}
+
+function answerReviewTransaction(review: ReviewTransaction = {}) {
+  mockClientQuery.mockImplementation((sql: string) =>
+    Promise.resolve(reviewTransactionResult(sql, review))
+  );
+}
+
+function statements(): string[] {
+  return mockClientQuery.mock.calls.map((call) => String(call[0]));
+}
+
+function clientCall(fragment: string): [string, unknown[]] {
+  const call = mockClientQuery.mock.calls.find((c) => String(c[0]).includes(fragment));
+  if (!call) {
+    throw new Error(`No statement containing "${fragment}"`);
+  }
+  return call as [string, unknown[]];
+}
+
 describe('SRSService', () => {
   let service: SRSService;
 
   beforeEach(() => {
     vi.clearAllMocks();
+    answerReviewTransaction();
     service = new SRSService(mockPool);
   });
 
@@ -72,17 +150,61 @@ describe('SRSService', () => {
       expect(result).toBe('existing-id');
     });
 
-    it('should throw error for unsupported item types', async () => {
+    it('should schedule grammar rules under their polymorphic key', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'grammar-srs-id' }],
+        rowCount: 1,
+      } as QueryResult);
+
+      const result = await service.addToSchedule('user-123', 'grammar', 'rule-456', 'EN');
+
+      expect(result).toBe('grammar-srs-id');
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('ON CONFLICT (user_id, item_type, item_id)');
+      expect(params.slice(0, 6)).toEqual(['user-123', 'grammar', 'rule-456', null, null, 'EN']);
+    });
+
+    it('should keep reading_passage_id for reading passages', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'reading-srs-id' }],
+        rowCount: 1,
+      } as QueryResult);
+
+      await service.addToSchedule('user-123', 'reading', 'passage-1', 'EN');
+
+      const params = mockQuery.mock.calls[0][1];
+      expect(params.slice(0, 5)).toEqual(['user-123', 'reading', 'passage-1', null, 'passage-1']);
+    });
+
+    it('should look up existing items by type and ID', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [],
+          rowCount: 0,
+        } as unknown as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [{ id: 'existing-ortho' }],
+          rowCount: 1,
+        } as QueryResult);
+
+      const result = await service.addToSchedule('user-123', 'orthography', 'ortho-a', 'RU');
+
+      expect(result).toBe('existing-ortho');
+      expect(mockQuery.mock.calls[1][1]).toEqual(['user-123', 'orthography', 'ortho-a']);
+    });
+
+    it('should reject unknown item types', async () => {
       await expect(
-        service.addToSchedule('user-123', 'grammar', 'grammar-456', 'EN')
-      ).rejects.toThrow("Item type 'grammar' is not yet supported");
+        service.addToSchedule('user-123', 'phrase' as SRSItemType, 'phrase-1', 'EN')
+      ).rejects.toThrow("Unknown SRS item type 'phrase'");
+      expect(mockQuery).not.toHaveBeenCalled();
     });
   });
 
   describe('getDueItems', () => {
     it('should return due items ordered by due date', async () => {
       const now = new Date();
-      mockQuery.mockResolvedValueOnce({
+      mockQuery.mockResolvedValueOnce(emptyQuota).mockResolvedValueOnce({
         rows: [
           {
             id: 'item-1',
@@ -119,7 +241,7 @@ describe('SRSService', () => {
     });
 
     it('should filter by language when provided', async () => {
-      mockQuery.mockResolvedValueOnce({
+      mockQuery.mockResolvedValueOnce(emptyQuota).mockResolvedValueOnce({
         rows: [],
         rowCount: 0,
       } as unknown as QueryResult);
@@ -128,21 +250,131 @@ describe('SRSService', () => {
 
       expect(mockQuery).toHaveBeenCalledWith(
         expect.stringContaining('AND language = $2'),
-        expect.arrayContaining(['user-123', 'RU', 20])
+        expect.arrayContaining(['user-123', 'RU', 20, 200, 20])
       );
     });
 
     it('should not filter by language when not provided', async () => {
-      mockQuery.mockResolvedValueOnce({
+      mockQuery.mockResolvedValueOnce(emptyQuota).mockResolvedValueOnce({
         rows: [],
         rowCount: 0,
       } as unknown as QueryResult);
 
       await service.getDueItems('user-123');
 
-      const call = mockQuery.mock.calls[0];
+      const call = mockQuery.mock.calls[1];
       expect(call[0]).not.toContain('AND language = $2');
     });
+
+    it('should filter by item type when provided', async () => {
+      mockQuery.mockResolvedValueOnce(emptyQuota).mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'item-3',
+            user_id: 'user-123',
+            item_type: 'grammar',
+            item_id: 'rule-1',
+            meaning_id: null,
+            language: 'EN',
+            interval: 1,
+            repetitions: 0,
+            ease_factor: 2.5,
+            next_review_at: new Date(),
+            last_reviewed_at: null,
+          },
+        ],
+        rowCount: 1,
+      } as QueryResult);
+
+      const result = await service.getDueItems('user-123', undefined, 10, 'grammar');
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('AND item_type = $2');
+      expect(params).toEqual(['user-123', 'grammar', 20, 200, 10]);
+      expect(result[0].itemType).toBe('grammar');
+      expect(result[0].itemId).toBe('rule-1');
+    });
+  });
+
+  describe('getDueItems daily limits', () => {
+    it('should cap new and review items with the remaining quota', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [{ review_limit: '100', new_limit: '10', reviews_done: '40', new_done: '10' }],
+          rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult);
+
+      await service.getDueItems('user-123', 'EN', 50);
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('PARTITION BY last_reviewed_at IS NULL');
+      expect(sql).toContain('ORDER BY overdue_ratio DESC');
+      expect(params).toEqual(['user-123', 'EN', 0, 60, 50]);
+    });
+  });
+
+  describe('getDailyQuota', () => {
+    it('should use default limits when none are stored', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ review_limit: null, new_limit: null, reviews_done: '35', new_done: '4' }],
+        rowCount: 1,
+      } as QueryResult);
+
+      const quota = await service.getDailyQuota('user-123');
+
+      expect(quota).toEqual({
+        reviewLimit: 200,
+        newLimit: 20,
+        reviewsDone: 35,
+        newDone: 4,
+        reviewsRemaining: 165,
+        newRemaining: 16,
+      });
+    });
+
+    it('should apply stored limits and never go below zero', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ review_limit: '50', new_limit: '0', reviews_done: '60', new_done: '2' }],
+        rowCount: 1,
+      } as QueryResult);
+
+      const quota = await service.getDailyQuota('user-123');
+
+      expect(quota.reviewLimit).toBe(50);
+      expect(quota.newLimit).toBe(0);
+      expect(quota.reviewsRemaining).toBe(0);
+      expect(quota.newRemaining).toBe(0);
+    });
+
+    it('should ignore invalid stored limits', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ review_limit: '-5', new_limit: 'lots', reviews_done: '0', new_done: '0' }],
+        rowCount: 1,
+      } as QueryResult);
+
+      const quota = await service.getDailyQuota('user-123');
+
+      expect(quota.reviewLimit).toBe(200);
+      expect(quota.newLimit).toBe(20);
+    });
+  });
+
+  describe('countDueItems', () => {
+    it('should count due items with language and type filters', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ count: '7' }],
+        rowCount: 1,
+      } as QueryResult);
+
+      const result = await service.countDueItems('user-123', 'EN', 'reading');
+
+      expect(result).toBe(7);
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('AND language = $2');
+      expect(sql).toContain('AND item_type = $3');
+      expect(params).toEqual(['user-123', 'EN', 'reading']);
+    });
   });
 
   describe('recordReview', () => {
@@ -167,22 +399,87 @@ describe('SRSService', () => {
           ],
           rowCount: 1,
         } as QueryResult)
-        // Mock update
+        // Mock scheduler preference lookup
         .mockResolvedValueOnce({
           rows: [],
-          rowCount: 1,
+          rowCount: 0,
         } as unknown as QueryResult)
-        // Mock history insert
-        .mockResolvedValueOnce({
-          rows: [],
-          rowCount: 1,
-        } as unknown as QueryResult);
+        // Mock due load in the fuzz window
+        .mockResolvedValueOnce(noDueLoad);
 
-      const result = await service.recordReview('user-123', 'meaning-456', 'good');
+      const result = await service.recordReview('user-123', 'meaning-456', 'good', 'vocabulary', {
+        sessionId: 'session-1',
+      });
 
       expect(result.newRepetitions).toBe(2);
       expect(result.newInterval).toBe(6);
       expect(mockQuery).toHaveBeenCalledTimes(3);
+
+      // Schedule, history and log are written in one transaction
+      const sqls = statements();
+      expect(sqls[0]).toBe('BEGIN');
+      expect(sqls[1]).toContain('FOR UPDATE');
+      expect(sqls[2]).toContain('UPDATE user_srs_items');
+      expect(sqls[3]).toContain('INSERT INTO srs_review_history');
+      expect(sqls[4]).toContain('INSERT INTO review_log');
+      expect(sqls[5]).toBe('COMMIT');
+      expect(mockRelease).toHaveBeenCalled();
+
+      const logParams = clientCall('INSERT INTO review_log')[1];
+      expect(logParams[1]).toBe('session-1');
+      expect(JSON.parse(logParams[8] as string)).toMatchObject({
+        interval: 1,
+        repetitions: 1,
+        dueDate: now.toISOString(),
+        lapses: 0,
+      });
+      expect(JSON.parse(logParams[9] as string)).toMatchObject({ interval: 6, repetitions: 2 });
+      // Undoing the review removes its history row
+      expect(logParams[10]).toBe('history-1');
+    });
+
+    it('should move the due date to a less busy day in the fuzz window', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'srs-id',
+              user_id: 'user-123',
+              meaning_id: 'meaning-456',
+              language: 'EN',
+              interval: 6,
+              repetitions: 2,
+              ease_factor: 2.5,
+              next_review_at: new Date(),
+              last_reviewed_at: new Date(),
+            },
+          ],
+          rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult)
+        // 15 days is the SM-2 interval; 14 and 17 are busy, 16 is free
+        .mockResolvedValueOnce({
+          rows: [
+            { day_offset: 13, count: '9' },
+            { day_offset: 14, count: '12' },
+            { day_offset: 15, count: '12' },
+            { day_offset: 16, count: '3' },
+            { day_offset: 17, count: '12' },
+          ],
+          rowCount: 5,
+        } as QueryResult);
+
+      const before = Date.now();
+      const result = await service.recordReview('user-123', 'meaning-456', 'good');
+
+      expect(result.newInterval).toBe(16);
+      const days = (result.nextDueDate.getTime() - before) / (24 * 60 * 60 * 1000);
+      expect(Math.round(days)).toBe(16);
+
+      const [loadSql, loadParams] = mockQuery.mock.calls[2];
+      expect(loadSql).toContain('GROUP BY day_offset');
+      expect(loadParams).toEqual(['user-123', 'srs-id', 13, 17]);
+      expect(clientCall('RETURNING lapses')[1][0]).toBe(16);
     });
 
     it('should throw NotFoundError when item does not exist', async () => {
@@ -194,10 +491,12 @@ describe('SRSService', () => {
       await expect(service.recordReview('user-123', 'nonexistent', 'good')).rejects.toThrow(
         'SRS item not found'
       );
+      expect(mockPool.connect).not.toHaveBeenCalled();
     });
 
     it('should reset on "again" rating', async () => {
       const now = new Date();
+      answerReviewTransaction({ lapsesBefore: 0, lapsesAfter: 1 });
 
       mockQuery
         .mockResolvedValueOnce({
@@ -216,10 +515,6 @@ describe('SRSService', () => {
           ],
           rowCount: 1,
         } as QueryResult)
-        .mockResolvedValueOnce({
-          rows: [],
-          rowCount: 1,
-        } as unknown as QueryResult)
         .mockResolvedValueOnce({
           rows: [],
           rowCount: 1,
@@ -229,6 +524,381 @@ describe('SRSService', () => {
 
       expect(result.newRepetitions).toBe(0);
       expect(result.newInterval).toBe(1);
+
+      // Forgetting a learned item counts as a lapse
+      const [updateSql, updateParams] = clientCall('RETURNING lapses');
+      expect(updateSql).toContain('lapses = lapses + $9');
+      expect(updateParams[8]).toBe(1);
+
+      // Below the threshold the item is neither flagged nor reset
+      expect(statements().some((sql) => sql.includes('RETURNING leech_at'))).toBe(false);
+      const logParams = clientCall('INSERT INTO review_log')[1];
+      expect(JSON.parse(logParams[8] as string)).not.toHaveProperty('wordState');
+      expect(JSON.parse(logParams[9] as string)).toMatchObject({ lapses: 1, suspendedAt: null });
+    });
+
+    it('should suspend an item once its lapses reach the leech threshold', async () => {
+      const now = new Date();
+      answerReviewTransaction({
+        lapsesBefore: 4,
+        lapsesAfter: 5,
+        leechSettings: { threshold: '5', action: 'suspend' },
+      });
+
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'srs-id',
+              user_id: 'user-123',
+              item_type: 'grammar',
+              item_id: 'rule-1',
+              language: 'EN',
+              interval: 4,
+              repetitions: 2,
+              ease_factor: 1.8,
+              next_review_at: now,
+              last_reviewed_at: now,
+            },
+          ],
+          rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult);
+
+      await service.recordReview('user-123', 'rule-1', 'again', 'grammar');
+
+      // The leech is flagged in the review's transaction
+      const [leechSql, leechParams] = clientCall('RETURNING leech_at');
+      expect(leechSql).toContain('suspended_at = current_timestamp');
+      expect(leechParams).toEqual(['srs-id', 'user-123', null, null]);
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+      expect(statements().at(-1)).toBe('COMMIT');
+
+      const logParams = clientCall('INSERT INTO review_log')[1];
+      expect(JSON.parse(logParams[8] as string)).toMatchObject({
+        lapses: 4,
+        leechAt: null,
+        suspendedAt: null,
+      });
+      expect(JSON.parse(logParams[9] as string)).toMatchObject({
+        lapses: 5,
+        leechAt: leechAt.toISOString(),
+        suspendedAt: leechAt.toISOString(),
+        leechRemediation: null,
+      });
+    });
+
+    it('should keep the word state a relearn leech resets so undo can restore it', async () => {
+      const now = new Date();
+      const firstSeenAt = new Date('2026-01-02T09:00:00.000Z');
+      const markedKnownAt = new Date('2026-02-01T09:00:00.000Z');
+      answerReviewTransaction({
+        lapsesBefore: 7,
+        lapsesAfter: 8,
+        wordState: {
+          state: 'known',
+          first_seen_at: firstSeenAt,
+          marked_known_at: markedKnownAt,
+          successful_reviews: 6,
+        },
+      });
+
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'srs-id',
+              user_id: 'user-123',
+              item_type: 'vocabulary',
+              item_id: 'meaning-456',
+              language: 'EN',
+              interval: 9,
+              repetitions: 4,
+              ease_factor: 1.6,
+              next_review_at: now,
+              last_reviewed_at: now,
+            },
+          ],
+          rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult)
+        // No interference pattern, so vocabulary is sent to relearn
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult);
+
+      await service.recordReview('user-123', 'meaning-456', 'again');
+
+      const sqls = statements();
+      expect(sqls.findIndex((sql) => sql.includes('FROM user_word_state'))).toBeLessThan(
+        sqls.findIndex((sql) => sql.includes("SET state = 'unknown'"))
+      );
+      expect(sqls.at(-1)).toBe('COMMIT');
+
+      const logParams = clientCall('INSERT INTO review_log')[1];
+      expect(JSON.parse(logParams[8] as string)).toMatchObject({
+        lapses: 7,
+        suspendedAt: null,
+        wordState: {
+          state: 'known',
+          firstSeenAt: firstSeenAt.toISOString(),
+          markedKnownAt: markedKnownAt.toISOString(),
+          successfulReviews: 6,
+        },
+      });
+      expect(JSON.parse(logParams[9] as string)).toMatchObject({
+        lapses: 8,
+        leechRemediation: 'relearn',
+      });
+    });
+
+    it('should roll back the review when it cannot be logged', async () => {
+      mockClientQuery.mockImplementation((sql: string) =>
+        sql.includes('INSERT INTO review_log')
+          ? Promise.reject(new Error('connection lost'))
+          : Promise.resolve(reviewTransactionResult(sql, {}))
+      );
+
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'srs-id',
+              user_id: 'user-123',
+              meaning_id: 'meaning-456',
+              language: 'EN',
+              interval: 1,
+              repetitions: 1,
+              ease_factor: 2.5,
+              next_review_at: new Date(),
+              last_reviewed_at: null,
+            },
+          ],
+          rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult)
+        .mockResolvedValueOnce(noDueLoad);
+
+      await expect(service.recordReview('user-123', 'meaning-456', 'good')).rejects.toThrow(
+        'connection lost'
+      );
+      expect(statements().at(-1)).toBe('ROLLBACK');
+      expect(mockRelease).toHaveBeenCalled();
+    });
+  });
+
+  describe('getSchedulerType', () => {
+    it('should default to SM-2 when no preference is stored', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [],
+        rowCount: 0,
+      } as unknown as QueryResult);
+
+      const result = await service.getSchedulerType('user-123');
+
+      expect(result).toBe('sm2');
+    });
+
+    it('should return FSRS when selected in preferences', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ scheduler: 'fsrs' }],
+        rowCount: 1,
+      } as QueryResult);
+
+      const result = await service.getSchedulerType('user-123');
+
+      expect(result).toBe('fsrs');
+    });
+
+    it('should fall back to SM-2 for unknown scheduler values', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ scheduler: 'leitner' }],
+        rowCount: 1,
+      } as QueryResult);
+
+      const result = await service.getSchedulerType('user-123');
+
+      expect(result).toBe('sm2');
+    });
+  });
+
+  describe('scheduler selection', () => {
+    const reviewedItemRow = {
+      id: 'srs-id',
+      user_id: 'user-123',
+      meaning_id: 'meaning-456',
+      language: 'EN',
+      interval: 6,
+      repetitions: 2,
+      ease_factor: 2.5,
+      next_review_at: new Date(),
+      last_reviewed_at: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000),
+      stability: 6,
+      difficulty: 5,
+    };
+
+    it('should schedule with FSRS when user selected it', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [reviewedItemRow], rowCount: 1 } as QueryResult)
+        .mockResolvedValueOnce({ rows: [{ scheduler: 'fsrs' }], rowCount: 1 } as QueryResult)
+        .mockResolvedValueOnce(noDueLoad);
+
+      const result = await service.recordReview('user-123', 'meaning-456', 'good');
+
+      expect(result.newStability).toBeGreaterThan(6);
+      expect(result.newInterval).toBe(Math.round(result.newStability!));
+      expect(result.newEaseFactor).toBe(2.5);
+    });
+
+    it('should use personalized FSRS weights when available', async () => {
+      const weights = [...FSRSCalculator.DEFAULT_WEIGHTS];
+      weights[8] = 2.5;
+
+      mockQuery
+        .mockResolvedValueOnce({ rows: [reviewedItemRow], rowCount: 1 } as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [{ scheduler: 'fsrs', weights }],
+          rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce(noDueLoad);
+
+      const result = await service.recordReview('user-123', 'meaning-456', 'good');
+
+      const defaultResult = service.calculateNextReview(
+        {
+          id: 'srs-id',
+          userId: 'user-123',
+          itemType: 'vocabulary',
+          itemId: 'meaning-456',
+          language: 'EN',
+          dueDate: reviewedItemRow.next_review_at,
+          interval: 6,
+          repetitions: 2,
+          easeFactor: 2.5,
+          lastReviewedAt: reviewedItemRow.last_reviewed_at,
+          stability: 6,
+          difficulty: 5,
+        },
+        'good',
+        'fsrs'
+      );
+      expect(result.newStability).toBeGreaterThan(defaultResult.newStability!);
+    });
+
+    it('should keep FSRS memory state up to date while scheduling with SM-2', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [reviewedItemRow], rowCount: 1 } as QueryResult)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as unknown as QueryResult)
+        .mockResolvedValueOnce(noDueLoad);
+
+      const result = await service.recordReview('user-123', 'meaning-456', 'good');
+
+      expect(result.newInterval).toBe(15);
+      expect(result.newStability).toBeGreaterThan(6);
+      expect(clientCall('RETURNING lapses')[1]).toEqual(
+        expect.arrayContaining([result.newStability, result.newDifficulty])
+      );
+    });
+
+    it('should review non-vocabulary items by type and update by row ID', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'grammar-srs-id',
+              user_id: 'user-123',
+              item_type: 'grammar',
+              item_id: 'rule-1',
+              meaning_id: null,
+              language: 'EN',
+              interval: 1,
+              repetitions: 1,
+              ease_factor: 2.5,
+              next_review_at: new Date(),
+              last_reviewed_at: null,
+            },
+          ],
+          rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [],
+          rowCount: 0,
+        } as unknown as QueryResult)
+        .mockResolvedValueOnce(noDueLoad);
+
+      const result = await service.recordReview('user-123', 'rule-1', 'good', 'grammar');
+
+      expect(result.newInterval).toBe(6);
+      expect(mockQuery.mock.calls[0][1]).toEqual(['user-123', 'grammar', 'rule-1']);
+
+      const [updateSql, updateParams] = clientCall('RETURNING lapses');
+      expect(updateSql).toContain('WHERE id = $7 AND user_id = $8');
+      expect(updateParams.slice(6)).toEqual(['grammar-srs-id', 'user-123', 0]);
+
+      const historyParams = clientCall('INSERT INTO srs_review_history')[1];
+      expect(historyParams.slice(0, 3)).toEqual(['user-123', 'rule-1', 'grammar']);
+    });
+  });
+
+  describe('recordPracticeResult', () => {
+    it('should return null without writing when the item is not scheduled', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [],
+        rowCount: 0,
+      } as unknown as QueryResult);
+
+      const result = await service.recordPracticeResult(
+        'user-123',
+        'vocabulary',
+        'meaning-456',
+        4,
+        'dictation'
+      );
+
+      expect(result).toBeNull();
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should map quality to a rating and log the practice mode', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'srs-id',
+              user_id: 'user-123',
+              item_type: 'vocabulary',
+              item_id: 'meaning-456',
+              language: 'EN',
+              interval: 6,
+              repetitions: 2,
+              ease_factor: 2.5,
+              next_review_at: new Date(),
+              last_reviewed_at: null,
+            },
+          ],
+          rowCount: 1,
+        } as QueryResult)
+        .mockResolvedValueOnce({
+          rows: [],
+          rowCount: 0,
+        } as unknown as QueryResult)
+        .mockResolvedValueOnce(noDueLoad);
+
+      const result = await service.recordPracticeResult(
+        'user-123',
+        'vocabulary',
+        'meaning-456',
+        3,
+        'translation'
+      );
+
+      expect(result?.id).toBe('srs-id');
+      expect(result?.repetitions).toBe(3);
+      expect(result?.easeFactor).toBeCloseTo(2.36, 2);
+      expect(result?.interval).toBe(14);
+      expect(result?.lastReviewedAt).toBeInstanceOf(Date);
+
+      const historyParams = clientCall('INSERT INTO srs_review_history')[1];
+      expect(historyParams[4]).toBe('hard');
+      expect(historyParams[11]).toBe('translation');
     });
   });
 
@@ -271,6 +941,19 @@ describe('SRSService', () => {
 
       expect(result).toBeNull();
     });
+
+    it('should query by item type and ID', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [],
+        rowCount: 0,
+      } as unknown as QueryResult);
+
+      await service.getScheduleItem('user-123', 'ortho-a', 'orthography');
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('item_type = $2 AND item_id = $3');
+      expect(params).toEqual(['user-123', 'orthography', 'ortho-a']);
+    });
   });
 
   describe('bulkAddToSchedule', () => {
@@ -292,6 +975,29 @@ describe('SRSService', () => {
       expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('VALUES'), expect.any(Array));
     });
 
+    it('should insert mixed item types with their keys', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [],
+        rowCount: 2,
+      } as unknown as QueryResult);
+
+      await service.bulkAddToSchedule('user-123', [
+        { itemId: 'meaning-1', language: 'EN' },
+        { itemId: 'rule-1', language: 'EN', itemType: 'grammar' },
+      ]);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('ON CONFLICT (user_id, item_type, item_id)');
+      expect(params.slice(0, 5)).toEqual([
+        'user-123',
+        'vocabulary',
+        'meaning-1',
+        'meaning-1',
+        null,
+      ]);
+      expect(params.slice(10, 15)).toEqual(['user-123', 'grammar', 'rule-1', null, null]);
+    });
+
     it('should return 0 for empty items array', async () => {
       const result = await service.bulkAddToSchedule('user-123', []);
 
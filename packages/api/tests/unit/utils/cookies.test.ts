@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { parseCookies, serializeCookie } from '../../../src/utils/cookies';
+
+describe('Cookie Utilities', () => {
+  describe('parseCookies', () => {
+    it('should parse and decode a cookie header', () => {
+      expect(parseCookies('theme=dark; polyladder_refresh=abc%2Bdef')).toEqual({
+        theme: 'dark',
+        polyladder_refresh: 'abc+def',
+      });
+    });
+
+    it('should skip malformed parts and handle a missing header', () => {
+      expect(parseCookies('flag; a=1')).toEqual({ a: '1' });
+      expect(parseCookies(undefined)).toEqual({});
+    });
+
+    it('should keep values that are not valid URI encodings', () => {
+      expect(parseCookies('a=%E0%A4%A')).toEqual({ a: '%E0%A4%A' });
+    });
+  });
+
+  describe('serializeCookie', () => {
+    it('should serialize an httpOnly secure cookie', () => {
+      expect(
+        serializeCookie('polyladder_refresh', 'token', {
+          maxAgeSeconds: 60,
+          path: '/api/v1/auth',
+          httpOnly: true,
+          secure: true,
+          sameSite: 'strict',
+        })
+      ).toBe(
+        'polyladder_refresh=token; Max-Age=60; Path=/api/v1/auth; SameSite=Strict; HttpOnly; Secure'
+      );
+    });
+
+    it('should omit flags that are off', () => {
+      expect(
+        serializeCookie('a', '', {
+          maxAgeSeconds: 0,
+          path: '/',
+          httpOnly: false,
+          secure: false,
+          sameSite: 'lax',
+        })
+      ).toBe('a=; Max-Age=0; Path=/; SameSite=Lax');
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { createZip } from '../../../src/utils/zip';
+import { readZip } from '../../helpers/zip';
+
+describe('createZip', () => {
+  it('should store every entry so it can be read back', () => {
+    const csv = 'word,translation\n"día","day"\n'.repeat(200);
+    const archive = createZip([
+      { name: 'account.json', data: '{"id":"user-1"}' },
+      { name: 'tables/words.csv', data: csv },
+      { name: 'empty.txt', data: Buffer.alloc(0) },
+    ]);
+
+    const files = readZip(archive);
+
+    expect([...files.keys()]).toEqual(['account.json', 'tables/words.csv', 'empty.txt']);
+    expect(files.get('account.json')?.toString()).toBe('{"id":"user-1"}');
+    expect(files.get('tables/words.csv')?.toString()).toBe(csv);
+    expect(files.get('empty.txt')?.length).toBe(0);
+    expect(archive.length).toBeLessThan(csv.length);
+  });
+
+  it('should record CRC-32 checksums of the uncompressed data', () => {
+    const archive = createZip([{ name: 'a.txt', data: '123456789' }]);
+
+    // The CRC-32 check value of "123456789"
+    expect(archive.readUInt32LE(14)).toBe(0xcbf43926);
+  });
+
+  it('should produce an empty archive without entries', () => {
+    const archive = createZip([]);
+
+    expect(archive.length).toBe(22);
+    expect(readZip(archive).size).toBe(0);
+  });
+});
@@ -17,6 +17,9 @@ import { SemanticSplitService } from './services/semantic-split.service';
 import { ContentTransformerService } from './services/content-transformer.service';
 import { PromotionWorker } from './services/promotion-worker.service';
 import { DocumentPipelineOrchestrator } from './services/document-pipeline-orchestrator.service';
+import { AudioGenerationWorker } from './services/audio-generation.service';
+import { TtsRegistry, EspeakAdapter, PiperAdapter } from './tts';
+import { StorageService } from './services/storage.service';
 
 const DEFAULT_LOOP_INTERVAL_MS = 5000;
 const MIN_LOOP_INTERVAL_MS = 1000;
@@ -48,7 +51,8 @@ async function mainLoop(
   contentProcessor: ContentProcessor,
   _pipeline: PipelineOrchestrator,
   promotionWorker: PromotionWorker,
-  pipelineOrchestrator: DocumentPipelineOrchestrator
+  pipelineOrchestrator: DocumentPipelineOrchestrator,
+  audioWorker: AudioGenerationWorker | null
 ): Promise<void> {
   logger.info('Refinement Service starting main loop');
 
@@ -102,6 +106,14 @@ async function mainLoop(
         logger.info({ count: promoted }, 'Candidates promoted to VALIDATED');
       }
 
+      if (audioWorker) {
+        const audioGenerated = await audioWorker.processBatch();
+        if (audioGenerated > 0) {
+          workDone = true;
+          logger.info({ count: audioGenerated }, 'Utterance audio generated');
+        }
+      }
+
       const now = new Date();
       const timeSinceHeartbeat = now.getTime() - lastHeartbeat.getTime();
 
@@ -151,6 +163,45 @@ async function mainLoop(
   logger.info('Main loop exited');
 }
 
+function createAudioWorker(pool: Pool): AudioGenerationWorker | null {
+  if (process.env.TTS_ENABLED !== 'true') {
+    logger.info('TTS_ENABLED not set - audio generation disabled');
+    return null;
+  }
+
+  // The API only serves audio from local storage; S3 uploads are not implemented
+  const storageType = process.env.STORAGE_TYPE || 'local';
+  if (storageType !== 'local') {
+    logger.warn(
+      { storageType },
+      'Audio generation needs local storage - audio generation disabled'
+    );
+    return null;
+  }
+
+  const registry = new TtsRegistry();
+  registry.register(new EspeakAdapter({ binary: process.env.ESPEAK_BINARY }));
+
+  const piperModelsPath = process.env.PIPER_MODELS_PATH;
+  if (piperModelsPath) {
+    registry.register(
+      new PiperAdapter({ binary: process.env.PIPER_BINARY, modelsPath: piperModelsPath })
+    );
+  }
+
+  const storage = new StorageService({
+    type: 'local',
+    localPath: process.env.AUDIO_STORAGE_PATH || '/app/uploads/audio',
+  });
+
+  return new AudioGenerationWorker(
+    pool,
+    registry,
+    storage,
+    process.env.AUDIO_BASE_URL || '/api/v1/learning/audio'
+  );
+}
+
 async function gracefulShutdown(pool: Pool, reason: string): Promise<void> {
   logger.info({ reason }, 'Initiating graceful shutdown');
   isShuttingDown = true;
@@ -244,6 +295,11 @@ async function start(): Promise<void> {
   );
   logger.info('Document pipeline orchestrator initialized');
 
+  const audioWorker = createAudioWorker(pool);
+  if (audioWorker) {
+    logger.info('Audio generation worker initialized');
+  }
+
   process.on('SIGTERM', () => {
     void gracefulShutdown(pool, 'SIGTERM');
   });
@@ -259,7 +315,8 @@ async function start(): Promise<void> {
       contentProcessor,
       pipeline,
       promotionWorker,
-      pipelineOrchestrator
+      pipelineOrchestrator,
+      audioWorker
     );
   } catch (error) {
     const err = error instanceof Error ? error : new Error(String(error));
@@ -0,0 +1,118 @@
+import { Pool } from 'pg';
+import * as path from 'path';
+import { TtsRegistry } from '../tts';
+import { logger } from '../utils/logger';
+
+/**
+ * Where generated audio is stored; implemented by StorageService
+ */
+export interface AudioStorage {
+  uploadFile(
+    buffer: Buffer,
+    filename: string,
+    mimeType: string
+  ): Promise<{ storagePath: string; publicUrl?: string }>;
+}
+
+interface PendingUtterance {
+  id: string;
+  text: string;
+  language: string;
+  engine: string;
+  voice: string;
+}
+
+/**
+ * AudioGenerationWorker synthesizes audio for approved utterances that
+ * have none, with the voice operators chose for the language
+ *
+ * Languages without an enabled voice in tts_voices are skipped. Utterances
+ * that fail to synthesize are not retried until the service restarts.
+ */
+export class AudioGenerationWorker {
+  private readonly failedUtteranceIds = new Set<string>();
+
+  constructor(
+    private readonly pool: Pool,
+    private readonly registry: TtsRegistry,
+    private readonly storage: AudioStorage,
+    private readonly audioBaseUrl: string // URL the API serves locally stored audio from
+  ) {}
+
+  async processBatch(batchSize = 10): Promise<number> {
+    const result = await this.pool.query<PendingUtterance>(
+      `SELECT au.id::text as id, au.text, au.language, tv.engine, tv.voice
+       FROM approved_utterances au
+       JOIN tts_voices tv ON tv.language = au.language AND tv.enabled = true
+       WHERE au.audio_url IS NULL
+         AND au.text IS NOT NULL
+         AND LENGTH(TRIM(au.text)) > 0
+         AND au.id::text <> ALL($2::text[])
+       ORDER BY au.created_at ASC
+       LIMIT $1`,
+      [batchSize, Array.from(this.failedUtteranceIds)]
+    );
+
+    let generated = 0;
+    for (const utterance of result.rows) {
+      try {
+        if (await this.generateAudio(utterance)) {
+          generated++;
+        }
+      } catch (error) {
+        this.failedUtteranceIds.add(utterance.id);
+        logger.error(
+          {
+            utteranceId: utterance.id,
+            engine: utterance.engine,
+            voice: utterance.voice,
+            errorMessage: error instanceof Error ? error.message : String(error),
+          },
+          'Failed to generate utterance audio'
+        );
+      }
+    }
+
+    return generated;
+  }
+
+  private async generateAudio(utterance: PendingUtterance): Promise<boolean> {
+    const adapter = await this.registry.getAdapter(utterance.engine);
+    if (!adapter) {
+      this.failedUtteranceIds.add(utterance.id);
+      logger.warn(
+        { utteranceId: utterance.id, engine: utterance.engine },
+        'TTS engine not available'
+      );
+      return false;
+    }
+
+    const { audio, mimeType, durationSeconds } = await adapter.synthesize({
+      text: utterance.text,
+      language: utterance.language,
+      voice: utterance.voice,
+    });
+
+    const upload = await this.storage.uploadFile(
+      audio,
+      `${utterance.language.toLowerCase()}-${utterance.id}.wav`,
+      mimeType
+    );
+    const audioUrl =
+      upload.publicUrl ?? `${this.audioBaseUrl}/${path.basename(upload.storagePath)}`;
+
+    // Only fill in missing audio; an operator may have uploaded some meanwhile
+    await this.pool.query(
+      `UPDATE approved_utterances
+       SET audio_url = $2, audio_length = $3
+       WHERE id::text = $1 AND audio_url IS NULL`,
+      [utterance.id, audioUrl, durationSeconds > 0 ? Math.ceil(durationSeconds) : null]
+    );
+
+    logger.debug(
+      { utteranceId: utterance.id, engine: adapter.name, durationSeconds },
+      'Generated utterance audio'
+    );
+    return true;
+  }
+}
@@ -0,0 +1,57 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+
+export interface StorageConfig {
+  type: 'local' | 's3';
+  localPath?: string;
+  s3Bucket?: string;
+  s3Region?: string;
+}
+
+export interface UploadResult {
+  storagePath: string;
+  publicUrl?: string;
+}
+
+/**
+ * Upload side of the API's StorageService
+ *
+ * Mirrors local uploads of packages/api/src/services/storage.service.ts so
+ * files land where the API serves them from, without depending on the API
+ * package; tests/services/storage.service.test.ts pins that layout. S3
+ * uploads are not implemented and fail instead of returning a URL for an
+ * object that was never written.
+ */
+export class StorageService {
+  private config: StorageConfig;
+
+  constructor(config: StorageConfig) {
+    this.config = config;
+  }
+
+  async uploadFile(buffer: Buffer, filename: string, _mimeType: string): Promise<UploadResult> {
+    const uniqueFilename = `${randomUUID()}-${filename}`;
+
+    if (this.config.type === 's3') {
+      throw new Error('S3 storage not yet implemented');
+    }
+
+    const localDir = this.config.localPath || './uploads/documents';
+    try {
+      await fs.mkdir(localDir, { recursive: true });
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException;
+      if (err.code !== 'EEXIST') {
+        throw new Error(`Failed to create storage directory: ${err.message}`);
+      }
+    }
+
+    const filePath = path.join(localDir, uniqueFilename);
+    await fs.writeFile(filePath, buffer);
+
+    return {
+      storagePath: filePath,
+    };
+  }
+}
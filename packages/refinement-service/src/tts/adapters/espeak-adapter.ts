@@ -0,0 +1,44 @@
+import { SpeechSynthesisRequest, SynthesizedAudio, TtsAdapter } from '../tts-adapter.interface';
+import { runProcess, wavDurationSeconds } from '../run-process';
+
+export interface EspeakAdapterOptions {
+  binary?: string;
+  wordsPerMinute?: number;
+}
+
+/**
+ * EspeakAdapter synthesizes speech with espeak-ng
+ *
+ * Voices are espeak-ng voice names such as "es" or "pt-br".
+ */
+export class EspeakAdapter implements TtsAdapter {
+  readonly name = 'espeak-ng';
+  private readonly binary: string;
+  private readonly wordsPerMinute: number;
+
+  constructor(options: EspeakAdapterOptions = {}) {
+    this.binary = options.binary ?? 'espeak-ng';
+    // Slower than the 175 wpm default, for learners
+    this.wordsPerMinute = options.wordsPerMinute ?? 150;
+  }
+
+  async synthesize(request: SpeechSynthesisRequest): Promise<SynthesizedAudio> {
+    // Text is read from stdin so it is never parsed as an option
+    const audio = await runProcess(
+      this.binary,
+      ['-v', request.voice, '-s', String(this.wordsPerMinute), '--stdin', '--stdout'],
+      { stdin: request.text }
+    );
+
+    return { audio, mimeType: 'audio/wav', durationSeconds: wavDurationSeconds(audio) };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await runProcess(this.binary, ['--version'], { timeoutMs: 5000 });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { SpeechSynthesisRequest, SynthesizedAudio, TtsAdapter } from '../tts-adapter.interface';
+import { runProcess, wavDurationSeconds } from '../run-process';
+
+export interface PiperAdapterOptions {
+  binary?: string;
+  modelsPath: string; // Directory with the <voice>.onnx models and their .onnx.json configs
+}
+
+/**
+ * PiperAdapter synthesizes speech with Piper neural voices
+ *
+ * Voices are model names such as "es_ES-davefx-medium".
+ */
+export class PiperAdapter implements TtsAdapter {
+  readonly name = 'piper';
+  private readonly binary: string;
+  private readonly modelsPath: string;
+
+  constructor(options: PiperAdapterOptions) {
+    this.binary = options.binary ?? 'piper';
+    this.modelsPath = options.modelsPath;
+  }
+
+  async synthesize(request: SpeechSynthesisRequest): Promise<SynthesizedAudio> {
+    if (!/^[\w-]+$/.test(request.voice)) {
+      throw new Error(`Invalid Piper voice name: ${request.voice}`);
+    }
+
+    const model = path.join(this.modelsPath, `${request.voice}.onnx`);
+    const outputFile = path.join(os.tmpdir(), `piper-${randomUUID()}.wav`);
+
+    try {
+      await runProcess(this.binary, ['--model', model, '--output_file', outputFile], {
+        stdin: request.text,
+      });
+      const audio = await fs.readFile(outputFile);
+
+      return { audio, mimeType: 'audio/wav', durationSeconds: wavDurationSeconds(audio) };
+    } finally {
+      await fs.rm(outputFile, { force: true });
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await fs.access(this.modelsPath);
+      await runProcess(this.binary, ['--help'], { timeoutMs: 5000 });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
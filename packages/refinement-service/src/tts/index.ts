@@ -0,0 +1,4 @@
+export * from './tts-adapter.interface';
+export * from './tts-registry';
+export * from './adapters/espeak-adapter';
+export * from './adapters/piper-adapter';
@@ -0,0 +1,81 @@
+import { spawn } from 'child_process';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export interface RunProcessOptions {
+  stdin?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Run a command and collect its stdout
+ *
+ * Rejects when the command cannot be started, exits with a non-zero code
+ * or runs longer than the timeout.
+ */
+export function runProcess(
+  command: string,
+  args: string[],
+  options: RunProcessOptions = {}
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new Error(`${command} timed out`));
+    }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        const message = Buffer.concat(stderr).toString('utf8').trim();
+        reject(new Error(`${command} exited with code ${code}${message ? `: ${message}` : ''}`));
+      }
+    });
+
+    child.stdin.end(options.stdin ?? '');
+  });
+}
+
+/**
+ * Duration of a PCM WAV file in seconds, 0 when the header is not recognized
+ */
+export function wavDurationSeconds(wav: Buffer): number {
+  if (wav.length < 44 || wav.toString('ascii', 0, 4) !== 'RIFF') {
+    return 0;
+  }
+
+  const byteRate = wav.readUInt32LE(28);
+  if (byteRate === 0) {
+    return 0;
+  }
+
+  // Find the data chunk; engines may write extra chunks after "fmt "
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const chunkId = wav.toString('ascii', offset, offset + 4);
+    const chunkSize = wav.readUInt32LE(offset + 4);
+    if (chunkId === 'data') {
+      // Streamed output leaves the size unset (0 or 0xFFFFFFFF)
+      const dataSize =
+        chunkSize === 0 || chunkSize === 0xffffffff ? wav.length - offset - 8 : chunkSize;
+      return Math.round((dataSize / byteRate) * 10) / 10;
+    }
+    offset += 8 + chunkSize;
+  }
+
+  return 0;
+}
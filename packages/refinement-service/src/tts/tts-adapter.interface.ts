@@ -0,0 +1,27 @@
+/**
+ * Text to synthesize with a given voice
+ */
+export interface SpeechSynthesisRequest {
+  text: string;
+  language: string;
+  voice: string; // Engine-specific voice name, e.g. "es" for espeak-ng or "es_ES-davefx-medium" for Piper
+}
+
+/**
+ * Synthesized audio
+ */
+export interface SynthesizedAudio {
+  audio: Buffer;
+  mimeType: string;
+  durationSeconds: number;
+}
+
+/**
+ * Adapter around a locally installed text-to-speech engine
+ */
+export interface TtsAdapter {
+  readonly name: string; // Engine name stored in tts_voices.engine
+
+  synthesize(request: SpeechSynthesisRequest): Promise<SynthesizedAudio>;
+  healthCheck(): Promise<boolean>;
+}
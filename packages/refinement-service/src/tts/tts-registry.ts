@@ -0,0 +1,40 @@
+import { TtsAdapter } from './tts-adapter.interface';
+import { logger } from '../utils/logger';
+
+export class TtsRegistry {
+  private adapters: Map<string, TtsAdapter> = new Map();
+  private healthy: Map<string, boolean> = new Map();
+
+  register(adapter: TtsAdapter): void {
+    this.adapters.set(adapter.name, adapter);
+    this.healthy.delete(adapter.name);
+    logger.info({ adapterName: adapter.name }, 'Registered TTS adapter');
+  }
+
+  /**
+   * Get the adapter of an engine if it is registered and installed
+   *
+   * The health check runs once per engine, as it spawns the engine.
+   */
+  async getAdapter(engine: string): Promise<TtsAdapter | null> {
+    const adapter = this.adapters.get(engine);
+    if (!adapter) {
+      return null;
+    }
+
+    let isHealthy = this.healthy.get(engine);
+    if (isHealthy === undefined) {
+      isHealthy = await adapter.healthCheck();
+      this.healthy.set(engine, isHealthy);
+      if (!isHealthy) {
+        logger.warn({ adapterName: engine }, 'TTS adapter failed health check');
+      }
+    }
+
+    return isHealthy ? adapter : null;
+  }
+
+  listAdapters(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Pool } from 'pg';
+import { AudioGenerationWorker, AudioStorage } from '../../src/services/audio-generation.service';
+import { TtsAdapter, TtsRegistry } from '../../src/tts';
+
+describe('AudioGenerationWorker', () => {
+  let worker: AudioGenerationWorker;
+  let mockPoolQuery: ReturnType<typeof vi.fn>;
+  let mockGetAdapter: ReturnType<typeof vi.fn>;
+  let mockSynthesize: ReturnType<typeof vi.fn>;
+  let mockUploadFile: ReturnType<typeof vi.fn>;
+
+  const utterance = {
+    id: 'utt-1',
+    text: 'Hola, ¿qué tal?',
+    language: 'ES',
+    engine: 'espeak-ng',
+    voice: 'es',
+  };
+
+  beforeEach(() => {
+    mockPoolQuery = vi.fn().mockResolvedValue({ rows: [] });
+    mockSynthesize = vi.fn().mockResolvedValue({
+      audio: Buffer.from('wav'),
+      mimeType: 'audio/wav',
+      durationSeconds: 1.4,
+    });
+    mockGetAdapter = vi.fn().mockResolvedValue({
+      name: 'espeak-ng',
+      synthesize: mockSynthesize,
+      healthCheck: vi.fn(),
+    } as TtsAdapter);
+    mockUploadFile = vi.fn().mockResolvedValue({
+      storagePath: '/app/uploads/audio/abc-es-utt-1.wav',
+    });
+
+    worker = new AudioGenerationWorker(
+      { query: mockPoolQuery } as unknown as Pool,
+      { getAdapter: mockGetAdapter } as unknown as TtsRegistry,
+      { uploadFile: mockUploadFile } as AudioStorage,
+      '/api/v1/learning/audio'
+    );
+  });
+
+  it('should synthesize, store and link audio for pending utterances', async () => {
+    mockPoolQuery.mockResolvedValueOnce({ rows: [utterance] });
+
+    const generated = await worker.processBatch();
+
+    expect(generated).toBe(1);
+    expect(mockGetAdapter).toHaveBeenCalledWith('espeak-ng');
+    expect(mockSynthesize).toHaveBeenCalledWith({
+      text: 'Hola, ¿qué tal?',
+      language: 'ES',
+      voice: 'es',
+    });
+    expect(mockUploadFile).toHaveBeenCalledWith(Buffer.from('wav'), 'es-utt-1.wav', 'audio/wav');
+    expect(mockPoolQuery).toHaveBeenLastCalledWith(
+      expect.stringContaining('UPDATE approved_utterances'),
+      ['utt-1', '/api/v1/learning/audio/abc-es-utt-1.wav', 2]
+    );
+  });
+
+  it('should link the public URL when storage provides one', async () => {
+    mockPoolQuery.mockResolvedValueOnce({ rows: [utterance] });
+    mockUploadFile.mockResolvedValueOnce({
+      storagePath: 'audio/abc-es-utt-1.wav',
+      publicUrl: 'https://bucket.s3.amazonaws.com/audio/abc-es-utt-1.wav',
+    });
+
+    await worker.processBatch();
+
+    expect(mockPoolQuery).toHaveBeenLastCalledWith(expect.any(String), [
+      'utt-1',
+      'https://bucket.s3.amazonaws.com/audio/abc-es-utt-1.wav',
+      2,
+    ]);
+  });
+
+  it('should skip utterances whose engine is unavailable', async () => {
+    mockPoolQuery.mockResolvedValueOnce({ rows: [utterance] });
+    mockGetAdapter.mockResolvedValueOnce(null);
+
+    const generated = await worker.processBatch();
+
+    expect(generated).toBe(0);
+    expect(mockSynthesize).not.toHaveBeenCalled();
+    expect(mockPoolQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry utterances that failed to synthesize', async () => {
+    mockPoolQuery.mockResolvedValueOnce({ rows: [utterance] });
+    mockSynthesize.mockRejectedValueOnce(new Error('espeak-ng exited with code 1'));
+
+    const generated = await worker.processBatch();
+    await worker.processBatch();
+
+    expect(generated).toBe(0);
+    expect(mockUploadFile).not.toHaveBeenCalled();
+    expect(mockPoolQuery).toHaveBeenLastCalledWith(expect.stringContaining('<> ALL'), [
+      10,
+      ['utt-1'],
+    ]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { StorageService } from '../../src/services/storage.service';
+
+describe('StorageService', () => {
+  let localPath: string;
+
+  beforeEach(async () => {
+    localPath = await fs.mkdtemp(path.join(os.tmpdir(), 'refinement-storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(localPath, { recursive: true, force: true });
+  });
+
+  it('should store files where the API serves audio from', async () => {
+    const storage = new StorageService({ type: 'local', localPath });
+
+    const upload = await storage.uploadFile(Buffer.from('wav'), 'es-utt-1.wav', 'audio/wav');
+
+    const filename = path.basename(upload.storagePath);
+    expect(upload.publicUrl).toBeUndefined();
+    expect(filename).toMatch(/^[0-9a-f-]{36}-es-utt-1\.wav$/);
+
+    // The API's /audio/:filename route only accepts these names and reads
+    // them from AUDIO_STORAGE_PATH joined with the name
+    expect(filename).toMatch(/^[\w-]+\.wav$/);
+    const audio = await fs.readFile(path.join(localPath, filename));
+    expect(audio.toString()).toBe('wav');
+  });
+
+  it('should refuse S3 uploads instead of returning an unwritten URL', async () => {
+    const storage = new StorageService({ type: 's3', s3Bucket: 'audio-bucket' });
+
+    await expect(
+      storage.uploadFile(Buffer.from('wav'), 'es-utt-1.wav', 'audio/wav')
+    ).rejects.toThrow('S3 storage not yet implemented');
+    expect(await fs.readdir(localPath)).toEqual([]);
+  });
+});
@@ -5,6 +5,10 @@ import { OnboardingCheck } from '@/components/auth/OnboardingCheck';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { LoginPage } from '@/pages/public/LoginPage';
 import { RegisterPage } from '@/pages/public/RegisterPage';
+import { AcceptInvitationPage } from '@/pages/public/AcceptInvitationPage';
+import { ForgotPasswordPage } from '@/pages/public/ForgotPasswordPage';
+import { ResetPasswordPage } from '@/pages/public/ResetPasswordPage';
+import { VerifyEmailPage } from '@/pages/public/VerifyEmailPage';
 import { DashboardPage } from '@/pages/learner/DashboardPage';
 import { OnboardingPage } from '@/pages/learner/OnboardingPage';
 import { LanguageSettingsPage } from '@/pages/learner/LanguageSettingsPage';
@@ -18,9 +22,14 @@ import { PipelineTaskDetailPage } from '@/pages/operator/PipelineTaskDetailPage'
 import { PipelinesPage } from '@/pages/operator/PipelinesPage';
 import { PipelineDetailPage } from '@/pages/operator/PipelineDetailPage';
 import { PipelineStatusPage } from '@/pages/operator/PipelineStatusPage';
+import { TtsVoicesPage } from '@/pages/operator/TtsVoicesPage';
+import { OperatorsPage } from '@/pages/operator/OperatorsPage';
 import { InterferencePage } from '@/pages/learner/InterferencePage';
 import { VocabularyProgressPage } from '@/pages/learner/VocabularyProgressPage';
 import { GrammarProgressPage } from '@/pages/learner/GrammarProgressPage';
+import { SessionsPage } from '@/pages/account/SessionsPage';
+import { TwoFactorPage } from '@/pages/account/TwoFactorPage';
+import { AccountDataPage } from '@/pages/account/AccountDataPage';
 
 const LandingPage = () => (
   <div className="min-h-screen flex items-center justify-center">
@@ -67,6 +76,10 @@ export function App() {
           <Route path="/" element={<LandingPage />} />
           <Route path="/login" element={<LoginPage />} />
           <Route path="/register" element={<RegisterPage />} />
+          <Route path="/invitations/accept" element={<AcceptInvitationPage />} />
+          <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+          <Route path="/reset-password" element={<ResetPasswordPage />} />
+          <Route path="/verify-email" element={<VerifyEmailPage />} />
 
           <Route
             path="/onboarding/*"
@@ -103,6 +116,39 @@ export function App() {
             }
           />
 
+          <Route
+            path="/settings/sessions"
+            element={
+              <ProtectedRoute>
+                <MainLayout>
+                  <SessionsPage />
+                </MainLayout>
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/settings/account"
+            element={
+              <ProtectedRoute>
+                <MainLayout>
+                  <AccountDataPage />
+                </MainLayout>
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/settings/two-factor"
+            element={
+              <ProtectedRoute requiredRole="operator">
+                <MainLayout>
+                  <TwoFactorPage />
+                </MainLayout>
+              </ProtectedRoute>
+            }
+          />
+
           <Route
             path="/learning/:language/orthography"
             element={
@@ -251,6 +297,28 @@ export function App() {
             }
           />
 
+          <Route
+            path="/operator/tts-voices"
+            element={
+              <ProtectedRoute requiredRole="operator">
+                <MainLayout>
+                  <TtsVoicesPage />
+                </MainLayout>
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/operator/operators"
+            element={
+              <ProtectedRoute requiredRole="operator">
+                <MainLayout>
+                  <OperatorsPage />
+                </MainLayout>
+              </ProtectedRoute>
+            }
+          />
+
           <Route
             path="/operator/pipeline/tasks/:taskId"
             element={
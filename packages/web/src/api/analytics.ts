@@ -35,12 +35,24 @@ export interface VocabularyTrendsResponse {
   }>;
 }
 
+export interface RetentionComparison {
+  windowDays: number;
+  reviewCount: number;
+  actualRetention: number | null;
+  predictedDefault: number | null;
+  predictedPersonalized: number | null;
+  logLossDefault: number | null;
+  logLossPersonalized: number | null;
+  personalized: boolean;
+}
+
 export interface VelocityResponse {
   wordsPerDay: number;
   wordsPerWeek: number;
   wordsThisWeek: number;
   wordsLastWeek: number;
   trend: 'increasing' | 'stable' | 'decreasing';
+  retention: RetentionComparison;
 }
 
 export interface PaginatedWordsResponse {
@@ -305,7 +317,7 @@ export const cefrAnalyticsApi = {
 // Weakness Identification Types
 export interface WeaknessItem {
   itemId: string;
-  itemType: 'vocabulary' | 'grammar';
+  itemType: 'vocabulary' | 'grammar' | 'orthography';
   itemText: string;
   language: string;
   cefrLevel: string;
@@ -326,6 +338,7 @@ export interface WeaknessAnalysisResponse {
   weaknessesByType: {
     vocabulary: number;
     grammar: number;
+    orthography: number;
   };
   weaknessesByCEFR: Record<string, number>;
   topWeaknesses: WeaknessItem[];
@@ -5,7 +5,6 @@ export interface RegisterRequest {
   email: string;
   password: string;
   baseLanguage: string;
-  role?: 'learner' | 'operator';
 }
 
 export interface RegisterResponse {
@@ -14,6 +13,18 @@ export interface RegisterResponse {
   role: 'learner' | 'operator';
 }
 
+export interface AcceptInvitationRequest {
+  token: string;
+  password: string;
+}
+
+export interface AcceptInvitationResponse {
+  userId: string;
+  email: string;
+  role: 'operator';
+  roles: string[];
+}
+
 export interface LoginRequest {
   email: string;
   password: string;
@@ -21,18 +32,62 @@ export interface LoginRequest {
 
 export interface LoginResponse {
   accessToken: string;
-  refreshToken: string;
   user: User;
 }
 
+/**
+ * Returned by /auth/login instead of tokens when the account has 2FA on
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  provisioningUri: string;
+}
+
+export interface DeviceSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
 export const authApi = {
   async register(data: RegisterRequest): Promise<RegisterResponse> {
     const response = await apiClient.post<RegisterResponse>('/auth/register', data);
     return response.data;
   },
 
-  async login(data: LoginRequest): Promise<LoginResponse> {
-    const response = await apiClient.post<LoginResponse>('/auth/login', data);
+  async acceptInvitation(data: AcceptInvitationRequest): Promise<AcceptInvitationResponse> {
+    const response = await apiClient.post<AcceptInvitationResponse>(
+      '/auth/invitations/accept',
+      data
+    );
+    return response.data;
+  },
+
+  async login(data: LoginRequest): Promise<LoginResponse | TwoFactorChallenge> {
+    const response = await apiClient.post<LoginResponse | TwoFactorChallenge>('/auth/login', data);
+    return response.data;
+  },
+
+  async completeTwoFactorLogin(challengeToken: string, code: string): Promise<LoginResponse> {
+    const response = await apiClient.post<LoginResponse>('/auth/login/two-factor', {
+      challengeToken,
+      code,
+    });
     return response.data;
   },
 
@@ -41,7 +96,78 @@ export const authApi = {
     return response.data;
   },
 
-  async logout(refreshToken: string): Promise<void> {
-    await apiClient.post('/auth/logout', { refreshToken });
+  async logout(): Promise<void> {
+    await apiClient.post('/auth/logout', {});
+  },
+
+  async requestPasswordReset(email: string): Promise<void> {
+    await apiClient.post('/auth/password/forgot', { email });
+  },
+
+  async resetPassword(token: string, password: string): Promise<void> {
+    await apiClient.post('/auth/password/reset', { token, password });
+  },
+
+  async verifyEmail(token: string): Promise<void> {
+    await apiClient.post('/auth/email/verify', { token });
+  },
+
+  async resendVerificationEmail(): Promise<void> {
+    await apiClient.post('/auth/email/verification');
+  },
+
+  async getSessions(): Promise<DeviceSession[]> {
+    const response = await apiClient.get<{ sessions: DeviceSession[] }>('/auth/sessions');
+    return response.data.sessions;
+  },
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await apiClient.delete(`/auth/sessions/${sessionId}`);
+  },
+
+  async revokeAllSessions(): Promise<void> {
+    await apiClient.delete('/auth/sessions');
+  },
+
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    const response = await apiClient.get<TwoFactorStatus>('/auth/two-factor');
+    return response.data;
+  },
+
+  async startTwoFactorEnrollment(): Promise<TwoFactorEnrollment> {
+    const response = await apiClient.post<TwoFactorEnrollment>('/auth/two-factor/enrollment');
+    return response.data;
+  },
+
+  async confirmTwoFactorEnrollment(code: string): Promise<string[]> {
+    const response = await apiClient.post<{ recoveryCodes: string[] }>(
+      '/auth/two-factor/enrollment/confirm',
+      { code }
+    );
+    return response.data.recoveryCodes;
+  },
+
+  async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    const response = await apiClient.post<{ recoveryCodes: string[] }>(
+      '/auth/two-factor/recovery-codes',
+      { code }
+    );
+    return response.data.recoveryCodes;
+  },
+
+  async disableTwoFactor(code: string): Promise<void> {
+    await apiClient.delete('/auth/two-factor', { data: { code } });
+  },
+
+  async exportAccountData(): Promise<Blob> {
+    const response = await apiClient.get<Blob>('/auth/me/export', { responseType: 'blob' });
+    return response.data;
+  },
+
+  async deleteAccount(password: string): Promise<{ purgeAfter: string }> {
+    const response = await apiClient.delete<{ success: boolean; purgeAfter: string }>('/auth/me', {
+      data: { password },
+    });
+    return response.data;
   },
 };
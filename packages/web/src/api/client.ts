@@ -1,4 +1,5 @@
 import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { clearAccessToken, getAccessToken, setAccessToken } from './token-store';
 
 const API_URL = import.meta.env.VITE_API_URL || '/api/v1';
 
@@ -8,11 +9,38 @@ export const apiClient = axios.create({
     'Content-Type': 'application/json',
   },
   timeout: 10000,
+  // Sends the httpOnly refresh cookie
+  withCredentials: true,
 });
 
+let pendingRefresh: Promise<string> | null = null;
+
+/**
+ * Get a new access token with the refresh cookie; concurrent callers share
+ * one request, since a refresh token can be used only once
+ */
+export function refreshAccessToken(): Promise<string> {
+  if (!pendingRefresh) {
+    pendingRefresh = axios
+      .post<{ accessToken: string }>(
+        `${apiClient.defaults.baseURL}/auth/refresh`,
+        {},
+        { withCredentials: true }
+      )
+      .then((response) => {
+        setAccessToken(response.data.accessToken);
+        return response.data.accessToken;
+      })
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+}
+
 apiClient.interceptors.request.use(
   (config: InternalAxiosRequestConfig) => {
-    const accessToken = localStorage.getItem('accessToken');
+    const accessToken = getAccessToken();
 
     if (accessToken && config.headers) {
       config.headers.Authorization = `Bearer ${accessToken}`;
@@ -43,37 +71,32 @@ apiClient.interceptors.response.use(
     if (error.response?.status === 401 && !originalRequest._retry) {
       originalRequest._retry = true;
 
-      const refreshToken = localStorage.getItem('refreshToken');
-
-      if (refreshToken) {
-        try {
-          const response = await axios.post<{ accessToken: string }>(
-            `${apiClient.defaults.baseURL}/auth/refresh`,
-            {
-              refreshToken,
-            }
-          );
-
-          const { accessToken: newAccessToken } = response.data;
-
-          localStorage.setItem('accessToken', newAccessToken);
-
-          if (originalRequest.headers) {
-            originalRequest.headers.Authorization = `Bearer ${newAccessToken}`;
-          }
-
-          return apiClient(originalRequest);
-        } catch (refreshError) {
-          localStorage.removeItem('accessToken');
-          localStorage.removeItem('refreshToken');
-          window.location.href = '/login';
-          return Promise.reject(
-            refreshError instanceof Error ? refreshError : new Error('Token refresh failed')
-          );
+      try {
+        const newAccessToken = await refreshAccessToken();
+
+        if (originalRequest.headers) {
+          originalRequest.headers.Authorization = `Bearer ${newAccessToken}`;
         }
+
+        return apiClient(originalRequest);
+      } catch (refreshError) {
+        clearAccessToken();
+        window.location.href = '/login';
+        return Promise.reject(
+          refreshError instanceof Error ? refreshError : new Error('Token refresh failed')
+        );
       }
+    }
 
-      window.location.href = '/login';
+    // The two-factor policy holds the operator back until they enroll
+    const errorCode = (error.response?.data as { error?: { code?: string } } | undefined)?.error
+      ?.code;
+    if (
+      error.response?.status === 403 &&
+      errorCode === 'TWO_FACTOR_REQUIRED' &&
+      window.location.pathname !== '/settings/two-factor'
+    ) {
+      window.location.href = '/settings/two-factor';
     }
 
     return Promise.reject(error);
@@ -0,0 +1,18 @@
+/**
+ * The access token lives in memory only; the refresh token is an httpOnly
+ * cookie the browser sends to /auth/refresh. A page load starts without an
+ * access token and gets one by refreshing.
+ */
+let accessToken: string | null = null;
+
+export function getAccessToken(): string | null {
+  return accessToken;
+}
+
+export function setAccessToken(token: string): void {
+  accessToken = token;
+}
+
+export function clearAccessToken(): void {
+  accessToken = null;
+}
@@ -30,6 +30,10 @@ interface VocabularyDashboardProps {
   language?: string;
 }
 
+function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
 export function VocabularyDashboard({ language }: VocabularyDashboardProps) {
   const [trendDays, setTrendDays] = useState<7 | 14 | 30>(30);
 
@@ -225,6 +229,37 @@ export function VocabularyDashboard({ language }: VocabularyDashboardProps) {
               <p className="text-xs text-gray-500">words learned</p>
             </div>
           </div>
+          {velocity.retention.reviewCount > 0 && (
+            <div className="mt-4 pt-4 border-t border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                Retention (last {velocity.retention.windowDays} days)
+              </h3>
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div>
+                  <p className="text-xs text-gray-500">Actual</p>
+                  <p className="text-lg font-bold text-gray-900">
+                    {formatRate(velocity.retention.actualRetention)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Predicted (default)</p>
+                  <p className="text-lg font-bold text-gray-600">
+                    {formatRate(velocity.retention.predictedDefault)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Predicted (personal)</p>
+                  <p className="text-lg font-bold text-blue-600">
+                    {formatRate(velocity.retention.predictedPersonalized)}
+                  </p>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Based on {velocity.retention.reviewCount} reviews
+                {!velocity.retention.personalized && ' · personal model not trained yet'}
+              </p>
+            </div>
+          )}
         </div>
       </div>
 
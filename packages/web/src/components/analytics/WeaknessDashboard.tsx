@@ -30,7 +30,7 @@ const PRIORITY_COLORS = {
   low: '#a3a3a3',
 };
 
-const TYPE_COLORS = ['#3b82f6', '#8b5cf6'];
+const TYPE_COLORS = ['#3b82f6', '#8b5cf6', '#d97706'];
 
 export const WeaknessDashboard: React.FC = () => {
   const [selectedLanguage, setSelectedLanguage] = useState<string | undefined>(undefined);
@@ -74,6 +74,7 @@ export const WeaknessDashboard: React.FC = () => {
   const typeChartData = [
     { name: 'Vocabulary', value: analysis.weaknessesByType.vocabulary },
     { name: 'Grammar', value: analysis.weaknessesByType.grammar },
+    { name: 'Accents', value: analysis.weaknessesByType.orthography },
   ].filter((d) => d.value > 0);
 
   const cefrChartData = CEFR_LEVELS.map((level) => ({
@@ -163,7 +164,7 @@ export const WeaknessDashboard: React.FC = () => {
         </div>
 
         {/* Summary Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
           <div className="bg-white rounded-lg shadow p-6">
             <div className="text-sm font-medium text-gray-600">Total Weaknesses</div>
             <div className="mt-2 text-4xl font-bold text-red-600">{analysis.totalWeaknesses}</div>
@@ -183,6 +184,13 @@ export const WeaknessDashboard: React.FC = () => {
             </div>
           </div>
 
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-sm font-medium text-gray-600">Accent Issues</div>
+            <div className="mt-2 text-4xl font-bold text-amber-600">
+              {analysis.weaknessesByType.orthography}
+            </div>
+          </div>
+
           <div className="bg-white rounded-lg shadow p-6">
             <div className="text-sm font-medium text-gray-600">Last Analyzed</div>
             <div className="mt-2 text-lg font-semibold text-gray-900">
@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AxiosError } from 'axios';
+import { authApi } from '@/api/auth';
+import { useAuth } from '@/contexts/AuthContext';
+
+/**
+ * Shown instead of the app to accounts that have not confirmed their
+ * email address yet
+ */
+export function EmailVerificationNotice() {
+  const { user, logout } = useAuth();
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  const resend = async () => {
+    setStatus('sending');
+    setError(null);
+    try {
+      await authApi.resendVerificationEmail();
+      setStatus('sent');
+    } catch (err) {
+      const axiosError = err as AxiosError<{ error: { message: string } }>;
+      setError(axiosError.response?.data?.error?.message || 'Could not send the email.');
+      setStatus('idle');
+    }
+  };
+
+  const handleLogout = async () => {
+    await logout();
+    void navigate('/login');
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="max-w-md w-full card text-center space-y-4">
+        <h1 className="text-2xl font-bold text-gray-900">Confirm your email</h1>
+        <p className="text-gray-700">
+          We sent a confirmation link to <span className="font-medium">{user?.email}</span>. Follow
+          it to start learning.
+        </p>
+
+        {status === 'sent' && <p className="text-sm text-green-700">A new link is on its way.</p>}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex flex-col gap-2">
+          <button
+            onClick={() => void resend()}
+            disabled={status === 'sending'}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {status === 'sending' ? 'Sending...' : 'Send the link again'}
+          </button>
+          <button
+            onClick={() => void handleLogout()}
+            className="text-sm text-gray-600 hover:text-gray-800"
+          >
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { getAccessToken } from '@/api/token-store';
+import { EmailVerificationNotice } from './EmailVerificationNotice';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -21,8 +23,8 @@ export function ProtectedRoute({ children, requiredRole }: ProtectedRouteProps)
     );
   }
 
-  // Check if user has token in localStorage (might be in transition after login)
-  const hasToken = typeof window !== 'undefined' && localStorage.getItem('accessToken');
+  // Check if user has an access token (might be in transition after login)
+  const hasToken = getAccessToken() !== null;
 
   if (!isAuthenticated && !hasToken) {
     return <Navigate to="/login" state={{ from: location }} replace />;
@@ -56,5 +58,9 @@ export function ProtectedRoute({ children, requiredRole }: ProtectedRouteProps)
     );
   }
 
+  if (user?.emailVerified === false) {
+    return <EmailVerificationNotice />;
+  }
+
   return <>{children}</>;
 }
@@ -1,6 +1,8 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import api from '../../api/client';
+import { useHintLadder } from '../../hooks/useHintLadder';
+import { HintLadder, HintLadderButton } from '../practice/HintLadder';
 import { FillBlankExercise } from './FillBlankExercise';
 import { MultipleChoiceExercise } from './MultipleChoiceExercise';
 import { ReorderExercise } from './ReorderExercise';
@@ -39,11 +41,16 @@ interface ExerciseSubmission {
 interface GrammarExerciseContainerProps {
   grammarRuleId?: string;
   language: string;
+  /**
+   * Practise conjugation or declension drills generated from paradigm tables
+   */
+  drill?: 'conjugation' | 'declension';
 }
 
 export function GrammarExerciseContainer({
   grammarRuleId,
   language,
+  drill,
 }: GrammarExerciseContainerProps) {
   const queryClient = useQueryClient();
   const [currentExerciseIndex, setCurrentExerciseIndex] = useState(0);
@@ -51,20 +58,34 @@ export function GrammarExerciseContainer({
   const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
 
   const { data, isLoading } = useQuery<ExercisesData>({
-    queryKey: ['grammar-exercises', grammarRuleId, language],
+    queryKey: ['grammar-exercises', grammarRuleId, language, drill],
     queryFn: async () => {
-      const url = grammarRuleId
-        ? `/learning/grammar/${grammarRuleId}/exercises`
-        : `/learning/grammar/exercises/mixed?language=${language}`;
+      const url = drill
+        ? `/learning/grammar/drills?language=${language}&kind=${drill}`
+        : grammarRuleId
+          ? `/learning/grammar/${grammarRuleId}/exercises`
+          : `/learning/grammar/exercises/mixed?language=${language}`;
       return api.get<ExercisesData>(url);
     },
   });
 
+  const ladderExerciseId = data?.exercises[currentExerciseIndex]?.exerciseId;
+  const hintLadder = useHintLadder({
+    exerciseId: ladderExerciseId ?? '',
+    exerciseType: 'grammar',
+    language,
+    grammarExerciseId: ladderExerciseId,
+  });
+
   const submitMutation = useMutation({
-    mutationFn: async (payload: { exerciseId: string; answer: string | string[] }) => {
+    mutationFn: async (payload: {
+      exerciseId: string;
+      answer: string | string[];
+      hintsUsed: number;
+    }) => {
       return api.post<ExerciseSubmission>(
-        `/learning/grammar/exercises/${payload.exerciseId}/validate`,
-        { answer: payload.answer }
+        `/learning/grammar/exercises/${encodeURIComponent(payload.exerciseId)}/validate`,
+        { answer: payload.answer, hintsUsed: payload.hintsUsed }
       );
     },
     onSuccess: (submission) => {
@@ -116,6 +137,7 @@ export function GrammarExerciseContainer({
     submitMutation.mutate({
       exerciseId: currentExercise.exerciseId,
       answer,
+      hintsUsed: hintLadder.hintsUsed,
     });
   };
 
@@ -171,6 +193,20 @@ export function GrammarExerciseContainer({
 
       <div className="card p-6 mb-4">{renderExercise()}</div>
 
+      {feedback === null && (
+        <div className="mb-4 space-y-3">
+          <HintLadderButton
+            hintsUsed={hintLadder.hintsUsed}
+            maxLevel={hintLadder.maxLevel}
+            isLoading={hintLadder.isLoading}
+            canRequestMore={hintLadder.canRequestMore}
+            onRequestHint={() => void hintLadder.requestHint()}
+            disabled={submitMutation.isPending}
+          />
+          <HintLadder hints={hintLadder.hints} />
+        </div>
+      )}
+
       {feedback && (
         <div className={`alert ${isCorrect ? 'alert-success' : 'alert-error'} mb-4`}>
           <span>{feedback}</span>
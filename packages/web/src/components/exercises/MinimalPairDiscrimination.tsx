@@ -0,0 +1,104 @@
+import { useState } from 'react';
+
+interface MinimalPairDiscriminationProps {
+  audioUrl: string | null;
+  language: string;
+  options: string[];
+  correctAnswer: string;
+  contrast: string;
+  onAnswer: (answer: string) => void;
+}
+
+/**
+ * Hear one word of a minimal pair and pick which of the two it was
+ */
+export function MinimalPairDiscrimination({
+  audioUrl,
+  language,
+  options,
+  correctAnswer,
+  contrast,
+  onAnswer,
+}: MinimalPairDiscriminationProps) {
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const playAudio = (): void => {
+    try {
+      if (audioUrl) {
+        void new Audio(audioUrl).play();
+        return;
+      }
+
+      // No generated audio yet: fall back to the browser's speech synthesis
+      const utterance = new SpeechSynthesisUtterance(correctAnswer);
+      utterance.lang = language.toLowerCase();
+      window.speechSynthesis.speak(utterance);
+    } catch (err) {
+      console.error('Failed to play audio:', err);
+    }
+  };
+
+  const handleSelect = (option: string): void => {
+    if (selected) return;
+
+    setSelected(option);
+    onAnswer(option);
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto p-6">
+      <h3 className="text-2xl font-semibold text-gray-900 mb-2 text-center">
+        Which word did you hear?
+      </h3>
+      <p className="text-center text-gray-500 mb-6">Listen for {contrast}</p>
+
+      <div className="flex justify-center mb-8">
+        <button
+          onClick={playAudio}
+          className="px-8 py-4 bg-blue-600 text-white text-lg rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          🔊 Play Word
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-6">
+        {options.map((option) => {
+          let buttonClass = 'p-6 text-3xl font-bold border-2 rounded-lg transition-all';
+
+          if (selected && option === correctAnswer) {
+            buttonClass += ' bg-green-100 border-green-500 text-green-900';
+          } else if (selected === option) {
+            buttonClass += ' bg-red-100 border-red-500 text-red-900';
+          } else {
+            buttonClass += ' bg-white border-gray-300 text-gray-900 hover:border-blue-500';
+          }
+
+          return (
+            <button
+              key={option}
+              onClick={() => handleSelect(option)}
+              disabled={selected !== null}
+              className={buttonClass}
+            >
+              {option}
+            </button>
+          );
+        })}
+      </div>
+
+      {selected && (
+        <div
+          className={`text-center text-xl font-semibold p-4 rounded-lg ${
+            selected === correctAnswer ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          {selected === correctAnswer ? (
+            <span>✅ Correct!</span>
+          ) : (
+            <span>❌ You heard &quot;{correctAnswer}&quot;</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
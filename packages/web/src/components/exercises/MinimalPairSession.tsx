@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import api from '@/api/client';
+import { MinimalPairDiscrimination } from './MinimalPairDiscrimination';
+
+interface MinimalPairExercise {
+  pairId: string;
+  language: string;
+  options: string[];
+  targetWord: string;
+  contrast: string;
+  audioUrl: string | null;
+}
+
+interface MinimalPairResult {
+  isCorrect: boolean;
+  targetWord: string;
+  gate: {
+    attempts: number;
+    accuracy: number;
+    requiredAttempts: number;
+    requiredAccuracy: number;
+    gateCompleted: boolean;
+  };
+}
+
+interface MinimalPairSessionProps {
+  language: string;
+}
+
+/**
+ * Minimal-pair listening session; answers count toward the orthography gate
+ */
+export function MinimalPairSession({ language }: MinimalPairSessionProps) {
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [lastResult, setLastResult] = useState<MinimalPairResult | null>(null);
+
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ['minimal-pairs', language],
+    queryFn: () =>
+      api.get<{ exercises: MinimalPairExercise[] }>(
+        `/learning/orthography/${language}/minimal-pairs?count=20`
+      ),
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: (payload: { exercise: MinimalPairExercise; answer: string }) =>
+      api.post<MinimalPairResult>('/learning/orthography/minimal-pairs/submit', {
+        language,
+        pairId: payload.exercise.pairId,
+        targetWord: payload.exercise.targetWord,
+        answer: payload.answer,
+      }),
+    onSuccess: (result) => {
+      setLastResult(result);
+      setTimeout(() => setCurrentIndex((prev) => prev + 1), 1500);
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading exercises...</div>;
+  }
+
+  const exercises = data?.exercises ?? [];
+
+  if (exercises.length === 0) {
+    return (
+      <div className="max-w-2xl mx-auto p-6">
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-yellow-800">No minimal pairs available for this language.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const gate = lastResult?.gate;
+
+  if (currentIndex >= exercises.length) {
+    return (
+      <div className="max-w-2xl mx-auto p-6 text-center">
+        <h2 className="text-3xl font-bold text-gray-900 mb-4">
+          {gate?.gateCompleted ? '🎉 Orthography gate passed!' : '📚 Keep listening'}
+        </h2>
+        {gate && (
+          <p className="text-gray-600 mb-6">
+            Last {gate.attempts} answers: {Math.round(gate.accuracy * 100)}% correct (
+            {Math.round(gate.requiredAccuracy * 100)}% over {gate.requiredAttempts} needed)
+          </p>
+        )}
+        <button
+          onClick={() => {
+            setCurrentIndex(0);
+            setLastResult(null);
+            void refetch();
+          }}
+          className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Practice Again
+        </button>
+      </div>
+    );
+  }
+
+  const exercise = exercises[currentIndex];
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-white rounded-lg shadow-sm p-6 mb-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-gray-900">Minimal Pairs: {language}</h2>
+          <div className="text-sm text-gray-600">
+            Exercise {currentIndex + 1} / {exercises.length}
+            {gate && ` · Gate: ${gate.attempts}/${gate.requiredAttempts} answers`}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg">
+          <MinimalPairDiscrimination
+            key={`${currentIndex}:${exercise.pairId}`}
+            audioUrl={exercise.audioUrl}
+            language={language}
+            options={exercise.options}
+            correctAnswer={exercise.targetWord}
+            contrast={exercise.contrast}
+            onAnswer={(answer) => submitMutation.mutate({ exercise, answer })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,3 +5,5 @@ export { FillBlankExercise } from './FillBlankExercise';
 export { MultipleChoiceExercise } from './MultipleChoiceExercise';
 export { ReorderExercise } from './ReorderExercise';
 export { GrammarExerciseContainer } from './GrammarExerciseContainer';
+export { MinimalPairDiscrimination } from './MinimalPairDiscrimination';
+export { MinimalPairSession } from './MinimalPairSession';
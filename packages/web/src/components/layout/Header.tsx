@@ -1,7 +1,7 @@
 import { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { Menu, X, User, LogOut } from 'lucide-react';
+import { Menu, X, User, LogOut, MonitorSmartphone, ShieldCheck, Database } from 'lucide-react';
 import { FocusModeIndicator } from '@/components/focus-mode';
 
 export function Header() {
@@ -90,6 +90,18 @@ export function Header() {
                 >
                   Documents
                 </Link>
+                <Link
+                  to="/operator/tts-voices"
+                  className="text-gray-700 hover:text-primary-600 transition-colors"
+                >
+                  Voices
+                </Link>
+                <Link
+                  to="/operator/operators"
+                  className="text-gray-700 hover:text-primary-600 transition-colors"
+                >
+                  Operators
+                </Link>
               </>
             )}
           </nav>
@@ -111,6 +123,32 @@ export function Header() {
                     <p className="text-sm font-medium text-gray-900">{user?.email}</p>
                     <p className="text-xs text-gray-500 capitalize">{user?.role}</p>
                   </div>
+                  <Link
+                    to="/settings/sessions"
+                    onClick={() => setUserMenuOpen(false)}
+                    className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                  >
+                    <MonitorSmartphone className="w-4 h-4" />
+                    <span>Devices</span>
+                  </Link>
+                  <Link
+                    to="/settings/account"
+                    onClick={() => setUserMenuOpen(false)}
+                    className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                  >
+                    <Database className="w-4 h-4" />
+                    <span>Your data</span>
+                  </Link>
+                  {user?.role === 'operator' && (
+                    <Link
+                      to="/settings/two-factor"
+                      onClick={() => setUserMenuOpen(false)}
+                      className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                    >
+                      <ShieldCheck className="w-4 h-4" />
+                      <span>Two-factor authentication</span>
+                    </Link>
+                  )}
                   <button
                     onClick={() => {
                       handleLogout().catch((err: Error) => {
@@ -211,6 +249,20 @@ export function Header() {
                 >
                   Documents
                 </Link>
+                <Link
+                  to="/operator/tts-voices"
+                  className="block px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg"
+                  onClick={() => setMobileMenuOpen(false)}
+                >
+                  Voices
+                </Link>
+                <Link
+                  to="/operator/operators"
+                  className="block px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg"
+                  onClick={() => setMobileMenuOpen(false)}
+                >
+                  Operators
+                </Link>
               </>
             )}
 
@@ -219,6 +271,32 @@ export function Header() {
                 <p className="text-sm font-medium text-gray-900">{user?.email}</p>
                 <p className="text-xs text-gray-500 capitalize">{user?.role}</p>
               </div>
+              <Link
+                to="/settings/sessions"
+                onClick={() => setMobileMenuOpen(false)}
+                className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg"
+              >
+                <MonitorSmartphone className="w-4 h-4" />
+                <span>Devices</span>
+              </Link>
+              <Link
+                to="/settings/account"
+                onClick={() => setMobileMenuOpen(false)}
+                className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg"
+              >
+                <Database className="w-4 h-4" />
+                <span>Your data</span>
+              </Link>
+              {user?.role === 'operator' && (
+                <Link
+                  to="/settings/two-factor"
+                  onClick={() => setMobileMenuOpen(false)}
+                  className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg"
+                >
+                  <ShieldCheck className="w-4 h-4" />
+                  <span>Two-factor authentication</span>
+                </Link>
+              )}
               <button
                 onClick={() => {
                   setMobileMenuOpen(false);
@@ -0,0 +1,74 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../../api/client';
+
+type DiacriticStrictness = 'strict' | 'lenient' | 'ignore';
+
+interface DiacriticPreference {
+  strictness: DiacriticStrictness;
+}
+
+const OPTIONS: Array<{ value: DiacriticStrictness; label: string; description: string }> = [
+  {
+    value: 'strict',
+    label: 'Strict',
+    description: 'A missing or wrong accent makes the answer wrong.',
+  },
+  {
+    value: 'lenient',
+    label: 'Lenient with warning',
+    description: 'Accent mistakes are accepted, and the letters you missed are pointed out.',
+  },
+  {
+    value: 'ignore',
+    label: 'Ignore accents',
+    description: 'Accents are neither graded nor pointed out.',
+  },
+];
+
+export function AccentGradingControl() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<DiacriticPreference>({
+    queryKey: ['diacritic-preference'],
+    queryFn: () => api.get('/learning/preferences/diacritics'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (strictness: DiacriticStrictness) =>
+      api.put('/learning/preferences/diacritics', { strictness }),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['diacritic-preference'] });
+    },
+  });
+
+  if (isLoading || !data) {
+    return <div className="text-sm text-gray-600">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {OPTIONS.map((option) => (
+        <label
+          key={option.value}
+          className={`flex cursor-pointer items-start gap-3 rounded-lg border-2 p-3 ${
+            data.strictness === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+          }`}
+        >
+          <input
+            type="radio"
+            name="diacritic-strictness"
+            value={option.value}
+            checked={data.strictness === option.value}
+            disabled={updateMutation.isPending}
+            onChange={() => updateMutation.mutate(option.value)}
+            className="mt-1"
+          />
+          <div>
+            <div className="font-medium text-gray-900">{option.label}</div>
+            <div className="text-sm text-gray-600">{option.description}</div>
+          </div>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../../api/client';
+
+interface RecoveryPlan {
+  startDate: string;
+  days: number;
+  totalItems: number;
+  dailyCounts: number[];
+  language: string | null;
+  currentDay: number;
+  todayTarget: number;
+}
+
+interface BacklogStatus {
+  paused: boolean;
+  pausedAt: string | null;
+  overdueCount: number;
+  recoveryPlan: RecoveryPlan | null;
+}
+
+const PLAN_LENGTHS = [3, 5, 7, 14];
+
+// Backlogs smaller than this are easy to clear in one session
+const BACKLOG_THRESHOLD = 50;
+
+export function BacklogRecoveryCard() {
+  const queryClient = useQueryClient();
+  const [planDays, setPlanDays] = useState(7);
+
+  const { data: status, isLoading } = useQuery<BacklogStatus>({
+    queryKey: ['srs-backlog'],
+    queryFn: () => api.get('/learning/srs/backlog'),
+  });
+
+  const pauseMutation = useMutation({
+    mutationFn: (paused: boolean) => api.put('/learning/preferences/pause', { paused }),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['srs-backlog'] });
+    },
+  });
+
+  const planMutation = useMutation({
+    mutationFn: (days: number) => api.post('/learning/srs/recovery-plan', { days }),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['srs-backlog'] });
+    },
+  });
+
+  if (isLoading || !status) {
+    return <div className="card p-6 text-sm text-gray-600">Loading review status...</div>;
+  }
+
+  const plan = status.recoveryPlan;
+  const isBusy = pauseMutation.isPending || planMutation.isPending;
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold text-gray-900">Reviews</h3>
+          <p className="text-sm text-gray-600">
+            {status.paused
+              ? `Paused since ${new Date(status.pausedAt!).toLocaleDateString()}. Due dates are frozen.`
+              : `${status.overdueCount} items due now`}
+          </p>
+        </div>
+        <button
+          onClick={() => pauseMutation.mutate(!status.paused)}
+          disabled={isBusy}
+          className="btn btn-secondary disabled:opacity-50"
+        >
+          {status.paused ? 'Resume Reviews' : 'Pause for Vacation'}
+        </button>
+      </div>
+
+      {plan && (
+        <div className="rounded-lg border border-blue-200 bg-blue-50 p-4">
+          <p className="font-medium text-blue-900">
+            Recovery plan: day {plan.currentDay + 1} of {plan.days}
+          </p>
+          <p className="text-sm text-blue-800">
+            Today&apos;s share: {plan.todayTarget} of {plan.totalItems} backlog items
+          </p>
+          <div className="mt-3 flex gap-1">
+            {plan.dailyCounts.map((count, day) => (
+              <div
+                key={day}
+                title={`Day ${day + 1}: ${count} items`}
+                className={`h-2 flex-1 rounded ${
+                  day < plan.currentDay
+                    ? 'bg-blue-600'
+                    : day === plan.currentDay
+                      ? 'bg-blue-400'
+                      : 'bg-blue-200'
+                }`}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {!plan && !status.paused && status.overdueCount >= BACKLOG_THRESHOLD && (
+        <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 space-y-3">
+          <p className="text-sm text-yellow-800">
+            That is a large backlog. Spread it over a few days, starting with the items you are most
+            likely to have forgotten.
+          </p>
+          <div className="flex items-center gap-3">
+            <select
+              value={planDays}
+              onChange={(e) => setPlanDays(Number(e.target.value))}
+              className="rounded-md border border-gray-300 bg-white px-3 py-2 text-sm"
+            >
+              {PLAN_LENGTHS.map((days) => (
+                <option key={days} value={days}>
+                  {days} days (~{Math.ceil(status.overdueCount / days)} per day)
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => planMutation.mutate(planDays)}
+              disabled={isBusy}
+              className="btn btn-primary disabled:opacity-50"
+            >
+              Create Recovery Plan
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,2 +1,4 @@
 export { OrthographyGateLock } from './OrthographyGateLock';
 export { OrthographyLesson } from './OrthographyLesson';
+export { BacklogRecoveryCard } from './BacklogRecoveryCard';
+export { AccentGradingControl } from './AccentGradingControl';
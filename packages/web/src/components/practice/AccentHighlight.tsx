@@ -0,0 +1,31 @@
+interface AccentHighlightProps {
+  word: string;
+  positions: number[]; // Letter indexes with a diacritic mistake
+  className?: string;
+}
+
+/**
+ * Word with the letters the learner got the diacritic wrong on highlighted
+ *
+ * Letters are counted with their diacritics attached, the same way the API
+ * reports accentPositions.
+ */
+export function AccentHighlight({ word, positions, className = '' }: AccentHighlightProps) {
+  const letters = (word.normalize('NFD').match(/\P{M}\p{M}*/gu) ?? []).map((letter) =>
+    letter.normalize('NFC')
+  );
+
+  return (
+    <span className={className}>
+      {letters.map((letter, idx) =>
+        positions.includes(idx) ? (
+          <span key={idx} className="text-amber-600 font-bold underline decoration-2">
+            {letter}
+          </span>
+        ) : (
+          <span key={idx}>{letter}</span>
+        )
+      )}
+    </span>
+  );
+}
@@ -1,4 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
+import { useHintLadder } from '../../hooks/useHintLadder';
+import { AccentHighlight } from './AccentHighlight';
+import { HintLadder, HintLadderButton } from './HintLadder';
 
 interface ClozeExerciseProps {
   exercise: {
@@ -6,45 +9,52 @@ interface ClozeExerciseProps {
     sentenceWithBlank: string;
     correctAnswer: string;
     alternativeAnswers: string[];
-    hint: {
-      firstLetter: string;
-      wordLength: number;
-      partOfSpeech: string | null;
-    };
     context: string | null;
     audioUrl: string | null;
     explanation: string;
     cefrLevel: string;
     meaningId: string | null;
   };
-  onSubmit: (userAnswer: string, timeSpentMs: number) => void;
+  language: string;
+  onSubmit: (userAnswer: string, timeSpentMs: number, hintsUsed: number) => void;
   feedback: {
     isCorrect: boolean;
     similarity: number;
     feedback: string;
     correctAnswer: string;
     partialCredit: number;
+    errors: Array<{
+      type: string;
+      expected?: string;
+      actual?: string;
+      position: number;
+      accentPositions?: number[];
+    }>;
   } | null;
   disabled: boolean;
-  attemptCount: number;
 }
 
 export function ClozeExercise({
   exercise,
+  language,
   onSubmit,
   feedback,
   disabled,
-  attemptCount,
 }: ClozeExerciseProps) {
   const [userAnswer, setUserAnswer] = useState('');
-  const [hintLevel, setHintLevel] = useState(0);
+  const hintLadder = useHintLadder({
+    exerciseId: exercise.exerciseId,
+    exerciseType: 'cloze',
+    language,
+    answer: exercise.correctAnswer,
+    meaningId: exercise.meaningId,
+  });
   const startTimeRef = useRef<number>(Date.now());
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Reset state when exercise changes
   useEffect(() => {
     setUserAnswer('');
-    setHintLevel(0);
     startTimeRef.current = Date.now();
     inputRef.current?.focus();
   }, [exercise.exerciseId]);
@@ -61,39 +71,7 @@ export function ClozeExercise({
     if (!userAnswer.trim() || disabled) return;
 
     const timeSpent = Date.now() - startTimeRef.current;
-    onSubmit(userAnswer.trim(), timeSpent);
-  };
-
-  const handleShowHint = () => {
-    setHintLevel((prev) => Math.min(prev + 1, 3));
-  };
-
-  const renderHints = () => {
-    if (hintLevel === 0) return null;
-
-    const hints: string[] = [];
-    if (hintLevel >= 1) {
-      hints.push(`First letter: "${exercise.hint.firstLetter}"`);
-    }
-    if (hintLevel >= 2) {
-      hints.push(`Length: ${exercise.hint.wordLength} letters`);
-    }
-    if (hintLevel >= 3 && exercise.hint.partOfSpeech) {
-      hints.push(`Part of speech: ${exercise.hint.partOfSpeech}`);
-    }
-
-    return (
-      <div className="alert alert-info mt-4">
-        <div>
-          <div className="font-semibold">Hints:</div>
-          <ul className="list-disc list-inside text-sm mt-1">
-            {hints.map((hint, idx) => (
-              <li key={idx}>{hint}</li>
-            ))}
-          </ul>
-        </div>
-      </div>
-    );
+    onSubmit(userAnswer.trim(), timeSpent, hintLadder.hintsUsed);
   };
 
   // Render sentence with visual blank
@@ -175,14 +153,17 @@ export function ClozeExercise({
               Check Answer
             </button>
 
-            {attemptCount >= 2 && hintLevel < 3 && (
-              <button type="button" onClick={handleShowHint} className="btn btn-secondary">
-                Show Hint
-              </button>
-            )}
+            <HintLadderButton
+              hintsUsed={hintLadder.hintsUsed}
+              maxLevel={hintLadder.maxLevel}
+              isLoading={hintLadder.isLoading}
+              canRequestMore={hintLadder.canRequestMore}
+              onRequestHint={() => void hintLadder.requestHint()}
+              disabled={disabled}
+            />
           </div>
 
-          {renderHints()}
+          <HintLadder hints={hintLadder.hints} />
         </form>
       )}
 
@@ -199,6 +180,21 @@ export function ClozeExercise({
                 Correct answer: <strong>{feedback.correctAnswer}</strong>
               </div>
             )}
+            {feedback.errors.some((error) => error.accentPositions) && (
+              <div className="text-sm mt-1">
+                Accents:{' '}
+                {feedback.errors
+                  .filter((error) => error.accentPositions)
+                  .map((error, idx) => (
+                    <AccentHighlight
+                      key={idx}
+                      word={error.expected ?? ''}
+                      positions={error.accentPositions ?? []}
+                      className="mr-2 text-base"
+                    />
+                  ))}
+              </div>
+            )}
             {exercise.explanation && (
               <div className="text-sm mt-2 opacity-80">{exercise.explanation}</div>
             )}
@@ -31,6 +31,13 @@ interface ClozeValidationResult {
   feedback: string;
   correctAnswer: string;
   partialCredit: number;
+  errors: Array<{
+    type: string;
+    expected?: string;
+    actual?: string;
+    position: number;
+    accentPositions?: number[];
+  }>;
 }
 
 interface ClozeStats {
@@ -49,7 +56,6 @@ export function ClozePracticeSession({ language }: ClozePracticeSessionProps) {
   const [currentExerciseIndex, setCurrentExerciseIndex] = useState(0);
   const [correctCount, setCorrectCount] = useState(0);
   const [incorrectCount, setIncorrectCount] = useState(0);
-  const [attemptCount, setAttemptCount] = useState(0);
   const [feedback, setFeedback] = useState<ClozeValidationResult | null>(null);
   const totalTimeRef = useRef<number>(0);
 
@@ -72,6 +78,8 @@ export function ClozePracticeSession({ language }: ClozePracticeSessionProps) {
       alternativeAnswers: string[];
       meaningId: string | null;
       timeSpentMs: number;
+      language: string;
+      hintsUsed: number;
     }) => {
       return api.post<ClozeValidationResult>('/learning/cloze/submit', payload);
     },
@@ -85,11 +93,9 @@ export function ClozePracticeSession({ language }: ClozePracticeSessionProps) {
         setTimeout(() => {
           setCurrentExerciseIndex((prev) => prev + 1);
           setFeedback(null);
-          setAttemptCount(0);
         }, 2000);
       } else {
         setIncorrectCount((prev) => prev + 1);
-        setAttemptCount((prev) => prev + 1);
       }
     },
   });
@@ -163,7 +169,6 @@ export function ClozePracticeSession({ language }: ClozePracticeSessionProps) {
             setCurrentExerciseIndex(0);
             setCorrectCount(0);
             setIncorrectCount(0);
-            setAttemptCount(0);
             setFeedback(null);
             totalTimeRef.current = 0;
             void queryClient.invalidateQueries({ queryKey: ['cloze-exercises'] });
@@ -178,7 +183,7 @@ export function ClozePracticeSession({ language }: ClozePracticeSessionProps) {
 
   const currentExercise = exercises[currentExerciseIndex];
 
-  const handleSubmit = (userAnswer: string, timeSpentMs: number) => {
+  const handleSubmit = (userAnswer: string, timeSpentMs: number, hintsUsed: number) => {
     submitMutation.mutate({
       exerciseId: currentExercise.exerciseId,
       userAnswer,
@@ -186,6 +191,8 @@ export function ClozePracticeSession({ language }: ClozePracticeSessionProps) {
       alternativeAnswers: currentExercise.alternativeAnswers,
       meaningId: currentExercise.meaningId,
       timeSpentMs,
+      language,
+      hintsUsed,
     });
   };
 
@@ -219,10 +226,10 @@ export function ClozePracticeSession({ language }: ClozePracticeSessionProps) {
       {/* Exercise */}
       <ClozeExercise
         exercise={currentExercise}
+        language={language}
         onSubmit={handleSubmit}
         feedback={feedback}
         disabled={submitMutation.isPending}
-        attemptCount={attemptCount}
       />
 
       {/* Try Again button for incorrect answers */}
@@ -235,7 +242,6 @@ export function ClozePracticeSession({ language }: ClozePracticeSessionProps) {
             onClick={() => {
               setCurrentExerciseIndex((prev) => prev + 1);
               setFeedback(null);
-              setAttemptCount(0);
             }}
             className="btn btn-ghost ml-2"
           >
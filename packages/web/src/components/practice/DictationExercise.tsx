@@ -1,4 +1,8 @@
 import { useState, useEffect, useRef } from 'react';
+import { AccentHighlight } from './AccentHighlight';
+import { useAudioPlayback } from '../../hooks/useAudioPlayback';
+
+const PLAYBACK_RATES = [0.5, 0.75, 1];
 
 interface DictationExerciseProps {
   exercise: {
@@ -8,8 +12,10 @@ interface DictationExerciseProps {
     meaningId: string;
     cefrLevel: string;
     wordCount: number;
+    segments?: Array<{ text: string; startSeconds: number; endSeconds: number }>;
   };
-  onSubmit: (userTranscript: string, timeSpentMs: number) => void;
+  /** replayCount counts every play after the first, of the whole audio or a segment */
+  onSubmit: (userTranscript: string, timeSpentMs: number, replayCount: number) => void;
   feedback: {
     isCorrect: boolean;
     characterAccuracy: number;
@@ -19,6 +25,7 @@ interface DictationExerciseProps {
       expected?: string;
       actual?: string;
       position: number;
+      accentPositions?: number[];
     }>;
     correctTranscript: string;
     qualityRating: number;
@@ -34,16 +41,15 @@ export function DictationExercise({
 }: DictationExerciseProps) {
   const [userTranscript, setUserTranscript] = useState('');
   const [playCount, setPlayCount] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
+  const { isPlaying, play, playSegment, stop, playbackRate, setPlaybackRate } = useAudioPlayback();
   const startTimeRef = useRef<number>(Date.now());
-  const audioRef = useRef<HTMLAudioElement | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   // Reset state when exercise changes
   useEffect(() => {
     setUserTranscript('');
     setPlayCount(0);
-    setIsPlaying(false);
+    stop();
     startTimeRef.current = Date.now();
     textareaRef.current?.focus();
 
@@ -56,19 +62,15 @@ export function DictationExercise({
   const playAudio = async () => {
     if (!exercise.audioUrl || isPlaying) return;
 
-    try {
-      setIsPlaying(true);
-      if (!audioRef.current) {
-        audioRef.current = new Audio(exercise.audioUrl);
-        audioRef.current.addEventListener('ended', () => setIsPlaying(false));
-        audioRef.current.addEventListener('error', () => setIsPlaying(false));
-      }
-      audioRef.current.currentTime = 0;
-      await audioRef.current.play();
-      setPlayCount((prev) => prev + 1);
-    } catch {
-      setIsPlaying(false);
-    }
+    setPlayCount((prev) => prev + 1);
+    await play(exercise.audioUrl);
+  };
+
+  const replaySegment = async (startSeconds: number, endSeconds: number) => {
+    if (!exercise.audioUrl || isPlaying) return;
+
+    setPlayCount((prev) => prev + 1);
+    await playSegment(exercise.audioUrl, startSeconds, endSeconds);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -76,7 +78,7 @@ export function DictationExercise({
     if (!userTranscript.trim() || disabled) return;
 
     const timeSpent = Date.now() - startTimeRef.current;
-    onSubmit(userTranscript.trim(), timeSpent);
+    onSubmit(userTranscript.trim(), timeSpent, Math.max(0, playCount - 1));
   };
 
   const renderDiff = () => {
@@ -93,6 +95,17 @@ export function DictationExercise({
                 </span>
               );
             case 'substitution':
+              if (word.accentPositions) {
+                return (
+                  <span key={idx} title={`You wrote "${word.actual}"`}>
+                    <AccentHighlight
+                      word={word.expected ?? ''}
+                      positions={word.accentPositions}
+                      className="text-green-600 font-medium"
+                    />
+                  </span>
+                );
+              }
               return (
                 <span key={idx} className="relative group">
                   <span className="text-red-600 line-through">{word.actual}</span>
@@ -152,6 +165,39 @@ export function DictationExercise({
         <p className="text-sm text-gray-600 mt-3">
           {playCount === 0 ? 'Click to play audio' : 'Click to replay'}
         </p>
+
+        {/* Playback speed */}
+        <div className="flex justify-center items-center gap-2 mt-4">
+          <span className="text-xs text-gray-500">Speed</span>
+          {PLAYBACK_RATES.map((rate) => (
+            <button
+              key={rate}
+              type="button"
+              onClick={() => setPlaybackRate(rate)}
+              className={`btn btn-xs ${playbackRate === rate ? 'btn-primary' : 'btn-ghost'}`}
+            >
+              {rate}×
+            </button>
+          ))}
+        </div>
+
+        {/* Segment replay */}
+        {exercise.segments && exercise.segments.length > 1 && (
+          <div className="flex flex-wrap justify-center items-center gap-2 mt-3">
+            <span className="text-xs text-gray-500">Replay part</span>
+            {exercise.segments.map((segment, idx) => (
+              <button
+                key={idx}
+                type="button"
+                onClick={() => void replaySegment(segment.startSeconds, segment.endSeconds)}
+                className="btn btn-xs btn-outline"
+                disabled={isPlaying || disabled}
+              >
+                {idx + 1}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Input form */}
@@ -10,6 +10,7 @@ interface DictationExerciseData {
   meaningId: string;
   cefrLevel: string;
   wordCount: number;
+  segments: Array<{ text: string; startSeconds: number; endSeconds: number }>;
 }
 
 interface DictationExercisesResponse {
@@ -26,6 +27,7 @@ interface DictationValidationResult {
     expected?: string;
     actual?: string;
     position: number;
+    accentPositions?: number[];
   }>;
   correctTranscript: string;
   qualityRating: number;
@@ -69,6 +71,8 @@ export function DictationPracticeSession({ language }: DictationPracticeSessionP
       correctTranscript: string;
       meaningId: string;
       timeSpentMs: number;
+      language: string;
+      replayCount: number;
     }) => {
       return api.post<DictationValidationResult>('/learning/dictation/submit', payload);
     },
@@ -178,13 +182,15 @@ export function DictationPracticeSession({ language }: DictationPracticeSessionP
 
   const currentExercise = exercises[currentExerciseIndex];
 
-  const handleSubmit = (userTranscript: string, timeSpentMs: number) => {
+  const handleSubmit = (userTranscript: string, timeSpentMs: number, replayCount: number) => {
     submitMutation.mutate({
       exerciseId: currentExercise.exerciseId,
       userTranscript,
       correctTranscript: currentExercise.correctTranscript,
       meaningId: currentExercise.meaningId,
       timeSpentMs,
+      language,
+      replayCount,
     });
   };
 
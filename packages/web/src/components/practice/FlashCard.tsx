@@ -10,9 +10,12 @@ interface FlashCardProps {
   };
   onAssessment: (quality: number) => void;
   disabled: boolean;
+  // Reverts the previous assessment; the undo button is hidden when omitted
+  onUndo?: () => void;
+  canUndo?: boolean;
 }
 
-export function FlashCard({ card, onAssessment, disabled }: FlashCardProps) {
+export function FlashCard({ card, onAssessment, disabled, onUndo, canUndo }: FlashCardProps) {
   const [isFlipped, setIsFlipped] = useState(false);
 
   useEffect(() => {
@@ -25,6 +28,13 @@ export function FlashCard({ card, onAssessment, disabled }: FlashCardProps) {
     const handleKeyPress = (e: KeyboardEvent) => {
       if (disabled) return;
 
+      const isUndoKey = e.key === 'u' || ((e.ctrlKey || e.metaKey) && e.key === 'z');
+      if (isUndoKey && onUndo && canUndo) {
+        e.preventDefault();
+        onUndo();
+        return;
+      }
+
       if (e.code === 'Space' && !isFlipped) {
         e.preventDefault();
         setIsFlipped(true);
@@ -51,7 +61,7 @@ export function FlashCard({ card, onAssessment, disabled }: FlashCardProps) {
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [isFlipped, disabled, onAssessment, card.audioUrl]);
+  }, [isFlipped, disabled, onAssessment, onUndo, canUndo, card.audioUrl]);
 
   const playAudio = async () => {
     if (card.audioUrl) {
@@ -154,6 +164,18 @@ export function FlashCard({ card, onAssessment, disabled }: FlashCardProps) {
           </div>
         )}
       </div>
+
+      {onUndo && (
+        <div className="text-center mt-3">
+          <button
+            onClick={onUndo}
+            className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+            disabled={disabled || !canUndo}
+          >
+            ↶ Undo last answer (U)
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,66 @@
+import type { LadderHint } from '../../hooks/useHintLadder';
+
+interface HintLadderButtonProps {
+  hintsUsed: number;
+  maxLevel: number;
+  isLoading: boolean;
+  canRequestMore: boolean;
+  onRequestHint: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Button asking for the next rung of the hint ladder
+ */
+export function HintLadderButton({
+  hintsUsed,
+  maxLevel,
+  isLoading,
+  canRequestMore,
+  onRequestHint,
+  disabled = false,
+}: HintLadderButtonProps) {
+  if (!canRequestMore) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={onRequestHint}
+      className="btn btn-secondary"
+      disabled={isLoading || disabled}
+    >
+      {isLoading ? (
+        <span className="loading loading-spinner loading-sm"></span>
+      ) : (
+        `Hint ${hintsUsed + 1}/${maxLevel}`
+      )}
+    </button>
+  );
+}
+
+interface HintLadderProps {
+  hints: LadderHint[];
+}
+
+/**
+ * Hints received so far; each one lowers the grade of the answer
+ */
+export function HintLadder({ hints }: HintLadderProps) {
+  if (hints.length === 0) return null;
+
+  return (
+    <div className="alert alert-info">
+      <div className="w-full">
+        <div className="font-semibold">Hints:</div>
+        <ul className="list-disc list-inside">
+          {hints.map((hint) => (
+            <li key={hint.level} className={hint.isReveal ? 'font-semibold' : undefined}>
+              {hint.text}
+            </li>
+          ))}
+        </ul>
+        <div className="text-xs opacity-70 mt-1">Each hint lowers the score of this answer.</div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import { useState, type ComponentProps } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import api from '../../api/client';
+import { ClozeExercise } from './ClozeExercise';
+import { DictationExercise } from './DictationExercise';
+import { TranslationExercise } from './TranslationExercise';
+import { ProductionExercise } from './ProductionExercise';
+import { ReadingComprehension } from './ReadingComprehension';
+import { FillBlankExercise } from '../exercises/FillBlankExercise';
+import { MultipleChoiceExercise } from '../exercises/MultipleChoiceExercise';
+import { ReorderExercise } from '../exercises/ReorderExercise';
+
+type ClozeProps = ComponentProps<typeof ClozeExercise>;
+type DictationProps = ComponentProps<typeof DictationExercise>;
+type TranslationProps = ComponentProps<typeof TranslationExercise>;
+type ProductionProps = ComponentProps<typeof ProductionExercise>;
+type ReadingProps = ComponentProps<typeof ReadingComprehension>;
+
+interface GrammarExercise {
+  exerciseId: string;
+  exerciseType:
+    | 'fill_blank'
+    | 'transformation'
+    | 'multiple_choice'
+    | 'reorder'
+    | 'error_correction';
+  prompt: string;
+  sentenceText: string;
+  correctAnswer: string | string[];
+  distractors?: string[];
+  hint: string | null;
+}
+
+interface GrammarValidation {
+  isCorrect: boolean;
+  feedback: string;
+  partialCredit: number;
+}
+
+/**
+ * Mixed session item of a practice mode other than recall/recognition
+ */
+export type MixedModeItem =
+  | { practiceType: 'cloze'; language: string; exercise: ClozeProps['exercise'] }
+  | { practiceType: 'dictation'; language: string; exercise: DictationProps['exercise'] }
+  | { practiceType: 'translation'; language: string; exercise: TranslationProps['exercise'] }
+  | { practiceType: 'production'; language: string; exercise: ProductionProps['exercise'] }
+  | { practiceType: 'reading'; language: string; exercise: ReadingProps['passage'] }
+  | { practiceType: 'grammar'; language: string; exercise: GrammarExercise };
+
+interface MixedExerciseItemProps {
+  item: MixedModeItem;
+  onComplete: (isCorrect: boolean) => void;
+  disabled: boolean;
+}
+
+/**
+ * Renders a mixed session item with its practice mode's exercise component
+ *
+ * Answers are graded and scheduled by the mode's own endpoint, so the item
+ * counts towards that mode's stats as well. Only the first answer counts;
+ * once it is graded the learner moves on with the Next button.
+ */
+export function MixedExerciseItem({ item, onComplete, disabled }: MixedExerciseItemProps) {
+  const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
+  const [clozeFeedback, setClozeFeedback] = useState<ClozeProps['feedback']>(null);
+  const [dictationFeedback, setDictationFeedback] = useState<DictationProps['feedback']>(null);
+  const [translationFeedback, setTranslationFeedback] =
+    useState<TranslationProps['feedback']>(null);
+  const [readingResult, setReadingResult] = useState<ReadingProps['result']>(null);
+  const [grammarFeedback, setGrammarFeedback] = useState<GrammarValidation | null>(null);
+
+  const submitMutation = useMutation({
+    mutationFn: async (submit: () => Promise<boolean>) => submit(),
+    onSuccess: (correct) => setIsCorrect(correct),
+  });
+
+  const submit = (request: () => Promise<boolean>) => submitMutation.mutate(request);
+  const answered = isCorrect !== null;
+  const inputDisabled = disabled || submitMutation.isPending || answered;
+
+  const renderExercise = (): JSX.Element => {
+    switch (item.practiceType) {
+      case 'cloze': {
+        const { exercise } = item;
+        return (
+          <ClozeExercise
+            exercise={exercise}
+            language={item.language}
+            onSubmit={(userAnswer, timeSpentMs, hintsUsed) =>
+              submit(async () => {
+                const result = await api.post<NonNullable<ClozeProps['feedback']>>(
+                  '/learning/cloze/submit',
+                  {
+                    exerciseId: exercise.exerciseId,
+                    userAnswer,
+                    correctAnswer: exercise.correctAnswer,
+                    alternativeAnswers: exercise.alternativeAnswers,
+                    meaningId: exercise.meaningId,
+                    timeSpentMs,
+                    language: item.language,
+                    hintsUsed,
+                  }
+                );
+                setClozeFeedback(result);
+                return result.isCorrect;
+              })
+            }
+            feedback={clozeFeedback}
+            disabled={inputDisabled}
+          />
+        );
+      }
+
+      case 'dictation': {
+        const { exercise } = item;
+        return (
+          <DictationExercise
+            exercise={exercise}
+            onSubmit={(userTranscript, timeSpentMs, replayCount) =>
+              submit(async () => {
+                const result = await api.post<NonNullable<DictationProps['feedback']>>(
+                  '/learning/dictation/submit',
+                  {
+                    exerciseId: exercise.exerciseId,
+                    userTranscript,
+                    correctTranscript: exercise.correctTranscript,
+                    meaningId: exercise.meaningId,
+                    timeSpentMs,
+                    language: item.language,
+                    replayCount,
+                  }
+                );
+                setDictationFeedback(result);
+                return result.isCorrect;
+              })
+            }
+            feedback={dictationFeedback}
+            disabled={inputDisabled}
+          />
+        );
+      }
+
+      case 'translation': {
+        const { exercise } = item;
+        return (
+          <TranslationExercise
+            exercise={exercise}
+            onSubmit={(userTranslation, timeSpentMs, hintsUsed) =>
+              submit(async () => {
+                const result = await api.post<NonNullable<TranslationProps['feedback']>>(
+                  '/learning/translation/submit',
+                  {
+                    exerciseId: exercise.exerciseId,
+                    userTranslation,
+                    acceptableTranslations: exercise.acceptableTranslations,
+                    meaningId: exercise.meaningId,
+                    timeSpentMs,
+                    targetLanguage: exercise.targetLanguage,
+                    hintsUsed,
+                  }
+                );
+                setTranslationFeedback(result);
+                return result.isCorrect;
+              })
+            }
+            feedback={translationFeedback}
+            disabled={inputDisabled}
+          />
+        );
+      }
+
+      case 'production': {
+        const { exercise } = item;
+        return (
+          <ProductionExercise
+            exercise={exercise}
+            onSubmit={(selfRating, recordingDuration, attemptNumber, timeSpentMs) =>
+              submit(async () => {
+                const result = await api.post<{ success: boolean; qualityRating: number }>(
+                  '/learning/production/assess',
+                  {
+                    meaningId: exercise.meaningId,
+                    selfRating,
+                    recordingDuration,
+                    attemptNumber,
+                    timeSpentMs,
+                  }
+                );
+                // Quality 3+ is considered correct in SM-2
+                return result.qualityRating >= 3;
+              })
+            }
+            disabled={inputDisabled}
+          />
+        );
+      }
+
+      case 'reading': {
+        const { exercise } = item;
+        return (
+          <ReadingComprehension
+            passage={exercise}
+            onSubmit={(answers, timeSpentMs) =>
+              submit(async () => {
+                const result = await api.post<NonNullable<ReadingProps['result']>>(
+                  '/learning/reading/submit',
+                  { passageId: exercise.id, answers, timeSpentMs }
+                );
+                setReadingResult(result);
+                return result.qualityRating >= 3;
+              })
+            }
+            result={readingResult}
+            disabled={inputDisabled}
+          />
+        );
+      }
+
+      case 'grammar': {
+        const { exercise } = item;
+        const validate = (answer: string | string[]) =>
+          submit(async () => {
+            const result = await api.post<GrammarValidation>(
+              `/learning/grammar/exercises/${exercise.exerciseId}/validate`,
+              { answer }
+            );
+            setGrammarFeedback(result);
+            return result.isCorrect;
+          });
+
+        switch (exercise.exerciseType) {
+          case 'multiple_choice':
+            return (
+              <MultipleChoiceExercise
+                exercise={exercise}
+                onSubmit={validate}
+                disabled={inputDisabled}
+              />
+            );
+          case 'reorder':
+            return (
+              <ReorderExercise exercise={exercise} onSubmit={validate} disabled={inputDisabled} />
+            );
+          default:
+            return (
+              <FillBlankExercise exercise={exercise} onSubmit={validate} disabled={inputDisabled} />
+            );
+        }
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {renderExercise()}
+
+      {grammarFeedback && (
+        <div className={`alert ${grammarFeedback.isCorrect ? 'alert-success' : 'alert-error'}`}>
+          <span>{grammarFeedback.feedback}</span>
+        </div>
+      )}
+
+      {submitMutation.isError && (
+        <div className="text-red-600 text-center">Failed to submit your answer.</div>
+      )}
+
+      {answered && (
+        <button
+          onClick={() => onComplete(isCorrect)}
+          disabled={disabled}
+          className="w-full py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+        >
+          Next
+        </button>
+      )}
+    </div>
+  );
+}
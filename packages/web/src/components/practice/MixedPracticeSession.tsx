@@ -2,9 +2,10 @@ import { useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import api from '../../api/client';
 import { FlashCard } from './FlashCard';
+import { MixedExerciseItem as MixedExercise, type MixedModeItem } from './MixedExerciseItem';
 
-type MixingStrategy = 'equal' | 'weighted' | 'random';
-type PracticeType = 'recall' | 'recognition';
+type MixingStrategy = 'equal' | 'weighted' | 'random' | 'adaptive';
+type PracticeType = 'recall' | 'recognition' | MixedModeItem['practiceType'];
 
 interface MixedItemContent {
   text: string;
@@ -13,15 +14,27 @@ interface MixedItemContent {
   level: string;
 }
 
-interface MixedExerciseItem {
+interface MixedItemBase {
   id: string;
   language: string;
-  practiceType: PracticeType;
-  meaningId: string;
   content: MixedItemContent;
   estimatedDifficulty: number;
+  contrastWith?: string; // Id of the confusable item in another language
 }
 
+interface FlashCardItem extends MixedItemBase {
+  practiceType: 'recall' | 'recognition';
+  meaningId: string;
+  exercise: null;
+}
+
+type MixedExerciseItem =
+  | FlashCardItem
+  | (MixedItemBase & MixedModeItem & { meaningId: string | null });
+
+const isFlashCardItem = (item: MixedExerciseItem): item is FlashCardItem =>
+  item.practiceType === 'recall' || item.practiceType === 'recognition';
+
 interface MixedSession {
   sessionId: string;
   languages: string[];
@@ -37,15 +50,37 @@ interface LanguagePerformance {
   accuracy: number;
 }
 
+interface ModePerformance {
+  practiceType: string;
+  itemsAttempted: number;
+  correctAnswers: number;
+  averageTime: number;
+  accuracy: number;
+}
+
 interface MixedSessionSummary {
   sessionId: string;
   totalItems: number;
   totalCorrect: number;
   totalTime: number;
   languageBreakdown: LanguagePerformance[];
+  modeBreakdown: ModePerformance[];
   switchingEfficiency: number;
 }
 
+const PRACTICE_TYPE_NAMES: Record<PracticeType, string> = {
+  recall: 'Recall',
+  recognition: 'Recognition',
+  cloze: 'Cloze',
+  dictation: 'Dictation',
+  translation: 'Translation',
+  production: 'Speaking',
+  reading: 'Reading',
+  grammar: 'Grammar',
+};
+
+const PRACTICE_TYPES = Object.keys(PRACTICE_TYPE_NAMES) as PracticeType[];
+
 const LANGUAGE_COLORS: Record<string, string> = {
   EN: 'bg-blue-100 text-blue-800 border-blue-300',
   RU: 'bg-red-100 text-red-800 border-red-300',
@@ -135,12 +170,24 @@ export function MixedPracticeSession() {
     startMutation.mutate();
   };
 
-  const handleAssessment = (quality: number) => {
-    const currentItem = items[currentIndex];
-    const timeSpent = Math.floor((Date.now() - startTime) / 1000);
+  const togglePracticeType = (practiceType: PracticeType) => {
+    setConfig((prev) => ({
+      ...prev,
+      practiceTypes: prev.practiceTypes.includes(practiceType)
+        ? prev.practiceTypes.filter((type) => type !== practiceType)
+        : [...prev.practiceTypes, practiceType],
+    }));
+  };
 
+  const handleAssessment = (quality: number) => {
     // Quality 3+ is considered correct in SM-2
-    const isCorrect = quality >= 3;
+    handleResult(quality >= 3);
+  };
+
+  const handleResult = (isCorrect: boolean) => {
+    const currentItem = items[currentIndex];
+    // Capped at the 10 minutes the API accepts, reading passages can take long
+    const timeSpent = Math.min(600, Math.floor((Date.now() - startTime) / 1000));
 
     submitMutation.mutate(
       {
@@ -186,30 +233,54 @@ export function MixedPracticeSession() {
           </p>
 
           <div className="space-y-6">
-            {/* Mixing Strategy */}
+            {/* Practice Modes */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Mixing Strategy
-              </label>
-              <div className="flex gap-3">
-                {(['equal', 'weighted', 'random'] as MixingStrategy[]).map((strategy) => (
+              <label className="block text-sm font-medium text-gray-700 mb-2">Practice Modes</label>
+              <div className="flex flex-wrap gap-2">
+                {PRACTICE_TYPES.map((practiceType) => (
                   <button
-                    key={strategy}
-                    onClick={() => setConfig((prev) => ({ ...prev, mixingStrategy: strategy }))}
-                    className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                      config.mixingStrategy === strategy
+                    key={practiceType}
+                    onClick={() => togglePracticeType(practiceType)}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                      config.practiceTypes.includes(practiceType)
                         ? 'bg-blue-600 text-white'
                         : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
                     }`}
                   >
-                    {strategy.charAt(0).toUpperCase() + strategy.slice(1)}
+                    {PRACTICE_TYPE_NAMES[practiceType]}
                   </button>
                 ))}
               </div>
+            </div>
+
+            {/* Mixing Strategy */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Mixing Strategy
+              </label>
+              <div className="flex gap-3">
+                {(['equal', 'weighted', 'random', 'adaptive'] as MixingStrategy[]).map(
+                  (strategy) => (
+                    <button
+                      key={strategy}
+                      onClick={() => setConfig((prev) => ({ ...prev, mixingStrategy: strategy }))}
+                      className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                        config.mixingStrategy === strategy
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                      }`}
+                    >
+                      {strategy.charAt(0).toUpperCase() + strategy.slice(1)}
+                    </button>
+                  )
+                )}
+              </div>
               <p className="text-sm text-gray-500 mt-2">
                 {config.mixingStrategy === 'equal' && 'Equal items from each language'}
                 {config.mixingStrategy === 'weighted' && 'More items from weaker languages'}
                 {config.mixingStrategy === 'random' && 'Random selection across all languages'}
+                {config.mixingStrategy === 'adaptive' &&
+                  'Focus on your weak spots and practice easily confused words side by side'}
               </p>
             </div>
 
@@ -234,7 +305,7 @@ export function MixedPracticeSession() {
             {/* Start Button */}
             <button
               onClick={handleStartSession}
-              disabled={startMutation.isPending}
+              disabled={startMutation.isPending || config.practiceTypes.length === 0}
               className="w-full py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
             >
               {startMutation.isPending ? 'Starting...' : 'Start Mixed Session'}
@@ -335,6 +406,49 @@ export function MixedPracticeSession() {
           </div>
         </div>
 
+        {/* Per-Mode Breakdown */}
+        <div className="card p-6">
+          <h3 className="text-xl font-bold mb-4">Performance by Mode</h3>
+          <div className="space-y-3">
+            {summary.modeBreakdown.map((mode) => (
+              <div
+                key={mode.practiceType}
+                className="border-2 border-gray-200 rounded-lg p-4 flex items-center justify-between"
+              >
+                <div className="flex items-center gap-4">
+                  <span className="font-semibold">
+                    {PRACTICE_TYPE_NAMES[mode.practiceType as PracticeType] || mode.practiceType}
+                  </span>
+                  <span className="text-gray-600">{mode.itemsAttempted} items</span>
+                </div>
+                <div className="flex items-center gap-6">
+                  <div className="text-center">
+                    <div className="text-sm text-gray-500">Correct</div>
+                    <div className="font-semibold">
+                      {mode.correctAnswers}/{mode.itemsAttempted}
+                    </div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-sm text-gray-500">Avg Time</div>
+                    <div className="font-semibold">{mode.averageTime.toFixed(1)}s</div>
+                  </div>
+                  <div
+                    className={`text-2xl font-bold ${
+                      mode.accuracy >= 0.8
+                        ? 'text-green-600'
+                        : mode.accuracy >= 0.6
+                          ? 'text-yellow-600'
+                          : 'text-red-600'
+                    }`}
+                  >
+                    {Math.round(mode.accuracy * 100)}%
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* Switching Efficiency Insight */}
         <div
           className={`rounded-lg p-6 border-l-4 ${
@@ -377,15 +491,6 @@ export function MixedPracticeSession() {
   const languageSwitched = previousItem && previousItem.language !== currentItem.language;
   const progress = ((currentIndex + 1) / items.length) * 100;
 
-  // Convert item to FlashCard format
-  const flashCardData = {
-    meaningId: currentItem.meaningId,
-    word: currentItem.content.text,
-    definition: currentItem.content.definition || 'No definition available',
-    audioUrl: currentItem.content.audioUrl,
-    cefrLevel: currentItem.content.level,
-  };
-
   return (
     <div className="max-w-3xl mx-auto p-6 space-y-6">
       {/* Progress Bar */}
@@ -439,24 +544,47 @@ export function MixedPracticeSession() {
               Language Switch!
             </span>
           )}
+          {currentItem.contrastWith && (
+            <span className="px-3 py-1 bg-purple-100 text-purple-800 rounded text-sm font-medium">
+              Easily Confused
+            </span>
+          )}
         </div>
         <div className="text-sm text-gray-600">
-          Difficulty: {'★'.repeat(currentItem.estimatedDifficulty)}
+          {PRACTICE_TYPE_NAMES[currentItem.practiceType]} · Difficulty:{' '}
+          {'★'.repeat(currentItem.estimatedDifficulty)}
           {'☆'.repeat(5 - currentItem.estimatedDifficulty)}
         </div>
       </div>
 
-      {/* Flash Card */}
-      <FlashCard
-        card={flashCardData}
-        onAssessment={handleAssessment}
-        disabled={submitMutation.isPending}
-      />
+      {isFlashCardItem(currentItem) ? (
+        <>
+          {/* Flash Card */}
+          <FlashCard
+            card={{
+              meaningId: currentItem.meaningId,
+              word: currentItem.content.text,
+              definition: currentItem.content.definition || 'No definition available',
+              audioUrl: currentItem.content.audioUrl,
+              cefrLevel: currentItem.content.level,
+            }}
+            onAssessment={handleAssessment}
+            disabled={submitMutation.isPending}
+          />
 
-      {/* Keyboard Hints */}
-      <div className="text-center text-sm text-gray-500">
-        <p>Keyboard shortcuts: Space to flip | 1-4 for ratings</p>
-      </div>
+          {/* Keyboard Hints */}
+          <div className="text-center text-sm text-gray-500">
+            <p>Keyboard shortcuts: Space to flip | 1-4 for ratings</p>
+          </div>
+        </>
+      ) : (
+        <MixedExercise
+          key={currentItem.id}
+          item={currentItem}
+          onComplete={handleResult}
+          disabled={submitMutation.isPending}
+        />
+      )}
     </div>
   );
 }
@@ -2,6 +2,7 @@ import { useState, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import api from '../../api/client';
 import { ProductionExercise } from './ProductionExercise';
+import { ProductionWritingExercise, type ProductionGrade } from './ProductionWritingExercise';
 
 type SelfRating = 'again' | 'hard' | 'good' | 'easy';
 
@@ -29,6 +30,13 @@ interface ProductionStats {
   avgQuality: number | null;
 }
 
+type ProductionMode = 'speak' | 'write';
+
+interface ProductionAnswerResult extends ProductionGrade {
+  autoQualityRating: number;
+  selfRating: SelfRating | null;
+}
+
 interface ProductionPracticeSessionProps {
   language: string;
 }
@@ -40,6 +48,8 @@ export function ProductionPracticeSession({ language }: ProductionPracticeSessio
   const [incorrectCount, setIncorrectCount] = useState(0);
   const [showFeedback, setShowFeedback] = useState(false);
   const [lastRating, setLastRating] = useState<SelfRating | null>(null);
+  const [mode, setMode] = useState<ProductionMode>('speak');
+  const [writtenResult, setWrittenResult] = useState<ProductionAnswerResult | null>(null);
   const totalTimeRef = useRef<number>(0);
 
   const { data: response, isLoading } = useQuery<ProductionExercisesResponse>({
@@ -79,6 +89,30 @@ export function ProductionPracticeSession({ language }: ProductionPracticeSessio
     },
   });
 
+  const submitAnswerMutation = useMutation({
+    mutationFn: async (payload: {
+      meaningId: string;
+      language: string;
+      answer: string;
+      timeSpentMs: number;
+      hintsUsed: number;
+      selfRating?: SelfRating;
+    }) => {
+      return api.post<ProductionAnswerResult>('/learning/production/submit', payload);
+    },
+    onSuccess: (result, variables) => {
+      totalTimeRef.current += variables.timeSpentMs;
+      setWrittenResult(result);
+      setShowFeedback(true);
+
+      if (result.isCorrect) {
+        setCorrectCount((prev) => prev + 1);
+      } else {
+        setIncorrectCount((prev) => prev + 1);
+      }
+    },
+  });
+
   const { data: statsResponse } = useQuery<{ stats: ProductionStats }>({
     queryKey: ['production-stats', language],
     queryFn: async () => {
@@ -183,6 +217,7 @@ export function ProductionPracticeSession({ language }: ProductionPracticeSessio
             setIncorrectCount(0);
             setShowFeedback(false);
             setLastRating(null);
+            setWrittenResult(null);
             totalTimeRef.current = 0;
             void queryClient.invalidateQueries({ queryKey: ['production-exercises'] });
           }}
@@ -211,10 +246,34 @@ export function ProductionPracticeSession({ language }: ProductionPracticeSessio
     });
   };
 
+  const handleGradeAnswer = (answer: string) =>
+    api.post<ProductionGrade>('/learning/production/grade', {
+      meaningId: currentExercise.meaningId,
+      language,
+      answer,
+    });
+
+  const handleSubmitAnswer = (
+    answer: string,
+    timeSpentMs: number,
+    hintsUsed: number,
+    selfRating: SelfRating | null
+  ) => {
+    submitAnswerMutation.mutate({
+      meaningId: currentExercise.meaningId,
+      language,
+      answer,
+      timeSpentMs,
+      hintsUsed,
+      ...(selfRating ? { selfRating } : {}),
+    });
+  };
+
   const handleNext = () => {
     setCurrentExerciseIndex((prev) => prev + 1);
     setShowFeedback(false);
     setLastRating(null);
+    setWrittenResult(null);
   };
 
   const progressPercent = ((currentExerciseIndex + 1) / exercises.length) * 100;
@@ -246,12 +305,41 @@ export function ProductionPracticeSession({ language }: ProductionPracticeSessio
         </div>
       </div>
 
+      {/* Mode */}
+      <div role="tablist" className="tabs tabs-boxed mb-4 justify-center">
+        <button
+          role="tab"
+          className={`tab ${mode === 'speak' ? 'tab-active' : ''}`}
+          onClick={() => setMode('speak')}
+          disabled={showFeedback}
+        >
+          Speak
+        </button>
+        <button
+          role="tab"
+          className={`tab ${mode === 'write' ? 'tab-active' : ''}`}
+          onClick={() => setMode('write')}
+          disabled={showFeedback}
+        >
+          Write
+        </button>
+      </div>
+
       {/* Exercise */}
-      <ProductionExercise
-        exercise={currentExercise}
-        onSubmit={handleSubmit}
-        disabled={submitMutation.isPending || showFeedback}
-      />
+      {mode === 'speak' ? (
+        <ProductionExercise
+          exercise={currentExercise}
+          onSubmit={handleSubmit}
+          disabled={submitMutation.isPending || showFeedback}
+        />
+      ) : (
+        <ProductionWritingExercise
+          exercise={currentExercise}
+          onGrade={handleGradeAnswer}
+          onSubmit={handleSubmitAnswer}
+          disabled={submitAnswerMutation.isPending || showFeedback}
+        />
+      )}
 
       {/* Feedback and Next button */}
       {showFeedback && lastRating && (
@@ -265,6 +353,21 @@ export function ProductionPracticeSession({ language }: ProductionPracticeSessio
         </div>
       )}
 
+      {showFeedback && writtenResult && (
+        <div className="text-center mt-6 space-y-4">
+          <div
+            className={`text-lg font-semibold ${writtenResult.isCorrect ? 'text-green-600' : 'text-orange-600'}`}
+          >
+            {writtenResult.selfRating
+              ? `Recorded your rating: ${writtenResult.selfRating}`
+              : writtenResult.feedback}
+          </div>
+          <button onClick={handleNext} className="btn btn-primary">
+            {currentExerciseIndex < exercises.length - 1 ? 'Next Exercise' : 'See Results'}
+          </button>
+        </div>
+      )}
+
       {/* Instructions */}
       <div className="mt-8 p-4 bg-blue-50 rounded-lg text-sm text-gray-700">
         <strong>Instructions:</strong>
@@ -0,0 +1,208 @@
+import { useState, useEffect, useRef } from 'react';
+import { useHintLadder } from '../../hooks/useHintLadder';
+import { HintLadder, HintLadderButton } from './HintLadder';
+
+type SelfRating = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ProductionGrade {
+  score: number;
+  qualityRating: number;
+  isCorrect: boolean;
+  matchedAnswer: string | null;
+  lemmaOverlap: number;
+  keywordCoverage: number;
+  missingKeywords: string[];
+  ruleChecks: Array<{ ruleId: string; title: string; passed: boolean }>;
+  diff: Array<{
+    type: 'correct' | 'substitution' | 'insertion' | 'deletion';
+    expected?: string;
+    actual?: string;
+    position: number;
+  }>;
+  feedback: string;
+}
+
+interface ProductionWritingExerciseProps {
+  exercise: {
+    exerciseId: string;
+    text: string;
+    translation: string | null;
+    meaningId: string;
+    cefrLevel: string;
+    language: string;
+  };
+  onGrade: (answer: string) => Promise<ProductionGrade>;
+  onSubmit: (
+    answer: string,
+    timeSpentMs: number,
+    hintsUsed: number,
+    selfRating: SelfRating | null
+  ) => void;
+  disabled: boolean;
+}
+
+const DISPUTE_RATINGS: Array<{ rating: SelfRating; label: string }> = [
+  { rating: 'again', label: 'Again' },
+  { rating: 'hard', label: 'Hard' },
+  { rating: 'good', label: 'Good' },
+  { rating: 'easy', label: 'Easy' },
+];
+
+/**
+ * Write the phrase from its translation; the answer is graded
+ * automatically and the learner may dispute the grade with a self-rating
+ */
+export function ProductionWritingExercise({
+  exercise,
+  onGrade,
+  onSubmit,
+  disabled,
+}: ProductionWritingExerciseProps) {
+  const [answer, setAnswer] = useState('');
+  const [grade, setGrade] = useState<ProductionGrade | null>(null);
+  const [isGrading, setIsGrading] = useState(false);
+  const startTimeRef = useRef<number>(Date.now());
+  const hintLadder = useHintLadder({
+    exerciseId: exercise.exerciseId,
+    exerciseType: 'production',
+    language: exercise.language,
+    answer: exercise.text,
+    meaningId: exercise.meaningId,
+  });
+
+  useEffect(() => {
+    setAnswer('');
+    setGrade(null);
+    startTimeRef.current = Date.now();
+  }, [exercise.exerciseId]);
+
+  const handleCheck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!answer.trim() || disabled || isGrading) return;
+
+    setIsGrading(true);
+    try {
+      setGrade(await onGrade(answer.trim()));
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
+  const handleConfirm = (selfRating: SelfRating | null) => {
+    const timeSpent = Date.now() - startTimeRef.current;
+    onSubmit(answer.trim(), timeSpent, hintLadder.hintsUsed, selfRating);
+  };
+
+  const diffClass = (type: ProductionGrade['diff'][number]['type']) => {
+    switch (type) {
+      case 'correct':
+        return 'text-green-700';
+      case 'substitution':
+        return 'text-orange-600 underline';
+      case 'insertion':
+        return 'text-red-600 line-through';
+      case 'deletion':
+        return 'text-gray-400 italic';
+    }
+  };
+
+  return (
+    <div className="production-writing-exercise card p-8">
+      <div className="flex items-center gap-3 mb-6">
+        <span className="badge badge-outline">{exercise.cefrLevel}</span>
+        <span className="text-sm font-medium text-gray-600">Write it</span>
+      </div>
+
+      <div className="bg-gradient-to-r from-purple-50 to-pink-50 p-6 rounded-lg mb-6">
+        <div className="text-xs text-gray-500 uppercase tracking-wide mb-2">
+          Say this in writing:
+        </div>
+        <p className="text-2xl font-medium text-gray-800">
+          {exercise.translation ?? 'Write the phrase you practised'}
+        </p>
+      </div>
+
+      {!grade && (
+        <form onSubmit={(e) => void handleCheck(e)} className="space-y-4">
+          <textarea
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            className="textarea textarea-bordered w-full text-lg h-24"
+            placeholder="Type your answer..."
+            disabled={disabled}
+            autoFocus
+          />
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              className="btn btn-primary flex-1"
+              disabled={!answer.trim() || disabled || isGrading}
+            >
+              {isGrading ? <span className="loading loading-spinner loading-sm"></span> : 'Check'}
+            </button>
+            <HintLadderButton
+              hintsUsed={hintLadder.hintsUsed}
+              maxLevel={hintLadder.maxLevel}
+              isLoading={hintLadder.isLoading}
+              canRequestMore={hintLadder.canRequestMore}
+              onRequestHint={() => void hintLadder.requestHint()}
+              disabled={disabled}
+            />
+          </div>
+          <HintLadder hints={hintLadder.hints} />
+        </form>
+      )}
+
+      {grade && (
+        <div className="space-y-4">
+          <div className={`alert ${grade.isCorrect ? 'alert-success' : 'alert-warning'}`}>
+            <div className="w-full">
+              <div className="flex items-center justify-between">
+                <div className="font-semibold">{grade.feedback}</div>
+                <div className="text-sm font-medium">{Math.round(grade.score * 100)}%</div>
+              </div>
+              <div className="text-xs mt-1 opacity-80">
+                Words: {Math.round(grade.lemmaOverlap * 100)}% · Keywords:{' '}
+                {Math.round(grade.keywordCoverage * 100)}%
+                {grade.ruleChecks.length > 0 &&
+                  ` · Grammar: ${grade.ruleChecks.filter((check) => check.passed).length}/${grade.ruleChecks.length}`}
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-gray-50 rounded-lg p-4">
+            <div className="text-sm text-gray-600 mb-1">Compared with: {grade.matchedAnswer}</div>
+            <div className="text-lg flex flex-wrap gap-2">
+              {grade.diff.map((word, idx) => (
+                <span key={idx} className={diffClass(word.type)}>
+                  {word.type === 'deletion' ? word.expected : word.actual}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => handleConfirm(null)}
+              className="btn btn-primary"
+              disabled={disabled}
+            >
+              Accept grade
+            </button>
+            <span className="text-sm text-gray-500 ml-2">or rate it yourself:</span>
+            {DISPUTE_RATINGS.map(({ rating, label }) => (
+              <button
+                key={rating}
+                onClick={() => handleConfirm(rating)}
+                className="btn btn-sm btn-outline"
+                disabled={disabled}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
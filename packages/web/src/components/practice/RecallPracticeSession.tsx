@@ -1,7 +1,9 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import api from '../../api/client';
+import { useHintLadder } from '../../hooks/useHintLadder';
 import { FlashCard } from './FlashCard';
+import { HintLadder, HintLadderButton } from './HintLadder';
 
 interface RecallCard {
   meaningId: string;
@@ -23,6 +25,10 @@ interface RecallStats {
   learned: number;
 }
 
+interface UndoResponse {
+  count: number;
+}
+
 interface RecallPracticeSessionProps {
   language: string;
 }
@@ -31,6 +37,8 @@ export function RecallPracticeSession({ language }: RecallPracticeSessionProps)
   const queryClient = useQueryClient();
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
   const [reviewedCards, setReviewedCards] = useState<string[]>([]);
+  // Groups this run's reviews in the review log so they can be undone
+  const [sessionId, setSessionId] = useState(() => crypto.randomUUID());
 
   const { data: response, isLoading } = useQuery<RecallDueResponse>({
     queryKey: ['recall-due', language],
@@ -41,12 +49,22 @@ export function RecallPracticeSession({ language }: RecallPracticeSessionProps)
 
   const cards = response?.words ?? [];
 
+  const hintLadder = useHintLadder({
+    exerciseId: `${currentCardIndex}:${cards[currentCardIndex]?.meaningId ?? ''}`,
+    exerciseType: 'recall',
+    language,
+    answer: cards[currentCardIndex]?.word,
+    meaningId: cards[currentCardIndex]?.meaningId,
+  });
+
   const submitMutation = useMutation({
-    mutationFn: async (payload: { meaningId: string; quality: number }) => {
+    mutationFn: async (payload: { meaningId: string; quality: number; hintsUsed: number }) => {
       return api.post('/learning/recall/review', {
         meaningId: payload.meaningId,
         quality: payload.quality,
+        hintsUsed: payload.hintsUsed,
         language,
+        sessionId,
       });
     },
     onSuccess: (_result, variables) => {
@@ -59,6 +77,19 @@ export function RecallPracticeSession({ language }: RecallPracticeSessionProps)
     },
   });
 
+  const undoMutation = useMutation({
+    mutationFn: async () => {
+      return api.post<UndoResponse>('/learning/srs/undo', { sessionId, count: 1 });
+    },
+    onSuccess: (result) => {
+      if (result.count === 0) return;
+
+      setReviewedCards((prev) => prev.slice(0, -1));
+      setCurrentCardIndex((prev) => Math.max(0, prev - 1));
+      void queryClient.invalidateQueries({ queryKey: ['recall-stats'] });
+    },
+  });
+
   const { data: statsResponse } = useQuery<{ stats: RecallStats }>({
     queryKey: ['recall-stats', language],
     queryFn: async () => {
@@ -105,10 +136,21 @@ export function RecallPracticeSession({ language }: RecallPracticeSessionProps)
           </div>
         )}
 
+        {reviewedCards.length > 0 && (
+          <button
+            onClick={() => undoMutation.mutate()}
+            className="btn btn-ghost mr-2"
+            disabled={undoMutation.isPending}
+          >
+            Undo Last Answer
+          </button>
+        )}
+
         <button
           onClick={() => {
             setCurrentCardIndex(0);
             setReviewedCards([]);
+            setSessionId(crypto.randomUUID());
             void queryClient.invalidateQueries({ queryKey: ['recall-due'] });
           }}
           className="btn btn-primary"
@@ -125,6 +167,7 @@ export function RecallPracticeSession({ language }: RecallPracticeSessionProps)
     submitMutation.mutate({
       meaningId: currentCard.meaningId,
       quality,
+      hintsUsed: hintLadder.hintsUsed,
     });
   };
 
@@ -150,12 +193,29 @@ export function RecallPracticeSession({ language }: RecallPracticeSessionProps)
       <FlashCard
         card={currentCard}
         onAssessment={handleAssessment}
-        disabled={submitMutation.isPending}
+        disabled={submitMutation.isPending || undoMutation.isPending}
+        onUndo={() => undoMutation.mutate()}
+        canUndo={reviewedCards.length > 0}
       />
 
+      {/* Hints before flipping lower the rating of the review */}
+      <div className="mt-4 space-y-3">
+        <div className="text-center">
+          <HintLadderButton
+            hintsUsed={hintLadder.hintsUsed}
+            maxLevel={hintLadder.maxLevel}
+            isLoading={hintLadder.isLoading}
+            canRequestMore={hintLadder.canRequestMore}
+            onRequestHint={() => void hintLadder.requestHint()}
+            disabled={submitMutation.isPending}
+          />
+        </div>
+        <HintLadder hints={hintLadder.hints} />
+      </div>
+
       {/* Keyboard Hints */}
       <div className="text-center mt-4 text-sm text-gray-500">
-        <p>Keyboard shortcuts: Space to flip | 1-4 for ratings</p>
+        <p>Keyboard shortcuts: Space to flip | 1-4 for ratings | U to undo</p>
       </div>
     </div>
   );
@@ -23,11 +23,13 @@ interface QueueResponse {
   total: number;
   items: QueueItem[];
   nextReviewAt: string | null;
+  dailyLimitReached: boolean;
 }
 
 interface StartSessionResponse {
   sessionId: string;
   itemsInQueue: number;
+  itemsByType: Record<string, number>;
   startedAt: string;
 }
 
@@ -43,6 +45,10 @@ interface SessionStats {
   completedAt: string | null;
 }
 
+interface UndoResponse {
+  count: number;
+}
+
 interface ReviewPracticeSessionProps {
   language: string;
 }
@@ -55,6 +61,8 @@ export function ReviewPracticeSession({ language }: ReviewPracticeSessionProps)
   const [currentIndex, setCurrentIndex] = useState(0);
   const [showAnswer, setShowAnswer] = useState(false);
   const [sessionStats, setSessionStats] = useState({ itemsReviewed: 0, correctCount: 0 });
+  // Correctness of each submitted review, newest last, so undo can roll back the stats
+  const [answerLog, setAnswerLog] = useState<boolean[]>([]);
   const [finalStats, setFinalStats] = useState<SessionStats | null>(null);
   const cardStartTimeRef = useRef<number>(Date.now());
 
@@ -105,6 +113,29 @@ export function ReviewPracticeSession({ language }: ReviewPracticeSessionProps)
         itemsReviewed: prev.itemsReviewed + 1,
         correctCount: prev.correctCount + (variables.wasCorrect ? 1 : 0),
       }));
+      setAnswerLog((prev) => [...prev, variables.wasCorrect]);
+    },
+  });
+
+  // Undo the last review of this session
+  const undoMutation = useMutation({
+    mutationFn: async () => {
+      if (!sessionId) throw new Error('No session');
+      return api.post<UndoResponse>('/learning/srs/undo', { sessionId, count: 1 });
+    },
+    onSuccess: (result) => {
+      if (result.count === 0 || answerLog.length === 0) return;
+
+      const wasCorrect = answerLog[answerLog.length - 1];
+      setAnswerLog((prev) => prev.slice(0, -1));
+      setSessionStats((prev) => ({
+        itemsReviewed: Math.max(0, prev.itemsReviewed - 1),
+        correctCount: Math.max(0, prev.correctCount - (wasCorrect ? 1 : 0)),
+      }));
+      // Go back to the undone card with its answer shown so it can be re-rated
+      setCurrentIndex((prev) => Math.max(0, prev - 1));
+      setShowAnswer(true);
+      cardStartTimeRef.current = Date.now();
     },
   });
 
@@ -177,6 +208,24 @@ export function ReviewPracticeSession({ language }: ReviewPracticeSessionProps)
     return <div className="text-center py-8">Loading review session...</div>;
   }
 
+  // Daily limit reached with items still due
+  if ((!items || items.length === 0) && queueResponse?.dailyLimitReached) {
+    return (
+      <div className="card p-8 text-center max-w-2xl mx-auto">
+        <h3 className="text-2xl font-bold text-blue-600 mb-4">Daily Limit Reached</h3>
+        <p className="text-gray-700 mb-4">
+          You have finished today&apos;s reviews for {getLanguageName(language)}. Remaining items
+          will be prioritized tomorrow, most overdue first.
+        </p>
+        {queueResponse.nextReviewAt && (
+          <p className="text-sm text-gray-600">
+            Next review: {new Date(queueResponse.nextReviewAt).toLocaleDateString()}
+          </p>
+        )}
+      </div>
+    );
+  }
+
   // No items due
   if (!items || items.length === 0) {
     return (
@@ -234,6 +283,7 @@ export function ReviewPracticeSession({ language }: ReviewPracticeSessionProps)
             setCurrentIndex(0);
             setShowAnswer(false);
             setSessionStats({ itemsReviewed: 0, correctCount: 0 });
+            setAnswerLog([]);
             setFinalStats(null);
             void queryClient.invalidateQueries({ queryKey: ['review-queue'] });
             startSessionMutation.mutate();
@@ -310,7 +360,7 @@ export function ReviewPracticeSession({ language }: ReviewPracticeSessionProps)
           <button
             onClick={handleShowAnswer}
             className="btn btn-primary px-8 py-3 text-lg"
-            disabled={submitMutation.isPending}
+            disabled={submitMutation.isPending || undoMutation.isPending}
           >
             Show Answer
           </button>
@@ -320,7 +370,7 @@ export function ReviewPracticeSession({ language }: ReviewPracticeSessionProps)
           <button
             onClick={() => handleRate('again')}
             className="btn bg-red-500 hover:bg-red-600 text-white py-3"
-            disabled={submitMutation.isPending}
+            disabled={submitMutation.isPending || undoMutation.isPending}
           >
             <div className="text-sm font-semibold">Again</div>
             <div className="text-xs opacity-75">1 day</div>
@@ -328,7 +378,7 @@ export function ReviewPracticeSession({ language }: ReviewPracticeSessionProps)
           <button
             onClick={() => handleRate('hard')}
             className="btn bg-orange-500 hover:bg-orange-600 text-white py-3"
-            disabled={submitMutation.isPending}
+            disabled={submitMutation.isPending || undoMutation.isPending}
           >
             <div className="text-sm font-semibold">Hard</div>
             <div className="text-xs opacity-75">
@@ -338,7 +388,7 @@ export function ReviewPracticeSession({ language }: ReviewPracticeSessionProps)
           <button
             onClick={() => handleRate('good')}
             className="btn bg-green-500 hover:bg-green-600 text-white py-3"
-            disabled={submitMutation.isPending}
+            disabled={submitMutation.isPending || undoMutation.isPending}
           >
             <div className="text-sm font-semibold">Good</div>
             <div className="text-xs opacity-75">
@@ -348,7 +398,7 @@ export function ReviewPracticeSession({ language }: ReviewPracticeSessionProps)
           <button
             onClick={() => handleRate('easy')}
             className="btn bg-blue-500 hover:bg-blue-600 text-white py-3"
-            disabled={submitMutation.isPending}
+            disabled={submitMutation.isPending || undoMutation.isPending}
           >
             <div className="text-sm font-semibold">Easy</div>
             <div className="text-xs opacity-75">
@@ -358,8 +408,17 @@ export function ReviewPracticeSession({ language }: ReviewPracticeSessionProps)
         </div>
       )}
 
-      {/* End session button */}
-      <div className="text-center mt-6">
+      {/* Undo and end session buttons */}
+      <div className="flex justify-center gap-6 mt-6">
+        {answerLog.length > 0 && (
+          <button
+            onClick={() => undoMutation.mutate()}
+            className="text-gray-500 hover:text-gray-700 text-sm"
+            disabled={undoMutation.isPending || submitMutation.isPending}
+          >
+            ↶ Undo Last Rating
+          </button>
+        )}
         <button
           onClick={handleEndSession}
           className="text-gray-500 hover:text-gray-700 text-sm"
@@ -0,0 +1,305 @@
+import { useState, useEffect, useRef } from 'react';
+
+type RecordingState = 'idle' | 'recording' | 'recorded';
+
+const MAX_RECORDING_SECONDS = 15;
+
+interface SpeakingExerciseProps {
+  exercise: {
+    exerciseId: string;
+    text: string;
+    audioUrl: string | null;
+    romanization: string | null;
+    translation: string | null;
+    meaningId: string;
+    cefrLevel: string;
+    language: string;
+  };
+  onSubmit: (recording: Blob, timeSpentMs: number) => void;
+  feedback: {
+    isCorrect: boolean;
+    transcript: string;
+    characterAccuracy: number;
+    wordAccuracy: number;
+    diff: Array<{
+      type: 'correct' | 'substitution' | 'insertion' | 'deletion';
+      expected?: string;
+      actual?: string;
+      position: number;
+    }>;
+    targetText: string;
+    qualityRating: number;
+  } | null;
+  disabled: boolean;
+}
+
+export function SpeakingExercise({
+  exercise,
+  onSubmit,
+  feedback,
+  disabled,
+}: SpeakingExerciseProps) {
+  const [recordingState, setRecordingState] = useState<RecordingState>('idle');
+  const [recordingDuration, setRecordingDuration] = useState(0);
+  const [recording, setRecording] = useState<Blob | null>(null);
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+
+  const startTimeRef = useRef<number>(Date.now());
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const audioChunksRef = useRef<Blob[]>([]);
+  const recordingTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  // Reset state when exercise changes
+  useEffect(() => {
+    setRecordingState('idle');
+    setRecordingDuration(0);
+    setRecording(null);
+    setRecordingUrl(null);
+    startTimeRef.current = Date.now();
+
+    return () => {
+      if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
+        mediaRecorderRef.current.stop();
+      }
+      if (recordingTimerRef.current) {
+        clearInterval(recordingTimerRef.current);
+      }
+      if (streamRef.current) {
+        streamRef.current.getTracks().forEach((track) => track.stop());
+      }
+    };
+  }, [exercise.exerciseId]);
+
+  const stopRecording = () => {
+    if (mediaRecorderRef.current?.state === 'recording') {
+      mediaRecorderRef.current.stop();
+    }
+    if (recordingTimerRef.current) {
+      clearInterval(recordingTimerRef.current);
+      recordingTimerRef.current = null;
+    }
+  };
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+
+      const mimeType = MediaRecorder.isTypeSupported('audio/webm;codecs=opus')
+        ? 'audio/webm;codecs=opus'
+        : 'audio/webm';
+
+      const mediaRecorder = new MediaRecorder(stream, { mimeType });
+      mediaRecorderRef.current = mediaRecorder;
+      audioChunksRef.current = [];
+
+      mediaRecorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          audioChunksRef.current.push(event.data);
+        }
+      };
+
+      mediaRecorder.onstop = () => {
+        const audioBlob = new Blob(audioChunksRef.current, { type: mimeType });
+        setRecording(audioBlob);
+        setRecordingUrl(URL.createObjectURL(audioBlob));
+        stream.getTracks().forEach((track) => track.stop());
+        setRecordingState('recorded');
+      };
+
+      mediaRecorder.start();
+      setRecordingState('recording');
+      setRecordingDuration(0);
+
+      recordingTimerRef.current = setInterval(() => {
+        setRecordingDuration((prev) => prev + 0.1);
+      }, 100);
+
+      setTimeout(() => {
+        if (mediaRecorderRef.current === mediaRecorder) {
+          stopRecording();
+        }
+      }, MAX_RECORDING_SECONDS * 1000);
+    } catch {
+      alert('Microphone access is required for speaking practice. Please check your microphone.');
+      setRecordingState('idle');
+    }
+  };
+
+  const retryRecording = () => {
+    setRecordingState('idle');
+    setRecordingDuration(0);
+    setRecording(null);
+    setRecordingUrl(null);
+  };
+
+  const handleSubmit = () => {
+    if (!recording || disabled) return;
+    onSubmit(recording, Date.now() - startTimeRef.current);
+  };
+
+  const getAccuracyColor = (accuracy: number) => {
+    if (accuracy >= 0.85) return 'text-green-600';
+    if (accuracy >= 0.65) return 'text-yellow-600';
+    return 'text-red-600';
+  };
+
+  const renderDiff = () => {
+    if (!feedback) return null;
+
+    return (
+      <div className="flex flex-wrap gap-1 mt-3 text-lg">
+        {feedback.diff.map((word, idx) => {
+          switch (word.type) {
+            case 'correct':
+              return (
+                <span key={idx} className="text-green-600 font-medium">
+                  {word.expected}
+                </span>
+              );
+            case 'substitution':
+              return (
+                <span key={idx} title={`Heard "${word.actual}"`} className="text-red-600">
+                  {word.expected}
+                </span>
+              );
+            case 'insertion':
+              return (
+                <span key={idx} className="text-orange-500 line-through">
+                  {word.actual}
+                </span>
+              );
+            case 'deletion':
+              return (
+                <span key={idx} className="text-blue-600 bg-blue-100 px-1 rounded">
+                  {word.expected}
+                </span>
+              );
+            default:
+              return null;
+          }
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="speaking-exercise card p-8">
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-6">
+        <span className="badge badge-outline">{exercise.cefrLevel}</span>
+        <span className="text-sm font-medium text-gray-600">Say it aloud</span>
+      </div>
+
+      {/* Text to say */}
+      <div className="bg-gradient-to-r from-purple-50 to-pink-50 p-6 rounded-lg mb-6">
+        <p className="text-2xl font-medium text-gray-800">{exercise.text}</p>
+        {exercise.romanization && (
+          <p className="text-sm text-gray-600 italic mt-2">{exercise.romanization}</p>
+        )}
+        {exercise.translation && (
+          <p className="text-sm text-gray-500 mt-2">Translation: {exercise.translation}</p>
+        )}
+      </div>
+
+      {/* Native audio */}
+      {exercise.audioUrl && (
+        <div className="bg-green-50 p-4 rounded-lg mb-6">
+          <div className="text-sm font-semibold text-gray-700 mb-3">Native Speaker Audio:</div>
+          <audio src={exercise.audioUrl} controls className="w-full" />
+        </div>
+      )}
+
+      {/* Recording controls */}
+      {!feedback && (
+        <div className="space-y-4 text-center">
+          {recordingState === 'idle' && (
+            <button
+              onClick={() => void startRecording()}
+              disabled={disabled}
+              className="btn btn-error btn-lg"
+            >
+              Start Recording
+            </button>
+          )}
+
+          {recordingState === 'recording' && (
+            <>
+              <div className="flex items-center justify-center gap-3">
+                <div className="w-4 h-4 bg-red-600 rounded-full animate-pulse"></div>
+                <span className="text-xl font-semibold text-red-600">
+                  Recording... {recordingDuration.toFixed(1)}s
+                </span>
+              </div>
+              <button onClick={stopRecording} className="btn btn-neutral">
+                Stop Recording
+              </button>
+            </>
+          )}
+
+          {recordingState === 'recorded' && (
+            <>
+              {recordingUrl && <audio src={recordingUrl} controls className="w-full" />}
+              <div className="flex justify-center gap-3">
+                <button onClick={retryRecording} disabled={disabled} className="btn btn-ghost">
+                  Record Again
+                </button>
+                <button onClick={handleSubmit} disabled={disabled} className="btn btn-primary">
+                  {disabled ? 'Checking...' : 'Check Pronunciation'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Feedback */}
+      {feedback && (
+        <div className={`alert ${feedback.isCorrect ? 'alert-success' : 'alert-warning'} mt-4`}>
+          <div className="w-full">
+            <div className="flex items-center justify-between mb-2">
+              <div className="font-semibold text-lg">
+                {feedback.isCorrect ? '✓ Clearly understood!' : '○ Not quite'}
+              </div>
+              <div className="flex gap-4 text-sm">
+                <span className={getAccuracyColor(feedback.characterAccuracy)}>
+                  {Math.round(feedback.characterAccuracy * 100)}% match
+                </span>
+                <span className="text-gray-600">
+                  {Math.round(feedback.wordAccuracy * 100)}% words
+                </span>
+              </div>
+            </div>
+
+            <div className="bg-white/50 rounded-lg p-4 mt-2">
+              <div className="text-sm text-gray-600 mb-1">We heard:</div>
+              <div className="text-lg italic">{feedback.transcript || '(nothing)'}</div>
+              {renderDiff()}
+            </div>
+
+            {/* Legend */}
+            <div className="flex flex-wrap gap-4 mt-4 text-xs text-gray-600">
+              <span>
+                <span className="inline-block w-3 h-3 bg-green-200 rounded mr-1"></span>
+                Understood
+              </span>
+              <span>
+                <span className="inline-block w-3 h-3 bg-red-200 rounded mr-1"></span>
+                Misheard
+              </span>
+              <span>
+                <span className="inline-block w-3 h-3 bg-orange-200 rounded mr-1"></span>
+                Extra word
+              </span>
+              <span>
+                <span className="inline-block w-3 h-3 bg-blue-200 rounded mr-1"></span>
+                Missing word
+              </span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
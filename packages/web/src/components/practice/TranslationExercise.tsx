@@ -1,4 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { useHintLadder } from '../../hooks/useHintLadder';
+import { HintLadder, HintLadderButton } from './HintLadder';
 
 interface TranslationExerciseProps {
   exercise: {
@@ -14,8 +16,7 @@ interface TranslationExerciseProps {
     cefrLevel: string;
     meaningId: string;
   };
-  onSubmit: (userTranslation: string, timeSpentMs: number) => void;
-  onRequestHint: (hintLevel: number) => Promise<string>;
+  onSubmit: (userTranslation: string, timeSpentMs: number, hintsUsed: number) => void;
   feedback: {
     isCorrect: boolean;
     similarity: number;
@@ -25,29 +26,28 @@ interface TranslationExerciseProps {
     qualityRating: number;
   } | null;
   disabled: boolean;
-  attemptCount: number;
 }
 
 export function TranslationExercise({
   exercise,
   onSubmit,
-  onRequestHint,
   feedback,
   disabled,
-  attemptCount,
 }: TranslationExerciseProps) {
   const [userTranslation, setUserTranslation] = useState('');
-  const [hintLevel, setHintLevel] = useState(0);
-  const [currentHint, setCurrentHint] = useState<string | null>(null);
-  const [isLoadingHint, setIsLoadingHint] = useState(false);
+  const hintLadder = useHintLadder({
+    exerciseId: exercise.exerciseId,
+    exerciseType: 'translation',
+    language: exercise.targetLanguage,
+    answer: exercise.acceptableTranslations[0],
+    meaningId: exercise.meaningId,
+  });
   const startTimeRef = useRef<number>(Date.now());
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   // Reset state when exercise changes
   useEffect(() => {
     setUserTranslation('');
-    setHintLevel(0);
-    setCurrentHint(null);
     startTimeRef.current = Date.now();
     textareaRef.current?.focus();
   }, [exercise.exerciseId]);
@@ -58,9 +58,9 @@ export function TranslationExercise({
       if (!userTranslation.trim() || disabled) return;
 
       const timeSpent = Date.now() - startTimeRef.current;
-      onSubmit(userTranslation.trim(), timeSpent);
+      onSubmit(userTranslation.trim(), timeSpent, hintLadder.hintsUsed);
     },
-    [userTranslation, disabled, onSubmit]
+    [userTranslation, disabled, onSubmit, hintLadder.hintsUsed]
   );
 
   // Handle Ctrl+Enter shortcut
@@ -74,21 +74,6 @@ export function TranslationExercise({
     [handleSubmit]
   );
 
-  const handleShowHint = async () => {
-    if (hintLevel >= 3 || isLoadingHint) return;
-
-    const newLevel = hintLevel + 1;
-    setIsLoadingHint(true);
-
-    try {
-      const hint = await onRequestHint(newLevel);
-      setCurrentHint(hint);
-      setHintLevel(newLevel);
-    } finally {
-      setIsLoadingHint(false);
-    }
-  };
-
   const getSimilarityColor = (similarity: number) => {
     if (similarity >= 0.95) return 'text-green-600';
     if (similarity >= 0.85) return 'text-yellow-600';
@@ -162,30 +147,17 @@ export function TranslationExercise({
               Check Translation
             </button>
 
-            {attemptCount >= 1 && hintLevel < 3 && (
-              <button
-                type="button"
-                onClick={() => void handleShowHint()}
-                className="btn btn-secondary"
-                disabled={isLoadingHint}
-              >
-                {isLoadingHint ? (
-                  <span className="loading loading-spinner loading-sm"></span>
-                ) : (
-                  `Hint ${hintLevel + 1}/3`
-                )}
-              </button>
-            )}
+            <HintLadderButton
+              hintsUsed={hintLadder.hintsUsed}
+              maxLevel={hintLadder.maxLevel}
+              isLoading={hintLadder.isLoading}
+              canRequestMore={hintLadder.canRequestMore}
+              onRequestHint={() => void hintLadder.requestHint()}
+              disabled={disabled}
+            />
           </div>
 
-          {/* Current hint display */}
-          {currentHint && (
-            <div className="alert alert-info">
-              <div>
-                <span className="font-medium">Hint:</span> {currentHint}
-              </div>
-            </div>
-          )}
+          <HintLadder hints={hintLadder.hints} />
         </form>
       )}
 
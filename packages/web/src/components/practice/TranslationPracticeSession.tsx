@@ -38,10 +38,6 @@ interface TranslationStats {
   avgSimilarity: number | null;
 }
 
-interface HintResponse {
-  hint: string;
-}
-
 interface TranslationPracticeSessionProps {
   sourceLanguage: string;
   targetLanguage: string;
@@ -55,7 +51,6 @@ export function TranslationPracticeSession({
   const [currentExerciseIndex, setCurrentExerciseIndex] = useState(0);
   const [correctCount, setCorrectCount] = useState(0);
   const [incorrectCount, setIncorrectCount] = useState(0);
-  const [attemptCount, setAttemptCount] = useState(0);
   const [feedback, setFeedback] = useState<TranslationValidationResult | null>(null);
   const totalTimeRef = useRef<number>(0);
   const totalSimilarityRef = useRef<number>(0);
@@ -78,6 +73,8 @@ export function TranslationPracticeSession({
       acceptableTranslations: string[];
       meaningId: string;
       timeSpentMs: number;
+      targetLanguage: string;
+      hintsUsed: number;
     }) => {
       return api.post<TranslationValidationResult>('/learning/translation/submit', payload);
     },
@@ -85,7 +82,6 @@ export function TranslationPracticeSession({
       setFeedback(result);
       totalTimeRef.current += variables.timeSpentMs;
       totalSimilarityRef.current += result.similarity;
-      setAttemptCount((prev) => prev + 1);
 
       if (result.isCorrect) {
         setCorrectCount((prev) => prev + 1);
@@ -95,12 +91,6 @@ export function TranslationPracticeSession({
     },
   });
 
-  const hintMutation = useMutation({
-    mutationFn: async (payload: { acceptableTranslations: string[]; hintLevel: number }) => {
-      return api.post<HintResponse>('/learning/translation/hint', payload);
-    },
-  });
-
   const { data: statsResponse } = useQuery<{ stats: TranslationStats }>({
     queryKey: ['translation-stats', sourceLanguage, targetLanguage],
     queryFn: async () => {
@@ -203,7 +193,6 @@ export function TranslationPracticeSession({
             setCurrentExerciseIndex(0);
             setCorrectCount(0);
             setIncorrectCount(0);
-            setAttemptCount(0);
             setFeedback(null);
             totalTimeRef.current = 0;
             totalSimilarityRef.current = 0;
@@ -219,28 +208,21 @@ export function TranslationPracticeSession({
 
   const currentExercise = exercises[currentExerciseIndex];
 
-  const handleSubmit = (userTranslation: string, timeSpentMs: number) => {
+  const handleSubmit = (userTranslation: string, timeSpentMs: number, hintsUsed: number) => {
     submitMutation.mutate({
       exerciseId: currentExercise.exerciseId,
       userTranslation,
       acceptableTranslations: currentExercise.acceptableTranslations,
       meaningId: currentExercise.meaningId,
       timeSpentMs,
+      targetLanguage,
+      hintsUsed,
     });
   };
 
-  const handleRequestHint = async (hintLevel: number): Promise<string> => {
-    const result = await hintMutation.mutateAsync({
-      acceptableTranslations: currentExercise.acceptableTranslations,
-      hintLevel,
-    });
-    return result.hint;
-  };
-
   const handleNext = () => {
     setCurrentExerciseIndex((prev) => prev + 1);
     setFeedback(null);
-    setAttemptCount(0);
   };
 
   const progressPercent = ((currentExerciseIndex + 1) / exercises.length) * 100;
@@ -278,10 +260,8 @@ export function TranslationPracticeSession({
       <TranslationExercise
         exercise={currentExercise}
         onSubmit={handleSubmit}
-        onRequestHint={handleRequestHint}
         feedback={feedback}
         disabled={submitMutation.isPending}
-        attemptCount={attemptCount}
       />
 
       {/* Next button */}
@@ -2,6 +2,7 @@ export { FlashCard } from './FlashCard';
 export { RecallPracticeSession } from './RecallPracticeSession';
 export { RecognitionPracticeSession } from './RecognitionPracticeSession';
 export { RecognitionQuestion } from './RecognitionQuestion';
+export { AccentHighlight } from './AccentHighlight';
 export { ClozeExercise } from './ClozeExercise';
 export { ClozePracticeSession } from './ClozePracticeSession';
 export { DictationExercise } from './DictationExercise';
@@ -10,7 +11,12 @@ export { TranslationExercise } from './TranslationExercise';
 export { TranslationPracticeSession } from './TranslationPracticeSession';
 export { ProductionExercise } from './ProductionExercise';
 export { ProductionPracticeSession } from './ProductionPracticeSession';
+export { SpeakingExercise } from './SpeakingExercise';
+export { SpeakingPracticeSession } from './SpeakingPracticeSession';
 export { ReadingComprehension } from './ReadingComprehension';
 export { ReadingPracticeSession } from './ReadingPracticeSession';
 export { ReviewPracticeSession } from './ReviewPracticeSession';
+export { MixedExerciseItem } from './MixedExerciseItem';
 export { MixedPracticeSession } from './MixedPracticeSession';
+export { HintLadder, HintLadderButton } from './HintLadder';
+export { ProductionWritingExercise } from './ProductionWritingExercise';
@@ -0,0 +1,99 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import api from '../../api/client';
+
+interface Leech {
+  id: string;
+  itemType: 'vocabulary' | 'grammar' | 'orthography' | 'reading';
+  itemId: string;
+  language: string;
+  lapses: number;
+  leechAt: string;
+  suspended: boolean;
+  remediation: 'relearn' | 'interference' | null;
+  interferencePatternId: string | null;
+  text: string | null;
+}
+
+interface LeechListData {
+  leeches: Leech[];
+  total: number;
+}
+
+const REMEDIATION_LABELS: Record<NonNullable<Leech['remediation']>, string> = {
+  relearn: 'Back in your new words queue',
+  interference: 'Waiting on an interference drill',
+};
+
+export function LeechList() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<LeechListData>({
+    queryKey: ['srs-leeches'],
+    queryFn: () => api.get<LeechListData>('/learning/srs/leeches'),
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: (leech: Leech) =>
+      api.post('/learning/srs/leeches/release', {
+        itemType: leech.itemType,
+        itemId: leech.itemId,
+      }),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['srs-leeches'] });
+    },
+  });
+
+  if (isLoading || !data || data.leeches.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="card p-6">
+      <h3 className="font-semibold text-gray-900">Leeches</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Items you keep forgetting. Suspended leeches are left out of reviews until they are
+        remediated or released.
+      </p>
+
+      <ul className="divide-y divide-gray-200">
+        {data.leeches.map((leech) => (
+          <li key={leech.id} className="flex items-center justify-between py-3">
+            <div>
+              <p className="font-medium text-gray-900">
+                {leech.text ?? leech.itemId}
+                <span className="ml-2 text-xs uppercase text-gray-500">
+                  {leech.language} · {leech.itemType}
+                </span>
+              </p>
+              <p className="text-sm text-gray-600">
+                Forgotten {leech.lapses} times
+                {leech.suspended &&
+                  (leech.remediation
+                    ? ` · ${REMEDIATION_LABELS[leech.remediation]}`
+                    : ' · Suspended')}
+              </p>
+            </div>
+
+            {leech.suspended && (
+              <div className="flex items-center gap-2">
+                {leech.remediation === 'interference' && (
+                  <Link to="/learning/interference" className="btn btn-primary">
+                    Practice
+                  </Link>
+                )}
+                <button
+                  onClick={() => releaseMutation.mutate(leech)}
+                  disabled={releaseMutation.isPending}
+                  className="btn btn-secondary disabled:opacity-50"
+                >
+                  Release
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
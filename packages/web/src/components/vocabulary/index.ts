@@ -2,4 +2,5 @@ export { WordStateBadge } from './WordStateBadge';
 export { WordStateProgress } from './WordStateProgress';
 export { VocabularyLesson } from './VocabularyLesson';
 export { VocabularyQueue } from './VocabularyQueue';
+export { LeechList } from './LeechList';
 export type { WordState } from './WordStateBadge';
@@ -1,12 +1,22 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { authApi, LoginRequest, RegisterRequest } from '@/api/auth';
+import { authApi, LoginRequest, LoginResponse, RegisterRequest } from '@/api/auth';
+import { refreshAccessToken } from '@/api/client';
+import { clearAccessToken, setAccessToken } from '@/api/token-store';
 import { User } from '@/types';
 
+/**
+ * Operators with 2FA finish logging in with completeTwoFactorLogin
+ */
+export type LoginResult =
+  | { status: 'authenticated'; user: User }
+  | { status: 'two_factor_required'; challengeToken: string };
+
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (credentials: LoginRequest) => Promise<User>;
+  login: (credentials: LoginRequest) => Promise<LoginResult>;
+  completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<User>;
   register: (data: RegisterRequest) => Promise<User>;
   logout: () => Promise<void>;
 }
@@ -19,16 +29,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   useEffect(() => {
     const initAuth = async () => {
-      const accessToken = localStorage.getItem('accessToken');
-
-      if (accessToken) {
-        try {
-          const currentUser = await authApi.getCurrentUser();
-          setUser(currentUser);
-        } catch {
-          localStorage.removeItem('accessToken');
-          localStorage.removeItem('refreshToken');
-        }
+      // Tokens used to be kept in localStorage
+      localStorage.removeItem('accessToken');
+      localStorage.removeItem('refreshToken');
+
+      try {
+        await refreshAccessToken();
+        const currentUser = await authApi.getCurrentUser();
+        setUser(currentUser);
+      } catch {
+        clearAccessToken();
       }
 
       setIsLoading(false);
@@ -37,33 +47,45 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     void initAuth();
   }, []);
 
-  const login = async (credentials: LoginRequest): Promise<User> => {
-    const response = await authApi.login(credentials);
-
-    localStorage.setItem('accessToken', response.accessToken);
-    localStorage.setItem('refreshToken', response.refreshToken);
+  const startSession = (response: LoginResponse): User => {
+    setAccessToken(response.accessToken);
 
     setUser(response.user);
     return response.user;
   };
 
+  const login = async (credentials: LoginRequest): Promise<LoginResult> => {
+    const response = await authApi.login(credentials);
+
+    if ('twoFactorRequired' in response) {
+      return { status: 'two_factor_required', challengeToken: response.challengeToken };
+    }
+    return { status: 'authenticated', user: startSession(response) };
+  };
+
+  const completeTwoFactorLogin = async (challengeToken: string, code: string): Promise<User> => {
+    const response = await authApi.completeTwoFactorLogin(challengeToken, code);
+    return startSession(response);
+  };
+
   const register = async (data: RegisterRequest): Promise<User> => {
     await authApi.register(data);
 
-    return await login({ email: data.email, password: data.password });
+    // New accounts are learners, who never have a second factor
+    const response = await authApi.login({ email: data.email, password: data.password });
+    if ('twoFactorRequired' in response) {
+      throw new Error('Unexpected two-factor challenge for a new account');
+    }
+    return startSession(response);
   };
 
   const logout = async () => {
     try {
-      const refreshToken = localStorage.getItem('refreshToken');
-      if (refreshToken) {
-        await authApi.logout(refreshToken);
-      }
+      await authApi.logout();
     } catch (error) {
       console.error('Logout error:', error);
     } finally {
-      localStorage.removeItem('accessToken');
-      localStorage.removeItem('refreshToken');
+      clearAccessToken();
       setUser(null);
     }
   };
@@ -73,6 +95,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     isAuthenticated: !!user,
     isLoading,
     login,
+    completeTwoFactorLogin,
     register,
     logout,
   };
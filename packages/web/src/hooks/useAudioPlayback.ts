@@ -3,15 +3,20 @@ import { useRef, useState, useEffect } from 'react';
 interface UseAudioPlaybackReturn {
   isPlaying: boolean;
   play: (audioUrl: string) => Promise<void>;
+  playSegment: (audioUrl: string, startSeconds: number, endSeconds: number) => Promise<void>;
   pause: () => void;
   stop: () => void;
   currentAudioUrl: string | null;
+  playbackRate: number;
+  setPlaybackRate: (rate: number) => void;
 }
 
 export function useAudioPlayback(): UseAudioPlaybackReturn {
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const segmentEndRef = useRef<number | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentAudioUrl, setCurrentAudioUrl] = useState<string | null>(null);
+  const [playbackRate, setPlaybackRateState] = useState(1);
 
   useEffect(() => {
     // Cleanup on unmount
@@ -23,42 +28,72 @@ export function useAudioPlayback(): UseAudioPlaybackReturn {
     };
   }, []);
 
-  const play = async (audioUrl: string) => {
+  const load = (audioUrl: string): HTMLAudioElement => {
     if (!audioRef.current) {
       audioRef.current = new Audio();
     }
-
-    // If same audio is playing, restart it
-    if (currentAudioUrl === audioUrl && isPlaying) {
-      audioRef.current.currentTime = 0;
-      return;
-    }
+    const audio = audioRef.current;
 
     // Stop current audio if different
-    if (audioRef.current && !audioRef.current.paused) {
-      audioRef.current.pause();
+    if (!audio.paused) {
+      audio.pause();
     }
 
-    audioRef.current.src = audioUrl;
-    setCurrentAudioUrl(audioUrl);
+    if (currentAudioUrl !== audioUrl) {
+      audio.src = audioUrl;
+      setCurrentAudioUrl(audioUrl);
+    }
 
     // Set up event listeners
-    audioRef.current.onplay = () => setIsPlaying(true);
-    audioRef.current.onended = () => setIsPlaying(false);
-    audioRef.current.onpause = () => setIsPlaying(false);
-    audioRef.current.onerror = () => {
+    audio.onplay = () => setIsPlaying(true);
+    audio.onended = () => setIsPlaying(false);
+    audio.onpause = () => setIsPlaying(false);
+    audio.onerror = () => {
       console.error('Audio playback failed for:', audioUrl);
       setIsPlaying(false);
     };
+    // Stop at the end of the segment being played, if any
+    audio.ontimeupdate = () => {
+      if (segmentEndRef.current !== null && audio.currentTime >= segmentEndRef.current) {
+        segmentEndRef.current = null;
+        audio.pause();
+      }
+    };
 
+    audio.playbackRate = playbackRate;
+    return audio;
+  };
+
+  const start = async (audio: HTMLAudioElement) => {
     try {
-      await audioRef.current.play();
+      await audio.play();
     } catch (error) {
       console.error('Failed to play audio:', error);
       setIsPlaying(false);
     }
   };
 
+  const play = async (audioUrl: string) => {
+    // If same audio is playing, restart it
+    if (audioRef.current && currentAudioUrl === audioUrl && isPlaying) {
+      segmentEndRef.current = null;
+      audioRef.current.currentTime = 0;
+      return;
+    }
+
+    const audio = load(audioUrl);
+    segmentEndRef.current = null;
+    audio.currentTime = 0;
+    await start(audio);
+  };
+
+  const playSegment = async (audioUrl: string, startSeconds: number, endSeconds: number) => {
+    const audio = load(audioUrl);
+    segmentEndRef.current = endSeconds;
+    audio.currentTime = startSeconds;
+    await start(audio);
+  };
+
   const pause = () => {
     if (audioRef.current && !audioRef.current.paused) {
       audioRef.current.pause();
@@ -70,15 +105,26 @@ export function useAudioPlayback(): UseAudioPlaybackReturn {
     if (audioRef.current) {
       audioRef.current.pause();
       audioRef.current.currentTime = 0;
+      segmentEndRef.current = null;
       setIsPlaying(false);
     }
   };
 
+  const setPlaybackRate = (rate: number) => {
+    setPlaybackRateState(rate);
+    if (audioRef.current) {
+      audioRef.current.playbackRate = rate;
+    }
+  };
+
   return {
     isPlaying,
     play,
+    playSegment,
     pause,
     stop,
     currentAudioUrl,
+    playbackRate,
+    setPlaybackRate,
   };
 }
@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from 'react';
+import api from '../api/client';
+
+export type HintExerciseType = 'translation' | 'cloze' | 'production' | 'recall' | 'grammar';
+
+export interface LadderHint {
+  level: number;
+  type: 'first_letter' | 'word_count' | 'grammar' | 'cross_language_example' | 'reveal';
+  text: string;
+  isReveal: boolean;
+  maxLevel: number;
+}
+
+interface UseHintLadderOptions {
+  /** Hints are cleared whenever this changes */
+  exerciseId: string;
+  exerciseType: HintExerciseType;
+  language: string;
+  answer?: string;
+  meaningId?: string | null;
+  grammarExerciseId?: string;
+}
+
+interface UseHintLadderReturn {
+  hints: LadderHint[];
+  hintsUsed: number;
+  maxLevel: number;
+  isLoading: boolean;
+  canRequestMore: boolean;
+  requestHint: () => Promise<void>;
+}
+
+// Mirrors MAX_HINT_LEVEL on the server until the first hint reports it
+const DEFAULT_MAX_LEVEL = 5;
+
+export function useHintLadder({
+  exerciseId,
+  exerciseType,
+  language,
+  answer,
+  meaningId,
+  grammarExerciseId,
+}: UseHintLadderOptions): UseHintLadderReturn {
+  const [hints, setHints] = useState<LadderHint[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setHints([]);
+  }, [exerciseId]);
+
+  const maxLevel = hints[0]?.maxLevel ?? DEFAULT_MAX_LEVEL;
+  const canRequestMore = hints.length < maxLevel;
+
+  const requestHint = useCallback(async () => {
+    if (!canRequestMore || isLoading) return;
+
+    setIsLoading(true);
+    try {
+      const hint = await api.post<LadderHint>('/learning/hints', {
+        exerciseType,
+        language,
+        level: hints.length + 1,
+        answer,
+        meaningId,
+        grammarExerciseId,
+      });
+      setHints((previous) => [...previous, hint]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [
+    canRequestMore,
+    isLoading,
+    exerciseType,
+    language,
+    hints.length,
+    answer,
+    meaningId,
+    grammarExerciseId,
+  ]);
+
+  return {
+    hints,
+    hintsUsed: hints.length,
+    maxLevel,
+    isLoading,
+    canRequestMore,
+    requestHint,
+  };
+}
@@ -1,11 +1,13 @@
 import { useQuery } from '@tanstack/react-query';
 import { User } from '@/types';
+import { getAccessToken } from '@/api/token-store';
 
 // Placeholder API function (to be implemented in F023)
 async function fetchCurrentUser(): Promise<User> {
   const response = await fetch('/api/auth/me', {
+    credentials: 'include',
     headers: {
-      Authorization: `Bearer ${localStorage.getItem('accessToken')}`,
+      Authorization: `Bearer ${getAccessToken()}`,
     },
   });
 
@@ -23,6 +25,6 @@ export function useUser() {
     // Don't refetch automatically
     staleTime: Infinity,
     // Only fetch when we have a token
-    enabled: !!localStorage.getItem('accessToken'),
+    enabled: getAccessToken() !== null,
   });
 }
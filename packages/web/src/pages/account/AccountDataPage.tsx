@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { AxiosError } from 'axios';
+import { authApi } from '../../api/auth';
+import { useAuth } from '../../contexts/AuthContext';
+
+function errorMessage(error: unknown, fallback: string): string {
+  const axiosError = error as AxiosError<{ error: { message: string } }>;
+  return axiosError.response?.data?.error?.message ?? fallback;
+}
+
+function saveFile(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download everything stored about the account, or delete it
+ */
+export function AccountDataPage() {
+  const navigate = useNavigate();
+  const { logout } = useAuth();
+  const [password, setPassword] = useState('');
+  const [confirming, setConfirming] = useState(false);
+
+  const exportMutation = useMutation({
+    mutationFn: () => authApi.exportAccountData(),
+    onSuccess: (blob) => {
+      saveFile(blob, `polyladder-export-${new Date().toISOString().slice(0, 10)}.zip`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => authApi.deleteAccount(password),
+    onSuccess: async () => {
+      await logout();
+      void navigate('/login');
+    },
+  });
+
+  return (
+    <div className="p-6 max-w-3xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Your data</h1>
+        <p className="text-gray-600 mt-1">
+          Download or delete everything PolyLadder stores about you
+        </p>
+      </div>
+
+      <section className="border rounded-lg bg-white shadow-sm p-4 space-y-3">
+        <h2 className="font-semibold">Export</h2>
+        <p className="text-sm text-gray-600">
+          A ZIP archive with your profile, reviews, word states, sessions, preferences and
+          statistics, each as JSON and CSV.
+        </p>
+        <button
+          onClick={() => exportMutation.mutate()}
+          disabled={exportMutation.isPending}
+          className="btn btn-outline btn-sm"
+        >
+          {exportMutation.isPending ? 'Preparing...' : 'Download my data'}
+        </button>
+        {exportMutation.isError && (
+          <p className="text-sm text-red-600">
+            {errorMessage(exportMutation.error, 'Failed to export your data')}
+          </p>
+        )}
+      </section>
+
+      <section className="border border-red-200 rounded-lg bg-white shadow-sm p-4 space-y-3">
+        <h2 className="font-semibold text-red-700">Delete account</h2>
+        <p className="text-sm text-gray-600">
+          You are logged out everywhere, and after a grace period your data is removed for good. We
+          email you the date; logging in before then keeps your account.
+        </p>
+        {confirming ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              deleteMutation.mutate();
+            }}
+            className="flex flex-wrap items-center gap-2"
+          >
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              className="input input-bordered input-sm"
+              placeholder="Your password"
+              aria-label="Password"
+            />
+            <button
+              type="submit"
+              disabled={!password || deleteMutation.isPending}
+              className="btn btn-error btn-sm"
+            >
+              {deleteMutation.isPending ? 'Deleting...' : 'Delete my account'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setConfirming(false)}
+              className="btn btn-ghost btn-sm"
+            >
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <button onClick={() => setConfirming(true)} className="btn btn-outline btn-error btn-sm">
+            Delete account...
+          </button>
+        )}
+        {deleteMutation.isError && (
+          <p className="text-sm text-red-600">
+            {errorMessage(deleteMutation.error, 'Failed to delete your account')}
+          </p>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { AxiosError } from 'axios';
+import { authApi, DeviceSession } from '../../api/auth';
+import { useAuth } from '../../contexts/AuthContext';
+
+function errorMessage(error: unknown, fallback: string): string {
+  const axiosError = error as AxiosError<{ error: { message: string } }>;
+  return axiosError.response?.data?.error?.message ?? fallback;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString();
+}
+
+/**
+ * Devices the user is logged in on, each of which can be logged out
+ */
+export function SessionsPage() {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const { logout } = useAuth();
+
+  const sessionsQuery = useQuery<DeviceSession[]>({
+    queryKey: ['auth-sessions'],
+    queryFn: () => authApi.getSessions(),
+  });
+
+  const endSession = async () => {
+    await logout();
+    void navigate('/login');
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: (session: DeviceSession) => authApi.revokeSession(session.id),
+    onSuccess: async (_data, session) => {
+      if (session.current) {
+        await endSession();
+        return;
+      }
+      void queryClient.invalidateQueries({ queryKey: ['auth-sessions'] });
+    },
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: () => authApi.revokeAllSessions(),
+    onSuccess: endSession,
+  });
+
+  return (
+    <div className="p-6 max-w-3xl mx-auto space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Devices</h1>
+          <p className="text-gray-600 mt-1">Where you are logged in right now</p>
+        </div>
+        <button
+          onClick={() => revokeAllMutation.mutate()}
+          disabled={revokeAllMutation.isPending}
+          className="btn btn-outline btn-error btn-sm"
+        >
+          {revokeAllMutation.isPending ? 'Logging out...' : 'Log out everywhere'}
+        </button>
+      </div>
+
+      {(revokeMutation.isError || revokeAllMutation.isError) && (
+        <p className="text-sm text-red-600">
+          {errorMessage(revokeMutation.error ?? revokeAllMutation.error, 'Failed to log out')}
+        </p>
+      )}
+
+      {sessionsQuery.isLoading ? (
+        <div className="text-center py-8">Loading devices...</div>
+      ) : sessionsQuery.error || !sessionsQuery.data ? (
+        <div className="text-center py-8 text-red-600">
+          {errorMessage(sessionsQuery.error, 'Failed to load devices')}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {sessionsQuery.data.map((session) => (
+            <div
+              key={session.id}
+              className="border rounded-lg bg-white shadow-sm p-4 flex items-center justify-between gap-4"
+            >
+              <div className="min-w-0">
+                <p className="font-medium truncate">
+                  {session.userAgent ?? 'Unknown device'}
+                  {session.current && (
+                    <span className="badge badge-success badge-sm ml-2">This device</span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {session.ipAddress ?? 'Unknown IP'} · last used {formatDate(session.lastUsedAt)}
+                </p>
+                <p className="text-xs text-gray-400">Signed in {formatDate(session.createdAt)}</p>
+              </div>
+              <button
+                onClick={() => revokeMutation.mutate(session)}
+                disabled={revokeMutation.isPending}
+                className="btn btn-ghost btn-sm"
+              >
+                Log out
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
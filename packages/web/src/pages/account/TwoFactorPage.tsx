@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { authApi, TwoFactorEnrollment, TwoFactorStatus } from '../../api/auth';
+
+function errorMessage(error: unknown, fallback: string): string {
+  const axiosError = error as AxiosError<{ error: { message: string } }>;
+  return axiosError.response?.data?.error?.message ?? fallback;
+}
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div className="border rounded-lg bg-white shadow-sm p-4 space-y-3">
+      <h2 className="font-semibold">Recovery codes</h2>
+      <p className="text-sm text-gray-600">
+        Store these somewhere safe. Each one logs you in once if you lose your authenticator app,
+        and they are not shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+        {codes.map((code) => (
+          <li key={code} className="bg-gray-50 rounded px-2 py-1">
+            {code}
+          </li>
+        ))}
+      </ul>
+      <button onClick={onDone} className="btn btn-primary btn-sm">
+        I have saved them
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Enroll an authenticator app and manage recovery codes
+ */
+export function TwoFactorPage() {
+  const queryClient = useQueryClient();
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+
+  const statusQuery = useQuery<TwoFactorStatus>({
+    queryKey: ['two-factor-status'],
+    queryFn: () => authApi.getTwoFactorStatus(),
+  });
+
+  const refreshStatus = () => {
+    setCode('');
+    void queryClient.invalidateQueries({ queryKey: ['two-factor-status'] });
+  };
+
+  const enrollMutation = useMutation({
+    mutationFn: () => authApi.startTwoFactorEnrollment(),
+    onSuccess: (data) => setEnrollment(data),
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: () => authApi.confirmTwoFactorEnrollment(code),
+    onSuccess: (codes) => {
+      setEnrollment(null);
+      setRecoveryCodes(codes);
+      refreshStatus();
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => authApi.regenerateRecoveryCodes(code),
+    onSuccess: (codes) => {
+      setRecoveryCodes(codes);
+      refreshStatus();
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => authApi.disableTwoFactor(code),
+    onSuccess: refreshStatus,
+  });
+
+  const failed = [enrollMutation, confirmMutation, regenerateMutation, disableMutation].find(
+    (mutation) => mutation.isError
+  );
+  const status = statusQuery.data;
+
+  const codeInput = (
+    <input
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      autoComplete="one-time-code"
+      inputMode="numeric"
+      className="input input-bordered input-sm w-32"
+      placeholder="123456"
+      aria-label="Authentication code"
+    />
+  );
+
+  return (
+    <div className="p-6 max-w-3xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Two-factor authentication</h1>
+        <p className="text-gray-600 mt-1">
+          Ask for a code from an authenticator app in addition to your password
+        </p>
+      </div>
+
+      {failed && (
+        <p className="text-sm text-red-600">{errorMessage(failed.error, 'Something went wrong')}</p>
+      )}
+
+      {recoveryCodes && (
+        <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+      )}
+
+      {statusQuery.isLoading ? (
+        <div className="text-center py-8">Loading...</div>
+      ) : statusQuery.error || !status ? (
+        <div className="text-center py-8 text-red-600">
+          {errorMessage(statusQuery.error, 'Failed to load two-factor status')}
+        </div>
+      ) : status.enabled ? (
+        <div className="border rounded-lg bg-white shadow-sm p-4 space-y-4">
+          <p>
+            <span className="badge badge-success mr-2">On</span>
+            {status.recoveryCodesRemaining} recovery codes left
+          </p>
+          <p className="text-sm text-gray-600">
+            Enter a current code from your app to get new recovery codes or to turn two-factor
+            authentication off.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            {codeInput}
+            <button
+              onClick={() => regenerateMutation.mutate()}
+              disabled={!code || regenerateMutation.isPending}
+              className="btn btn-outline btn-sm"
+            >
+              New recovery codes
+            </button>
+            {!status.required && (
+              <button
+                onClick={() => disableMutation.mutate()}
+                disabled={!code || disableMutation.isPending}
+                className="btn btn-outline btn-error btn-sm"
+              >
+                Turn off
+              </button>
+            )}
+          </div>
+          {status.required && (
+            <p className="text-xs text-gray-500">Your operator roles require two-factor login.</p>
+          )}
+        </div>
+      ) : enrollment ? (
+        <div className="border rounded-lg bg-white shadow-sm p-4 space-y-4">
+          <ol className="list-decimal list-inside space-y-3 text-sm">
+            <li>
+              Open{' '}
+              <a href={enrollment.provisioningUri} className="link link-primary">
+                this setup link
+              </a>{' '}
+              on a device with an authenticator app, or add an account manually with the key
+              <code className="block mt-1 bg-gray-50 rounded px-2 py-1 font-mono break-all">
+                {enrollment.secret.replace(/(.{4})/g, '$1 ').trim()}
+              </code>
+            </li>
+            <li>Enter the 6-digit code the app shows.</li>
+          </ol>
+          <div className="flex items-center gap-2">
+            {codeInput}
+            <button
+              onClick={() => confirmMutation.mutate()}
+              disabled={!code || confirmMutation.isPending}
+              className="btn btn-primary btn-sm"
+            >
+              {confirmMutation.isPending ? 'Verifying...' : 'Turn on'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="border rounded-lg bg-white shadow-sm p-4 space-y-4">
+          <p>
+            <span className="badge badge-ghost mr-2">Off</span>
+            {status.required && (
+              <span className="text-sm text-red-600">
+                Your operator roles require two-factor authentication. Set it up to continue.
+              </span>
+            )}
+          </p>
+          <button
+            onClick={() => enrollMutation.mutate()}
+            disabled={enrollMutation.isPending}
+            className="btn btn-primary btn-sm"
+          >
+            Set up authenticator app
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
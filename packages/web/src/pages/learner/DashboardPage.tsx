@@ -1,8 +1,13 @@
+import { BacklogRecoveryCard } from '../../components/learning';
+
 export function DashboardPage() {
   return (
     <div>
       <h1 className="text-3xl font-bold text-gray-900">Learner Dashboard</h1>
       <p className="mt-4 text-gray-600">Welcome to your learning dashboard!</p>
+      <div className="mt-6 max-w-2xl">
+        <BacklogRecoveryCard />
+      </div>
     </div>
   );
 }
@@ -3,6 +3,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import api from '../../api/client';
 import { UserPreferences } from '../../types';
 import { FocusModeControl } from '../../components/focus-mode';
+import { AccentGradingControl } from '../../components/learning';
 
 const AVAILABLE_LANGUAGES: Record<string, string> = {
   EN: 'English',
@@ -162,7 +163,7 @@ export function LanguageSettingsPage() {
       <div>
         <h1 className="text-3xl font-bold text-gray-900">Language Settings</h1>
         <p className="mt-2 text-gray-600">
-          Manage your studied languages and focus mode preferences
+          Manage your studied languages, focus mode and accent grading preferences
         </p>
       </div>
 
@@ -243,6 +244,19 @@ export function LanguageSettingsPage() {
         <FocusModeControl />
       </section>
 
+      {/* Accent Grading Section */}
+      <section className="space-y-4 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Accent Grading</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            How missing or wrong accents (ã, č, é, ...) are graded in cloze, dictation, translation
+            and grammar exercises.
+          </p>
+        </div>
+
+        <AccentGradingControl />
+      </section>
+
       {/* Add Language Modal */}
       {showAddModal && (
         <AddLanguageModal
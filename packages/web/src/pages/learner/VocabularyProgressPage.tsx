@@ -1,5 +1,11 @@
 import { VocabularyDashboard } from '@/components/analytics';
+import { LeechList } from '@/components/vocabulary';
 
 export function VocabularyProgressPage() {
-  return <VocabularyDashboard />;
+  return (
+    <div className="space-y-6">
+      <VocabularyDashboard />
+      <LeechList />
+    </div>
+  );
 }
@@ -0,0 +1,344 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { apiClient } from '../../api/client';
+
+type OperatorRole =
+  | 'content_reviewer'
+  | 'pipeline_admin'
+  | 'curriculum_editor'
+  | 'analytics_viewer'
+  | 'admin';
+
+interface Operator {
+  userId: string;
+  email: string;
+  roles: OperatorRole[];
+  twoFactorEnabled: boolean;
+  createdAt: string;
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  roles: OperatorRole[];
+  invitedBy: string;
+  status: 'pending' | 'accepted' | 'revoked' | 'expired';
+  expiresAt: string;
+  createdAt: string;
+}
+
+const ROLE_LABELS: Record<OperatorRole, string> = {
+  content_reviewer: 'Content reviewer',
+  pipeline_admin: 'Pipeline admin',
+  curriculum_editor: 'Curriculum editor',
+  analytics_viewer: 'Analytics viewer',
+  admin: 'Admin',
+};
+
+const ROLES = Object.keys(ROLE_LABELS) as OperatorRole[];
+
+function errorMessage(error: unknown, fallback: string): string {
+  const axiosError = error as AxiosError<{ error: { message: string } }>;
+  return axiosError.response?.data?.error?.message ?? fallback;
+}
+
+export function OperatorsPage() {
+  const operatorsQuery = useQuery<Operator[]>({
+    queryKey: ['operators'],
+    queryFn: async () => {
+      const response = await apiClient.get<{ operators: Operator[] }>('/operational/operators');
+      return response.data.operators;
+    },
+  });
+
+  const invitationsQuery = useQuery<Invitation[]>({
+    queryKey: ['operator-invitations'],
+    queryFn: async () => {
+      const response = await apiClient.get<{ invitations: Invitation[] }>(
+        '/operational/operators/invitations'
+      );
+      return response.data.invitations;
+    },
+  });
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto space-y-8">
+      <div>
+        <h1 className="text-2xl font-bold">Operators</h1>
+        <p className="text-gray-600 mt-1">
+          Invite operators and choose what each of them can work on
+        </p>
+      </div>
+
+      <InviteForm />
+
+      <TwoFactorPolicy />
+
+      <section>
+        <h2 className="text-lg font-semibold mb-3">Team</h2>
+        {operatorsQuery.isLoading ? (
+          <div className="text-center py-8">Loading operators...</div>
+        ) : operatorsQuery.error || !operatorsQuery.data ? (
+          <div className="text-center py-8 text-red-600">
+            {errorMessage(operatorsQuery.error, 'Failed to load operators')}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {operatorsQuery.data.map((operator) => (
+              <OperatorRoles key={operator.userId} operator={operator} />
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-3">Invitations</h2>
+        {invitationsQuery.data && invitationsQuery.data.length > 0 ? (
+          <InvitationList invitations={invitationsQuery.data} />
+        ) : (
+          <p className="text-sm text-gray-500">No invitations yet</p>
+        )}
+      </section>
+    </div>
+  );
+}
+
+interface RoleCheckboxesProps {
+  selected: OperatorRole[];
+  onChange: (roles: OperatorRole[]) => void;
+}
+
+function RoleCheckboxes({ selected, onChange }: RoleCheckboxesProps) {
+  return (
+    <div className="flex flex-wrap gap-4">
+      {ROLES.map((role) => (
+        <label key={role} className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            className="checkbox checkbox-sm"
+            checked={selected.includes(role)}
+            onChange={(e) =>
+              onChange(e.target.checked ? [...selected, role] : selected.filter((r) => r !== role))
+            }
+          />
+          {ROLE_LABELS[role]}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+function InviteForm() {
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState('');
+  const [roles, setRoles] = useState<OperatorRole[]>(['content_reviewer']);
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiClient.post<{ invitation: Invitation; token: string }>(
+        '/operational/operators/invitations',
+        { email: email.trim(), roles }
+      );
+      return response.data;
+    },
+    onSuccess: () => {
+      setEmail('');
+      void queryClient.invalidateQueries({ queryKey: ['operator-invitations'] });
+    },
+  });
+
+  const inviteLink = inviteMutation.data
+    ? `${window.location.origin}/invitations/accept?token=${encodeURIComponent(inviteMutation.data.token)}`
+    : null;
+
+  return (
+    <section className="border rounded-lg bg-white shadow-sm p-4 space-y-3">
+      <h2 className="font-semibold">Invite an operator</h2>
+      <input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="operator@example.com"
+        className="input w-full"
+      />
+      <RoleCheckboxes selected={roles} onChange={setRoles} />
+      <button
+        onClick={() => inviteMutation.mutate()}
+        disabled={!email.trim() || roles.length === 0 || inviteMutation.isPending}
+        className="btn btn-primary"
+      >
+        {inviteMutation.isPending ? 'Inviting...' : 'Create invitation'}
+      </button>
+
+      {inviteMutation.isError && (
+        <p className="text-sm text-red-600">
+          {errorMessage(inviteMutation.error, 'Failed to create invitation')}
+        </p>
+      )}
+      {inviteLink && (
+        <div className="bg-green-50 border border-green-200 rounded p-3 text-sm">
+          <p className="mb-1">
+            Send this link to {inviteMutation.data?.invitation.email}. It is shown only once.
+          </p>
+          <code className="block break-all">{inviteLink}</code>
+        </div>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Roles whose operators must log in with a second factor
+ */
+function TwoFactorPolicy() {
+  const queryClient = useQueryClient();
+  const [roles, setRoles] = useState<OperatorRole[] | null>(null);
+
+  const policyQuery = useQuery<OperatorRole[]>({
+    queryKey: ['two-factor-policy'],
+    queryFn: async () => {
+      const response = await apiClient.get<{ roles: OperatorRole[] }>(
+        '/operational/operators/two-factor-policy'
+      );
+      return response.data.roles;
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (selected: OperatorRole[]) => {
+      await apiClient.put('/operational/operators/two-factor-policy', { roles: selected });
+    },
+    onSuccess: () => {
+      setRoles(null);
+      void queryClient.invalidateQueries({ queryKey: ['two-factor-policy'] });
+    },
+  });
+
+  if (!policyQuery.data) {
+    return null;
+  }
+
+  const selected = roles ?? policyQuery.data;
+
+  return (
+    <section className="border rounded-lg bg-white shadow-sm p-4 space-y-3">
+      <h2 className="font-semibold">Two-factor policy</h2>
+      <p className="text-sm text-gray-600">
+        Operators with these roles must set up an authenticator app before they can keep working.
+      </p>
+      <RoleCheckboxes selected={selected} onChange={setRoles} />
+      <button
+        onClick={() => saveMutation.mutate(selected)}
+        disabled={roles === null || saveMutation.isPending}
+        className="btn btn-sm btn-primary"
+      >
+        {saveMutation.isPending ? 'Saving...' : 'Save policy'}
+      </button>
+      {saveMutation.isError && (
+        <p className="text-sm text-red-600">
+          {errorMessage(saveMutation.error, 'Failed to save policy')}
+        </p>
+      )}
+    </section>
+  );
+}
+
+function OperatorRoles({ operator }: { operator: Operator }) {
+  const queryClient = useQueryClient();
+  const [roles, setRoles] = useState<OperatorRole[]>(operator.roles);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiClient.put(`/operational/operators/${operator.userId}/roles`, { roles });
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['operators'] });
+    },
+  });
+
+  const isDirty =
+    roles.length !== operator.roles.length || roles.some((role) => !operator.roles.includes(role));
+
+  return (
+    <div className="border rounded-lg bg-white shadow-sm p-4">
+      <div className="flex items-center justify-between mb-3">
+        <span className="font-medium">
+          {operator.email}
+          <span
+            className={`badge badge-sm ml-2 ${operator.twoFactorEnabled ? 'badge-success' : 'badge-ghost'}`}
+          >
+            {operator.twoFactorEnabled ? '2FA on' : '2FA off'}
+          </span>
+        </span>
+        <button
+          onClick={() => saveMutation.mutate()}
+          disabled={!isDirty || roles.length === 0 || saveMutation.isPending}
+          className="btn btn-sm btn-primary"
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+      <RoleCheckboxes selected={roles} onChange={setRoles} />
+      {saveMutation.isError && (
+        <p className="text-sm text-red-600 mt-2">
+          {errorMessage(saveMutation.error, 'Failed to save roles')}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function InvitationList({ invitations }: { invitations: Invitation[] }) {
+  const queryClient = useQueryClient();
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      await apiClient.delete(`/operational/operators/invitations/${invitationId}`);
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['operator-invitations'] });
+    },
+  });
+
+  return (
+    <table className="table w-full">
+      <thead>
+        <tr>
+          <th>Email</th>
+          <th>Roles</th>
+          <th>Status</th>
+          <th>Expires</th>
+          <th></th>
+        </tr>
+      </thead>
+      <tbody>
+        {invitations.map((invitation) => (
+          <tr key={invitation.id}>
+            <td>{invitation.email}</td>
+            <td className="text-sm">
+              {invitation.roles.map((role) => ROLE_LABELS[role]).join(', ')}
+            </td>
+            <td>
+              <span className="badge badge-outline">{invitation.status}</span>
+            </td>
+            <td className="text-sm text-gray-500">
+              {new Date(invitation.expiresAt).toLocaleDateString()}
+            </td>
+            <td>
+              {invitation.status === 'pending' && (
+                <button
+                  onClick={() => revokeMutation.mutate(invitation.id)}
+                  disabled={revokeMutation.isPending}
+                  className="btn btn-xs btn-ghost text-red-600"
+                >
+                  Revoke
+                </button>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
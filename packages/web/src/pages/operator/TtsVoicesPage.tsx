@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '../../api/client';
+
+type TtsEngine = 'espeak-ng' | 'piper';
+
+interface TtsVoice {
+  language: string;
+  engine: TtsEngine;
+  voice: string;
+  enabled: boolean;
+  updatedAt: string | null;
+}
+
+interface TtsVoicesResponse {
+  voices: TtsVoice[];
+  languages: string[];
+  engines: TtsEngine[];
+}
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  EN: 'English',
+  ES: 'Spanish',
+  IT: 'Italian',
+  PT: 'Portuguese',
+  SL: 'Slovenian',
+};
+
+const VOICE_PLACEHOLDERS: Record<TtsEngine, string> = {
+  'espeak-ng': 'e.g. es, pt-br',
+  piper: 'e.g. es_ES-davefx-medium',
+};
+
+export function TtsVoicesPage() {
+  const { data, isLoading, error } = useQuery<TtsVoicesResponse>({
+    queryKey: ['tts-voices'],
+    queryFn: async () => {
+      const response = await apiClient.get<TtsVoicesResponse>('/operational/tts-voices');
+      return response.data;
+    },
+  });
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">Text-to-Speech Voices</h1>
+        <p className="text-gray-600 mt-1">
+          Choose the voice used to generate audio for approved utterances in each language
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8">Loading voices...</div>
+      ) : error || !data ? (
+        <div className="text-center py-8 text-red-600">Failed to load voices</div>
+      ) : (
+        <div className="space-y-4">
+          {data.languages.map((language) => (
+            <VoiceForm
+              key={language}
+              language={language}
+              engines={data.engines}
+              current={data.voices.find((v) => v.language === language) ?? null}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface VoiceFormProps {
+  language: string;
+  engines: TtsEngine[];
+  current: TtsVoice | null;
+}
+
+function VoiceForm({ language, engines, current }: VoiceFormProps) {
+  const queryClient = useQueryClient();
+  const [engine, setEngine] = useState<TtsEngine>(current?.engine ?? 'espeak-ng');
+  const [voice, setVoice] = useState(current?.voice ?? '');
+  const [enabled, setEnabled] = useState(current?.enabled ?? false);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiClient.put<TtsVoice>(`/operational/tts-voices/${language}`, {
+        engine,
+        voice: voice.trim(),
+        enabled,
+      });
+      return response.data;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['tts-voices'] });
+    },
+  });
+
+  const isDirty =
+    !current ||
+    current.engine !== engine ||
+    current.voice !== voice.trim() ||
+    current.enabled !== enabled;
+
+  return (
+    <div className="border rounded-lg bg-white shadow-sm p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold">
+          {LANGUAGE_NAMES[language] ?? language}{' '}
+          <span className="text-sm text-gray-500">({language})</span>
+        </h2>
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            className="toggle toggle-primary"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+          />
+          {enabled ? 'Generating audio' : 'Disabled'}
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-sm text-gray-600 mb-1">Engine</label>
+          <select
+            value={engine}
+            onChange={(e) => setEngine(e.target.value as TtsEngine)}
+            className="input w-40"
+          >
+            {engines.map((e) => (
+              <option key={e} value={e}>
+                {e}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1 min-w-[12rem]">
+          <label className="block text-sm text-gray-600 mb-1">Voice</label>
+          <input
+            type="text"
+            value={voice}
+            onChange={(e) => setVoice(e.target.value)}
+            placeholder={VOICE_PLACEHOLDERS[engine]}
+            className="input w-full"
+          />
+        </div>
+        <button
+          onClick={() => saveMutation.mutate()}
+          disabled={!isDirty || !/^[\w-]+$/.test(voice.trim()) || saveMutation.isPending}
+          className="btn btn-primary"
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+
+      {saveMutation.isError && (
+        <p className="text-sm text-red-600 mt-2">Failed to save voice. Please try again.</p>
+      )}
+      {current?.updatedAt && (
+        <p className="text-xs text-gray-500 mt-2">
+          Last updated {new Date(current.updatedAt).toLocaleString()}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useAuth } from '@/contexts/AuthContext';
+import { authApi } from '@/api/auth';
+import { AxiosError } from 'axios';
+
+const acceptInvitationSchema = z
+  .object({
+    password: z
+      .string()
+      .min(8, 'Password must be at least 8 characters')
+      .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+      .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+      .regex(/[0-9]/, 'Password must contain at least one number'),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ['confirmPassword'],
+  });
+
+type AcceptInvitationFormData = z.infer<typeof acceptInvitationSchema>;
+
+/**
+ * Landing page of an operator invitation link: choose a password to
+ * create the operator account
+ */
+export function AcceptInvitationPage() {
+  const { login } = useAuth();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [apiError, setApiError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<AcceptInvitationFormData>({
+    // @ts-expect-error - zod 4.x type incompatibility with react-hook-form resolvers
+    resolver: zodResolver(acceptInvitationSchema),
+  });
+
+  const onSubmit = async (data: AcceptInvitationFormData): Promise<void> => {
+    if (!token) return;
+    setApiError(null);
+
+    try {
+      const operator = await authApi.acceptInvitation({ token, password: data.password });
+      await login({ email: operator.email, password: data.password });
+      window.location.href = '/operator/pipelines';
+    } catch (error) {
+      const axiosError = error as AxiosError<{ error: { message: string } }>;
+      setApiError(
+        axiosError.response?.data?.error?.message ||
+          'Could not accept invitation. Please try again.'
+      );
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4 py-12">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">PolyLadder</h1>
+          <h2 className="mt-6 text-xl text-gray-700">Join as an operator</h2>
+        </div>
+
+        {!token ? (
+          <div className="card text-center text-gray-700">
+            This invitation link is incomplete. Ask your admin for a new one.
+          </div>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSubmit(onSubmit)(e).catch((err: Error) => {
+                console.error('Form submission error:', err);
+              });
+            }}
+            className="mt-8 space-y-6 card"
+          >
+            {apiError && (
+              <div
+                className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded"
+                role="alert"
+              >
+                {apiError}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                Password
+              </label>
+              <input
+                {...register('password')}
+                type="password"
+                id="password"
+                autoComplete="new-password"
+                className="input mt-1"
+                placeholder="••••••••"
+              />
+              {errors.password && (
+                <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+                Confirm Password
+              </label>
+              <input
+                {...register('confirmPassword')}
+                type="password"
+                id="confirmPassword"
+                autoComplete="new-password"
+                className="input mt-1"
+                placeholder="••••••••"
+              />
+              {errors.confirmPassword && (
+                <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'Creating account...' : 'Create operator account'}
+            </button>
+
+            <p className="text-center text-sm text-gray-600">
+              Already have an account?{' '}
+              <Link to="/login" className="text-primary-600 hover:text-primary-700 font-medium">
+                Sign in
+              </Link>
+            </p>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { authApi } from '@/api/auth';
+import { AxiosError } from 'axios';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+export function ForgotPasswordPage() {
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordFormData>({
+    // @ts-expect-error - zod 4.x type incompatibility with react-hook-form resolvers
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData): Promise<void> => {
+    setApiError(null);
+
+    try {
+      await authApi.requestPasswordReset(data.email);
+      setSent(true);
+    } catch (error) {
+      const axiosError = error as AxiosError<{ error: { message: string } }>;
+      setApiError(axiosError.response?.data?.error?.message || 'Request failed. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">PolyLadder</h1>
+          <h2 className="mt-6 text-xl text-gray-700">Reset your password</h2>
+        </div>
+
+        {sent ? (
+          <div className="card text-center space-y-4">
+            <p className="text-gray-700">
+              If an account exists for this address, we've sent a link to reset its password. The
+              link expires in 1 hour.
+            </p>
+            <Link to="/login" className="text-primary-600 hover:text-primary-700 font-medium">
+              Back to sign in
+            </Link>
+          </div>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSubmit(onSubmit)(e).catch((err: Error) => {
+                console.error('Form submission error:', err);
+              });
+            }}
+            className="mt-8 space-y-6 card"
+          >
+            {apiError && (
+              <div
+                className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded"
+                role="alert"
+              >
+                {apiError}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                Email address
+              </label>
+              <input
+                {...register('email')}
+                type="email"
+                id="email"
+                autoComplete="email"
+                className="input mt-1"
+                placeholder="you@example.com"
+              />
+              {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>}
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'Sending...' : 'Send reset link'}
+            </button>
+
+            <p className="text-center text-sm text-gray-600">
+              Remembered it?{' '}
+              <Link to="/login" className="text-primary-600 hover:text-primary-700 font-medium">
+                Sign in
+              </Link>
+            </p>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
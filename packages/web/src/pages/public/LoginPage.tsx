@@ -6,6 +6,7 @@ import { z } from 'zod';
 import { Eye, EyeOff } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { AxiosError } from 'axios';
+import { User } from '@/types';
 
 const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -14,10 +15,24 @@ const loginSchema = z.object({
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
+function errorMessage(error: unknown): string {
+  const axiosError = error as AxiosError<{ error: { message: string } }>;
+  return axiosError.response?.data?.error?.message || 'Login failed. Please try again.';
+}
+
+// Navigate using window.location.href for a full page reload
+// The reloaded app restores the session from the refresh cookie
+function enterApp(user: User): void {
+  window.location.href = user.role === 'operator' ? '/operator/pipelines' : '/dashboard';
+}
+
 export function LoginPage() {
-  const { login } = useAuth();
+  const { login, completeTwoFactorLogin } = useAuth();
   const [apiError, setApiError] = useState<string | null>(null);
   const [showPassword, setShowPassword] = useState(false);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
 
   const {
     register,
@@ -32,20 +47,103 @@ export function LoginPage() {
     setApiError(null);
 
     try {
-      const loggedInUser = await login(data);
-      // Navigate immediately using window.location.href for full page reload
-      // This ensures ProtectedRoute sees the updated auth state from localStorage
-      if (loggedInUser.role === 'operator') {
-        window.location.href = '/operator/pipelines';
-      } else {
-        window.location.href = '/dashboard';
+      const result = await login(data);
+      if (result.status === 'two_factor_required') {
+        setChallengeToken(result.challengeToken);
+        return;
       }
+      enterApp(result.user);
     } catch (error) {
-      const axiosError = error as AxiosError<{ error: { message: string } }>;
-      setApiError(axiosError.response?.data?.error?.message || 'Login failed. Please try again.');
+      setApiError(errorMessage(error));
     }
   };
 
+  const onSubmitCode = async (): Promise<void> => {
+    if (!challengeToken) return;
+    setApiError(null);
+    setIsVerifying(true);
+
+    try {
+      enterApp(await completeTwoFactorLogin(challengeToken, code));
+    } catch (error) {
+      const axiosError = error as AxiosError<{ error: { code?: string } }>;
+      // An expired challenge needs the password again
+      if (axiosError.response?.data?.error?.code === 'INVALID_CHALLENGE') {
+        setChallengeToken(null);
+      }
+      setApiError(errorMessage(error));
+      setIsVerifying(false);
+    }
+  };
+
+  if (challengeToken) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+        <div className="max-w-md w-full space-y-8">
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-900">PolyLadder</h1>
+            <h2 className="mt-6 text-xl text-gray-700">Two-factor authentication</h2>
+          </div>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              void onSubmitCode();
+            }}
+            className="mt-8 space-y-6 card"
+          >
+            {apiError && (
+              <div
+                className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded"
+                role="alert"
+              >
+                {apiError}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                Authentication code
+              </label>
+              <input
+                id="code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                autoFocus
+                className="input mt-1"
+                placeholder="123456"
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                Enter the code from your authenticator app, or one of your recovery codes.
+              </p>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isVerifying || code.trim() === ''}
+              className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isVerifying ? 'Verifying...' : 'Verify'}
+            </button>
+
+            <button
+              type="button"
+              onClick={() => {
+                setChallengeToken(null);
+                setCode('');
+                setApiError(null);
+              }}
+              className="w-full text-center text-sm text-gray-600 hover:text-gray-800"
+            >
+              Back to sign in
+            </button>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
       <div className="max-w-md w-full space-y-8">
@@ -113,6 +211,14 @@ export function LoginPage() {
             {errors.password && (
               <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
             )}
+            <div className="mt-2 text-right">
+              <Link
+                to="/forgot-password"
+                className="text-sm text-primary-600 hover:text-primary-700"
+              >
+                Forgot password?
+              </Link>
+            </div>
           </div>
 
           <button
@@ -20,7 +20,6 @@ const registerSchema = z
     baseLanguage: z.enum(['EN', 'ES', 'PT', 'IT', 'SL'], {
       message: 'Please select a base language',
     }),
-    role: z.enum(['learner', 'operator']).optional(),
   })
   .refine((data) => data.password === data.confirmPassword, {
     message: "Passwords don't match",
@@ -43,7 +42,6 @@ export function RegisterPage() {
     // @ts-expect-error - zod 4.x type incompatibility with react-hook-form resolvers
     resolver: zodResolver(registerSchema),
     defaultValues: {
-      role: 'learner',
       baseLanguage: 'EN',
     },
   });
@@ -52,19 +50,14 @@ export function RegisterPage() {
     setApiError(null);
 
     try {
-      const registeredUser = await registerUser({
+      await registerUser({
         email: data.email,
         password: data.password,
         baseLanguage: data.baseLanguage,
-        role: data.role,
       });
       // Navigate immediately using window.location.href for full page reload
-      // This ensures ProtectedRoute sees the updated auth state from localStorage
-      if (registeredUser.role === 'operator') {
-        window.location.href = '/operator/pipelines';
-      } else {
-        window.location.href = '/dashboard';
-      }
+      // The reloaded app restores the session from the refresh cookie
+      window.location.href = '/dashboard';
     } catch (error) {
       const axiosError = error as AxiosError<{ error: { message: string } }>;
       setApiError(
@@ -190,17 +183,6 @@ export function RegisterPage() {
             <p className="mt-1 text-xs text-gray-500">The language used for UI and explanations</p>
           </div>
 
-          <div>
-            <label htmlFor="role" className="block text-sm font-medium text-gray-700">
-              Account Type
-            </label>
-            <select {...register('role')} id="role" className="input mt-1">
-              <option value="learner">Learner</option>
-              <option value="operator">Operator (Content Reviewer)</option>
-            </select>
-            {errors.role && <p className="mt-1 text-sm text-red-600">{errors.role.message}</p>}
-          </div>
-
           <button
             type="submit"
             disabled={isSubmitting}
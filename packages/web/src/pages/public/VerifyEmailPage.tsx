@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { AxiosError } from 'axios';
+import { authApi } from '@/api/auth';
+import { useAuth } from '@/contexts/AuthContext';
+
+type VerificationState = 'verifying' | 'verified' | 'failed';
+
+/**
+ * Landing page of an email verification link
+ */
+export function VerifyEmailPage() {
+  const { isAuthenticated } = useAuth();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [state, setState] = useState<VerificationState>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState<string>('This verification link is incomplete.');
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single-use: StrictMode's second effect run must not resend
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    authApi
+      .verifyEmail(token)
+      .then(() => setState('verified'))
+      .catch((err: unknown) => {
+        const axiosError = err as AxiosError<{ error: { message: string } }>;
+        setError(axiosError.response?.data?.error?.message || 'Could not verify your email.');
+        setState('failed');
+      });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">PolyLadder</h1>
+          <h2 className="mt-6 text-xl text-gray-700">Email verification</h2>
+        </div>
+
+        <div className="card text-center space-y-4">
+          {state === 'verifying' && <p className="text-gray-700">Verifying your email...</p>}
+          {state === 'verified' && (
+            <>
+              <p className="text-gray-700">Your email address is confirmed.</p>
+              {isAuthenticated ? (
+                // Full reload so the app picks up the verified profile
+                <a href="/dashboard" className="btn-primary inline-block">
+                  Start learning
+                </a>
+              ) : (
+                <Link to="/login" className="btn-primary inline-block">
+                  Sign in
+                </Link>
+              )}
+            </>
+          )}
+          {state === 'failed' && (
+            <>
+              <p className="text-red-700">{error}</p>
+              <p className="text-sm text-gray-600">Sign in to request a new verification email.</p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
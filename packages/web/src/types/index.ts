@@ -4,6 +4,7 @@ export interface User {
   email: string;
   role: 'learner' | 'operator';
   createdAt: string;
+  emailVerified?: boolean;
 }
 
 export interface Language {